@@ -48,6 +48,12 @@ const nextConfig = {
   // Configuration du build
   poweredByHeader: false,
 
+  // Polices lues à l'exécution par le générateur de factures PDF
+  outputFileTracingIncludes: {
+    '/api/generate-invoice': ['./public/fonts/**'],
+    '/api/generate-credit-note': ['./public/fonts/**'],
+  },
+
   // Optimisation des bundles
   webpack: (config, { isServer }) => {
     if (!isServer) {
@@ -1,6 +1,7 @@
 'use server';
 
 import { createClientServer } from '@/lib/supabase';
+import { mergeGuestCartOnSignIn } from '@/services/cart/guest-cart';
 import { redirect } from 'next/navigation';
 
 export async function signIn(formData: FormData) {
@@ -51,6 +52,11 @@ export async function signIn(formData: FormData) {
     console.log('Server Action: Admin detected, redirecting to /admin');
     redirect('/admin');
   } else {
+    // Whatever the visitor put in their cart before signing in joins their account cart
+    if (user) {
+      await mergeGuestCartOnSignIn(user.id);
+    }
+
     console.log('Server Action: Non-admin user detected, redirecting to /profile');
     redirect('/profile');
   }
@@ -1,6 +1,12 @@
 'use server';
 
 import { createClientServer } from '@/lib/supabase';
+import { cartService } from '@/services/cart/cart.service';
+import { mergeGuestCartOnSignIn, readGuestCartToken, writeGuestCartCookie } from '@/services/cart/guest-cart';
+import { getOrderPricing } from '@/services/orders/order-pricing';
+import { calculateOrderTotals, OrderPricing } from '@/services/orders/order-totals';
+import { Cart, OrderTotals } from '@/types/business';
+import { ServiceResult } from '@/types/common';
 import { revalidatePath } from 'next/cache';
 
 // Define Product type (consider moving to a shared types file)
@@ -12,6 +18,15 @@ interface Product {
   image_url: string | null;
 }
 
+// Jar size chosen for the cart line
+interface ProductVariant {
+  id: string;
+  name: string;
+  sku: string;
+  weight_grams: number | null;
+  price: number;
+}
+
 // Define CartItemWithProduct type
 interface CartItemWithProduct {
   id: string;
@@ -27,6 +42,26 @@ interface SupabaseCartItem {
   products: Product[] | Product | null; 
 }
 
+// A cart line as the cart and checkout pages show it
+interface CartLine {
+  id: string;
+  quantity: number;
+  product: Product | null;
+  variant: ProductVariant | null;
+  unitPrice: number;
+}
+
+// What getCartItems returns, for a customer's cart and a guest's alike
+interface CartItemsResult {
+  items: CartLine[];
+  subtotal: number;
+  shipping?: number;
+  grandTotal?: number;
+  pricing?: OrderPricing;
+  totals?: OrderTotals;
+  error: string | null;
+}
+
 
 // Helper function to get or create a cart for the current user
 async function getOrCreateCart(supabase: any, userId: string) {
@@ -63,83 +98,128 @@ async function getOrCreateCart(supabase: any, userId: string) {
   return cart;
 }
 
-export async function addItemToCart(productId: string, quantity: number) {
-  console.log(`addItemToCart: Received productId: ${productId}, quantity: ${quantity}`); // Log received parameters
-  const supabase = await createClientServer();
-  const { data: { user }, error: userError } = await supabase.auth.getUser();
+// Tax and delivery fee come from store settings; totals use the same calculation as orders
+async function withTotals(items: CartLine[]): Promise<CartItemsResult> {
+  const pricing = await getOrderPricing();
+  const totals = calculateOrderTotals({
+    items: items.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice })),
+    pricing,
+  });
+
+  return {
+    items,
+    subtotal: totals.subtotal,
+    shipping: totals.shippingAmount,
+    grandTotal: totals.total,
+    pricing,
+    totals,
+    error: null
+  };
+}
 
-  if (userError || !user) {
-    console.error('User not authenticated for addItemToCart');
-    return { success: false, message: 'User not authenticated.' };
+// Visitors who are not signed in get a cart tied to a signed cookie. It goes
+// through the cart service, so it is checked the same way as a customer's.
+async function addItemToGuestCart(productId: string, quantity: number, variantId?: string) {
+  try {
+    const token = (await readGuestCartToken()) ?? crypto.randomUUID();
+    const result = await cartService.addGuestItem(token, { productId, quantity, variantId });
+    if (!result.success) {
+      return { success: false, message: result.error?.message || 'Failed to add item to cart.' };
+    }
+
+    await writeGuestCartCookie(token);
+
+    revalidatePath('/cart');
+    return { success: true, message: 'Item added to cart.' };
+  } catch (error: any) {
+    console.error('addItemToGuestCart Error:', error);
+    return { success: false, message: error.message || 'Failed to add item to cart.' };
   }
+}
 
+async function getGuestCartItems(): Promise<CartItemsResult> {
   try {
-    // Fetch product details for logging and validation
-    const { data: productData, error: productError } = await supabase
-      .from('products')
-      .select('id, name, price')
-      .eq('id', productId)
-      .single();
+    const token = await readGuestCartToken();
+    const result = token ? await cartService.getGuestCart(token) : null;
+    if (result && !result.success) {
+      throw new Error(result.error?.message || 'Could not retrieve cart items.');
+    }
+
+    const items = (result?.data?.items ?? []).map((item): CartLine => ({
+      id: item.id,
+      quantity: item.quantity,
+      product: {
+        id: item.product.id,
+        name: item.product.name,
+        price: item.product.price,
+        image_url: item.product.imageUrl ?? null,
+        description: item.product.description ?? null,
+      },
+      variant: item.variant
+        ? {
+            id: item.variant.id,
+            name: item.variant.name,
+            sku: item.variant.sku,
+            weight_grams: item.variant.weightGrams ?? null,
+            price: item.variant.price,
+          }
+        : null,
+      unitPrice: item.unitPrice,
+    }));
+
+    return await withTotals(items);
+  } catch (error: any) {
+    console.error('getGuestCartItems Error:', error);
+    return { items: [], subtotal: 0, error: error.message || 'Failed to retrieve cart items.' };
+  }
+}
 
-    if (productError || !productData) {
-      console.error(`addItemToCart: Product with ID ${productId} not found or error fetching. Error: ${productError?.message}`);
-      return { success: false, message: `Product with ID ${productId} not found.` };
+// Applies a change to the visitor's guest cart; they have none until they add something
+async function changeGuestCart(
+  change: (token: string) => Promise<ServiceResult<void>>,
+  message: string,
+  revalidate = true
+) {
+  try {
+    const token = await readGuestCartToken();
+    if (!token) {
+      return { success: false, message: 'Cart not found.' };
     }
-    console.log('addItemToCart: Fetched product details:', JSON.stringify(productData, null, 2));
-    if (typeof productData.price !== 'number') {
-      console.error(`addItemToCart: Product ${productData.name} (ID: ${productId}) has an invalid price: ${productData.price}`);
-      return { success: false, message: `Product ${productData.name} has an invalid price.` };
+
+    const result = await change(token);
+    if (!result.success) {
+      return { success: false, message: result.error?.message || 'Failed to update cart.' };
     }
 
+    // Renews the cookie, which lapses a while after the cart last changed
+    await writeGuestCartCookie(token);
 
-    const cart = await getOrCreateCart(supabase, user.id);
+    if (revalidate) {
+      revalidatePath('/cart');
+    }
+    return { success: true, message };
+  } catch (error: any) {
+    console.error('changeGuestCart Error:', error);
+    return { success: false, message: error.message || 'Failed to update cart.' };
+  }
+}
 
-    // Check if the item already exists in the cart
-    const { data: existingItem, error: existingItemError } = await supabase
-      .from('cart_items')
-      .select('id, quantity')
-      .eq('cart_id', cart.id)
-      .eq('product_id', productId)
-      .single();
+export async function addItemToCart(productId: string, quantity: number, variantId?: string) {
+  console.log(`addItemToCart: Received productId: ${productId}, quantity: ${quantity}, variantId: ${variantId}`); // Log received parameters
+  const supabase = await createClientServer();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
 
-    if (existingItemError && existingItemError.code !== 'PGRST116') {
-      console.error('Error checking for existing cart item:', existingItemError);
-      throw new Error('Could not check cart item.');
-    }
+  if (userError || !user) {
+    return addItemToGuestCart(productId, quantity, variantId);
+  }
 
-    if (existingItem) {
-      // Update quantity if item exists
-      const newQuantity = existingItem.quantity + quantity;
-      const { error: updateError } = await supabase
-        .from('cart_items')
-        .update({ quantity: newQuantity }) // updated_at will be handled by the trigger
-        .eq('id', existingItem.id);
-
-      if (updateError) {
-        console.error('Error updating cart item quantity:', updateError);
-        throw new Error('Could not update item quantity in cart.');
-      }
-    } else {
-      // Add new item if it doesn't exist
-      const { error: insertError } = await supabase
-        .from('cart_items')
-        .insert({
-          cart_id: cart.id,
-          product_id: productId,
-          quantity: quantity,
-        });
-
-      if (insertError) {
-        console.error('Error adding item to cart:', insertError);
-        throw new Error('Could not add item to cart.');
-      }
+  try {
+    // The cart service checks the product, that the size belongs to it and is
+    // still sold, and the stock, as it does for guests
+    const result = await cartService.addItem(user.id, { productId, quantity, variantId });
+    if (!result.success) {
+      return { success: false, message: result.error?.message || 'Failed to add item to cart.' };
     }
-    
-    // Update the cart's updated_at timestamp
-    await supabase
-      .from('carts')
-      .update({ updated_at: new Date().toISOString() })
-      .eq('id', cart.id);
 
     revalidatePath('/cart'); // Revalidate the cart page
     revalidatePath('/profile'); // Revalidate profile page if it shows cart info/count
@@ -152,13 +232,12 @@ export async function addItemToCart(productId: string, quantity: number) {
   }
 }
 
-export async function getCartItems() {
+export async function getCartItems(): Promise<CartItemsResult> {
   const supabase = await createClientServer();
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
-    console.error('User not authenticated for getCartItems');
-    return { items: [], total: 0, error: 'User not authenticated.' };
+    return getGuestCartItems();
   }
 
   try {
@@ -175,6 +254,13 @@ export async function getCartItems() {
           price,
           image_url,
           description
+        ),
+        product_variants (
+          id,
+          name,
+          sku,
+          weight_grams,
+          price
         )
       `)
       .eq('cart_id', cart.id);
@@ -186,44 +272,23 @@ export async function getCartItems() {
     
     const items = data as any[] | null; // Use a more general type assertion first
 
-    // Calculate total
-    let total = 0;
     const processedItems = items?.map((item) => {
       // Defensive access to product, assuming it might be an object or an array with one object
       const productArray = Array.isArray(item.products) ? item.products : [item.products];
       const actualProduct: Product | null = productArray[0] || null;
+      const variant: ProductVariant | null = item.product_variants || null;
       
-      const productPrice = actualProduct?.price ?? 0;
-      total += productPrice * item.quantity;
       return {
         id: item.id,
         quantity: item.quantity,
-        product: actualProduct 
+        product: actualProduct,
+        variant,
+        // The chosen size has its own price
+        unitPrice: variant ? variant.price : actualProduct?.price ?? 0,
       };
     }) || [];
     
-    // Fetch store settings for delivery fee using service role to avoid RLS issues
-    const supabaseAdmin = await createClientServer('service_role');
-    const { data: settingsRows, error: settingsError } = await supabaseAdmin
-      .from('store_settings')
-      .select('delivery_fee, updated_at')
-      .order('updated_at', { ascending: false })
-      .limit(1);
-    if (settingsError) {
-      console.warn('[Server] Error fetching store settings:', settingsError);
-    }
-    const settingsData = Array.isArray(settingsRows) ? settingsRows[0] : settingsRows;
-    const deliveryFee = settingsData?.delivery_fee || 0;
-    const shipping = deliveryFee; // Always apply delivery fee
-    const grandTotal = total + shipping;
-
-    return {
-      items: processedItems,
-      subtotal: total,
-      shipping,
-      grandTotal,
-      error: null
-    };
+    return await withTotals(processedItems);
 
   } catch (error: any) {
     console.error('getCartItems Error:', error);
@@ -237,7 +302,7 @@ export async function removeCartItem(cartItemId: string) {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
-    return { success: false, message: 'User not authenticated.' };
+    return changeGuestCart(token => cartService.removeGuestItem(token, cartItemId), 'Item removed from cart.');
   }
 
   try {
@@ -262,14 +327,18 @@ export async function updateCartItemQuantity(cartItemId: string, newQuantity: nu
   const supabase = await createClientServer();
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
-  if (userError || !user) {
-    return { success: false, message: 'User not authenticated.' };
-  }
-
   if (newQuantity <= 0) {
     return removeCartItem(cartItemId); // Or handle as an error/disallow
   }
 
+  if (userError || !user) {
+    return changeGuestCart(
+      token => cartService.updateGuestItem(token, { itemId: cartItemId, quantity: newQuantity }),
+      'Item quantity updated.',
+      false
+    );
+  }
+
   try {
     const { error: updateError } = await supabase
       .from('cart_items')
@@ -294,8 +363,7 @@ export async function clearCart() {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
-    console.error('User not authenticated for clearCart');
-    return { success: false, message: 'User not authenticated.' };
+    return changeGuestCart(token => cartService.clearGuestCart(token), 'Cart cleared successfully.');
   }
 
   try {
@@ -322,3 +390,29 @@ export async function clearCart() {
     return { success: false, message: error.message || 'Failed to clear cart.' };
   }
 }
+
+// The visitor's guest cart for the cart context; null until they add something
+export async function getGuestCart(): Promise<Cart | null> {
+  const token = await readGuestCartToken();
+  if (!token) {
+    return null;
+  }
+
+  const result = await cartService.getGuestCart(token);
+  return result.success ? result.data ?? null : null;
+}
+
+// Signing in merges the guest cart on the server; registering signs the new
+// customer in from the browser, so the register page calls this afterwards
+export async function mergeGuestCartIntoAccount() {
+  const supabase = await createClientServer();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  await mergeGuestCartOnSignIn(user.id);
+  revalidatePath('/cart');
+  return { success: true, message: 'Guest cart merged.' };
+}
@@ -1,10 +1,15 @@
 'use server';
 
-import { orderService } from '@/services/orders/orders.service';
+import { checkoutService, orderService } from '@/services/orders/orders.service';
+import { priceOrder } from '@/services/orders/order-pricing';
 import { createClient } from '@supabase/supabase-js';
+import { ValidationError } from '@/lib/errors/custom-errors';
 import { logger } from '@/lib/logger';
 import { createClientServer } from '@/lib/supabase/server';
 import { getCartItems } from '@/actions/cartActions';
+import { cartService } from '@/services/cart/cart.service';
+import { readGuestCartToken } from '@/services/cart/guest-cart';
+import { PaymentMethod } from '@/types/enums';
 
 // Create order function
 export async function createOrder(orderData: any) {
@@ -67,8 +72,41 @@ export async function getCustomerDetailsForCheckout(customerId: string) {
   }
 }
 
+// Price the current cart with an optional discount code and shipping city, as the order will be priced
+export async function getCheckoutTotals(discountCode?: string, shippingCity?: string) {
+  try {
+    const supabase = await createClientServer();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Guests are priced from their guest cart, without a customer
+    const cart = await getCartItems();
+    const items = (cart.items || [])
+      .filter((i: any) => i.product)
+      .map((it: any) => ({
+        productId: it.product.id,
+        variantId: it.variant?.id,
+        quantity: it.quantity,
+        unitPrice: it.unitPrice,
+      }));
+
+    const totals = await priceOrder(items, {
+      customerId: user?.id,
+      discountCode: discountCode?.trim() || undefined,
+      shippingCity: shippingCity?.trim() || undefined,
+    });
+
+    return { success: true, data: totals };
+  } catch (error) {
+    logger.error('Error in getCheckoutTotals action', error as Error);
+    const message = error instanceof Error ? error.message : 'Failed to calculate totals';
+    // Lets the checkout tell an undeliverable address apart from a bad discount code
+    const code = error instanceof ValidationError ? error.code : undefined;
+    return { success: false, error: message, code };
+  }
+}
+
 // Create order with payment method
-export async function createOrderWithPaymentMethod(_: any, paymentMethod: string) {
+export async function createOrderWithPaymentMethod(orderData: { discountCode?: string } | null, paymentMethod: string) {
   try {
     // Build trusted order data on the server from the authenticated user's cart and address
     const supabase = await createClientServer();
@@ -83,7 +121,6 @@ export async function createOrderWithPaymentMethod(_: any, paymentMethod: string
     if (!items || items.length === 0) {
       return { success: false, error: 'سلة التسوق فارغة' };
     }
-    const shipping = Number(cart.shipping || 0);
 
     // Fetch customer's default/shipping address
     const { data: address, error: addrErr } = await supabase
@@ -106,8 +143,9 @@ export async function createOrderWithPaymentMethod(_: any, paymentMethod: string
     // Map items to CreateOrderItemData
     const orderItems = items.map((it: any) => ({
       productId: it.product.id,
+      variantId: it.variant?.id,
       quantity: it.quantity,
-      unitPrice: it.product.price ?? 0,
+      unitPrice: it.unitPrice,
     }));
 
     const createData: any = {
@@ -115,13 +153,22 @@ export async function createOrderWithPaymentMethod(_: any, paymentMethod: string
       items: orderItems,
       shippingAddressId: address.id,
       paymentMethod: paymentMethod as any,
-      deliveryFee: shipping,
+      discountCode: orderData?.discountCode?.trim() || undefined,
       notes: undefined,
     };
 
     const result = await orderService.createOrder(createData);
     
-    if (result.success) {
+    if (result.success && result.data) {
+      // The cart's items are now the order's
+      const convertResult = await cartService.convertCart(user.id, result.data.id);
+      if (!convertResult.success) {
+        logger.warn('Failed to clear cart after order', {
+          action: 'createOrderWithPaymentMethod',
+          orderId: result.data.id,
+          error: convertResult.error?.message,
+        });
+      }
       return { success: true, data: result.data };
     } else {
       return { success: false, error: result.error };
@@ -130,4 +177,63 @@ export async function createOrderWithPaymentMethod(_: any, paymentMethod: string
     logger.error('Error in createOrderWithPaymentMethod action', error as Error);
     return { success: false, error: 'Failed to create order with payment method' };
   }
-}
\ No newline at end of file
+}
+
+// Contact and delivery details entered by a guest on the checkout page
+export interface GuestCheckoutDetails {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  addressLine1: string;
+  city: string;
+  postalCode?: string;
+}
+
+// Place an order from the visitor's guest cart without an account
+export async function createGuestOrder(
+  details: GuestCheckoutDetails,
+  paymentMethod: string,
+  discountCode?: string,
+  notes?: string
+) {
+  try {
+    const guestCartToken = await readGuestCartToken();
+    if (!guestCartToken) {
+      return { success: false, error: 'سلة التسوق فارغة' };
+    }
+
+    const result = await checkoutService.processGuestCheckout({
+      ...details,
+      guestCartToken,
+      paymentMethod: paymentMethod as PaymentMethod,
+      discountCode: discountCode?.trim() || undefined,
+      notes: notes?.trim() || undefined,
+    });
+
+    if (result.success) {
+      return { success: true, data: result.data };
+    } else {
+      return { success: false, error: result.error };
+    }
+  } catch (error) {
+    logger.error('Error in createGuestOrder action', error as Error);
+    return { success: false, error: 'Failed to create order' };
+  }
+}
+
+// Register the guest who placed an order, from its confirmation page
+export async function createAccountFromGuestOrder(accessToken: string, password: string) {
+  try {
+    const result = await checkoutService.createGuestAccount(accessToken, password);
+
+    if (result.success) {
+      return { success: true };
+    } else {
+      return { success: false, error: result.error };
+    }
+  } catch (error) {
+    logger.error('Error in createAccountFromGuestOrder action', error as Error);
+    return { success: false, error: 'Failed to create account' };
+  }
+}
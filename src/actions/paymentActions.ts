@@ -0,0 +1,36 @@
+'use server';
+
+import { createClientServer } from '@/lib/supabase';
+import { MockPaymentProvider, PaymentAccess, paymentService } from '@/services/payments';
+import { notFound, redirect } from 'next/navigation';
+
+// The signed-in customer, and the token a guest opened the payment page with
+async function getPaymentAccess(accessToken?: string): Promise<PaymentAccess> {
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { customerId: user?.id, accessToken: accessToken || undefined };
+}
+
+// Opens a session with the gateway and sends the customer to its payment page
+export async function startOrderPayment(orderId: string, accessToken?: string) {
+  const result = await paymentService.startPayment(orderId, await getPaymentAccess(accessToken));
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error?.message || 'Failed to start payment', code: result.error?.code };
+  }
+
+  redirect(result.data.redirectUrl);
+}
+
+// The pay and decline buttons of the mock gateway's page
+export async function completeMockPayment(sessionId: string, paid: boolean) {
+  const provider = paymentService.getProvider();
+  if (!(provider instanceof MockPaymentProvider) || process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  redirect(provider.complete(sessionId, paid));
+}
@@ -0,0 +1,37 @@
+'use server';
+
+import { createClientServer } from '@/lib/supabase';
+import { ReviewFormSchema, type ReviewFormInput } from '@/lib/validation';
+import { reviewService } from '@/services/reviews/reviews.service';
+import { revalidatePath } from 'next/cache';
+
+export async function submitReview(input: ReviewFormInput) {
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const parsed = ReviewFormSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, message: parsed.error.issues[0]?.message || 'Invalid review.' };
+  }
+
+  const result = await reviewService.submitReview(user.id, {
+    productId: parsed.data.productId,
+    rating: parsed.data.rating,
+    title: parsed.data.title || undefined,
+    comment: parsed.data.comment,
+  });
+
+  if (!result.success) {
+    return { success: false, code: result.error?.code, message: result.error?.message || 'Failed to submit review.' };
+  }
+
+  revalidatePath(`/products/${parsed.data.productId}`);
+  return { success: true, message: 'Review submitted for approval.' };
+}
@@ -0,0 +1,65 @@
+'use server';
+
+import { createClientServer } from '@/lib/supabase';
+import { wishlistService } from '@/services/wishlist/wishlist.service';
+import { revalidatePath } from 'next/cache';
+
+async function getCustomerId(): Promise<string | null> {
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  return error || !user ? null : user.id;
+}
+
+// Adds or removes the product; returns whether it is now in the wishlist
+export async function toggleWishlistItem(productId: string, wishlisted: boolean) {
+  const customerId = await getCustomerId();
+  if (!customerId) {
+    return { success: false, wishlisted, message: 'User not authenticated.' };
+  }
+
+  const result = wishlisted
+    ? await wishlistService.removeItem(customerId, productId)
+    : await wishlistService.addItem(customerId, productId);
+
+  if (!result.success) {
+    return { success: false, wishlisted, message: result.error?.message || 'Failed to update wishlist.' };
+  }
+
+  revalidatePath('/wishlist');
+  return { success: true, wishlisted: !wishlisted, message: 'Wishlist updated.' };
+}
+
+export async function removeWishlistItem(productId: string) {
+  const customerId = await getCustomerId();
+  if (!customerId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const result = await wishlistService.removeItem(customerId, productId);
+  if (!result.success) {
+    return { success: false, message: result.error?.message || 'Failed to remove item.' };
+  }
+
+  revalidatePath('/wishlist');
+  return { success: true, message: 'Item removed from wishlist.' };
+}
+
+export async function moveWishlistItemToCart(productId: string) {
+  const customerId = await getCustomerId();
+  if (!customerId) {
+    return { success: false, code: 'UNAUTHENTICATED', message: 'User not authenticated.' };
+  }
+
+  const result = await wishlistService.moveToCart(customerId, productId);
+  if (!result.success) {
+    return { success: false, code: result.error?.code, message: result.error?.message || 'Failed to move item.' };
+  }
+
+  revalidatePath('/wishlist');
+  revalidatePath('/cart');
+  return { success: true, message: 'Item moved to cart.' };
+}
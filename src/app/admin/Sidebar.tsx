@@ -13,6 +13,10 @@ import {
   Tags, // Icône pour catégories
   Package, // Icône pour produits
   ShoppingCart, // Icône pour commandes
+  MessageSquare, // Icône pour avis
+  ShoppingBasket, // Icône pour paniers abandonnés
+  Landmark, // Icône pour virements bancaires
+  Wallet, // Icône pour paiements à la livraison
 } from 'lucide-react';
 
 // Structure des liens pour faciliter la maintenance
@@ -22,6 +26,10 @@ const menuItems = [
   { href: '/admin/categories', label: 'الفئات', icon: Tags },
   { href: '/admin/products', label: 'المنتجات', icon: Package },
   { href: '/admin/orders', label: 'الطلبات', icon: ShoppingCart },
+  { href: '/admin/reviews', label: 'المراجعات', icon: MessageSquare },
+  { href: '/admin/abandoned-carts', label: 'السلال المتروكة', icon: ShoppingBasket },
+  { href: '/admin/bank-transfers', label: 'التحويلات البنكية', icon: Landmark },
+  { href: '/admin/cod', label: 'تحصيل الدفع عند الاستلام', icon: Wallet },
 ];
 
 const Sidebar = () => {
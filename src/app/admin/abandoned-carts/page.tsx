@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import AbandonedCartsPanel from '@/components/admin/AbandonedCartsPanel';
+
+export const metadata: Metadata = {
+  title: 'السلال المتروكة - لوحة تحكم المشرف',
+  description: 'متابعة السلال المتروكة وإرسال رسائل الاسترجاع',
+};
+
+export default function AdminAbandonedCartsPage() {
+  return (
+    <div className='space-y-6'>
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-gray-900 mb-2'>السلال المتروكة</h1>
+        <p className='text-gray-600'>متابعة السلال المتروكة وإرسال رسائل الاسترجاع</p>
+      </div>
+      <AbandonedCartsPanel />
+    </div>
+  );
+}
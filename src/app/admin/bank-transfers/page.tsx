@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import PaymentProofsPanel from '@/components/admin/PaymentProofsPanel';
+
+export const metadata: Metadata = {
+  title: 'التحويلات البنكية - لوحة تحكم المشرف',
+  description: 'التحقق من إيصالات التحويل البنكي وبيانات الحساب',
+};
+
+export default function AdminBankTransfersPage() {
+  return (
+    <div className='space-y-6'>
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-gray-900 mb-2'>التحويلات البنكية</h1>
+        <p className='text-gray-600'>التحقق من إيصالات التحويل البنكي وبيانات الحساب</p>
+      </div>
+      <PaymentProofsPanel />
+    </div>
+  );
+}
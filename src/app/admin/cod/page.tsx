@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import CodReconciliationPanel from '@/components/admin/CodReconciliationPanel';
+
+export const metadata: Metadata = {
+  title: 'تحصيل الدفع عند الاستلام - لوحة تحكم المشرف',
+  description: 'متابعة المبالغ المحصّلة لدى المندوبين ودفعات التسليم',
+};
+
+export default function AdminCodPage() {
+  return (
+    <div className='space-y-6'>
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-gray-900 mb-2'>تحصيل الدفع عند الاستلام</h1>
+        <p className='text-gray-600'>متابعة المبالغ المحصّلة لدى المندوبين ودفعات التسليم</p>
+      </div>
+      <CodReconciliationPanel />
+    </div>
+  );
+}
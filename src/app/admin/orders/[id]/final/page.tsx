@@ -3,6 +3,7 @@ import SimpleAdminOrderActions from '@/components/admin/SimpleAdminOrderActions'
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { shipmentService } from '@/services/delivery';
 import { createClient } from '@supabase/supabase-js';
 import { ArrowLeft, CreditCard, MapPin, Package, Phone, User } from 'lucide-react';
 import Image from 'next/image';
@@ -79,6 +80,12 @@ export default async function FinalPage({ params }: FinalPageProps) {
             في انتظار التأكيد
           </Badge>
         );
+      case 'Awaiting Payment':
+        return (
+          <Badge variant='outline' className='bg-blue-50 text-blue-700 border-blue-200'>
+            في انتظار الدفع
+          </Badge>
+        );
       case 'Confirmed':
         return (
           <Badge variant='outline' className='bg-green-50 text-green-700 border-green-200'>
@@ -104,6 +111,8 @@ export default async function FinalPage({ params }: FinalPageProps) {
         return 'الدفع عند الاستلام';
       case 'bank_transfer':
         return 'تحويل بنكي';
+      case 'credit_card':
+        return 'بطاقة بنكية';
       case 'paypal':
         return 'PayPal';
       default:
@@ -158,6 +167,7 @@ export default async function FinalPage({ params }: FinalPageProps) {
                       </div>
                       <div className='flex-grow'>
                         <h3 className='font-semibold text-gray-800'>{item.product?.name || 'منتج غير محدد'}</h3>
+                        {item.variant_name && <p className='text-sm text-gray-600'>الحجم: {item.variant_name}</p>}
                         <p className='text-sm text-gray-600'>الكمية: {item.quantity}</p>
                         <p className='text-sm text-gray-600'>السعر الوحدة: {item.price} د.ت</p>
                         {item.product?.description && (
@@ -175,7 +185,11 @@ export default async function FinalPage({ params }: FinalPageProps) {
           </Card>
 
           {/* Simplified Admin Actions */}
-          <SimpleAdminOrderActions orderId={id} currentStatus={order.status || 'Pending Confirmation'} />
+          <SimpleAdminOrderActions
+            orderId={id}
+            currentStatus={order.status || 'Pending Confirmation'}
+            carriers={shipmentService.getCarriers()}
+          />
         </div>
 
         {/* Order Summary & Details */}
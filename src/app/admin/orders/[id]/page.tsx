@@ -1,10 +1,28 @@
 // Version finale de la page admin avec workflow simplifié
+import CodCollectionForm from '@/components/admin/CodCollectionForm';
+import OrderEmailsPanel from '@/components/admin/OrderEmailsPanel';
+import OrderNoteForm from '@/components/admin/OrderNoteForm';
+import OrderRefundForm from '@/components/admin/OrderRefundForm';
 import SimpleAdminOrderActions from '@/components/admin/SimpleAdminOrderActions';
+import {
+  CreditNotesList,
+  InvoiceDownloadButton,
+  OrderTimeline,
+  OrderTotalsSummary,
+  ShipmentTracking,
+} from '@/components/business/orders';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { shipmentService } from '@/services/delivery';
+import { orderEmailService } from '@/services/notifications';
+import { mapOrderShipmentRow, pickShipmentRow } from '@/services/orders/order-shipment';
+import { orderTotalsFromRow } from '@/services/orders/order-totals';
+import { mapOrderTrackingRows } from '@/services/orders/order-tracking';
+import { codReconciliationService } from '@/services/payments';
+import { refundService } from '@/services/refunds';
 import { createClient } from '@supabase/supabase-js';
-import { ArrowLeft, CreditCard, MapPin, Package, Phone, User } from 'lucide-react';
+import { ArrowLeft, CreditCard, History, Mail, MapPin, Package, Phone, RotateCcw, Truck, User } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -29,7 +47,9 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
       order_items (
         *,
         products (*)
-      )
+      ),
+      order_tracking (*),
+      shipments (*)
     `
     )
     .eq('id', id)
@@ -60,6 +80,22 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
   // Fetch address info
   const { data: address } = await supabase.from('addresses').select('*').eq('customer_id', order.customer_id).single();
 
+  const tracking = mapOrderTrackingRows(order.order_tracking || []);
+  const shipmentRow = pickShipmentRow(order.shipments);
+  const shipment = shipmentRow ? mapOrderShipmentRow(shipmentRow) : undefined;
+  const { data: refundSummary } = await refundService.getRefundSummary(id);
+  const { data: orderEmails } = await orderEmailService.getOrderEmails(id);
+
+  // The cash the courier collected, once a cash on delivery order is delivered
+  const isCashOnDelivery = order.payment_method === 'cash_on_delivery';
+  const { data: codCollection } = isCashOnDelivery
+    ? await codReconciliationService.getCollection(id)
+    : { data: null };
+  const { data: couriers } =
+    isCashOnDelivery && order.status === 'Delivered' && !codCollection
+      ? await codReconciliationService.getCouriers()
+      : { data: [] };
+
   // Order items are already enriched with product data from the combined query
   let enrichedOrderItems =
     orderItems?.map((item: any) => ({
@@ -75,6 +111,12 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
             في انتظار التأكيد
           </Badge>
         );
+      case 'Awaiting Payment':
+        return (
+          <Badge variant='outline' className='bg-blue-50 text-blue-700 border-blue-200'>
+            في انتظار الدفع
+          </Badge>
+        );
       case 'Confirmed':
         return (
           <Badge variant='outline' className='bg-green-50 text-green-700 border-green-200'>
@@ -100,6 +142,8 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
         return 'الدفع عند الاستلام';
       case 'bank_transfer':
         return 'تحويل بنكي';
+      case 'credit_card':
+        return 'بطاقة بنكية';
       case 'paypal':
         return 'PayPal';
       default:
@@ -154,6 +198,7 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
                       </div>
                       <div className='flex-grow'>
                         <h3 className='font-semibold text-gray-800'>{item.product?.name || 'منتج غير محدد'}</h3>
+                        {item.variant_name && <p className='text-sm text-gray-600'>الحجم: {item.variant_name}</p>}
                         <p className='text-sm text-gray-600'>الكمية: {item.quantity}</p>
                         <p className='text-sm text-gray-600'>السعر الوحدة: {item.price} د.ت</p>
                         {item.product?.description && (
@@ -171,7 +216,25 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
           </Card>
 
           {/* Simplified Admin Actions */}
-          <SimpleAdminOrderActions orderId={id} currentStatus={order.status || 'Pending Confirmation'} />
+          <SimpleAdminOrderActions
+            orderId={id}
+            currentStatus={order.status || 'Pending Confirmation'}
+            carriers={shipmentService.getCarriers()}
+          />
+
+          {/* Order History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2'>
+                <History className='w-5 h-5' />
+                سجل الطلب
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-6'>
+              <OrderTimeline entries={tracking} variant='admin' />
+              <OrderNoteForm orderId={id} />
+            </CardContent>
+          </Card>
         </div>
 
         {/* Order Summary & Details */}
@@ -214,22 +277,32 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
             <CardHeader>
               <CardTitle>ملخص الطلب</CardTitle>
             </CardHeader>
-            <CardContent className='space-y-3'>
-              <div className='flex justify-between'>
-                <span>المجموع الفرعي:</span>
-                <span>{(order.total_amount - (order.delivery_fee || 0)).toFixed(2)} د.ت</span>
-              </div>
-              <div className='flex justify-between'>
-                <span>رسوم التوصيل:</span>
-                <span>{(order.delivery_fee || 0).toFixed(2)} د.ت</span>
-              </div>
-              <div className='border-t pt-3 flex justify-between text-lg font-bold text-honey-dark'>
-                <span>المجموع الإجمالي:</span>
-                <span>{order.total_amount.toFixed(2)} د.ت</span>
-              </div>
+            <CardContent>
+              <OrderTotalsSummary totals={orderTotalsFromRow(order)} />
+              <InvoiceDownloadButton
+                orderId={id}
+                status={order.status || 'Pending Confirmation'}
+                className='w-full mt-4'
+              />
             </CardContent>
           </Card>
 
+          {/* Refunds & Credit Notes */}
+          {refundSummary && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  <RotateCcw className='w-5 h-5' />
+                  الاسترجاع والإشعارات الدائنة
+                </CardTitle>
+              </CardHeader>
+              <CardContent className='space-y-4'>
+                <CreditNotesList creditNotes={refundSummary.creditNotes} variant='admin' />
+                <OrderRefundForm summary={refundSummary} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Payment Method */}
           <Card>
             <CardHeader>
@@ -240,6 +313,44 @@ export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
             </CardHeader>
             <CardContent>
               <p className='font-semibold'>{getPaymentMethodText(order.payment_method)}</p>
+              {isCashOnDelivery && (codCollection || order.status === 'Delivered') && (
+                <div className='mt-4'>
+                  <CodCollectionForm
+                    orderId={id}
+                    orderTotal={Number(order.total_amount)}
+                    couriers={(couriers || []).filter(courier => courier.isActive)}
+                    collection={codCollection ?? null}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Shipment */}
+          {shipment && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  <Truck className='w-5 h-5' />
+                  الشحن
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ShipmentTracking shipment={shipment} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Customer Emails */}
+          <Card>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2'>
+                <Mail className='w-5 h-5' />
+                رسائل العميل
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderEmailsPanel orderId={id} emails={orderEmails || []} />
             </CardContent>
           </Card>
 
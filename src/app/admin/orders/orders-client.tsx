@@ -42,6 +42,8 @@ function getPaymentMethodTextAr(method?: string | null) {
       return 'الخصم من بطاقة e-Dinar';
     case 'bank_transfer':
       return 'تحويل بنكي';
+    case 'credit_card':
+      return 'بطاقة بنكية';
     case 'paypal':
       return 'PayPal';
     default:
@@ -106,8 +108,8 @@ export default function OrdersClientPage() {
   const [error, setError] = useState<string | null>(null);
 
   // Filters & pagination
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'Pending Confirmation' | 'Confirmed' | 'Processing' | 'Shipped' | 'Delivered' | 'Cancelled'>('ALL');
-  const [paymentFilter, setPaymentFilter] = useState<'ALL' | 'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'paypal'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | 'Pending Confirmation' | 'Awaiting Payment' | 'Confirmed' | 'Processing' | 'Shipped' | 'Delivered' | 'Cancelled'>('ALL');
+  const [paymentFilter, setPaymentFilter] = useState<'ALL' | 'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'credit_card' | 'paypal'>('ALL');
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   const [search, setSearch] = useState('');
@@ -298,6 +300,7 @@ export default function OrdersClientPage() {
                 onChange={(e) => { setPage(1); setStatusFilter(e.target.value as any); }}>
                 <option value='ALL'>الكل</option>
                 <option value='Pending Confirmation'>في انتظار التأكيد</option>
+                <option value='Awaiting Payment'>في انتظار الدفع</option>
                 <option value='Confirmed'>مؤكد</option>
                 <option value='Processing'>قيد التحضير</option>
                 <option value='Shipped'>تم الشحن</option>
@@ -314,6 +317,7 @@ export default function OrdersClientPage() {
                 <option value='cash_on_delivery'>الدفع عند الاستلام</option>
                 <option value='mobile_payment'>الخصم من بطاقة e-Dinar</option>
                 <option value='bank_transfer'>تحويل بنكي</option>
+                <option value='credit_card'>بطاقة بنكية</option>
                 <option value='paypal'>PayPal</option>
               </select>
             </div>
@@ -39,6 +39,7 @@ function getPaymentAr(m?: string | null) {
     case 'cash_on_delivery': return 'الدفع عند الاستلام';
     case 'mobile_payment': return 'الخصم من بطاقة e-Dinar';
     case 'bank_transfer': return 'تحويل بنكي';
+    case 'credit_card': return 'بطاقة بنكية';
     case 'paypal': return 'PayPal';
     default: return 'غير محدد';
   }
@@ -7,8 +7,9 @@ import { useRouter } from 'next/navigation';
 import { useParams } from 'next/navigation';
 import * as z from "zod"
 import { FieldPath } from 'react-hook-form';
-import { v4 as uuidv4 } from 'uuid'; // For image upload
-import type { FileWithPath } from 'react-dropzone'; // For image upload
+import ProductImagesPanel from '@/components/admin/ProductImagesPanel';
+import ProductStockPanel from '@/components/admin/ProductStockPanel';
+import ProductVariantsPanel from '@/components/admin/ProductVariantsPanel';
 
 const productSchema = z.object({
   name: z.string().min(2, {
@@ -18,11 +19,6 @@ const productSchema = z.object({
   price: z.number().min(0, {
     message: "Le prix doit être supérieur à 0.",
   }),
-  stock: z.number().min(0, {
-    message: "Le stock doit être supérieur à 0.",
-  }),
-  image_url: z.string().optional(),
-  image_file: z.custom<FileWithPath>().optional(), // Add image_file
   categoryIds: z.array(z.string()).optional(), // Add categoryIds
 })
 
@@ -40,6 +36,7 @@ export default function EditProductPage() {
   const [product, setProduct] = useState<ProductData | null>(null); // Use ProductData type
   const [categories, setCategories] = useState<{ id: string; name: string; }[]>([]); // State for categories
   const [loadingCategories, setLoadingCategories] = useState(true); // State for category loading
+  const [variantsVersion, setVariantsVersion] = useState(0);
   const [categoryError, setCategoryError] = useState<string | null>(null); // State for category fetching error
 
   // Combined fetch function
@@ -94,48 +91,18 @@ export default function EditProductPage() {
     setError('');
     const supabaseClient = createClientComponent();
 
-    // 1. Handle image upload (similar to new product page)
-    let imageUrl = product?.image_url; // Start with existing image URL
-    if (values.image_file) {
-      const file = values.image_file;
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${uuidv4()}.${fileExt}`;
-      const filePath = `product-images/${fileName}`;
-
-      try {
-        const { error: uploadError } = await supabaseClient.storage
-          .from('product-images')
-          .upload(filePath, file, { cacheControl: '3600', upsert: false, contentType: `image/${fileExt}` });
-
-        if (uploadError) { throw uploadError; }
-
-        // If upload succeeds, get new public URL
-        const { data: urlData } = supabaseClient.storage.from('product-images').getPublicUrl(filePath);
-        imageUrl = urlData.publicUrl;
-
-        // Optionally: Delete old image from storage if it exists and is different
-        // This requires storing the old image path or deriving it, adding complexity.
-        // For now, we'll just upload the new one.
-
-      } catch (uploadError: any) {
-        setError('Failed to upload image: ' + uploadError.message);
-        setLoading(false);
-        return;
-      }
-    }
-
-    // 2. Prepare product data for update
-    const { categoryIds, image_file, ...productValues } = values;
-    productValues.image_url = imageUrl; // Use potentially updated imageUrl
+    // 1. Prepare product data for update. Images are not part of this form:
+    // the gallery panel saves them and keeps image_url on the primary one.
+    const { categoryIds, ...productValues } = values;
 
-    // Explicitly convert price and stock to numbers
+    // Explicitly convert price to a number. Stock is not part of this form:
+    // it changes through the stock panel so every movement is recorded.
     const productValuesWithNumbers = {
       ...productValues,
       price: Number(productValues.price),
-      stock: Number(productValues.stock),
     };
 
-    // 3. Update product data
+    // 2. Update product data
     const { error: updateError } = await supabaseClient
       .from('products')
       .update(productValuesWithNumbers) // Use values with correct types
@@ -148,7 +115,7 @@ export default function EditProductPage() {
       return; // Stop if product update fails
     }
 
-    // 4. Update product categories (handle differences)
+    // 3. Update product categories (handle differences)
     const originalCategoryIds = product?.product_categories?.map(pc => pc.category_id) || [];
     const submittedCategoryIds = categoryIds || [];
 
@@ -197,9 +164,6 @@ export default function EditProductPage() {
     { name: 'name', label: 'الاسم', description: 'اسم المنتج' },
     { name: 'description', label: 'الوصف', description: 'وصف المنتج', type: 'textarea' },
     { name: 'price', label: 'السعر', description: 'سعر المنتج', type: 'number' },
-    { name: 'stock', label: 'المخزون', description: 'كمية المخزون', type: 'number' },
-    // Removed image_url field
-    { name: 'image_file', label: 'رفع صورة جديدة (اختياري)', description: 'اختر صورة جديدة لاستبدال الصورة الحالية', type: 'file' },
     { name: 'categoryIds', label: 'الفئات', description: 'اختر الفئات لهذا المنتج', type: 'category-select' },
   ];
 
@@ -207,7 +171,6 @@ export default function EditProductPage() {
   const defaultValues = product ? {
     ...product,
     categoryIds: product.product_categories?.map(pc => pc.category_id) || [],
-    image_file: undefined // Ensure image_file is not pre-filled
   } : undefined;
 
 
@@ -223,19 +186,10 @@ export default function EditProductPage() {
     return <div className="container mx-auto py-10 text-center">المنتج غير موجود.</div>;
   }
 
-  // Display current image if available
-  const currentImageUrl = product?.image_url;
-
   return (
     <div className="container mx-auto py-10">
       <h1 className="text-3xl font-bold mb-8">تعديل المنتج</h1>
       {error && <p className="text-red-500 mb-4">{error}</p>}
-      {currentImageUrl && (
-        <div className="mb-4">
-          <p className="font-semibold mb-2">الصورة الحالية:</p>
-          <img src={currentImageUrl} alt="الصورة الحالية للمنتج" className="max-h-48 rounded border" />
-        </div>
-      )}
       <CustomForm
         schema={productSchema}
         onSubmit={handleSubmit}
@@ -247,6 +201,12 @@ export default function EditProductPage() {
         onCancel={() => router.push('/admin/products')} // Cancel action
       />
       {loading && <div className="mt-4 text-center">جاري التحديث...</div>} {/* Translated */}
+      <div className="mt-10 space-y-6">
+        <ProductImagesPanel productId={product.id} />
+        {/* The stock panel reloads when variants change so it lists the current sizes */}
+        <ProductVariantsPanel productId={product.id} onVariantsChange={() => setVariantsVersion(v => v + 1)} />
+        <ProductStockPanel key={variantsVersion} productId={product.id} />
+      </div>
     </div>
   );
 }
@@ -6,7 +6,6 @@ import { CustomForm } from '@/components/Form';
 import { useRouter } from 'next/navigation';
 import * as z from "zod"
 import { FieldPath } from 'react-hook-form';
-import { v4 as uuidv4 } from 'uuid';
 import type { FileWithPath } from 'react-dropzone';
 
 const productSchema = z.object({
@@ -63,48 +62,9 @@ export default function NewProductPage() {
 
     const supabase = createClientComponent();
     
-    // Handle image upload if file exists
-    let imageUrl = values.image_url;
-    if (values.image_file) {
-      const file = values.image_file;
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${uuidv4()}.${fileExt}`;
-      const filePath = `product-images/${fileName}`;
-
-      try {
-        // Direct upload to Supabase Storage using S3 endpoint
-        const { error: uploadError } = await supabase
-          .storage
-          .from('product-images')
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false,
-            contentType: `image/${fileExt}`
-            // Removed endpoint and region as they are not valid FileOptions
-          });
-
-        if (uploadError) {
-          setError('Failed to upload image: ' + uploadError.message);
-          setLoading(false);
-          return;
-        }
-
-        // Get public URL
-        const { data: urlData } = supabase
-          .storage
-          .from('product-images')
-          .getPublicUrl(filePath);
-
-        imageUrl = urlData.publicUrl;
-      } catch (error) {
-        setError('An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'));
-        setLoading(false);
-        return;
-      }
-    }
-
+    // The image goes through the upload pipeline once the product exists;
+    // image_url is then set from it
     const { categoryIds, image_file, ...productValues } = values;
-    productValues.image_url = imageUrl;
 
     // Explicitly convert price and stock to numbers
     const productValuesWithNumbers = {
@@ -127,6 +87,20 @@ export default function NewProductPage() {
 
     const newProductId = productData?.[0]?.id;
 
+    // The image starts the product's gallery, where more can be added from the edit page
+    if (image_file && newProductId) {
+      const formData = new FormData();
+      formData.append('productId', newProductId);
+      formData.append('file', image_file);
+
+      const response = await fetch('/api/admin/products/images', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const result = await response.json();
+        console.error('Error uploading product image:', result.error);
+        setError('Product created, but failed to upload the image: ' + result.error);
+      }
+    }
+
     if (categoryIds && categoryIds.length > 0 && newProductId) {
       const productCategoriesToInsert = categoryIds.map(categoryId => ({
         product_id: newProductId,
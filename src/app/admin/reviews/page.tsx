@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import ReviewModerationQueue from '@/components/admin/ReviewModerationQueue';
+
+export const metadata: Metadata = {
+  title: 'المراجعات - لوحة تحكم المشرف',
+  description: 'مراجعة تقييمات العملاء قبل نشرها',
+};
+
+export default function AdminReviewsPage() {
+  return (
+    <div className='space-y-6'>
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-gray-900 mb-2'>المراجعات</h1>
+        <p className='text-gray-600'>مراجعة تقييمات العملاء قبل نشرها</p>
+      </div>
+      <ReviewModerationQueue />
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { createClient } from '@/lib/supabase/client';
+import DeliveryZonesPanel from '@/components/admin/DeliveryZonesPanel';
 
 interface Category {
   id: string;
@@ -27,6 +28,7 @@ interface StoreSettings {
   address?: string;
   tax_rate?: number;
   delivery_fee?: number; // New field for delivery fee
+  free_delivery_threshold?: number | null;
   currency: string;
   updated_at: string;
 }
@@ -37,6 +39,7 @@ export default function SettingsClient() {
   const [storeSettings, setStoreSettings] = useState<StoreSettings | null>(null);
   const [editingDeliveryFee, setEditingDeliveryFee] = useState(false); // New state for delivery fee editing
   const [deliveryFeeInput, setDeliveryFeeInput] = useState(storeSettings?.delivery_fee || 0);
+  const [thresholdInput, setThresholdInput] = useState('');
   const [loading, setLoading] = useState(true);
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [newCategory, setNewCategory] = useState({ name: '', description: '' });
@@ -64,16 +67,24 @@ export default function SettingsClient() {
 
       // Delivery fee via API (avoids RLS issues)
       let deliveryFee = 0;
+      let freeDeliveryThreshold: number | null = null;
       try {
         const resp = await fetch('/api/store-settings/delivery-fee', { cache: 'no-store' });
         const json = await resp.json().catch(() => ({}));
         if (typeof json?.delivery_fee === 'number') {
           deliveryFee = json.delivery_fee;
         }
+        if (json?.free_delivery_threshold != null) {
+          freeDeliveryThreshold = Number(json.free_delivery_threshold);
+        }
       } catch (e) {
         console.warn('Delivery fee fetch error:', e);
       }
-      setStoreSettings(prev => ({ ...(prev || {} as any), delivery_fee: deliveryFee } as any));
+      setStoreSettings(prev => ({
+        ...(prev || {} as any),
+        delivery_fee: deliveryFee,
+        free_delivery_threshold: freeDeliveryThreshold,
+      } as any));
     } catch (error) {
       console.warn('Erreur lors du chargement:', error);
       toast.error('فشل في تحميل البيانات');
@@ -89,18 +100,26 @@ export default function SettingsClient() {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('categories')
-        .insert([{
+      // Created through the category service, which assigns the slug and position
+      const response = await fetch('/api/admin/categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           name: newCategory.name.trim(),
           description: newCategory.description.trim() || null
-        }])
-        .select()
-        .single();
+        })
+      });
+      const result = await response.json();
 
-      if (error) throw error;
+      if (!response.ok) throw new Error(result.error);
 
-      setCategories([...categories, data]);
+      const { category } = result;
+      setCategories([...categories, {
+        id: category.id,
+        name: category.name,
+        description: category.description,
+        created_at: category.createdAt
+      }]);
       setNewCategory({ name: '', description: '' });
       setShowAddCategory(false);
       toast.success('تم إضافة الفئة بنجاح');
@@ -274,12 +293,25 @@ export default function SettingsClient() {
                 <Button size="sm" variant="outline" onClick={() => {
                   setEditingDeliveryFee(true);
                   setDeliveryFeeInput(storeSettings?.delivery_fee || 0);
+                  setThresholdInput(String(storeSettings?.free_delivery_threshold ?? ''));
                 }}>
                   <Edit2 className="h-4 w-4" />
                 </Button>
               </div>
             </div>
 
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>التوصيل المجاني</Label>
+                <p className="text-sm text-muted-foreground">
+                  للطلبات خارج مناطق التوصيل، ابتداءً من هذا المبلغ بعد الخصم
+                </p>
+              </div>
+              <span className="text-lg font-medium">
+                {storeSettings?.free_delivery_threshold ? `${storeSettings.free_delivery_threshold} د.ت` : 'غير مفعّل'}
+              </span>
+            </div>
+
             {editingDeliveryFee && (
               <div className="border-t pt-4 mt-4">
                 <div className="flex items-center gap-2 mb-3">
@@ -302,6 +334,24 @@ export default function SettingsClient() {
                     <span className="absolute right-3 top-2 text-muted-foreground">د.ت</span>
                   </div>
                 </div>
+                <div className="flex items-center gap-2 mb-3">
+                  <Label htmlFor="new-free-delivery-threshold" className="text-right min-w-[100px]">
+                    التوصيل المجاني من
+                  </Label>
+                  <div className="flex-1 relative">
+                    <Input
+                      id="new-free-delivery-threshold"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="غير مفعّل"
+                      value={thresholdInput}
+                      onChange={(e) => setThresholdInput(e.target.value)}
+                      className="pr-12"
+                    />
+                    <span className="absolute right-3 top-2 text-muted-foreground">د.ت</span>
+                  </div>
+                </div>
                 <div className="flex justify-end gap-2">
                   <Button
                     size="sm"
@@ -310,7 +360,10 @@ export default function SettingsClient() {
                         const resp = await fetch('/api/store-settings/delivery-fee', {
                           method: 'POST',
                           headers: { 'Content-Type': 'application/json' },
-                          body: JSON.stringify({ delivery_fee: deliveryFeeInput })
+                          body: JSON.stringify({
+                            delivery_fee: deliveryFeeInput,
+                            free_delivery_threshold: thresholdInput === '' ? null : parseFloat(thresholdInput),
+                          })
                         });
                         const result = await resp.json();
                         if (!resp.ok) {
@@ -322,6 +375,7 @@ export default function SettingsClient() {
                           ...(prev || {} as any),
                           id: result.id ?? (prev as any)?.id ?? null,
                           delivery_fee: typeof result.delivery_fee === 'number' ? result.delivery_fee : (prev as any)?.delivery_fee ?? 0,
+                          free_delivery_threshold: result.free_delivery_threshold ?? null,
                         } as any));
                         setEditingDeliveryFee(false);
                         if (result.warning) {
@@ -354,6 +408,8 @@ export default function SettingsClient() {
           </div>
         </CardContent>
       </Card>
+
+      <DeliveryZonesPanel />
     </div>
   );
 }
\ No newline at end of file
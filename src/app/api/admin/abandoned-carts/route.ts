@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartRecoveryService } from '@/services/cart';
+
+export async function GET() {
+  try {
+    const result = await cartRecoveryService.getAbandonedCarts();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch abandoned carts', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ carts: result.data });
+
+  } catch (error) {
+    console.error('Error in abandoned carts API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sends the recovery message for { cartId }, or runs detection and sending for all carts without one
+export async function POST(request: NextRequest) {
+  try {
+    const { cartId } = await request.json().catch(() => ({}));
+
+    if (!cartId) {
+      const result = await cartRecoveryService.runRecovery();
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error?.message || 'Failed to run cart recovery', code: result.error?.code },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ success: true, result: result.data });
+    }
+
+    const result = await cartRecoveryService.sendRecoveryMessage(cartId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to send recovery message', code: result.error?.code },
+        { status: result.error?.code === 'CART_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in abandoned carts API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartRecoveryService } from '@/services/cart';
+
+export async function GET() {
+  try {
+    const result = await cartRecoveryService.getSettings();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch settings', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ settings: result.data });
+
+  } catch (error) {
+    console.error('Error in abandoned cart settings API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { idleHours, discountPercent } = await request.json();
+
+    const result = await cartRecoveryService.updateSettings({
+      idleHours: Number(idleHours),
+      discountPercent: discountPercent === null || discountPercent === '' ? undefined : Number(discountPercent),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to save settings', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, settings: result.data });
+
+  } catch (error) {
+    console.error('Error in abandoned cart settings API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { bankTransferService } from '@/services/payments';
+
+export async function GET() {
+  try {
+    const result = await bankTransferService.getBankDetails();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch bank details', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ bankDetails: result.data });
+
+  } catch (error) {
+    console.error('Error in bank details API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { accountName, bankName, rib } = await request.json();
+
+    const result = await bankTransferService.updateBankDetails({ accountName, bankName, rib });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to save bank details', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, bankDetails: result.data });
+
+  } catch (error) {
+    console.error('Error in bank details API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { categoryId } = await request.json();
+
+    if (!categoryId) {
+      return NextResponse.json(
+        { error: 'Category ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await categoryService.deleteCategory(categoryId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to delete category', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in delete category API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { categoryId, parentId, position } = await request.json();
+
+    if (!categoryId || !Number.isInteger(position)) {
+      return NextResponse.json(
+        { error: 'Category ID and a position are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await categoryService.moveCategory(categoryId, parentId || null, position);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to move category', code: result.error?.code },
+        { status: result.error?.code === 'CATEGORY_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in move category API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryService } from '@/services/products';
+
+export async function GET() {
+  try {
+    const result = await categoryService.getCategories();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch categories', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ categories: result.data });
+
+  } catch (error) {
+    console.error('Error in categories API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, description, parentId } = await request.json();
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json(
+        { error: 'Category name is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await categoryService.createCategory({
+      name,
+      description: description || undefined,
+      parentId: parentId || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to create category', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, category: result.data });
+
+  } catch (error) {
+    console.error('Error in create category API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { categoryService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { categoryId, name, description, parentId } = await request.json();
+
+    if (!categoryId) {
+      return NextResponse.json(
+        { error: 'Category ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // An empty parent moves the category to the top level
+    const result = await categoryService.updateCategory(categoryId, {
+      name,
+      description: description ?? undefined,
+      parentId: parentId === undefined ? undefined : parentId || '',
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update category', code: result.error?.code },
+        { status: result.error?.code === 'CATEGORY_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, category: result.data });
+
+  } catch (error) {
+    console.error('Error in update category API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { codReconciliationService } from '@/services/payments';
+
+// Collections not yet batched into a remittance
+export async function GET() {
+  try {
+    const result = await codReconciliationService.getUnbatchedCollections();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch collections', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ collections: result.data });
+
+  } catch (error) {
+    console.error('Error in cash collections API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Records the cash a courier collected for a delivered order
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, courierId, amount } = await request.json();
+
+    if (!orderId || !courierId) {
+      return NextResponse.json(
+        { error: 'Order ID and courier are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await codReconciliationService.recordCollection(
+      { orderId, courierId, amount: amount === undefined || amount === '' ? undefined : Number(amount) },
+      { id: user?.id, email: user?.email }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to record collection', code: result.error?.code },
+        { status: result.error?.code === 'ORDER_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, collection: result.data });
+
+  } catch (error) {
+    console.error('Error in cash collections API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
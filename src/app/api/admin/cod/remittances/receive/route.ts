@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { codReconciliationService } from '@/services/payments';
+
+// Marks a remittance received, completing the payments of its orders
+export async function POST(request: NextRequest) {
+  try {
+    const { remittanceId, receivedAmount, notes } = await request.json();
+
+    if (!remittanceId) {
+      return NextResponse.json(
+        { error: 'Remittance ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await codReconciliationService.receiveRemittance(
+      remittanceId,
+      receivedAmount === undefined || receivedAmount === '' ? undefined : Number(receivedAmount),
+      notes || undefined,
+      { id: user?.id, email: user?.email }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to record remittance', code: result.error?.code },
+        { status: result.error?.code === 'COD_REMITTANCE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, remittance: result.data });
+
+  } catch (error) {
+    console.error('Error in receive remittance API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { codReconciliationService, CodRemittanceStatus } from '@/services/payments';
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+
+    const result = await codReconciliationService.getRemittances(
+      status === 'pending' || status === 'received' ? (status as CodRemittanceStatus) : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch remittances', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ remittances: result.data });
+
+  } catch (error) {
+    console.error('Error in remittances API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Groups a courier's collections into a remittance batch
+export async function POST(request: NextRequest) {
+  try {
+    const { courierId, collectionIds } = await request.json();
+
+    if (!courierId || !Array.isArray(collectionIds)) {
+      return NextResponse.json(
+        { error: 'Courier and collections are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await codReconciliationService.createRemittance(courierId, collectionIds, {
+      id: user?.id,
+      email: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to create remittance', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, remittance: result.data });
+
+  } catch (error) {
+    console.error('Error in remittances API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { codReconciliationService } from '@/services/payments';
+
+// Cash each courier still owes the store
+export async function GET() {
+  try {
+    const result = await codReconciliationService.getOutstandingCashReport();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to build report', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ report: result.data });
+
+  } catch (error) {
+    console.error('Error in outstanding cash API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
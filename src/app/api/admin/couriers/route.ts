@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { codReconciliationService } from '@/services/payments';
+
+export async function GET() {
+  try {
+    const result = await codReconciliationService.getCouriers();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch couriers', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ couriers: result.data });
+
+  } catch (error) {
+    console.error('Error in couriers API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, phone } = await request.json();
+
+    const result = await codReconciliationService.createCourier({
+      name: String(name ?? ''),
+      phone: phone ? String(phone) : undefined,
+      isActive: true,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to create courier', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, courier: result.data });
+
+  } catch (error) {
+    console.error('Error in couriers API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
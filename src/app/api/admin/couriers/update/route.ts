@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { codReconciliationService } from '@/services/payments';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { courierId, name, phone, isActive } = await request.json();
+
+    if (!courierId) {
+      return NextResponse.json(
+        { error: 'Courier ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await codReconciliationService.updateCourier(courierId, {
+      name: String(name ?? ''),
+      phone: phone ? String(phone) : undefined,
+      isActive: isActive !== false,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update courier', code: result.error?.code },
+        { status: result.error?.code === 'COURIER_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, courier: result.data });
+
+  } catch (error) {
+    console.error('Error in update courier API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
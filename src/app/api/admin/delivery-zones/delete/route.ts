@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliveryZoneService } from '@/services/delivery';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { zoneId } = await request.json();
+
+    if (!zoneId) {
+      return NextResponse.json(
+        { error: 'Zone ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await deliveryZoneService.deleteZone(zoneId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to delete delivery zone', code: result.error?.code },
+        { status: result.error?.code === 'DELIVERY_ZONE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in delete delivery zone API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
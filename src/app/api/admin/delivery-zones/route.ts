@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliveryZoneService } from '@/services/delivery';
+
+export async function GET() {
+  try {
+    const result = await deliveryZoneService.getZones();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch delivery zones', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ zones: result.data });
+
+  } catch (error) {
+    console.error('Error in delivery zones API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, fee, freeDeliveryThreshold, isDeliverable, governorates } = await request.json();
+
+    const result = await deliveryZoneService.createZone({
+      name: String(name ?? ''),
+      fee: Number(fee) || 0,
+      freeDeliveryThreshold: freeDeliveryThreshold ? Number(freeDeliveryThreshold) : undefined,
+      isDeliverable: isDeliverable !== false,
+      governorates: Array.isArray(governorates) ? governorates : [],
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to create delivery zone', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, zone: result.data });
+
+  } catch (error) {
+    console.error('Error in create delivery zone API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliveryZoneService } from '@/services/delivery';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { zoneId, name, fee, freeDeliveryThreshold, isDeliverable, governorates } = await request.json();
+
+    if (!zoneId) {
+      return NextResponse.json(
+        { error: 'Zone ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await deliveryZoneService.updateZone(zoneId, {
+      name: String(name ?? ''),
+      fee: Number(fee) || 0,
+      freeDeliveryThreshold: freeDeliveryThreshold ? Number(freeDeliveryThreshold) : undefined,
+      isDeliverable: isDeliverable !== false,
+      governorates: Array.isArray(governorates) ? governorates : [],
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update delivery zone', code: result.error?.code },
+        { status: result.error?.code === 'DELIVERY_ZONE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, zone: result.data });
+
+  } catch (error) {
+    console.error('Error in update delivery zone API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
 import { orderService } from '@/services/orders';
 
 export async function POST(request: NextRequest) {
@@ -12,7 +13,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await orderService.cancelOrder(orderId, reason || 'Cancelled via admin API');
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await orderService.cancelOrder(orderId, reason || 'Cancelled via admin API', {
+      updatedBy: user?.id,
+      updatedByEmail: user?.email,
+    });
 
     if (!result.success) {
       return NextResponse.json(
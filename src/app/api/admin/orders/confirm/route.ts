@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
 import { orderService } from '@/services/orders';
 import { OrderStatus } from '@/types/enums';
 
@@ -13,10 +14,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
     const result = await orderService.updateOrderStatus({
       orderId,
       status: OrderStatus.CONFIRMED,
       notes: 'Order confirmed via admin API',
+      updatedBy: user?.id,
+      updatedByEmail: user?.email,
     });
 
     if (!result.success) {
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { orderEmailService, parseEmailLocale, parseOrderEmailType } from '@/services/notifications';
+
+// Sends one of the order's emails again, in the customer's language unless another is picked
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, type, locale } = await request.json();
+    const emailType = parseOrderEmailType(type);
+
+    if (!orderId || !emailType) {
+      return NextResponse.json(
+        { error: 'Order ID and a valid email type are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await orderEmailService.resendOrderEmail(orderId, emailType, parseEmailLocale(locale), {
+      id: user?.id,
+      email: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to send the email', code: result.error?.code },
+        { status: result.error?.code === 'ORDER_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, email: result.data });
+
+  } catch (error) {
+    console.error('Error in resend order email API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { orderService } from '@/services/orders';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, notes, isInternal } = await request.json();
+
+    if (!orderId || !notes) {
+      return NextResponse.json(
+        { error: 'Order ID and note are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await orderService.addOrderNote({
+      orderId,
+      notes,
+      isInternal: isInternal !== false,
+      updatedBy: user?.id,
+      updatedByEmail: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to add order note' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, order: result.data });
+
+  } catch (error) {
+    console.error('Error in order notes API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
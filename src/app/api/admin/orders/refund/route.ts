@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { refundService } from '@/services/refunds';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, lines, shippingAmount, restock, reason } = await request.json();
+
+    if (!orderId || !Array.isArray(lines)) {
+      return NextResponse.json(
+        { error: 'Order ID and refund lines are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await refundService.createRefund({
+      orderId,
+      lines: lines.map((line: any) => ({
+        orderItemId: line.orderItemId,
+        quantity: Number(line.quantity) || 0,
+        amount: line.amount === undefined || line.amount === null ? undefined : Number(line.amount),
+      })),
+      shippingAmount: Number(shippingAmount) || 0,
+      restock: restock === true,
+      reason,
+      refundedBy: user?.id,
+      refundedByEmail: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to record refund', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, creditNote: result.data });
+
+  } catch (error) {
+    console.error('Error in order refund API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
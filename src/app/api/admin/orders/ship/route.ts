@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { shipmentService } from '@/services/delivery';
+
+// Ships an order with a carrier; the tracking number is created by carriers that have an API
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, carrier, trackingNumber, notes } = await request.json();
+
+    if (!orderId || !carrier) {
+      return NextResponse.json(
+        { error: 'Order ID and carrier are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await shipmentService.shipOrder(
+      { orderId, carrier, trackingNumber, notes },
+      { id: user?.id, email: user?.email }
+    );
+
+    if (!result.success) {
+      const isConflict = ['INVALID_STATUS_TRANSITION', 'ORDER_STATUS_CONFLICT'].includes(result.error?.code || '');
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to ship order', code: result.error?.code },
+        { status: result.error?.code === 'ORDER_NOT_FOUND' ? 404 : isConflict ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, shipment: result.data });
+
+  } catch (error) {
+    console.error('Error in ship order API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { orderService } from '@/services/orders';
+import { createClientServer } from '@/lib/supabase/server';
+import { orderService, parseOrderStatus } from '@/services/orders';
 import { OrderStatus } from '@/types/enums';
 
 export async function POST(request: NextRequest) {
   try {
-    const { orderId, status } = await request.json();
+    const { orderId, status, notes, trackingNumber } = await request.json();
 
     if (!orderId || !status) {
       return NextResponse.json(
@@ -13,17 +14,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Map string status to OrderStatus enum
-    const statusMap: Record<string, OrderStatus> = {
-      'Pending Confirmation': OrderStatus.PENDING,
-      'Confirmed': OrderStatus.CONFIRMED,
-      'Processing': OrderStatus.PROCESSING,
-      'Shipped': OrderStatus.SHIPPED,
-      'Delivered': OrderStatus.DELIVERED,
-      'Cancelled': OrderStatus.CANCELLED,
-    };
-
-    const orderStatus = statusMap[status];
+    const orderStatus = parseOrderStatus(status);
     if (!orderStatus) {
       return NextResponse.json(
         { error: 'Invalid status' },
@@ -31,16 +22,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Cancelling also gives back the stock, the coupon and the payment
+    if (orderStatus === OrderStatus.CANCELLED) {
+      return NextResponse.json(
+        { error: 'Use /api/admin/orders/cancel to cancel an order', code: 'ORDER_CANCEL_REQUIRED' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
     const result = await orderService.updateOrderStatus({
       orderId,
       status: orderStatus,
-      notes: `Status updated via admin API`,
+      notes: notes || `Status updated via admin API`,
+      trackingNumber,
+      updatedBy: user?.id,
+      updatedByEmail: user?.email,
     });
 
     if (!result.success) {
+      const isConflict = ['INVALID_STATUS_TRANSITION', 'ORDER_STATUS_CONFLICT'].includes(result.error?.code || '');
       return NextResponse.json(
-        { error: result.error?.message || 'Failed to update order status' },
-        { status: 400 }
+        { error: result.error?.message || 'Failed to update order status', code: result.error?.code },
+        { status: isConflict ? 409 : 400 }
       );
     }
 
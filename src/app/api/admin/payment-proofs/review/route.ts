@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { bankTransferService } from '@/services/payments';
+
+// Approves a receipt, confirming its order, or rejects it with a reason for the customer
+export async function POST(request: NextRequest) {
+  try {
+    const { proofId, approve, reason } = await request.json();
+
+    if (!proofId || typeof approve !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Proof ID and a decision are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const reviewer = { id: user?.id, email: user?.email };
+    const result = approve
+      ? await bankTransferService.approveProof(proofId, reviewer)
+      : await bankTransferService.rejectProof(proofId, reason, reviewer);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to review payment proof', code: result.error?.code },
+        { status: result.error?.code === 'PAYMENT_PROOF_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, proof: result.data });
+
+  } catch (error) {
+    console.error('Error in payment proof review API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
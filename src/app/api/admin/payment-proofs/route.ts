@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { bankTransferService } from '@/services/payments';
+
+// Bank transfer receipts waiting to be verified
+export async function GET() {
+  try {
+    const result = await bankTransferService.getPendingProofs();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch payment proofs', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ proofs: result.data });
+
+  } catch (error) {
+    console.error('Error in payment proofs API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { imageId } = await request.json();
+
+    if (!imageId) {
+      return NextResponse.json(
+        { error: 'Image ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productImageService.deleteImage(imageId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to delete image', code: result.error?.code },
+        { status: result.error?.code === 'IMAGE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in product image delete API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
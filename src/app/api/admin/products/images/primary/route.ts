@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, imageId } = await request.json();
+
+    if (!productId || !imageId) {
+      return NextResponse.json(
+        { error: 'Product ID and image ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productImageService.setPrimaryImage(productId, imageId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to set primary image', code: result.error?.code },
+        { status: result.error?.code === 'IMAGE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in product primary image API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
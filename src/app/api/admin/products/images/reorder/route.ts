@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, imageIds } = await request.json();
+
+    if (!productId || !Array.isArray(imageIds)) {
+      return NextResponse.json(
+        { error: 'Product ID and image IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productImageService.reorderImages(productId, imageIds);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to reorder images', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in product image reorder API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/services/products';
+
+export async function GET(request: NextRequest) {
+  try {
+    const productId = request.nextUrl.searchParams.get('productId');
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productImageService.getImages(productId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch images', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ images: result.data });
+
+  } catch (error) {
+    console.error('Error in product images API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Uploads one image (multipart form data) to the end of the product's gallery
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const productId = formData.get('productId');
+    const file = formData.get('file');
+
+    if (typeof productId !== 'string' || !productId || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Product ID and file are required' },
+        { status: 400 }
+      );
+    }
+
+    const altTextAr = formData.get('altTextAr');
+    const altTextEn = formData.get('altTextEn');
+
+    const result = await productImageService.uploadImage({
+      productId,
+      file,
+      altTextAr: typeof altTextAr === 'string' ? altTextAr : undefined,
+      altTextEn: typeof altTextEn === 'string' ? altTextEn : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to upload image', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, image: result.data });
+
+  } catch (error) {
+    console.error('Error in product images API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { id, altTextAr, altTextEn } = await request.json();
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Image ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productImageService.updateImage({ id, altTextAr, altTextEn });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update image', code: result.error?.code },
+        { status: result.error?.code === 'IMAGE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, image: result.data });
+
+  } catch (error) {
+    console.error('Error in product image update API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inventoryService } from '@/services/inventory';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, lowStockThreshold } = await request.json();
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // An empty value puts the product back on the default threshold
+    const threshold =
+      lowStockThreshold === null || lowStockThreshold === undefined || lowStockThreshold === ''
+        ? null
+        : Number(lowStockThreshold);
+
+    const result = await inventoryService.setLowStockThreshold(productId, threshold);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update low-stock threshold', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, stock: result.data });
+
+  } catch (error) {
+    console.error('Error in low-stock threshold API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
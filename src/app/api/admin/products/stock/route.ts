@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { inventoryService } from '@/services/inventory';
+import { InventoryMovementReason } from '@/types/enums';
+
+export async function GET(request: NextRequest) {
+  try {
+    const productId = request.nextUrl.searchParams.get('productId');
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await inventoryService.getStockHistory(productId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch stock history', code: result.error?.code },
+        { status: result.error?.code === 'PRODUCT_NOT_FOUND' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json(result.data);
+
+  } catch (error) {
+    console.error('Error in product stock API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, variantId, quantityChange, reason, note } = await request.json();
+
+    if (!productId || quantityChange === undefined) {
+      return NextResponse.json(
+        { error: 'Product ID and quantity are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await inventoryService.adjustStock({
+      productId,
+      variantId: variantId || undefined,
+      quantityChange: Number(quantityChange),
+      reason:
+        reason === InventoryMovementReason.ADJUSTMENT
+          ? InventoryMovementReason.ADJUSTMENT
+          : InventoryMovementReason.RESTOCK,
+      note,
+      adjustedBy: user?.id,
+      adjustedByEmail: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to adjust stock', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, stock: result.data });
+
+  } catch (error) {
+    console.error('Error in product stock API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
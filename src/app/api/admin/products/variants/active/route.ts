@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productVariantService } from '@/services/products';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { id, isActive } = await request.json();
+
+    if (!id || typeof isActive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Variant ID and isActive are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productVariantService.setVariantActive(id, isActive);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to update variant', code: result.error?.code },
+        { status: result.error?.code === 'VARIANT_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, variant: result.data });
+
+  } catch (error) {
+    console.error('Error in product variant status API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
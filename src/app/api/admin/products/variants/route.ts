@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productVariantService } from '@/services/products';
+
+// Form fields arrive as strings; empty ones are left unchanged
+const toNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? undefined : Number(value);
+
+export async function GET(request: NextRequest) {
+  try {
+    const productId = request.nextUrl.searchParams.get('productId');
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productVariantService.getVariants(productId, true);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch variants', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ variants: result.data });
+
+  } catch (error) {
+    console.error('Error in product variants API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a variant, or updates it when an id is given
+export async function POST(request: NextRequest) {
+  try {
+    const { id, productId, sku, name, weightGrams, price, stock, sortOrder } = await request.json();
+
+    if (!id && (!productId || !sku || !name || price === undefined)) {
+      return NextResponse.json(
+        { error: 'Product ID, SKU, name and price are required' },
+        { status: 400 }
+      );
+    }
+
+    const fields = {
+      sku,
+      name,
+      weightGrams: toNumber(weightGrams),
+      price: toNumber(price),
+      sortOrder: toNumber(sortOrder),
+    };
+
+    const result = id
+      ? await productVariantService.updateVariant({ id, ...fields })
+      : await productVariantService.createVariant({
+          ...fields,
+          productId,
+          sku,
+          name,
+          price: Number(price),
+          stock: toNumber(stock) ?? 0,
+        });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to save variant', code: result.error?.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, variant: result.data });
+
+  } catch (error) {
+    console.error('Error in product variants API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { reviewService } from '@/services/reviews';
+import { ReviewStatus } from '@/types/enums';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { reviewId, status } = await request.json();
+
+    if (!reviewId || (status !== ReviewStatus.APPROVED && status !== ReviewStatus.REJECTED)) {
+      return NextResponse.json(
+        { error: 'Review ID and a status of approved or rejected are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await reviewService.moderateReview({
+      reviewId,
+      status,
+      moderatedBy: user?.id,
+      moderatedByEmail: user?.email,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to moderate review', code: result.error?.code },
+        { status: result.error?.code === 'REVIEW_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, review: result.data });
+
+  } catch (error) {
+    console.error('Error in review moderation API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
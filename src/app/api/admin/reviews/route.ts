@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewService } from '@/services/reviews';
+import { ReviewStatus } from '@/types/enums';
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') || ReviewStatus.PENDING;
+
+    if (!Object.values(ReviewStatus).includes(status as ReviewStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid review status' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewService.getModerationQueue(status as ReviewStatus);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to fetch reviews', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ reviews: result.data });
+
+  } catch (error) {
+    console.error('Error in reviews API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
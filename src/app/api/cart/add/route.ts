@@ -6,6 +6,7 @@ interface CartItem {
   id: string;
   cart_id: string;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
   created_at: string;
 }
@@ -25,7 +26,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
   }
 
-  const { product_id, quantity } = await request.json();
+  const { product_id, variant_id = null, quantity } = await request.json();
 
   if (!product_id || quantity === undefined || quantity <= 0) {
     return NextResponse.json({ error: 'Invalid product_id or quantity' }, { status: 400 });
@@ -60,13 +61,16 @@ export async function POST(request: Request) {
        return NextResponse.json({ error: 'Could not find or create cart' }, { status: 500 });
     }
 
-    // Check if the product already exists in the cart
-    const { data: existingItem, error: existingItemError } = await supabase
+    // Check if the product (in the same size) already exists in the cart
+    let existingItemQuery = supabase
       .from('cart_items')
       .select('*')
       .eq('cart_id', cart.id)
-      .eq('product_id', product_id)
-      .single<CartItem>();
+      .eq('product_id', product_id);
+    existingItemQuery = variant_id
+      ? existingItemQuery.eq('variant_id', variant_id)
+      : existingItemQuery.is('variant_id', null);
+    const { data: existingItem, error: existingItemError } = await existingItemQuery.single<CartItem>();
 
     if (existingItemError && existingItemError.code !== 'PGRST116') { // PGRST116 means no rows found
       console.error('Error checking existing cart item:', existingItemError);
@@ -92,7 +96,7 @@ export async function POST(request: Request) {
       // Insert new cart item if it doesn't exist
       const { data: newItem, error: insertItemError } = await supabase
         .from('cart_items')
-        .insert([{ cart_id: cart.id, product_id, quantity }])
+        .insert([{ cart_id: cart.id, product_id, variant_id, quantity }])
         .select('*')
         .single<CartItem>();
 
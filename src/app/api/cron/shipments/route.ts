@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shipmentService } from '@/services/delivery';
+
+// Called on a schedule (see vercel.json) with CRON_SECRET as the bearer token
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await shipmentService.pollShipments();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to poll shipments', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, result: result.data });
+
+  } catch (error) {
+    console.error('Error in shipments cron:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { isAdminEmail } from '@/lib/auth/admin-auth';
+import { createClientServer } from '@/lib/supabase/server';
+import { invoiceService } from '@/services/invoices';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { creditNoteId } = await request.json();
+
+    if (!creditNoteId) {
+      return NextResponse.json(
+        { error: 'Credit note ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Admins can download any credit note, customers only those on their orders
+    const isAdmin = !!user.email && isAdminEmail(user.email);
+    const result = await invoiceService.generateCreditNotePdf(creditNoteId, {
+      customerId: isAdmin ? undefined : user.id,
+    });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to generate credit note' },
+        { status: result.error?.code === 'CREDIT_NOTE_NOT_FOUND' ? 404 : 500 }
+      );
+    }
+
+    const { fileName, pdf } = result.data;
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error generating credit note:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST instead.' },
+    { status: 405 }
+  );
+}
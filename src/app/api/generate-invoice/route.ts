@@ -1,4 +1,6 @@
-import { createClientServerReadOnly } from '@/lib/supabase/server';
+import { isAdminEmail } from '@/lib/auth/admin-auth';
+import { createClientServer } from '@/lib/supabase/server';
+import { invoiceService } from '@/services/invoices';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
@@ -12,54 +14,55 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = await createClientServerReadOnly();
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
 
-    // Fetch order details
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        customers (
-          first_name,
-          last_name,
-          email
-        ),
-        addresses (
-          address_line_1,
-          address_line_2,
-          city,
-          state,
-          postal_code,
-          country,
-          phone_number
-        )
-      `)
-      .eq('id', orderId)
-      .single();
-
-    if (orderError || !order) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'Order not found' },
-        { status: 404 }
+        { error: 'Unauthorized' },
+        { status: 401 }
       );
     }
 
-    // For now, return a simple invoice data structure
-    // In a real implementation, you would generate a PDF or formatted invoice
-    const invoiceData = {
-      orderId: order.id,
-      orderDate: order.created_at,
-      customer: order.customers,
-      address: order.addresses,
-      total: order.total_amount,
-      status: order.status,
-      // Add more invoice details as needed
-    };
+    // Admins can download any invoice, customers only their own
+    const isAdmin = !!user.email && isAdminEmail(user.email);
+    const result = await invoiceService.generateInvoicePdf(orderId, {
+      customerId: isAdmin ? undefined : user.id,
+      issuedBy: isAdmin ? user.id : undefined,
+    });
 
-    return NextResponse.json({
-      success: true,
-      invoice: invoiceData,
-      message: 'Invoice generated successfully'
+    if (!result.success || !result.data) {
+      switch (result.error?.code) {
+        case 'ORDER_NOT_FOUND':
+          return NextResponse.json(
+            { error: 'Order not found' },
+            { status: 404 }
+          );
+        case 'INVOICE_ORDER_CANCELLED':
+          return NextResponse.json(
+            {
+              error: 'Cannot generate invoice for cancelled orders',
+              message: 'لا يمكن إنشاء فاتورة للطلبات الملغاة',
+            },
+            { status: 400 }
+          );
+        default:
+          return NextResponse.json(
+            { error: result.error?.message || 'Failed to generate invoice' },
+            { status: 500 }
+          );
+      }
+    }
+
+    const { fileName, pdf } = result.data;
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
     });
 
   } catch (error) {
@@ -76,4 +79,4 @@ export async function GET() {
     { error: 'Method not allowed. Use POST instead.' },
     { status: 405 }
   );
-}
\ No newline at end of file
+}
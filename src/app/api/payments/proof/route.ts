@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { bankTransferService } from '@/services/payments';
+
+// Uploads a bank transfer receipt (multipart form data) for the signed-in customer's
+// order, or for a guest order when the form carries its access token
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const orderId = formData.get('orderId');
+    const token = formData.get('token');
+    const file = formData.get('file');
+
+    if (typeof orderId !== 'string' || !orderId || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Order ID and file are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClientServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const result = await bankTransferService.uploadProof(
+      orderId,
+      { customerId: user?.id, accessToken: typeof token === 'string' && token ? token : undefined },
+      file
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to upload receipt', code: result.error?.code },
+        { status: result.error?.code === 'ORDER_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, proof: result.data });
+
+  } catch (error) {
+    console.error('Error in payment proof API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paymentService } from '@/services/payments';
+
+const ERROR_STATUS: Record<string, number> = {
+  PAYMENT_SIGNATURE_INVALID: 401,
+  PAYMENT_PROVIDER_NOT_FOUND: 404,
+  PAYMENT_SESSION_NOT_FOUND: 404,
+};
+
+// Payment gateway callbacks. ClicToPay calls with GET and its parameters in the
+// query string; the signature is checked by the provider named in the path
+async function handleWebhook(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+
+  try {
+    const result = await paymentService.handleWebhook(provider, {
+      headers: request.headers,
+      query: request.nextUrl.searchParams,
+      body: request.method === 'POST' ? await request.text() : '',
+    });
+
+    if (!result.success) {
+      // Any other failure answers 500 so that the gateway retries the callback
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to handle payment callback', code: result.error?.code },
+        { status: ERROR_STATUS[result.error?.code || ''] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in payment webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleWebhook;
+export const POST = handleWebhook;
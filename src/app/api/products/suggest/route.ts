@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productService } from '@/services/products';
+
+// Autocomplete for the product search box
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || '';
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined;
+
+    if (query.trim().length < 2) {
+      return NextResponse.json({ suggestions: [] });
+    }
+
+    const result = await productService.getSearchSuggestions(query, limit);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to search products', code: result.error?.code },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ suggestions: result.data });
+
+  } catch (error) {
+    console.error('Error in product suggestions API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,16 +6,17 @@ export async function GET() {
     const supabaseService = await createClientServer('service_role');
     const { data, error } = await supabaseService
       .from('store_settings')
-      .select('delivery_fee, updated_at, id')
+      .select('delivery_fee, free_delivery_threshold, updated_at, id')
       .order('updated_at', { ascending: false })
       .limit(1);
     if (error) {
       console.warn('GET delivery-fee failed:', error);
-      return NextResponse.json({ delivery_fee: 0, id: null });
+      return NextResponse.json({ delivery_fee: 0, free_delivery_threshold: null, id: null });
     }
     const row = Array.isArray(data) ? data[0] : data;
     const delivery_fee = row?.delivery_fee ?? 0;
-    return NextResponse.json({ delivery_fee, id: row?.id ?? null });
+    const free_delivery_threshold = row?.free_delivery_threshold ?? null;
+    return NextResponse.json({ delivery_fee, free_delivery_threshold, id: row?.id ?? null });
   } catch (e) {
     console.error('Unexpected error in GET delivery-fee route:', e);
     return NextResponse.json({ error: 'Unexpected error' }, { status: 500 });
@@ -32,6 +33,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Invalid delivery_fee' }, { status: 400 });
     }
 
+    // Optional; null or empty removes the store-wide free-delivery threshold
+    const hasThreshold = body && 'free_delivery_threshold' in body;
+    const threshold_raw = body?.free_delivery_threshold;
+    const free_delivery_threshold =
+      threshold_raw === null || threshold_raw === '' || threshold_raw === undefined ? null : Number(threshold_raw);
+
+    if (free_delivery_threshold !== null && (Number.isNaN(free_delivery_threshold) || free_delivery_threshold <= 0)) {
+      return NextResponse.json({ error: 'Invalid free_delivery_threshold' }, { status: 400 });
+    }
+
     // Check auth with anon key first
     const supabaseAnon = await createClientServer('anon');
     const { data: { user }, error: userError } = await supabaseAnon.auth.getUser();
@@ -86,13 +97,13 @@ export async function POST(req: Request) {
       if (hasDeliveryFee) {
         const { error: updateErr } = await supabaseService
           .from('store_settings')
-          .update({ delivery_fee })
+          .update(hasThreshold ? { delivery_fee, free_delivery_threshold } : { delivery_fee })
           .eq('id', existing.id);
         if (updateErr) {
         console.error('Update delivery_fee failed:', updateErr);
         return NextResponse.json({ error: 'Update failed', detail: (updateErr as any)?.message || String(updateErr), code: (updateErr as any)?.code }, { status: 500 });
         }
-        return NextResponse.json({ ok: true, id: existing.id, delivery_fee });
+        return NextResponse.json({ ok: true, id: existing.id, delivery_fee, free_delivery_threshold });
       } else {
         // Column missing; cannot update fee
         return NextResponse.json({ ok: false, id: existing.id, delivery_fee: null, warning: 'delivery_fee column missing. Run migration.' }, { status: 200 });
@@ -101,6 +112,7 @@ export async function POST(req: Request) {
       // Build insert payload with minimal required fields
       const basePayload: any = { store_name: 'Mon Magasin', currency: 'TND' };
       if (hasDeliveryFee) basePayload.delivery_fee = delivery_fee;
+      if (hasThreshold) basePayload.free_delivery_threshold = free_delivery_threshold;
       const { data: insertedRows, error: insertErr } = await supabaseService
         .from('store_settings')
         .insert([basePayload])
@@ -1,6 +1,7 @@
 
 'use client';
 
+import { mergeGuestCartIntoAccount } from '@/actions/cartActions';
 import { useState } from 'react';
 import { createClientComponent } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
@@ -60,6 +61,11 @@ export default function RegisterPage() {
       console.log('Customer inserted successfully.');
     }
 
+    // Signed in straight away (no email confirmation): keep what they put in the cart as a guest
+    if (data.session && !customerError) {
+      await mergeGuestCartIntoAccount();
+    }
+
     router.push('/auth/login'); // Redirect to login after successful registration
   };
 
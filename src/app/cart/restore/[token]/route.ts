@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { cartRecoveryService } from '@/services/cart';
+
+// The one-click link in an abandoned cart recovery message
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const url = request.nextUrl.clone();
+  url.search = '';
+
+  // Nothing is changed until the customer the cart belongs to is signed in
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    url.pathname = '/auth/login';
+    url.searchParams.set('message', 'سجّل الدخول لمتابعة سلة التسوق الخاصة بك.');
+    return NextResponse.redirect(url);
+  }
+
+  const result = await cartRecoveryService.restoreCart(token, user.id);
+  if (!result.success || !result.data) {
+    url.pathname = '/cart';
+    return NextResponse.redirect(url);
+  }
+
+  if (result.data.discountCode) {
+    url.pathname = '/checkout';
+    url.searchParams.set('discount', result.data.discountCode);
+  } else {
+    url.pathname = '/cart';
+  }
+
+  return NextResponse.redirect(url);
+}
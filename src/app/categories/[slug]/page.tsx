@@ -0,0 +1,120 @@
+import { CategoryBreadcrumbs } from '@/components/business/categories';
+import { ProductSortSelect } from '@/components/business/products';
+import ProductCardClient from '@/components/ProductCardClient';
+import { Button } from '@/components/ui/button';
+import { createClientServerReadOnly } from '@/lib/supabase/server';
+import {
+  buildProductListingHref,
+  categoryService,
+  getProductSortOption,
+  parseProductListingParams,
+  productService,
+  toProductCardData,
+  type ListingSearchParams,
+} from '@/services/products';
+import { wishlistService } from '@/services/wishlist/wishlist.service';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+export default async function CategoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<ListingSearchParams>;
+}) {
+  const { slug } = await params;
+  const categoryResult = await categoryService.getCategoryBySlug(decodeURIComponent(slug));
+  if (!categoryResult.success || !categoryResult.data) {
+    notFound();
+  }
+
+  const category = categoryResult.data;
+  const pathname = `/categories/${encodeURIComponent(category.slug)}`;
+
+  // The category comes from the path; the page's own filters are sort and page
+  const listing = parseProductListingParams(await searchParams);
+  delete listing.categoryId;
+
+  const [pathResult, categoriesResult, productsResult] = await Promise.all([
+    categoryService.getCategoryPath(category.id),
+    categoryService.getCategories(),
+    productService.getProducts({ ...listing, categoryId: category.id }),
+  ]);
+
+  const listingResult = productsResult.success ? productsResult.data : undefined;
+  const path = pathResult.success && pathResult.data ? pathResult.data : [category];
+  const subcategories = (categoriesResult.data ?? []).filter(item => item.parentId === category.id);
+
+  const supabase = await createClientServerReadOnly();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const wishlistResult = user ? await wishlistService.getProductIds(user.id) : null;
+  const wishlistedIds = new Set(wishlistResult?.success ? wishlistResult.data : []);
+
+  return (
+    <div className='container mx-auto py-10'>
+      <CategoryBreadcrumbs path={path} className='mb-6' />
+      <h1 className='text-3xl font-bold mb-2'>{category.name}</h1>
+      {category.description && <p className='text-gray-600 mb-6'>{category.description}</p>}
+
+      {subcategories.length > 0 && (
+        <div className='flex flex-wrap gap-2 mb-8'>
+          {subcategories.map(subcategory => (
+            <Button key={subcategory.id} asChild variant='outline' size='sm'>
+              <Link href={`/categories/${encodeURIComponent(subcategory.slug)}`}>{subcategory.name}</Link>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {!listingResult ? (
+        <p className='text-center text-destructive'>تعذر تحميل المنتجات. حاول مرة أخرى لاحقاً.</p>
+      ) : (
+        <>
+          <div className='flex flex-wrap items-center justify-between gap-4 mb-6'>
+            <p className='text-sm text-gray-600'>{listingResult.pagination.total} منتج</p>
+            <ProductSortSelect value={getProductSortOption(listing)} />
+          </div>
+
+          {listingResult.data.length === 0 ? (
+            <p className='text-center text-gray-600'>لا توجد منتجات في هذه الفئة حالياً.</p>
+          ) : (
+            <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8'>
+              {listingResult.data.map(product => (
+                <ProductCardClient
+                  key={product.id}
+                  product={toProductCardData(product)}
+                  isWishlisted={wishlistedIds.has(product.id)}
+                />
+              ))}
+            </div>
+          )}
+
+          {listingResult.pagination.totalPages > 1 && (
+            <div className='flex items-center justify-center gap-4 mt-10'>
+              {listingResult.pagination.page > 1 && (
+                <Button asChild variant='outline' size='sm'>
+                  <Link href={buildProductListingHref(listing, { page: listingResult.pagination.page - 1 }, pathname)}>
+                    السابق
+                  </Link>
+                </Button>
+              )}
+              <span className='text-sm text-gray-600'>
+                صفحة {listingResult.pagination.page} من {listingResult.pagination.totalPages}
+              </span>
+              {listingResult.pagination.page < listingResult.pagination.totalPages && (
+                <Button asChild variant='outline' size='sm'>
+                  <Link href={buildProductListingHref(listing, { page: listingResult.pagination.page + 1 }, pathname)}>
+                    التالي
+                  </Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { createAccountFromGuestOrder } from '@/actions/checkoutActions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ErrorBanner } from '@/components/ui/simple-error';
+import { useState } from 'react';
+
+interface GuestAccountFormProps {
+  accessToken: string;
+}
+
+export default function GuestAccountForm({ accessToken }: GuestAccountFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreated, setIsCreated] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('كلمتا المرور غير متطابقتين.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await createAccountFromGuestOrder(accessToken, password);
+      if (!result.success) {
+        setError(
+          (typeof result.error === 'string' ? result.error : result.error?.message) || 'تعذر إنشاء الحساب.'
+        );
+        return;
+      }
+      setIsCreated(true);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isCreated) {
+    return (
+      <p className='p-3 bg-green-50 text-green-800 rounded-md text-sm'>
+        تم إنشاء حسابك! أرسلنا إليك رسالة لتأكيد بريدك الإلكتروني، ثم يمكنك تسجيل الدخول.
+      </p>
+    );
+  }
+
+  return (
+    <form className='space-y-4' onSubmit={handleSubmit}>
+      {error && <ErrorBanner error={error} />}
+      <div className='space-y-1'>
+        <Label htmlFor='password'>كلمة المرور</Label>
+        <Input
+          id='password'
+          type='password'
+          minLength={8}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <div className='space-y-1'>
+        <Label htmlFor='confirmPassword'>تأكيد كلمة المرور</Label>
+        <Input
+          id='confirmPassword'
+          type='password'
+          value={confirmPassword}
+          onChange={e => setConfirmPassword(e.target.value)}
+          required
+        />
+      </div>
+      <Button type='submit' disabled={isSubmitting} className='w-full bg-honey hover:bg-honey-dark text-white'>
+        {isSubmitting ? 'جاري إنشاء الحساب...' : 'إنشاء حساب'}
+      </Button>
+    </form>
+  );
+}
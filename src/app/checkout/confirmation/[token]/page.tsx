@@ -0,0 +1,194 @@
+import ErrorPage from '@/components/ErrorPage';
+import { BankTransferPanel, OrderTotalsSummary, ShipmentTracking } from '@/components/business/orders';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { mapOrderShipmentRow, pickShipmentRow } from '@/services/orders/order-shipment';
+import { orderTotalsFromRow } from '@/services/orders/order-totals';
+import { bankTransferService } from '@/services/payments';
+import { CheckCircle, MapPin, Phone, Truck } from 'lucide-react';
+import Image from 'next/image';
+import GuestAccountForm from './guest-account-form';
+
+export const dynamic = 'force-dynamic';
+
+interface ConfirmationPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Order confirmation for guest checkout, opened by the order's access token rather than a session
+export default async function OrderConfirmationPage({ params }: ConfirmationPageProps) {
+  const { token } = await params;
+
+  // The token stands in for the session, so the order is read without one
+  const supabase = createServiceRoleClient();
+
+  const { data: order } = TOKEN_PATTERN.test(token)
+    ? await supabase
+        .from('orders')
+        .select(
+          `
+          *,
+          order_items (
+            *,
+            products (*)
+          ),
+          addresses (*),
+          customers (first_name, last_name, email, is_guest),
+          shipments (*)
+        `
+        )
+        .eq('access_token', token)
+        .maybeSingle()
+    : { data: null };
+
+  if (!order) {
+    return (
+      <ErrorPage
+        title='الطلب غير موجود'
+        message='لم يتم العثور على الطلب المطلوب. تأكد من صحة الرابط.'
+        showRetry={false}
+        showHome={true}
+      />
+    );
+  }
+
+  const bankTransfer =
+    order.payment_method === 'bank_transfer' && order.status === 'Awaiting Payment'
+      ? (await bankTransferService.getBankTransfer(order.id, { accessToken: token })).data
+      : undefined;
+
+  const shipmentRow = pickShipmentRow(order.shipments);
+  const shipment = shipmentRow ? mapOrderShipmentRow(shipmentRow) : undefined;
+
+  return (
+    <div className='container mx-auto py-10 px-4'>
+      <div className='mb-6 text-center'>
+        <CheckCircle className='w-12 h-12 text-green-600 mx-auto mb-4' />
+        <h1 className='text-3xl font-bold text-honey-dark'>شكراً لطلبك!</h1>
+        <p className='text-muted-foreground mt-2'>
+          رقم الطلب #{order.id.slice(-8)} · تاريخ الطلب: {new Date(order.order_date).toLocaleDateString('ar-TN')}
+        </p>
+        {order.customers?.email && (
+          <p className='text-muted-foreground mt-1'>سنتواصل معك على {order.customers.email}</p>
+        )}
+      </div>
+
+      <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
+        <div className='lg:col-span-2 space-y-6'>
+          <Card>
+            <CardHeader>
+              <CardTitle>المنتجات المطلوبة</CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-4'>
+              {order.order_items.map((item: any) => (
+                <div key={item.id} className='flex items-center gap-4 p-4 bg-gray-50 rounded-lg'>
+                  <div className='relative w-16 h-16 rounded-lg overflow-hidden flex-shrink-0'>
+                    <Image
+                      src={item.products?.image_url || 'https://picsum.photos/200'}
+                      alt={item.products?.name || 'Product'}
+                      fill
+                      style={{ objectFit: 'cover' }}
+                      className='rounded-lg'
+                    />
+                  </div>
+                  <div className='flex-grow'>
+                    <h3 className='font-semibold text-gray-800'>{item.products?.name}</h3>
+                    {item.variant_name && <p className='text-sm text-gray-600'>الحجم: {item.variant_name}</p>}
+                    <p className='text-sm text-gray-600'>الكمية: {item.quantity}</p>
+                    <p className='text-sm text-gray-600'>السعر: {item.price} د.ت</p>
+                  </div>
+                  <div className='text-right'>
+                    <p className='font-bold text-gray-800'>{(item.price * item.quantity).toFixed(2)} د.ت</p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {bankTransfer && (
+            <Card>
+              <CardHeader>
+                <CardTitle>الدفع بالتحويل البنكي</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BankTransferPanel transfer={bankTransfer} accessToken={token} />
+              </CardContent>
+            </Card>
+          )}
+
+          {order.customers?.is_guest && (
+            <Card>
+              <CardHeader>
+                <CardTitle>أنشئ حساباً لمتابعة طلباتك</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className='text-sm text-gray-600 mb-4'>
+                  اختر كلمة مرور لإنشاء حساب بالبريد {order.customers.email}. سيظهر هذا الطلب وطلباتك السابقة كزائر
+                  في حسابك.
+                </p>
+                <GuestAccountForm accessToken={token} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className='space-y-6'>
+          <Card>
+            <CardHeader>
+              <CardTitle>ملخص الطلب</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTotalsSummary totals={orderTotalsFromRow(order)} />
+            </CardContent>
+          </Card>
+
+          {shipment && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  <Truck className='w-4 h-4' />
+                  الشحن
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ShipmentTracking shipment={shipment} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2'>
+                <MapPin className='w-4 h-4' />
+                عنوان التوصيل
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className='space-y-2'>
+                <p>
+                  <strong>الاسم:</strong> {order.customers?.first_name} {order.customers?.last_name}
+                </p>
+                <p>
+                  <strong>العنوان:</strong> {order.addresses?.address_line_1}
+                </p>
+                <p>
+                  <strong>المدينة:</strong> {order.addresses?.city}
+                </p>
+                {order.addresses?.phone_number && (
+                  <p className='flex items-center gap-2'>
+                    <Phone className='w-4 h-4' />
+                    {order.addresses.phone_number}
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
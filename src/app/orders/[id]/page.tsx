@@ -1,8 +1,21 @@
 import ErrorPage from '@/components/ErrorPage';
+import {
+  BankTransferPanel,
+  CreditNotesList,
+  InvoiceDownloadButton,
+  OrderTimeline,
+  OrderTotalsSummary,
+  ShipmentTracking,
+} from '@/components/business/orders';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { createClientServerReadOnly } from '@/lib/supabase/server';
+import { orderTotalsFromRow } from '@/services/orders/order-totals';
+import { mapOrderShipmentRow, pickShipmentRow } from '@/services/orders/order-shipment';
+import { mapOrderTrackingRows } from '@/services/orders/order-tracking';
+import { bankTransferService } from '@/services/payments';
+import { mapCreditNoteRow } from '@/services/refunds';
 import { ArrowLeft, CreditCard, MapPin, Phone, Truck } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -38,7 +51,9 @@ export default async function OrderPage({ params }: OrderPageProps) {
         *,
         products (*)
       ),
-      addresses (*)
+      addresses (*),
+      order_tracking (*),
+      shipments (*)
     `
     )
     .eq('id', id)
@@ -56,6 +71,24 @@ export default async function OrderPage({ params }: OrderPageProps) {
     );
   }
 
+  const tracking = mapOrderTrackingRows(order.order_tracking || []);
+  const shipmentRow = pickShipmentRow(order.shipments);
+  const shipment = shipmentRow ? mapOrderShipmentRow(shipmentRow) : undefined;
+
+  // Refunds issued on this order
+  const { data: creditNoteRows } = await supabase
+    .from('credit_notes')
+    .select('*')
+    .eq('order_id', order.id)
+    .order('issued_at', { ascending: true });
+  const creditNotes = (creditNoteRows || []).map(mapCreditNoteRow);
+
+  // Where to pay, and the receipts sent so far, while a bank transfer is awaited
+  const bankTransfer =
+    order.payment_method === 'bank_transfer' && order.status === 'Awaiting Payment'
+      ? (await bankTransferService.getBankTransfer(order.id, { customerId: user.id })).data
+      : undefined;
+
   // Get customer details
   const { data: customer } = await supabase
     .from('customers')
@@ -127,6 +160,8 @@ export default async function OrderPage({ params }: OrderPageProps) {
         return 'الدفع عند الاستلام';
       case 'bank_transfer':
         return 'تحويل بنكي';
+      case 'credit_card':
+        return 'بطاقة بنكية';
       case 'paypal':
         return 'PayPal';
       default:
@@ -173,6 +208,7 @@ export default async function OrderPage({ params }: OrderPageProps) {
                   </div>
                   <div className='flex-grow'>
                     <h3 className='font-semibold text-gray-800'>{item.products?.name}</h3>
+                    {item.variant_name && <p className='text-sm text-gray-600'>الحجم: {item.variant_name}</p>}
                     <p className='text-sm text-gray-600'>الكمية: {item.quantity}</p>
                     <p className='text-sm text-gray-600'>السعر: {item.price} د.ت</p>
                   </div>
@@ -184,6 +220,15 @@ export default async function OrderPage({ params }: OrderPageProps) {
             </CardContent>
           </Card>
 
+          <Card className='mt-6'>
+            <CardHeader>
+              <CardTitle>تتبع الطلب</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline entries={tracking} />
+            </CardContent>
+          </Card>
+
           {order.notes && (
             <Card className='mt-6'>
               <CardHeader>
@@ -203,22 +248,24 @@ export default async function OrderPage({ params }: OrderPageProps) {
             <CardHeader>
               <CardTitle>ملخص الطلب</CardTitle>
             </CardHeader>
-            <CardContent className='space-y-3'>
-              <div className='flex justify-between'>
-                <span>المجموع الفرعي:</span>
-                <span>{(order.total_amount - (order.delivery_fee || 0)).toFixed(2)} د.ت</span>
-              </div>
-              <div className='flex justify-between'>
-                <span>رسوم التوصيل:</span>
-                <span>{(order.delivery_fee || 0).toFixed(2)} د.ت</span>
-              </div>
-              <div className='border-t pt-3 flex justify-between text-lg font-bold text-honey-dark'>
-                <span>المجموع الإجمالي:</span>
-                <span>{order.total_amount.toFixed(2)} د.ت</span>
-              </div>
+            <CardContent>
+              <OrderTotalsSummary totals={orderTotalsFromRow(order)} />
+              <InvoiceDownloadButton orderId={order.id} status={order.status} className='w-full mt-4' />
             </CardContent>
           </Card>
 
+          {/* Credit Notes */}
+          {creditNotes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>الإشعارات الدائنة</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CreditNotesList creditNotes={creditNotes} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Payment Method */}
           <Card>
             <CardHeader>
@@ -232,9 +279,34 @@ export default async function OrderPage({ params }: OrderPageProps) {
               {order.payment_method === 'cash_on_delivery' && (
                 <p className='text-sm text-gray-600 mt-2'>سيقوم مندوبنا بالاتصال بك لتأكيد الطلب وموعد التوصيل.</p>
               )}
+              {order.payment_method === 'credit_card' && order.status === 'Awaiting Payment' && (
+                <Button asChild className='w-full mt-4 bg-honey hover:bg-honey-dark text-white'>
+                  <Link href={`/payment/${order.id}`}>إتمام الدفع</Link>
+                </Button>
+              )}
+              {bankTransfer && (
+                <div className='mt-4'>
+                  <BankTransferPanel transfer={bankTransfer} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Shipment */}
+          {shipment && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center gap-2'>
+                  <Truck className='w-4 h-4' />
+                  الشحن
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ShipmentTracking shipment={shipment} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Delivery Address */}
           <Card>
             <CardHeader>
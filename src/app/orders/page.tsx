@@ -28,6 +28,7 @@ export default async function OrdersPage() {
       *,
       order_items (
         quantity,
+        variant_name,
         products (name, image_url)
       )
     `
@@ -86,6 +87,8 @@ export default async function OrdersPage() {
         return 'الدفع عند الاستلام';
       case 'bank_transfer':
         return 'تحويل بنكي';
+      case 'credit_card':
+        return 'بطاقة بنكية';
       case 'paypal':
         return 'PayPal';
       default:
@@ -162,7 +165,8 @@ export default async function OrdersPage() {
                 <div className='flex flex-wrap gap-2'>
                   {order.order_items.slice(0, 3).map((item: any, index: number) => (
                     <span key={index} className='text-sm bg-gray-100 px-2 py-1 rounded'>
-                      {item.products?.name} ({item.quantity})
+                      {item.products?.name}
+                      {item.variant_name && ` - ${item.variant_name}`} ({item.quantity})
                     </span>
                   ))}
                   {order.order_items.length > 3 && (
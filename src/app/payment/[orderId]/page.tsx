@@ -0,0 +1,77 @@
+import ErrorPage from '@/components/ErrorPage';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { createClientServer } from '@/lib/supabase/server';
+import { paymentService } from '@/services/payments';
+import { OrderStatus, PaymentStatus } from '@/types/enums';
+import { Lock } from 'lucide-react';
+import { redirect } from 'next/navigation';
+import PayButton from './pay-button';
+
+export const dynamic = 'force-dynamic';
+
+interface PaymentPageProps {
+  params: Promise<{
+    orderId: string;
+  }>;
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+// Card payment for an order awaiting payment: its customer, or a guest holding the order's access token
+export default async function PaymentPage({ params, searchParams }: PaymentPageProps) {
+  const { orderId } = await params;
+  const { token } = await searchParams;
+
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const result = await paymentService.getOrderPayment(orderId, { customerId: user?.id, accessToken: token });
+
+  if (!result.success || !result.data) {
+    return (
+      <ErrorPage
+        title='الطلب غير موجود'
+        message='لم يتم العثور على الطلب المطلوب. تأكد من صحة الرابط.'
+        showRetry={false}
+        showHome={true}
+      />
+    );
+  }
+
+  const payment = result.data;
+  if (payment.orderStatus !== OrderStatus.AWAITING_PAYMENT) {
+    redirect(token ? `/checkout/confirmation/${token}` : `/orders/${orderId}`);
+  }
+
+  return (
+    <div className='container mx-auto py-10 px-4 max-w-lg'>
+      <Card>
+        <CardHeader>
+          <CardTitle className='text-2xl text-honey-dark'>الدفع بالبطاقة البنكية</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <p className='text-muted-foreground'>
+            طلب #{orderId.slice(-8)} في انتظار الدفع. سيتم توجيهك إلى صفحة الدفع الآمنة للبنك لإدخال بيانات بطاقتك.
+          </p>
+          <div className='flex justify-between text-lg font-bold'>
+            <span>المبلغ المستحق:</span>
+            <span>{payment.amount.toFixed(2)} د.ت</span>
+          </div>
+          {payment.paymentStatus === PaymentStatus.FAILED && (
+            <div className='p-3 bg-red-50 text-red-800 rounded-md text-sm'>
+              لم تتم عملية الدفع ولم يُخصم أي مبلغ. يمكنك المحاولة مرة أخرى.
+            </div>
+          )}
+          <PayButton orderId={orderId} accessToken={token} amount={payment.amount} />
+          <p className='flex items-center justify-center gap-2 text-sm text-gray-500'>
+            <Lock className='w-4 h-4' />
+            لا نحتفظ ببيانات بطاقتك
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { startOrderPayment } from '@/actions/paymentActions';
+import { Button } from '@/components/ui/button';
+import { ErrorBanner } from '@/components/ui/simple-error';
+import { CreditCard } from 'lucide-react';
+import { useState } from 'react';
+
+interface PayButtonProps {
+  orderId: string;
+  accessToken?: string;
+  amount: number;
+}
+
+export default function PayButton({ orderId, accessToken, amount }: PayButtonProps) {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePay = async () => {
+    setError(null);
+    setIsRedirecting(true);
+
+    // On success the action redirects to the gateway and never returns
+    const result = await startOrderPayment(orderId, accessToken);
+    if (result && !result.success) {
+      setError(result.error || 'تعذر بدء عملية الدفع.');
+      setIsRedirecting(false);
+    }
+  };
+
+  return (
+    <div className='space-y-4'>
+      {error && <ErrorBanner error={error} />}
+      <Button
+        onClick={handlePay}
+        disabled={isRedirecting}
+        className='w-full bg-honey hover:bg-honey-dark text-white text-lg py-6'
+        size='lg'
+      >
+        <CreditCard className='w-5 h-5 mr-2' />
+        {isRedirecting ? 'جاري التوجيه إلى صفحة الدفع...' : `ادفع ${amount.toFixed(2)} د.ت`}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClientServer } from '@/lib/supabase/server';
+import { paymentService } from '@/services/payments';
+import { OrderStatus } from '@/types/enums';
+
+// Where the gateway sends the customer back, whether the payment went through or not
+export async function GET(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  const { orderId } = await params;
+  const token = request.nextUrl.searchParams.get('token') || undefined;
+  const url = request.nextUrl.clone();
+  url.search = '';
+
+  const supabase = await createClientServer();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const result = await paymentService.confirmPayment(orderId, { customerId: user?.id, accessToken: token });
+
+  if (result.success && result.data && result.data.orderStatus !== OrderStatus.AWAITING_PAYMENT) {
+    url.pathname = token ? `/checkout/confirmation/${token}` : `/orders/${orderId}`;
+    return NextResponse.redirect(url);
+  }
+
+  // Failed or not settled yet: back to the payment page, which offers another attempt
+  url.pathname = `/payment/${orderId}`;
+  if (token) {
+    url.searchParams.set('token', token);
+  }
+  return NextResponse.redirect(url);
+}
@@ -0,0 +1,48 @@
+import { completeMockPayment } from '@/actions/paymentActions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MockPaymentProvider, paymentService } from '@/services/payments';
+import { notFound } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+interface MockPaymentPageProps {
+  params: Promise<{
+    sessionId: string;
+  }>;
+}
+
+// Stands in for the gateway's payment page when no gateway is configured (development only)
+export default async function MockPaymentPage({ params }: MockPaymentPageProps) {
+  const { sessionId } = await params;
+
+  const provider = paymentService.getProvider();
+  const session = provider instanceof MockPaymentProvider ? provider.getSession(sessionId) : undefined;
+  if (!session || process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  return (
+    <div className='container mx-auto py-10 px-4 max-w-lg'>
+      <Card>
+        <CardHeader>
+          <CardTitle>Mock payment gateway</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <p className='text-sm text-gray-600'>{session.description}</p>
+          <p className='text-lg font-bold'>{session.amount.toFixed(3)} TND</p>
+          <div className='flex gap-2'>
+            <form action={completeMockPayment.bind(null, sessionId, true)}>
+              <Button type='submit'>Pay</Button>
+            </form>
+            <form action={completeMockPayment.bind(null, sessionId, false)}>
+              <Button type='submit' variant='outline'>
+                Decline
+              </Button>
+            </form>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
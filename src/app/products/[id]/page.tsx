@@ -1,40 +1,101 @@
+import { CategoryBreadcrumbs } from '@/components/business/categories';
+import { ProductImageGallery, ProductVariantPicker } from '@/components/business/products';
+import { ProductReviewList, RatingStars, ReviewSubmitForm } from '@/components/business/reviews';
+import { WishlistButton } from '@/components/ui/wishlist-button';
+import { createClientServerReadOnly } from '@/lib/supabase/server';
+import { categoryService, productService } from '@/services/products';
+import { reviewService, type ReviewSortOption } from '@/services/reviews';
+import { wishlistService } from '@/services/wishlist/wishlist.service';
+import { notFound } from 'next/navigation';
 
+const REVIEW_SORT_OPTIONS: ReviewSortOption[] = ['newest', 'highest', 'lowest', 'verified'];
 
-export default async function ProductDetailPage({ params }: { params: Promise<{ id: string }> }) {
+export default async function ProductDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ reviewSort?: string; reviewPage?: string }>;
+}) {
   const { id: productId } = await params;
+  const { reviewSort, reviewPage } = await searchParams;
+  const sortBy = REVIEW_SORT_OPTIONS.find(option => option === reviewSort) ?? 'newest';
+
+  const result = await productService.getProduct(productId);
+  if (!result.success || !result.data) {
+    notFound();
+  }
+
+  const product = result.data;
+  // Products listed before galleries may only have the single image
+  const galleryImages =
+    product.images.length > 0
+      ? product.images.map(image => ({
+          url: image.imageUrl,
+          alt: image.altTextAr || image.altTextEn || product.name,
+          variants: image.variants,
+          blurDataUrl: image.blurDataUrl,
+        }))
+      : [{ url: product.imageUrl || 'https://picsum.photos/600/400', alt: product.name }];
+
+  const supabase = await createClientServerReadOnly();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const wishlistResult = user ? await wishlistService.getProductIds(user.id) : null;
+  const isWishlisted = Boolean(wishlistResult?.success && wishlistResult.data?.includes(product.id));
+
+  const [reviewsResult, customerReviewResult, categoryPathResult] = await Promise.all([
+    reviewService.getProductReviews(product.id, { sortBy, page: Number(reviewPage) || 1 }),
+    user ? reviewService.getCustomerReview(user.id, product.id) : null,
+    // Breadcrumbs follow the product's first category
+    product.categories[0] ? categoryService.getCategoryPath(product.categories[0].id) : null,
+  ]);
 
   return (
     <div className="container mx-auto py-10">
+      <CategoryBreadcrumbs path={categoryPathResult?.data ?? []} current={product.name} className="mb-6" />
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-        {/* Product Image */}
-        <div className="rounded-xl overflow-hidden shadow-md">
-          <img
-            src="https://picsum.photos/600/400"
-            alt={`Product ${productId}`}
-            className="object-cover w-full h-96"
-          />
-        </div>
+        <ProductImageGallery images={galleryImages} />
 
         {/* Product Details */}
         <div>
-          <h1 className="text-3xl font-bold mb-4">
-            اسم المنتج
-          </h1>
-          <p className="text-gray-600 mb-6">
-            وصف المنتج: منتج عالي الجودة بفوائد صحية ونكهة مميزة.
-          </p>
-          <div className="flex items-center justify-between mb-6">
-            <span className="text-2xl font-bold">
-              150 د.ت
-            </span>
-            <button className="bg-primary hover:bg-primary-foreground text-primary-foreground font-bold py-2 px-8 rounded-full transition-colors duration-300">
-              أضف إلى السلة
-            </button>
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <h1 className="text-3xl font-bold">{product.name}</h1>
+            <WishlistButton productId={product.id} productName={product.name} initialWishlisted={isWishlisted} />
           </div>
-          {/* Additional details or specifications can go here */}
+          {product.averageRating !== undefined && (
+            <a href="#reviews" className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+              <RatingStars rating={product.averageRating} />
+              {product.averageRating.toFixed(1)} ({product.reviewCount} مراجعة)
+            </a>
+          )}
+          {product.description && <p className="text-gray-600 mb-6">{product.description}</p>}
+          <ProductVariantPicker
+            productId={product.id}
+            productName={product.name}
+            price={product.price}
+            stock={product.stock}
+            variants={product.variants ?? []}
+          />
         </div>
       </div>
+
+      {/* Reviews */}
+      <section id="reviews" className="mt-12 space-y-6">
+        <h2 className="text-2xl font-bold">آراء العملاء</h2>
+        {reviewsResult.success && reviewsResult.data ? (
+          <ProductReviewList productId={product.id} reviews={reviewsResult.data} sortBy={sortBy} />
+        ) : (
+          <p className="text-sm text-gray-600">تعذر تحميل المراجعات.</p>
+        )}
+        <ReviewSubmitForm
+          productId={product.id}
+          productName={product.name}
+          isSignedIn={Boolean(user)}
+          existingReview={customerReviewResult?.success ? customerReviewResult.data ?? null : null}
+        />
+      </section>
     </div>
   );
 }
-
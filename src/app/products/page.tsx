@@ -1,66 +1,218 @@
+import Link from "next/link";
 import { createClientServer } from "@/lib/supabase/server";
 import ProductCardClient from "@/components/ProductCardClient";
-import type { ProductRow } from "@/types/business/product";
+import { ProductSearchBar, ProductSortSelect } from "@/components/business/products";
+import { Button } from "@/components/ui/button";
+import {
+  buildProductListingHref,
+  getProductSortOption,
+  parseProductListingParams,
+  productService,
+  toProductCardData,
+  type ListingSearchParams,
+  type ProductFacets,
+} from "@/services/products";
+import { wishlistService } from "@/services/wishlist/wishlist.service";
+import type { ProductSearchParams } from "@/types/business";
 
-export default async function ProductsPage() {
-  const supabase = await createClientServer();
-  const { data: products, error } = await supabase
-    .from("products")
-    .select("id, name, description, price, image_url, stock, created_at");
+function priceRangeLabel(range: { min?: number; max?: number }) {
+  if (!range.min) return `أقل من ${range.max} د.ت`;
+  if (!range.max) return `أكثر من ${range.min} د.ت`;
+  return `${range.min} - ${range.max} د.ت`;
+}
 
-  if (error) {
-    console.error("Error fetching products:", error);
-    return <p>Error loading products. Please try again later.</p>;
+// Top-level categories, opened down to the selected one so its subcategories show
+function categoryFacetRows(facets: ProductFacets, selectedId?: string) {
+  const byId = new Map(facets.categories.map(category => [category.id, category]));
+  const expanded = new Set<string>();
+  for (let id = selectedId; id && !expanded.has(id); id = byId.get(id)?.parentId) {
+    expanded.add(id);
   }
 
-  if (!products || products.length === 0) {
-    return <p>No products found.</p>;
+  const rows: { category: ProductFacets["categories"][number]; depth: number }[] = [];
+  const addLevel = (parentId: string | undefined, depth: number) => {
+    facets.categories
+      .filter(category => category.parentId === parentId)
+      .forEach(category => {
+        rows.push({ category, depth });
+        if (expanded.has(category.id)) {
+          addLevel(category.id, depth + 1);
+        }
+      });
+  };
+  addLevel(undefined, 0);
+
+  return rows;
+}
+
+function FacetLink({ href, label, count, active }: { href: string; label: string; count: number; active: boolean }) {
+  return (
+    <Link
+      href={href}
+      className={`flex items-center justify-between rounded-md px-2 py-1 text-sm ${
+        active ? "bg-primary/10 font-semibold text-primary" : count === 0 ? "text-gray-400" : "hover:bg-gray-100"
+      }`}
+    >
+      <span>{label}</span>
+      <span className="text-xs text-gray-500">{count}</span>
+    </Link>
+  );
+}
+
+// Each filter links to the listing with that value set, or cleared when it is already active
+function ProductFilters({ params, facets }: { params: ProductSearchParams; facets: ProductFacets }) {
+  return (
+    <aside className="space-y-6">
+      <div>
+        <h2 className="mb-2 font-semibold">الفئة</h2>
+        {categoryFacetRows(facets, params.categoryId).map(({ category, depth }) => (
+          <div key={category.id} style={{ marginRight: depth * 16 }}>
+            <FacetLink
+              href={buildProductListingHref(params, {
+                categoryId: params.categoryId === category.id ? category.parentId : category.id,
+              })}
+              label={category.name}
+              count={category.count}
+              active={params.categoryId === category.id}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h2 className="mb-2 font-semibold">السعر</h2>
+        {facets.priceRanges.map((range) => {
+          const active = params.minPrice === range.min && params.maxPrice === range.max;
+          return (
+            <FacetLink
+              key={priceRangeLabel(range)}
+              href={buildProductListingHref(params, {
+                minPrice: active ? undefined : range.min,
+                maxPrice: active ? undefined : range.max,
+              })}
+              label={priceRangeLabel(range)}
+              count={range.count}
+              active={active}
+            />
+          );
+        })}
+      </div>
+
+      <div>
+        <h2 className="mb-2 font-semibold">التقييم</h2>
+        {facets.ratings.map((rating) => (
+          <FacetLink
+            key={rating.minRating}
+            href={buildProductListingHref(params, {
+              minRating: params.minRating === rating.minRating ? undefined : rating.minRating,
+            })}
+            label={`${"★".repeat(rating.minRating)} فأكثر`}
+            count={rating.count}
+            active={params.minRating === rating.minRating}
+          />
+        ))}
+      </div>
+
+      <div>
+        <h2 className="mb-2 font-semibold">التوفر</h2>
+        <FacetLink
+          href={buildProductListingHref(params, { inStock: !params.inStock })}
+          label="المتوفر فقط"
+          count={facets.inStock}
+          active={!!params.inStock}
+        />
+      </div>
+    </aside>
+  );
+}
+
+export default async function ProductsPage({ searchParams }: { searchParams: Promise<ListingSearchParams> }) {
+  const params = parseProductListingParams(await searchParams);
+  const [productsResult, facetsResult] = await Promise.all([
+    productService.getProducts(params),
+    productService.getProductFacets(params),
+  ]);
+
+  if (!productsResult.success || !productsResult.data) {
+    console.error("Error fetching products:", productsResult.error);
+    return <p>Error loading products. Please try again later.</p>;
   }
 
+  const { data: products, pagination } = productsResult.data;
+  const hasFilters = !!(params.categoryId || params.minPrice || params.maxPrice || params.inStock || params.minRating);
+
+  // Fill the hearts of products the signed-in customer already saved
+  const supabase = await createClientServer();
+  const { data: { user } } = await supabase.auth.getUser();
+  const wishlistResult = user ? await wishlistService.getProductIds(user.id) : null;
+  const wishlistedIds = new Set(wishlistResult?.success ? wishlistResult.data : []);
+
   return (
     <div className="container mx-auto py-10">
       <h1 className="text-3xl font-bold mb-8 text-center">
-        منتجاتنا
+        {params.search ? `نتائج البحث عن "${params.search}"` : "منتجاتنا"}
       </h1>
-      {/* Filters - Kept for now, can be made functional later */}
-      <div className="flex items-center justify-between mb-6">
-        {/* Type Filter */}
-        <div>
-          <label htmlFor="type" className="block text-sm font-medium text-gray-700">
-            النوع
-          </label>
-          <select
-            id="type"
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary focus:ring-primary sm:text-sm"
-          >
-            <option>الكل</option>
-            <option>عسل طبيعي</option>
-            <option>منتجات النحل</option>
-          </select>
-        </div>
+      <ProductSearchBar initialQuery={params.search} className="mb-6 max-w-xl mx-auto" />
 
-        {/* Price Filter */}
-        <div>
-          <label htmlFor="price" className="block text-sm font-medium text-gray-700">
-            السعر
-          </label>
-          <select
-            id="price"
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary focus:ring-primary sm:text-sm"
-          >
-            <option>الكل</option>
-            <option>أقل من 100 د.ت</option>
-            <option>100 - 200 د.ت</option>
-            <option>أكثر من 200 د.ت</option>
-          </select>
-        </div>
-      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        {facetsResult.success && facetsResult.data && (
+          <ProductFilters params={params} facets={facetsResult.data} />
+        )}
 
-      {/* Product List */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-        {products.map((product) => (
-          <ProductCardClient key={product.id} product={product} />
-        ))}
+        <div className="lg:col-span-3">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <p className="text-sm text-gray-600">{pagination.total} منتج</p>
+            <div className="flex items-center gap-4">
+              {hasFilters && (
+                <Link
+                  href={buildProductListingHref({ search: params.search })}
+                  className="text-sm text-primary hover:underline"
+                >
+                  مسح الفلاتر
+                </Link>
+              )}
+              <ProductSortSelect value={getProductSortOption(params)} isSearch={!!params.search} />
+            </div>
+          </div>
+
+          {/* Product List */}
+          {products.length === 0 ? (
+            <p className="text-center text-gray-600">
+              {params.search || hasFilters
+                ? "لم نجد منتجات تطابق بحثك. جرّب كلمات أو فلاتر أخرى."
+                : "لا توجد منتجات حالياً."}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+              {products.map((product) => (
+                <ProductCardClient
+                  key={product.id}
+                  product={toProductCardData(product)}
+                  isWishlisted={wishlistedIds.has(product.id)}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-10">
+              {pagination.page > 1 && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={buildProductListingHref(params, { page: pagination.page - 1 })}>السابق</Link>
+                </Button>
+              )}
+              <span className="text-sm text-gray-600">
+                صفحة {pagination.page} من {pagination.totalPages}
+              </span>
+              {pagination.page < pagination.totalPages && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={buildProductListingHref(params, { page: pagination.page + 1 })}>التالي</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,42 @@
+import WishlistClient from '@/components/WishlistClient';
+import { Button } from '@/components/ui/button';
+import { createClientServerReadOnly } from '@/lib/supabase/server';
+import { wishlistService } from '@/services/wishlist/wishlist.service';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+export default async function WishlistPage() {
+  const supabase = await createClientServerReadOnly();
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    redirect('/auth/login?redirect=/wishlist');
+  }
+
+  const result = await wishlistService.getWishlist(user.id);
+
+  if (!result.success || !result.data) {
+    return (
+      <div className='container mx-auto py-10 px-4 text-center'>
+        <h1 className='text-3xl font-bold mb-8 text-destructive'>خطأ في تحميل المفضلة</h1>
+        <p className='text-lg text-muted-foreground'>{result.error?.message}</p>
+        <Button asChild className='mt-6'>
+          <Link href='/'>العودة للرئيسية</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className='container mx-auto py-10 px-4'>
+      <h1 className='text-4xl font-extrabold mb-10 text-center text-honey-dark tracking-tight'>المفضلة</h1>
+      <WishlistClient initialItems={result.data.items} />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -10,6 +10,8 @@ import ClearCartButton from '@/components/ClearCartButton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { OrderTotalsSummary } from '@/components/business/orders';
+import { OrderPricing, calculateOrderTotals } from '@/services/orders/order-totals';
 
 // Types should match those in cart/page.tsx and cartActions.ts
 interface CartProduct {
@@ -20,62 +22,38 @@ interface CartProduct {
   description: string | null;
 }
 
+interface CartVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
 interface CartItem {
   id: string; // cart_item_id
   quantity: number;
   product: CartProduct | null;
+  variant: CartVariant | null;
+  unitPrice: number; // the variant's price when one was chosen
 }
 
 interface CartDisplayClientProps {
   initialItems: CartItem[];
-  initialTotal: number;
-  initialShipping?: number;
-  initialGrandTotal?: number;
+  pricing: OrderPricing;
 }
 
-export default function CartDisplayClient({ initialItems, initialTotal, initialShipping }: CartDisplayClientProps) {
+export default function CartDisplayClient({ initialItems, pricing }: CartDisplayClientProps) {
   const router = useRouter();
   const [items, setItems] = useState<CartItem[]>(initialItems);
-  const [total, setTotal] = useState<number>(initialTotal);
-
-  // Seed deliveryFee with initialShipping when subtotal < 100 on server, will be refined after fetching store settings
-  const [deliveryFee, setDeliveryFee] = useState<number | null>(
-    typeof initialShipping === 'number' ? initialShipping : null
-  );
 
   // Payment dialog state
   const [openPaymentDialog, setOpenPaymentDialog] = useState(false);
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'paypal'>('cash_on_delivery');
-
-  useEffect(() => {
-    const fetchStoreSettings = async () => {
-      try {
-        const resp = await fetch('/api/store-settings/delivery-fee', { cache: 'no-store' });
-        const json = await resp.json();
-        // API returns 200 with default 0 even on failure; just use value if number
-        setDeliveryFee(typeof json.delivery_fee === 'number' ? json.delivery_fee : 0);
-      } catch (e) {
-        console.warn('Error fetching store settings (client):', e);
-        setDeliveryFee(0);
-      }
-    };
+  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'credit_card'>('cash_on_delivery');
 
-    fetchStoreSettings();
-  }, []);
-
-  // Calculate shipping and grand total (always apply delivery fee)
-  const shipping = deliveryFee !== null ? deliveryFee : 0;
-  const grandTotal = total + shipping;
-
-  // Recalculate total whenever items change
-  useEffect(() => {
-    let newTotal = 0;
-    items.forEach(item => {
-      const productPrice = item.product?.price ?? 0;
-      newTotal += productPrice * item.quantity;
-    });
-    setTotal(newTotal);
-  }, [items]);
+  // Recalculated locally as quantities change, with the same calculation the order uses
+  const totals = calculateOrderTotals({
+    items: items.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice })),
+    pricing,
+  });
 
   const handleQuantityChange = (cartItemId: string, newQuantity: number) => {
     setItems(currentItems =>
@@ -83,12 +61,10 @@ export default function CartDisplayClient({ initialItems, initialTotal, initialS
         item.id === cartItemId ? { ...item, quantity: newQuantity } : item
       )
     );
-    // Total is recalculated by the useEffect hook
   };
 
   const handleRemoveItem = (cartItemId: string) => {
     setItems(currentItems => currentItems.filter(item => item.id !== cartItemId));
-     // Total is recalculated by the useEffect hook
   };
   
   const handleCartCleared = () => {
@@ -142,11 +118,14 @@ export default function CartDisplayClient({ initialItems, initialTotal, initialS
                 <h2 className="text-xl sm:text-2xl font-semibold text-gray-800 hover:text-honey transition-colors">
                   <Link href={`/products/${item.product.id}`}>{item.product.name}</Link>
                 </h2>
+                {item.variant && (
+                  <p className="text-sm text-gray-600 mt-1">الحجم: {item.variant.name}</p>
+                )}
                 <p className="text-sm text-muted-foreground mt-1 hidden sm:block">
                   {item.product.description ? `${item.product.description.substring(0, 70)}...` : ''}
                 </p>
                 <p className="text-lg font-bold text-honey mt-2 sm:mt-1">
-                  {item.product.price} د.ت
+                  {item.unitPrice} د.ت
                 </p>
               </div>
               <div className="mt-4 sm:mt-0">
@@ -177,20 +156,7 @@ export default function CartDisplayClient({ initialItems, initialTotal, initialS
           <h2 className="text-2xl font-bold text-gray-800 mb-6 border-b pb-4">
             ملخص الطلب
           </h2>
-          <div className="space-y-3 mb-6">
-            <div className="flex justify-between text-lg">
-              <span>المجموع الفرعي</span>
-              <span>{total.toFixed(2)} د.ت</span>
-            </div>
-            <div className="flex justify-between text-lg">
-              <span>رسوم التوصيل</span>
-              <span>{shipping.toFixed(2)} د.ت</span>
-            </div>
-            <div className="border-t pt-3 mt-3 flex justify-between text-xl font-bold text-honey-dark">
-              <span>المجموع الإجمالي</span>
-              <span>{grandTotal.toFixed(2)} د.ت</span>
-            </div>
-          </div>
+          <OrderTotalsSummary totals={totals} className="mb-6 text-lg" />
           <Button 
             size="lg"
             className="w-full bg-honey hover:bg-honey-dark text-white text-lg py-3 rounded-lg shadow-md hover:shadow-lg transition-all duration-300 transform hover:scale-105"
@@ -199,7 +165,7 @@ export default function CartDisplayClient({ initialItems, initialTotal, initialS
             الانتقال إلى الدفع
           </Button>
           <p className="text-xs text-muted-foreground mt-4 text-center">
-            سيتم تطبيق الضرائب عند الدفع.
+            يمكنك إدخال رمز الخصم عند الدفع.
           </p>
         </div>
       </div>
@@ -229,15 +195,15 @@ export default function CartDisplayClient({ initialItems, initialTotal, initialS
               <div className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50">
                 <RadioGroupItem value="bank_transfer" id="pm_postal" />
                 <Label htmlFor="pm_postal" className="cursor-pointer flex-1">
-                  <div className="font-semibold">حوالة بريدية</div>
-                  <div className="text-sm text-gray-600">الدفع عبر الحوالة البريدية</div>
+                  <div className="font-semibold">تحويل بنكي</div>
+                  <div className="text-sm text-gray-600">تحويل مباشر إلى حسابنا البنكي</div>
                 </Label>
               </div>
               <div className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50">
-                <RadioGroupItem value="paypal" id="pm_paypal" />
-                <Label htmlFor="pm_paypal" className="cursor-pointer flex-1">
-                  <div className="font-semibold">PayPal</div>
-                  <div className="text-sm text-gray-600">ادفع بأمان عبر PayPal</div>
+                <RadioGroupItem value="credit_card" id="pm_card" />
+                <Label htmlFor="pm_card" className="cursor-pointer flex-1">
+                  <div className="font-semibold">بطاقة بنكية</div>
+                  <div className="text-sm text-gray-600">ادفع ببطاقتك البنكية عبر صفحة دفع آمنة</div>
                 </Label>
               </div>
             </RadioGroup>
@@ -1,17 +1,27 @@
 'use client';
 
-import { createOrderWithPaymentMethod } from '@/actions/checkoutActions';
+import {
+  createGuestOrder,
+  createOrderWithPaymentMethod,
+  getCheckoutTotals,
+  GuestCheckoutDetails,
+} from '@/actions/checkoutActions';
+import { OrderTotalsSummary } from '@/components/business/orders';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { ErrorBanner } from '@/components/ui/simple-error';
 import { Textarea } from '@/components/ui/textarea';
+import { useCart } from '@/context/CartProvider';
 import { useToast } from '@/hooks/use-toast';
+import { OrderTotals } from '@/types/business';
 import { Building2, CreditCard, Truck } from 'lucide-react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 
 interface CartProduct {
   id: string;
@@ -25,6 +35,8 @@ interface CartItem {
   id: string;
   quantity: number;
   product: CartProduct | null;
+  variant: { id: string; name: string } | null;
+  unitPrice: number;
 }
 
 interface Customer {
@@ -40,46 +52,94 @@ interface Address {
 
 interface CheckoutClientProps {
   items: CartItem[];
-  total: number;
+  totals: OrderTotals;
   customer: Customer | null;
   address: Address | null;
-  deliveryFee?: number;
-  initialPaymentMethod?: 'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'paypal';
+  initialPaymentMethod?: 'cash_on_delivery' | 'mobile_payment' | 'bank_transfer' | 'credit_card';
+  // Not signed in: contact and delivery details are entered on this page
+  isGuest?: boolean;
+  // The address's city is in a delivery zone marked undeliverable
+  undeliverable?: boolean;
 }
 
-const DEFAULT_DELIVERY_FEE = 0;
+const GUEST_FIELDS: { name: keyof GuestCheckoutDetails; label: string; type?: string; optional?: boolean }[] = [
+  { name: 'firstName', label: 'الاسم الأول' },
+  { name: 'lastName', label: 'الاسم الأخير' },
+  { name: 'email', label: 'البريد الإلكتروني', type: 'email' },
+  { name: 'phone', label: 'رقم الهاتف', type: 'tel' },
+  { name: 'addressLine1', label: 'العنوان' },
+  { name: 'city', label: 'المدينة' },
+  { name: 'postalCode', label: 'الرمز البريدي', optional: true },
+];
 
-export default function CheckoutClient({ items, total, customer, address, deliveryFee = DEFAULT_DELIVERY_FEE, initialPaymentMethod = 'cash_on_delivery' }: CheckoutClientProps) {
+export default function CheckoutClient({
+  items,
+  totals: initialTotals,
+  customer,
+  address,
+  initialPaymentMethod = 'cash_on_delivery',
+  isGuest = false,
+  undeliverable = false,
+}: CheckoutClientProps) {
   const [paymentMethod, setPaymentMethod] = useState<string>(initialPaymentMethod);
+  const [guestDetails, setGuestDetails] = useState<GuestCheckoutDetails>({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    addressLine1: '',
+    city: '',
+    postalCode: '',
+  });
   const [notes, setNotes] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Totals are always priced on the server; applying a code or changing the city re-prices the cart
+  const [totals, setTotals] = useState<OrderTotals>(initialTotals);
+  const [discountInput, setDiscountInput] = useState<string>(initialTotals.discountCode || '');
+  const [isApplyingDiscount, setIsApplyingDiscount] = useState(false);
+  const [isUndeliverable, setIsUndeliverable] = useState(undeliverable);
+
+  // Delivery is priced by the zone of this city
+  const shippingCity = isGuest ? guestDetails.city : address?.city || undefined;
+
   const router = useRouter();
   const { toast } = useToast();
+  const { refreshCart } = useCart();
 
-  // Effective delivery fee, allow client fetch if server provided 0
-  const [effectiveFee, setEffectiveFee] = useState<number>(deliveryFee ?? DEFAULT_DELIVERY_FEE);
-
-  // If server sent 0, try to fetch the configured fee client-side
-  useEffect(() => {
-    async function ensureFee() {
-      if ((deliveryFee ?? 0) === 0 && typeof window !== 'undefined') {
-        try {
-          const resp = await fetch('/api/store-settings/delivery-fee', { cache: 'no-store' });
-          const json = await resp.json();
-          if (typeof json?.delivery_fee === 'number') {
-            setEffectiveFee(json.delivery_fee);
-          }
-        } catch {
-          // keep current fee
+  const repriceTotals = async (code: string | undefined, city: string | undefined): Promise<boolean> => {
+    setIsApplyingDiscount(true);
+    try {
+      const result = await getCheckoutTotals(code, city);
+      if (!result.success || !result.data) {
+        if (result.code === 'UNDELIVERABLE_ADDRESS') {
+          setIsUndeliverable(true);
+          return false;
         }
+        toast({
+          title: 'رمز الخصم غير صالح',
+          description: result.error,
+          variant: 'destructive',
+        });
+        return false;
       }
+      setIsUndeliverable(false);
+      setTotals(result.data);
+      return true;
+    } finally {
+      setIsApplyingDiscount(false);
     }
-    ensureFee();
-  }, [deliveryFee]);
+  };
+
+  const handleCityBlur = () => repriceTotals(totals.discountCode, guestDetails.city);
 
-  const totalWithDelivery = total + (effectiveFee ?? DEFAULT_DELIVERY_FEE);
+  const handleApplyDiscount = async (code?: string) => {
+    const applied = await repriceTotals(code, shippingCity);
+    if (applied && !code) {
+      setDiscountInput('');
+    }
+  };
 
   const handleSubmitOrder = async () => {
     setIsLoading(true);
@@ -88,13 +148,14 @@ export default function CheckoutClient({ items, total, customer, address, delive
     try {
       const orderData = {
         items: items.filter(item => item.product !== null),
-        totalAmount: total,
-        deliveryFee: deliveryFee,
+        discountCode: totals.discountCode,
         paymentMethod,
         // notes, // Temporairement désactivé jusqu'à ce que la colonne soit ajoutée
       };
 
-      const orderResult = await createOrderWithPaymentMethod(orderData, paymentMethod);
+      const orderResult = isGuest
+        ? await createGuestOrder(guestDetails, paymentMethod, totals.discountCode, notes)
+        : await createOrderWithPaymentMethod(orderData, paymentMethod);
 
       if (!orderResult.success || !orderResult.data) {
         const errorMessage = (typeof orderResult.error === 'string' ? orderResult.error : orderResult.error?.message) || 'حدث خطأ غير متوقع.';
@@ -107,7 +168,6 @@ export default function CheckoutClient({ items, total, customer, address, delive
         return;
       }
 
-      const orderId = orderResult.data.id;
 
       // Show success message based on payment method
       let successMessage = '';
@@ -116,10 +176,10 @@ export default function CheckoutClient({ items, total, customer, address, delive
           successMessage = 'تم تأكيد طلبك بنجاح! سيقوم مندوبنا بالاتصال بك قريباً لتأكيد الطلب والتوصيل.';
           break;
         case 'bank_transfer':
-          successMessage = 'تم إنشاء طلبك بنجاح! سيتم إرسال تفاصيل التحويل البنكي إليك قريباً.';
+          successMessage = 'تم إنشاء طلبك بنجاح! حوّل المبلغ إلى حسابنا البنكي ثم ارفع إيصال التحويل من صفحة الطلب.';
           break;
-        case 'paypal':
-          successMessage = 'تم إنشاء طلبك بنجاح! سيتم توجيهك لإتمام الدفع عبر PayPal.';
+        case 'credit_card':
+          successMessage = 'تم إنشاء طلبك بنجاح! سيتم توجيهك لإتمام الدفع بالبطاقة البنكية.';
           break;
         default:
           successMessage = 'تم تأكيد طلبك بنجاح!';
@@ -132,8 +192,17 @@ export default function CheckoutClient({ items, total, customer, address, delive
         duration: 8000,
       });
 
-      // Redirect to order confirmation or orders page
-      router.push(`/orders/${orderId}`);
+      // The cart was emptied into the order
+      await refreshCart();
+
+      // Card orders go on to the payment page. Guests have no orders page; their
+      // confirmation page is opened by the order's access token
+      if ('id' in orderResult.data) {
+        const orderId = orderResult.data.id;
+        router.push(paymentMethod === 'credit_card' ? `/payment/${orderId}` : `/orders/${orderId}`);
+      } else {
+        router.push(orderResult.data.paymentUrl ?? `/checkout/confirmation/${orderResult.data.accessToken}`);
+      }
     } catch (error) {
       console.error('Error submitting order:', error);
       const errorMessage = 'حدث خطأ أثناء إرسال الطلب. يرجى المحاولة مرة أخرى.';
@@ -150,10 +219,16 @@ export default function CheckoutClient({ items, total, customer, address, delive
 
   // Validate required address fields
   const missingFields: string[] = [];
-  if (!address?.address_line_1) missingFields.push('العنوان');
-  if (!address?.city) missingFields.push('المدينة');
-  if (!address?.phone_number) missingFields.push('رقم الهاتف');
-  const canSubmit = missingFields.length === 0;
+  if (isGuest) {
+    GUEST_FIELDS.forEach(field => {
+      if (!field.optional && !guestDetails[field.name]?.trim()) missingFields.push(field.label);
+    });
+  } else {
+    if (!address?.address_line_1) missingFields.push('العنوان');
+    if (!address?.city) missingFields.push('المدينة');
+    if (!address?.phone_number) missingFields.push('رقم الهاتف');
+  }
+  const canSubmit = missingFields.length === 0 && !isUndeliverable;
 
   return (
     <div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
@@ -180,12 +255,13 @@ export default function CheckoutClient({ items, total, customer, address, delive
                   </div>
                   <div className='flex-grow'>
                     <h3 className='font-semibold text-gray-800'>{item.product.name}</h3>
+                    {item.variant && <p className='text-sm text-gray-600'>الحجم: {item.variant.name}</p>}
                     <p className='text-sm text-gray-600'>الكمية: {item.quantity}</p>
-                    <p className='text-sm font-bold text-honey'>{item.product.price} د.ت</p>
+                    <p className='text-sm font-bold text-honey'>{item.unitPrice} د.ت</p>
                   </div>
                   <div className='text-right'>
                     <p className='font-bold text-gray-800'>
-                      {((item.product.price || 0) * item.quantity).toFixed(2)} د.ت
+                      {(item.unitPrice * item.quantity).toFixed(2)} د.ت
                     </p>
                   </div>
                 </div>
@@ -193,25 +269,35 @@ export default function CheckoutClient({ items, total, customer, address, delive
             })}
 
             <div className='border-t pt-4 space-y-2'>
-            <div className='flex justify-between'>
-            <span>المجموع الفرعي:</span>
-            <span>{total.toFixed(2)} د.ت</span>
-            </div>
-            <div className='flex justify-between'>
-            <span>رسوم التوصيل:</span>
-            <span>{(effectiveFee ?? DEFAULT_DELIVERY_FEE).toFixed(2)} د.ت</span>
-            </div>
-            <div className='flex justify-between text-lg font-bold text-honey-dark border-t pt-2'>
-            <span>المجموع الإجمالي:</span>
-            <span>{totalWithDelivery.toFixed(2)} د.ت</span>
-            </div>
+              <div className='flex gap-2'>
+                <Input
+                  placeholder='رمز الخصم'
+                  value={discountInput}
+                  onChange={e => setDiscountInput(e.target.value)}
+                  disabled={isApplyingDiscount || !!totals.discountCode}
+                />
+                {totals.discountCode ? (
+                  <Button variant='outline' onClick={() => handleApplyDiscount()} disabled={isApplyingDiscount}>
+                    إزالة
+                  </Button>
+                ) : (
+                  <Button
+                    variant='outline'
+                    onClick={() => handleApplyDiscount(discountInput)}
+                    disabled={isApplyingDiscount || !discountInput.trim()}
+                  >
+                    تطبيق
+                  </Button>
+                )}
+              </div>
+              <OrderTotalsSummary totals={totals} className='pt-2' />
               <div className='pt-2 text-sm text-gray-700'>
                   <span className='font-semibold'>طريقة الدفع المختارة:</span>
                   <span className='ml-2'>
                     {paymentMethod === 'cash_on_delivery' && 'الدفع عند الاستلام'}
                     {paymentMethod === 'mobile_payment' && 'الخصم من بطاقة e-Dinar'}
-                    {paymentMethod === 'bank_transfer' && 'حوالة بريدية'}
-                    {paymentMethod === 'paypal' && 'PayPal'}
+                    {paymentMethod === 'bank_transfer' && 'تحويل بنكي'}
+                    {paymentMethod === 'credit_card' && 'بطاقة بنكية'}
                   </span>
                 </div>
               </div>
@@ -224,24 +310,54 @@ export default function CheckoutClient({ items, total, customer, address, delive
             <CardTitle className='text-xl text-honey-dark'>معلومات التوصيل</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className='space-y-2'>
-              <p>
-                <strong>الاسم:</strong> {customer?.first_name} {customer?.last_name}
-              </p>
-              <p>
-                <strong>العنوان:</strong> {address?.address_line_1 || '—'}, {address?.city || '—'}
-              </p>
-              <p>
-                <strong>رقم الهاتف:</strong> {address?.phone_number || '—'}
-              </p>
-              {!canSubmit && (
-                <div className='mt-3 p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm'>
-                  لإتمام الطلب، يرجى استكمال بيانات التوصيل: {missingFields.join('، ')}.
-                  <br />
-                  <a href='/profile/edit' className='underline text-honey-dark'>تحديث العنوان الآن</a>
+            {isGuest ? (
+              <div className='space-y-4'>
+                <p className='text-sm text-gray-600'>
+                  لديك حساب؟{' '}
+                  <Link href='/auth/login' className='underline text-honey-dark'>
+                    سجّل الدخول
+                  </Link>{' '}
+                  أو أكمل الطلب كزائر.
+                </p>
+                <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+                  {GUEST_FIELDS.map(field => (
+                    <div key={field.name} className='space-y-1'>
+                      <Label htmlFor={field.name}>
+                        {field.label}
+                        {field.optional && ' (اختياري)'}
+                      </Label>
+                      <Input
+                        id={field.name}
+                        type={field.type ?? 'text'}
+                        value={guestDetails[field.name] ?? ''}
+                        onChange={e => setGuestDetails(prev => ({ ...prev, [field.name]: e.target.value }))}
+                        onBlur={field.name === 'city' ? handleCityBlur : undefined}
+                        required={!field.optional}
+                      />
+                    </div>
+                  ))}
                 </div>
-              )}
-            </div>
+              </div>
+            ) : (
+              <div className='space-y-2'>
+                <p>
+                  <strong>الاسم:</strong> {customer?.first_name} {customer?.last_name}
+                </p>
+                <p>
+                  <strong>العنوان:</strong> {address?.address_line_1 || '—'}, {address?.city || '—'}
+                </p>
+                <p>
+                  <strong>رقم الهاتف:</strong> {address?.phone_number || '—'}
+                </p>
+                {!canSubmit && (
+                  <div className='mt-3 p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm'>
+                    لإتمام الطلب، يرجى استكمال بيانات التوصيل: {missingFields.join('، ')}.
+                    <br />
+                    <a href='/profile/edit' className='underline text-honey-dark'>تحديث العنوان الآن</a>
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -277,12 +393,12 @@ export default function CheckoutClient({ items, total, customer, address, delive
               </div>
 
               <div className='flex items-center space-x-2 space-x-reverse p-4 border rounded-lg hover:bg-gray-50'>
-                <RadioGroupItem value='paypal' id='paypal' />
-                <Label htmlFor='paypal' className='flex items-center gap-3 cursor-pointer flex-grow'>
+                <RadioGroupItem value='credit_card' id='credit_card' />
+                <Label htmlFor='credit_card' className='flex items-center gap-3 cursor-pointer flex-grow'>
                   <CreditCard className='w-5 h-5 text-honey' />
                   <div>
-                    <div className='font-semibold'>PayPal</div>
-                    <div className='text-sm text-gray-600'>ادفع بأمان عبر PayPal</div>
+                    <div className='font-semibold'>بطاقة بنكية</div>
+                    <div className='text-sm text-gray-600'>ادفع ببطاقتك البنكية عبر صفحة دفع آمنة</div>
                   </div>
                 </Label>
               </div>
@@ -307,6 +423,11 @@ export default function CheckoutClient({ items, total, customer, address, delive
 
         {/* Error Display */}
         {error && <ErrorBanner error={error} />}
+        {isUndeliverable && (
+          <div className='p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm'>
+            عذراً، التوصيل غير متوفر حالياً إلى {shippingCity}. يرجى اختيار عنوان آخر.
+          </div>
+        )}
 
         {/* Submit Button */}
         <Button
@@ -315,7 +436,13 @@ export default function CheckoutClient({ items, total, customer, address, delive
         className='w-full bg-honey hover:bg-honey-dark text-white text-lg py-6 rounded-lg shadow-md hover:shadow-lg transition-all duration-300'
         size='lg'
         >
-        {isLoading ? 'جاري إرسال الطلب...' : (canSubmit ? 'تأكيد الطلب' : 'أكمل بيانات التوصيل أولاً')}
+        {isLoading
+          ? 'جاري إرسال الطلب...'
+          : canSubmit
+            ? 'تأكيد الطلب'
+            : isUndeliverable
+              ? 'التوصيل غير متوفر لهذا العنوان'
+              : 'أكمل بيانات التوصيل أولاً'}
         </Button>
         
         {paymentMethod === 'cash_on_delivery' && (
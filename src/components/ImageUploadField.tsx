@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useDropzone, FileWithPath } from 'react-dropzone';
 import { ControllerRenderProps } from 'react-hook-form'; // To type the field prop
+import { MAX_PRODUCT_IMAGE_BYTES, PRODUCT_IMAGE_ACCEPT } from '@/lib/utils/image-variants';
 
 // Define props for the new component
 interface ImageUploadFieldProps {
@@ -27,15 +28,15 @@ export function ImageUploadField({ field }: ImageUploadFieldProps) {
     // No cleanup needed for FileReader data URLs
   }, [field.value]); // Re-run effect if file changes
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+  const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop: (acceptedFiles: FileWithPath[]) => {
       if (acceptedFiles.length > 0) {
         field.onChange(acceptedFiles[0]); // Update RHF state with the File object
       }
     },
-    accept: {
-      'image/*': ['.png', '.jpg', '.jpeg', '.webp']
-    },
+    // The server resizes and checks the file again; this only saves sending ones it would refuse
+    accept: PRODUCT_IMAGE_ACCEPT,
+    maxSize: MAX_PRODUCT_IMAGE_BYTES,
     multiple: false
   });
 
@@ -49,6 +50,11 @@ export function ImageUploadField({ field }: ImageUploadFieldProps) {
           <p>Glissez-déposez une image ici, ou cliquez pour sélectionner</p>
         )}
       </div>
+      {fileRejections.length > 0 && (
+        <p className="mt-2 text-sm text-red-500">
+          يجب أن تكون الصورة JPEG أو PNG أو WebP أو AVIF وألا يتجاوز حجمها 15 ميغابايت.
+        </p>
+      )}
       {preview && (
         <div className="mt-4">
           <img src={preview} alt="Aperçu de l'image" className="max-h-48 rounded mx-auto" />
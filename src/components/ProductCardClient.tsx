@@ -1,7 +1,10 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
 import { AddToCartButton } from '@/components/ui/add-to-cart-button';
+import { WishlistButton } from '@/components/ui/wishlist-button';
 
 // Define Product type (should match definition in profile/page.tsx or a shared types file)
 interface Product {
@@ -10,11 +13,22 @@ interface Product {
   description: string | null;
   price: number | null;
   image_url: string | null;
+  // Active jar sizes; the size is chosen on the product page
+  product_variants?: { price: number }[];
 }
 
-export default function ProductCardClient({ product }: { product: Product }) {
+export default function ProductCardClient({
+  product,
+  isWishlisted = false,
+}: {
+  product: Product;
+  isWishlisted?: boolean;
+}) {
   if (!product) return null;
 
+  const variantPrices = (product.product_variants ?? []).map(variant => variant.price);
+  const hasVariants = variantPrices.length > 0;
+
   return (
     <div className="rounded-xl overflow-hidden shadow-lg bg-white flex flex-col">
       <div className="relative w-full h-56">
@@ -25,24 +39,38 @@ export default function ProductCardClient({ product }: { product: Product }) {
           sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
           className="rounded-t-xl object-cover"
         />
+        <WishlistButton
+          productId={product.id}
+          productName={product.name || "Product"}
+          initialWishlisted={isWishlisted}
+          className="absolute top-2 left-2 bg-white/80 hover:bg-white"
+        />
       </div>
       <div className="p-5 flex flex-col flex-grow">
         <h3 className="text-xl font-bold mb-2 text-honey-dark">
-          {product.name || "Unnamed Product"}
+          <Link href={`/products/${product.id}`}>{product.name || "Unnamed Product"}</Link>
         </h3>
         <p className="text-gray-700 text-sm mb-3 h-20 overflow-hidden flex-grow">
           {product.description || "No description available."}
         </p>
         <div className="flex items-center justify-between mt-4">
           <span className="text-2xl font-bold text-honey">
-            {product.price ? `${product.price} د.ت` : "Price not set"}
+            {hasVariants
+              ? `ابتداءً من ${Math.min(...variantPrices)} د.ت`
+              : product.price ? `${product.price} د.ت` : "Price not set"}
           </span>
-          <AddToCartButton
-            productId={product.id}
-            productName={product.name || "Product"}
-            className="bg-honey hover:bg-honey-dark text-white rounded-full"
-            size="lg"
-          />
+          {hasVariants ? (
+            <Button asChild size="lg" className="bg-honey hover:bg-honey-dark text-white rounded-full">
+              <Link href={`/products/${product.id}`}>اختر الحجم</Link>
+            </Button>
+          ) : (
+            <AddToCartButton
+              productId={product.id}
+              productName={product.name || "Product"}
+              className="bg-honey hover:bg-honey-dark text-white rounded-full"
+              size="lg"
+            />
+          )}
         </div>
       </div>
     </div>
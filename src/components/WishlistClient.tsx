@@ -0,0 +1,140 @@
+'use client';
+
+import { moveWishlistItemToCart, removeWishlistItem } from '@/actions/wishlistActions';
+import { Button } from '@/components/ui/button';
+import { useCart } from '@/context/CartProvider';
+import type { WishlistItem } from '@/types/business';
+import { Loader2, ShoppingCart, Trash2 } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface WishlistClientProps {
+  initialItems: WishlistItem[];
+}
+
+export default function WishlistClient({ initialItems }: WishlistClientProps) {
+  const { refreshCart } = useCart();
+  const [items, setItems] = useState<WishlistItem[]>(initialItems);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const dropItem = (productId: string) =>
+    setItems(currentItems => currentItems.filter(item => item.productId !== productId));
+
+  const handleMoveToCart = async (item: WishlistItem) => {
+    setPendingId(item.productId);
+
+    try {
+      const result = await moveWishlistItemToCart(item.productId);
+
+      if (result.success) {
+        dropItem(item.productId);
+        await refreshCart();
+        toast.success('تم نقل المنتج إلى السلة', { description: item.product.name });
+      } else {
+        toast.error('فشل في نقل المنتج', {
+          description: result.code === 'INSUFFICIENT_STOCK' ? 'المنتج غير متوفر حالياً' : result.message,
+        });
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (item: WishlistItem) => {
+    setPendingId(item.productId);
+
+    try {
+      const result = await removeWishlistItem(item.productId);
+
+      if (result.success) {
+        dropItem(item.productId);
+      } else {
+        toast.error('فشل في إزالة المنتج', { description: result.message });
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className='text-center'>
+        <p className='text-lg text-muted-foreground mb-6'>لم تقم بحفظ أي منتجات في المفضلة بعد.</p>
+        <Button asChild size='lg' className='bg-honey hover:bg-honey-dark text-white'>
+          <Link href='/products'>تصفح المنتجات</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8'>
+      {items.map(item => {
+        const { product } = item;
+        const hasVariants = (product.variants ?? []).length > 0;
+        const isPending = pendingId === item.productId;
+
+        return (
+          <div key={item.id} className='rounded-xl overflow-hidden shadow-lg bg-white flex flex-col'>
+            <div className='relative w-full h-48'>
+              <Image
+                src={product.imageUrl || 'https://picsum.photos/400/300'}
+                alt={product.name}
+                fill
+                sizes='(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw'
+                className='object-cover'
+              />
+            </div>
+            <div className='p-5 flex flex-col flex-grow gap-3'>
+              <h3 className='text-xl font-bold text-honey-dark'>
+                <Link href={`/products/${product.id}`}>{product.name}</Link>
+              </h3>
+              <div className='flex items-center justify-between'>
+                <span className='text-lg font-bold text-honey'>
+                  {hasVariants
+                    ? `ابتداءً من ${Math.min(...product.variants!.map(variant => variant.price))} د.ت`
+                    : `${product.price} د.ت`}
+                </span>
+                <span className={`text-sm ${item.inStock ? 'text-green-600' : 'text-red-600'}`}>
+                  {item.inStock ? 'متوفر' : 'غير متوفر حالياً'}
+                </span>
+              </div>
+              <div className='flex gap-2 mt-auto'>
+                {hasVariants ? (
+                  // The size has to be chosen before the product can go in the cart
+                  <Button asChild className='flex-1 bg-honey hover:bg-honey-dark text-white'>
+                    <Link href={`/products/${product.id}`}>اختر الحجم</Link>
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => handleMoveToCart(item)}
+                    disabled={isPending || !item.inStock}
+                    className='flex-1 bg-honey hover:bg-honey-dark text-white'
+                  >
+                    {isPending ? (
+                      <Loader2 className='h-4 w-4 animate-spin ml-2' />
+                    ) : (
+                      <ShoppingCart className='h-4 w-4 ml-2' />
+                    )}
+                    نقل إلى السلة
+                  </Button>
+                )}
+                <Button
+                  variant='outline'
+                  size='icon'
+                  onClick={() => handleRemove(item)}
+                  disabled={isPending}
+                  aria-label='إزالة من المفضلة'
+                >
+                  <Trash2 className='h-4 w-4' />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import type { AbandonedCart } from '@/services/cart/cart.types';
+import { Loader2, RefreshCw, Send } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+export default function AbandonedCartsPanel() {
+  const [carts, setCarts] = useState<AbandonedCart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [idleHours, setIdleHours] = useState('');
+  const [discountPercent, setDiscountPercent] = useState('');
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown) => {
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const fetchCarts = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/admin/abandoned-carts');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل السلال المتروكة');
+      }
+
+      setCarts(result.carts);
+    } catch (error) {
+      console.error('Error fetching abandoned carts:', error);
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/abandoned-carts/settings');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل الإعدادات');
+      }
+
+      setIdleHours(String(result.settings.idleHours));
+      setDiscountPercent(result.settings.discountPercent != null ? String(result.settings.discountPercent) : '');
+    } catch (error) {
+      console.error('Error fetching abandoned cart settings:', error);
+      showError(error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchCarts();
+    fetchSettings();
+  }, [fetchCarts, fetchSettings]);
+
+  const sendRecovery = async (cart: AbandonedCart) => {
+    setSendingId(cart.id);
+
+    try {
+      const response = await fetch('/api/admin/abandoned-carts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ cartId: cart.id }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في إرسال رسالة الاسترجاع');
+      }
+
+      toast({ title: 'تم الإرسال', description: `أُرسلت رسالة الاسترجاع إلى ${cart.customerEmail}.` });
+      await fetchCarts();
+    } catch (error) {
+      console.error('Error sending recovery message:', error);
+      showError(error);
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  // Marks newly idle carts and messages every abandoned cart that has not had a message
+  const runRecovery = async () => {
+    setRunning(true);
+
+    try {
+      const response = await fetch('/api/admin/abandoned-carts', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تشغيل الاسترجاع');
+      }
+
+      toast({
+        title: 'اكتمل التشغيل',
+        description:
+          `سلال متروكة جديدة: ${result.result.abandoned}، رسائل مرسلة: ${result.result.sent}` +
+          (result.result.failed ? `، فشل: ${result.result.failed}` : ''),
+      });
+      await fetchCarts();
+    } catch (error) {
+      console.error('Error running cart recovery:', error);
+      showError(error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const saveSettings = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSavingSettings(true);
+
+    try {
+      const response = await fetch('/api/admin/abandoned-carts/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idleHours, discountPercent: discountPercent || null }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في حفظ الإعدادات');
+      }
+
+      toast({ title: 'تم الحفظ', description: 'تم تحديث إعدادات السلال المتروكة.' });
+    } catch (error) {
+      console.error('Error saving abandoned cart settings:', error);
+      showError(error);
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const totalValue = carts.reduce((sum, cart) => sum + cart.value, 0);
+
+  return (
+    <div className='space-y-6'>
+      <Card>
+        <CardHeader>
+          <CardTitle>الإعدادات</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={saveSettings} className='flex flex-wrap items-end gap-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='idleHours'>تُعتبر السلة متروكة بعد (ساعات)</Label>
+              <Input
+                id='idleHours'
+                type='number'
+                min={1}
+                step={1}
+                value={idleHours}
+                onChange={event => setIdleHours(event.target.value)}
+                required
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='discountPercent'>خصم رسالة الاسترجاع (%)</Label>
+              <Input
+                id='discountPercent'
+                type='number'
+                min={0}
+                max={100}
+                step='0.01'
+                placeholder='بدون خصم'
+                value={discountPercent}
+                onChange={event => setDiscountPercent(event.target.value)}
+              />
+            </div>
+            <Button type='submit' disabled={savingSettings}>
+              {savingSettings && <Loader2 className='w-4 h-4 ml-2 animate-spin' />}
+              حفظ
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className='flex flex-wrap items-center justify-between gap-2'>
+        <p className='text-sm text-gray-600'>
+          {carts.length} سلة متروكة بقيمة إجمالية {totalValue.toFixed(2)} د.ت
+        </p>
+        <Button variant='outline' size='sm' onClick={runRecovery} disabled={running}>
+          {running ? <Loader2 className='w-4 h-4 ml-2 animate-spin' /> : <RefreshCw className='w-4 h-4 ml-2' />}
+          تشغيل الاسترجاع الآن
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className='flex justify-center py-6'>
+          <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+        </div>
+      ) : carts.length === 0 ? (
+        <p className='text-sm text-gray-600'>لا توجد سلال متروكة.</p>
+      ) : (
+        carts.map(cart => (
+          <Card key={cart.id}>
+            <CardContent className='pt-6 space-y-3'>
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <span className='font-semibold'>
+                  {cart.customerId ? cart.customerName || cart.customerEmail || 'عميل' : 'زائر'}
+                </span>
+                <span className='font-semibold'>{cart.value.toFixed(2)} د.ت</span>
+              </div>
+              <div className='flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600'>
+                {cart.customerEmail && <span>{cart.customerEmail}</span>}
+                <span>{cart.itemCount} منتج</span>
+                <span>آخر نشاط: {new Date(cart.lastActivityAt).toLocaleString('ar-TN')}</span>
+                <span>متروكة منذ: {new Date(cart.abandonedAt).toLocaleString('ar-TN')}</span>
+              </div>
+              {cart.recoverySentAt ? (
+                <div className='flex flex-wrap items-center gap-2 text-sm text-gray-600'>
+                  <Badge variant='secondary'>أُرسلت رسالة الاسترجاع</Badge>
+                  <span>{new Date(cart.recoverySentAt).toLocaleString('ar-TN')}</span>
+                  {cart.recoveryDiscountCode && <span dir='ltr'>{cart.recoveryDiscountCode}</span>}
+                </div>
+              ) : (
+                cart.customerEmail && (
+                  <Button size='sm' onClick={() => sendRecovery(cart)} disabled={!!sendingId}>
+                    {sendingId === cart.id ? (
+                      <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+                    ) : (
+                      <Send className='w-4 h-4 ml-2' />
+                    )}
+                    إرسال رسالة الاسترجاع
+                  </Button>
+                )
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -143,6 +143,8 @@ export default function AdminOrderActions({ orderId, currentStatus }: AdminOrder
     switch (status) {
       case 'Pending Confirmation':
         return 'bg-yellow-50 text-yellow-700 border-yellow-200';
+      case 'Awaiting Payment':
+        return 'bg-blue-50 text-blue-700 border-blue-200';
       case 'Confirmed':
         return 'bg-green-50 text-green-700 border-green-200';
       case 'Processing':
@@ -177,6 +179,7 @@ export default function AdminOrderActions({ orderId, currentStatus }: AdminOrder
           <p className='text-sm text-gray-600 mb-2'>الحالة الحالية:</p>
           <Badge className={getStatusColor(currentStatus)}>
             {currentStatus === 'Pending Confirmation' && 'في انتظار التأكيد'}
+            {currentStatus === 'Awaiting Payment' && 'في انتظار الدفع'}
             {currentStatus === 'Confirmed' && 'مؤكد'}
             {currentStatus === 'Processing' && 'قيد التحضير'}
             {currentStatus === 'Shipped' && 'تم الشحن'}
@@ -0,0 +1,133 @@
+'use client';
+
+import { buildCategoryTree, getDescendantIds } from '@/services/products/category-tree';
+import type { Category, CategoryTreeNode } from '@/types/business';
+import { GripVertical } from 'lucide-react';
+import type { DragEvent, ReactNode } from 'react';
+import { useMemo, useState } from 'react';
+
+interface CategoryTreeEditorProps {
+  categories: Category[];
+  onMove: (categoryId: string, parentId: string | null, position: number) => void;
+  renderActions: (category: Category) => ReactNode;
+}
+
+// Where a dragged category would land: between siblings, or inside a category
+type DropTarget = { parentId: string | null; position: number } | { nestUnder: string };
+
+function targetKey(target: DropTarget | null): string {
+  if (!target) return '';
+  return 'nestUnder' in target ? `in:${target.nestUnder}` : `at:${target.parentId}:${target.position}`;
+}
+
+/**
+ * The category hierarchy as an indented list. Categories are dragged onto
+ * the gap between two siblings to reorder them, or onto another category to
+ * become its last subcategory.
+ */
+export default function CategoryTreeEditor({ categories, onMove, renderActions }: CategoryTreeEditorProps) {
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [hoverTarget, setHoverTarget] = useState<DropTarget | null>(null);
+
+  // A category cannot be dropped into itself or its own subcategories
+  const forbiddenIds = useMemo(
+    () => new Set(draggingId ? getDescendantIds(categories, draggingId) : []),
+    [categories, draggingId]
+  );
+
+  const allowDrop = (event: DragEvent, target: DropTarget) => {
+    const parentId = 'nestUnder' in target ? target.nestUnder : target.parentId;
+    if (!draggingId || (parentId && forbiddenIds.has(parentId))) {
+      return;
+    }
+
+    event.preventDefault();
+    if (targetKey(target) !== targetKey(hoverTarget)) {
+      setHoverTarget(target);
+    }
+  };
+
+  const drop = (event: DragEvent, target: DropTarget) => {
+    event.preventDefault();
+    const categoryId = draggingId;
+    setDraggingId(null);
+    setHoverTarget(null);
+    if (!categoryId) {
+      return;
+    }
+
+    if ('nestUnder' in target) {
+      const parent = categories.find(category => category.id === target.nestUnder);
+      const childCount = categories.filter(category => category.parentId === parent?.id).length;
+      onMove(categoryId, target.nestUnder, childCount);
+      return;
+    }
+
+    // Positions count the siblings without the moved category, so moving
+    // down within the same parent shifts the gap up by one
+    const siblings = categories
+      .filter(category => (category.parentId ?? null) === target.parentId)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, 'ar'));
+    const currentIndex = siblings.findIndex(category => category.id === categoryId);
+    const position = currentIndex !== -1 && currentIndex < target.position ? target.position - 1 : target.position;
+    onMove(categoryId, target.parentId, position);
+  };
+
+  const renderGap = (parentId: string | null, position: number, depth: number) => {
+    const target = { parentId, position };
+    const active = targetKey(target) === targetKey(hoverTarget);
+    return (
+      <div
+        onDragOver={event => allowDrop(event, target)}
+        onDragLeave={() => setHoverTarget(null)}
+        onDrop={event => drop(event, target)}
+        className={`h-2 rounded ${active ? 'bg-primary' : ''}`}
+        style={{ marginRight: depth * 24 }}
+      />
+    );
+  };
+
+  const renderLevel = (nodes: CategoryTreeNode[], parentId: string | null, depth: number): ReactNode => (
+    <>
+      {nodes.map((node, index) => {
+        const nestTarget = { nestUnder: node.id };
+        const active = targetKey(nestTarget) === targetKey(hoverTarget);
+        return (
+          <div key={node.id}>
+            {renderGap(parentId, index, depth)}
+            <div
+              draggable
+              onDragStart={event => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDraggingId(node.id);
+              }}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setHoverTarget(null);
+              }}
+              onDragOver={event => allowDrop(event, nestTarget)}
+              onDragLeave={() => setHoverTarget(null)}
+              onDrop={event => drop(event, nestTarget)}
+              className={`flex items-center justify-between gap-4 rounded-md border bg-white px-3 py-2 ${
+                active ? 'border-primary bg-primary/5' : ''
+              } ${draggingId === node.id ? 'opacity-50' : ''}`}
+              style={{ marginRight: depth * 24 }}
+            >
+              <div className='flex items-center gap-2 cursor-move'>
+                <GripVertical className='w-4 h-4 text-gray-400' />
+                <span className='font-medium'>{node.name}</span>
+                {node.description && <span className='text-sm text-gray-500'>{node.description}</span>}
+              </div>
+              {renderActions(node)}
+            </div>
+            {renderLevel(node.children, node.id, depth + 1)}
+          </div>
+        );
+      })}
+      {draggingId && renderGap(parentId, nodes.length, depth)}
+    </>
+  );
+
+  return <div>{renderLevel(tree, null, 0)}</div>;
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { CodCollection, Courier } from '@/services/payments';
+import { Banknote, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface CodCollectionFormProps {
+  orderId: string;
+  orderTotal: number;
+  couriers: Courier[];
+  // Set once the cash has been recorded
+  collection: CodCollection | null;
+}
+
+// The cash the courier collected when delivering a cash on delivery order
+export default function CodCollectionForm({ orderId, orderTotal, couriers, collection }: CodCollectionFormProps) {
+  const [courierId, setCourierId] = useState('');
+  const [amount, setAmount] = useState(orderTotal.toFixed(2));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  if (collection) {
+    return (
+      <div className='space-y-1 text-sm'>
+        <p>
+          حصّل <strong>{collection.courierName || 'المندوب'}</strong> مبلغ{' '}
+          <strong>{collection.amount.toFixed(2)} د.ت</strong> في{' '}
+          {new Date(collection.collectedAt).toLocaleDateString('ar-TN')}
+        </p>
+        {collection.amount !== collection.orderTotal && (
+          <p className='text-red-700'>يختلف عن مجموع الطلب ({collection.orderTotal.toFixed(2)} د.ت)</p>
+        )}
+        <p className='text-gray-600'>{collection.remittanceId ? 'ضمن دفعة تسليم' : 'لم يُسلَّم بعد في دفعة'}</p>
+      </div>
+    );
+  }
+
+  const recordCollection = async () => {
+    if (!courierId) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/cod/collections', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderId, courierId, amount }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تسجيل المبلغ المحصّل');
+      }
+
+      toast({ title: 'تم التسجيل', description: 'تم تسجيل المبلغ المحصّل من المندوب.' });
+      router.refresh();
+    } catch (error) {
+      console.error('Error recording cash collection:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (couriers.length === 0) {
+    return <p className='text-sm text-gray-600'>أضف مندوباً من صفحة تحصيل الدفع عند الاستلام أولاً.</p>;
+  }
+
+  return (
+    <div className='space-y-2'>
+      <Select value={courierId} onValueChange={setCourierId}>
+        <SelectTrigger>
+          <SelectValue placeholder='المندوب' />
+        </SelectTrigger>
+        <SelectContent>
+          {couriers.map(courier => (
+            <SelectItem key={courier.id} value={courier.id}>
+              {courier.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type='number'
+        min={0}
+        step='0.01'
+        value={amount}
+        onChange={event => setAmount(event.target.value)}
+        aria-label='المبلغ المحصّل'
+      />
+      <Button onClick={recordCollection} disabled={isSaving || !courierId} className='w-full'>
+        {isSaving ? <Loader2 className='w-4 h-4 ml-2 animate-spin' /> : <Banknote className='w-4 h-4 ml-2' />}
+        تسجيل المبلغ المحصّل
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import type { CodCollection, CodRemittance, Courier, OutstandingCashReport } from '@/services/payments';
+import { CheckCircle, Loader2, PackagePlus, Plus } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ReceiveForm {
+  amount: string;
+  notes: string;
+}
+
+export default function CodReconciliationPanel() {
+  const [report, setReport] = useState<OutstandingCashReport | null>(null);
+  const [collections, setCollections] = useState<CodCollection[]>([]);
+  const [remittances, setRemittances] = useState<CodRemittance[]>([]);
+  const [couriers, setCouriers] = useState<Courier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [receiveForms, setReceiveForms] = useState<Record<string, ReceiveForm>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [courierName, setCourierName] = useState('');
+  const [courierPhone, setCourierPhone] = useState('');
+
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown) => {
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const [reportResponse, collectionsResponse, remittancesResponse, couriersResponse] = await Promise.all([
+        fetch('/api/admin/cod/report'),
+        fetch('/api/admin/cod/collections'),
+        fetch('/api/admin/cod/remittances'),
+        fetch('/api/admin/couriers'),
+      ]);
+
+      const results = await Promise.all(
+        [reportResponse, collectionsResponse, remittancesResponse, couriersResponse].map(response =>
+          response.json()
+        )
+      );
+      const failed = [reportResponse, collectionsResponse, remittancesResponse, couriersResponse].findIndex(
+        response => !response.ok
+      );
+      if (failed !== -1) {
+        throw new Error(results[failed].error || 'فشل في تحميل بيانات التحصيل');
+      }
+
+      setReport(results[0].report);
+      setCollections(results[1].collections);
+      setRemittances(results[2].remittances);
+      setCouriers(results[3].couriers);
+      setSelected([]);
+    } catch (error) {
+      console.error('Error fetching cash on delivery reconciliation:', error);
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const post = async (url: string, body: unknown, fallbackError: string) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || fallbackError);
+    }
+    return result;
+  };
+
+  // A batch holds one courier's collections
+  const createRemittance = async (courierId: string) => {
+    const collectionIds = collections
+      .filter(collection => collection.courierId === courierId && selected.includes(collection.id))
+      .map(collection => collection.id);
+    if (collectionIds.length === 0) {
+      return;
+    }
+
+    setSavingId(courierId);
+
+    try {
+      await post('/api/admin/cod/remittances', { courierId, collectionIds }, 'فشل في إنشاء الدفعة');
+      toast({ title: 'تم إنشاء الدفعة', description: `${collectionIds.length} طلب في انتظار الاستلام.` });
+      await fetchAll();
+    } catch (error) {
+      console.error('Error creating remittance:', error);
+      showError(error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const receiveRemittance = async (remittance: CodRemittance) => {
+    const form = receiveForms[remittance.id];
+    setSavingId(remittance.id);
+
+    try {
+      await post(
+        '/api/admin/cod/remittances/receive',
+        {
+          remittanceId: remittance.id,
+          receivedAmount: form?.amount ?? remittance.expectedAmount,
+          notes: form?.notes,
+        },
+        'فشل في تسجيل استلام الدفعة'
+      );
+      toast({ title: 'تم الاستلام', description: 'تم تسجيل دفع الطلبات المشمولة في الدفعة.' });
+      await fetchAll();
+    } catch (error) {
+      console.error('Error receiving remittance:', error);
+      showError(error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const addCourier = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSavingId('courier');
+
+    try {
+      await post('/api/admin/couriers', { name: courierName, phone: courierPhone }, 'فشل في إضافة المندوب');
+      setCourierName('');
+      setCourierPhone('');
+      await fetchAll();
+    } catch (error) {
+      console.error('Error creating courier:', error);
+      showError(error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const toggleCourier = async (courier: Courier) => {
+    setSavingId(courier.id);
+
+    try {
+      await post(
+        '/api/admin/couriers/update',
+        { courierId: courier.id, name: courier.name, phone: courier.phone, isActive: !courier.isActive },
+        'فشل في تحديث المندوب'
+      );
+      await fetchAll();
+    } catch (error) {
+      console.error('Error updating courier:', error);
+      showError(error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const toggleCollection = (collectionId: string, checked: boolean) => {
+    setSelected(current => (checked ? [...current, collectionId] : current.filter(id => id !== collectionId)));
+  };
+
+  const updateReceiveForm = (remittance: CodRemittance, field: keyof ReceiveForm, value: string) => {
+    setReceiveForms(current => ({
+      ...current,
+      [remittance.id]: {
+        ...(current[remittance.id] ?? { amount: remittance.expectedAmount.toFixed(2), notes: '' }),
+        [field]: value,
+      },
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-6'>
+        <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+      </div>
+    );
+  }
+
+  const courierIds = [...new Set(collections.map(collection => collection.courierId))];
+  const pendingRemittances = remittances.filter(remittance => remittance.status === 'pending');
+  const receivedRemittances = remittances.filter(remittance => remittance.status === 'received');
+
+  return (
+    <div className='space-y-6'>
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>المبالغ المستحقة لدى المندوبين</CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            <div className='flex flex-wrap gap-x-8 gap-y-2 text-sm'>
+              <span>
+                إجمالي المستحق: <strong>{report.totalOutstanding.toFixed(2)} د.ت</strong>
+              </span>
+              <span>
+                طلبات مُسلَّمة دون تسجيل تحصيل: <strong>{report.uncollectedOrderCount}</strong> (
+                {report.uncollectedAmount.toFixed(2)} د.ت)
+              </span>
+            </div>
+            {report.couriers.length === 0 ? (
+              <p className='text-sm text-gray-600'>لا توجد مبالغ مستحقة.</p>
+            ) : (
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-right text-gray-600 border-b'>
+                    <th className='py-2'>المندوب</th>
+                    <th className='py-2'>محصّل خارج الدفعات</th>
+                    <th className='py-2'>في دفعات بانتظار الاستلام</th>
+                    <th className='py-2'>المستحق</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.couriers.map(summary => (
+                    <tr key={summary.courierId} className='border-b last:border-0'>
+                      <td className='py-2 font-semibold'>{summary.courierName}</td>
+                      <td className='py-2'>
+                        {summary.unbatchedAmount.toFixed(2)} د.ت ({summary.unbatchedCount})
+                      </td>
+                      <td className='py-2'>
+                        {summary.pendingRemittanceAmount.toFixed(2)} د.ت ({summary.pendingRemittanceCount})
+                      </td>
+                      <td className='py-2 font-semibold'>{summary.outstandingAmount.toFixed(2)} د.ت</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>مبالغ محصّلة خارج الدفعات</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {courierIds.length === 0 ? (
+            <p className='text-sm text-gray-600'>لا توجد مبالغ محصّلة خارج الدفعات.</p>
+          ) : (
+            courierIds.map(courierId => {
+              const courierCollections = collections.filter(collection => collection.courierId === courierId);
+              const selectedCount = courierCollections.filter(collection => selected.includes(collection.id)).length;
+              return (
+                <div key={courierId} className='space-y-2'>
+                  <div className='flex flex-wrap items-center justify-between gap-2'>
+                    <span className='font-semibold'>{courierCollections[0].courierName}</span>
+                    <Button
+                      size='sm'
+                      onClick={() => createRemittance(courierId)}
+                      disabled={!!savingId || selectedCount === 0}
+                    >
+                      {savingId === courierId ? (
+                        <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+                      ) : (
+                        <PackagePlus className='w-4 h-4 ml-2' />
+                      )}
+                      إنشاء دفعة ({selectedCount})
+                    </Button>
+                  </div>
+                  {courierCollections.map(collection => (
+                    <label key={collection.id} className='flex flex-wrap items-center gap-3 text-sm cursor-pointer'>
+                      <Checkbox
+                        checked={selected.includes(collection.id)}
+                        onCheckedChange={checked => toggleCollection(collection.id, checked === true)}
+                      />
+                      <Link href={`/admin/orders/${collection.orderId}`} className='hover:underline'>
+                        طلب #{collection.orderId.slice(-8)}
+                      </Link>
+                      <span>{collection.amount.toFixed(2)} د.ت</span>
+                      {collection.amount !== collection.orderTotal && (
+                        <span className='text-red-700'>من أصل {collection.orderTotal.toFixed(2)} د.ت</span>
+                      )}
+                      <span className='text-gray-500'>
+                        {new Date(collection.collectedAt).toLocaleDateString('ar-TN')}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>دفعات بانتظار الاستلام</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          {pendingRemittances.length === 0 ? (
+            <p className='text-sm text-gray-600'>لا توجد دفعات بانتظار الاستلام.</p>
+          ) : (
+            pendingRemittances.map(remittance => {
+              const form = receiveForms[remittance.id];
+              return (
+                <div key={remittance.id} className='space-y-2 border-b pb-4 last:border-0'>
+                  <div className='flex flex-wrap items-center justify-between gap-2 text-sm'>
+                    <span className='font-semibold'>{remittance.courierName}</span>
+                    <span>
+                      {remittance.collectionCount} طلب · {remittance.expectedAmount.toFixed(2)} د.ت
+                    </span>
+                    <span className='text-gray-500'>{new Date(remittance.createdAt).toLocaleDateString('ar-TN')}</span>
+                  </div>
+                  <div className='flex flex-wrap items-end gap-2'>
+                    <div className='space-y-1'>
+                      <Label htmlFor={`amount-${remittance.id}`}>المبلغ المستلم</Label>
+                      <Input
+                        id={`amount-${remittance.id}`}
+                        type='number'
+                        min={0}
+                        step='0.01'
+                        value={form?.amount ?? remittance.expectedAmount.toFixed(2)}
+                        onChange={event => updateReceiveForm(remittance, 'amount', event.target.value)}
+                      />
+                    </div>
+                    <div className='space-y-1 flex-grow'>
+                      <Label htmlFor={`notes-${remittance.id}`}>ملاحظات</Label>
+                      <Input
+                        id={`notes-${remittance.id}`}
+                        value={form?.notes ?? ''}
+                        onChange={event => updateReceiveForm(remittance, 'notes', event.target.value)}
+                      />
+                    </div>
+                    <Button size='sm' onClick={() => receiveRemittance(remittance)} disabled={!!savingId}>
+                      {savingId === remittance.id ? (
+                        <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+                      ) : (
+                        <CheckCircle className='w-4 h-4 ml-2' />
+                      )}
+                      تم الاستلام
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {receivedRemittances.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>دفعات مستلمة</CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-2'>
+            {receivedRemittances.map(remittance => (
+              <div key={remittance.id} className='flex flex-wrap items-center gap-x-4 gap-y-1 text-sm'>
+                <span className='font-semibold'>{remittance.courierName}</span>
+                <span>{remittance.collectionCount} طلب</span>
+                <span>
+                  {remittance.receivedAmount?.toFixed(2)} / {remittance.expectedAmount.toFixed(2)} د.ت
+                </span>
+                {remittance.receivedAt && (
+                  <span className='text-gray-500'>{new Date(remittance.receivedAt).toLocaleDateString('ar-TN')}</span>
+                )}
+                {remittance.notes && <span className='text-gray-600'>{remittance.notes}</span>}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>المندوبون</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          {couriers.map(courier => (
+            <div key={courier.id} className='flex flex-wrap items-center justify-between gap-2 text-sm'>
+              <div className='flex items-center gap-3'>
+                <span className='font-semibold'>{courier.name}</span>
+                {courier.phone && <span dir='ltr'>{courier.phone}</span>}
+                {!courier.isActive && <Badge variant='secondary'>غير نشط</Badge>}
+              </div>
+              <Button size='sm' variant='outline' onClick={() => toggleCourier(courier)} disabled={!!savingId}>
+                {courier.isActive ? 'إيقاف' : 'تفعيل'}
+              </Button>
+            </div>
+          ))}
+          <form onSubmit={addCourier} className='flex flex-wrap items-end gap-2'>
+            <div className='space-y-1'>
+              <Label htmlFor='courierName'>الاسم</Label>
+              <Input
+                id='courierName'
+                value={courierName}
+                onChange={event => setCourierName(event.target.value)}
+                required
+              />
+            </div>
+            <div className='space-y-1'>
+              <Label htmlFor='courierPhone'>الهاتف</Label>
+              <Input
+                id='courierPhone'
+                dir='ltr'
+                value={courierPhone}
+                onChange={event => setCourierPhone(event.target.value)}
+              />
+            </div>
+            <Button type='submit' size='sm' disabled={!!savingId}>
+              {savingId === 'courier' ? (
+                <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+              ) : (
+                <Plus className='w-4 h-4 ml-2' />
+              )}
+              إضافة مندوب
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
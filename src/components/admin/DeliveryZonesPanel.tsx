@@ -0,0 +1,311 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { getGovernorate, TUNISIAN_GOVERNORATES } from '@/services/delivery/delivery-zones';
+import type { DeliveryZone } from '@/services/delivery/delivery.types';
+import { Edit2, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ZoneForm {
+  id?: string;
+  name: string;
+  fee: string;
+  freeDeliveryThreshold: string;
+  isDeliverable: boolean;
+  governorates: string[];
+}
+
+const EMPTY_FORM: ZoneForm = { name: '', fee: '', freeDeliveryThreshold: '', isDeliverable: true, governorates: [] };
+
+function toForm(zone: DeliveryZone): ZoneForm {
+  return {
+    id: zone.id,
+    name: zone.name,
+    fee: String(zone.fee),
+    freeDeliveryThreshold: zone.freeDeliveryThreshold ? String(zone.freeDeliveryThreshold) : '',
+    isDeliverable: zone.isDeliverable,
+    governorates: zone.governorates,
+  };
+}
+
+export default function DeliveryZonesPanel() {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const fetchZones = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/admin/delivery-zones');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل مناطق التوصيل');
+      }
+
+      setZones(result.zones);
+    } catch (error) {
+      console.error('Error fetching delivery zones:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  // A governorate can only be in one zone; those in other zones cannot be picked
+  const zoneOfGovernorate = (code: string) =>
+    zones.find(zone => zone.id !== form?.id && zone.governorates.includes(code));
+
+  const toggleGovernorate = (code: string, checked: boolean) => {
+    setForm(current =>
+      current && {
+        ...current,
+        governorates: checked
+          ? [...current.governorates, code]
+          : current.governorates.filter(governorate => governorate !== code),
+      }
+    );
+  };
+
+  const saveZone = async () => {
+    if (!form) return;
+    setSaving(true);
+
+    try {
+      const response = await fetch(form.id ? '/api/admin/delivery-zones/update' : '/api/admin/delivery-zones', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          zoneId: form.id,
+          name: form.name,
+          fee: form.fee || 0,
+          freeDeliveryThreshold: form.freeDeliveryThreshold || null,
+          isDeliverable: form.isDeliverable,
+          governorates: form.governorates,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في حفظ منطقة التوصيل');
+      }
+
+      setZones(current =>
+        form.id ? current.map(zone => (zone.id === form.id ? result.zone : zone)) : [...current, result.zone]
+      );
+      setForm(null);
+      toast({ title: 'تم الحفظ', description: `تم حفظ منطقة ${result.zone.name}.` });
+    } catch (error) {
+      console.error('Error saving delivery zone:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteZone = async (zone: DeliveryZone) => {
+    if (!confirm(`هل أنت متأكد من حذف منطقة ${zone.name}؟`)) {
+      return;
+    }
+    setDeletingId(zone.id);
+
+    try {
+      const response = await fetch('/api/admin/delivery-zones/delete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ zoneId: zone.id }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في حذف منطقة التوصيل');
+      }
+
+      setZones(current => current.filter(item => item.id !== zone.id));
+      toast({ title: 'تم الحذف', description: 'تُطبّق الرسوم العامة على ولايات هذه المنطقة.' });
+    } catch (error) {
+      console.error('Error deleting delivery zone:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className='flex flex-row items-center justify-between'>
+        <div>
+          <CardTitle>مناطق التوصيل</CardTitle>
+          <CardDescription>
+            رسوم توصيل وحدّ للتوصيل المجاني لكل ولاية أو مجموعة ولايات. تُطبّق الرسوم العامة على الولايات خارج
+            المناطق.
+          </CardDescription>
+        </div>
+        {!form && (
+          <Button onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className='h-4 w-4 mr-2' />
+            إضافة منطقة
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {form && (
+          <div className='p-4 border rounded-lg bg-muted/50 space-y-4'>
+            <h4 className='font-medium'>{form.id ? 'تعديل المنطقة' : 'منطقة جديدة'}</h4>
+            <div className='grid grid-cols-1 sm:grid-cols-3 gap-4'>
+              <div className='space-y-1'>
+                <Label htmlFor='zone-name'>الاسم *</Label>
+                <Input
+                  id='zone-name'
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  placeholder='الساحل'
+                />
+              </div>
+              <div className='space-y-1'>
+                <Label htmlFor='zone-fee'>رسوم التوصيل (د.ت)</Label>
+                <Input
+                  id='zone-fee'
+                  type='number'
+                  min='0'
+                  step='0.01'
+                  value={form.fee}
+                  onChange={e => setForm({ ...form, fee: e.target.value })}
+                  disabled={!form.isDeliverable}
+                />
+              </div>
+              <div className='space-y-1'>
+                <Label htmlFor='zone-threshold'>التوصيل المجاني من (د.ت)</Label>
+                <Input
+                  id='zone-threshold'
+                  type='number'
+                  min='0'
+                  step='0.01'
+                  placeholder='غير مفعّل'
+                  value={form.freeDeliveryThreshold}
+                  onChange={e => setForm({ ...form, freeDeliveryThreshold: e.target.value })}
+                  disabled={!form.isDeliverable}
+                />
+              </div>
+            </div>
+            <div className='flex items-center gap-2'>
+              <Switch
+                id='zone-deliverable'
+                checked={form.isDeliverable}
+                onCheckedChange={checked => setForm({ ...form, isDeliverable: checked })}
+              />
+              <Label htmlFor='zone-deliverable'>
+                {form.isDeliverable ? 'نوصّل إلى هذه المنطقة' : 'لا نوصّل إلى هذه المنطقة'}
+              </Label>
+            </div>
+            <div className='space-y-2'>
+              <Label>الولايات *</Label>
+              <div className='grid grid-cols-2 sm:grid-cols-4 gap-2'>
+                {TUNISIAN_GOVERNORATES.map(governorate => {
+                  const otherZone = zoneOfGovernorate(governorate.code);
+                  return (
+                    <label
+                      key={governorate.code}
+                      className={`flex items-center gap-2 text-sm ${otherZone ? 'text-gray-400' : 'cursor-pointer'}`}
+                      title={otherZone ? `ضمن منطقة ${otherZone.name}` : undefined}
+                    >
+                      <Checkbox
+                        checked={form.governorates.includes(governorate.code)}
+                        onCheckedChange={checked => toggleGovernorate(governorate.code, checked === true)}
+                        disabled={!!otherZone}
+                      />
+                      {governorate.name}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+            <div className='flex gap-2'>
+              <Button onClick={saveZone} disabled={saving}>
+                {saving ? <Loader2 className='h-4 w-4 mr-2 animate-spin' /> : <Save className='h-4 w-4 mr-2' />}
+                حفظ
+              </Button>
+              <Button variant='outline' onClick={() => setForm(null)} disabled={saving}>
+                إلغاء
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className='flex justify-center py-6'>
+            <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+          </div>
+        ) : zones.length === 0 ? (
+          <p className='text-muted-foreground text-center py-8'>
+            لا توجد مناطق توصيل. تُطبّق الرسوم العامة على جميع الولايات.
+          </p>
+        ) : (
+          zones.map(zone => (
+            <div key={zone.id} className='flex items-center justify-between gap-4 p-4 border rounded-lg'>
+              <div className='flex-1 space-y-1'>
+                <div className='flex items-center gap-2'>
+                  <h4 className='font-medium'>{zone.name}</h4>
+                  {zone.isDeliverable ? (
+                    <Badge variant='secondary'>{zone.fee > 0 ? `${zone.fee} د.ت` : 'توصيل مجاني'}</Badge>
+                  ) : (
+                    <Badge variant='destructive'>لا يوجد توصيل</Badge>
+                  )}
+                  {zone.isDeliverable && zone.freeDeliveryThreshold && (
+                    <Badge variant='outline'>مجاني من {zone.freeDeliveryThreshold} د.ت</Badge>
+                  )}
+                </div>
+                <p className='text-sm text-muted-foreground'>
+                  {zone.governorates.map(code => getGovernorate(code)?.name ?? code).join('، ')}
+                </p>
+              </div>
+              <div className='flex gap-2'>
+                <Button size='sm' variant='outline' onClick={() => setForm(toForm(zone))} disabled={!!form}>
+                  <Edit2 className='h-4 w-4' />
+                </Button>
+                <Button size='sm' variant='outline' onClick={() => deleteZone(zone)} disabled={!!deletingId}>
+                  {deletingId === zone.id ? (
+                    <Loader2 className='h-4 w-4 animate-spin' />
+                  ) : (
+                    <Trash2 className='h-4 w-4' />
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
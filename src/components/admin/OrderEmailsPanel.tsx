@@ -0,0 +1,142 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { EmailLocale, OrderEmail, OrderEmailType } from '@/services/notifications';
+import { Loader2, Send } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+const TYPE_LABELS: Record<OrderEmailType, string> = {
+  order_placed: 'استلام الطلب',
+  order_confirmed: 'تأكيد الطلب',
+  order_shipped: 'شحن الطلب',
+  order_delivered: 'توصيل الطلب',
+  order_cancelled: 'إلغاء الطلب',
+};
+
+const LOCALE_LABELS: Record<EmailLocale, string> = {
+  ar: 'العربية',
+  fr: 'Français',
+  en: 'English',
+};
+
+// Sent in the customer's preferred language unless another one is picked
+const CUSTOMER_LOCALE = 'customer';
+
+interface OrderEmailsPanelProps {
+  orderId: string;
+  emails: OrderEmail[];
+}
+
+// The emails sent to the customer about the order, with a form to send one again
+export default function OrderEmailsPanel({ orderId, emails }: OrderEmailsPanelProps) {
+  const [type, setType] = useState<OrderEmailType | ''>('');
+  const [locale, setLocale] = useState<string>(CUSTOMER_LOCALE);
+  const [isSending, setIsSending] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const resendEmail = async () => {
+    if (!type) {
+      return;
+    }
+
+    setIsSending(true);
+
+    try {
+      const response = await fetch('/api/admin/orders/emails/resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderId, type, locale: locale === CUSTOMER_LOCALE ? undefined : locale }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في إرسال البريد');
+      }
+
+      toast({ title: 'تم الإرسال', description: `تم إرسال بريد ${TYPE_LABELS[type]} إلى العميل.` });
+      router.refresh();
+    } catch (error) {
+      console.error('Error resending order email:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className='space-y-4'>
+      {emails.length === 0 ? (
+        <p className='text-sm text-gray-600'>لم يُرسل أي بريد بخصوص هذا الطلب بعد.</p>
+      ) : (
+        <ul className='space-y-3'>
+          {emails.map(email => (
+            <li key={email.id} className='text-sm border-b pb-2 last:border-b-0'>
+              <div className='flex items-center justify-between gap-2'>
+                <span className='font-semibold'>{TYPE_LABELS[email.type] || email.type}</span>
+                {email.status === 'sent' ? (
+                  <Badge variant='outline' className='bg-green-50 text-green-700 border-green-200'>
+                    أُرسل
+                  </Badge>
+                ) : (
+                  <Badge variant='destructive'>فشل</Badge>
+                )}
+              </div>
+              <p className='text-gray-600'>
+                {email.recipient} · {LOCALE_LABELS[email.locale] || email.locale}
+              </p>
+              <p className='text-xs text-gray-500'>
+                {new Date(email.createdAt).toLocaleString('ar-TN')}
+                {email.sentByEmail && ` · أعاد إرساله ${email.sentByEmail}`}
+              </p>
+              {email.error && <p className='text-xs text-red-700'>{email.error}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className='space-y-2'>
+        <Select value={type} onValueChange={value => setType(value as OrderEmailType)}>
+          <SelectTrigger>
+            <SelectValue placeholder='نوع البريد' />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TYPE_LABELS) as OrderEmailType[]).map(emailType => (
+              <SelectItem key={emailType} value={emailType}>
+                {TYPE_LABELS[emailType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={locale} onValueChange={setLocale}>
+          <SelectTrigger>
+            <SelectValue placeholder='اللغة' />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CUSTOMER_LOCALE}>لغة العميل</SelectItem>
+            {(Object.keys(LOCALE_LABELS) as EmailLocale[]).map(emailLocale => (
+              <SelectItem key={emailLocale} value={emailLocale}>
+                {LOCALE_LABELS[emailLocale]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={resendEmail} disabled={isSending || !type} className='w-full'>
+          {isSending ? <Loader2 className='w-4 h-4 ml-2 animate-spin' /> : <Send className='w-4 h-4 ml-2' />}
+          إعادة إرسال البريد
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface OrderNoteFormProps {
+  orderId: string;
+}
+
+export default function OrderNoteForm({ orderId }: OrderNoteFormProps) {
+  const [notes, setNotes] = useState('');
+  const [visibleToCustomer, setVisibleToCustomer] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const addNote = async () => {
+    if (!notes.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/orders/notes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderId, notes, isInternal: !visibleToCustomer }),
+      });
+
+      if (!response.ok) {
+        throw new Error('فشل في إضافة الملاحظة');
+      }
+
+      toast({
+        title: 'تمت إضافة الملاحظة',
+        description: 'تم حفظ الملاحظة في سجل الطلب.',
+      });
+
+      setNotes('');
+      setVisibleToCustomer(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error adding order note:', error);
+      toast({
+        title: 'خطأ',
+        description: 'تعذر حفظ الملاحظة. يرجى المحاولة مرة أخرى.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className='space-y-3'>
+      <Textarea
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        placeholder='أضف ملاحظة حول هذا الطلب...'
+        rows={3}
+      />
+      <label className='flex items-center gap-2 text-sm text-gray-600'>
+        <input
+          type='checkbox'
+          checked={visibleToCustomer}
+          onChange={e => setVisibleToCustomer(e.target.checked)}
+        />
+        إظهار الملاحظة للعميل
+      </label>
+      <Button onClick={addNote} disabled={isSaving || !notes.trim()} className='w-full'>
+        {isSaving ? (
+          <>
+            <Loader2 className='w-4 h-4 mr-2 animate-spin' />
+            جاري الحفظ...
+          </>
+        ) : (
+          <>
+            <MessageSquare className='w-4 h-4 mr-2' />
+            إضافة ملاحظة
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
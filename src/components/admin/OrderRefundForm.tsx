@@ -0,0 +1,233 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { ValidationError } from '@/lib/errors/custom-errors';
+import { calculateRefund } from '@/services/refunds/refund-amounts';
+import type { RefundCalculation, RefundLineInput, RefundSummary } from '@/services/refunds';
+import { OrderStatus } from '@/types/enums';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface OrderRefundFormProps {
+  summary: RefundSummary;
+}
+
+interface LineState {
+  quantity: string;
+  // Empty means the value of the returned units
+  amount: string;
+}
+
+const PREVIEW_ERRORS: Record<string, string> = {
+  REFUND_EMPTY: 'حدد الكميات أو المبالغ المراد استرجاعها.',
+  REFUND_QUANTITY_EXCEEDED: 'الكمية المرتجعة أكبر من الكمية المتبقية.',
+  REFUND_AMOUNT_EXCEEDED: 'المبلغ أكبر من المبلغ المتبقي لهذا المنتج.',
+  REFUND_SHIPPING_EXCEEDED: 'مبلغ التوصيل أكبر من المبلغ المتبقي.',
+  REFUND_EXCEEDS_ORDER_TOTAL: 'المبلغ المسترد أكبر من المبلغ المتبقي في الطلب.',
+};
+
+function emptyLines(summary: RefundSummary): Record<string, LineState> {
+  return Object.fromEntries(summary.lines.map(line => [line.orderItemId, { quantity: '', amount: '' }]));
+}
+
+export default function OrderRefundForm({ summary }: OrderRefundFormProps) {
+  const [lines, setLines] = useState<Record<string, LineState>>(() => emptyLines(summary));
+  const [shippingAmount, setShippingAmount] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // Stock went back when the order was cancelled
+  const canRestock = summary.status !== OrderStatus.CANCELLED;
+
+  const refundLines: RefundLineInput[] = summary.lines.map(line => ({
+    orderItemId: line.orderItemId,
+    quantity: Number(lines[line.orderItemId]?.quantity) || 0,
+    amount: lines[line.orderItemId]?.amount === '' ? undefined : Number(lines[line.orderItemId]?.amount),
+  }));
+
+  // Same calculation the server runs, so the admin sees the credit note total before submitting
+  let preview: { calculation?: RefundCalculation; error?: string };
+  try {
+    preview = { calculation: calculateRefund(summary, refundLines, Number(shippingAmount) || 0) };
+  } catch (error) {
+    const message = error instanceof ValidationError ? PREVIEW_ERRORS[error.code] : undefined;
+    preview = { error: message || (error as Error).message };
+  }
+
+  const updateLine = (orderItemId: string, field: keyof LineState, value: string) => {
+    setLines(current => ({ ...current, [orderItemId]: { ...current[orderItemId], [field]: value } }));
+  };
+
+  const fillRemaining = () => {
+    setLines(
+      Object.fromEntries(
+        summary.lines.map(line => [
+          line.orderItemId,
+          { quantity: line.remainingQuantity > 0 ? String(line.remainingQuantity) : '', amount: '' },
+        ])
+      )
+    );
+    setShippingAmount(summary.shippingRemaining > 0 ? summary.shippingRemaining.toFixed(2) : '');
+  };
+
+  const submitRefund = async () => {
+    if (!preview.calculation) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/orders/refund', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderId: summary.orderId,
+          lines: refundLines,
+          shippingAmount: Number(shippingAmount) || 0,
+          restock: canRestock && restock,
+          reason,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تسجيل الاسترجاع');
+      }
+
+      toast({
+        title: 'تم تسجيل الاسترجاع',
+        description: `تم إصدار الإشعار الدائن ${result.creditNote.creditNoteNumber}.`,
+      });
+
+      setLines(emptyLines(summary));
+      setShippingAmount('');
+      setReason('');
+      router.refresh();
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (summary.remainingTotal <= 0) {
+    return <p className='text-sm text-gray-600'>تم استرجاع كامل مبلغ هذا الطلب.</p>;
+  }
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex items-center justify-between text-sm'>
+        <span className='text-gray-600'>المتبقي للاسترجاع: {summary.remainingTotal.toFixed(2)} د.ت</span>
+        <Button variant='link' size='sm' onClick={fillRemaining} className='px-0'>
+          استرجاع الكل
+        </Button>
+      </div>
+
+      <div className='space-y-3'>
+        {summary.lines.map(line => (
+          <div key={line.orderItemId} className='p-3 bg-gray-50 rounded-lg space-y-2'>
+            <div className='flex justify-between text-sm'>
+              <span className='font-semibold'>{line.name}</span>
+              <span className='text-gray-600'>
+                {line.remainingQuantity} / {line.orderedQuantity}
+              </span>
+            </div>
+            <div className='grid grid-cols-2 gap-2'>
+              <Input
+                type='number'
+                min={0}
+                max={line.remainingQuantity}
+                value={lines[line.orderItemId]?.quantity ?? ''}
+                onChange={e => updateLine(line.orderItemId, 'quantity', e.target.value)}
+                placeholder='الكمية المرتجعة'
+                disabled={line.remainingQuantity === 0}
+              />
+              <Input
+                type='number'
+                min={0}
+                step='0.01'
+                value={lines[line.orderItemId]?.amount ?? ''}
+                onChange={e => updateLine(line.orderItemId, 'amount', e.target.value)}
+                placeholder={`المبلغ (حتى ${line.remainingAmount.toFixed(2)})`}
+                disabled={line.remainingAmount === 0}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {summary.shippingRemaining > 0 && (
+        <Input
+          type='number'
+          min={0}
+          step='0.01'
+          value={shippingAmount}
+          onChange={e => setShippingAmount(e.target.value)}
+          placeholder={`رسوم التوصيل (حتى ${summary.shippingRemaining.toFixed(2)})`}
+        />
+      )}
+
+      {canRestock && (
+        <label className='flex items-center gap-2 text-sm text-gray-600'>
+          <input type='checkbox' checked={restock} onChange={e => setRestock(e.target.checked)} />
+          إعادة المنتجات المرتجعة إلى المخزون
+        </label>
+      )}
+
+      <Textarea value={reason} onChange={e => setReason(e.target.value)} placeholder='سبب الاسترجاع...' rows={2} />
+
+      {preview.calculation ? (
+        <div className='text-sm space-y-1 border-t pt-3'>
+          <div className='flex justify-between'>
+            <span>المنتجات:</span>
+            <span>{preview.calculation.subtotal.toFixed(2)} د.ت</span>
+          </div>
+          <div className='flex justify-between'>
+            <span>الضريبة على القيمة المضافة ({summary.taxRate}%):</span>
+            <span>{preview.calculation.taxAmount.toFixed(2)} د.ت</span>
+          </div>
+          <div className='flex justify-between'>
+            <span>رسوم التوصيل:</span>
+            <span>{preview.calculation.shippingAmount.toFixed(2)} د.ت</span>
+          </div>
+          <div className='flex justify-between font-bold'>
+            <span>المبلغ المسترد:</span>
+            <span>{preview.calculation.total.toFixed(2)} د.ت</span>
+          </div>
+        </div>
+      ) : (
+        <p className='text-sm text-gray-500'>{preview.error}</p>
+      )}
+
+      <Button onClick={submitRefund} disabled={isSaving || !preview.calculation} className='w-full'>
+        {isSaving ? (
+          <>
+            <Loader2 className='w-4 h-4 mr-2 animate-spin' />
+            جاري التسجيل...
+          </>
+        ) : (
+          <>
+            <RotateCcw className='w-4 h-4 mr-2' />
+            تسجيل الاسترجاع وإصدار إشعار دائن
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { PendingPaymentProof } from '@/services/payments';
+import { Check, ExternalLink, Loader2, X } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+export default function PaymentProofsPanel() {
+  const [proofs, setProofs] = useState<PendingPaymentProof[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [accountName, setAccountName] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [rib, setRib] = useState('');
+  const [savingDetails, setSavingDetails] = useState(false);
+
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown) => {
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const fetchProofs = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/admin/payment-proofs');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل الإيصالات');
+      }
+
+      setProofs(result.proofs);
+    } catch (error) {
+      console.error('Error fetching payment proofs:', error);
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  const fetchBankDetails = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/bank-details');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل بيانات الحساب');
+      }
+
+      if (result.bankDetails) {
+        setAccountName(result.bankDetails.accountName);
+        setBankName(result.bankDetails.bankName);
+        setRib(result.bankDetails.rib);
+      }
+    } catch (error) {
+      console.error('Error fetching bank details:', error);
+      showError(error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchProofs();
+    fetchBankDetails();
+  }, [fetchProofs, fetchBankDetails]);
+
+  const review = async (proof: PendingPaymentProof, approve: boolean) => {
+    setSavingId(proof.id);
+
+    try {
+      const response = await fetch('/api/admin/payment-proofs/review', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ proofId: proof.id, approve, reason: approve ? undefined : reason }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في مراجعة الإيصال');
+      }
+
+      // Reviewed receipts leave the queue
+      setProofs(current => current.filter(item => item.id !== proof.id));
+      setRejectingId(null);
+      setReason('');
+      toast({
+        title: approve ? 'تم القبول' : 'تم الرفض',
+        description: approve ? 'تم تأكيد الدفع والطلب.' : 'تم إعلام العميل بسبب الرفض.',
+      });
+    } catch (error) {
+      console.error('Error reviewing payment proof:', error);
+      showError(error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveBankDetails = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSavingDetails(true);
+
+    try {
+      const response = await fetch('/api/admin/bank-details', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accountName, bankName, rib }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في حفظ بيانات الحساب');
+      }
+
+      setRib(result.bankDetails.rib);
+      toast({ title: 'تم الحفظ', description: 'تم تحديث بيانات الحساب البنكي.' });
+    } catch (error) {
+      console.error('Error saving bank details:', error);
+      showError(error);
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <Card>
+        <CardHeader>
+          <CardTitle>الحساب البنكي للمتجر</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={saveBankDetails} className='flex flex-wrap items-end gap-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='accountName'>صاحب الحساب</Label>
+              <Input
+                id='accountName'
+                value={accountName}
+                onChange={event => setAccountName(event.target.value)}
+                required
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='bankName'>البنك</Label>
+              <Input id='bankName' value={bankName} onChange={event => setBankName(event.target.value)} required />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='rib'>RIB (20 رقماً)</Label>
+              <Input id='rib' dir='ltr' value={rib} onChange={event => setRib(event.target.value)} required />
+            </div>
+            <Button type='submit' disabled={savingDetails}>
+              {savingDetails && <Loader2 className='w-4 h-4 ml-2 animate-spin' />}
+              حفظ
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className='flex justify-center py-6'>
+          <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+        </div>
+      ) : proofs.length === 0 ? (
+        <p className='text-sm text-gray-600'>لا توجد إيصالات بانتظار التحقق.</p>
+      ) : (
+        proofs.map(proof => (
+          <Card key={proof.id}>
+            <CardContent className='pt-6 space-y-3'>
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <Link href={`/admin/orders/${proof.orderId}`} className='font-semibold hover:underline'>
+                  طلب #{proof.orderId.slice(-8)}
+                </Link>
+                <span className='font-semibold'>{proof.amount.toFixed(2)} د.ت</span>
+              </div>
+              <div className='flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600'>
+                {proof.customerName && <span>{proof.customerName}</span>}
+                {proof.customerEmail && <span>{proof.customerEmail}</span>}
+                <span>أُرسل: {new Date(proof.createdAt).toLocaleString('ar-TN')}</span>
+                {proof.viewUrl && (
+                  <a
+                    href={proof.viewUrl}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className='flex items-center gap-1 text-blue-600 hover:underline'
+                  >
+                    <ExternalLink className='w-4 h-4' />
+                    {proof.fileName || 'عرض الإيصال'}
+                  </a>
+                )}
+              </div>
+              {rejectingId === proof.id ? (
+                <div className='space-y-2'>
+                  <Textarea
+                    placeholder='سبب الرفض، سيظهر للعميل'
+                    value={reason}
+                    onChange={event => setReason(event.target.value)}
+                  />
+                  <div className='flex gap-2'>
+                    <Button
+                      size='sm'
+                      variant='destructive'
+                      onClick={() => review(proof, false)}
+                      disabled={!!savingId || !reason.trim()}
+                    >
+                      {savingId === proof.id && <Loader2 className='w-4 h-4 ml-2 animate-spin' />}
+                      تأكيد الرفض
+                    </Button>
+                    <Button size='sm' variant='outline' onClick={() => setRejectingId(null)} disabled={!!savingId}>
+                      إلغاء
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className='flex gap-2'>
+                  <Button size='sm' onClick={() => review(proof, true)} disabled={!!savingId}>
+                    {savingId === proof.id ? (
+                      <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+                    ) : (
+                      <Check className='w-4 h-4 ml-2' />
+                    )}
+                    قبول وتأكيد الطلب
+                  </Button>
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    onClick={() => {
+                      setRejectingId(proof.id);
+                      setReason('');
+                    }}
+                    disabled={!!savingId}
+                  >
+                    <X className='w-4 h-4 ml-2' />
+                    رفض
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { ConfirmationModal } from '@/components/ConfirmationModal';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_PRODUCT_IMAGE_BYTES, pickImageVariant, PRODUCT_IMAGE_ACCEPT } from '@/lib/utils/image-variants';
+import type { ProductImage } from '@/types/business';
+import { GripVertical, Images, Loader2, Star, Trash2, Upload } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useDropzone, type FileRejection, type FileWithPath } from 'react-dropzone';
+
+interface ProductImagesPanelProps {
+  productId: string;
+}
+
+type AltTextDrafts = Record<string, { ar: string; en: string }>;
+
+const toDrafts = (images: ProductImage[]): AltTextDrafts =>
+  Object.fromEntries(images.map(image => [image.id, { ar: image.altTextAr || '', en: image.altTextEn || '' }]));
+
+/**
+ * The product's gallery: images are dragged onto one another to reorder
+ * them, the star makes one the primary (cover) image, and alt text is saved
+ * when its field loses focus.
+ */
+export default function ProductImagesPanel({ productId }: ProductImagesPanelProps) {
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [altDrafts, setAltDrafts] = useState<AltTextDrafts>({});
+  const [loading, setLoading] = useState(true);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [hoverId, setHoverId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown) =>
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      }),
+    [toast]
+  );
+
+  const fetchImages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/products/images?productId=${encodeURIComponent(productId)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل الصور');
+      }
+
+      setImages(result.images);
+      setAltDrafts(toDrafts(result.images));
+    } catch (error) {
+      console.error('Error fetching product images:', error);
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, showError]);
+
+  useEffect(() => {
+    fetchImages();
+  }, [fetchImages]);
+
+  const post = async (endpoint: string, body: Record<string, unknown>, fallbackError: string) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error saving product image:', error);
+      showError(error);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Uploaded one at a time so each lands at the end of the gallery in the order chosen
+  const uploadFiles = async (files: FileWithPath[]) => {
+    setUploadingCount(files.length);
+
+    for (const file of files) {
+      try {
+        const formData = new FormData();
+        formData.append('productId', productId);
+        formData.append('file', file);
+
+        const response = await fetch('/api/admin/products/images', { method: 'POST', body: formData });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${result.error || 'فشل في رفع الصورة'}`);
+        }
+      } catch (error) {
+        console.error('Error uploading product image:', error);
+        showError(error);
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }
+
+    await fetchImages();
+  };
+
+  // Files the browser can already tell are too big or of the wrong type are not sent
+  const rejectFiles = (rejections: FileRejection[]) =>
+    rejections.forEach(({ file }) =>
+      showError(new Error(`${file.name}: يجب أن تكون الصورة JPEG أو PNG أو WebP أو AVIF وألا يتجاوز حجمها 15 ميغابايت`))
+    );
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDropAccepted: uploadFiles,
+    onDropRejected: rejectFiles,
+    accept: PRODUCT_IMAGE_ACCEPT,
+    maxSize: MAX_PRODUCT_IMAGE_BYTES,
+    multiple: true,
+    disabled: uploadingCount > 0,
+  });
+
+  const moveImage = async (imageId: string, targetId: string) => {
+    const from = images.findIndex(image => image.id === imageId);
+    const to = images.findIndex(image => image.id === targetId);
+    if (from === -1 || to === -1 || from === to) {
+      return;
+    }
+
+    const reordered = [...images];
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+    setImages(reordered);
+
+    const saved = await post(
+      '/api/admin/products/images/reorder',
+      { productId, imageIds: reordered.map(image => image.id) },
+      'فشل في ترتيب الصور'
+    );
+    if (!saved) {
+      await fetchImages();
+    }
+  };
+
+  const setPrimary = async (image: ProductImage) => {
+    const saved = await post(
+      '/api/admin/products/images/primary',
+      { productId, imageId: image.id },
+      'فشل في تعيين الصورة الرئيسية'
+    );
+    if (saved) {
+      setImages(current => current.map(item => ({ ...item, isPrimary: item.id === image.id })));
+    }
+  };
+
+  const saveAltText = async (image: ProductImage) => {
+    const draft = altDrafts[image.id];
+    if (!draft || (draft.ar === (image.altTextAr || '') && draft.en === (image.altTextEn || ''))) {
+      return;
+    }
+
+    const saved = await post(
+      '/api/admin/products/images/update',
+      { id: image.id, altTextAr: draft.ar, altTextEn: draft.en },
+      'فشل في حفظ النص البديل'
+    );
+    if (saved) {
+      setImages(current =>
+        current.map(item => (item.id === image.id ? { ...item, altTextAr: draft.ar, altTextEn: draft.en } : item))
+      );
+    }
+  };
+
+  const deleteImage = async (image: ProductImage) => {
+    const deleted = await post('/api/admin/products/images/delete', { imageId: image.id }, 'فشل في حذف الصورة');
+    if (deleted) {
+      toast({ title: 'تم الحذف', description: 'تم حذف الصورة من المعرض.' });
+      await fetchImages();
+    }
+  };
+
+  const setAltDraft = (imageId: string, language: 'ar' | 'en', value: string) =>
+    setAltDrafts(current => ({ ...current, [imageId]: { ...current[imageId], [language]: value } }));
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-6'>
+        <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <Images className='w-5 h-5' />
+          صور المنتج
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        {images.length === 0 ? (
+          <p className='text-sm text-gray-600'>لا توجد صور لهذا المنتج بعد. أول صورة ترفعها تصبح الصورة الرئيسية.</p>
+        ) : (
+          <>
+            <p className='text-sm text-gray-600'>
+              اسحب الصورة وأفلتها على أخرى لتغيير ترتيبها. الصورة الرئيسية تظهر أولاً وفي قوائم المنتجات.
+            </p>
+            <div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4'>
+              {images.map(image => (
+                <div
+                  key={image.id}
+                  draggable
+                  onDragStart={event => {
+                    event.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(image.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setHoverId(null);
+                  }}
+                  onDragOver={event => {
+                    if (draggingId && draggingId !== image.id) {
+                      event.preventDefault();
+                      setHoverId(image.id);
+                    }
+                  }}
+                  onDragLeave={() => setHoverId(null)}
+                  onDrop={event => {
+                    event.preventDefault();
+                    if (draggingId) {
+                      moveImage(draggingId, image.id);
+                    }
+                    setDraggingId(null);
+                    setHoverId(null);
+                  }}
+                  className={`rounded-md border bg-white p-2 space-y-2 ${
+                    hoverId === image.id ? 'border-primary bg-primary/5' : ''
+                  } ${draggingId === image.id ? 'opacity-50' : ''}`}
+                >
+                  <div className='relative'>
+                    <img
+                      src={pickImageVariant(image.variants, 640)?.url ?? image.imageUrl}
+                      alt={image.altTextAr || ''}
+                      className='w-full h-40 object-cover rounded cursor-move'
+                    />
+                    <GripVertical className='absolute top-2 left-2 w-4 h-4 text-white drop-shadow' />
+                    {image.isPrimary && (
+                      <span className='absolute top-2 right-2 rounded bg-primary px-2 py-0.5 text-xs text-white'>
+                        رئيسية
+                      </span>
+                    )}
+                  </div>
+                  <Input
+                    value={altDrafts[image.id]?.ar ?? ''}
+                    onChange={event => setAltDraft(image.id, 'ar', event.target.value)}
+                    onBlur={() => saveAltText(image)}
+                    placeholder='النص البديل بالعربية'
+                  />
+                  <Input
+                    value={altDrafts[image.id]?.en ?? ''}
+                    onChange={event => setAltDraft(image.id, 'en', event.target.value)}
+                    onBlur={() => saveAltText(image)}
+                    placeholder='Alt text in English'
+                    dir='ltr'
+                  />
+                  <div className='flex justify-between gap-2'>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      onClick={() => setPrimary(image)}
+                      disabled={isSaving || image.isPrimary}
+                    >
+                      <Star className={`w-4 h-4 ml-1 ${image.isPrimary ? 'fill-current' : ''}`} />
+                      {image.isPrimary ? 'الصورة الرئيسية' : 'تعيين كرئيسية'}
+                    </Button>
+                    <ConfirmationModal
+                      title='حذف الصورة'
+                      description='هل أنت متأكد أنك تريد حذف هذه الصورة من المعرض؟'
+                      onConfirm={() => deleteImage(image)}
+                      confirmText='حذف'
+                      cancelText='إلغاء'
+                    >
+                      <Button variant='ghost' size='sm' disabled={isSaving}>
+                        <Trash2 className='w-4 h-4 text-red-500' />
+                      </Button>
+                    </ConfirmationModal>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div
+          {...getRootProps({
+            className: `border border-dashed rounded-lg p-6 text-center cursor-pointer ${
+              isDragActive ? 'border-primary bg-primary/5' : ''
+            }`,
+          })}
+        >
+          <input {...getInputProps()} />
+          {uploadingCount > 0 ? (
+            <p className='flex items-center justify-center gap-2 text-sm text-gray-600'>
+              <Loader2 className='w-4 h-4 animate-spin' />
+              جاري رفع {uploadingCount} صورة...
+            </p>
+          ) : (
+            <p className='flex items-center justify-center gap-2 text-sm text-gray-600'>
+              <Upload className='w-4 h-4' />
+              اسحب الصور إلى هنا أو انقر لاختيارها (JPEG أو PNG أو WebP أو AVIF، حتى 15 ميغابايت)
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
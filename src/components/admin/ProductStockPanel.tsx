@@ -0,0 +1,287 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { StockHistory } from '@/services/inventory';
+import { InventoryMovementReason } from '@/types/enums';
+import { AlertTriangle, Loader2, PackagePlus } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ProductStockPanelProps {
+  productId: string;
+}
+
+type AdjustmentReason = InventoryMovementReason.RESTOCK | InventoryMovementReason.ADJUSTMENT;
+
+const REASON_LABELS: Record<InventoryMovementReason, string> = {
+  [InventoryMovementReason.SALE]: 'بيع',
+  [InventoryMovementReason.CANCELLATION]: 'إلغاء طلب',
+  [InventoryMovementReason.RETURN]: 'إرجاع',
+  [InventoryMovementReason.RESTOCK]: 'تزويد المخزون',
+  [InventoryMovementReason.ADJUSTMENT]: 'تعديل يدوي',
+};
+
+export default function ProductStockPanel({ productId }: ProductStockPanelProps) {
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [variantId, setVariantId] = useState('');
+  const [reason, setReason] = useState<AdjustmentReason>(InventoryMovementReason.RESTOCK);
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/products/stock?productId=${encodeURIComponent(productId)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل سجل المخزون');
+      }
+
+      setHistory(result);
+      const firstActive = result.variants.find((variant: { isActive: boolean }) => variant.isActive);
+      setVariantId(current => current || firstActive?.id || '');
+      setThreshold(result.hasCustomThreshold ? String(result.lowStockThreshold) : '');
+    } catch (error) {
+      console.error('Error fetching stock history:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, toast]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const post = async (endpoint: string, body: Record<string, unknown>, fallbackError: string) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ productId, ...body }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+      }
+
+      await fetchHistory();
+      return true;
+    } catch (error) {
+      console.error('Error updating stock:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitAdjustment = async () => {
+    const quantityChange = Number(quantity);
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      toast({ title: 'خطأ', description: 'أدخل كمية صحيحة غير الصفر.', variant: 'destructive' });
+      return;
+    }
+
+    const saved = await post(
+      '/api/admin/products/stock',
+      { variantId, quantityChange, reason, note },
+      'فشل في تحديث المخزون'
+    );
+    if (saved) {
+      toast({ title: 'تم تحديث المخزون', description: 'تم تسجيل الحركة في سجل المخزون.' });
+      setQuantity('');
+      setNote('');
+    }
+  };
+
+  const submitThreshold = async () => {
+    const saved = await post(
+      '/api/admin/products/low-stock-threshold',
+      { lowStockThreshold: threshold.trim() },
+      'فشل في تحديث حد التنبيه'
+    );
+    if (saved) {
+      toast({ title: 'تم الحفظ', description: 'تم تحديث حد تنبيه المخزون المنخفض.' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-6'>
+        <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+      </div>
+    );
+  }
+
+  if (!history) {
+    return null;
+  }
+
+  const activeVariants = history.variants.filter(variant => variant.isActive);
+  const variantNames = new Map(history.variants.map(variant => [variant.id, variant.name]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <PackagePlus className='w-5 h-5' />
+          المخزون
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        <div className='flex flex-wrap items-center gap-4'>
+          <p className='text-2xl font-bold'>{history.stock} وحدة</p>
+          {history.isLowStock && (
+            <span className='flex items-center gap-1 text-sm text-amber-700'>
+              <AlertTriangle className='w-4 h-4' />
+              مخزون منخفض (الحد {history.lowStockThreshold})
+            </span>
+          )}
+        </div>
+
+        {activeVariants.length > 0 && (
+          <div className='flex flex-wrap gap-2'>
+            {activeVariants.map(variant => (
+              <span key={variant.id} className='rounded border px-3 py-1 text-sm'>
+                {variant.name}: <span className='font-semibold'>{variant.stock}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className={`grid grid-cols-1 gap-2 ${activeVariants.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+          {activeVariants.length > 0 && (
+            <Select value={variantId} onValueChange={setVariantId}>
+              <SelectTrigger>
+                <SelectValue placeholder='الحجم' />
+              </SelectTrigger>
+              <SelectContent>
+                {activeVariants.map(variant => (
+                  <SelectItem key={variant.id} value={variant.id}>
+                    {variant.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={reason} onValueChange={value => setReason(value as AdjustmentReason)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={InventoryMovementReason.RESTOCK}>تزويد المخزون</SelectItem>
+              <SelectItem value={InventoryMovementReason.ADJUSTMENT}>تعديل يدوي (جرد)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type='number'
+            step={1}
+            min={reason === InventoryMovementReason.RESTOCK ? 1 : undefined}
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            placeholder={reason === InventoryMovementReason.RESTOCK ? 'الكمية المضافة' : 'الفرق (مثال: -2)'}
+          />
+          <Input value={note} onChange={e => setNote(e.target.value)} placeholder='ملاحظة (اختياري)' />
+        </div>
+        <Button onClick={submitAdjustment} disabled={isSaving || !quantity}>
+          {isSaving && <Loader2 className='w-4 h-4 ml-2 animate-spin' />}
+          تسجيل الحركة
+        </Button>
+
+        <div className='flex flex-wrap items-end gap-2'>
+          <div className='space-y-1'>
+            <label htmlFor='low-stock-threshold' className='text-sm text-gray-600'>
+              حد تنبيه المخزون المنخفض
+            </label>
+            <Input
+              id='low-stock-threshold'
+              type='number'
+              min={0}
+              step={1}
+              value={threshold}
+              onChange={e => setThreshold(e.target.value)}
+              placeholder={history.hasCustomThreshold ? 'الافتراضي' : `الافتراضي (${history.lowStockThreshold})`}
+              className='w-48'
+            />
+          </div>
+          <Button variant='outline' onClick={submitThreshold} disabled={isSaving}>
+            حفظ الحد
+          </Button>
+        </div>
+
+        <div>
+          <h3 className='font-semibold mb-2'>سجل المخزون</h3>
+          {history.movements.length === 0 ? (
+            <p className='text-sm text-gray-600'>لا توجد حركات مسجلة لهذا المنتج.</p>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='border-b text-gray-600'>
+                    <th className='text-right py-2'>التاريخ</th>
+                    <th className='text-right py-2'>السبب</th>
+                    <th className='text-right py-2'>الكمية</th>
+                    <th className='text-right py-2'>المخزون بعدها</th>
+                    <th className='text-right py-2'>بواسطة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.movements.map(movement => (
+                    <tr key={movement.id} className='border-b last:border-0'>
+                      <td className='py-2'>{new Date(movement.createdAt).toLocaleString('ar-TN')}</td>
+                      <td className='py-2'>
+                        {REASON_LABELS[movement.reason] || movement.reason}
+                        {movement.variantId && (
+                          <span className='block text-xs text-gray-500'>{variantNames.get(movement.variantId)}</span>
+                        )}
+                        {movement.note && <span className='block text-xs text-gray-500'>{movement.note}</span>}
+                      </td>
+                      <td
+                        className={`py-2 font-mono ${movement.quantityChange > 0 ? 'text-green-700' : 'text-red-700'}`}
+                        dir='ltr'
+                      >
+                        {movement.quantityChange > 0 ? `+${movement.quantityChange}` : movement.quantityChange}
+                      </td>
+                      <td className='py-2'>{movement.stockAfter}</td>
+                      <td className='py-2 text-gray-600'>
+                        {movement.orderId ? (
+                          <Link href={`/admin/orders/${movement.orderId}`} className='text-blue-600 hover:underline'>
+                            الطلب #{movement.orderId.slice(-8)}
+                          </Link>
+                        ) : (
+                          movement.createdByEmail || '—'
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
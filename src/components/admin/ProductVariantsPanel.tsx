@@ -0,0 +1,248 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import type { ProductVariant } from '@/types/business';
+import { Layers, Loader2, Pencil } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ProductVariantsPanelProps {
+  productId: string;
+  // Called after a variant is added, edited or (de)activated
+  onVariantsChange?: () => void;
+}
+
+interface VariantForm {
+  sku: string;
+  name: string;
+  weightGrams: string;
+  price: string;
+  sortOrder: string;
+  stock: string;
+}
+
+const EMPTY_FORM: VariantForm = { sku: '', name: '', weightGrams: '', price: '', sortOrder: '', stock: '' };
+
+export default function ProductVariantsPanel({ productId, onVariantsChange }: ProductVariantsPanelProps) {
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<VariantForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const fetchVariants = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/products/variants?productId=${encodeURIComponent(productId)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل الأحجام');
+      }
+
+      setVariants(result.variants);
+    } catch (error) {
+      console.error('Error fetching variants:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, toast]);
+
+  useEffect(() => {
+    fetchVariants();
+  }, [fetchVariants]);
+
+  const post = async (endpoint: string, body: Record<string, unknown>, fallbackError: string) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+      }
+
+      await fetchVariants();
+      onVariantsChange?.();
+      return true;
+    } catch (error) {
+      console.error('Error saving variant:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (variant: ProductVariant) => {
+    setEditingId(variant.id);
+    setForm({
+      sku: variant.sku,
+      name: variant.name,
+      weightGrams: variant.weightGrams ? String(variant.weightGrams) : '',
+      price: String(variant.price),
+      sortOrder: String(variant.sortOrder),
+      stock: '',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const submitVariant = async () => {
+    const { stock, ...fields } = form;
+    const saved = await post(
+      '/api/admin/products/variants',
+      editingId ? { id: editingId, ...fields } : { productId, ...fields, stock },
+      'فشل في حفظ الحجم'
+    );
+    if (saved) {
+      toast({ title: 'تم الحفظ', description: editingId ? 'تم تحديث الحجم.' : 'تمت إضافة الحجم.' });
+      resetForm();
+    }
+  };
+
+  const toggleActive = async (variant: ProductVariant) => {
+    await post(
+      '/api/admin/products/variants/active',
+      { id: variant.id, isActive: !variant.isActive },
+      'فشل في تحديث الحجم'
+    );
+  };
+
+  const setField = (field: keyof VariantForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(current => ({ ...current, [field]: e.target.value }));
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-6'>
+        <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <Layers className='w-5 h-5' />
+          الأحجام
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        {variants.length === 0 ? (
+          <p className='text-sm text-gray-600'>
+            يُباع هذا المنتج بحجم واحد. أضف أحجاماً (مثال: 250 غ، 500 غ، 1 كغ) ليكون لكل منها سعره ومخزونه.
+          </p>
+        ) : (
+          <div className='overflow-x-auto'>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='border-b text-gray-600'>
+                  <th className='text-right py-2'>الحجم</th>
+                  <th className='text-right py-2'>SKU</th>
+                  <th className='text-right py-2'>الوزن</th>
+                  <th className='text-right py-2'>السعر</th>
+                  <th className='text-right py-2'>الحالة</th>
+                  <th className='py-2' />
+                </tr>
+              </thead>
+              <tbody>
+                {variants.map(variant => (
+                  <tr key={variant.id} className={`border-b last:border-0 ${variant.isActive ? '' : 'text-gray-400'}`}>
+                    <td className='py-2'>{variant.name}</td>
+                    <td className='py-2 font-mono' dir='ltr'>
+                      {variant.sku}
+                    </td>
+                    <td className='py-2'>{variant.weightGrams ? `${variant.weightGrams} غ` : '—'}</td>
+                    <td className='py-2'>{variant.price} د.ت</td>
+                    <td className='py-2'>{variant.isActive ? 'معروض' : 'موقوف'}</td>
+                    <td className='py-2 flex justify-end gap-2'>
+                      <Button variant='ghost' size='sm' onClick={() => startEditing(variant)} disabled={isSaving}>
+                        <Pencil className='w-4 h-4' />
+                      </Button>
+                      <Button variant='outline' size='sm' onClick={() => toggleActive(variant)} disabled={isSaving}>
+                        {variant.isActive ? 'إيقاف' : 'تفعيل'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className='space-y-2'>
+          <h3 className='font-semibold'>{editingId ? 'تعديل الحجم' : 'إضافة حجم'}</h3>
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-2'>
+            <Input value={form.name} onChange={setField('name')} placeholder='الاسم (مثال: 500 غ)' />
+            <Input value={form.sku} onChange={setField('sku')} placeholder='SKU' dir='ltr' />
+            <Input
+              type='number'
+              min={1}
+              value={form.weightGrams}
+              onChange={setField('weightGrams')}
+              placeholder='الوزن (غ)'
+            />
+            <Input
+              type='number'
+              min={0}
+              step='0.01'
+              value={form.price}
+              onChange={setField('price')}
+              placeholder='السعر (د.ت)'
+            />
+            <Input
+              type='number'
+              step={1}
+              value={form.sortOrder}
+              onChange={setField('sortOrder')}
+              placeholder='الترتيب'
+            />
+            {!editingId && (
+              <Input
+                type='number'
+                min={0}
+                step={1}
+                value={form.stock}
+                onChange={setField('stock')}
+                placeholder='المخزون الأولي'
+              />
+            )}
+          </div>
+          <div className='flex gap-2'>
+            <Button onClick={submitVariant} disabled={isSaving || !form.name || !form.sku || !form.price}>
+              {isSaving && <Loader2 className='w-4 h-4 ml-2 animate-spin' />}
+              {editingId ? 'حفظ التعديلات' : 'إضافة الحجم'}
+            </Button>
+            {editingId && (
+              <Button variant='outline' onClick={resetForm} disabled={isSaving}>
+                إلغاء
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
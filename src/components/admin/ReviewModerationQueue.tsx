@@ -0,0 +1,169 @@
+'use client';
+
+import { RatingStars } from '@/components/business/reviews';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import type { Review } from '@/types/business';
+import { ReviewStatus } from '@/types/enums';
+import { BadgeCheck, Check, Loader2, X } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+const STATUS_TABS: { value: ReviewStatus; label: string }[] = [
+  { value: ReviewStatus.PENDING, label: 'بانتظار المراجعة' },
+  { value: ReviewStatus.APPROVED, label: 'منشورة' },
+  { value: ReviewStatus.REJECTED, label: 'مرفوضة' },
+];
+
+export default function ReviewModerationQueue() {
+  const [status, setStatus] = useState<ReviewStatus>(ReviewStatus.PENDING);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/reviews?status=${status}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحميل المراجعات');
+      }
+
+      setReviews(result.reviews);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const moderate = async (review: Review, newStatus: ReviewStatus.APPROVED | ReviewStatus.REJECTED) => {
+    setSavingId(review.id);
+
+    try {
+      const response = await fetch('/api/admin/reviews/moderate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reviewId: review.id, status: newStatus }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تحديث المراجعة');
+      }
+
+      // The review moves to the other tab
+      setReviews(current => current.filter(item => item.id !== review.id));
+      toast({
+        title: newStatus === ReviewStatus.APPROVED ? 'تم النشر' : 'تم الرفض',
+        description:
+          newStatus === ReviewStatus.APPROVED ? 'أصبحت المراجعة ظاهرة للعملاء.' : 'لن تظهر المراجعة للعملاء.',
+      });
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex gap-2'>
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.value}
+            variant={tab.value === status ? 'default' : 'outline'}
+            size='sm'
+            onClick={() => setStatus(tab.value)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className='flex justify-center py-6'>
+          <Loader2 className='w-6 h-6 animate-spin text-gray-500' />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className='text-sm text-gray-600'>لا توجد مراجعات هنا.</p>
+      ) : (
+        reviews.map(review => (
+          <Card key={review.id}>
+            <CardContent className='pt-6 space-y-3'>
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <Link href={`/admin/products/${review.productId}/edit`} className='font-semibold hover:underline'>
+                  {review.productName || 'منتج محذوف'}
+                </Link>
+                <span className='text-sm text-gray-500'>{new Date(review.createdAt).toLocaleDateString('ar-TN')}</span>
+              </div>
+              <div className='flex flex-wrap items-center gap-2 text-sm text-gray-600'>
+                <RatingStars rating={review.rating} />
+                <span>{review.customerName || 'عميل'}</span>
+                {review.isVerified && (
+                  <Badge variant='secondary' className='gap-1'>
+                    <BadgeCheck className='w-3 h-3' />
+                    مشترٍ موثّق
+                  </Badge>
+                )}
+              </div>
+              {review.title && <p className='font-semibold'>{review.title}</p>}
+              {review.comment && <p className='text-gray-800 whitespace-pre-line'>{review.comment}</p>}
+              {review.moderatedAt && (
+                <p className='text-xs text-gray-500'>
+                  {review.moderatedByEmail ? `بواسطة ${review.moderatedByEmail} — ` : ''}
+                  {new Date(review.moderatedAt).toLocaleString('ar-TN')}
+                </p>
+              )}
+              <div className='flex gap-2'>
+                {review.status !== ReviewStatus.APPROVED && (
+                  <Button size='sm' onClick={() => moderate(review, ReviewStatus.APPROVED)} disabled={!!savingId}>
+                    {savingId === review.id ? (
+                      <Loader2 className='w-4 h-4 ml-2 animate-spin' />
+                    ) : (
+                      <Check className='w-4 h-4 ml-2' />
+                    )}
+                    نشر
+                  </Button>
+                )}
+                {review.status !== ReviewStatus.REJECTED && (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    onClick={() => moderate(review, ReviewStatus.REJECTED)}
+                    disabled={!!savingId}
+                  >
+                    <X className='w-4 h-4 ml-2' />
+                    {review.status === ReviewStatus.APPROVED ? 'إلغاء النشر' : 'رفض'}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
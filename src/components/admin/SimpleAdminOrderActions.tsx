@@ -14,7 +14,10 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import type { CarrierOption } from '@/services/delivery';
 import { CheckCircle, Loader2, Truck, XCircle, Package } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
@@ -22,12 +25,16 @@ import { useState } from 'react';
 interface SimpleAdminOrderActionsProps {
   orderId: string;
   currentStatus: string;
+  // Offered on the ship dialog
+  carriers: CarrierOption[];
 }
 
-export default function SimpleAdminOrderActions({ orderId, currentStatus }: SimpleAdminOrderActionsProps) {
+export default function SimpleAdminOrderActions({ orderId, currentStatus, carriers }: SimpleAdminOrderActionsProps) {
   const [isConfirming, setIsConfirming] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [carrierCode, setCarrierCode] = useState(carriers[0]?.code || '');
+  const [trackingNumber, setTrackingNumber] = useState('');
 
   const router = useRouter();
   const { toast } = useToast();
@@ -102,6 +109,42 @@ export default function SimpleAdminOrderActions({ orderId, currentStatus }: Simp
     }
   };
 
+  const markAsShipped = async () => {
+    setIsUpdatingStatus(true);
+
+    try {
+      const response = await fetch('/api/admin/orders/ship', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderId, carrier: carrierCode, trackingNumber: trackingNumber.trim() || undefined }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'فشل في تسجيل الشحن');
+      }
+
+      toast({
+        title: 'تم الشحن',
+        description: `رقم التتبع: ${result.shipment.trackingNumber}`,
+        variant: 'default',
+      });
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error shipping order:', error);
+      toast({
+        title: 'خطأ في الشحن',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
   const markAsDelivered = async () => {
     setIsUpdatingStatus(true);
 
@@ -141,6 +184,8 @@ export default function SimpleAdminOrderActions({ orderId, currentStatus }: Simp
     switch (status) {
       case 'Pending Confirmation':
         return 'bg-yellow-50 text-yellow-700 border-yellow-200';
+      case 'Awaiting Payment':
+        return 'bg-blue-50 text-blue-700 border-blue-200';
       case 'Confirmed':
         return 'bg-green-50 text-green-700 border-green-200';
       case 'Delivered':
@@ -156,6 +201,8 @@ export default function SimpleAdminOrderActions({ orderId, currentStatus }: Simp
     switch (status) {
       case 'Pending Confirmation':
         return 'في انتظار التأكيد';
+      case 'Awaiting Payment':
+        return 'في انتظار الدفع';
       case 'Confirmed':
         return 'مؤكد';
       case 'Delivered':
@@ -172,6 +219,9 @@ export default function SimpleAdminOrderActions({ orderId, currentStatus }: Simp
   const canMarkProcessing = currentStatus === 'Confirmed';
   const canMarkShipped = currentStatus === 'Processing';
   const canMarkDelivered = currentStatus === 'Shipped';
+  const selectedCarrier = carriers.find(carrier => carrier.code === carrierCode);
+  // Carriers with an API create the tracking number themselves
+  const canShip = !!selectedCarrier && (selectedCarrier.createsConsignments || !!trackingNumber.trim());
 
   return (
     <Card>
@@ -294,28 +344,36 @@ export default function SimpleAdminOrderActions({ orderId, currentStatus }: Simp
                 <AlertDialogHeader>
                   <AlertDialogTitle>تأكيد الشحن</AlertDialogTitle>
                   <AlertDialogDescription>
-                    سيتم تغيير حالة الطلب إلى "تم الشحن".
+                    اختر شركة الشحن وأدخل رقم التتبع. سيتم تغيير حالة الطلب إلى "تم الشحن" وسيظهر رابط التتبع للعميل.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
+                <div className='space-y-3'>
+                  <Select value={carrierCode} onValueChange={setCarrierCode}>
+                    <SelectTrigger>
+                      <SelectValue placeholder='شركة الشحن' />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {carriers.map(carrier => (
+                        <SelectItem key={carrier.code} value={carrier.code}>
+                          {carrier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={trackingNumber}
+                    onChange={event => setTrackingNumber(event.target.value)}
+                    placeholder={
+                      selectedCarrier?.createsConsignments ? 'رقم التتبع (يُنشأ تلقائياً إن تُرك فارغاً)' : 'رقم التتبع'
+                    }
+                    aria-label='رقم التتبع'
+                  />
+                </div>
                 <AlertDialogFooter>
                   <AlertDialogCancel>إلغاء</AlertDialogCancel>
-                  <AlertDialogAction onClick={async () => {
-                    setIsUpdatingStatus(true);
-                    try {
-                      const r = await fetch('/api/admin/orders/update-status', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ orderId, status: 'Shipped' }),
-                      });
-                      if (!r.ok) throw new Error('فشل في التحديث');
-                      toast({ title: 'تم التحديث', description: 'تم تعيين الحالة إلى تم الشحن.' });
-                      router.refresh();
-                    } catch (e) {
-                      toast({ title: 'خطأ في التحديث', description: 'تعذر تحديث الحالة.', variant: 'destructive' });
-                    } finally {
-                      setIsUpdatingStatus(false);
-                    }
-                  }}>تأكيد</AlertDialogAction>
+                  <AlertDialogAction onClick={markAsShipped} disabled={!canShip}>
+                    تأكيد الشحن
+                  </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
@@ -3,7 +3,7 @@
 import { Button } from '@/components/ui/button';
 import { useAdminSession } from '@/context/AdminSessionProvider';
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, LogOut, Menu, Package, Settings, ShoppingBag, Users, X } from 'lucide-react';
+import { LayoutDashboard, LogOut, Menu, MessageSquare, Package, Settings, ShoppingBag, Users, X } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -33,6 +33,12 @@ const adminNavigationLinks = [
     icon: <Package className='h-4 w-4' />,
     description: 'Gestion des produits',
   },
+  {
+    href: '/admin/reviews',
+    label: 'المراجعات',
+    icon: <MessageSquare className='h-4 w-4' />,
+    description: 'Modération des avis',
+  },
   {
     href: '/admin/customers',
     label: 'إدارة العملاء',
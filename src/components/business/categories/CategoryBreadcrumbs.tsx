@@ -0,0 +1,45 @@
+import type { Category } from '@/types/business';
+import { ChevronLeft } from 'lucide-react';
+import Link from 'next/link';
+
+interface CategoryBreadcrumbsProps {
+  // From the top-level category down
+  path: Category[];
+  // Page below the last category, such as a product; the last category is the page otherwise
+  current?: string;
+  className?: string;
+}
+
+export default function CategoryBreadcrumbs({ path, current, className }: CategoryBreadcrumbsProps) {
+  const crumbs = [
+    { label: 'المنتجات', href: '/products' },
+    ...path.map(category => ({ label: category.name, href: `/categories/${encodeURIComponent(category.slug)}` })),
+  ];
+  if (current) {
+    crumbs.push({ label: current, href: '' });
+  }
+
+  return (
+    <nav aria-label='مسار التصفح' className={className}>
+      <ol className='flex flex-wrap items-center gap-1 text-sm text-gray-600'>
+        {crumbs.map((crumb, index) => {
+          const isLast = index === crumbs.length - 1;
+          return (
+            <li key={`${crumb.href}-${index}`} className='flex items-center gap-1'>
+              {isLast ? (
+                <span aria-current='page' className='font-medium text-gray-900'>
+                  {crumb.label}
+                </span>
+              ) : (
+                <Link href={crumb.href} className='hover:underline'>
+                  {crumb.label}
+                </Link>
+              )}
+              {!isLast && <ChevronLeft className='w-4 h-4' />}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
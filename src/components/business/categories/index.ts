@@ -0,0 +1,2 @@
+// Category business components
+export { default as CategoryBreadcrumbs } from './CategoryBreadcrumbs';
@@ -6,6 +6,8 @@ export { default as CartDisplayClient } from '@/components/CartDisplayClient';
 export { default as CartItemControls } from '@/components/CartItemControls';
 export { default as ClearCartButton } from '@/components/ClearCartButton';
 
-// export * from './orders'; // TODO: Enable when order components are created
-// export * from './products'; // TODO: Enable when product components are created
+export * from './categories';
+export * from './orders';
+export * from './products';
 
+export * from './reviews';
@@ -0,0 +1,143 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ErrorBanner } from '@/components/ui/simple-error';
+import { formatRib, MAX_PAYMENT_PROOF_SIZE, PAYMENT_PROOF_TYPES } from '@/services/payments/bank-transfer';
+import type { BankTransfer, PaymentProofStatus } from '@/services/payments';
+import { Upload } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface BankTransferPanelProps {
+  transfer: BankTransfer;
+  // Guests upload with their order's access token
+  accessToken?: string;
+}
+
+const PROOF_STATUS_TEXT: Record<PaymentProofStatus, { label: string; className: string }> = {
+  pending: { label: 'قيد المراجعة', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'مقبول', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'مرفوض', className: 'bg-red-100 text-red-800' },
+};
+
+// Where to pay a bank transfer order, and the receipts uploaded for it
+export default function BankTransferPanel({ transfer, accessToken }: BankTransferPanelProps) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { bankDetails, proofs } = transfer;
+  const hasPendingProof = proofs.some(proof => proof.status === 'pending');
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setError(null);
+    if (file.size > MAX_PAYMENT_PROOF_SIZE) {
+      setError('يجب ألا يتجاوز حجم الإيصال 5 ميغابايت.');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('orderId', transfer.orderId);
+      formData.append('file', file);
+      if (accessToken) {
+        formData.append('token', accessToken);
+      }
+
+      const response = await fetch('/api/payments/proof', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'تعذر رفع الإيصال.');
+        return;
+      }
+
+      setFile(null);
+      router.refresh();
+    } catch (err) {
+      console.error('Error uploading payment proof:', err);
+      setError('تعذر رفع الإيصال.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className='space-y-4'>
+      <p className='text-sm text-gray-600'>
+        حوّل مبلغ <strong>{transfer.amount.toFixed(2)} د.ت</strong> إلى الحساب التالي مع ذكر رقم الطلب #
+        {transfer.orderId.slice(-8)}، ثم ارفع صورة الإيصال ليتم تأكيد طلبك.
+      </p>
+
+      {bankDetails ? (
+        <div className='p-3 bg-gray-50 rounded-md text-sm space-y-1'>
+          <p>
+            <strong>صاحب الحساب:</strong> {bankDetails.accountName}
+          </p>
+          <p>
+            <strong>البنك:</strong> {bankDetails.bankName}
+          </p>
+          <p>
+            <strong>RIB:</strong>{' '}
+            <span dir='ltr' className='font-mono'>
+              {formatRib(bankDetails.rib)}
+            </span>
+          </p>
+        </div>
+      ) : (
+        <p className='p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm'>
+          سنرسل إليك بيانات الحساب البنكي قريباً.
+        </p>
+      )}
+
+      {proofs.length > 0 && (
+        <ul className='space-y-2'>
+          {proofs.map(proof => (
+            <li key={proof.id} className='text-sm'>
+              <div className='flex items-center justify-between gap-2'>
+                <span className='truncate'>{proof.fileName || 'إيصال'}</span>
+                <span className={`px-2 py-0.5 rounded text-xs ${PROOF_STATUS_TEXT[proof.status].className}`}>
+                  {PROOF_STATUS_TEXT[proof.status].label}
+                </span>
+              </div>
+              {proof.status === 'rejected' && proof.rejectionReason && (
+                <p className='text-red-700 mt-1'>السبب: {proof.rejectionReason}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasPendingProof ? (
+        <p className='p-3 bg-blue-50 text-blue-800 rounded-md text-sm'>
+          إيصالك قيد المراجعة، وسنؤكد طلبك بعد التحقق من التحويل.
+        </p>
+      ) : (
+        <form className='space-y-3' onSubmit={handleSubmit}>
+          {error && <ErrorBanner error={error} />}
+          <Input
+            type='file'
+            accept={Object.keys(PAYMENT_PROOF_TYPES).join(',')}
+            onChange={e => setFile(e.target.files?.[0] ?? null)}
+            required
+          />
+          <p className='text-xs text-gray-500'>صورة (JPEG أو PNG أو WebP) أو ملف PDF، بحد أقصى 5 ميغابايت.</p>
+          <Button
+            type='submit'
+            disabled={!file || isUploading}
+            className='w-full bg-honey hover:bg-honey-dark text-white'
+          >
+            <Upload className='w-4 h-4 mr-2' />
+            {isUploading ? 'جاري رفع الإيصال...' : 'رفع إيصال التحويل'}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import type { CreditNote } from '@/services/refunds';
+import { Download, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { downloadPdf } from './download-pdf';
+
+interface CreditNotesListProps {
+  creditNotes: CreditNote[];
+  // Admins also see the reason and whether stock was restored
+  variant?: 'admin' | 'customer';
+}
+
+export default function CreditNotesList({ creditNotes, variant = 'customer' }: CreditNotesListProps) {
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const isAdmin = variant === 'admin';
+
+  if (creditNotes.length === 0) {
+    return <p className='text-sm text-gray-600'>لا توجد إشعارات دائنة لهذا الطلب.</p>;
+  }
+
+  const downloadCreditNote = async (creditNote: CreditNote) => {
+    setDownloadingId(creditNote.id);
+
+    try {
+      await downloadPdf(
+        '/api/generate-credit-note',
+        { creditNoteId: creditNote.id },
+        `${creditNote.creditNoteNumber}.pdf`
+      );
+    } catch (error) {
+      console.error('Error downloading credit note:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <ul className='space-y-3'>
+      {creditNotes.map(creditNote => (
+        <li key={creditNote.id} className='flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg'>
+          <div className='text-sm'>
+            <p className='font-semibold font-mono' dir='ltr'>
+              {creditNote.creditNoteNumber}
+            </p>
+            <p className='text-gray-600'>
+              {new Date(creditNote.issuedAt).toLocaleDateString('ar-TN')} — {creditNote.totalAmount.toFixed(2)} د.ت
+            </p>
+            {isAdmin && creditNote.reason && <p className='text-gray-600 mt-1'>{creditNote.reason}</p>}
+            {isAdmin && creditNote.restocked && (
+              <p className='text-xs text-green-700 mt-1'>تمت إعادة المنتجات للمخزون</p>
+            )}
+          </div>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => downloadCreditNote(creditNote)}
+            disabled={downloadingId === creditNote.id}
+            aria-label='تحميل الإشعار الدائن'
+          >
+            {downloadingId === creditNote.id ? (
+              <Loader2 className='w-4 h-4 animate-spin' />
+            ) : (
+              <Download className='w-4 h-4' />
+            )}
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { downloadPdf } from './download-pdf';
+
+interface InvoiceDownloadButtonProps {
+  orderId: string;
+  // Stored status label, e.g. 'Cancelled'
+  status: string;
+  className?: string;
+}
+
+export default function InvoiceDownloadButton({ orderId, status, className = '' }: InvoiceDownloadButtonProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  if (status === 'Cancelled') {
+    return <p className={`text-sm text-gray-500 ${className}`}>لا يمكن إنشاء فاتورة للطلبات الملغاة</p>;
+  }
+
+  const downloadInvoice = async () => {
+    setIsDownloading(true);
+
+    try {
+      await downloadPdf('/api/generate-invoice', { orderId }, `invoice-${orderId.slice(-8)}.pdf`);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast({
+        title: 'خطأ',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button onClick={downloadInvoice} disabled={isDownloading} variant='outline' className={className}>
+      {isDownloading ? (
+        <>
+          <Loader2 className='w-4 h-4 mr-2 animate-spin' />
+          جاري إنشاء الفاتورة...
+        </>
+      ) : (
+        <>
+          <FileText className='w-4 h-4 mr-2' />
+          تحميل فاتورة PDF
+        </>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,94 @@
+import { OrderTracking } from '@/types/business';
+import { OrderStatus, OrderTrackingEventType } from '@/types/enums';
+import { CheckCircle, Clock, MessageSquare, RotateCcw, Truck, XCircle } from 'lucide-react';
+
+interface OrderTimelineProps {
+  entries: OrderTracking[];
+  // Customers never see internal notes or who made a change
+  variant?: 'admin' | 'customer';
+}
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'في انتظار التأكيد',
+  [OrderStatus.AWAITING_PAYMENT]: 'في انتظار الدفع',
+  [OrderStatus.CONFIRMED]: 'مؤكد',
+  [OrderStatus.PROCESSING]: 'قيد التحضير',
+  [OrderStatus.SHIPPED]: 'تم الشحن',
+  [OrderStatus.DELIVERED]: 'تم التوصيل',
+  [OrderStatus.CANCELLED]: 'ملغي',
+};
+
+function getEntryTitle(entry: OrderTracking) {
+  switch (entry.type) {
+    case OrderTrackingEventType.CANCELLATION:
+      return 'تم إلغاء الطلب';
+    case OrderTrackingEventType.NOTE:
+      return 'ملاحظة';
+    case OrderTrackingEventType.TRACKING_NUMBER:
+      return 'رقم التتبع';
+    case OrderTrackingEventType.REFUND:
+      return 'استرجاع المبلغ';
+    default:
+      return STATUS_LABELS[entry.status];
+  }
+}
+
+function getEntryIcon(entry: OrderTracking) {
+  switch (entry.type) {
+    case OrderTrackingEventType.CANCELLATION:
+      return <XCircle className='w-4 h-4 text-red-600' />;
+    case OrderTrackingEventType.NOTE:
+      return <MessageSquare className='w-4 h-4 text-gray-600' />;
+    case OrderTrackingEventType.TRACKING_NUMBER:
+      return <Truck className='w-4 h-4 text-indigo-600' />;
+    case OrderTrackingEventType.REFUND:
+      return <RotateCcw className='w-4 h-4 text-purple-600' />;
+    default:
+      return entry.status === OrderStatus.PENDING ? (
+        <Clock className='w-4 h-4 text-yellow-600' />
+      ) : (
+        <CheckCircle className='w-4 h-4 text-green-600' />
+      );
+  }
+}
+
+export default function OrderTimeline({ entries, variant = 'customer' }: OrderTimelineProps) {
+  const isAdmin = variant === 'admin';
+  const visibleEntries = isAdmin ? entries : entries.filter(entry => !entry.isInternal);
+
+  if (visibleEntries.length === 0) {
+    return <p className='text-sm text-gray-600'>لا يوجد سجل لهذا الطلب بعد.</p>;
+  }
+
+  return (
+    <ol className='relative border-s border-gray-200 space-y-6 ms-2'>
+      {visibleEntries.map((entry, index) => (
+        <li key={entry.id || index} className='ms-6'>
+          <span className='absolute -start-3 flex items-center justify-center w-6 h-6 bg-white rounded-full ring-4 ring-white'>
+            {getEntryIcon(entry)}
+          </span>
+          <div className='flex flex-wrap items-center gap-2'>
+            <h4 className='font-semibold text-gray-800'>{getEntryTitle(entry)}</h4>
+            {isAdmin && entry.isInternal && (
+              <span className='text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600'>داخلي</span>
+            )}
+          </div>
+          <time className='block text-xs text-gray-500 mt-1'>
+            {new Date(entry.timestamp).toLocaleString('ar-TN')}
+          </time>
+          {entry.trackingNumber && (
+            <p className='text-sm text-gray-700 mt-1 font-mono' dir='ltr'>
+              {entry.trackingNumber}
+            </p>
+          )}
+          {entry.notes && (isAdmin || entry.type !== OrderTrackingEventType.STATUS_CHANGE) && (
+            <p className='text-sm text-gray-700 mt-1'>{entry.notes}</p>
+          )}
+          {isAdmin && (entry.updatedByEmail || entry.updatedBy) && (
+            <p className='text-xs text-gray-500 mt-1'>بواسطة: {entry.updatedByEmail || entry.updatedBy}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,42 @@
+import { OrderTotals } from '@/types/business';
+
+interface OrderTotalsSummaryProps {
+  totals: OrderTotals;
+  className?: string;
+}
+
+function formatAmount(amount: number) {
+  return `${amount.toFixed(2)} د.ت`;
+}
+
+// Same rows on the cart, checkout and order pages; the invoice prints the same breakdown
+export default function OrderTotalsSummary({ totals, className = '' }: OrderTotalsSummaryProps) {
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className='flex justify-between'>
+        <span>المجموع الفرعي:</span>
+        <span>{formatAmount(totals.subtotal)}</span>
+      </div>
+      {totals.discountAmount > 0 && (
+        <div className='flex justify-between text-green-700'>
+          <span>الخصم{totals.discountCode ? ` (${totals.discountCode})` : ''}:</span>
+          <span>-{formatAmount(totals.discountAmount)}</span>
+        </div>
+      )}
+      {totals.taxRate > 0 && (
+        <div className='flex justify-between'>
+          <span>الضريبة على القيمة المضافة ({totals.taxRate}%):</span>
+          <span>{formatAmount(totals.taxAmount)}</span>
+        </div>
+      )}
+      <div className='flex justify-between'>
+        <span>رسوم التوصيل:</span>
+        <span>{totals.shippingAmount > 0 ? formatAmount(totals.shippingAmount) : 'مجاني'}</span>
+      </div>
+      <div className='border-t pt-3 flex justify-between text-lg font-bold text-honey-dark'>
+        <span>المجموع الإجمالي:</span>
+        <span>{formatAmount(totals.total)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Button } from '@/components/ui/button';
+import { OrderShipment, ShipmentStatus } from '@/types/business';
+import { ExternalLink } from 'lucide-react';
+
+interface ShipmentTrackingProps {
+  shipment: OrderShipment;
+}
+
+const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  in_transit: 'في الطريق',
+  delivered: 'تم التوصيل',
+  returned: 'أُعيد إلى المتجر',
+};
+
+// The carrier and tracking number of a shipped order, with a link to the carrier's tracking page
+export default function ShipmentTracking({ shipment }: ShipmentTrackingProps) {
+  return (
+    <div className='space-y-2 text-sm'>
+      <p>
+        <strong>شركة الشحن:</strong> {shipment.carrierName || shipment.carrier}
+      </p>
+      <p>
+        <strong>رقم التتبع:</strong> <span className='font-mono'>{shipment.trackingNumber}</span>
+      </p>
+      <p>
+        <strong>الحالة:</strong> {SHIPMENT_STATUS_LABELS[shipment.status]}
+      </p>
+      <p className='text-gray-600'>
+        شُحن في {shipment.shippedAt.toLocaleDateString('ar-TN')}
+        {shipment.deliveredAt && ` · وصل في ${shipment.deliveredAt.toLocaleDateString('ar-TN')}`}
+      </p>
+      {shipment.trackingUrl && (
+        <Button asChild variant='outline' className='w-full'>
+          <a href={shipment.trackingUrl} target='_blank' rel='noopener noreferrer'>
+            <ExternalLink className='w-4 h-4 ml-2' />
+            تتبع الشحنة
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+}
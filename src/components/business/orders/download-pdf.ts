@@ -0,0 +1,29 @@
+// Posts to one of the PDF endpoints and saves the response as a file.
+// Throws with the server's message so callers can show it in a toast.
+export async function downloadPdf(endpoint: string, body: Record<string, unknown>, fallbackFileName: string) {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || 'تعذر إنشاء المستند. يرجى المحاولة مرة أخرى.');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="([^"]+)"/);
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = match ? match[1] : fallbackFileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
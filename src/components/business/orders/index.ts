@@ -1,2 +1,7 @@
 // Order business components
-// TODO: Add order components when they are created
+export { default as OrderTimeline } from './OrderTimeline';
+export { default as OrderTotalsSummary } from './OrderTotalsSummary';
+export { default as InvoiceDownloadButton } from './InvoiceDownloadButton';
+export { default as CreditNotesList } from './CreditNotesList';
+export { default as BankTransferPanel } from './BankTransferPanel';
+export { default as ShipmentTracking } from './ShipmentTracking';
@@ -0,0 +1,148 @@
+'use client';
+
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { buildSrcSet, IMAGE_VARIANT_FORMATS } from '@/lib/utils/image-variants';
+import type { ImageVariant } from '@/types/business';
+import { ChevronLeft, ChevronRight, ZoomIn } from 'lucide-react';
+import type { CSSProperties, MouseEvent } from 'react';
+import { useState } from 'react';
+
+export interface GalleryImage {
+  url: string;
+  alt: string;
+  variants?: ImageVariant[];
+  blurDataUrl?: string;
+}
+
+interface GalleryPictureProps {
+  image: GalleryImage;
+  // Rendered width of the image, so the browser picks the right variant
+  sizes: string;
+  className: string;
+  style?: CSSProperties;
+}
+
+// The image's AVIF and WebP variants when it has them, the single URL otherwise
+function GalleryPicture({ image, sizes, className, style }: GalleryPictureProps) {
+  const variants = image.variants ?? [];
+  const placeholder = image.blurDataUrl
+    ? { backgroundImage: `url(${image.blurDataUrl})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+    : undefined;
+
+  return (
+    <picture>
+      {variants.length > 0 &&
+        IMAGE_VARIANT_FORMATS.map(format => (
+          <source key={format} type={`image/${format}`} srcSet={buildSrcSet(variants, format)} sizes={sizes} />
+        ))}
+      <img src={image.url} alt={image.alt} className={className} style={{ ...placeholder, ...style }} />
+    </picture>
+  );
+}
+
+interface ProductImageGalleryProps {
+  // Primary image first
+  images: GalleryImage[];
+}
+
+/**
+ * The product page's images. Hovering the main image magnifies the part
+ * under the cursor; clicking it opens the full-size image, which can be
+ * stepped through.
+ */
+export default function ProductImageGallery({ images }: ProductImageGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [zoomOrigin, setZoomOrigin] = useState<string | null>(null);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+
+  if (images.length === 0) {
+    return null;
+  }
+
+  const current = images[index] ?? images[0];
+  const step = (offset: number) => setIndex(value => (value + offset + images.length) % images.length);
+
+  const trackZoom = (event: MouseEvent<HTMLButtonElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((event.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  return (
+    <div className='space-y-3'>
+      <button
+        type='button'
+        onClick={() => setLightboxOpen(true)}
+        onMouseMove={trackZoom}
+        onMouseLeave={() => setZoomOrigin(null)}
+        className='relative block w-full h-96 overflow-hidden rounded-xl shadow-md cursor-zoom-in'
+        aria-label='تكبير الصورة'
+      >
+        <GalleryPicture
+          image={current}
+          sizes='(max-width: 768px) 100vw, 50vw'
+          className='w-full h-full object-cover transition-transform duration-200'
+          style={zoomOrigin ? { transform: 'scale(2)', transformOrigin: zoomOrigin } : undefined}
+        />
+        <ZoomIn className='absolute bottom-3 left-3 w-5 h-5 text-white drop-shadow' />
+      </button>
+
+      {images.length > 1 && (
+        <div className='flex gap-2 overflow-x-auto'>
+          {images.map((image, imageIndex) => (
+            <button
+              key={image.url}
+              type='button'
+              onClick={() => setIndex(imageIndex)}
+              className={`shrink-0 w-20 h-20 overflow-hidden rounded-md border-2 ${
+                imageIndex === index ? 'border-primary' : 'border-transparent'
+              }`}
+              aria-label={`عرض الصورة ${imageIndex + 1}`}
+            >
+              <GalleryPicture image={image} sizes='80px' className='w-full h-full object-cover' />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={lightboxOpen} onOpenChange={setLightboxOpen}>
+        <DialogContent className='max-w-4xl p-2' dir='rtl'>
+          <DialogTitle className='sr-only'>{current.alt}</DialogTitle>
+          <div className='relative'>
+            <GalleryPicture
+              image={current}
+              sizes='(max-width: 896px) 100vw, 896px'
+              className='w-full max-h-[80vh] object-contain'
+            />
+            {images.length > 1 && (
+              <>
+                <button
+                  type='button'
+                  onClick={() => step(-1)}
+                  className='absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-white/80 p-2 shadow'
+                  aria-label='الصورة السابقة'
+                >
+                  <ChevronRight className='w-5 h-5' />
+                </button>
+                <button
+                  type='button'
+                  onClick={() => step(1)}
+                  className='absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-white/80 p-2 shadow'
+                  aria-label='الصورة التالية'
+                >
+                  <ChevronLeft className='w-5 h-5' />
+                </button>
+              </>
+            )}
+          </div>
+          {images.length > 1 && (
+            <p className='text-center text-sm text-gray-600'>
+              {index + 1} / {images.length}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { CompactSearchForm } from '@/components/forms/search-form';
+import type { ProductSearchSuggestion } from '@/services/products/products.types';
+import { useRouter } from 'next/navigation';
+import { useCallback } from 'react';
+
+interface ProductSearchBarProps {
+  initialQuery?: string;
+  className?: string;
+}
+
+export default function ProductSearchBar({ initialQuery = '', className }: ProductSearchBarProps) {
+  const router = useRouter();
+
+  const fetchSuggestions = useCallback(async (query: string) => {
+    const response = await fetch(`/api/products/suggest?q=${encodeURIComponent(query)}`);
+    if (!response.ok) {
+      return [];
+    }
+
+    const { suggestions } = (await response.json()) as { suggestions: ProductSearchSuggestion[] };
+    return suggestions.map(suggestion => suggestion.name);
+  }, []);
+
+  const handleSubmit = async (query: string) => {
+    router.push(`/products?q=${encodeURIComponent(query)}`);
+  };
+
+  return (
+    <CompactSearchForm
+      onSubmit={handleSubmit}
+      placeholder='ابحث عن العسل ومنتجات النحل...'
+      initialQuery={initialQuery}
+      fetchSuggestions={fetchSuggestions}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProductSortOption } from '@/services/products/product-listing';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+const SORT_LABELS: Record<ProductSortOption, string> = {
+  newest: 'الأحدث',
+  price_asc: 'السعر: من الأقل',
+  price_desc: 'السعر: من الأعلى',
+  rating: 'الأعلى تقييماً',
+  name: 'الاسم',
+};
+
+// Without a sort, searches are ordered by how well products match
+const RELEVANCE = 'relevance';
+
+interface ProductSortSelectProps {
+  value?: ProductSortOption;
+  isSearch?: boolean;
+}
+
+export default function ProductSortSelect({ value, isSearch = false }: ProductSortSelectProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const handleChange = (sort: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (sort === RELEVANCE) {
+      params.delete('sort');
+    } else {
+      params.set('sort', sort);
+    }
+    params.delete('page');
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  return (
+    <Select value={value ?? (isSearch ? RELEVANCE : 'newest')} onValueChange={handleChange}>
+      <SelectTrigger className='w-48'>
+        <SelectValue placeholder='الترتيب' />
+      </SelectTrigger>
+      <SelectContent>
+        {isSearch && <SelectItem value={RELEVANCE}>الأكثر صلة</SelectItem>}
+        {(Object.keys(SORT_LABELS) as ProductSortOption[]).map(option => (
+          <SelectItem key={option} value={option}>
+            {SORT_LABELS[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { AddToCartButton } from '@/components/ui/add-to-cart-button';
+import type { ProductVariant } from '@/types/business';
+import { useState } from 'react';
+
+interface ProductVariantPickerProps {
+  productId: string;
+  productName: string;
+  // Used when the product is not sold in variants
+  price: number;
+  stock: number;
+  variants: ProductVariant[];
+}
+
+function formatWeight(grams: number): string {
+  return grams >= 1000 ? `${grams / 1000} كغ` : `${grams} غ`;
+}
+
+export default function ProductVariantPicker({
+  productId,
+  productName,
+  price,
+  stock,
+  variants,
+}: ProductVariantPickerProps) {
+  // Start on the first size in stock so the shopper can add to cart right away
+  const [variantId, setVariantId] = useState(() => (variants.find(variant => variant.stock > 0) ?? variants[0])?.id);
+
+  const selected = variants.find(variant => variant.id === variantId);
+  const currentPrice = selected ? selected.price : price;
+  const currentStock = selected ? selected.stock : stock;
+
+  return (
+    <div className='space-y-6'>
+      {variants.length > 0 && (
+        <div>
+          <p className='text-sm font-medium text-gray-700 mb-2'>الحجم</p>
+          <div className='flex flex-wrap gap-2'>
+            {variants.map(variant => (
+              <button
+                key={variant.id}
+                type='button'
+                onClick={() => setVariantId(variant.id)}
+                disabled={variant.stock === 0}
+                className={`rounded-full border px-4 py-2 text-sm transition-colors disabled:opacity-50 ${
+                  variant.id === variantId ? 'border-honey bg-honey text-white' : 'border-gray-300 hover:border-honey'
+                }`}
+              >
+                {variant.name}
+                {variant.weightGrams && variant.name !== formatWeight(variant.weightGrams) && (
+                  <span className='mr-1 text-xs opacity-80'>({formatWeight(variant.weightGrams)})</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className='flex items-center justify-between'>
+        <span className='text-2xl font-bold text-honey'>{currentPrice} د.ت</span>
+        <span className={`text-sm ${currentStock > 0 ? 'text-green-700' : 'text-red-700'}`}>
+          {currentStock > 0 ? `متوفر (${currentStock})` : 'غير متوفر حالياً'}
+        </span>
+      </div>
+
+      <AddToCartButton
+        productId={productId}
+        productName={selected ? `${productName} (${selected.name})` : productName}
+        variantId={selected?.id}
+        disabled={currentStock === 0}
+        className='bg-honey hover:bg-honey-dark text-white rounded-full'
+        size='lg'
+        showQuantityControls
+      />
+    </div>
+  );
+}
@@ -1,2 +1,5 @@
 // Product business components
-// TODO: Add product components when they are created
+export { default as ProductVariantPicker } from './ProductVariantPicker';
+export { default as ProductImageGallery, type GalleryImage } from './ProductImageGallery';
+export { default as ProductSearchBar } from './ProductSearchBar';
+export { default as ProductSortSelect } from './ProductSortSelect';
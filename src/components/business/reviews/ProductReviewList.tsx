@@ -0,0 +1,117 @@
+import { Badge } from '@/components/ui/badge';
+import type { ProductReviews, ReviewSortOption } from '@/services/reviews';
+import { BadgeCheck } from 'lucide-react';
+import Link from 'next/link';
+import RatingStars from './RatingStars';
+
+interface ProductReviewListProps {
+  productId: string;
+  reviews: ProductReviews;
+  sortBy: ReviewSortOption;
+}
+
+const SORT_OPTIONS: { value: ReviewSortOption; label: string }[] = [
+  { value: 'newest', label: 'الأحدث' },
+  { value: 'highest', label: 'الأعلى تقييماً' },
+  { value: 'lowest', label: 'الأقل تقييماً' },
+  { value: 'verified', label: 'المشترون الموثّقون أولاً' },
+];
+
+function reviewsHref(productId: string, sortBy: ReviewSortOption, page = 1): string {
+  const params = new URLSearchParams({ reviewSort: sortBy });
+  if (page > 1) {
+    params.set('reviewPage', String(page));
+  }
+  return `/products/${productId}?${params.toString()}#reviews`;
+}
+
+export default function ProductReviewList({ productId, reviews, sortBy }: ProductReviewListProps) {
+  const { data, pagination, averageRating, ratingCounts } = reviews;
+
+  if (pagination.total === 0) {
+    return <p className='text-sm text-gray-600'>لا توجد مراجعات لهذا المنتج بعد. كن أول من يشارك رأيه.</p>;
+  }
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex flex-col md:flex-row gap-6'>
+        <div className='text-center md:w-48'>
+          <p className='text-4xl font-bold'>{averageRating?.toFixed(1)}</p>
+          <div className='flex justify-center my-2'>
+            <RatingStars rating={averageRating ?? 0} />
+          </div>
+          <p className='text-sm text-gray-600'>{pagination.total} مراجعة</p>
+        </div>
+        <div className='flex-1 space-y-1'>
+          {[5, 4, 3, 2, 1].map(star => {
+            const share = pagination.total > 0 ? (ratingCounts[star] / pagination.total) * 100 : 0;
+            return (
+              <div key={star} className='flex items-center gap-2 text-sm'>
+                <span className='w-12'>{star} نجوم</span>
+                <div className='flex-1 h-2 rounded bg-gray-200 overflow-hidden'>
+                  <div className='h-full bg-yellow-400' style={{ width: `${share}%` }} />
+                </div>
+                <span className='w-8 text-gray-600'>{ratingCounts[star]}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className='flex flex-wrap gap-2 text-sm'>
+        <span className='text-gray-600'>ترتيب حسب:</span>
+        {SORT_OPTIONS.map(option => (
+          <Link
+            key={option.value}
+            href={reviewsHref(productId, option.value)}
+            scroll={false}
+            className={option.value === sortBy ? 'font-semibold text-honey-dark underline' : 'text-gray-700'}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+
+      <ul className='space-y-4'>
+        {data.map(review => (
+          <li key={review.id} className='border-b pb-4 last:border-0'>
+            <div className='flex flex-wrap items-center gap-2 mb-1'>
+              <RatingStars rating={review.rating} />
+              {review.title && <span className='font-semibold'>{review.title}</span>}
+            </div>
+            <div className='flex flex-wrap items-center gap-2 text-sm text-gray-600 mb-2'>
+              <span>{review.customerName || 'عميل'}</span>
+              <span>·</span>
+              <span>{new Date(review.createdAt).toLocaleDateString('ar-TN')}</span>
+              {review.isVerified && (
+                <Badge variant='secondary' className='gap-1'>
+                  <BadgeCheck className='w-3 h-3' />
+                  مشترٍ موثّق
+                </Badge>
+              )}
+            </div>
+            {review.comment && <p className='text-gray-800 whitespace-pre-line'>{review.comment}</p>}
+          </li>
+        ))}
+      </ul>
+
+      {pagination.totalPages > 1 && (
+        <div className='flex justify-center gap-4 text-sm'>
+          {pagination.page > 1 && (
+            <Link href={reviewsHref(productId, sortBy, pagination.page - 1)} scroll={false}>
+              السابق
+            </Link>
+          )}
+          <span className='text-gray-600'>
+            صفحة {pagination.page} من {pagination.totalPages}
+          </span>
+          {pagination.page < pagination.totalPages && (
+            <Link href={reviewsHref(productId, sortBy, pagination.page + 1)} scroll={false}>
+              التالي
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Star } from 'lucide-react';
+
+interface RatingStarsProps {
+  rating: number;
+  className?: string;
+}
+
+// Read-only stars; half ratings round to the nearest whole star
+export default function RatingStars({ rating, className = 'w-4 h-4' }: RatingStarsProps) {
+  const filled = Math.round(rating);
+
+  return (
+    <div className='flex items-center gap-0.5' aria-label={`${rating.toFixed(1)} من 5`}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          className={`${className} ${star <= filled ? 'text-yellow-400' : 'text-gray-300'}`}
+          fill={star <= filled ? 'currentColor' : 'none'}
+        />
+      ))}
+    </div>
+  );
+}
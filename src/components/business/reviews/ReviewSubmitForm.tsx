@@ -0,0 +1,77 @@
+'use client';
+
+import { submitReview } from '@/actions/reviewActions';
+import { ReviewForm } from '@/components/forms/review-form';
+import { Button } from '@/components/ui/button';
+import type { ReviewFormInput } from '@/lib/validation';
+import type { Review } from '@/types/business';
+import { ReviewStatus } from '@/types/enums';
+import Link from 'next/link';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface ReviewSubmitFormProps {
+  productId: string;
+  productName: string;
+  isSignedIn: boolean;
+  // The customer's review of this product, whatever its moderation status
+  existingReview: Review | null;
+}
+
+const STATUS_MESSAGES: Record<ReviewStatus, string> = {
+  [ReviewStatus.PENDING]: 'شكراً لمراجعتك! ستظهر بعد موافقة فريقنا عليها.',
+  [ReviewStatus.APPROVED]: 'لقد قمت بمراجعة هذا المنتج. شكراً لمشاركتك!',
+  [ReviewStatus.REJECTED]: 'لم يتم نشر مراجعتك لأنها لا تتوافق مع سياسة المراجعات.',
+};
+
+export default function ReviewSubmitForm({
+  productId,
+  productName,
+  isSignedIn,
+  existingReview,
+}: ReviewSubmitFormProps) {
+  const [status, setStatus] = useState<ReviewStatus | null>(existingReview?.status ?? null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isSignedIn) {
+    return (
+      <p className='text-sm text-gray-600'>
+        <Link href={`/auth/login?redirect=/products/${productId}`} className='text-honey-dark underline'>
+          سجّل الدخول
+        </Link>{' '}
+        لكتابة مراجعة.
+      </p>
+    );
+  }
+
+  if (status) {
+    return <p className='text-sm text-gray-700 bg-gray-50 rounded-md p-3'>{STATUS_MESSAGES[status]}</p>;
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant='outline' onClick={() => setIsOpen(true)}>
+        اكتب مراجعة
+      </Button>
+    );
+  }
+
+  const handleSubmit = async (data: ReviewFormInput) => {
+    const result = await submitReview(data);
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    toast.success('تم إرسال مراجعتك', { description: 'ستظهر بعد الموافقة عليها' });
+    setStatus(ReviewStatus.PENDING);
+  };
+
+  return (
+    <ReviewForm
+      productId={productId}
+      productName={productName}
+      onSubmit={handleSubmit}
+      onCancel={() => setIsOpen(false)}
+    />
+  );
+}
@@ -0,0 +1,4 @@
+// Review business components
+export { default as RatingStars } from './RatingStars';
+export { default as ProductReviewList } from './ProductReviewList';
+export { default as ReviewSubmitForm } from './ReviewSubmitForm';
@@ -136,25 +136,69 @@ export function SearchForm({
 interface CompactSearchFormProps {
   onSubmit: (query: string) => Promise<void>;
   placeholder?: string;
+  initialQuery?: string;
+  // Called as the shopper types (debounced) to show autocomplete suggestions
+  fetchSuggestions?: (query: string) => Promise<string[]>;
   className?: string;
 }
 
-export function CompactSearchForm({ onSubmit, placeholder = 'ابحث...', className = '' }: CompactSearchFormProps) {
-  const [query, setQuery] = React.useState('');
+const SUGGESTIONS_DEBOUNCE_MS = 250;
+
+export function CompactSearchForm({
+  onSubmit,
+  placeholder = 'ابحث...',
+  initialQuery = '',
+  fetchSuggestions,
+  className = '',
+}: CompactSearchFormProps) {
+  const [query, setQuery] = React.useState(initialQuery);
   const [isLoading, setIsLoading] = React.useState(false);
+  const [suggestions, setSuggestions] = React.useState<string[]>([]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!query.trim()) return;
+  React.useEffect(() => {
+    if (!fetchSuggestions || query.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await fetchSuggestions(query.trim());
+        if (!cancelled) setSuggestions(results);
+      } catch {
+        if (!cancelled) setSuggestions([]);
+      }
+    }, SUGGESTIONS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, fetchSuggestions]);
 
+  const submitQuery = async (value: string) => {
+    if (!value.trim()) return;
+
+    setSuggestions([]);
     setIsLoading(true);
     try {
-      await onSubmit(query.trim());
+      await onSubmit(value.trim());
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await submitQuery(query);
+  };
+
+  const handleSuggestionClick = async (suggestion: string) => {
+    setQuery(suggestion);
+    await submitQuery(suggestion);
+  };
+
   return (
     <form onSubmit={handleSubmit} className={`flex gap-2 ${className}`}>
       <div className='flex-1 relative'>
@@ -167,6 +211,7 @@ export function CompactSearchForm({ onSubmit, placeholder = 'ابحث...', class
           dir='auto'
         />
         <Search className='absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4' />
+        <SearchSuggestions query={query} suggestions={suggestions} onSuggestionClick={handleSuggestionClick} />
       </div>
 
       <Button type='submit' disabled={!query.trim() || isLoading} size='sm'>
@@ -7,7 +7,7 @@ import Link from 'next/link';
 // import { createClientComponent } from '@/lib/supabase/client'; // Keep for signOut - Removed
 import { useSession } from '@/context/SessionProvider'; // Import useSession hook
 import { createClient } from '@/lib/supabase/client';
-import { ShoppingCart, User } from 'lucide-react';
+import { Heart, ShoppingCart, User } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react'; // Keep useState, add useEffect back just in case, though likely not needed for session
 
@@ -22,6 +22,7 @@ const navLinkBaseClasses =
 // Navigation links with icons for better visual hierarchy
 const navigationLinks = [
   { href: '/products', label: 'المنتجات', icon: null },
+  { href: '/wishlist', label: 'المفضلة', icon: <Heart className='h-4 w-4' /> },
   { href: '/cart', label: 'السلة', icon: <ShoppingCart className='h-4 w-4' />, showBadge: true },
   { href: '/profile', label: 'حسابي', icon: <User className='h-4 w-4' /> },
 ];
@@ -154,8 +155,8 @@ export function SiteHeader() {
             // Determine the correct href for profile/admin link
             const profileHref = link.href === '/profile' ? (isAdmin ? '/admin' : '/profile') : link.href;
 
-            // Hide profile link if user is admin OR if user is not logged in
-            if (link.href === '/profile' && (isAdmin || !session)) {
+            // Hide profile and wishlist links if user is admin OR if user is not logged in
+            if ((link.href === '/profile' || link.href === '/wishlist') && (isAdmin || !session)) {
               return null;
             }
             // Hide products link if user is admin
@@ -234,8 +235,8 @@ export function SiteHeader() {
                 // Determine the correct href for profile/admin link
                 const profileHref = link.href === '/profile' ? (isAdmin ? '/admin' : '/profile') : link.href;
 
-                // Hide profile link if user is admin OR if user is not logged in
-                if (link.href === '/profile' && (isAdmin || !session)) {
+                // Hide profile and wishlist links if user is admin OR if user is not logged in
+                if ((link.href === '/profile' || link.href === '/wishlist') && (isAdmin || !session)) {
                   return null;
                 }
                 // Hide products link if user is admin
@@ -2,7 +2,6 @@
 
 import { Button } from '@/components/ui/button';
 import { useCart } from '@/context/CartProvider';
-import { useSession } from '@/context/SessionProvider';
 import { Loader2, Minus, Plus, ShoppingCart } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
@@ -10,6 +9,9 @@ import { toast } from 'sonner';
 interface AddToCartButtonProps {
   productId: string;
   productName: string;
+  // Size chosen for products sold in variants (not to be confused with the button variant)
+  variantId?: string;
+  disabled?: boolean;
   className?: string;
   variant?: 'default' | 'outline' | 'secondary';
   size?: 'sm' | 'default' | 'lg';
@@ -19,32 +21,28 @@ interface AddToCartButtonProps {
 export function AddToCartButton({
   productId,
   productName,
+  variantId,
+  disabled = false,
   className,
   variant = 'default',
   size = 'default',
   showQuantityControls = false,
 }: AddToCartButtonProps) {
-  const { session } = useSession();
   const { addToCart, cart } = useCart();
   const [quantity, setQuantity] = useState(1);
   const [isAdding, setIsAdding] = useState(false);
 
   // Vérifier si le produit est déjà dans le panier
-  const cartItem = cart?.items?.find(item => item.productId === productId);
+  const cartItem = cart?.items?.find(
+    item => item.productId === productId && (item.variantId ?? null) === (variantId ?? null)
+  );
   const currentQuantity = cartItem?.quantity || 0;
 
   const handleAddToCart = async () => {
-    if (!session) {
-      toast.error('يجب تسجيل الدخول أولاً', {
-        description: 'قم بتسجيل الدخول لإضافة المنتجات إلى السلة',
-      });
-      return;
-    }
-
     setIsAdding(true);
 
     try {
-      const success = await addToCart(productId, quantity);
+      const success = await addToCart(productId, quantity, variantId);
 
       if (success) {
         toast.success('تم إضافة المنتج إلى السلة', {
@@ -105,7 +103,13 @@ export function AddToCartButton({
         </div>
 
         {/* زر الإضافة */}
-        <Button onClick={handleAddToCart} disabled={isAdding} variant={variant} size={size} className={className}>
+        <Button
+          onClick={handleAddToCart}
+          disabled={isAdding || disabled}
+          variant={variant}
+          size={size}
+          className={className}
+        >
           {isAdding ? <Loader2 className='h-4 w-4 animate-spin ml-2' /> : <ShoppingCart className='h-4 w-4 ml-2' />}
           {isAdding ? 'جاري الإضافة...' : 'أضف للسلة'}
         </Button>
@@ -114,7 +118,13 @@ export function AddToCartButton({
   }
 
   return (
-    <Button onClick={handleAddToCart} disabled={isAdding} variant={variant} size={size} className={className}>
+    <Button
+      onClick={handleAddToCart}
+      disabled={isAdding || disabled}
+      variant={variant}
+      size={size}
+      className={className}
+    >
       {isAdding ? <Loader2 className='h-4 w-4 animate-spin ml-2' /> : <ShoppingCart className='h-4 w-4 ml-2' />}
       {isAdding ? 'جاري الإضافة...' : currentQuantity > 0 ? `في السلة (${currentQuantity})` : 'أضف للسلة'}
     </Button>
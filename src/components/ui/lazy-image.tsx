@@ -1,9 +1,15 @@
 'use client';
 
+import { createVariantLoader } from '@/lib/utils/image-variants';
+import type { ImageVariant } from '@/types/business';
 import Image from 'next/image';
-import { memo, useState } from 'react';
+import { memo, useMemo, useState } from 'react';
 import { Skeleton } from './skeleton';
 
+// Generic blur shown when the image has no placeholder of its own
+const DEFAULT_BLUR_DATA_URL =
+  'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAYEBQYFBAYGBQYHBwYIChAKCgkJChQODwwQFxQYGBcUFhYaHSUfGhsjHBYWICwgIyYnKSopGR8tMC0oMCUoKSj/2wBDAQcHBwoIChMKChMoGhYaKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCj/wAARCAAIAAoDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAv/xAAhEAACAQMDBQAAAAAAAAAAAAABAgMABAUGIWGRkqGx0f/EABUBAQEAAAAAAAAAAAAAAAAAAAMF/8QAGhEAAgIDAAAAAAAAAAAAAAAAAAECEgMRkf/aAAwDAQACEQMRAD8AltJagyeH0AthI5xdrLcNM91BF5pX2HaH9bcfaSXWGaRmknyJckliyjqTzSlT54b6bk+h0R//2Q==';
+
 interface LazyImageProps {
   src: string;
   alt: string;
@@ -11,47 +17,55 @@ interface LazyImageProps {
   fill?: boolean;
   sizes?: string;
   priority?: boolean;
+  // Resized copies stored at upload; the srcset is built from them instead of the optimizer
+  variants?: ImageVariant[];
+  blurDataUrl?: string;
 }
 
-const LazyImage = memo<LazyImageProps>(({ src, alt, className, fill = false, sizes, priority = false }) => {
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
+const LazyImage = memo<LazyImageProps>(
+  ({ src, alt, className, fill = false, sizes, priority = false, variants, blurDataUrl }) => {
+    const [isLoading, setIsLoading] = useState(true);
+    const [hasError, setHasError] = useState(false);
+
+    const loader = useMemo(() => (variants?.length ? createVariantLoader(variants) : undefined), [variants]);
 
-  const handleLoad = () => {
-    setIsLoading(false);
-  };
+    const handleLoad = () => {
+      setIsLoading(false);
+    };
 
-  const handleError = () => {
-    setIsLoading(false);
-    setHasError(true);
-  };
+    const handleError = () => {
+      setIsLoading(false);
+      setHasError(true);
+    };
+
+    if (hasError) {
+      return (
+        <div className={`bg-gray-200 flex items-center justify-center ${className}`}>
+          <span className='text-gray-500 text-sm'>Image not available</span>
+        </div>
+      );
+    }
 
-  if (hasError) {
     return (
-      <div className={`bg-gray-200 flex items-center justify-center ${className}`}>
-        <span className='text-gray-500 text-sm'>Image not available</span>
-      </div>
+      <>
+        {isLoading && <Skeleton className={`absolute inset-0 ${className}`} />}
+        <Image
+          src={src}
+          alt={alt}
+          fill={fill}
+          sizes={sizes}
+          className={`${className} ${isLoading ? 'opacity-0' : 'opacity-100'} transition-opacity duration-300`}
+          loader={loader}
+          loading={priority ? 'eager' : 'lazy'}
+          placeholder='blur'
+          blurDataURL={blurDataUrl || DEFAULT_BLUR_DATA_URL}
+          onLoad={handleLoad}
+          onError={handleError}
+        />
+      </>
     );
   }
-
-  return (
-    <>
-      {isLoading && <Skeleton className={`absolute inset-0 ${className}`} />}
-      <Image
-        src={src}
-        alt={alt}
-        fill={fill}
-        sizes={sizes}
-        className={`${className} ${isLoading ? 'opacity-0' : 'opacity-100'} transition-opacity duration-300`}
-        loading={priority ? 'eager' : 'lazy'}
-        placeholder='blur'
-        blurDataURL='data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAYEBQYFBAYGBQYHBwYIChAKCgkJChQODwwQFxQYGBcUFhYaHSUfGhsjHBYWICwgIyYnKSopGR8tMC0oMCUoKSj/2wBDAQcHBwoIChMKChMoGhYaKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCj/wAARCAAIAAoDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAv/xAAhEAACAQMDBQAAAAAAAAAAAAABAgMABAUGIWGRkqGx0f/EABUBAQEAAAAAAAAAAAAAAAAAAAMF/8QAGhEAAgIDAAAAAAAAAAAAAAAAAAECEgMRkf/aAAwDAQACEQMRAD8AltJagyeH0AthI5xdrLcNM91BF5pX2HaH9bcfaSXWGaRmknyJckliyjqTzSlT54b6bk+h0R//2Q=='
-        onLoad={handleLoad}
-        onError={handleError}
-      />
-    </>
-  );
-});
+);
 
 LazyImage.displayName = 'LazyImage';
 
@@ -1,7 +1,9 @@
 'use client';
 
+import { createVariantLoader } from '@/lib/utils/image-variants';
+import type { ImageVariant } from '@/types/business';
 import Image from 'next/image';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 
 interface OptimizedImageProps {
   src: string;
@@ -13,6 +15,9 @@ interface OptimizedImageProps {
   priority?: boolean;
   sizes?: string;
   fallbackSrc?: string;
+  // Resized copies stored at upload; the srcset is built from them instead of the optimizer
+  variants?: ImageVariant[];
+  blurDataUrl?: string;
 }
 
 export function OptimizedImage({
@@ -25,11 +30,15 @@ export function OptimizedImage({
   priority = false,
   sizes,
   fallbackSrc = '/images/placeholder.svg',
+  variants,
+  blurDataUrl,
 }: OptimizedImageProps) {
   const [imgSrc, setImgSrc] = useState(src);
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
 
+  const loader = useMemo(() => (variants?.length ? createVariantLoader(variants) : undefined), [variants]);
+
   const handleError = () => {
     if (imgSrc !== fallbackSrc) {
       setImgSrc(fallbackSrc);
@@ -61,6 +70,9 @@ export function OptimizedImage({
         alt={alt}
         {...imageProps}
         priority={priority}
+        loader={hasError ? undefined : loader}
+        placeholder={blurDataUrl ? 'blur' : 'empty'}
+        blurDataURL={blurDataUrl}
         className={`transition-opacity duration-300 ${isLoading ? 'opacity-0' : 'opacity-100'} ${className || ''}`}
         onLoad={handleLoad}
         onError={handleError}
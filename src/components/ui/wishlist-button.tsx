@@ -0,0 +1,77 @@
+'use client';
+
+import { toggleWishlistItem } from '@/actions/wishlistActions';
+import { Button } from '@/components/ui/button';
+import { useSession } from '@/context/SessionProvider';
+import { cn } from '@/lib/utils';
+import { Heart, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface WishlistButtonProps {
+  productId: string;
+  productName: string;
+  // Whether the product is already in the customer's wishlist when the page renders
+  initialWishlisted?: boolean;
+  className?: string;
+}
+
+export function WishlistButton({ productId, productName, initialWishlisted = false, className }: WishlistButtonProps) {
+  const { session } = useSession();
+  const [wishlisted, setWishlisted] = useState(initialWishlisted);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = async () => {
+    if (!session) {
+      toast.error('يجب تسجيل الدخول أولاً', {
+        description: 'قم بتسجيل الدخول لحفظ المنتجات في المفضلة',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const result = await toggleWishlistItem(productId, wishlisted);
+
+      if (result.success) {
+        setWishlisted(result.wishlisted);
+        toast.success(result.wishlisted ? 'تمت الإضافة إلى المفضلة' : 'تمت الإزالة من المفضلة', {
+          description: productName,
+        });
+      } else {
+        toast.error('فشل في تحديث المفضلة', {
+          description: 'حدث خطأ أثناء تحديث قائمة المفضلة',
+        });
+      }
+    } catch (error) {
+      console.error('خطأ في تحديث المفضلة:', error);
+      toast.error('فشل في تحديث المفضلة', {
+        description: 'حدث خطأ غير متوقع',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type='button'
+      variant='ghost'
+      size='icon'
+      onClick={handleToggle}
+      disabled={isSaving}
+      aria-pressed={wishlisted}
+      aria-label={wishlisted ? 'إزالة من المفضلة' : 'إضافة إلى المفضلة'}
+      className={cn('rounded-full', className)}
+    >
+      {isSaving ? (
+        <Loader2 className='h-5 w-5 animate-spin' />
+      ) : (
+        <Heart className={cn('h-5 w-5', wishlisted ? 'fill-red-500 text-red-500' : 'text-gray-500')} />
+      )}
+    </Button>
+  );
+}
+
+export default WishlistButton;
@@ -1,5 +1,12 @@
 'use client';
 
+import {
+  addItemToCart,
+  clearCart as clearCartAction,
+  getGuestCart,
+  removeCartItem,
+  updateCartItemQuantity,
+} from '@/actions/cartActions';
 import { Cart, CartItem } from '@/types/business';
 import { CartStatus, ProductStatus } from '@/types/enums';
 import { createBrowserClient } from '@supabase/ssr';
@@ -12,7 +19,7 @@ interface CartContextType {
   cartItemCount: number;
   loading: boolean;
   error: string | null;
-  addToCart: (productId: string, quantity: number) => Promise<boolean>;
+  addToCart: (productId: string, quantity: number, variantId?: string) => Promise<boolean>;
   updateCartItem: (itemId: string, quantity: number) => Promise<boolean>;
   removeFromCart: (itemId: string) => Promise<boolean>;
   clearCart: () => Promise<boolean>;
@@ -30,8 +37,22 @@ interface SupabaseCartItem {
   id: string;
   cart_id: string;
   product_id: string | null;
+  variant_id: string | null;
   quantity: number;
   created_at: string;
+  product_variants: {
+    id: string;
+    product_id: string;
+    sku: string;
+    name: string;
+    weight_grams: number | null;
+    price: number;
+    stock: number;
+    sort_order: number;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+  } | null;
   products: {
     id: string;
     name: string;
@@ -65,8 +86,51 @@ export function CartProvider({ children }: CartProviderProps) {
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
   );
 
+  // Visitors who are not signed in have a guest cart, which only the server can read and change
+  const loadGuestCart = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setCart(await getGuestCart());
+    } catch (err) {
+      console.error('Error loading guest cart:', err);
+      setError('Error loading cart');
+      setCart(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeGuestCart = async (
+    change: () => Promise<{ success: boolean; message: string }>,
+    failure: string
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const result = await change();
+      if (!result.success) {
+        setError(result.message || failure);
+        return false;
+      }
+
+      await loadGuestCart();
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(failure);
+      return false;
+    }
+  };
+
   const loadCart = async () => {
-    if (!session?.user?.id || sessionLoading || isAdmin) return;
+    if (sessionLoading || isAdmin) return;
+
+    if (!session?.user?.id) {
+      await loadGuestCart();
+      return;
+    }
 
     setLoading(true);
     setError(null);
@@ -83,8 +147,22 @@ export function CartProvider({ children }: CartProviderProps) {
             id,
             cart_id,
             product_id,
+            variant_id,
             quantity,
             created_at,
+            product_variants (
+              id,
+              product_id,
+              sku,
+              name,
+              weight_grams,
+              price,
+              stock,
+              sort_order,
+              is_active,
+              created_at,
+              updated_at
+            ),
             products (
               id,
               name,
@@ -108,13 +186,30 @@ export function CartProvider({ children }: CartProviderProps) {
         
         const items: CartItem[] = (cartRow.cart_items ?? []).map((item): CartItem => {
           const product = item.products;
-          const unitPrice = product?.price ?? 0;
+          const variant = item.product_variants;
+          const unitPrice = variant?.price ?? product?.price ?? 0;
           const productId = item.product_id ?? '';
 
           return {
             id: item.id,
             cartId: cartRow.id,
             productId,
+            variantId: variant?.id,
+            variant: variant
+              ? {
+                  id: variant.id,
+                  productId: variant.product_id,
+                  sku: variant.sku,
+                  name: variant.name,
+                  weightGrams: variant.weight_grams ?? undefined,
+                  price: variant.price,
+                  stock: variant.stock,
+                  sortOrder: variant.sort_order,
+                  isActive: variant.is_active,
+                  createdAt: new Date(variant.created_at),
+                  updatedAt: new Date(variant.updated_at),
+                }
+              : undefined,
             quantity: item.quantity,
             unitPrice,
             totalPrice: unitPrice * item.quantity,
@@ -205,14 +300,18 @@ export function CartProvider({ children }: CartProviderProps) {
     await loadCart();
   };
 
-  const addToCart = async (productId: string, quantity: number): Promise<boolean> => {
+  const addToCart = async (productId: string, quantity: number, variantId?: string): Promise<boolean> => {
     if (isAdmin) {
       setError('Cart not available for administrators');
       return false;
     }
 
-    if (!session?.user?.id || !cart) {
-      setError('You must be logged in');
+    if (!session?.user?.id) {
+      return changeGuestCart(() => addItemToCart(productId, quantity, variantId), 'Error adding to cart');
+    }
+
+    if (!cart) {
+      setError('Error loading cart');
       return false;
     }
 
@@ -220,7 +319,10 @@ export function CartProvider({ children }: CartProviderProps) {
     setLoading(true);
 
     try {
-      const existingItem = cart.items.find((item) => item.productId === productId);
+      // Each size of a product is its own cart line
+      const existingItem = cart.items.find(
+        (item) => item.productId === productId && (item.variantId ?? null) === (variantId ?? null)
+      );
 
       if (existingItem) {
         const newQuantity = existingItem.quantity + quantity;
@@ -235,6 +337,7 @@ export function CartProvider({ children }: CartProviderProps) {
           {
             cart_id: cart.id,
             product_id: productId,
+            variant_id: variantId ?? null,
             quantity,
           },
         ]);
@@ -260,8 +363,7 @@ export function CartProvider({ children }: CartProviderProps) {
     }
 
     if (!session?.user?.id) {
-      setError('You must be logged in');
-      return false;
+      return changeGuestCart(() => updateCartItemQuantity(itemId, quantity), 'Error updating item');
     }
 
     setError(null);
@@ -294,8 +396,7 @@ export function CartProvider({ children }: CartProviderProps) {
     }
 
     if (!session?.user?.id) {
-      setError('You must be logged in');
-      return false;
+      return changeGuestCart(() => removeCartItem(itemId), 'Error removing item');
     }
 
     setError(null);
@@ -315,8 +416,12 @@ export function CartProvider({ children }: CartProviderProps) {
   };
 
   const clearCart = async (): Promise<boolean> => {
-    if (!session?.user?.id || !cart) {
-      setError('You must be logged in');
+    if (!session?.user?.id) {
+      return changeGuestCart(() => clearCartAction(), 'Error clearing cart');
+    }
+
+    if (!cart) {
+      setError('Error loading cart');
       return false;
     }
 
@@ -339,12 +444,10 @@ export function CartProvider({ children }: CartProviderProps) {
     }
   };
 
+  // Signed-in customers get their account cart, visitors their guest cart
   useEffect(() => {
-    if (session?.user?.id && !sessionLoading) {
+    if (!sessionLoading) {
       loadCart();
-    } else if (!session && !sessionLoading) {
-      setCart(null);
-      setError(null);
     }
   }, [session?.user?.id, sessionLoading]);
 
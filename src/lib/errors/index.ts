@@ -42,6 +42,9 @@ export {
   wrapSync,
 } from './error-handler';
 
+// Service results
+export { toErrorResult } from './service-result';
+
 // React error boundary
 export { AsyncErrorBoundary, ErrorBoundary, useErrorHandler, withErrorBoundary } from './error-boundary';
 
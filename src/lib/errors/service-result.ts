@@ -0,0 +1,27 @@
+import { ServiceResult } from '@/types/common';
+import { BusinessError, ValidationError } from './custom-errors';
+
+/**
+ * The failed ServiceResult for an error caught in a service method. Business
+ * and validation errors keep their message and code; anything else is
+ * reported with the given message as UNKNOWN_ERROR.
+ */
+export function toErrorResult(error: unknown, message: string): ServiceResult<never> {
+  if (error instanceof BusinessError || error instanceof ValidationError) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    };
+  }
+
+  return {
+    success: false,
+    error: {
+      message,
+      code: 'UNKNOWN_ERROR',
+    },
+  };
+}
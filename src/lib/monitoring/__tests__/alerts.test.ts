@@ -0,0 +1,25 @@
+import { alertConfig } from '../alerts';
+
+describe('checkLevelAlert', () => {
+  it('alerts when the level is at or below the rule threshold', () => {
+    const threshold = alertConfig.getRule('low_stock')!.threshold;
+
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-above', threshold + 1)).toBe(false);
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-at', threshold)).toBe(true);
+  });
+
+  it('uses the threshold passed in over the rule default', () => {
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-custom', 20, undefined, 25)).toBe(true);
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-custom-high', 20, undefined, 10)).toBe(false);
+  });
+
+  it('alerts once per subject within the time window', () => {
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-repeat', 0)).toBe(true);
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-repeat', 0)).toBe(false);
+    expect(alertConfig.checkLevelAlert('low_stock', 'product-other', 0)).toBe(true);
+  });
+
+  it('ignores unknown rules', () => {
+    expect(alertConfig.checkLevelAlert('missing_rule', 'product', 0)).toBe(false);
+  });
+});
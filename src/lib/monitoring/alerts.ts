@@ -116,6 +116,19 @@ export class AlertConfig {
           { type: 'log', target: 'warn' },
         ],
       },
+      {
+        name: 'low_stock',
+        condition: 'product_stock <= threshold',
+        threshold: 5,
+        timeWindow: 60,
+        severity: 'medium',
+        enabled: true,
+        description: 'Alert when a product is down to 5 units or fewer',
+        actions: [
+          { type: 'sentry', target: 'business_alert' },
+          { type: 'log', target: 'warn' },
+        ],
+      },
       {
         name: 'database_connection_errors',
         condition: 'db_error_count > threshold',
@@ -202,6 +215,43 @@ export class AlertConfig {
     return false;
   }
 
+  // Check a level that should stay above the threshold (e.g. units left of a
+  // product). Alerts once per subject per time window rather than counting events.
+  public checkLevelAlert(
+    ruleName: string,
+    subject: string,
+    value: number,
+    metadata?: Record<string, any>,
+    threshold?: number
+  ): boolean {
+    const rule = this.rules.get(ruleName);
+    if (!rule || !rule.enabled) {
+      return false;
+    }
+
+    const limit = threshold ?? rule.threshold;
+    if (value > limit) {
+      return false;
+    }
+
+    const key = `${ruleName}_${subject}`;
+    const now = new Date();
+    const previous = this.eventCounts.get(key);
+    if (previous && now.getTime() - previous.windowStart.getTime() <= rule.timeWindow * 60 * 1000) {
+      return false;
+    }
+
+    this.eventCounts.set(key, { count: value, windowStart: now });
+    this.triggerAlert({
+      rule: { ...rule, threshold: limit },
+      value,
+      timestamp: now,
+      metadata: { ...metadata, subject },
+    });
+
+    return true;
+  }
+
   // Trigger alert actions
   private triggerAlert(event: AlertEvent): void {
     logger.warn(`Alert triggered: ${event.rule.name}`, {
@@ -357,6 +407,14 @@ export const checkCartAbandonmentAlert = (abandonmentRate: number, metadata?: Re
 export const checkDatabaseAlert = (errorCount: number, metadata?: Record<string, any>) =>
   alertConfig.checkAlert('database_connection_errors', errorCount, metadata);
 
+// Threshold defaults to the low_stock rule; pass the product's own to override it
+export const checkLowStockAlert = (
+  productId: string,
+  stock: number,
+  threshold?: number,
+  metadata?: Record<string, any>
+) => alertConfig.checkLevelAlert('low_stock', productId, stock, metadata, threshold);
+
 // Start cleanup interval
 if (config.app.environment === 'production') {
   setInterval(() => {
@@ -23,7 +23,8 @@ export {
 // Export alert configuration
 export {
     alertConfig, checkCartAbandonmentAlert,
-    checkDatabaseAlert, checkErrorAlert, checkOrderFailureAlert, checkPerformanceAlert, checkSecurityAlert
+    checkDatabaseAlert, checkErrorAlert, checkLowStockAlert, checkOrderFailureAlert, checkPerformanceAlert,
+    checkSecurityAlert
 } from './alerts';
 
 // Export monitoring middleware
@@ -20,24 +20,15 @@ export const PROTECTED_ROUTES = {
     requiredRole: UserRole.CUSTOMER,
     redirectTo: '/auth/login',
   },
-  
-  // Cart routes
-  '/cart': {
-    requiredRole: UserRole.CUSTOMER,
-    redirectTo: '/auth/login',
-  },
-  
-  // Checkout routes
-  '/checkout': {
-    requiredRole: UserRole.CUSTOMER,
-    redirectTo: '/auth/login',
-  },
 };
 
 // Public routes that don't require authentication
 export const PUBLIC_ROUTES = [
   '/',
   '/products',
+  '/cart', // Visitors have a guest cart
+  '/checkout', // and can check out as guests
+  '/checkout/confirmation/*',
   '/auth/login',
   '/auth/register',
   '/about',
@@ -1,19 +1,21 @@
 import { createServerClient } from '@supabase/ssr';
+import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 
 export type ServerClientMode = 'anon' | 'service_role' | 'readonly';
 
 export async function createClientServer(mode: ServerClientMode = 'anon') {
+  // The service role never sends the visitor's session, which would make it act as them
+  if (mode === 'service_role') {
+    return createServiceRoleClient();
+  }
+
   const cookieStore = await cookies();
 
   let supabaseKey: string;
   let setCookies = true;
 
   switch (mode) {
-    case 'service_role':
-      supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-      if (!supabaseKey) throw new Error('Missing: SUPABASE_SERVICE_ROLE_KEY');
-      break;
     case 'readonly':
       supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
       if (!supabaseKey) throw new Error('Missing: SUPABASE_SERVICE_ROLE_KEY');
@@ -39,6 +41,20 @@ export async function createClientServer(mode: ServerClientMode = 'anon') {
   });
 }
 
+/**
+ * A service role client that sends no session, so it bypasses row level
+ * security whoever is signed in. createClientServer('service_role') returns
+ * the same client.
+ */
+export function createServiceRoleClient() {
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseKey) throw new Error('Missing: SUPABASE_SERVICE_ROLE_KEY');
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, supabaseKey, {
+    auth: { persistSession: false },
+  });
+}
+
 // Legacy exports for backwards compatibility
 export const createClientServerReadOnly = () => createClientServer('readonly');
 export const createClientServerAnon = () => createClientServer('anon');
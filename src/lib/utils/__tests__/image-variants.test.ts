@@ -0,0 +1,59 @@
+import type { ImageVariant } from '@/types/business';
+import { buildSrcSet, createVariantLoader, getVariantWidths, pickImageVariant } from '../image-variants';
+
+const variant = (format: ImageVariant['format'], width: number): ImageVariant => ({
+  format,
+  width,
+  height: Math.round(width * 0.75),
+  url: `https://cdn.test/${width}.${format}`,
+  path: `product/image/${width}.${format}`,
+});
+
+const variants = [variant('webp', 960), variant('avif', 320), variant('webp', 320), variant('webp', 640)];
+
+describe('image-variants', () => {
+  describe('getVariantWidths', () => {
+    it('keeps the standard widths below the image and the image itself', () => {
+      expect(getVariantWidths(1000)).toEqual([320, 640, 960, 1000]);
+    });
+
+    it('caps large images at the largest width', () => {
+      expect(getVariantWidths(4032)).toEqual([320, 640, 960, 1280, 1920]);
+    });
+
+    it('does not repeat a width the image already matches', () => {
+      expect(getVariantWidths(640)).toEqual([320, 640]);
+    });
+  });
+
+  describe('buildSrcSet', () => {
+    it('lists one format, smallest first', () => {
+      expect(buildSrcSet(variants, 'webp')).toBe(
+        'https://cdn.test/320.webp 320w, https://cdn.test/640.webp 640w, https://cdn.test/960.webp 960w'
+      );
+      expect(buildSrcSet(variants, 'avif')).toBe('https://cdn.test/320.avif 320w');
+    });
+  });
+
+  describe('pickImageVariant', () => {
+    it('picks the smallest variant at least as wide as requested', () => {
+      expect(pickImageVariant(variants, 500)?.width).toBe(640);
+      expect(pickImageVariant(variants, 640)?.width).toBe(640);
+    });
+
+    it('falls back to the largest variant', () => {
+      expect(pickImageVariant(variants, 3840)?.width).toBe(960);
+    });
+
+    it('returns nothing when the format has no variants', () => {
+      expect(pickImageVariant([variant('avif', 320)], 320, 'webp')).toBeUndefined();
+    });
+  });
+
+  describe('createVariantLoader', () => {
+    it('maps the requested width to a stored WebP variant', () => {
+      const loader = createVariantLoader(variants);
+      expect(loader({ src: 'https://cdn.test/original.jpg', width: 750 })).toBe('https://cdn.test/960.webp');
+    });
+  });
+});
@@ -0,0 +1,4 @@
+// The site's public address, for links sent in emails and to payment gateways
+export function appUrl(path = ''): string {
+  return `${(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')}${path}`;
+}
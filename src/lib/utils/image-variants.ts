@@ -0,0 +1,69 @@
+/**
+ * Helpers for the resized copies stored for each product image. Shared by
+ * the server pipeline that creates them and the image components that build
+ * srcsets from them, so nothing here may depend on sharp.
+ */
+import type { ImageVariant, ImageVariantFormat } from '@/types/business';
+import type { ImageLoader } from 'next/image';
+
+// Widths generated for each upload; 1920 covers a full-width retina gallery
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// AVIF first: browsers take the first <source> they support
+export const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+// Uploads are resized, so a large phone photo is fine; anything bigger is
+// more likely a mistake than a photo
+export const MAX_PRODUCT_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// Smallest side an upload may have, so thumbnails are not upscaled mush
+export const MIN_PRODUCT_IMAGE_DIMENSION = 300;
+
+// Types accepted by the upload fields; the server checks the file's content
+export const PRODUCT_IMAGE_ACCEPT = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'image/avif': ['.avif'],
+};
+
+/**
+ * The widths to generate for an image of the given width: every standard
+ * width below it, plus the image's own width (capped at the largest) so the
+ * full resolution is kept without upscaling.
+ */
+export function getVariantWidths(sourceWidth: number): number[] {
+  const largest = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1];
+  const widths = IMAGE_VARIANT_WIDTHS.filter(width => width < sourceWidth);
+  return widths.includes(largest) ? widths : [...widths, Math.min(sourceWidth, largest)];
+}
+
+// "url 320w, url 640w, …" for one format, smallest first
+export function buildSrcSet(variants: ImageVariant[], format: ImageVariantFormat): string {
+  return variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * The smallest variant of the format at least as wide as requested, or the
+ * largest one when none is; undefined when the format has no variants.
+ */
+export function pickImageVariant(
+  variants: ImageVariant[],
+  width: number,
+  format: ImageVariantFormat = 'webp'
+): ImageVariant | undefined {
+  const candidates = variants.filter(variant => variant.format === format).sort((a, b) => a.width - b.width);
+  return candidates.find(variant => variant.width >= width) ?? candidates[candidates.length - 1];
+}
+
+/**
+ * A next/image loader serving the stored WebP variants instead of going
+ * through the image optimizer, which would resize them a second time.
+ */
+export function createVariantLoader(variants: ImageVariant[]): ImageLoader {
+  return ({ src, width }) => pickImageVariant(variants, width)?.url ?? src;
+}
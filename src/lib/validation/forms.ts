@@ -144,7 +144,8 @@ export const ProductFormSchema = z.object({
 
 // Review forms
 export const ReviewFormSchema = z.object({
-  rating: z
+  // The rating radio group submits its value as a string
+  rating: z.coerce
     .number()
     .int(ValidationMessages.integer)
     .min(1, 'يجب اختيار تقييم من 1 إلى 5')
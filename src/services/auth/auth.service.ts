@@ -1,11 +1,13 @@
 import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
 import { logger } from '@/lib/logger';
-import { createClientServer } from '@/lib/supabase/server';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
 import { AuthUser, LoginCredentials, RegisterData, User, UserFilters } from '@/types/business';
 import { ServiceResult } from '@/types/common';
 import { UserRole } from '@/types/enums';
 import { Tables } from '@/types/supabase';
 import { User as SupabaseUser } from '@supabase/supabase-js';
+import { orderEmailService } from '../notifications/order-email.service';
+import { EmailLocale } from '../notifications/notifications.types';
 import { AuthService } from './auth.types';
 
 type CustomerRow = Tables<'customers'>;
@@ -284,6 +286,8 @@ export class AuthServiceImpl implements AuthService {
         email: data.email,
         first_name: data.firstName,
         last_name: data.lastName,
+        is_guest: false,
+        preferred_locale: 'ar',
         created_at: new Date().toISOString(),
       });
 
@@ -493,7 +497,7 @@ export class AuthServiceImpl implements AuthService {
     }
   }
 
-  async resetPassword(email: string): Promise<ServiceResult<void>> {
+  async resetPassword(email: string, locale?: EmailLocale): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
@@ -504,20 +508,34 @@ export class AuthServiceImpl implements AuthService {
         throw new ValidationError('Invalid email format', 'email', 'INVALID');
       }
 
-      const supabase = await createClientServer();
-
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${process.env.NEXT_PUBLIC_SITE_URL}/auth/reset-password`,
+      // The link is generated here and sent with the store's own templated email
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase.auth.admin.generateLink({
+        type: 'recovery',
+        email,
+        options: {
+          redirectTo: `${process.env.NEXT_PUBLIC_SITE_URL}/auth/reset-password`,
+        },
       });
 
-      if (error) {
-        logger.error('Failed to send password reset email', error, {
+      // Unknown addresses succeed silently so the form cannot be used to find accounts
+      if (error?.status === 404) {
+        logger.info('Password reset requested for unknown email', { action: 'resetPassword' });
+        return { success: true };
+      }
+      if (error || !data.properties?.action_link) {
+        logger.error('Failed to create password reset link', error ?? undefined, {
           action: 'resetPassword',
           email,
         });
         throw new BusinessError('Failed to send password reset email', 'PASSWORD_RESET_ERROR');
       }
 
+      const sendResult = await orderEmailService.sendPasswordResetEmail(email, data.properties.action_link, locale);
+      if (!sendResult.success) {
+        throw new BusinessError('Failed to send password reset email', 'PASSWORD_RESET_ERROR');
+      }
+
       logger.info('Password reset email sent successfully', {
         action: 'resetPassword',
         email,
@@ -1,5 +1,6 @@
 // Auth service specific types
 import { AuthUser, LoginCredentials, RegisterData, User } from '@/types/business';
+import { EmailLocale } from '../notifications/notifications.types';
 import { ServiceResult } from '@/types/common';
 import { CacheableService, UserSearchFilters } from '@/types/services';
 
@@ -9,7 +10,8 @@ export interface AuthService extends CacheableService {
   signOut(): Promise<ServiceResult<void>>;
   getCurrentUser(): Promise<ServiceResult<AuthUser | null>>;
   refreshSession(): Promise<ServiceResult<AuthUser>>;
-  resetPassword(email: string): Promise<ServiceResult<void>>;
+  // Emails a reset link, in the customer's preferred language unless one is given
+  resetPassword(email: string, locale?: EmailLocale): Promise<ServiceResult<void>>;
   updatePassword(newPassword: string): Promise<ServiceResult<void>>;
   searchUsers(filters?: UserSearchFilters): Promise<ServiceResult<User[]>>;
 }
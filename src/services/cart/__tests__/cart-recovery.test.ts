@@ -0,0 +1,44 @@
+import { buildCartRecoveryMessage, generateRecoveryDiscountCode } from '../cart-recovery';
+
+const INPUT = {
+  email: 'amira@example.com',
+  firstName: 'أميرة',
+  items: [
+    { name: 'عسل السدر', quantity: 2 },
+    { name: 'عسل الزعتر', quantity: 1 },
+  ],
+  value: 135,
+  restoreUrl: 'https://shop.example/cart/restore/3f1c2b8e-6a4d-4e9b-9c7a-1d2e3f4a5b6c',
+};
+
+describe('cart-recovery', () => {
+  it('should address the customer and list their items, total and restore link', () => {
+    const message = buildCartRecoveryMessage(INPUT);
+
+    expect(message.type).toBe('cart_recovery');
+    expect(message.to).toBe('amira@example.com');
+    expect(message.text.startsWith('مرحباً أميرة،')).toBe(true);
+    expect(message.text.includes('- عسل السدر × 2')).toBe(true);
+    expect(message.text.includes('المجموع: 135.00 د.ت')).toBe(true);
+    expect(message.text.endsWith(INPUT.restoreUrl)).toBe(true);
+    expect(message.text.includes('BACK-')).toBe(false);
+  });
+
+  it('should include the coupon and its expiry when one is offered', () => {
+    const message = buildCartRecoveryMessage({
+      ...INPUT,
+      discount: { code: 'BACK-7KQ2M9XA', percent: 10, expiresAt: new Date('2026-10-26T12:00:00Z') },
+    });
+
+    expect(message.text.includes('BACK-7KQ2M9XA')).toBe(true);
+    expect(message.text.includes('10%')).toBe(true);
+    expect(message.text.includes('2026-10-26')).toBe(true);
+  });
+
+  it('should generate upper-case codes without look-alike characters', () => {
+    const code = generateRecoveryDiscountCode();
+
+    expect(/^BACK-[A-HJKMNP-Z2-9]{8}$/.test(code)).toBe(true);
+    expect(code === generateRecoveryDiscountCode()).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { signGuestCartToken, verifyGuestCartToken } from '../guest-cart-token';
+
+const SECRET = 'test-secret';
+const TOKEN = '3f1c2b8e-6a4d-4e9b-9c7a-1d2e3f4a5b6c';
+
+describe('guest-cart-token', () => {
+  it('should return the token from a value it signed', () => {
+    expect(verifyGuestCartToken(signGuestCartToken(TOKEN, SECRET), SECRET)).toBe(TOKEN);
+  });
+
+  it('should reject a value signed with another secret', () => {
+    expect(verifyGuestCartToken(signGuestCartToken(TOKEN, 'other-secret'), SECRET)).toBe(null);
+  });
+
+  it('should reject a signature moved onto another token', () => {
+    const [, signature] = signGuestCartToken(TOKEN, SECRET).split('.');
+    const forged = `9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d.${signature}`;
+    expect(verifyGuestCartToken(forged, SECRET)).toBe(null);
+  });
+
+  it('should reject missing and malformed values', () => {
+    expect(verifyGuestCartToken(undefined, SECRET)).toBe(null);
+    expect(verifyGuestCartToken(TOKEN, SECRET)).toBe(null);
+    expect(verifyGuestCartToken(`${signGuestCartToken(TOKEN, SECRET)}.extra`, SECRET)).toBe(null);
+    expect(verifyGuestCartToken(signGuestCartToken('not-a-uuid', SECRET), SECRET)).toBe(null);
+  });
+});
@@ -0,0 +1,515 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { appUrl } from '@/lib/utils/app-url';
+import { ServiceResult } from '@/types/common';
+import { CartStatus } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationService } from '../notifications/notifications.types';
+import { buildCartRecoveryMessage, generateRecoveryDiscountCode, RECOVERY_DISCOUNT_DAYS } from './cart-recovery';
+import {
+  AbandonedCart,
+  CartRecoveryRunResult,
+  CartRecoveryService,
+  CartRecoverySettings,
+  RestoredCart,
+} from './cart.types';
+
+type CartRow = Tables<'carts'>;
+
+type AbandonedCartRow = CartRow & {
+  customers: Pick<Tables<'customers'>, 'first_name' | 'last_name' | 'email'> | null;
+  cart_items: {
+    quantity: number;
+    products: Pick<Tables<'products'>, 'name' | 'price'> | null;
+    product_variants: Pick<Tables<'product_variants'>, 'price'> | null;
+  }[];
+};
+
+const ABANDONED_CART_SELECT = `
+  *,
+  customers (first_name, last_name, email),
+  cart_items (
+    quantity,
+    products (name, price),
+    product_variants (price)
+  )
+`;
+
+const DEFAULT_IDLE_HOURS = 24;
+
+// Most recovery messages one run of the scheduled job sends
+const RECOVERY_BATCH_SIZE = 50;
+
+function cartValue(row: AbandonedCartRow): number {
+  return row.cart_items.reduce(
+    (sum, item) => sum + (item.product_variants?.price ?? item.products?.price ?? 0) * item.quantity,
+    0
+  );
+}
+
+function mapAbandonedCartRow(row: AbandonedCartRow): AbandonedCart {
+  const customerName = row.customers ? `${row.customers.first_name} ${row.customers.last_name}`.trim() : '';
+
+  return {
+    id: row.id,
+    customerId: row.customer_id || undefined,
+    customerName: customerName || undefined,
+    customerEmail: row.customers?.email || undefined,
+    itemCount: row.cart_items.reduce((sum, item) => sum + item.quantity, 0),
+    value: cartValue(row),
+    lastActivityAt: new Date(row.updated_at),
+    abandonedAt: new Date(row.abandoned_at || row.updated_at),
+    recoverySentAt: row.recovery_sent_at ? new Date(row.recovery_sent_at) : undefined,
+    recoveryDiscountCode: row.recovery_discount_code || undefined,
+  };
+}
+
+function restoreUrl(recoveryToken: string): string {
+  return appUrl(`/cart/restore/${recoveryToken}`);
+}
+
+/**
+ * Abandoned carts and the messages that bring customers back to them. Carts
+ * are marked abandoned by markAbandonedCarts (run on a schedule through
+ * runRecovery); each customer cart gets one recovery message per abandonment,
+ * with a restore link and, when the store offers one, a single-use coupon.
+ * Guest carts are listed but cannot be messaged, having no email.
+ */
+export class CartRecoveryServiceImpl implements CartRecoveryService {
+  constructor(private readonly notifications: NotificationService = notificationService) {}
+
+  async getSettings(): Promise<ServiceResult<CartRecoverySettings>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('abandoned_cart_hours, abandoned_cart_discount_percent, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Failed to fetch abandoned cart settings', error, { action: 'getCartRecoverySettings' });
+        throw new BusinessError('Failed to fetch settings', 'SETTINGS_FETCH_ERROR');
+      }
+
+      return {
+        success: true,
+        data: {
+          idleHours: Number(data?.abandoned_cart_hours) || DEFAULT_IDLE_HOURS,
+          discountPercent:
+            data?.abandoned_cart_discount_percent != null ? Number(data.abandoned_cart_discount_percent) : undefined,
+        },
+      };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in getCartRecoverySettings', error as Error, { action: 'getCartRecoverySettings' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while fetching settings',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async updateSettings(settings: CartRecoverySettings): Promise<ServiceResult<CartRecoverySettings>> {
+    try {
+      if (!Number.isInteger(settings.idleHours) || settings.idleHours <= 0) {
+        throw new ValidationError('Idle period must be a whole number of hours', 'idleHours', 'INVALID');
+      }
+      const { discountPercent } = settings;
+      if (discountPercent !== undefined && !(discountPercent > 0 && discountPercent <= 100)) {
+        throw new ValidationError('Discount must be between 0 and 100 percent', 'discountPercent', 'INVALID');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: existing, error: fetchError } = await supabase
+        .from('store_settings')
+        .select('id, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to fetch store settings', fetchError, { action: 'updateCartRecoverySettings' });
+        throw new BusinessError('Failed to save settings', 'SETTINGS_UPDATE_ERROR');
+      }
+      if (!existing) {
+        throw new BusinessError('Store settings have not been created yet', 'SETTINGS_NOT_FOUND');
+      }
+
+      const { error } = await supabase
+        .from('store_settings')
+        .update({
+          abandoned_cart_hours: settings.idleHours,
+          abandoned_cart_discount_percent: settings.discountPercent ?? null,
+        })
+        .eq('id', existing.id);
+
+      if (error) {
+        logger.error('Failed to update abandoned cart settings', error, { action: 'updateCartRecoverySettings' });
+        throw new BusinessError('Failed to save settings', 'SETTINGS_UPDATE_ERROR');
+      }
+
+      logger.info('Abandoned cart settings updated', {
+        action: 'updateCartRecoverySettings',
+        idleHours: settings.idleHours,
+        discountPercent: settings.discountPercent,
+      });
+
+      return { success: true, data: settings };
+    } catch (error) {
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in updateCartRecoverySettings', error as Error, { action: 'updateCartRecoverySettings' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while saving settings',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // Marks carts idle for longer than the store's idle period as abandoned
+  async markAbandonedCarts(): Promise<ServiceResult<number>> {
+    try {
+      const settingsResult = await this.getSettings();
+      if (!settingsResult.success || !settingsResult.data) {
+        return { success: false, error: settingsResult.error };
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase.rpc('mark_abandoned_carts', {
+        p_idle_hours: settingsResult.data.idleHours,
+      });
+
+      if (error) {
+        logger.error('Failed to mark abandoned carts', error, { action: 'markAbandonedCarts' });
+        throw new BusinessError('Failed to mark abandoned carts', 'CART_ABANDON_ERROR');
+      }
+
+      const marked = Number(data) || 0;
+      if (marked > 0) {
+        logger.info('Carts marked abandoned', {
+          action: 'markAbandonedCarts',
+          marked,
+          idleHours: settingsResult.data.idleHours,
+        });
+      }
+
+      return { success: true, data: marked };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in markAbandonedCarts', error as Error, { action: 'markAbandonedCarts' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while marking abandoned carts',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async getAbandonedCarts(): Promise<ServiceResult<AbandonedCart[]>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('carts')
+        .select(ABANDONED_CART_SELECT)
+        .eq('status', CartStatus.ABANDONED)
+        .order('abandoned_at', { ascending: false })
+        .returns<AbandonedCartRow[]>();
+
+      if (error) {
+        logger.error('Failed to fetch abandoned carts', error, { action: 'getAbandonedCarts' });
+        throw new BusinessError('Failed to fetch abandoned carts', 'CARTS_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapAbandonedCartRow) };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in getAbandonedCarts', error as Error, { action: 'getAbandonedCarts' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while fetching abandoned carts',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async sendRecoveryMessage(cartId: string): Promise<ServiceResult<void>> {
+    try {
+      if (!cartId) {
+        throw new ValidationError('Cart ID is required', 'cartId', 'REQUIRED');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: row, error } = await supabase
+        .from('carts')
+        .select(ABANDONED_CART_SELECT)
+        .eq('id', cartId)
+        .maybeSingle<AbandonedCartRow>();
+
+      if (error) {
+        logger.error('Failed to fetch cart for recovery', error, { action: 'sendRecoveryMessage', cartId });
+        throw new BusinessError('Failed to fetch cart', 'CART_FETCH_ERROR');
+      }
+      if (!row) {
+        throw new BusinessError('Cart not found', 'CART_NOT_FOUND');
+      }
+      if (row.status !== CartStatus.ABANDONED) {
+        throw new BusinessError('Only abandoned carts can be recovered', 'CART_NOT_ABANDONED');
+      }
+      if (!row.customer_id || !row.customers?.email) {
+        throw new BusinessError('This cart has no customer to contact', 'CART_NO_CONTACT');
+      }
+      if (row.recovery_sent_at) {
+        throw new BusinessError('A recovery message was already sent for this cart', 'RECOVERY_ALREADY_SENT');
+      }
+
+      const settingsResult = await this.getSettings();
+      const discountPercent = settingsResult.data?.discountPercent;
+      const discount = discountPercent
+        ? await this.createRecoveryDiscount(discountPercent, cartId, row.customer_id)
+        : undefined;
+
+      const recoveryToken = row.recovery_token || crypto.randomUUID();
+      const message = buildCartRecoveryMessage({
+        email: row.customers.email,
+        firstName: row.customers.first_name || undefined,
+        items: row.cart_items
+          .filter(item => item.products)
+          .map(item => ({ name: item.products!.name, quantity: item.quantity })),
+        value: cartValue(row),
+        restoreUrl: restoreUrl(recoveryToken),
+        discount,
+      });
+
+      const sendResult = await this.notifications.send(message);
+      if (!sendResult.success) {
+        throw new BusinessError('Failed to send recovery message', 'RECOVERY_SEND_ERROR');
+      }
+
+      const { error: updateError } = await supabase
+        .from('carts')
+        .update({
+          recovery_token: recoveryToken,
+          recovery_sent_at: new Date().toISOString(),
+          recovery_discount_code: discount?.code ?? null,
+        })
+        .eq('id', cartId);
+
+      if (updateError) {
+        // The message is out; the next run may send it again, which is the lesser evil
+        logger.warn('Failed to record recovery message', {
+          action: 'sendRecoveryMessage',
+          cartId,
+          error: updateError.message,
+        });
+      }
+
+      logger.info('Cart recovery message sent', {
+        action: 'sendRecoveryMessage',
+        cartId,
+        customerId: row.customer_id,
+        discountCode: discount?.code,
+      });
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in sendRecoveryMessage', error as Error, { action: 'sendRecoveryMessage', cartId });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while sending the recovery message',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  /**
+   * The scheduled job: marks newly abandoned carts, then sends a recovery
+   * message for each abandoned customer cart that has not had one.
+   */
+  async runRecovery(): Promise<ServiceResult<CartRecoveryRunResult>> {
+    const startTime = Date.now();
+
+    try {
+      const markResult = await this.markAbandonedCarts();
+      if (!markResult.success) {
+        return { success: false, error: markResult.error };
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: pending, error } = await supabase
+        .from('carts')
+        .select('id')
+        .eq('status', CartStatus.ABANDONED)
+        .is('recovery_sent_at', null)
+        .not('customer_id', 'is', null)
+        .order('abandoned_at', { ascending: true })
+        .limit(RECOVERY_BATCH_SIZE);
+
+      if (error) {
+        logger.error('Failed to fetch carts awaiting recovery', error, { action: 'runCartRecovery' });
+        throw new BusinessError('Failed to fetch abandoned carts', 'CARTS_FETCH_ERROR');
+      }
+
+      const result: CartRecoveryRunResult = { abandoned: markResult.data ?? 0, sent: 0, failed: 0 };
+      for (const cart of pending || []) {
+        const sendResult = await this.sendRecoveryMessage(cart.id);
+        if (sendResult.success) {
+          result.sent++;
+        } else {
+          result.failed++;
+          logger.warn('Cart recovery message not sent', {
+            action: 'runCartRecovery',
+            cartId: cart.id,
+            error: sendResult.error?.message,
+          });
+        }
+      }
+
+      logger.info('Cart recovery run completed', {
+        action: 'runCartRecovery',
+        ...result,
+        duration: Date.now() - startTime,
+      });
+
+      return { success: true, data: result };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in runCartRecovery', error as Error, { action: 'runCartRecovery' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred during cart recovery',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // Makes the cart behind a recovery link active again, for the signed-in customer it belongs to
+  async restoreCart(recoveryToken: string, customerId: string): Promise<ServiceResult<RestoredCart>> {
+    try {
+      if (!recoveryToken) {
+        throw new ValidationError('Recovery token is required', 'recoveryToken', 'REQUIRED');
+      }
+      if (!customerId) {
+        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: row, error } = await supabase
+        .from('carts')
+        .select('id, customer_id, status, recovery_discount_code')
+        .eq('recovery_token', recoveryToken)
+        .eq('customer_id', customerId)
+        .maybeSingle<Pick<CartRow, 'id' | 'customer_id' | 'status' | 'recovery_discount_code'>>();
+
+      if (error) {
+        logger.error('Failed to fetch cart for restore', error, { action: 'restoreCart' });
+        throw new BusinessError('Failed to fetch cart', 'CART_FETCH_ERROR');
+      }
+      if (!row || !row.customer_id) {
+        throw new BusinessError('This link is no longer valid', 'CART_NOT_FOUND');
+      }
+
+      if (row.status === CartStatus.ABANDONED) {
+        const { error: updateError } = await supabase
+          .from('carts')
+          .update({ status: CartStatus.ACTIVE, abandoned_at: null, updated_at: new Date().toISOString() })
+          .eq('id', row.id);
+
+        if (updateError) {
+          logger.error('Failed to restore cart', updateError, { action: 'restoreCart', cartId: row.id });
+          throw new BusinessError('Failed to restore cart', 'CART_RESTORE_ERROR');
+        }
+
+        logger.info('Abandoned cart restored', {
+          action: 'restoreCart',
+          cartId: row.id,
+          customerId: row.customer_id,
+        });
+      }
+
+      return {
+        success: true,
+        data: { customerId: row.customer_id, discountCode: row.recovery_discount_code || undefined },
+      };
+    } catch (error) {
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in restoreCart', error as Error, { action: 'restoreCart' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while restoring the cart',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // A single-use percentage coupon for one recovery message, only redeemable by the cart's customer
+  private async createRecoveryDiscount(
+    percent: number,
+    cartId: string,
+    customerId: string
+  ): Promise<{ code: string; percent: number; expiresAt: Date }> {
+    const code = generateRecoveryDiscountCode();
+    const expiresAt = new Date(Date.now() + RECOVERY_DISCOUNT_DAYS * 24 * 60 * 60 * 1000);
+
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.from('discount_codes').insert({
+      code,
+      description: 'Abandoned cart recovery',
+      type: 'percentage',
+      value: percent,
+      expires_at: expiresAt.toISOString(),
+      usage_limit: 1,
+      per_customer_limit: 1,
+      customer_id: customerId,
+    });
+
+    if (error) {
+      logger.error('Failed to create recovery discount code', error, { action: 'sendRecoveryMessage', cartId });
+      throw new BusinessError('Failed to create recovery discount code', 'DISCOUNT_CREATE_ERROR');
+    }
+
+    return { code, percent, expiresAt };
+  }
+}
+
+export const cartRecoveryService = new CartRecoveryServiceImpl();
@@ -0,0 +1,56 @@
+// The abandoned cart recovery message and its coupon code, kept free of I/O
+// so the wording can be tested on its own.
+import { randomBytes } from 'crypto';
+import { NotificationMessage } from '../notifications/notifications.types';
+
+export const CART_RECOVERY_MESSAGE_TYPE = 'cart_recovery';
+
+// Days a recovery coupon stays valid after the message is sent
+export const RECOVERY_DISCOUNT_DAYS = 7;
+
+// Letters and digits that cannot be mistaken for one another when typed
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface CartRecoveryMessageInput {
+  email: string;
+  firstName?: string;
+  items: { name: string; quantity: number }[];
+  value: number;
+  restoreUrl: string;
+  discount?: { code: string; percent: number; expiresAt: Date };
+}
+
+// A single-use coupon code such as "BACK-7KQ2M9XA"
+export function generateRecoveryDiscountCode(): string {
+  const bytes = randomBytes(8);
+  const suffix = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `BACK-${suffix}`;
+}
+
+export function buildCartRecoveryMessage(input: CartRecoveryMessageInput): NotificationMessage {
+  const lines = [
+    input.firstName ? `مرحباً ${input.firstName}،` : 'مرحباً،',
+    '',
+    'تركت بعض المنتجات في سلة التسوق:',
+    ...input.items.map(item => `- ${item.name} × ${item.quantity}`),
+    '',
+    `المجموع: ${input.value.toFixed(2)} د.ت`,
+  ];
+
+  if (input.discount) {
+    lines.push(
+      '',
+      `استخدم الرمز ${input.discount.code} للحصول على خصم ${input.discount.percent}% ` +
+        `حتى ${input.discount.expiresAt.toISOString().slice(0, 10)}.`
+    );
+  }
+
+  lines.push('', `أكمل طلبك من هنا: ${input.restoreUrl}`);
+
+  return {
+    type: CART_RECOVERY_MESSAGE_TYPE,
+    to: input.email,
+    subject: 'نسيت شيئاً في سلتك؟',
+    text: lines.join('\n'),
+  };
+}
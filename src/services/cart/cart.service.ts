@@ -1,6 +1,6 @@
 import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
 import { logger } from '@/lib/logger';
-import { createClientServer } from '@/lib/supabase/server';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
 import {
     AddToCartData,
     Cart,
@@ -8,16 +8,153 @@ import {
     CartValidationError,
     CartValidationResult,
     CartValidationWarning,
+    Product,
+    ProductVariant,
     UpdateCartItemData,
 } from '@/types/business';
 import { ServiceResult } from '@/types/common';
 import { CartStatus, ProductStatus } from '@/types/enums';
-import { Tables } from '@/types/supabase';
-import { productService } from '../products/products.service';
-import { CartService } from './cart.types';
+import { Tables, TablesInsert } from '@/types/supabase';
+import { mapProductVariantRow, productService } from '../products/products.service';
+import { CartMergeResult, CartService } from './cart.types';
 
 type CartRow = Tables<'carts'>;
 type CartItemRow = Tables<'cart_items'>;
+type CartWithItemsRow = CartRow & { cart_items: any[] };
+type SupabaseServerClient = Awaited<ReturnType<typeof createClientServer>>;
+
+// Whose cart an operation is on: a signed-in customer's, or a visitor's found
+// by the token in their guest cart cookie
+type CartOwner = { customerId: string } | { guestToken: string };
+
+// Most of one product (and size) a cart line may hold
+const MAX_LINE_QUANTITY = 100;
+
+const CART_SELECT = `
+  *,
+  cart_items (
+    *,
+    products (*),
+    product_variants (*)
+  )
+`;
+
+const isGuest = (owner: CartOwner): owner is { guestToken: string } => 'guestToken' in owner;
+
+// Guest tokens are credentials, so logs only say the cart was a guest's
+const ownerContext = (owner: CartOwner) => (isGuest(owner) ? { guestCart: true } : { customerId: owner.customerId });
+
+const ownerKey = (owner: CartOwner) => (isGuest(owner) ? `guest_${owner.guestToken}` : owner.customerId);
+
+const ownerColumns = (owner: CartOwner): Pick<TablesInsert<'carts'>, 'customer_id' | 'guest_token'> =>
+  isGuest(owner) ? { guest_token: owner.guestToken } : { customer_id: owner.customerId };
+
+const ownsCart = (owner: CartOwner, cart: Pick<CartRow, 'customer_id' | 'guest_token'>) =>
+  isGuest(owner) ? cart.guest_token === owner.guestToken : cart.customer_id === owner.customerId;
+
+function requireOwner(owner: CartOwner): void {
+  if (isGuest(owner) && !owner.guestToken) {
+    throw new ValidationError('Guest cart token is required', 'guestToken', 'REQUIRED');
+  }
+  if (!isGuest(owner) && !owner.customerId) {
+    throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
+  }
+}
+
+// Any change to a cart's lines makes it active again, whether it was abandoned or converted
+async function touchCart(supabase: SupabaseServerClient, cartId: string): Promise<void> {
+  await supabase
+    .from('carts')
+    .update({ updated_at: new Date().toISOString(), status: CartStatus.ACTIVE, abandoned_at: null })
+    .eq('id', cartId);
+}
+
+// The cart's items became the order, so it is emptied and marked converted
+async function markCartConverted(supabase: SupabaseServerClient, cartId: string, orderId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase
+    .from('carts')
+    .update({
+      updated_at: now,
+      status: CartStatus.CONVERTED,
+      converted_at: now,
+      converted_order_id: orderId,
+      abandoned_at: null,
+      recovery_token: null,
+      recovery_sent_at: null,
+      recovery_discount_code: null,
+    })
+    .eq('id', cartId);
+}
+
+// Customers' carts are protected by row level security; guests' go through the service role
+async function createOwnerClient(owner: CartOwner): Promise<SupabaseServerClient> {
+  return isGuest(owner) ? createServiceRoleClient() : createClientServer();
+}
+
+// The owner's most recent cart with its lines, or null when they have none
+async function findCartRow(
+  supabase: SupabaseServerClient,
+  owner: CartOwner,
+  action: string
+): Promise<CartWithItemsRow | null> {
+  const { data, error } = await supabase
+    .from('carts')
+    .select(CART_SELECT)
+    .eq(isGuest(owner) ? 'guest_token' : 'customer_id', isGuest(owner) ? owner.guestToken : owner.customerId)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<CartWithItemsRow>();
+
+  if (error) {
+    logger.error('Failed to fetch cart', error, { action, ...ownerContext(owner) });
+    throw new BusinessError('Failed to fetch cart', 'CART_FETCH_ERROR');
+  }
+
+  return data;
+}
+
+async function createCartRow(
+  supabase: SupabaseServerClient,
+  owner: CartOwner,
+  action: string
+): Promise<CartWithItemsRow> {
+  const { data, error } = await supabase
+    .from('carts')
+    .insert(ownerColumns(owner))
+    .select(CART_SELECT)
+    .single<CartWithItemsRow>();
+
+  if (error || !data) {
+    logger.error('Failed to create cart', error as Error, { action, ...ownerContext(owner) });
+    throw new BusinessError('Failed to create cart', 'CART_CREATE_ERROR');
+  }
+
+  return data;
+}
+
+/**
+ * The variant a cart line is for. Products sold in variants cannot be added
+ * without one, and only active variants can be bought.
+ */
+function resolveVariant(product: Product, variantId?: string): ProductVariant | undefined {
+  const variants = product.variants || [];
+  if (!variantId) {
+    if (variants.length > 0) {
+      throw new BusinessError('Choose a size for this product', 'VARIANT_REQUIRED', 'low', { productId: product.id });
+    }
+    return undefined;
+  }
+
+  const variant = variants.find(candidate => candidate.id === variantId);
+  if (!variant) {
+    throw new BusinessError('This size is no longer available', 'VARIANT_NOT_FOUND', 'low', {
+      productId: product.id,
+      variantId,
+    });
+  }
+  return variant;
+}
 
 export class CartServiceImpl implements CartService {
   private cache = new Map<string, { data: any; timestamp: number }>();
@@ -40,8 +177,8 @@ export class CartServiceImpl implements CartService {
     this.cache.set(key, { data, timestamp: Date.now() });
   }
 
-  private clearCustomerCache(customerId: string): void {
-    const keysToDelete = Array.from(this.cache.keys()).filter(key => key.includes(`cart_${customerId}_`));
+  private clearOwnerCache(ownerKey: string): void {
+    const keysToDelete = Array.from(this.cache.keys()).filter(key => key.includes(`cart_${ownerKey}_`));
     keysToDelete.forEach(key => this.cache.delete(key));
   }
 
@@ -53,7 +190,8 @@ export class CartServiceImpl implements CartService {
     for (const item of items) {
       const product = item.products;
       if (product) {
-        const unitPrice = product.price || 0;
+        const variant = item.product_variants ? mapProductVariantRow(item.product_variants) : undefined;
+        const unitPrice = (variant ? variant.price : product.price) || 0;
         const totalPrice = unitPrice * item.quantity;
 
         cartItems.push({
@@ -74,6 +212,8 @@ export class CartServiceImpl implements CartService {
             createdAt: new Date(product.created_at),
             updatedAt: new Date(product.created_at),
           },
+          variantId: variant?.id,
+          variant,
           quantity: item.quantity,
           unitPrice,
           totalPrice,
@@ -93,7 +233,7 @@ export class CartServiceImpl implements CartService {
       items: cartItems,
       totalAmount,
       totalItems,
-      status: CartStatus.ACTIVE,
+      status: (cartRow.status as CartStatus) || CartStatus.ACTIVE,
       expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
       finalAmount: totalAmount,
       createdAt: new Date(cartRow.created_at),
@@ -102,78 +242,33 @@ export class CartServiceImpl implements CartService {
   }
 
   async getOrCreateCart(customerId: string): Promise<ServiceResult<Cart>> {
+    return this.getOrCreateOwnerCart({ customerId });
+  }
+
+  private async getOrCreateOwnerCart(owner: CartOwner): Promise<ServiceResult<Cart>> {
     const startTime = Date.now();
-    const cacheKey = this.getCacheKey('getOrCreateCart', customerId);
+    const cacheKey = this.getCacheKey('getOrCreateCart', ownerKey(owner));
 
     try {
-      if (!customerId) {
-        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
-      }
+      requireOwner(owner);
 
       // Check cache first
       const cached = this.getFromCache<Cart>(cacheKey);
       if (cached) {
         logger.debug('Cart retrieved from cache', {
           action: 'getOrCreateCart',
-          customerId,
+          ...ownerContext(owner),
           cacheHit: true,
         });
         return { success: true, data: cached };
       }
 
-      const supabase = await createClientServer();
-
-      // Try to get existing cart
-      let { data: cartData, error: cartError } = await supabase
-        .from('carts')
-        .select(
-          `
-          *,
-          cart_items (
-            *,
-            products (*)
-          )
-        `
-        )
-        .eq('customer_id', customerId)
-        .order('updated_at', { ascending: false })
-        .limit(1)
-        .single();
+      const supabase = await createOwnerClient(owner);
 
-      // If no cart exists, create one
-      if (cartError && cartError.code === 'PGRST116') {
-        const { data: newCartData, error: createError } = await supabase
-          .from('carts')
-          .insert({
-            customer_id: customerId,
-          })
-          .select(
-            `
-            *,
-            cart_items (
-              *,
-              products (*)
-            )
-          `
-          )
-          .single();
-
-        if (createError) {
-          logger.error('Failed to create cart', createError, {
-            action: 'getOrCreateCart',
-            customerId,
-          });
-          throw new BusinessError('Failed to create cart', 'CART_CREATE_ERROR');
-        }
-
-        cartData = newCartData;
-      } else if (cartError) {
-        logger.error('Failed to fetch cart', cartError, {
-          action: 'getOrCreateCart',
-          customerId,
-        });
-        throw new BusinessError('Failed to fetch cart', 'CART_FETCH_ERROR');
-      }
+      // Use the existing cart, or create one
+      const cartData =
+        (await findCartRow(supabase, owner, 'getOrCreateCart')) ??
+        (await createCartRow(supabase, owner, 'getOrCreateCart'));
 
       const cart = await this.mapCartRow(cartData, cartData.cart_items || []);
 
@@ -182,7 +277,7 @@ export class CartServiceImpl implements CartService {
 
       logger.info('Cart retrieved/created successfully', {
         action: 'getOrCreateCart',
-        customerId,
+        ...ownerContext(owner),
         cartId: cart.id,
         itemCount: cart.items.length,
         duration: Date.now() - startTime,
@@ -192,7 +287,7 @@ export class CartServiceImpl implements CartService {
     } catch (error) {
       logger.error('Error in getOrCreateCart', error as Error, {
         action: 'getOrCreateCart',
-        customerId,
+        ...ownerContext(owner),
       });
 
       if (error instanceof BusinessError || error instanceof ValidationError) {
@@ -222,12 +317,14 @@ export class CartServiceImpl implements CartService {
   }
 
   async addItem(customerId: string, data: AddToCartData): Promise<ServiceResult<void>> {
+    return this.addOwnerItem({ customerId }, data);
+  }
+
+  private async addOwnerItem(owner: CartOwner, data: AddToCartData): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
-      if (!customerId) {
-        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
-      }
+      requireOwner(owner);
       if (!data.productId) {
         throw new ValidationError('Product ID is required', 'productId', 'REQUIRED');
       }
@@ -245,34 +342,37 @@ export class CartServiceImpl implements CartService {
       }
 
       const product = productResult.data;
-      if (product.stock < data.quantity) {
+      const variant = resolveVariant(product, data.variantId);
+      const available = variant ? variant.stock : product.stock;
+      if (available < data.quantity) {
         throw new BusinessError(
-          `Insufficient stock. Available: ${product.stock}, Requested: ${data.quantity}`,
+          `Insufficient stock. Available: ${available}, Requested: ${data.quantity}`,
           'INSUFFICIENT_STOCK'
         );
       }
 
       // Get or create cart
-      const cartResult = await this.getOrCreateCart(customerId);
+      const cartResult = await this.getOrCreateOwnerCart(owner);
       if (!cartResult.success || !cartResult.data) {
         throw new BusinessError('Failed to get cart', 'CART_ACCESS_ERROR');
       }
 
       const cart = cartResult.data;
-      const supabase = await createClientServer();
+      const supabase = await createOwnerClient(owner);
 
-      // Check if item already exists in cart
-      const { data: existingItem, error: existingError } = await supabase
+      // Check if item already exists in cart; each variant is its own line
+      let existingQuery = supabase
         .from('cart_items')
         .select('id, quantity')
         .eq('cart_id', cart.id)
-        .eq('product_id', data.productId)
-        .single();
+        .eq('product_id', data.productId);
+      existingQuery = variant ? existingQuery.eq('variant_id', variant.id) : existingQuery.is('variant_id', null);
+      const { data: existingItem, error: existingError } = await existingQuery.single();
 
       if (existingError && existingError.code !== 'PGRST116') {
         logger.error('Failed to check existing cart item', existingError, {
           action: 'addItem',
-          customerId,
+          ...ownerContext(owner),
           productId: data.productId,
         });
         throw new BusinessError('Failed to check cart item', 'CART_ITEM_CHECK_ERROR');
@@ -283,9 +383,9 @@ export class CartServiceImpl implements CartService {
         const newQuantity = existingItem.quantity + data.quantity;
 
         // Check total quantity against stock
-        if (newQuantity > product.stock) {
+        if (newQuantity > available) {
           throw new BusinessError(
-            `Total quantity would exceed stock. Available: ${product.stock}, Total requested: ${newQuantity}`,
+            `Total quantity would exceed stock. Available: ${available}, Total requested: ${newQuantity}`,
             'INSUFFICIENT_STOCK'
           );
         }
@@ -298,7 +398,7 @@ export class CartServiceImpl implements CartService {
         if (updateError) {
           logger.error('Failed to update cart item quantity', updateError, {
             action: 'addItem',
-            customerId,
+            ...ownerContext(owner),
             itemId: existingItem.id,
           });
           throw new BusinessError('Failed to update cart item', 'CART_ITEM_UPDATE_ERROR');
@@ -308,29 +408,30 @@ export class CartServiceImpl implements CartService {
         const { error: insertError } = await supabase.from('cart_items').insert({
           cart_id: cart.id,
           product_id: data.productId,
+          variant_id: variant?.id ?? null,
           quantity: data.quantity,
         });
 
         if (insertError) {
           logger.error('Failed to add item to cart', insertError, {
             action: 'addItem',
-            customerId,
+            ...ownerContext(owner),
             productId: data.productId,
           });
           throw new BusinessError('Failed to add item to cart', 'CART_ITEM_ADD_ERROR');
         }
       }
 
-      // Update cart timestamp
-      await supabase.from('carts').update({ updated_at: new Date().toISOString() }).eq('id', cart.id);
+      await touchCart(supabase, cart.id);
 
       // Clear cache
-      this.clearCustomerCache(customerId);
+      this.clearOwnerCache(ownerKey(owner));
 
       logger.info('Item added to cart successfully', {
         action: 'addItem',
-        customerId,
+        ...ownerContext(owner),
         productId: data.productId,
+        variantId: variant?.id,
         quantity: data.quantity,
         duration: Date.now() - startTime,
       });
@@ -339,7 +440,7 @@ export class CartServiceImpl implements CartService {
     } catch (error) {
       logger.error('Error in addItem', error as Error, {
         action: 'addItem',
-        customerId,
+        ...ownerContext(owner),
         data,
       });
 
@@ -366,12 +467,14 @@ export class CartServiceImpl implements CartService {
   }
 
   async updateItem(customerId: string, data: UpdateCartItemData): Promise<ServiceResult<void>> {
+    return this.updateOwnerItem({ customerId }, data);
+  }
+
+  private async updateOwnerItem(owner: CartOwner, data: UpdateCartItemData): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
-      if (!customerId) {
-        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
-      }
+      requireOwner(owner);
       if (!data.itemId) {
         throw new ValidationError('Item ID is required', 'itemId', 'REQUIRED');
       }
@@ -382,7 +485,7 @@ export class CartServiceImpl implements CartService {
         throw new ValidationError('Quantity cannot exceed 100', 'quantity', 'INVALID');
       }
 
-      const supabase = await createClientServer();
+      const supabase = await createOwnerClient(owner);
 
       // Get cart item with product info
       const { data: cartItem, error: itemError } = await supabase
@@ -390,8 +493,9 @@ export class CartServiceImpl implements CartService {
         .select(
           `
           *,
-          carts!inner(customer_id),
-          products(*)
+          carts!inner(customer_id, guest_token),
+          products(*),
+          product_variants(*)
         `
         )
         .eq('id', data.itemId)
@@ -403,22 +507,22 @@ export class CartServiceImpl implements CartService {
         }
         logger.error('Failed to fetch cart item', itemError, {
           action: 'updateItem',
-          customerId,
+          ...ownerContext(owner),
           itemId: data.itemId,
         });
         throw new BusinessError('Failed to fetch cart item', 'CART_ITEM_FETCH_ERROR');
       }
 
       // Verify ownership
-      if (cartItem.carts.customer_id !== customerId) {
+      if (!ownsCart(owner, cartItem.carts)) {
         throw new BusinessError('Unauthorized cart access', 'UNAUTHORIZED_CART_ACCESS');
       }
 
-      // Check stock availability
-      const product = cartItem.products;
-      if (product && product.stock < data.quantity) {
+      // Check stock availability, on the chosen variant when there is one
+      const stock = cartItem.product_variants?.stock ?? cartItem.products?.stock;
+      if (stock !== undefined && stock < data.quantity) {
         throw new BusinessError(
-          `Insufficient stock. Available: ${product.stock}, Requested: ${data.quantity}`,
+          `Insufficient stock. Available: ${stock}, Requested: ${data.quantity}`,
           'INSUFFICIENT_STOCK'
         );
       }
@@ -432,21 +536,20 @@ export class CartServiceImpl implements CartService {
       if (updateError) {
         logger.error('Failed to update cart item', updateError, {
           action: 'updateItem',
-          customerId,
+          ...ownerContext(owner),
           itemId: data.itemId,
         });
         throw new BusinessError('Failed to update cart item', 'CART_ITEM_UPDATE_ERROR');
       }
 
-      // Update cart timestamp
-      await supabase.from('carts').update({ updated_at: new Date().toISOString() }).eq('id', cartItem.cart_id);
+      await touchCart(supabase, cartItem.cart_id);
 
       // Clear cache
-      this.clearCustomerCache(customerId);
+      this.clearOwnerCache(ownerKey(owner));
 
       logger.info('Cart item updated successfully', {
         action: 'updateItem',
-        customerId,
+        ...ownerContext(owner),
         itemId: data.itemId,
         newQuantity: data.quantity,
         duration: Date.now() - startTime,
@@ -456,7 +559,7 @@ export class CartServiceImpl implements CartService {
     } catch (error) {
       logger.error('Error in updateItem', error as Error, {
         action: 'updateItem',
-        customerId,
+        ...ownerContext(owner),
         data,
       });
 
@@ -483,17 +586,19 @@ export class CartServiceImpl implements CartService {
   }
 
   async removeItem(customerId: string, itemId: string): Promise<ServiceResult<void>> {
+    return this.removeOwnerItem({ customerId }, itemId);
+  }
+
+  private async removeOwnerItem(owner: CartOwner, itemId: string): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
-      if (!customerId) {
-        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
-      }
+      requireOwner(owner);
       if (!itemId) {
         throw new ValidationError('Item ID is required', 'itemId', 'REQUIRED');
       }
 
-      const supabase = await createClientServer();
+      const supabase = await createOwnerClient(owner);
 
       // Verify item exists and belongs to customer
       const { data: cartItem, error: itemError } = await supabase
@@ -501,7 +606,7 @@ export class CartServiceImpl implements CartService {
         .select(
           `
           *,
-          carts!inner(customer_id)
+          carts!inner(customer_id, guest_token)
         `
         )
         .eq('id', itemId)
@@ -513,14 +618,14 @@ export class CartServiceImpl implements CartService {
         }
         logger.error('Failed to fetch cart item', itemError, {
           action: 'removeItem',
-          customerId,
+          ...ownerContext(owner),
           itemId,
         });
         throw new BusinessError('Failed to fetch cart item', 'CART_ITEM_FETCH_ERROR');
       }
 
       // Verify ownership
-      if (cartItem.carts.customer_id !== customerId) {
+      if (!ownsCart(owner, cartItem.carts)) {
         throw new BusinessError('Unauthorized cart access', 'UNAUTHORIZED_CART_ACCESS');
       }
 
@@ -530,21 +635,20 @@ export class CartServiceImpl implements CartService {
       if (deleteError) {
         logger.error('Failed to remove cart item', deleteError, {
           action: 'removeItem',
-          customerId,
+          ...ownerContext(owner),
           itemId,
         });
         throw new BusinessError('Failed to remove cart item', 'CART_ITEM_REMOVE_ERROR');
       }
 
-      // Update cart timestamp
-      await supabase.from('carts').update({ updated_at: new Date().toISOString() }).eq('id', cartItem.cart_id);
+      await touchCart(supabase, cartItem.cart_id);
 
       // Clear cache
-      this.clearCustomerCache(customerId);
+      this.clearOwnerCache(ownerKey(owner));
 
       logger.info('Cart item removed successfully', {
         action: 'removeItem',
-        customerId,
+        ...ownerContext(owner),
         itemId,
         duration: Date.now() - startTime,
       });
@@ -553,7 +657,7 @@ export class CartServiceImpl implements CartService {
     } catch (error) {
       logger.error('Error in removeItem', error as Error, {
         action: 'removeItem',
-        customerId,
+        ...ownerContext(owner),
         itemId,
       });
 
@@ -580,21 +684,28 @@ export class CartServiceImpl implements CartService {
   }
 
   async clearCart(customerId: string): Promise<ServiceResult<void>> {
+    return this.clearOwnerCart({ customerId });
+  }
+
+  async convertCart(customerId: string, orderId: string): Promise<ServiceResult<void>> {
+    return this.clearOwnerCart({ customerId }, orderId);
+  }
+
+  // Empties the cart; given the order its items became, the cart is also marked converted
+  private async clearOwnerCart(owner: CartOwner, orderId?: string): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
-      if (!customerId) {
-        throw new ValidationError('Customer ID is required', 'customerId', 'REQUIRED');
-      }
+      requireOwner(owner);
 
       // Get cart
-      const cartResult = await this.getOrCreateCart(customerId);
+      const cartResult = await this.getOrCreateOwnerCart(owner);
       if (!cartResult.success || !cartResult.data) {
         throw new BusinessError('Failed to get cart', 'CART_ACCESS_ERROR');
       }
 
       const cart = cartResult.data;
-      const supabase = await createClientServer();
+      const supabase = await createOwnerClient(owner);
 
       // Remove all items from cart
       const { error: deleteError } = await supabase.from('cart_items').delete().eq('cart_id', cart.id);
@@ -602,22 +713,26 @@ export class CartServiceImpl implements CartService {
       if (deleteError) {
         logger.error('Failed to clear cart items', deleteError, {
           action: 'clearCart',
-          customerId,
+          ...ownerContext(owner),
           cartId: cart.id,
         });
         throw new BusinessError('Failed to clear cart', 'CART_CLEAR_ERROR');
       }
 
-      // Update cart timestamp
-      await supabase.from('carts').update({ updated_at: new Date().toISOString() }).eq('id', cart.id);
+      if (orderId) {
+        await markCartConverted(supabase, cart.id, orderId);
+      } else {
+        await touchCart(supabase, cart.id);
+      }
 
       // Clear cache
-      this.clearCustomerCache(customerId);
+      this.clearOwnerCache(ownerKey(owner));
 
       logger.info('Cart cleared successfully', {
         action: 'clearCart',
-        customerId,
+        ...ownerContext(owner),
         cartId: cart.id,
+        orderId,
         duration: Date.now() - startTime,
       });
 
@@ -625,7 +740,7 @@ export class CartServiceImpl implements CartService {
     } catch (error) {
       logger.error('Error in clearCart', error as Error, {
         action: 'clearCart',
-        customerId,
+        ...ownerContext(owner),
       });
 
       if (error instanceof BusinessError || error instanceof ValidationError) {
@@ -650,6 +765,186 @@ export class CartServiceImpl implements CartService {
     }
   }
 
+  // A visitor has no cart until they add something, and none is created here
+  async getGuestCart(guestToken: string): Promise<ServiceResult<Cart | null>> {
+    try {
+      requireOwner({ guestToken });
+
+      const cartData = await findCartRow(createServiceRoleClient(), { guestToken }, 'getGuestCart');
+      const cart = cartData ? await this.mapCartRow(cartData, cartData.cart_items || []) : null;
+
+      return { success: true, data: cart };
+    } catch (error) {
+      logger.error('Error in getGuestCart', error as Error, {
+        action: 'getGuestCart',
+        guestCart: true,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while retrieving cart',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async addGuestItem(guestToken: string, data: AddToCartData): Promise<ServiceResult<void>> {
+    return this.addOwnerItem({ guestToken }, data);
+  }
+
+  async updateGuestItem(guestToken: string, data: UpdateCartItemData): Promise<ServiceResult<void>> {
+    return this.updateOwnerItem({ guestToken }, data);
+  }
+
+  async removeGuestItem(guestToken: string, itemId: string): Promise<ServiceResult<void>> {
+    return this.removeOwnerItem({ guestToken }, itemId);
+  }
+
+  async clearGuestCart(guestToken: string): Promise<ServiceResult<void>> {
+    return this.clearOwnerCart({ guestToken });
+  }
+
+  async convertGuestCart(guestToken: string, orderId: string): Promise<ServiceResult<void>> {
+    return this.clearOwnerCart({ guestToken }, orderId);
+  }
+
+  /**
+   * Moves a visitor's guest cart into their account cart once they sign in.
+   * Lines for the same product and size are combined and capped at the stock
+   * available now; lines that can no longer be bought are dropped. The guest
+   * cart is deleted afterwards.
+   */
+  async mergeGuestCart(customerId: string, guestToken: string): Promise<ServiceResult<CartMergeResult>> {
+    const startTime = Date.now();
+
+    try {
+      requireOwner({ customerId });
+      requireOwner({ guestToken });
+
+      const result: CartMergeResult = { mergedItems: 0, cappedItems: 0, droppedItems: 0 };
+
+      // Both carts go through the service role: the guest's has no customer, and
+      // a customer who has just signed in may not have a session cookie yet
+      const supabase = createServiceRoleClient();
+      const guestCart = await findCartRow(supabase, { guestToken }, 'mergeGuestCart');
+      if (!guestCart) {
+        return { success: true, data: result };
+      }
+
+      const customerCart =
+        (await findCartRow(supabase, { customerId }, 'mergeGuestCart')) ??
+        (await createCartRow(supabase, { customerId }, 'mergeGuestCart'));
+      const customerItems: CartItemRow[] = customerCart.cart_items || [];
+
+      for (const item of (guestCart.cart_items || []) as CartItemRow[]) {
+        const productResult = item.product_id ? await productService.getProduct(item.product_id) : undefined;
+        const product = productResult?.success ? productResult.data : undefined;
+        const variants = product?.variants || [];
+        const variant = item.variant_id ? variants.find(candidate => candidate.id === item.variant_id) : undefined;
+
+        // The product or size is gone, or the product now has to be bought in a size
+        if (!product || (item.variant_id ? !variant : variants.length > 0)) {
+          result.droppedItems++;
+          continue;
+        }
+
+        const existing = customerItems.find(
+          line => line.product_id === item.product_id && line.variant_id === item.variant_id
+        );
+        const requested = (existing?.quantity ?? 0) + item.quantity;
+        const quantity = Math.min(requested, variant ? variant.stock : product.stock, MAX_LINE_QUANTITY);
+        if (quantity <= 0) {
+          result.droppedItems++;
+          continue;
+        }
+        if (quantity < requested) {
+          result.cappedItems++;
+        }
+
+        const { error: lineError } = existing
+          ? await supabase.from('cart_items').update({ quantity }).eq('id', existing.id)
+          : await supabase.from('cart_items').insert({
+              cart_id: customerCart.id,
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              quantity,
+            });
+
+        if (lineError) {
+          logger.error('Failed to merge guest cart item', lineError, {
+            action: 'mergeGuestCart',
+            customerId,
+            productId: item.product_id,
+          });
+          throw new BusinessError('Failed to merge guest cart', 'CART_MERGE_ERROR');
+        }
+
+        result.mergedItems++;
+      }
+
+      // Not fatal: the caller forgets the guest cart's cookie either way, so it cannot be merged twice
+      await supabase.from('cart_items').delete().eq('cart_id', guestCart.id);
+      const { error: deleteError } = await supabase.from('carts').delete().eq('id', guestCart.id);
+      if (deleteError) {
+        logger.warn('Failed to delete merged guest cart', {
+          action: 'mergeGuestCart',
+          cartId: guestCart.id,
+          error: deleteError.message,
+        });
+      }
+
+      await touchCart(supabase, customerCart.id);
+
+      this.clearOwnerCache(ownerKey({ customerId }));
+      this.clearOwnerCache(ownerKey({ guestToken }));
+
+      logger.info('Guest cart merged into customer cart', {
+        action: 'mergeGuestCart',
+        customerId,
+        cartId: customerCart.id,
+        ...result,
+        duration: Date.now() - startTime,
+      });
+
+      return { success: true, data: result };
+    } catch (error) {
+      logger.error('Error in mergeGuestCart', error as Error, {
+        action: 'mergeGuestCart',
+        customerId,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while merging the guest cart',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
   async validateCart(customerId: string): Promise<ServiceResult<CartValidationResult>> {
     const startTime = Date.now();
 
@@ -684,54 +979,85 @@ export class CartServiceImpl implements CartService {
 
         const currentProduct = productResult.data;
 
+        // Stock and price are per variant for products sold in variants
+        const variants = currentProduct.variants || [];
+        if (!item.variantId && variants.length > 0) {
+          errors.push({
+            itemId: item.id,
+            productId: item.productId,
+            type: 'variant_required',
+            message: 'Choose a size for this product',
+          });
+          continue;
+        }
+
+        const variant = item.variantId ? variants.find(candidate => candidate.id === item.variantId) : undefined;
+        if (item.variantId && !variant) {
+          errors.push({
+            itemId: item.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            type: 'product_unavailable',
+            message: 'This size is no longer available',
+          });
+          continue;
+        }
+
+        const current = variant ?? currentProduct;
+
         // Check stock availability
-        if (currentProduct.stock === 0) {
+        if (current.stock === 0) {
           errors.push({
             itemId: item.id,
             productId: item.productId,
+            variantId: item.variantId,
             type: 'out_of_stock',
             message: 'Product is out of stock',
             currentStock: 0,
             requestedQuantity: item.quantity,
           });
-        } else if (currentProduct.stock < item.quantity) {
+        } else if (current.stock < item.quantity) {
           errors.push({
             itemId: item.id,
             productId: item.productId,
+            variantId: item.variantId,
             type: 'insufficient_stock',
-            message: `Insufficient stock. Available: ${currentProduct.stock}, Requested: ${item.quantity}`,
-            currentStock: currentProduct.stock,
+            message: `Insufficient stock. Available: ${current.stock}, Requested: ${item.quantity}`,
+            currentStock: current.stock,
             requestedQuantity: item.quantity,
           });
-        } else if (currentProduct.stock <= 5 && currentProduct.stock >= item.quantity) {
+        } else if (current.stock <= 5 && current.stock >= item.quantity) {
           warnings.push({
             itemId: item.id,
             productId: item.productId,
+            variantId: item.variantId,
             type: 'low_stock',
-            message: `Low stock warning. Only ${currentProduct.stock} items remaining`,
-            details: { currentStock: currentProduct.stock },
+            message: `Low stock warning. Only ${current.stock} items remaining`,
+            details: { currentStock: current.stock },
           });
         }
 
         // Check price changes
-        if (currentProduct.price !== item.unitPrice) {
-          if (currentProduct.price > item.unitPrice) {
+        if (current.price !== item.unitPrice) {
+          if (current.price > item.unitPrice) {
             warnings.push({
               itemId: item.id,
               productId: item.productId,
+              variantId: item.variantId,
               type: 'price_increase',
-              message: `Price has increased from ${item.unitPrice} to ${currentProduct.price}`,
+              message: `Price has increased from ${item.unitPrice} to ${current.price}`,
               details: {
                 oldPrice: item.unitPrice,
-                newPrice: currentProduct.price,
+                newPrice: current.price,
               },
             });
           } else {
             errors.push({
               itemId: item.id,
               productId: item.productId,
+              variantId: item.variantId,
               type: 'price_changed',
-              message: `Price has changed from ${item.unitPrice} to ${currentProduct.price}`,
+              message: `Price has changed from ${item.unitPrice} to ${current.price}`,
             });
           }
         }
@@ -792,7 +1118,8 @@ export class CartServiceImpl implements CartService {
           *,
           cart_items (
             *,
-            products (*)
+            products (*),
+            product_variants (*)
           )
         `);
 
@@ -9,9 +9,29 @@ export interface CartService extends CacheableService {
   updateItem(customerId: string, data: UpdateCartItemData): Promise<ServiceResult<void>>;
   removeItem(customerId: string, itemId: string): Promise<ServiceResult<void>>;
   clearCart(customerId: string): Promise<ServiceResult<void>>;
+  // Empties the cart once its items have been ordered and marks it converted
+  convertCart(customerId: string, orderId: string): Promise<ServiceResult<void>>;
   validateCart(customerId: string): Promise<ServiceResult<CartValidationResult>>;
   getOrCreateCart(customerId: string): Promise<ServiceResult<Cart>>;
   searchCarts(filters?: CartSearchFilters): Promise<ServiceResult<Cart[]>>;
+
+  // Carts of visitors who are not signed in, found by the token in their cookie
+  getGuestCart(guestToken: string): Promise<ServiceResult<Cart | null>>;
+  addGuestItem(guestToken: string, data: AddToCartData): Promise<ServiceResult<void>>;
+  updateGuestItem(guestToken: string, data: UpdateCartItemData): Promise<ServiceResult<void>>;
+  removeGuestItem(guestToken: string, itemId: string): Promise<ServiceResult<void>>;
+  clearGuestCart(guestToken: string): Promise<ServiceResult<void>>;
+  convertGuestCart(guestToken: string, orderId: string): Promise<ServiceResult<void>>;
+  mergeGuestCart(customerId: string, guestToken: string): Promise<ServiceResult<CartMergeResult>>;
+}
+
+// What happened to the guest cart's lines when it was merged into an account cart
+export interface CartMergeResult {
+  mergedItems: number;
+  // Lines whose combined quantity was cut down to the stock available
+  cappedItems: number;
+  // Lines that can no longer be bought (product or size gone, or out of stock)
+  droppedItems: number;
 }
 
 export interface CartOperationResult {
@@ -19,3 +39,47 @@ export interface CartOperationResult {
   cart?: Cart;
   error?: string;
 }
+
+// How long a cart may sit untouched before it is abandoned, and the coupon the recovery message offers
+export interface CartRecoverySettings {
+  idleHours: number;
+  // Percentage off; no coupon is generated when unset
+  discountPercent?: number;
+}
+
+export interface AbandonedCart {
+  id: string;
+  // Unset for guest carts, which have no one to send a recovery message to
+  customerId?: string;
+  customerName?: string;
+  customerEmail?: string;
+  itemCount: number;
+  value: number;
+  lastActivityAt: Date;
+  abandonedAt: Date;
+  recoverySentAt?: Date;
+  recoveryDiscountCode?: string;
+}
+
+// One pass of the scheduled recovery job
+export interface CartRecoveryRunResult {
+  abandoned: number;
+  sent: number;
+  failed: number;
+}
+
+// The customer cart a recovery link reactivated
+export interface RestoredCart {
+  customerId: string;
+  discountCode?: string;
+}
+
+export interface CartRecoveryService {
+  getSettings(): Promise<ServiceResult<CartRecoverySettings>>;
+  updateSettings(settings: CartRecoverySettings): Promise<ServiceResult<CartRecoverySettings>>;
+  markAbandonedCarts(): Promise<ServiceResult<number>>;
+  getAbandonedCarts(): Promise<ServiceResult<AbandonedCart[]>>;
+  sendRecoveryMessage(cartId: string): Promise<ServiceResult<void>>;
+  runRecovery(): Promise<ServiceResult<CartRecoveryRunResult>>;
+  restoreCart(recoveryToken: string, customerId: string): Promise<ServiceResult<RestoredCart>>;
+}
@@ -0,0 +1,33 @@
+// Signing for the guest cart cookie. The cookie holds the cart's token and an
+// HMAC of it, so a visitor cannot point their cookie at someone else's cart.
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function sign(token: string, secret: string): string {
+  return createHmac('sha256', secret).update(token).digest('base64url');
+}
+
+// "<token>.<signature>", the value stored in the cookie
+export function signGuestCartToken(token: string, secret: string): string {
+  return `${token}.${sign(token, secret)}`;
+}
+
+/**
+ * The cart token in a signed cookie value, or null when the value is
+ * malformed or its signature does not match.
+ */
+export function verifyGuestCartToken(value: string | undefined, secret: string): string | null {
+  const [token, signature, ...rest] = (value || '').split('.');
+  if (!token || !signature || rest.length > 0 || !TOKEN_PATTERN.test(token)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(token, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return token.toLowerCase();
+}
@@ -0,0 +1,66 @@
+// The guest cart cookie, for server actions and route handlers. A visitor who
+// is not signed in keeps their cart's token in it until they sign in and the
+// cart is merged into their account cart.
+import { logger } from '@/lib/logger';
+import { cookies } from 'next/headers';
+import { cartService } from './cart.service';
+import { signGuestCartToken, verifyGuestCartToken } from './guest-cart-token';
+
+const GUEST_CART_COOKIE = 'guest_cart';
+
+// Renewed whenever the cart changes, so it lapses 30 days after the last change
+const GUEST_CART_MAX_AGE = 30 * 24 * 60 * 60;
+
+function getSecret(): string {
+  const secret = process.env.GUEST_CART_SECRET;
+  if (!secret) throw new Error('Missing: GUEST_CART_SECRET');
+  return secret;
+}
+
+// The visitor's guest cart token; null when they have none or the cookie was tampered with
+export async function readGuestCartToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(GUEST_CART_COOKIE)?.value;
+  return value ? verifyGuestCartToken(value, getSecret()) : null;
+}
+
+export async function writeGuestCartCookie(token: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(GUEST_CART_COOKIE, signGuestCartToken(token, getSecret()), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: GUEST_CART_MAX_AGE,
+    path: '/',
+  });
+}
+
+export async function clearGuestCartCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(GUEST_CART_COOKIE);
+}
+
+/**
+ * Merges the visitor's guest cart, if they have one, into the cart of the
+ * customer who has just signed in or registered, then forgets it. A failed
+ * merge is logged and leaves the guest cart for the next sign-in rather
+ * than failing the sign-in.
+ */
+export async function mergeGuestCartOnSignIn(customerId: string): Promise<void> {
+  const token = await readGuestCartToken();
+  if (!token) {
+    return;
+  }
+
+  const result = await cartService.mergeGuestCart(customerId, token);
+  if (!result.success) {
+    logger.warn('Guest cart was not merged', {
+      action: 'mergeGuestCartOnSignIn',
+      customerId,
+      error: result.error?.message,
+    });
+    return;
+  }
+
+  await clearGuestCartCookie();
+}
@@ -1,3 +1,5 @@
 // Cart service exports
 export * from './cart.service';
 export * from './cart.types';
+export * from './cart-recovery';
+export * from './cart-recovery.service';
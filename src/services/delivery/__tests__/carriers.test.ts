@@ -0,0 +1,70 @@
+import { FakeCarrier, ManualCarrier, trackingUrlFromTemplate } from '../carriers';
+import { CarrierAdapter, ConsignmentRequest } from '../delivery.types';
+
+const request: ConsignmentRequest = {
+  orderId: 'order-1',
+  reference: 'ORDER1',
+  recipientName: 'Amira Ben Salah',
+  phone: '+21620123456',
+  addressLine: '12 rue de Marseille',
+  city: 'Tunis',
+  codAmount: 54.5,
+};
+
+describe('carriers', () => {
+  describe('trackingUrlFromTemplate', () => {
+    it('should fill the tracking number placeholder', () => {
+      expect(trackingUrlFromTemplate('https://carrier.example.tn/suivi?code={trackingNumber}', ' TN123 ')).toBe(
+        'https://carrier.example.tn/suivi?code=TN123'
+      );
+    });
+
+    it('should encode the tracking number', () => {
+      expect(trackingUrlFromTemplate('https://carrier.example.tn/{trackingNumber}', 'A/B 1')).toBe(
+        'https://carrier.example.tn/A%2FB%201'
+      );
+    });
+
+    it('should give no link without a template or placeholder', () => {
+      expect(trackingUrlFromTemplate(undefined, 'TN123')).toBe(undefined);
+      expect(trackingUrlFromTemplate('https://carrier.example.tn/suivi', 'TN123')).toBe(undefined);
+    });
+  });
+
+  describe('ManualCarrier', () => {
+    it('should link to the configured tracking page', () => {
+      const carrier: CarrierAdapter = new ManualCarrier(
+        'manual',
+        'Transporteur',
+        'https://carrier.example.tn/{trackingNumber}'
+      );
+
+      expect(carrier.trackingUrl('TN123')).toBe('https://carrier.example.tn/TN123');
+      expect(carrier.createConsignment).toBe(undefined);
+    });
+  });
+
+  describe('FakeCarrier', () => {
+    it('should keep new consignments in transit', async () => {
+      const carrier = new FakeCarrier();
+      const { trackingNumber } = await carrier.createConsignment(request);
+
+      expect(trackingNumber.startsWith('FAKE')).toBe(true);
+      expect(await carrier.getStatus(trackingNumber)).toBe('in_transit');
+      expect(carrier.getConsignment(trackingNumber)?.codAmount).toBe(54.5);
+    });
+
+    it('should report the status set on a consignment', async () => {
+      const carrier = new FakeCarrier();
+      const { trackingNumber } = await carrier.createConsignment(request);
+
+      carrier.setStatus(trackingNumber, 'delivered');
+
+      expect(await carrier.getStatus(trackingNumber)).toBe('delivered');
+    });
+
+    it('should reject unknown tracking numbers', () => {
+      expect(() => new FakeCarrier().setStatus('FAKE0000', 'delivered')).toThrow('Unknown fake consignment');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { findGovernorate, quoteDelivery } from '../delivery-zones';
+import { DeliveryZone } from '../delivery.types';
+
+describe('delivery-zones', () => {
+  describe('findGovernorate', () => {
+    it('should recognise Arabic and Latin spellings of a governorate', () => {
+      expect(findGovernorate('صفاقس')?.code).toBe('sfax');
+      expect(findGovernorate('  SFAX ')?.code).toBe('sfax');
+      expect(findGovernorate('منستير')?.code).toBe('monastir');
+      expect(findGovernorate('Béja')?.code).toBe('beja');
+      expect(findGovernorate('إريانة')?.code).toBe('ariana');
+    });
+
+    it('should find the governorate within a longer city name', () => {
+      expect(findGovernorate('Sfax Ville')?.code).toBe('sfax');
+      expect(findGovernorate('سوسة المدينة')?.code).toBe('sousse');
+      expect(findGovernorate('Sidi Bouzid Est')?.code).toBe('sidi_bouzid');
+    });
+
+    it('should not match part of another word', () => {
+      expect(findGovernorate('Tunisia Mall')).toBeUndefined();
+      expect(findGovernorate('')).toBeUndefined();
+    });
+  });
+
+  describe('quoteDelivery', () => {
+    const zones: DeliveryZone[] = [
+      { id: 'z1', name: 'الساحل', fee: 5, freeDeliveryThreshold: 150, isDeliverable: true, governorates: ['sousse'] },
+      { id: 'z2', name: 'الجنوب', fee: 0, isDeliverable: false, governorates: ['tataouine'] },
+    ];
+    const defaults = { fee: 8, freeDeliveryThreshold: 200 };
+
+    it("should use the zone of the city's governorate", () => {
+      expect(quoteDelivery(zones, 'Sousse', defaults)).toEqual({
+        deliverable: true,
+        fee: 5,
+        freeDeliveryThreshold: 150,
+        governorate: 'sousse',
+        zoneId: 'z1',
+        zoneName: 'الساحل',
+      });
+    });
+
+    it('should report undeliverable zones', () => {
+      expect(quoteDelivery(zones, 'تطاوين', defaults).deliverable).toBe(false);
+    });
+
+    it('should fall back to the store-wide fee outside every zone', () => {
+      expect(quoteDelivery(zones, 'Sfax', defaults)).toEqual({
+        deliverable: true,
+        fee: 8,
+        freeDeliveryThreshold: 200,
+        governorate: 'sfax',
+      });
+      expect(quoteDelivery(zones, undefined, defaults).fee).toBe(8);
+    });
+  });
+});
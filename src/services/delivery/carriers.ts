@@ -0,0 +1,90 @@
+// Carriers orders are shipped with. The manual carrier takes the tracking
+// number from the admin; the fake carrier stands in for a carrier API in
+// development and tests.
+import { ShipmentStatus } from '@/types/business';
+import { randomUUID } from 'crypto';
+import { CarrierAdapter, Consignment, ConsignmentRequest } from './delivery.types';
+
+// Fills the {trackingNumber} placeholder of a carrier's tracking page address
+export function trackingUrlFromTemplate(template: string | undefined, trackingNumber: string): string | undefined {
+  if (!template || !template.includes('{trackingNumber}')) {
+    return undefined;
+  }
+  return template.replace('{trackingNumber}', encodeURIComponent(trackingNumber.trim()));
+}
+
+/**
+ * A carrier without an API. The admin enters the tracking number from the
+ * carrier's receipt and marks the order delivered by hand.
+ */
+export class ManualCarrier implements CarrierAdapter {
+  constructor(
+    readonly code: string,
+    readonly name: string,
+    // e.g. https://carrier.example.tn/suivi?code={trackingNumber}
+    private readonly trackingUrlTemplate?: string
+  ) {}
+
+  trackingUrl(trackingNumber: string): string | undefined {
+    return trackingUrlFromTemplate(this.trackingUrlTemplate, trackingNumber);
+  }
+}
+
+/**
+ * A carrier on this machine. Consignments are kept in memory and stay in
+ * transit until setStatus delivers or returns them.
+ */
+export class FakeCarrier implements CarrierAdapter {
+  readonly code = 'fake';
+  readonly name = 'Fake carrier';
+  private readonly consignments = new Map<string, { request: ConsignmentRequest; status: ShipmentStatus }>();
+
+  async createConsignment(request: ConsignmentRequest): Promise<Consignment> {
+    const trackingNumber = `FAKE${randomUUID().replace(/-/g, '').slice(0, 10).toUpperCase()}`;
+    this.consignments.set(trackingNumber, { request, status: 'in_transit' });
+
+    return { trackingNumber };
+  }
+
+  async getStatus(trackingNumber: string): Promise<ShipmentStatus> {
+    const consignment = this.consignments.get(trackingNumber);
+    if (!consignment) {
+      throw new Error(`Unknown fake consignment ${trackingNumber}`);
+    }
+    return consignment.status;
+  }
+
+  trackingUrl(): string | undefined {
+    return undefined;
+  }
+
+  getConsignment(trackingNumber: string): ConsignmentRequest | undefined {
+    return this.consignments.get(trackingNumber)?.request;
+  }
+
+  // Moves the parcel along, as the carrier would when it reaches the customer
+  setStatus(trackingNumber: string, status: ShipmentStatus): void {
+    const consignment = this.consignments.get(trackingNumber);
+    if (!consignment) {
+      throw new Error(`Unknown fake consignment ${trackingNumber}`);
+    }
+    consignment.status = status;
+  }
+}
+
+// The manual carrier, named and linked from the environment, plus the fake carrier outside production
+export function createDefaultCarriers(): CarrierAdapter[] {
+  const carriers: CarrierAdapter[] = [
+    new ManualCarrier(
+      'manual',
+      process.env.SHIPPING_CARRIER_NAME || 'Transporteur',
+      process.env.SHIPPING_TRACKING_URL
+    ),
+  ];
+
+  if (process.env.NODE_ENV !== 'production') {
+    carriers.push(new FakeCarrier());
+  }
+
+  return carriers;
+}
@@ -0,0 +1,196 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { ServiceResult } from '@/types/common';
+import { Tables } from '@/types/supabase';
+import { getGovernorate } from './delivery-zones';
+import { DeliveryZone, DeliveryZoneInput, DeliveryZoneService } from './delivery.types';
+
+type DeliveryZoneRow = Tables<'delivery_zones'> & {
+  delivery_zone_governorates: Pick<Tables<'delivery_zone_governorates'>, 'governorate'>[];
+};
+
+const DELIVERY_ZONE_SELECT = '*, delivery_zone_governorates (governorate)';
+
+const ZONE_SAVE_ERRORS = ['GOVERNORATE_IN_OTHER_ZONE', 'DELIVERY_ZONE_NOT_FOUND'];
+
+function mapDeliveryZoneRow(row: DeliveryZoneRow): DeliveryZone {
+  return {
+    id: row.id,
+    name: row.name,
+    fee: Number(row.fee) || 0,
+    freeDeliveryThreshold: row.free_delivery_threshold != null ? Number(row.free_delivery_threshold) : undefined,
+    isDeliverable: row.is_deliverable,
+    governorates: (row.delivery_zone_governorates || []).map(item => item.governorate),
+  };
+}
+
+function validateZoneInput(input: DeliveryZoneInput): void {
+  if (!input.name?.trim()) {
+    throw new ValidationError('Zone name is required', 'name', 'REQUIRED');
+  }
+  if (!Number.isFinite(input.fee) || input.fee < 0) {
+    throw new ValidationError('Delivery fee cannot be negative', 'fee', 'INVALID');
+  }
+  if (input.freeDeliveryThreshold !== undefined && !(input.freeDeliveryThreshold > 0)) {
+    throw new ValidationError('Free-delivery threshold must be greater than 0', 'freeDeliveryThreshold', 'INVALID');
+  }
+  if (!input.governorates?.length) {
+    throw new ValidationError('Choose at least one governorate', 'governorates', 'REQUIRED');
+  }
+  const unknown = input.governorates.find(code => !getGovernorate(code));
+  if (unknown) {
+    throw new ValidationError(`Unknown governorate: ${unknown}`, 'governorates', 'INVALID');
+  }
+}
+
+/**
+ * Delivery zones, read by order pricing to quote the delivery fee for a
+ * shipping address and managed from the admin settings page.
+ */
+export class DeliveryZoneServiceImpl implements DeliveryZoneService {
+  async getZones(): Promise<ServiceResult<DeliveryZone[]>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('delivery_zones')
+        .select(DELIVERY_ZONE_SELECT)
+        .order('name', { ascending: true })
+        .returns<DeliveryZoneRow[]>();
+
+      if (error) {
+        logger.error('Failed to fetch delivery zones', error, { action: 'getDeliveryZones' });
+        throw new BusinessError('Failed to fetch delivery zones', 'DELIVERY_ZONES_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapDeliveryZoneRow) };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in getDeliveryZones', error as Error, { action: 'getDeliveryZones' });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while fetching delivery zones',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async createZone(input: DeliveryZoneInput): Promise<ServiceResult<DeliveryZone>> {
+    return this.saveZone(null, input);
+  }
+
+  async updateZone(id: string, input: DeliveryZoneInput): Promise<ServiceResult<DeliveryZone>> {
+    if (!id) {
+      return { success: false, error: { message: 'Zone ID is required', code: 'REQUIRED' } };
+    }
+    return this.saveZone(id, input);
+  }
+
+  async deleteZone(id: string): Promise<ServiceResult<void>> {
+    try {
+      if (!id) {
+        throw new ValidationError('Zone ID is required', 'id', 'REQUIRED');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase.from('delivery_zones').delete().eq('id', id).select('id');
+
+      if (error) {
+        logger.error('Failed to delete delivery zone', error, { action: 'deleteDeliveryZone', zoneId: id });
+        throw new BusinessError('Failed to delete delivery zone', 'DELIVERY_ZONE_DELETE_ERROR');
+      }
+      if (!data?.length) {
+        throw new BusinessError('Delivery zone not found', 'DELIVERY_ZONE_NOT_FOUND');
+      }
+
+      logger.info('Delivery zone deleted', { action: 'deleteDeliveryZone', zoneId: id });
+      return { success: true };
+    } catch (error) {
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error('Error in deleteDeliveryZone', error as Error, { action: 'deleteDeliveryZone', zoneId: id });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while deleting the delivery zone',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // The zone and its governorates are written together by save_delivery_zone
+  private async saveZone(id: string | null, input: DeliveryZoneInput): Promise<ServiceResult<DeliveryZone>> {
+    const action = id ? 'updateDeliveryZone' : 'createDeliveryZone';
+
+    try {
+      validateZoneInput(input);
+
+      const supabase = createServiceRoleClient();
+      const { data: zoneId, error } = await supabase.rpc('save_delivery_zone', {
+        p_zone_id: id,
+        p_name: input.name.trim(),
+        p_fee: input.fee,
+        p_free_delivery_threshold: input.freeDeliveryThreshold ?? null,
+        p_is_deliverable: input.isDeliverable,
+        p_governorates: input.governorates,
+      });
+
+      if (error) {
+        const errorCode = ZONE_SAVE_ERRORS.find(code => error.message?.includes(code));
+        if (errorCode === 'GOVERNORATE_IN_OTHER_ZONE') {
+          throw new BusinessError('A governorate can only belong to one zone', errorCode);
+        }
+        if (errorCode === 'DELIVERY_ZONE_NOT_FOUND') {
+          throw new BusinessError('Delivery zone not found', errorCode);
+        }
+
+        logger.error('Failed to save delivery zone', error, { action, zoneId: id });
+        throw new BusinessError('Failed to save delivery zone', 'DELIVERY_ZONE_SAVE_ERROR');
+      }
+
+      const { data: row, error: fetchError } = await supabase
+        .from('delivery_zones')
+        .select(DELIVERY_ZONE_SELECT)
+        .eq('id', zoneId)
+        .single<DeliveryZoneRow>();
+
+      if (fetchError || !row) {
+        logger.error('Failed to fetch saved delivery zone', fetchError, { action, zoneId });
+        throw new BusinessError('Failed to fetch delivery zone', 'DELIVERY_ZONES_FETCH_ERROR');
+      }
+
+      logger.info('Delivery zone saved', {
+        action,
+        zoneId,
+        fee: input.fee,
+        isDeliverable: input.isDeliverable,
+        governorates: input.governorates,
+      });
+
+      return { success: true, data: mapDeliveryZoneRow(row) };
+    } catch (error) {
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return { success: false, error: { message: error.message, code: error.code } };
+      }
+
+      logger.error(`Error in ${action}`, error as Error, { action, zoneId: id });
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while saving the delivery zone',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+}
+
+export const deliveryZoneService = new DeliveryZoneServiceImpl();
@@ -0,0 +1,110 @@
+// Governorates and delivery quotes, kept free of I/O so the checkout and the
+// admin zone editor can use them in client components too.
+import { DeliveryDefaults, DeliveryQuote, DeliveryZone } from './delivery.types';
+
+export interface Governorate {
+  code: string;
+  name: string;
+  // Other spellings a customer may type for the city, Latin ones included
+  aliases: string[];
+}
+
+export const TUNISIAN_GOVERNORATES: Governorate[] = [
+  { code: 'tunis', name: 'تونس', aliases: ['Tunis'] },
+  { code: 'ariana', name: 'أريانة', aliases: ['Ariana', 'Ariena'] },
+  { code: 'ben_arous', name: 'بن عروس', aliases: ['Ben Arous'] },
+  { code: 'manouba', name: 'منوبة', aliases: ['Manouba', 'La Manouba'] },
+  { code: 'nabeul', name: 'نابل', aliases: ['Nabeul'] },
+  { code: 'zaghouan', name: 'زغوان', aliases: ['Zaghouan'] },
+  { code: 'bizerte', name: 'بنزرت', aliases: ['Bizerte', 'Bizerta'] },
+  { code: 'beja', name: 'باجة', aliases: ['Béja', 'Beja'] },
+  { code: 'jendouba', name: 'جندوبة', aliases: ['Jendouba'] },
+  { code: 'kef', name: 'الكاف', aliases: ['Le Kef', 'El Kef', 'Kef'] },
+  { code: 'siliana', name: 'سليانة', aliases: ['Siliana'] },
+  { code: 'sousse', name: 'سوسة', aliases: ['Sousse'] },
+  { code: 'monastir', name: 'المنستير', aliases: ['Monastir'] },
+  { code: 'mahdia', name: 'المهدية', aliases: ['Mahdia'] },
+  { code: 'sfax', name: 'صفاقس', aliases: ['Sfax'] },
+  { code: 'kairouan', name: 'القيروان', aliases: ['Kairouan'] },
+  { code: 'kasserine', name: 'القصرين', aliases: ['Kasserine'] },
+  { code: 'sidi_bouzid', name: 'سيدي بوزيد', aliases: ['Sidi Bouzid'] },
+  { code: 'gabes', name: 'قابس', aliases: ['Gabès', 'Gabes'] },
+  { code: 'medenine', name: 'مدنين', aliases: ['Médenine', 'Medenine', 'Mednine'] },
+  { code: 'tataouine', name: 'تطاوين', aliases: ['Tataouine'] },
+  { code: 'gafsa', name: 'قفصة', aliases: ['Gafsa'] },
+  { code: 'tozeur', name: 'توزر', aliases: ['Tozeur'] },
+  { code: 'kebili', name: 'قبلي', aliases: ['Kébili', 'Kebili'] },
+];
+
+// Lower case without accents, Arabic letter variants folded together and the
+// Arabic article dropped, so "المنستير", "منستير" and "Monastir" compare alike
+// to their governorate's names
+function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670]/g, '')
+    .toLowerCase()
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[^a-z\u0621-\u064a]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => (word.startsWith('ال') && word.length > 3 ? word.slice(2) : word))
+    .join(' ');
+}
+
+// Every normalized name with its governorate, longest first so "sidi bouzid" is tried before shorter names
+const GOVERNORATE_NAMES = TUNISIAN_GOVERNORATES.flatMap(governorate =>
+  [governorate.name, ...governorate.aliases].map(name => ({ name: normalizePlaceName(name), governorate }))
+).sort((a, b) => b.name.length - a.name.length);
+
+export function getGovernorate(code: string): Governorate | undefined {
+  return TUNISIAN_GOVERNORATES.find(governorate => governorate.code === code);
+}
+
+/**
+ * The governorate a shipping address city is in, recognised when the city is
+ * the governorate's name or contains it as a separate word ("Sfax Ville",
+ * "سوسة المدينة"). Cities known only by their own name are not recognised.
+ */
+export function findGovernorate(city: string): Governorate | undefined {
+  const normalized = normalizePlaceName(city);
+  if (!normalized) {
+    return undefined;
+  }
+
+  const padded = ` ${normalized} `;
+  return GOVERNORATE_NAMES.find(({ name }) => padded.includes(` ${name} `))?.governorate;
+}
+
+/**
+ * The delivery fee and free-delivery threshold for a shipping address city:
+ * its governorate's zone when it has one, otherwise the store-wide defaults.
+ */
+export function quoteDelivery(
+  zones: DeliveryZone[],
+  city: string | undefined,
+  defaults: DeliveryDefaults
+): DeliveryQuote {
+  const governorate = city ? findGovernorate(city) : undefined;
+  const zone = governorate ? zones.find(item => item.governorates.includes(governorate.code)) : undefined;
+
+  if (!zone) {
+    return {
+      deliverable: true,
+      fee: defaults.fee,
+      freeDeliveryThreshold: defaults.freeDeliveryThreshold,
+      governorate: governorate?.code,
+    };
+  }
+
+  return {
+    deliverable: zone.isDeliverable,
+    fee: zone.fee,
+    freeDeliveryThreshold: zone.freeDeliveryThreshold,
+    governorate: governorate?.code,
+    zoneId: zone.id,
+    zoneName: zone.name,
+  };
+}
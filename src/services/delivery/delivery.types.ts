@@ -0,0 +1,108 @@
+import { OrderShipment, ShipmentStatus } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  fee: number;
+  // Orders at or above this amount, after discounts, are delivered free
+  freeDeliveryThreshold?: number;
+  isDeliverable: boolean;
+  // Governorate codes, see TUNISIAN_GOVERNORATES
+  governorates: string[];
+}
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id'>;
+
+// The store-wide fee and threshold, for addresses outside every zone
+export interface DeliveryDefaults {
+  fee: number;
+  freeDeliveryThreshold?: number;
+}
+
+export interface DeliveryQuote {
+  deliverable: boolean;
+  fee: number;
+  freeDeliveryThreshold?: number;
+  // Set when the city was recognised as one of the governorates
+  governorate?: string;
+  // Set when the governorate belongs to a zone
+  zoneId?: string;
+  zoneName?: string;
+}
+
+export interface DeliveryZoneService {
+  getZones(): Promise<ServiceResult<DeliveryZone[]>>;
+  createZone(input: DeliveryZoneInput): Promise<ServiceResult<DeliveryZone>>;
+  updateZone(id: string, input: DeliveryZoneInput): Promise<ServiceResult<DeliveryZone>>;
+  deleteZone(id: string): Promise<ServiceResult<void>>;
+}
+
+// What a carrier needs to pick up a parcel and deliver it
+export interface ConsignmentRequest {
+  orderId: string;
+  // Short reference printed on the label
+  reference: string;
+  recipientName: string;
+  phone?: string;
+  addressLine: string;
+  city: string;
+  postalCode?: string;
+  // Cash to collect on delivery, 0 for orders paid online
+  codAmount: number;
+}
+
+export interface Consignment {
+  trackingNumber: string;
+  trackingUrl?: string;
+}
+
+/**
+ * A delivery company. Carriers with an API create the consignment themselves
+ * and report deliveries when polled; the others only take the tracking number
+ * the admin copies from the carrier's receipt.
+ */
+export interface CarrierAdapter {
+  readonly code: string;
+  readonly name: string;
+  createConsignment?(request: ConsignmentRequest): Promise<Consignment>;
+  // The parcel's current status at the carrier
+  getStatus?(trackingNumber: string): Promise<ShipmentStatus>;
+  trackingUrl(trackingNumber: string): string | undefined;
+}
+
+// A carrier as offered on the admin ship form
+export interface CarrierOption {
+  code: string;
+  name: string;
+  // When false the admin has to enter the tracking number
+  createsConsignments: boolean;
+}
+
+export interface ShipOrderData {
+  orderId: string;
+  carrier: string;
+  // Required for carriers that do not create consignments
+  trackingNumber?: string;
+  notes?: string;
+}
+
+// The admin shipping the order
+export interface OrderShipper {
+  id?: string;
+  email?: string;
+}
+
+export interface ShipmentPollResult {
+  checked: number;
+  delivered: number;
+  failed: number;
+}
+
+export interface ShipmentService {
+  getCarriers(): CarrierOption[];
+  registerCarrier(carrier: CarrierAdapter): void;
+  getShipment(orderId: string): Promise<ServiceResult<OrderShipment | null>>;
+  shipOrder(data: ShipOrderData, shippedBy: OrderShipper): Promise<ServiceResult<OrderShipment>>;
+  pollShipments(): Promise<ServiceResult<ShipmentPollResult>>;
+}
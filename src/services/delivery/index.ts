@@ -0,0 +1,6 @@
+// Delivery service exports
+export * from './carriers';
+export * from './delivery-zones';
+export * from './delivery-zones.service';
+export * from './delivery.types';
+export * from './shipment.service';
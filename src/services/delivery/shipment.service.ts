@@ -0,0 +1,300 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { OrderShipment, ShipmentStatus } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { OrderStatus, PaymentMethod } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { mapOrderShipmentRow } from '../orders/order-shipment';
+import { assertOrderStatusTransition, fromOrderStatusDbValue } from '../orders/order-status';
+import { orderService } from '../orders/orders.service';
+import { createDefaultCarriers } from './carriers';
+import {
+  CarrierAdapter,
+  CarrierOption,
+  ConsignmentRequest,
+  OrderShipper,
+  ShipmentPollResult,
+  ShipmentService,
+  ShipOrderData,
+} from './delivery.types';
+
+type ShipmentRow = Tables<'shipments'>;
+
+type ShippingOrderRow = Pick<
+  Tables<'orders'>,
+  'id' | 'status' | 'payment_method' | 'total_amount' | 'customer_id' | 'shipping_address_id'
+> & {
+  customers: Pick<Tables<'customers'>, 'first_name' | 'last_name'> | null;
+};
+
+// Shipments checked per poll, least recently checked first
+const POLL_BATCH_SIZE = 100;
+
+/**
+ * Shipping orders with a carrier. shipOrder creates the consignment when the
+ * carrier has an API, or takes the admin's tracking number, and moves the
+ * order to Shipped; updateOrderStatus stores the shipment. pollShipments,
+ * run by the shipments cron job, asks the carriers about parcels in transit
+ * and moves delivered ones to Delivered.
+ */
+export class ShipmentServiceImpl implements ShipmentService {
+  private readonly carriers = new Map<string, CarrierAdapter>();
+
+  constructor(carriers: CarrierAdapter[] = createDefaultCarriers()) {
+    carriers.forEach(carrier => this.registerCarrier(carrier));
+  }
+
+  getCarriers(): CarrierOption[] {
+    return [...this.carriers.values()].map(carrier => ({
+      code: carrier.code,
+      name: carrier.name,
+      createsConsignments: typeof carrier.createConsignment === 'function',
+    }));
+  }
+
+  // Adds or replaces a carrier, e.g. with a FakeCarrier in tests
+  registerCarrier(carrier: CarrierAdapter): void {
+    this.carriers.set(carrier.code, carrier);
+  }
+
+  async getShipment(orderId: string): Promise<ServiceResult<OrderShipment | null>> {
+    try {
+      if (!orderId) {
+        throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase.from('shipments').select('*').eq('order_id', orderId).maybeSingle();
+
+      if (error) {
+        logger.error('Failed to fetch shipment', error, { action: 'getShipment', orderId });
+        throw new BusinessError('Failed to fetch shipment', 'SHIPMENT_FETCH_ERROR');
+      }
+
+      return { success: true, data: data ? mapOrderShipmentRow(data) : null };
+    } catch (error) {
+      logger.error('Error in getShipment', error as Error, { action: 'getShipment', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while fetching the shipment');
+    }
+  }
+
+  async shipOrder(data: ShipOrderData, shippedBy: OrderShipper): Promise<ServiceResult<OrderShipment>> {
+    try {
+      if (!data.orderId) {
+        throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+      }
+
+      const carrier = this.carriers.get(data.carrier);
+      if (!carrier) {
+        throw new ValidationError('Unknown carrier', 'carrier', 'INVALID');
+      }
+      const trackingNumber = data.trackingNumber?.trim();
+      if (!carrier.createConsignment && !trackingNumber) {
+        throw new ValidationError('Tracking number is required', 'trackingNumber', 'REQUIRED');
+      }
+
+      const order = await this.loadOrder(data.orderId);
+      // Checked before the carrier is asked to pick the parcel up
+      assertOrderStatusTransition(fromOrderStatusDbValue(order.status), OrderStatus.SHIPPED);
+
+      const consignment =
+        carrier.createConsignment && !trackingNumber
+          ? await carrier.createConsignment(await this.consignmentRequest(order))
+          : { trackingNumber: trackingNumber! };
+      const trackingUrl = consignment.trackingUrl || carrier.trackingUrl(consignment.trackingNumber);
+
+      const result = await orderService.updateOrderStatus({
+        orderId: order.id,
+        status: OrderStatus.SHIPPED,
+        notes: data.notes,
+        trackingNumber: consignment.trackingNumber,
+        carrier: carrier.code,
+        carrierName: carrier.name,
+        trackingUrl,
+        updatedBy: shippedBy.id,
+        updatedByEmail: shippedBy.email,
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      logger.info('Order shipped', {
+        action: 'shipOrder',
+        orderId: order.id,
+        carrier: carrier.code,
+        trackingNumber: consignment.trackingNumber,
+      });
+
+      return {
+        success: true,
+        data: result.data?.shipment ?? {
+          carrier: carrier.code,
+          carrierName: carrier.name,
+          trackingNumber: consignment.trackingNumber,
+          trackingUrl,
+          status: 'in_transit',
+          shippedAt: new Date(),
+        },
+      };
+    } catch (error) {
+      logger.error('Error in shipOrder', error as Error, { action: 'shipOrder', orderId: data.orderId });
+      return toErrorResult(error, 'An unexpected error occurred while shipping the order');
+    }
+  }
+
+  async pollShipments(): Promise<ServiceResult<ShipmentPollResult>> {
+    try {
+      const polledCarriers = [...this.carriers.values()].filter(carrier => carrier.getStatus).map(({ code }) => code);
+      const summary: ShipmentPollResult = { checked: 0, delivered: 0, failed: 0 };
+      if (polledCarriers.length === 0) {
+        return { success: true, data: summary };
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: rows, error } = await supabase
+        .from('shipments')
+        .select('*')
+        .eq('status', 'in_transit')
+        .in('carrier', polledCarriers)
+        .order('last_checked_at', { ascending: true, nullsFirst: true })
+        .limit(POLL_BATCH_SIZE);
+
+      if (error) {
+        logger.error('Failed to fetch shipments in transit', error, { action: 'pollShipments' });
+        throw new BusinessError('Failed to fetch shipments', 'SHIPMENT_FETCH_ERROR');
+      }
+
+      for (const row of rows || []) {
+        summary.checked += 1;
+
+        let status: ShipmentStatus;
+        try {
+          status = await this.carriers.get(row.carrier)!.getStatus!(row.tracking_number);
+        } catch (carrierError) {
+          summary.failed += 1;
+          logger.warn('Failed to get shipment status from carrier', {
+            action: 'pollShipments',
+            orderId: row.order_id,
+            carrier: row.carrier,
+            error: (carrierError as Error).message,
+          });
+          continue;
+        }
+
+        if (status === 'delivered') {
+          if (await this.markOrderDelivered(row)) {
+            summary.delivered += 1;
+          } else {
+            summary.failed += 1;
+          }
+        }
+
+        await this.recordCheck(row, status);
+      }
+
+      logger.info('Shipments polled', { action: 'pollShipments', ...summary });
+      return { success: true, data: summary };
+    } catch (error) {
+      logger.error('Error in pollShipments', error as Error, { action: 'pollShipments' });
+      return toErrorResult(error, 'An unexpected error occurred while polling shipments');
+    }
+  }
+
+  private async loadOrder(orderId: string): Promise<ShippingOrderRow> {
+    const supabase = createServiceRoleClient();
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, status, payment_method, total_amount, customer_id, shipping_address_id, customers (first_name, last_name)')
+      .eq('id', orderId)
+      .maybeSingle<ShippingOrderRow>();
+
+    if (error) {
+      logger.error('Failed to fetch order for shipping', error, { action: 'shipOrder', orderId });
+      throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+    }
+    if (!order) {
+      throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    return order;
+  }
+
+  // The order's shipping address, or the customer's latest one for orders placed without it
+  private async consignmentRequest(order: ShippingOrderRow): Promise<ConsignmentRequest> {
+    const supabase = createServiceRoleClient();
+    const { data: address, error } = order.shipping_address_id
+      ? await supabase.from('addresses').select('*').eq('id', order.shipping_address_id).maybeSingle()
+      : await supabase
+          .from('addresses')
+          .select('*')
+          .eq('customer_id', order.customer_id || '')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch shipping address', error, { action: 'shipOrder', orderId: order.id });
+      throw new BusinessError('Failed to fetch shipping address', 'ADDRESS_FETCH_ERROR');
+    }
+    if (!address) {
+      throw new BusinessError('Order has no shipping address', 'SHIPPING_ADDRESS_MISSING', 'low', {
+        orderId: order.id,
+      });
+    }
+
+    return {
+      orderId: order.id,
+      reference: order.id.slice(-8).toUpperCase(),
+      recipientName: [order.customers?.first_name, order.customers?.last_name].filter(Boolean).join(' '),
+      phone: address.phone_number || undefined,
+      addressLine: [address.address_line_1, address.address_line_2].filter(Boolean).join(', '),
+      city: address.city,
+      postalCode: address.postal_code || undefined,
+      codAmount: order.payment_method === PaymentMethod.CASH_ON_DELIVERY ? Number(order.total_amount) : 0,
+    };
+  }
+
+  private async markOrderDelivered(row: ShipmentRow): Promise<boolean> {
+    const result = await orderService.updateOrderStatus({
+      orderId: row.order_id,
+      status: OrderStatus.DELIVERED,
+      notes: `Delivered by ${row.carrier_name || row.carrier}`,
+    });
+
+    if (!result.success) {
+      logger.warn('Failed to mark shipped order delivered', {
+        action: 'pollShipments',
+        orderId: row.order_id,
+        error: result.error?.message,
+      });
+    }
+    return result.success;
+  }
+
+  // Parcels the carrier returned or delivered leave the polling set, whatever became of the order
+  private async recordCheck(row: ShipmentRow, status: ShipmentStatus): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('shipments')
+      .update({
+        status,
+        last_checked_at: now,
+        ...(status === 'delivered' ? { delivered_at: row.delivered_at || now } : {}),
+      })
+      .eq('id', row.id);
+
+    if (error) {
+      logger.warn('Failed to record shipment check', {
+        action: 'pollShipments',
+        orderId: row.order_id,
+        error: error.message,
+      });
+    }
+  }
+}
+
+export const shipmentService = new ShipmentServiceImpl();
@@ -1,60 +1,193 @@
 import { logger } from '@/lib/logger';
 import { BusinessError } from '@/lib/errors';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+export type DiscountType = 'percentage' | 'fixed';
+export type DiscountTarget = 'all' | 'products' | 'categories';
 
 export interface DiscountCode {
+  id: string;
   code: string;
-  type: 'percentage' | 'fixed';
+  description?: string;
+  type: DiscountType;
   value: number;
   minOrderAmount?: number;
   maxDiscount?: number;
+  startsAt?: Date;
   expiresAt?: Date;
   usageLimit?: number;
+  perCustomerLimit?: number;
+  // Only this customer may use the code, e.g. an abandoned cart recovery coupon
+  customerId?: string;
   usedCount: number;
+  appliesTo: DiscountTarget;
+  productIds: string[];
+  categoryIds: string[];
   isActive: boolean;
 }
 
+// A priced line the discount may apply to
+export interface DiscountableItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface DiscountValidationContext {
+  customerId?: string;
+  items?: DiscountableItem[];
+}
+
 export interface DiscountValidationResult {
   isValid: boolean;
   discount?: DiscountCode;
   discountAmount?: number;
   error?: string;
+  errorCode?: string;
+}
+
+export interface DiscountRedemptionData {
+  orderId: string;
+  customerId?: string;
+  amount: number;
+}
+
+// Errors raised by the redeem_discount_code database function
+const REDEMPTION_ERRORS: Record<string, string> = {
+  DISCOUNT_NOT_FOUND: 'Invalid discount code',
+  DISCOUNT_INACTIVE: 'Discount code is no longer active',
+  DISCOUNT_NOT_STARTED: 'Discount code is not active yet',
+  DISCOUNT_EXPIRED: 'Discount code has expired',
+  DISCOUNT_USAGE_LIMIT_REACHED: 'Discount code usage limit reached',
+  DISCOUNT_CUSTOMER_LIMIT_REACHED: 'You have already used this discount code',
+  DISCOUNT_CUSTOMER_NOT_ELIGIBLE: 'This discount code is not available for your account',
+};
+
+// Maps an error from redeem_discount_code, also raised when it runs inside order creation
+export function discountRedemptionError(message?: string): BusinessError | undefined {
+  const errorCode = Object.keys(REDEMPTION_ERRORS).find(key => message?.includes(key));
+  return errorCode ? new BusinessError(REDEMPTION_ERRORS[errorCode], errorCode, 'low') : undefined;
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Discount for an order. Percentage and fixed discounts only apply to the
+ * eligible part of the order, and never exceed it.
+ */
+export function calculateDiscountAmount(discount: DiscountCode, eligibleAmount: number): number {
+  if (eligibleAmount <= 0) {
+    return 0;
+  }
+
+  let discountAmount = discount.type === 'percentage' ? (eligibleAmount * discount.value) / 100 : discount.value;
+
+  if (discount.maxDiscount && discountAmount > discount.maxDiscount) {
+    discountAmount = discount.maxDiscount;
+  }
+
+  return roundAmount(Math.min(discountAmount, eligibleAmount));
+}
+
+function mapDiscountRow(row: any): DiscountCode {
+  return {
+    id: row.id,
+    code: row.code,
+    description: row.description || undefined,
+    type: row.type,
+    value: Number(row.value),
+    minOrderAmount: row.min_order_amount !== null ? Number(row.min_order_amount) : undefined,
+    maxDiscount: row.max_discount !== null ? Number(row.max_discount) : undefined,
+    startsAt: row.starts_at ? new Date(row.starts_at) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    usageLimit: row.usage_limit ?? undefined,
+    perCustomerLimit: row.per_customer_limit ?? undefined,
+    customerId: row.customer_id ?? undefined,
+    usedCount: row.used_count || 0,
+    appliesTo: row.applies_to || 'all',
+    productIds: (row.discount_code_products || []).map((p: any) => p.product_id),
+    categoryIds: (row.discount_code_categories || []).map((c: any) => c.category_id),
+    isActive: row.is_active,
+  };
 }
 
 export class DiscountService {
-  // Mock discount codes for demonstration
-  private static mockDiscounts: DiscountCode[] = [
-    {
-      code: 'WELCOME10',
-      type: 'percentage',
-      value: 10,
-      minOrderAmount: 50,
-      maxDiscount: 20,
-      isActive: true,
-      usedCount: 0,
-      usageLimit: 100,
-    },
-    {
-      code: 'SAVE5',
-      type: 'fixed',
-      value: 5,
-      minOrderAmount: 25,
-      isActive: true,
-      usedCount: 0,
-      usageLimit: 50,
-    },
-    {
-      code: 'HONEY20',
-      type: 'percentage',
-      value: 20,
-      minOrderAmount: 100,
-      maxDiscount: 50,
-      isActive: true,
-      usedCount: 0,
-      usageLimit: 25,
-    },
-  ];
-
-  static async validateDiscountCode(code: string, orderAmount: number): Promise<DiscountValidationResult> {
+  static async getDiscountByCode(code: string): Promise<DiscountCode | null> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .select(
+        `
+        *,
+        discount_code_products (product_id),
+        discount_code_categories (category_id)
+      `
+      )
+      .eq('code', normalizeDiscountCode(code))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch discount code', error, {
+        component: 'DiscountService',
+        action: 'getDiscountByCode',
+      });
+      throw new BusinessError('Failed to fetch discount code', 'DISCOUNT_FETCH_ERROR');
+    }
+
+    return data ? mapDiscountRow(data) : null;
+  }
+
+  // Part of the order the discount applies to
+  private static async getEligibleAmount(
+    discount: DiscountCode,
+    orderAmount: number,
+    items?: DiscountableItem[]
+  ): Promise<number> {
+    if (discount.appliesTo === 'all') {
+      return orderAmount;
+    }
+    if (!items || items.length === 0) {
+      return 0;
+    }
+
+    let eligibleProductIds = new Set(discount.productIds);
+
+    if (discount.appliesTo === 'categories') {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('product_categories')
+        .select('product_id')
+        .in('product_id', items.map(item => item.productId))
+        .in('category_id', discount.categoryIds);
+
+      if (error) {
+        logger.error('Failed to fetch product categories for discount', error, {
+          component: 'DiscountService',
+          action: 'getEligibleAmount',
+          code: discount.code,
+        });
+        throw new BusinessError('Failed to validate discount code', 'DISCOUNT_VALIDATION_ERROR');
+      }
+
+      eligibleProductIds = new Set((data || []).map((row: any) => row.product_id));
+    }
+
+    return items
+      .filter(item => eligibleProductIds.has(item.productId))
+      .reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  }
+
+  static async validateDiscountCode(
+    code: string,
+    orderAmount: number,
+    context: DiscountValidationContext = {}
+  ): Promise<DiscountValidationResult> {
     try {
       logger.info('Validating discount code', {
         component: 'DiscountService',
@@ -63,13 +196,13 @@ export class DiscountService {
         orderAmount,
       });
 
-      // Find the discount code
-      const discount = this.mockDiscounts.find(d => d.code.toLowerCase() === code.toLowerCase());
+      const discount = await this.getDiscountByCode(code);
 
       if (!discount) {
         return {
           isValid: false,
           error: 'Invalid discount code',
+          errorCode: 'DISCOUNT_NOT_FOUND',
         };
       }
 
@@ -78,44 +211,86 @@ export class DiscountService {
         return {
           isValid: false,
           error: 'Discount code is no longer active',
+          errorCode: 'DISCOUNT_INACTIVE',
         };
       }
 
-      // Check expiration
-      if (discount.expiresAt && new Date() > discount.expiresAt) {
+      // Check validity period
+      const now = new Date();
+      if (discount.startsAt && now < discount.startsAt) {
+        return {
+          isValid: false,
+          error: 'Discount code is not active yet',
+          errorCode: 'DISCOUNT_NOT_STARTED',
+        };
+      }
+      if (discount.expiresAt && now > discount.expiresAt) {
         return {
           isValid: false,
           error: 'Discount code has expired',
+          errorCode: 'DISCOUNT_EXPIRED',
         };
       }
 
-      // Check usage limit
+      // Check usage limits
       if (discount.usageLimit && discount.usedCount >= discount.usageLimit) {
         return {
           isValid: false,
           error: 'Discount code usage limit reached',
+          errorCode: 'DISCOUNT_USAGE_LIMIT_REACHED',
         };
       }
 
+      if (discount.customerId && discount.customerId !== context.customerId) {
+        return {
+          isValid: false,
+          error: 'This discount code is not available for your account',
+          errorCode: 'DISCOUNT_CUSTOMER_NOT_ELIGIBLE',
+        };
+      }
+
+      if (discount.perCustomerLimit && context.customerId) {
+        const supabase = createServiceRoleClient();
+        const { count, error } = await supabase
+          .from('discount_redemptions')
+          .select('id', { count: 'exact', head: true })
+          .eq('discount_code_id', discount.id)
+          .eq('customer_id', context.customerId);
+
+        if (error) {
+          throw error;
+        }
+
+        if ((count || 0) >= discount.perCustomerLimit) {
+          return {
+            isValid: false,
+            error: 'You have already used this discount code',
+            errorCode: 'DISCOUNT_CUSTOMER_LIMIT_REACHED',
+          };
+        }
+      }
+
       // Check minimum order amount
       if (discount.minOrderAmount && orderAmount < discount.minOrderAmount) {
         return {
           isValid: false,
           error: `Minimum order amount of ${discount.minOrderAmount} required`,
+          errorCode: 'DISCOUNT_MIN_ORDER_AMOUNT',
         };
       }
 
-      // Calculate discount amount
-      let discountAmount = 0;
-      if (discount.type === 'percentage') {
-        discountAmount = (orderAmount * discount.value) / 100;
-        if (discount.maxDiscount && discountAmount > discount.maxDiscount) {
-          discountAmount = discount.maxDiscount;
-        }
-      } else {
-        discountAmount = discount.value;
+      // Check the order contains targeted products or categories
+      const eligibleAmount = await this.getEligibleAmount(discount, orderAmount, context.items);
+      if (eligibleAmount <= 0) {
+        return {
+          isValid: false,
+          error: 'Discount code does not apply to the products in your order',
+          errorCode: 'DISCOUNT_NOT_APPLICABLE',
+        };
       }
 
+      const discountAmount = calculateDiscountAmount(discount, eligibleAmount);
+
       logger.info('Discount code validated successfully', {
         component: 'DiscountService',
         action: 'validateDiscountCode',
@@ -139,24 +314,42 @@ export class DiscountService {
     }
   }
 
-  static async applyDiscountCode(code: string): Promise<void> {
-    try {
-      const discount = this.mockDiscounts.find(d => d.code.toLowerCase() === code.toLowerCase());
-      if (discount) {
-        discount.usedCount += 1;
-        logger.info('Discount code applied', {
-          component: 'DiscountService',
-          action: 'applyDiscountCode',
-          code,
-          newUsedCount: discount.usedCount,
-        });
-      }
-    } catch (error) {
-      logger.error('Failed to apply discount code', error as Error, {
+  /**
+   * Records a redemption against an order. Limits are checked again inside the
+   * database under a row lock, so this is the authoritative check.
+   */
+  static async applyDiscountCode(code: string, redemption: DiscountRedemptionData): Promise<string> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase.rpc('redeem_discount_code', {
+      p_code: normalizeDiscountCode(code),
+      p_order_id: redemption.orderId,
+      p_customer_id: redemption.customerId ?? null,
+      p_amount: redemption.amount,
+    });
+
+    if (error) {
+      logger.warn('Discount code redemption rejected', {
         component: 'DiscountService',
         action: 'applyDiscountCode',
         code,
+        orderId: redemption.orderId,
+        error: error.message,
       });
+
+      throw (
+        discountRedemptionError(error.message) ??
+        new BusinessError('Failed to apply discount code', 'DISCOUNT_REDEMPTION_ERROR')
+      );
     }
+
+    logger.info('Discount code applied', {
+      component: 'DiscountService',
+      action: 'applyDiscountCode',
+      code,
+      orderId: redemption.orderId,
+      amount: redemption.amount,
+    });
+
+    return data as string;
   }
-}
\ No newline at end of file
+}
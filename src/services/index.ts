@@ -1,7 +1,15 @@
 // Services export file
 export * from './auth';
 export * from './cart';
+export * from './delivery';
 export * from './discounts';
+export * from './inventory';
+export * from './invoices';
+export * from './notifications';
 export * from './orders';
+export * from './payments';
 export * from './products';
+export * from './refunds';
+export * from './reviews';
 export * from './store-settings';
+export * from './wishlist';
@@ -0,0 +1,3 @@
+// Inventory service exports
+export * from './inventory.service';
+export * from './inventory.types';
@@ -0,0 +1,265 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { alertConfig, checkLowStockAlert } from '@/lib/monitoring/alerts';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { mapProductVariantRow } from '@/services/products';
+import { wishlistService } from '@/services/wishlist/wishlist.service';
+import { ServiceResult } from '@/types/common';
+import { InventoryMovementReason } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { AdjustStockData, InventoryMovement, InventoryService, StockHistory, StockLevel } from './inventory.types';
+
+type StockProductRow = Pick<Tables<'products'>, 'id' | 'name' | 'stock' | 'low_stock_threshold'>;
+
+// Errors raised by the adjust_product_stock database function
+const STOCK_ADJUSTMENT_ERRORS: Record<string, string> = {
+  INVALID_STOCK_REASON: 'Stock can only be restocked or adjusted by hand',
+  INVALID_QUANTITY: 'Enter a quantity other than 0; restocks must add units',
+  INSUFFICIENT_STOCK: 'Stock cannot go below 0',
+  PRODUCT_NOT_FOUND: 'Product not found',
+  VARIANT_REQUIRED: 'Choose which variant of the product to adjust',
+  VARIANT_NOT_FOUND: 'Variant not found for this product',
+};
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+export function mapInventoryMovementRow(row: Tables<'inventory_movements'>): InventoryMovement {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    variantId: row.variant_id || undefined,
+    quantityChange: row.quantity_change,
+    stockAfter: row.stock_after,
+    reason: row.reason as InventoryMovementReason,
+    orderId: row.order_id || undefined,
+    note: row.note || undefined,
+    createdBy: row.created_by || undefined,
+    createdByEmail: row.created_by_email || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toStockLevel(row: StockProductRow): StockLevel {
+  const lowStockThreshold = row.low_stock_threshold ?? alertConfig.getRule('low_stock')?.threshold ?? 0;
+
+  return {
+    productId: row.id,
+    productName: row.name,
+    stock: row.stock,
+    lowStockThreshold,
+    hasCustomThreshold: row.low_stock_threshold !== null,
+    isLowStock: row.stock <= lowStockThreshold,
+  };
+}
+
+export class InventoryServiceImpl implements InventoryService {
+  /**
+   * Current stock of a product with its most recent ledger entries, newest
+   * first.
+   */
+  async getStockHistory(productId: string, limit = DEFAULT_HISTORY_LIMIT): Promise<ServiceResult<StockHistory>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const [
+        { data: product, error: productError },
+        { data: variantRows, error: variantsError },
+        { data: movementRows, error: movementsError },
+      ] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, stock, low_stock_threshold')
+          .eq('id', productId)
+          .maybeSingle<StockProductRow>(),
+        supabase.from('product_variants').select('*').eq('product_id', productId).order('sort_order'),
+        supabase
+          .from('inventory_movements')
+          .select('*')
+          .eq('product_id', productId)
+          .order('created_at', { ascending: false })
+          .limit(limit),
+      ]);
+
+      const fetchError = productError || variantsError || movementsError;
+      if (fetchError) {
+        logger.error('Failed to fetch stock history', fetchError, {
+          action: 'getStockHistory',
+          productId,
+        });
+        throw new BusinessError('Failed to fetch stock history', 'STOCK_HISTORY_FETCH_ERROR');
+      }
+      if (!product) {
+        throw new BusinessError('Product not found', 'PRODUCT_NOT_FOUND');
+      }
+
+      return {
+        success: true,
+        data: {
+          ...toStockLevel(product),
+          variants: (variantRows || []).map(mapProductVariantRow),
+          movements: (movementRows || []).map(mapInventoryMovementRow),
+        },
+      };
+    } catch (error) {
+      logger.error('Error in getStockHistory', error as Error, {
+        action: 'getStockHistory',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while loading stock history');
+    }
+  }
+
+  /**
+   * Records a restock or a manual correction. The change is applied to the
+   * current count in the database, so sales made while the admin was typing
+   * are not overwritten.
+   */
+  async adjustStock(data: AdjustStockData): Promise<ServiceResult<StockLevel>> {
+    try {
+      if (!Number.isInteger(data.quantityChange) || data.quantityChange === 0) {
+        throw new ValidationError('Quantity must be a whole number other than 0', 'INVALID_QUANTITY', 'quantityChange');
+      }
+      if (data.reason === InventoryMovementReason.RESTOCK && data.quantityChange < 0) {
+        throw new ValidationError('A restock must add units', 'INVALID_QUANTITY', 'quantityChange');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: product, error } = await supabase
+        .rpc('adjust_product_stock', {
+          p_product_id: data.productId,
+          p_quantity_change: data.quantityChange,
+          p_reason: data.reason,
+          p_note: data.note?.trim() || null,
+          p_user_id: data.adjustedBy ?? null,
+          p_user_email: data.adjustedByEmail ?? null,
+          p_variant_id: data.variantId ?? null,
+        })
+        .single<StockProductRow>();
+
+      if (error || !product) {
+        const errorCode = Object.keys(STOCK_ADJUSTMENT_ERRORS).find(key => error?.message?.includes(key));
+        if (errorCode) {
+          throw new BusinessError(STOCK_ADJUSTMENT_ERRORS[errorCode], errorCode, 'low', {
+            productId: data.productId,
+            variantId: data.variantId,
+          });
+        }
+
+        logger.error('Failed to adjust stock', error as Error, {
+          action: 'adjustStock',
+          productId: data.productId,
+        });
+        throw new BusinessError('Failed to adjust stock', 'STOCK_ADJUSTMENT_ERROR');
+      }
+
+      const level = toStockLevel(product);
+      checkLowStockAlert(level.productId, level.stock, level.lowStockThreshold, { productName: level.productName });
+      if (level.stock > 0 && level.stock - data.quantityChange <= 0) {
+        await wishlistService.notifyBackInStock(level.productId);
+      }
+
+      logger.info('Stock adjusted', {
+        action: 'adjustStock',
+        productId: data.productId,
+        variantId: data.variantId,
+        reason: data.reason,
+        quantityChange: data.quantityChange,
+        stock: level.stock,
+      });
+
+      return { success: true, data: level };
+    } catch (error) {
+      logger.error('Error in adjustStock', error as Error, {
+        action: 'adjustStock',
+        productId: data.productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while adjusting stock');
+    }
+  }
+
+  /**
+   * Sets the level at which a product raises a low-stock alert. Null falls
+   * back to the low_stock alert rule.
+   */
+  async setLowStockThreshold(productId: string, threshold: number | null): Promise<ServiceResult<StockLevel>> {
+    try {
+      if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) {
+        throw new ValidationError('Threshold must be a whole number of 0 or more', 'INVALID', 'lowStockThreshold');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const { data: product, error } = await supabase
+        .from('products')
+        .update({ low_stock_threshold: threshold })
+        .eq('id', productId)
+        .select('id, name, stock, low_stock_threshold')
+        .maybeSingle<StockProductRow>();
+
+      if (error) {
+        logger.error('Failed to update low-stock threshold', error, {
+          action: 'setLowStockThreshold',
+          productId,
+        });
+        throw new BusinessError('Failed to update low-stock threshold', 'PRODUCT_UPDATE_ERROR');
+      }
+      if (!product) {
+        throw new BusinessError('Product not found', 'PRODUCT_NOT_FOUND');
+      }
+
+      const level = toStockLevel(product);
+      checkLowStockAlert(level.productId, level.stock, level.lowStockThreshold, { productName: level.productName });
+
+      return { success: true, data: level };
+    } catch (error) {
+      logger.error('Error in setLowStockThreshold', error as Error, {
+        action: 'setLowStockThreshold',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while updating the threshold');
+    }
+  }
+
+  /**
+   * Raises the low_stock alert for any of the products at or below their
+   * threshold. Called after stock goes out; never fails the caller.
+   */
+  async checkLowStock(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    try {
+      const supabase = await createClientServer('service_role');
+      const { data: products, error } = await supabase
+        .from('products')
+        .select('id, name, stock, low_stock_threshold')
+        .in('id', Array.from(new Set(productIds)));
+
+      if (error) {
+        logger.warn('Failed to check low stock', {
+          action: 'checkLowStock',
+          error: error.message,
+        });
+        return;
+      }
+
+      (products || []).map(toStockLevel).forEach(level => {
+        checkLowStockAlert(level.productId, level.stock, level.lowStockThreshold, { productName: level.productName });
+      });
+    } catch (error) {
+      logger.warn('Failed to check low stock', {
+        action: 'checkLowStock',
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export const inventoryService = new InventoryServiceImpl();
@@ -0,0 +1,56 @@
+// Inventory service specific types
+import { ProductVariant } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { InventoryMovementReason } from '@/types/enums';
+
+// One entry of the stock ledger
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  // Set when the movement is on one variant of the product
+  variantId?: string;
+  // Positive when units come in, negative when they go out
+  quantityChange: number;
+  stockAfter: number;
+  reason: InventoryMovementReason;
+  orderId?: string;
+  note?: string;
+  createdBy?: string;
+  createdByEmail?: string;
+  createdAt: Date;
+}
+
+export interface StockLevel {
+  productId: string;
+  productName: string;
+  stock: number;
+  // The product's own threshold, or the low_stock alert rule's when it has none
+  lowStockThreshold: number;
+  hasCustomThreshold: boolean;
+  isLowStock: boolean;
+}
+
+export interface StockHistory extends StockLevel {
+  // Stock of each variant, including inactive ones; empty for products without variants
+  variants: ProductVariant[];
+  movements: InventoryMovement[];
+}
+
+// Restocks only add units; adjustments correct the count either way
+export interface AdjustStockData {
+  productId: string;
+  // Required when the product is sold in variants
+  variantId?: string;
+  quantityChange: number;
+  reason: InventoryMovementReason.RESTOCK | InventoryMovementReason.ADJUSTMENT;
+  note?: string;
+  adjustedBy?: string;
+  adjustedByEmail?: string;
+}
+
+export interface InventoryService {
+  getStockHistory(productId: string, limit?: number): Promise<ServiceResult<StockHistory>>;
+  adjustStock(data: AdjustStockData): Promise<ServiceResult<StockLevel>>;
+  setLowStockThreshold(productId: string, threshold: number | null): Promise<ServiceResult<StockLevel>>;
+  checkLowStock(productIds: string[]): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import { splitBidiRuns, visualBidiRuns } from '../bidi';
+
+describe('bidi', () => {
+  describe('splitBidiRuns', () => {
+    it('should keep numbers in their own left-to-right run', () => {
+      expect(splitBidiRuns('رقم الطلب 1234')).toEqual([
+        { text: 'رقم الطلب ', direction: 'rtl' },
+        { text: '1234', direction: 'ltr' },
+      ]);
+    });
+
+    it('should give neutrals between runs of different directions the base direction', () => {
+      expect(splitBidiRuns('FAC-2026-000001 فاتورة', 'rtl')).toEqual([
+        { text: 'FAC-2026-000001', direction: 'ltr' },
+        { text: ' فاتورة', direction: 'rtl' },
+      ]);
+    });
+
+    it('should mirror brackets in right-to-left runs only', () => {
+      expect(splitBidiRuns('الخصم (كود)')).toEqual([{ text: 'الخصم )كود(', direction: 'rtl' }]);
+      expect(splitBidiRuns('(x)', 'ltr')).toEqual([{ text: '(x)', direction: 'ltr' }]);
+    });
+  });
+
+  describe('visualBidiRuns', () => {
+    it('should draw right-to-left lines from their last run', () => {
+      expect(visualBidiRuns('المجموع 12.50').map(run => run.text)).toEqual(['12.50', 'المجموع ']);
+    });
+
+    it('should keep the logical order for left-to-right lines', () => {
+      expect(visualBidiRuns('1 / 2', 'ltr').map(run => run.text)).toEqual(['1 / 2']);
+    });
+  });
+});
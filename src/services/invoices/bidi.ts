@@ -0,0 +1,92 @@
+// Minimal bidirectional text handling for the PDF renderer. The font engine
+// shapes Arabic and reverses each right-to-left run, but it reverses a whole
+// string at once, which would also flip the digits of "الطلب 123". Splitting
+// a line into directional runs first keeps numbers and Latin text readable.
+
+export type TextDirection = 'rtl' | 'ltr';
+
+export interface BidiRun {
+  text: string;
+  direction: TextDirection;
+}
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[0-9A-Za-z\u00C0-\u024F]/;
+
+// Brackets are not mirrored by the font engine, so swap them in RTL runs
+const MIRRORED: Record<string, string> = {
+  '(': ')',
+  ')': '(',
+  '[': ']',
+  ']': '[',
+  '<': '>',
+  '>': '<',
+};
+
+function strongDirection(char: string): TextDirection | undefined {
+  if (RTL_CHAR.test(char)) {
+    return 'rtl';
+  }
+  if (LTR_CHAR.test(char)) {
+    return 'ltr';
+  }
+  return undefined;
+}
+
+export function containsRtl(text: string): boolean {
+  return RTL_CHAR.test(text);
+}
+
+/**
+ * Splits text into runs of one direction, in logical order. Neutral characters
+ * (spaces, punctuation) take the direction of their neighbours when both agree,
+ * and the base direction otherwise.
+ */
+export function splitBidiRuns(text: string, baseDirection: TextDirection = 'rtl'): BidiRun[] {
+  const chars = Array.from(text);
+  const strong = chars.map(strongDirection);
+
+  const resolved = chars.map((_, index) => {
+    if (strong[index]) {
+      return strong[index] as TextDirection;
+    }
+
+    let previous: TextDirection = baseDirection;
+    for (let i = index - 1; i >= 0; i--) {
+      if (strong[i]) {
+        previous = strong[i] as TextDirection;
+        break;
+      }
+    }
+    let next: TextDirection = baseDirection;
+    for (let i = index + 1; i < chars.length; i++) {
+      if (strong[i]) {
+        next = strong[i] as TextDirection;
+        break;
+      }
+    }
+
+    return previous === next ? previous : baseDirection;
+  });
+
+  const runs: BidiRun[] = [];
+  chars.forEach((char, index) => {
+    const direction = resolved[index];
+    const last = runs[runs.length - 1];
+    if (last && last.direction === direction) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, direction });
+    }
+  });
+
+  return runs.map(run =>
+    run.direction === 'rtl' ? { ...run, text: Array.from(run.text, c => MIRRORED[c] ?? c).join('') } : run
+  );
+}
+
+// Runs in the order they are drawn, left to right
+export function visualBidiRuns(text: string, baseDirection: TextDirection = 'rtl'): BidiRun[] {
+  const runs = splitBidiRuns(text, baseDirection);
+  return baseDirection === 'rtl' ? runs.reverse() : runs;
+}
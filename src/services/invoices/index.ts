@@ -0,0 +1,3 @@
+// Invoices service exports
+export * from './invoice.service';
+export * from './invoice.types';
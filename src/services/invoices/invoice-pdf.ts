@@ -0,0 +1,328 @@
+import fontkit from '@pdf-lib/fontkit';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { PDFDocument, PDFFont, PDFPage, rgb } from 'pdf-lib';
+import { TextDirection, containsRtl, visualBidiRuns } from './bidi';
+import { InvoiceDocument } from './invoice.types';
+
+// Cairo covers Arabic and Latin, so one font renders every string on the invoice
+const FONT_DIR = path.join(process.cwd(), 'public', 'fonts');
+const REGULAR_FONT = 'Cairo-Regular.ttf';
+const BOLD_FONT = 'Cairo-Bold.ttf';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM_LIMIT = 110;
+// Details values sit between their labels and the customer block
+const DETAIL_VALUE_WIDTH = RIGHT - 90 - PAGE_WIDTH / 2 - 10;
+
+const TEXT_COLOR = rgb(0.15, 0.15, 0.15);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const ACCENT_COLOR = rgb(0.72, 0.5, 0.05);
+const LINE_COLOR = rgb(0.85, 0.85, 0.85);
+
+// Invisible direction marks (e.g. from toLocaleDateString) have no glyph in the font
+const BIDI_CONTROLS = /[\u200E\u200F\u061C\u202A-\u202E\u2066-\u2069]/g;
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash_on_delivery: 'الدفع عند الاستلام',
+  bank_transfer: 'تحويل بنكي',
+  mobile_payment: 'بطاقة e-Dinar',
+  paypal: 'PayPal',
+};
+
+// Item table columns, right to left; x is the right edge of each column
+const COLUMNS = {
+  product: { x: RIGHT - 8, width: 240 },
+  quantity: { x: 300, width: 60 },
+  unitPrice: { x: 230, width: 90 },
+  total: { x: MARGIN + 90, width: 90 },
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+interface TextOptions {
+  font: PDFFont;
+  size: number;
+  align?: 'left' | 'right' | 'center';
+  color?: ReturnType<typeof rgb>;
+  direction?: TextDirection;
+}
+
+function cleanText(text: string): string {
+  return text.replace(BIDI_CONTROLS, '');
+}
+
+function textWidth(text: string, font: PDFFont, size: number): number {
+  return font.widthOfTextAtSize(cleanText(text), size);
+}
+
+// Draws one line, splitting it into directional runs. x is the anchor for the alignment.
+function drawText(page: PDFPage, text: string, x: number, y: number, options: TextOptions) {
+  const clean = cleanText(text);
+  if (!clean) {
+    return;
+  }
+
+  const { font, size, align = 'right', color = TEXT_COLOR } = options;
+  const direction = options.direction ?? (containsRtl(clean) ? 'rtl' : 'ltr');
+  const runs = visualBidiRuns(clean, direction);
+  const width = runs.reduce((sum, run) => sum + font.widthOfTextAtSize(run.text, size), 0);
+
+  let cursor = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  for (const run of runs) {
+    page.drawText(run.text, { x: cursor, y, size, font, color });
+    cursor += font.widthOfTextAtSize(run.text, size);
+  }
+}
+
+function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (textWidth(text, font, size) <= maxWidth) {
+    return text;
+  }
+
+  let truncated = text;
+  while (truncated.length > 1 && textWidth(`${truncated}…`, font, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}…`;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency === 'TND' ? 'د.ت' : currency}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('ar-TN');
+}
+
+function drawDivider(page: PDFPage, y: number) {
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: RIGHT, y },
+    thickness: 1,
+    color: LINE_COLOR,
+  });
+}
+
+function drawTableHeader(page: PDFPage, y: number, fonts: Fonts): number {
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - 8,
+    width: RIGHT - MARGIN,
+    height: 24,
+    color: rgb(0.97, 0.94, 0.86),
+  });
+
+  const options = { font: fonts.bold, size: 10 };
+  drawText(page, 'المنتج', COLUMNS.product.x, y, options);
+  drawText(page, 'الكمية', COLUMNS.quantity.x, y, options);
+  drawText(page, 'سعر الوحدة', COLUMNS.unitPrice.x, y, options);
+  drawText(page, 'المجموع', COLUMNS.total.x, y, options);
+
+  return y - 28;
+}
+
+async function loadFonts(pdf: PDFDocument): Promise<Fonts> {
+  pdf.registerFontkit(fontkit);
+  const [regularBytes, boldBytes] = await Promise.all([
+    readFile(path.join(FONT_DIR, REGULAR_FONT)),
+    readFile(path.join(FONT_DIR, BOLD_FONT)),
+  ]);
+
+  return {
+    regular: await pdf.embedFont(regularBytes, { subset: true }),
+    bold: await pdf.embedFont(boldBytes, { subset: true }),
+  };
+}
+
+/**
+ * Renders an invoice as an A4 PDF laid out right to left. Pure apart from
+ * reading the bundled fonts; all data comes from the InvoiceDocument.
+ */
+export async function renderInvoicePdf(invoice: InvoiceDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts = await loadFonts(pdf);
+  const isProforma = invoice.kind === 'proforma';
+  const isCreditNote = invoice.kind === 'credit_note';
+  const title = isCreditNote ? 'إشعار دائن' : isProforma ? 'فاتورة أولية' : 'فاتورة';
+  const currency = invoice.store.currency;
+
+  pdf.setTitle(
+    isCreditNote
+      ? `Avoir ${invoice.invoiceNumber}`
+      : isProforma
+        ? `Proforma ${invoice.order.id}`
+        : `Facture ${invoice.invoiceNumber}`
+  );
+  pdf.setCreator(invoice.store.name);
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  // Store header: details on the right, logo on the left
+  if (invoice.store.logo) {
+    try {
+      const image =
+        invoice.store.logo.type === 'png'
+          ? await pdf.embedPng(invoice.store.logo.bytes)
+          : await pdf.embedJpg(invoice.store.logo.bytes);
+      const scaled = image.scaleToFit(90, 60);
+      page.drawImage(image, { x: MARGIN, y: y - scaled.height + 14, width: scaled.width, height: scaled.height });
+    } catch {
+      // An unreadable logo should not prevent the invoice
+    }
+  }
+
+  drawText(page, invoice.store.name, RIGHT, y, { font: fonts.bold, size: 18, color: ACCENT_COLOR });
+  y -= 20;
+  for (const detail of [invoice.store.address, invoice.store.phone, invoice.store.email]) {
+    if (detail) {
+      drawText(page, detail, RIGHT, y, { font: fonts.regular, size: 9, color: MUTED_COLOR });
+      y -= 14;
+    }
+  }
+
+  y = Math.min(y, PAGE_HEIGHT - MARGIN - 80) - 10;
+  drawDivider(page, y);
+  y -= 34;
+
+  drawText(page, title, PAGE_WIDTH / 2, y, { font: fonts.bold, size: 22, align: 'center' });
+  y -= 34;
+
+  // Invoice and order details on the right, customer on the left
+  const details: [string, string][] = [];
+  if (invoice.invoiceNumber) {
+    details.push([isCreditNote ? 'رقم الإشعار' : 'رقم الفاتورة', invoice.invoiceNumber]);
+  }
+  if (invoice.originalInvoiceNumber) {
+    details.push(['الفاتورة الأصلية', invoice.originalInvoiceNumber]);
+  }
+  details.push(['تاريخ الإصدار', formatDate(invoice.issuedAt)]);
+  details.push(['رقم الطلب', `#${invoice.order.id.slice(-8)}`]);
+  details.push(['تاريخ الطلب', formatDate(invoice.order.orderDate)]);
+  if (invoice.order.paymentMethod) {
+    details.push(['طريقة الدفع', PAYMENT_METHOD_LABELS[invoice.order.paymentMethod] || invoice.order.paymentMethod]);
+  }
+  if (invoice.reason) {
+    details.push(['السبب', invoice.reason]);
+  }
+
+  const customerLines = [
+    invoice.customer.name,
+    ...invoice.customer.addressLines,
+    invoice.customer.phone,
+    invoice.customer.email,
+  ].filter((line): line is string => !!line);
+
+  const blockTop = y;
+  for (const [label, value] of details) {
+    drawText(page, `${label}:`, RIGHT, y, { font: fonts.bold, size: 10 });
+    drawText(page, truncate(value, fonts.regular, 10, DETAIL_VALUE_WIDTH), RIGHT - 90, y, {
+      font: fonts.regular,
+      size: 10,
+    });
+    y -= 16;
+  }
+
+  let customerY = blockTop;
+  const customerRight = PAGE_WIDTH / 2 - 10;
+  drawText(page, 'العميل:', customerRight, customerY, { font: fonts.bold, size: 10 });
+  customerY -= 16;
+  for (const line of customerLines) {
+    drawText(page, truncate(line, fonts.regular, 10, customerRight - MARGIN), customerRight, customerY, {
+      font: fonts.regular,
+      size: 10,
+    });
+    customerY -= 16;
+  }
+
+  y = Math.min(y, customerY) - 16;
+
+  // Line items
+  y = drawTableHeader(page, y, fonts);
+  for (const line of invoice.lines) {
+    if (y < BOTTOM_LIMIT) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = drawTableHeader(page, PAGE_HEIGHT - MARGIN - 10, fonts);
+    }
+
+    const options = { font: fonts.regular, size: 10 };
+    drawText(page, truncate(line.name, fonts.regular, 10, COLUMNS.product.width), COLUMNS.product.x, y, options);
+    drawText(page, String(line.quantity), COLUMNS.quantity.x, y, options);
+    drawText(page, formatAmount(line.unitPrice, currency), COLUMNS.unitPrice.x, y, options);
+    drawText(page, formatAmount(line.totalPrice, currency), COLUMNS.total.x, y, options);
+    y -= 8;
+    drawDivider(page, y);
+    y -= 16;
+  }
+
+  // Totals, in the same order as the order pages
+  const { totals } = invoice;
+  const totalRows: [string, string][] = [['المجموع الفرعي', formatAmount(totals.subtotal, currency)]];
+  if (totals.discountAmount > 0) {
+    totalRows.push([
+      totals.discountCode ? `الخصم ${totals.discountCode}` : 'الخصم',
+      `-${formatAmount(totals.discountAmount, currency)}`,
+    ]);
+  }
+  totalRows.push([`الضريبة على القيمة المضافة ${totals.taxRate}%`, formatAmount(totals.taxAmount, currency)]);
+  totalRows.push(['رسوم التوصيل', formatAmount(totals.shippingAmount, currency)]);
+
+  if (y - (totalRows.length + 2) * 18 < BOTTOM_LIMIT - 40) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN - 10;
+  }
+
+  y -= 6;
+  const labelX = COLUMNS.unitPrice.x + 150;
+  for (const [label, value] of totalRows) {
+    drawText(page, `${label}:`, labelX, y, { font: fonts.regular, size: 10 });
+    drawText(page, value, COLUMNS.total.x, y, { font: fonts.regular, size: 10 });
+    y -= 18;
+  }
+  page.drawLine({
+    start: { x: MARGIN, y: y + 10 },
+    end: { x: labelX, y: y + 10 },
+    thickness: 1,
+    color: LINE_COLOR,
+  });
+  y -= 6;
+  drawText(page, isCreditNote ? 'المبلغ المسترد:' : 'المجموع الإجمالي:', labelX, y, {
+    font: fonts.bold,
+    size: 12,
+    color: ACCENT_COLOR,
+  });
+  drawText(page, formatAmount(totals.total, currency), COLUMNS.total.x, y, {
+    font: fonts.bold,
+    size: 12,
+    color: ACCENT_COLOR,
+  });
+
+  // Footer on every page
+  const pages = pdf.getPages();
+  pages.forEach((current, index) => {
+    if (isProforma) {
+      drawText(current, 'هذه فاتورة أولية وليست فاتورة نهائية', PAGE_WIDTH / 2, MARGIN + 24, {
+        font: fonts.regular,
+        size: 9,
+        align: 'center',
+        color: MUTED_COLOR,
+      });
+    }
+    drawText(current, `${index + 1} / ${pages.length}`, PAGE_WIDTH / 2, MARGIN, {
+      font: fonts.regular,
+      size: 8,
+      align: 'center',
+      color: MUTED_COLOR,
+      direction: 'ltr',
+    });
+  });
+
+  return pdf.save();
+}
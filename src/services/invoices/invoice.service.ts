@@ -0,0 +1,392 @@
+import { BusinessError } from '@/lib/errors/custom-errors';
+import { logger } from '@/lib/logger';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { ServiceResult } from '@/types/common';
+import { OrderStatus } from '@/types/enums';
+import { fromOrderStatusDbValue } from '../orders/order-status';
+import { orderTotalsFromRow } from '../orders/order-totals';
+import { renderInvoicePdf } from './invoice-pdf';
+import {
+  GenerateInvoiceOptions,
+  GeneratedInvoice,
+  Invoice,
+  InvoiceDocument,
+  InvoiceService,
+} from './invoice.types';
+
+// Errors raised by the issue_invoice database function
+const ISSUE_ERRORS: Record<string, string> = {
+  INVOICE_ORDER_NOT_FOUND: 'Order not found',
+  INVOICE_ORDER_CANCELLED: 'Cannot generate invoice for cancelled orders',
+  INVOICE_ORDER_NOT_CONFIRMED: 'Invoices are only issued for confirmed orders',
+};
+
+const ORDER_SELECT = `
+  *,
+  order_items (
+    *,
+    products (name)
+  ),
+  customers (
+    first_name,
+    last_name,
+    email
+  )
+`;
+
+// Invoice line label, with the jar size for products sold in variants
+function withVariantName(productName?: string | null, variantName?: string | null): string {
+  const name = productName || 'منتج غير محدد';
+  return variantName ? `${name} (${variantName})` : name;
+}
+
+function mapInvoiceRow(row: any): Invoice {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    invoiceNumber: row.invoice_number,
+    fiscalYear: row.fiscal_year,
+    sequenceNumber: row.sequence_number,
+    totalAmount: Number(row.total_amount),
+    issuedBy: row.issued_by || undefined,
+    issuedAt: new Date(row.issued_at),
+  };
+}
+
+// Only PNG and JPEG can be embedded in the PDF; anything else is skipped
+async function fetchLogo(logoUrl?: string | null): Promise<InvoiceDocument['store']['logo']> {
+  if (!logoUrl) {
+    return undefined;
+  }
+
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) {
+      return undefined;
+    }
+    const contentType = response.headers.get('content-type') || '';
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (contentType.includes('png')) {
+      return { bytes, type: 'png' };
+    }
+    if (contentType.includes('jpeg') || contentType.includes('jpg')) {
+      return { bytes, type: 'jpg' };
+    }
+    return undefined;
+  } catch (error) {
+    logger.warn('Failed to fetch store logo for invoice', {
+      action: 'fetchLogo',
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
+
+// Store header and customer block, shared by invoices and credit notes
+async function loadParties(
+  supabase: Awaited<ReturnType<typeof createClientServer>>,
+  order: any
+): Promise<Pick<InvoiceDocument, 'store' | 'order' | 'customer'>> {
+  const [{ data: settings }, { data: address }] = await Promise.all([
+    supabase.from('store_settings').select('*').order('updated_at', { ascending: false }).limit(1).maybeSingle(),
+    order.shipping_address_id
+      ? supabase.from('addresses').select('*').eq('id', order.shipping_address_id).maybeSingle()
+      : supabase
+          .from('addresses')
+          .select('*')
+          .eq('customer_id', order.customer_id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+  ]);
+
+  const customer = order.customers;
+  return {
+    store: {
+      name: settings?.store_name || 'Mon Magasin',
+      address: settings?.address || undefined,
+      phone: settings?.contact_phone || undefined,
+      email: settings?.contact_email || undefined,
+      currency: settings?.currency || 'TND',
+      logo: await fetchLogo(settings?.logo_url),
+    },
+    order: {
+      id: order.id,
+      orderDate: new Date(order.order_date),
+      paymentMethod: order.payment_method || undefined,
+    },
+    customer: {
+      name: customer ? `${customer.first_name} ${customer.last_name}`.trim() : '',
+      email: customer?.email || undefined,
+      phone: address?.phone_number || undefined,
+      addressLines: [
+        address?.address_line_1,
+        address?.address_line_2,
+        [address?.postal_code, address?.city].filter(Boolean).join(' '),
+      ].filter(Boolean),
+    },
+  };
+}
+
+export class InvoiceServiceImpl implements InvoiceService {
+  /**
+   * Returns the order's invoice, issuing the next number on first call. The
+   * number is allocated in the database, so it is stored once and reused for
+   * every later download.
+   */
+  async issueInvoice(orderId: string, issuedBy?: string): Promise<ServiceResult<Invoice>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase.rpc('issue_invoice', {
+        p_order_id: orderId,
+        p_issued_by: issuedBy ?? null,
+      });
+
+      if (error) {
+        const errorCode = Object.keys(ISSUE_ERRORS).find(key => error.message?.includes(key));
+        if (errorCode) {
+          throw new BusinessError(ISSUE_ERRORS[errorCode], errorCode, 'low', { orderId });
+        }
+
+        logger.error('Failed to issue invoice', error, {
+          action: 'issueInvoice',
+          orderId,
+        });
+        throw new BusinessError('Failed to issue invoice', 'INVOICE_ISSUE_ERROR');
+      }
+
+      const invoice = mapInvoiceRow(Array.isArray(data) ? data[0] : data);
+
+      logger.info('Invoice issued', {
+        action: 'issueInvoice',
+        orderId,
+        invoiceNumber: invoice.invoiceNumber,
+      });
+
+      return { success: true, data: invoice };
+    } catch (error) {
+      if (error instanceof BusinessError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      logger.error('Error in issueInvoice', error as Error, {
+        action: 'issueInvoice',
+        orderId,
+      });
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while issuing the invoice',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async generateInvoicePdf(
+    orderId: string,
+    options: GenerateInvoiceOptions = {}
+  ): Promise<ServiceResult<GeneratedInvoice>> {
+    const startTime = Date.now();
+
+    try {
+      const supabase = await createClientServer('service_role');
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (orderError) {
+        logger.error('Failed to fetch order for invoice', orderError, {
+          action: 'generateInvoicePdf',
+          orderId,
+        });
+        throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+      }
+      // Customers only see their own orders; do not reveal that other orders exist
+      if (!order || (options.customerId && order.customer_id !== options.customerId)) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const status = fromOrderStatusDbValue(order.status);
+      if (status === OrderStatus.CANCELLED) {
+        logger.warn('PDF generation blocked for cancelled order', {
+          action: 'generateInvoicePdf',
+          orderId,
+        });
+        throw new BusinessError(ISSUE_ERRORS.INVOICE_ORDER_CANCELLED, 'INVOICE_ORDER_CANCELLED', 'low', { orderId });
+      }
+
+      // Unconfirmed orders get a proforma without consuming an invoice number
+      const kind = status === OrderStatus.PENDING || status === OrderStatus.AWAITING_PAYMENT ? 'proforma' : 'invoice';
+      let invoice: Invoice | undefined;
+      if (kind === 'invoice') {
+        const issued = await this.issueInvoice(orderId, options.issuedBy);
+        if (!issued.success || !issued.data) {
+          throw new BusinessError(
+            issued.error?.message || 'Failed to issue invoice',
+            issued.error?.code || 'INVOICE_ISSUE_ERROR'
+          );
+        }
+        invoice = issued.data;
+      }
+
+      const document: InvoiceDocument = {
+        kind,
+        invoiceNumber: invoice?.invoiceNumber,
+        issuedAt: invoice?.issuedAt ?? new Date(),
+        ...(await loadParties(supabase, order)),
+        lines: (order.order_items || []).map((item: any) => ({
+          name: withVariantName(item.products?.name, item.variant_name),
+          quantity: item.quantity,
+          unitPrice: Number(item.price),
+          totalPrice: Number(item.price) * item.quantity,
+        })),
+        totals: orderTotalsFromRow(order),
+      };
+
+      const pdf = await renderInvoicePdf(document);
+      const fileName = invoice ? `${invoice.invoiceNumber}.pdf` : `proforma-${order.id.slice(-8)}.pdf`;
+
+      logger.info('Invoice PDF generated', {
+        action: 'generateInvoicePdf',
+        orderId,
+        kind,
+        invoiceNumber: invoice?.invoiceNumber,
+        duration: Date.now() - startTime,
+      });
+
+      return { success: true, data: { fileName, pdf, kind, invoice } };
+    } catch (error) {
+      logger.error('Error in generateInvoicePdf', error as Error, {
+        action: 'generateInvoicePdf',
+        orderId,
+      });
+
+      if (error instanceof BusinessError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while generating the invoice',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  async generateCreditNotePdf(
+    creditNoteId: string,
+    options: Pick<GenerateInvoiceOptions, 'customerId'> = {}
+  ): Promise<ServiceResult<GeneratedInvoice>> {
+    try {
+      const supabase = await createClientServer('service_role');
+      const { data: creditNote, error: creditNoteError } = await supabase
+        .from('credit_notes')
+        .select(
+          `
+          *,
+          credit_note_items (
+            *,
+            order_items (
+              price,
+              variant_name,
+              products (name)
+            )
+          ),
+          invoices (invoice_number)
+        `
+        )
+        .eq('id', creditNoteId)
+        .maybeSingle();
+
+      if (creditNoteError) {
+        logger.error('Failed to fetch credit note', creditNoteError, {
+          action: 'generateCreditNotePdf',
+          creditNoteId,
+        });
+        throw new BusinessError('Failed to fetch credit note', 'CREDIT_NOTE_FETCH_ERROR');
+      }
+      if (!creditNote) {
+        throw new BusinessError('Credit note not found', 'CREDIT_NOTE_NOT_FOUND');
+      }
+
+      const { data: order } = await supabase.from('orders').select(ORDER_SELECT).eq('id', creditNote.order_id).single();
+      if (!order || (options.customerId && order.customer_id !== options.customerId)) {
+        throw new BusinessError('Credit note not found', 'CREDIT_NOTE_NOT_FOUND');
+      }
+
+      const document: InvoiceDocument = {
+        kind: 'credit_note',
+        invoiceNumber: creditNote.credit_note_number,
+        originalInvoiceNumber: creditNote.invoices?.invoice_number || undefined,
+        reason: creditNote.reason || undefined,
+        issuedAt: new Date(creditNote.issued_at),
+        ...(await loadParties(supabase, order)),
+        lines: (creditNote.credit_note_items || []).map((item: any) => ({
+          name: withVariantName(item.order_items?.products?.name, item.order_items?.variant_name),
+          quantity: item.quantity,
+          // Price adjustments credit an amount without returning units
+          unitPrice: item.quantity > 0 ? Number(item.amount) / item.quantity : Number(item.amount),
+          totalPrice: Number(item.amount),
+        })),
+        totals: {
+          subtotal: Number(creditNote.subtotal),
+          discountAmount: 0,
+          taxRate: Number(creditNote.tax_rate),
+          taxAmount: Number(creditNote.tax_amount),
+          shippingAmount: Number(creditNote.shipping_amount),
+          total: Number(creditNote.total_amount),
+        },
+      };
+
+      const pdf = await renderInvoicePdf(document);
+
+      return {
+        success: true,
+        data: { fileName: `${creditNote.credit_note_number}.pdf`, pdf, kind: 'credit_note' },
+      };
+    } catch (error) {
+      logger.error('Error in generateCreditNotePdf', error as Error, {
+        action: 'generateCreditNotePdf',
+        creditNoteId,
+      });
+
+      if (error instanceof BusinessError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while generating the credit note',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+}
+
+export const invoiceService = new InvoiceServiceImpl();
@@ -0,0 +1,79 @@
+// Invoice service specific types
+import { OrderTotals } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+
+export interface Invoice {
+  id: string;
+  orderId: string;
+  invoiceNumber: string;
+  fiscalYear: number;
+  sequenceNumber: number;
+  totalAmount: number;
+  issuedBy?: string;
+  issuedAt: Date;
+}
+
+// Unconfirmed orders get a proforma, which does not use an invoice number.
+// Credit notes reverse part or all of an invoice after a refund.
+export type InvoiceKind = 'invoice' | 'proforma' | 'credit_note';
+
+export interface InvoiceLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+// Everything printed on the PDF, gathered before rendering
+export interface InvoiceDocument {
+  kind: InvoiceKind;
+  // Invoice or credit note number
+  invoiceNumber?: string;
+  // Credit notes only
+  originalInvoiceNumber?: string;
+  reason?: string;
+  issuedAt: Date;
+  store: {
+    name: string;
+    address?: string;
+    phone?: string;
+    email?: string;
+    currency: string;
+    logo?: { bytes: Uint8Array; type: 'png' | 'jpg' };
+  };
+  order: {
+    id: string;
+    orderDate: Date;
+    paymentMethod?: string;
+  };
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    addressLines: string[];
+  };
+  lines: InvoiceLine[];
+  totals: OrderTotals;
+}
+
+export interface GeneratedInvoice {
+  fileName: string;
+  pdf: Uint8Array;
+  kind: InvoiceKind;
+  invoice?: Invoice;
+}
+
+export interface GenerateInvoiceOptions {
+  // Restricts the lookup to this customer's orders; omitted for admins
+  customerId?: string;
+  issuedBy?: string;
+}
+
+export interface InvoiceService {
+  issueInvoice(orderId: string, issuedBy?: string): Promise<ServiceResult<Invoice>>;
+  generateInvoicePdf(orderId: string, options?: GenerateInvoiceOptions): Promise<ServiceResult<GeneratedInvoice>>;
+  generateCreditNotePdf(
+    creditNoteId: string,
+    options?: Pick<GenerateInvoiceOptions, 'customerId'>
+  ): Promise<ServiceResult<GeneratedInvoice>>;
+}
@@ -0,0 +1,106 @@
+import { OrderStatus } from '@/types/enums';
+import { buildOrderEmail, buildPasswordResetEmail, OrderEmailInput, orderEmailTypeForStatus } from '../order-emails';
+import { buildMimeMessage, dotStuff, encodeHeaderValue, mailboxAddress } from '../smtp';
+
+const input: OrderEmailInput = {
+  email: 'amira@example.tn',
+  firstName: 'Amira',
+  storeName: 'مناحل الرحيق',
+  orderId: '0b1c2d3e-4f50-6172-8394-a5b6c7d8e9f0',
+  total: 54.5,
+  items: [{ name: 'عسل الزعتر', quantity: 2 }],
+  orderUrl: 'https://shop.example.tn/orders/0b1c2d3e-4f50-6172-8394-a5b6c7d8e9f0',
+};
+
+describe('order emails', () => {
+  describe('buildOrderEmail', () => {
+    it('should write the subject in the requested language with the order reference', () => {
+      expect(buildOrderEmail('order_confirmed', 'ar', input).subject).toBe('تم تأكيد طلبك #c7d8e9f0');
+      expect(buildOrderEmail('order_confirmed', 'fr', input).subject).toBe('Votre commande n° c7d8e9f0 est confirmée');
+      expect(buildOrderEmail('order_confirmed', 'en', input).subject).toBe('Your order #c7d8e9f0 is confirmed');
+    });
+
+    it('should list the items and the total when the order is placed', () => {
+      const message = buildOrderEmail('order_placed', 'fr', input);
+
+      expect(message.to).toBe('amira@example.tn');
+      expect(message.text).toContain('Total : 54,50 DT');
+      expect(message.text).toContain('- عسل الزعتر × 2');
+    });
+
+    it('should give the tracking number and link to the carrier once shipped', () => {
+      const message = buildOrderEmail('order_shipped', 'en', {
+        ...input,
+        shipment: {
+          carrierName: 'Aramex',
+          trackingNumber: 'TN123',
+          trackingUrl: 'https://carrier.example.tn/track?code=TN123',
+        },
+      });
+
+      expect(message.text).toContain('Carrier: Aramex');
+      expect(message.text).toContain('Tracking number: TN123');
+      expect(message.text).toContain('Track your parcel: https://carrier.example.tn/track?code=TN123');
+    });
+
+    it('should write Arabic emails right to left and escape customer text', () => {
+      const message = buildOrderEmail('order_cancelled', 'ar', { ...input, cancellationReason: '<b>نفاد</b>' });
+
+      expect(message.html).toContain('<html lang="ar" dir="rtl">');
+      expect(message.html).toContain('السبب: &lt;b&gt;نفاد&lt;/b&gt;');
+    });
+  });
+
+  it('should link the password reset email to the reset page', () => {
+    const message = buildPasswordResetEmail('en', { ...input, resetUrl: 'https://shop.example.tn/reset?x=1&y=2' });
+
+    expect(message.subject).toBe('Reset your password');
+    expect(message.html).toContain('href="https://shop.example.tn/reset?x=1&amp;y=2"');
+  });
+
+  it('should only email customers about the steps they are told about', () => {
+    expect(orderEmailTypeForStatus(OrderStatus.SHIPPED)).toBe('order_shipped');
+    expect(orderEmailTypeForStatus(OrderStatus.CANCELLED)).toBe('order_cancelled');
+    expect(orderEmailTypeForStatus(OrderStatus.PENDING)).toBeUndefined();
+  });
+});
+
+describe('smtp', () => {
+  it('should take the address out of a named mailbox', () => {
+    expect(mailboxAddress('Store <no-reply@shop.example.tn>')).toBe('no-reply@shop.example.tn');
+    expect(mailboxAddress(' no-reply@shop.example.tn ')).toBe('no-reply@shop.example.tn');
+  });
+
+  it('should encode headers that are not plain ASCII', () => {
+    expect(encodeHeaderValue('Your order')).toBe('Your order');
+
+    const encoded = encodeHeaderValue('تم تأكيد طلبك');
+    expect(encoded).toBe(`=?UTF-8?B?${Buffer.from('تم تأكيد طلبك').toString('base64')}?=`);
+  });
+
+  it('should split long encoded headers without breaking a character', () => {
+    const subject = 'تم استلام طلبك رقم 12345678 وسنتواصل معك قريباً';
+    const words = encodeHeaderValue(subject).split('\r\n ');
+
+    expect(words.length).toBe(2);
+    expect(
+      words.map(word => Buffer.from(word.slice('=?UTF-8?B?'.length, -2), 'base64').toString()).join('')
+    ).toBe(subject);
+  });
+
+  it('should send the text and HTML bodies as alternatives', () => {
+    const mime = buildMimeMessage(
+      { type: 'order_confirmed', to: 'amira@example.tn', subject: 'Hi', text: 'Hello', html: '<p>Hello</p>' },
+      { from: 'Store <no-reply@shop.example.tn>', messageId: 'id-1', boundary: 'b1', date: new Date(0) }
+    );
+
+    expect(mime).toContain('From: Store <no-reply@shop.example.tn>\r\n');
+    expect(mime).toContain('Message-ID: <id-1@shop.example.tn>\r\n');
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="b1"\r\n');
+    expect(mime).toContain(`\r\n\r\n${Buffer.from('<p>Hello</p>').toString('base64')}\r\n--b1--`);
+  });
+
+  it('should double dots that start a line', () => {
+    expect(dotStuff('.hidden\n..two\nend.')).toBe('..hidden\r\n...two\r\nend.');
+  });
+});
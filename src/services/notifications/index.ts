@@ -0,0 +1,7 @@
+// Notification service exports
+export * from './notification-channels';
+export * from './notification.service';
+export * from './notifications.types';
+export * from './order-email.service';
+export * from './order-emails';
+export * from './smtp';
@@ -0,0 +1,123 @@
+// Ways of delivering a notification. The SMTP and webhook channels send
+// email; the others keep messages on this machine for development and tests.
+import { logger } from '@/lib/logger';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { NotificationChannel, NotificationMessage } from './notifications.types';
+import { buildMimeMessage, sendSmtpMail, SmtpConfig } from './smtp';
+
+// Sends each message as an email through the store's mail server
+export class SmtpNotificationChannel implements NotificationChannel {
+  readonly name = 'smtp';
+
+  constructor(
+    private readonly config: SmtpConfig,
+    private readonly from: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await sendSmtpMail(this.config, this.from, message.to, buildMimeMessage(message, { from: this.from }));
+  }
+}
+
+/**
+ * Posts each message as JSON to a relay (an email provider's HTTP API or an
+ * automation hook) that delivers it. A non-2xx response is a failed send.
+ */
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(
+    private readonly url: string,
+    private readonly secret?: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.secret ? { Authorization: `Bearer ${this.secret}` } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Notification webhook responded with ${response.status}`);
+    }
+  }
+}
+
+// Writes messages to the log instead of sending them; the default when no relay is configured
+export class LogNotificationChannel implements NotificationChannel {
+  readonly name = 'log';
+
+  async send(message: NotificationMessage): Promise<void> {
+    logger.info('Notification (not sent, no channel configured)', {
+      action: 'sendNotification',
+      type: message.type,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Writes each message as an .eml file to a directory, where it can be opened
+ * with a mail client to check how it renders.
+ */
+export class FileNotificationChannel implements NotificationChannel {
+  readonly name = 'file';
+
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.type}-${randomUUID().slice(0, 8)}.eml`;
+    await writeFile(join(this.directory, fileName), buildMimeMessage(message, { from: this.from }));
+  }
+}
+
+// Keeps sent messages in memory, for tests and local runs that inspect what would have gone out
+export class MemoryNotificationChannel implements NotificationChannel {
+  readonly name = 'memory';
+  readonly sent: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+/**
+ * SMTP when SMTP_HOST is set, else the webhook when NOTIFICATION_WEBHOOK_URL
+ * is, else .eml files when NOTIFICATION_OUTBOX_DIR is, otherwise the log.
+ */
+export function createDefaultNotificationChannel(): NotificationChannel {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, NOTIFICATION_WEBHOOK_URL } = process.env;
+  const from = process.env.EMAIL_FROM || 'no-reply@localhost';
+
+  if (SMTP_HOST) {
+    const secure = SMTP_SECURE === 'true';
+    return new SmtpNotificationChannel(
+      {
+        host: SMTP_HOST,
+        port: Number(SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: SMTP_USER || undefined,
+        password: SMTP_PASSWORD || undefined,
+      },
+      from
+    );
+  }
+  if (NOTIFICATION_WEBHOOK_URL) {
+    return new WebhookNotificationChannel(NOTIFICATION_WEBHOOK_URL, process.env.NOTIFICATION_WEBHOOK_SECRET);
+  }
+  if (process.env.NOTIFICATION_OUTBOX_DIR) {
+    return new FileNotificationChannel(process.env.NOTIFICATION_OUTBOX_DIR, from);
+  }
+  return new LogNotificationChannel();
+}
@@ -0,0 +1,47 @@
+import { logger } from '@/lib/logger';
+import { ServiceResult } from '@/types/common';
+import { createDefaultNotificationChannel } from './notification-channels';
+import { NotificationChannel, NotificationMessage, NotificationService } from './notifications.types';
+
+export class NotificationServiceImpl implements NotificationService {
+  constructor(private channel: NotificationChannel = createDefaultNotificationChannel()) {}
+
+  // Replaces the delivery channel, e.g. with a MemoryNotificationChannel in tests
+  setChannel(channel: NotificationChannel): void {
+    this.channel = channel;
+  }
+
+  async send(message: NotificationMessage): Promise<ServiceResult<void>> {
+    try {
+      if (!message.to) {
+        return { success: false, error: { message: 'Recipient is required', code: 'NOTIFICATION_RECIPIENT_REQUIRED' } };
+      }
+
+      await this.channel.send(message);
+
+      logger.info('Notification sent', {
+        action: 'sendNotification',
+        type: message.type,
+        channel: this.channel.name,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to send notification', error as Error, {
+        action: 'sendNotification',
+        type: message.type,
+        channel: this.channel.name,
+      });
+
+      return {
+        success: false,
+        error: {
+          message: 'Failed to send notification',
+          code: 'NOTIFICATION_SEND_ERROR',
+        },
+      };
+    }
+  }
+}
+
+export const notificationService = new NotificationServiceImpl();
@@ -0,0 +1,79 @@
+// Notification service specific types
+import { ServiceResult } from '@/types/common';
+
+// A message to one customer. The channel decides how it reaches them.
+export interface NotificationMessage {
+  // What the message is about, e.g. 'cart_recovery'
+  type: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export interface NotificationService {
+  send(message: NotificationMessage): Promise<ServiceResult<void>>;
+  setChannel(channel: NotificationChannel): void;
+}
+
+export type EmailLocale = 'ar' | 'fr' | 'en';
+
+// The emails sent to the customer as an order moves through its lifecycle
+export type OrderEmailType =
+  | 'order_placed'
+  | 'order_confirmed'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'order_cancelled';
+
+export type OrderEmailStatus = 'sent' | 'failed';
+
+// An entry of an order's email log
+export interface OrderEmail {
+  id: string;
+  orderId: string;
+  type: OrderEmailType;
+  locale: EmailLocale;
+  recipient: string;
+  subject: string;
+  status: OrderEmailStatus;
+  error?: string;
+  // The admin who resent it; unset for automatic sends
+  sentByEmail?: string;
+  createdAt: Date;
+}
+
+export interface OrderEmailSender {
+  id?: string;
+  email?: string;
+}
+
+export interface SendOrderEmailOptions {
+  // Defaults to the customer's preferred language
+  locale?: EmailLocale;
+  // Sends again even if this email already went out for the order
+  force?: boolean;
+  sentBy?: OrderEmailSender;
+}
+
+export interface OrderEmailService {
+  getOrderEmails(orderId: string): Promise<ServiceResult<OrderEmail[]>>;
+  // Null when the email was already sent and not forced
+  sendOrderEmail(
+    orderId: string,
+    type: OrderEmailType,
+    options?: SendOrderEmailOptions
+  ): Promise<ServiceResult<OrderEmail | null>>;
+  resendOrderEmail(
+    orderId: string,
+    type: OrderEmailType,
+    locale: EmailLocale | undefined,
+    sentBy: OrderEmailSender
+  ): Promise<ServiceResult<OrderEmail>>;
+  sendPasswordResetEmail(email: string, resetUrl: string, locale?: EmailLocale): Promise<ServiceResult<void>>;
+}
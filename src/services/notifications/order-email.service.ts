@@ -0,0 +1,282 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { appUrl } from '@/lib/utils/app-url';
+import { ServiceResult } from '@/types/common';
+import { Tables } from '@/types/supabase';
+import { notificationService } from './notification.service';
+import {
+  buildOrderEmail,
+  buildPasswordResetEmail,
+  OrderEmailInput,
+  parseEmailLocale,
+  parseOrderEmailType,
+} from './order-emails';
+import {
+  EmailLocale,
+  NotificationService,
+  OrderEmail,
+  OrderEmailSender,
+  OrderEmailService,
+  OrderEmailStatus,
+  OrderEmailType,
+  SendOrderEmailOptions,
+} from './notifications.types';
+
+type OrderEmailRow = Tables<'order_emails'>;
+type ShipmentRow = Tables<'shipments'>;
+
+type EmailOrderRow = Pick<Tables<'orders'>, 'id' | 'total_amount' | 'access_token'> & {
+  customers: Pick<Tables<'customers'>, 'first_name' | 'email' | 'is_guest' | 'preferred_locale'> | null;
+  order_items: (Pick<Tables<'order_items'>, 'quantity'> & { products: Pick<Tables<'products'>, 'name'> | null })[];
+  shipments: ShipmentRow | ShipmentRow[] | null;
+};
+
+const EMAIL_ORDER_SELECT =
+  'id, total_amount, access_token, customers (first_name, email, is_guest, preferred_locale), ' +
+  'order_items (quantity, products (name)), shipments (*)';
+
+function mapOrderEmailRow(row: OrderEmailRow): OrderEmail {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    type: row.type as OrderEmailType,
+    locale: row.locale as EmailLocale,
+    recipient: row.recipient,
+    subject: row.subject,
+    status: row.status as OrderEmailStatus,
+    error: row.error || undefined,
+    sentByEmail: row.sent_by_email || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function storeName(): string {
+  return process.env.NEXT_PUBLIC_APP_NAME || 'مناحل الرحيق';
+}
+
+/**
+ * The emails customers get as their order moves along: placed, confirmed,
+ * shipped, delivered and cancelled, in the customer's preferred language.
+ * Each send is logged on the order so admins can see what went out and send
+ * it again. Lifecycle emails are sent once per order; resends are forced.
+ */
+export class OrderEmailServiceImpl implements OrderEmailService {
+  constructor(private readonly notifications: NotificationService = notificationService) {}
+
+  async getOrderEmails(orderId: string): Promise<ServiceResult<OrderEmail[]>> {
+    try {
+      if (!orderId) {
+        throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('order_emails')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Failed to fetch order emails', error, { action: 'getOrderEmails', orderId });
+        throw new BusinessError('Failed to fetch order emails', 'ORDER_EMAILS_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapOrderEmailRow) };
+    } catch (error) {
+      logger.error('Error in getOrderEmails', error as Error, { action: 'getOrderEmails', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while fetching order emails');
+    }
+  }
+
+  async sendOrderEmail(
+    orderId: string,
+    type: OrderEmailType,
+    options: SendOrderEmailOptions = {}
+  ): Promise<ServiceResult<OrderEmail | null>> {
+    try {
+      if (!orderId) {
+        throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+      }
+      if (!parseOrderEmailType(type)) {
+        throw new ValidationError('Unknown email type', 'type', 'INVALID');
+      }
+
+      if (!options.force && (await this.wasSent(orderId, type))) {
+        return { success: true, data: null };
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select(EMAIL_ORDER_SELECT)
+        .eq('id', orderId)
+        .maybeSingle<EmailOrderRow>();
+
+      if (orderError) {
+        logger.error('Failed to fetch order for email', orderError, { action: 'sendOrderEmail', orderId });
+        throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+      }
+      if (!order) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+      if (!order.customers?.email) {
+        throw new BusinessError('Order has no customer email', 'ORDER_EMAIL_RECIPIENT_MISSING', 'low', { orderId });
+      }
+
+      const locale = options.locale ?? parseEmailLocale(order.customers.preferred_locale) ?? 'ar';
+      const message = buildOrderEmail(type, locale, await this.emailInput(order, type));
+      const sendResult = await this.notifications.send(message);
+
+      const { data: row, error } = await supabase
+        .from('order_emails')
+        .insert({
+          order_id: order.id,
+          type,
+          locale,
+          recipient: message.to,
+          subject: message.subject,
+          status: sendResult.success ? 'sent' : 'failed',
+          error: sendResult.error?.message ?? null,
+          sent_by: options.sentBy?.id ?? null,
+          sent_by_email: options.sentBy?.email ?? null,
+        })
+        .select('*')
+        .single();
+
+      if (error || !row) {
+        logger.warn('Failed to log order email', {
+          action: 'sendOrderEmail',
+          orderId,
+          type,
+          error: error?.message,
+        });
+      }
+
+      if (!sendResult.success) {
+        throw new BusinessError('Failed to send the email', 'ORDER_EMAIL_SEND_ERROR', 'medium', { orderId, type });
+      }
+
+      logger.info('Order email sent', { action: 'sendOrderEmail', orderId, type, locale });
+
+      return {
+        success: true,
+        data: row
+          ? mapOrderEmailRow(row)
+          : {
+              id: '',
+              orderId: order.id,
+              type,
+              locale,
+              recipient: message.to,
+              subject: message.subject,
+              status: 'sent',
+              sentByEmail: options.sentBy?.email,
+              createdAt: new Date(),
+            },
+      };
+    } catch (error) {
+      logger.error('Error in sendOrderEmail', error as Error, { action: 'sendOrderEmail', orderId, type });
+      return toErrorResult(error, 'An unexpected error occurred while sending the email');
+    }
+  }
+
+  async resendOrderEmail(
+    orderId: string,
+    type: OrderEmailType,
+    locale: EmailLocale | undefined,
+    sentBy: OrderEmailSender
+  ): Promise<ServiceResult<OrderEmail>> {
+    const result = await this.sendOrderEmail(orderId, type, { locale, sentBy, force: true });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data };
+  }
+
+  // Not logged: the message carries a sign-in link
+  async sendPasswordResetEmail(email: string, resetUrl: string, locale?: EmailLocale): Promise<ServiceResult<void>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data: customer } = await supabase
+        .from('customers')
+        .select('first_name, preferred_locale')
+        .eq('email', email)
+        .maybeSingle();
+
+      const message = buildPasswordResetEmail(locale ?? parseEmailLocale(customer?.preferred_locale) ?? 'ar', {
+        email,
+        firstName: customer?.first_name || undefined,
+        storeName: storeName(),
+        resetUrl,
+      });
+
+      return await this.notifications.send(message);
+    } catch (error) {
+      logger.error('Error in sendPasswordResetEmail', error as Error, { action: 'sendPasswordResetEmail' });
+      return toErrorResult(error, 'An unexpected error occurred while sending the password reset email');
+    }
+  }
+
+  private async wasSent(orderId: string, type: OrderEmailType): Promise<boolean> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('order_emails')
+      .select('id')
+      .eq('order_id', orderId)
+      .eq('type', type)
+      .eq('status', 'sent')
+      .limit(1);
+
+    if (error) {
+      logger.error('Failed to check order emails', error, { action: 'sendOrderEmail', orderId, type });
+      throw new BusinessError('Failed to check order emails', 'ORDER_EMAILS_FETCH_ERROR');
+    }
+    return (data || []).length > 0;
+  }
+
+  private async emailInput(order: EmailOrderRow, type: OrderEmailType): Promise<OrderEmailInput> {
+    const shipment = Array.isArray(order.shipments) ? order.shipments[0] : order.shipments;
+    const url = appUrl();
+
+    return {
+      email: order.customers!.email,
+      firstName: order.customers?.first_name || undefined,
+      storeName: storeName(),
+      orderId: order.id,
+      total: Number(order.total_amount),
+      items: order.order_items.map(item => ({ name: item.products?.name || '', quantity: item.quantity })),
+      // Guests follow the link from their order confirmation; customers open the order in their account
+      orderUrl: order.customers?.is_guest
+        ? `${url}/checkout/confirmation/${order.access_token}`
+        : `${url}/orders/${order.id}`,
+      shipment: shipment
+        ? {
+            carrierName: shipment.carrier_name || undefined,
+            trackingNumber: shipment.tracking_number,
+            trackingUrl: shipment.tracking_url || undefined,
+          }
+        : undefined,
+      cancellationReason: type === 'order_cancelled' ? await this.cancellationReason(order.id) : undefined,
+    };
+  }
+
+  // The reason given when the order was cancelled, as shown on the order's history
+  private async cancellationReason(orderId: string): Promise<string | undefined> {
+    const supabase = createServiceRoleClient();
+    const { data } = await supabase
+      .from('order_tracking')
+      .select('notes')
+      .eq('order_id', orderId)
+      .eq('event_type', 'cancellation')
+      .eq('is_internal', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.notes || undefined;
+  }
+}
+
+export const orderEmailService = new OrderEmailServiceImpl();
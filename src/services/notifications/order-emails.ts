@@ -0,0 +1,308 @@
+// Order lifecycle and password reset emails in Arabic, French and English,
+// kept free of I/O so the wording can be tested on its own.
+import { OrderStatus } from '@/types/enums';
+import { EmailLocale, NotificationMessage, OrderEmailType } from './notifications.types';
+
+export const EMAIL_LOCALES: EmailLocale[] = ['ar', 'fr', 'en'];
+
+export const ORDER_EMAIL_TYPES: OrderEmailType[] = [
+  'order_placed',
+  'order_confirmed',
+  'order_shipped',
+  'order_delivered',
+  'order_cancelled',
+];
+
+export const PASSWORD_RESET_MESSAGE_TYPE = 'password_reset';
+
+interface EmailInput {
+  email: string;
+  firstName?: string;
+  // Signs the email
+  storeName: string;
+}
+
+export interface OrderEmailInput extends EmailInput {
+  orderId: string;
+  total: number;
+  items: { name: string; quantity: number }[];
+  // The order page; the confirmation page opened by the access token for guest orders
+  orderUrl: string;
+  shipment?: { carrierName?: string; trackingNumber: string; trackingUrl?: string };
+  cancellationReason?: string;
+}
+
+export interface PasswordResetEmailInput extends EmailInput {
+  resetUrl: string;
+}
+
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  items?: { name: string; quantity: number }[];
+  action: { label: string; url: string };
+}
+
+interface EmailCopy {
+  dir: 'rtl' | 'ltr';
+  greeting(firstName?: string): string;
+  signOff(storeName: string): string;
+  money(amount: number): string;
+  itemsHeading: string;
+  order: Record<OrderEmailType, (input: OrderEmailInput, reference: string) => EmailContent>;
+  passwordReset(input: PasswordResetEmailInput): EmailContent;
+}
+
+// The customer's view of a shipment: carrier, tracking number, and the carrier's page when it has one
+function shipmentLines(input: OrderEmailInput, carrierLabel: string, trackingLabel: string): string[] {
+  if (!input.shipment) return [];
+  return [
+    ...(input.shipment.carrierName ? [`${carrierLabel}${input.shipment.carrierName}`] : []),
+    `${trackingLabel}${input.shipment.trackingNumber}`,
+  ];
+}
+
+const COPY: Record<EmailLocale, EmailCopy> = {
+  ar: {
+    dir: 'rtl',
+    greeting: firstName => (firstName ? `مرحباً ${firstName}،` : 'مرحباً،'),
+    signOff: storeName => `فريق ${storeName}`,
+    money: amount => `${amount.toFixed(2)} د.ت`,
+    itemsHeading: 'المنتجات:',
+    order: {
+      order_placed: (input, reference) => ({
+        subject: `تم استلام طلبك #${reference}`,
+        paragraphs: [
+          'شكراً لطلبك! لقد استلمناه وسنتواصل معك لتأكيده.',
+          `المجموع: ${COPY.ar.money(input.total)}`,
+        ],
+        items: input.items,
+        action: { label: 'تفاصيل الطلب', url: input.orderUrl },
+      }),
+      order_confirmed: (input, reference) => ({
+        subject: `تم تأكيد طلبك #${reference}`,
+        paragraphs: ['تم تأكيد طلبك وسيتم تحضيره للشحن قريباً.'],
+        action: { label: 'تفاصيل الطلب', url: input.orderUrl },
+      }),
+      order_shipped: (input, reference) => ({
+        subject: `تم شحن طلبك #${reference}`,
+        paragraphs: ['طلبك في الطريق إليك.', ...shipmentLines(input, 'شركة الشحن: ', 'رقم التتبع: ')],
+        action: input.shipment?.trackingUrl
+          ? { label: 'تتبع الشحنة', url: input.shipment.trackingUrl }
+          : { label: 'تفاصيل الطلب', url: input.orderUrl },
+      }),
+      order_delivered: (input, reference) => ({
+        subject: `تم توصيل طلبك #${reference}`,
+        paragraphs: ['تم توصيل طلبك. نتمنى أن تنال منتجاتنا إعجابك!'],
+        action: { label: 'تفاصيل الطلب', url: input.orderUrl },
+      }),
+      order_cancelled: (input, reference) => ({
+        subject: `تم إلغاء طلبك #${reference}`,
+        paragraphs: [
+          'تم إلغاء طلبك.',
+          ...(input.cancellationReason ? [`السبب: ${input.cancellationReason}`] : []),
+          'إن كنت قد دفعت ثمن الطلب فسنتواصل معك لاسترجاع المبلغ.',
+        ],
+        action: { label: 'تفاصيل الطلب', url: input.orderUrl },
+      }),
+    },
+    passwordReset: input => ({
+      subject: 'إعادة تعيين كلمة المرور',
+      paragraphs: [
+        'تلقينا طلباً لإعادة تعيين كلمة مرور حسابك.',
+        'إذا لم تطلب ذلك فتجاهل هذه الرسالة وستبقى كلمة مرورك كما هي.',
+      ],
+      action: { label: 'إعادة تعيين كلمة المرور', url: input.resetUrl },
+    }),
+  },
+  fr: {
+    dir: 'ltr',
+    greeting: firstName => (firstName ? `Bonjour ${firstName},` : 'Bonjour,'),
+    signOff: storeName => `L'équipe ${storeName}`,
+    money: amount => `${amount.toFixed(2).replace('.', ',')} DT`,
+    itemsHeading: 'Articles :',
+    order: {
+      order_placed: (input, reference) => ({
+        subject: `Nous avons bien reçu votre commande n° ${reference}`,
+        paragraphs: [
+          'Merci pour votre commande ! Nous l’avons bien reçue et nous vous contacterons pour la confirmer.',
+          `Total : ${COPY.fr.money(input.total)}`,
+        ],
+        items: input.items,
+        action: { label: 'Voir la commande', url: input.orderUrl },
+      }),
+      order_confirmed: (input, reference) => ({
+        subject: `Votre commande n° ${reference} est confirmée`,
+        paragraphs: ['Votre commande est confirmée et sera bientôt préparée pour l’expédition.'],
+        action: { label: 'Voir la commande', url: input.orderUrl },
+      }),
+      order_shipped: (input, reference) => ({
+        subject: `Votre commande n° ${reference} a été expédiée`,
+        paragraphs: ['Votre commande est en route.', ...shipmentLines(input, 'Transporteur : ', 'Numéro de suivi : ')],
+        action: input.shipment?.trackingUrl
+          ? { label: 'Suivre le colis', url: input.shipment.trackingUrl }
+          : { label: 'Voir la commande', url: input.orderUrl },
+      }),
+      order_delivered: (input, reference) => ({
+        subject: `Votre commande n° ${reference} a été livrée`,
+        paragraphs: ['Votre commande a été livrée. Nous espérons que nos produits vous plairont !'],
+        action: { label: 'Voir la commande', url: input.orderUrl },
+      }),
+      order_cancelled: (input, reference) => ({
+        subject: `Votre commande n° ${reference} a été annulée`,
+        paragraphs: [
+          'Votre commande a été annulée.',
+          ...(input.cancellationReason ? [`Motif : ${input.cancellationReason}`] : []),
+          'Si vous l’aviez déjà payée, nous vous contacterons pour le remboursement.',
+        ],
+        action: { label: 'Voir la commande', url: input.orderUrl },
+      }),
+    },
+    passwordReset: input => ({
+      subject: 'Réinitialisation de votre mot de passe',
+      paragraphs: [
+        'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte.',
+        'Si vous n’êtes pas à l’origine de cette demande, ignorez ce message : votre mot de passe reste inchangé.',
+      ],
+      action: { label: 'Réinitialiser le mot de passe', url: input.resetUrl },
+    }),
+  },
+  en: {
+    dir: 'ltr',
+    greeting: firstName => (firstName ? `Hello ${firstName},` : 'Hello,'),
+    signOff: storeName => `The ${storeName} team`,
+    money: amount => `TND ${amount.toFixed(2)}`,
+    itemsHeading: 'Items:',
+    order: {
+      order_placed: (input, reference) => ({
+        subject: `We received your order #${reference}`,
+        paragraphs: [
+          'Thank you for your order! We have received it and will contact you to confirm it.',
+          `Total: ${COPY.en.money(input.total)}`,
+        ],
+        items: input.items,
+        action: { label: 'View your order', url: input.orderUrl },
+      }),
+      order_confirmed: (input, reference) => ({
+        subject: `Your order #${reference} is confirmed`,
+        paragraphs: ['Your order is confirmed and will be prepared for shipping shortly.'],
+        action: { label: 'View your order', url: input.orderUrl },
+      }),
+      order_shipped: (input, reference) => ({
+        subject: `Your order #${reference} has shipped`,
+        paragraphs: ['Your order is on its way.', ...shipmentLines(input, 'Carrier: ', 'Tracking number: ')],
+        action: input.shipment?.trackingUrl
+          ? { label: 'Track your parcel', url: input.shipment.trackingUrl }
+          : { label: 'View your order', url: input.orderUrl },
+      }),
+      order_delivered: (input, reference) => ({
+        subject: `Your order #${reference} has been delivered`,
+        paragraphs: ['Your order has been delivered. We hope you enjoy it!'],
+        action: { label: 'View your order', url: input.orderUrl },
+      }),
+      order_cancelled: (input, reference) => ({
+        subject: `Your order #${reference} has been cancelled`,
+        paragraphs: [
+          'Your order has been cancelled.',
+          ...(input.cancellationReason ? [`Reason: ${input.cancellationReason}`] : []),
+          'If you already paid for it, we will contact you about the refund.',
+        ],
+        action: { label: 'View your order', url: input.orderUrl },
+      }),
+    },
+    passwordReset: input => ({
+      subject: 'Reset your password',
+      paragraphs: [
+        'We received a request to reset the password of your account.',
+        'If you did not ask for this, ignore this email and your password will stay the same.',
+      ],
+      action: { label: 'Reset your password', url: input.resetUrl },
+    }),
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderText(copy: EmailCopy, input: EmailInput, content: EmailContent): string {
+  const lines = [copy.greeting(input.firstName), '', ...content.paragraphs];
+  if (content.items?.length) {
+    lines.push('', copy.itemsHeading, ...content.items.map(item => `- ${item.name} × ${item.quantity}`));
+  }
+  lines.push('', `${content.action.label}: ${content.action.url}`, '', copy.signOff(input.storeName));
+  return lines.join('\n');
+}
+
+function renderHtml(locale: EmailLocale, copy: EmailCopy, input: EmailInput, content: EmailContent): string {
+  const paragraphs = [copy.greeting(input.firstName), ...content.paragraphs]
+    .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+    .join('');
+  const items = content.items?.length
+    ? `<p>${escapeHtml(copy.itemsHeading)}</p><ul>${content.items
+        .map(item => `<li>${escapeHtml(item.name)} × ${item.quantity}</li>`)
+        .join('')}</ul>`
+    : '';
+  const action =
+    `<p><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:10px 20px;` +
+    `background:#d97706;color:#ffffff;text-decoration:none;border-radius:6px">${escapeHtml(content.action.label)}</a></p>`;
+
+  return (
+    `<!DOCTYPE html><html lang="${locale}" dir="${copy.dir}"><body style="font-family:Arial,sans-serif;color:#1f2937">` +
+    `${paragraphs}${items}${action}<p>${escapeHtml(copy.signOff(input.storeName))}</p></body></html>`
+  );
+}
+
+function buildMessage(
+  type: string,
+  locale: EmailLocale,
+  input: EmailInput,
+  content: EmailContent
+): NotificationMessage {
+  const copy = COPY[locale];
+  return {
+    type,
+    to: input.email,
+    subject: content.subject,
+    text: renderText(copy, input, content),
+    html: renderHtml(locale, copy, input, content),
+  };
+}
+
+export function buildOrderEmail(type: OrderEmailType, locale: EmailLocale, input: OrderEmailInput): NotificationMessage {
+  const content = COPY[locale].order[type](input, input.orderId.slice(-8));
+  return buildMessage(type, locale, input, content);
+}
+
+export function buildPasswordResetEmail(locale: EmailLocale, input: PasswordResetEmailInput): NotificationMessage {
+  return buildMessage(PASSWORD_RESET_MESSAGE_TYPE, locale, input, COPY[locale].passwordReset(input));
+}
+
+// The email a status change sends; none for the steps customers are not told about
+export function orderEmailTypeForStatus(status: OrderStatus): OrderEmailType | undefined {
+  switch (status) {
+    case OrderStatus.CONFIRMED:
+      return 'order_confirmed';
+    case OrderStatus.SHIPPED:
+      return 'order_shipped';
+    case OrderStatus.DELIVERED:
+      return 'order_delivered';
+    case OrderStatus.CANCELLED:
+      return 'order_cancelled';
+    default:
+      return undefined;
+  }
+}
+
+export function parseEmailLocale(value: unknown): EmailLocale | undefined {
+  return EMAIL_LOCALES.find(locale => locale === value);
+}
+
+export function parseOrderEmailType(value: unknown): OrderEmailType | undefined {
+  return ORDER_EMAIL_TYPES.find(type => type === value);
+}
@@ -0,0 +1,285 @@
+// Sending email over SMTP with Node's own sockets: the MIME message and a
+// client for one delivery per connection (EHLO, STARTTLS, AUTH PLAIN). Mail
+// is only ever sent over TLS, so credentials and messages are never in the clear.
+import { randomUUID } from 'crypto';
+import { connect as connectTcp, Socket } from 'net';
+import { hostname } from 'os';
+import { connect as connectTls, TLSSocket } from 'tls';
+import { NotificationMessage } from './notifications.types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // TLS from the first byte (port 465); otherwise the server must offer STARTTLS
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface MimeOptions {
+  // e.g. "Store <no-reply@example.tn>"
+  from: string;
+  date?: Date;
+  messageId?: string;
+  boundary?: string;
+}
+
+const CRLF = '\r\n';
+
+// Milliseconds without a server response before the connection is dropped
+const SMTP_TIMEOUT = 30_000;
+
+// Milliseconds to wait for the server to accept the connection
+const SMTP_CONNECT_TIMEOUT = 10_000;
+
+// The address inside "Name <address>", or the value itself
+export function mailboxAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * A header value as RFC 2047 encoded words when it is not plain ASCII, split
+ * so no word exceeds the 75 character limit and never inside a character.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += character;
+  }
+  words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join(`${CRLF} `);
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return mailboxAddress(mailbox);
+  }
+  return `${encodeHeaderValue(match[1])} <${match[2].trim()}>`;
+}
+
+function base64Lines(content: string): string {
+  return (
+    Buffer.from(content)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join(CRLF) ?? ''
+  );
+}
+
+function mimePart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(content),
+  ].join(CRLF);
+}
+
+// The message as sent after DATA, with CRLF line endings; text and HTML bodies are alternatives
+export function buildMimeMessage(message: NotificationMessage, options: MimeOptions): string {
+  const fromAddress = mailboxAddress(options.from);
+  const headers = [
+    `From: ${encodeMailbox(options.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${options.messageId ?? randomUUID()}@${fromAddress.split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, mimePart('text/plain', message.text)].join(CRLF);
+  }
+
+  const boundary = options.boundary ?? `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    mimePart('text/plain', message.text),
+    `--${boundary}`,
+    mimePart('text/html', message.html),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+// Doubles the dot starting any line, so no line of the message ends the DATA command early
+export function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, CRLF).replace(/^\./gm, '..');
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation. Replies are read line by line; a reply ends with
+ * the line that has a space after its code.
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  // Replies that arrived before they were read
+  private readonly responses: SmtpResponse[] = [];
+  private pending?: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private socket: Socket) {
+    this.listen(socket);
+  }
+
+  async expect(codes: number[], command?: string): Promise<SmtpResponse> {
+    if (command !== undefined) {
+      this.socket.write(`${command}${CRLF}`);
+    }
+
+    const response = await this.read();
+    if (!codes.includes(response.code)) {
+      const sent = command?.startsWith('AUTH') ? 'AUTH' : command?.split(' ')[0] || 'greeting';
+      throw new Error(`SMTP ${sent} failed: ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.setTimeout(0);
+    const secured = connectTls({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+
+    this.socket = secured;
+    this.buffer = '';
+    this.listen(secured);
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof TLSSocket;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private listen(socket: Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        const pending = this.pending;
+        this.pending = undefined;
+        if (pending) {
+          pending.resolve(response);
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const pending = this.pending;
+    this.pending = undefined;
+    pending?.reject(error);
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const connected = () => {
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, connected)
+      : connectTcp({ host: config.host, port: config.port }, connected);
+    const timer = setTimeout(
+      () => socket.destroy(new Error('SMTP server did not accept the connection')),
+      SMTP_CONNECT_TIMEOUT
+    );
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+// Delivers one message to one recipient
+export async function sendSmtpMail(config: SmtpConfig, from: string, to: string, data: string): Promise<void> {
+  const session = new SmtpSession(await openSocket(config));
+
+  try {
+    await session.expect([220]);
+    const greeting = await session.expect([250], `EHLO ${hostname() || 'localhost'}`);
+
+    // A server, or anyone in between, leaving STARTTLS out must not get the mail in the clear
+    if (!config.secure) {
+      if (!greeting.lines.some(line => /^250[- ]STARTTLS\b/i.test(line))) {
+        throw new Error('SMTP server does not offer STARTTLS');
+      }
+      await session.expect([220], 'STARTTLS');
+      await session.startTls(config.host);
+      await session.expect([250], `EHLO ${hostname() || 'localhost'}`);
+    }
+
+    if (config.user) {
+      if (!session.encrypted) {
+        throw new Error('SMTP credentials are only sent over TLS');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64');
+      await session.expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await session.expect([250], `MAIL FROM:<${mailboxAddress(from)}>`);
+    await session.expect([250, 251], `RCPT TO:<${mailboxAddress(to)}>`);
+    await session.expect([354], 'DATA');
+    await session.expect([250], `${dotStuff(data)}${CRLF}.`);
+    await session.expect([221], 'QUIT').catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
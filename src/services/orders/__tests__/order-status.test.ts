@@ -0,0 +1,65 @@
+import { OrderStatus, PaymentMethod } from '@/types/enums';
+
+import {
+  assertOrderStatusTransition,
+  canTransitionOrderStatus,
+  fromOrderStatusDbValue,
+  initialOrderStatus,
+  parseOrderStatus,
+  toOrderStatusDbValue,
+} from '../order-status';
+
+describe('order-status', () => {
+  describe('status mapping', () => {
+    it('should round-trip every status through its stored value', () => {
+      Object.values(OrderStatus).forEach(status => {
+        expect(fromOrderStatusDbValue(toOrderStatusDbValue(status))).toBe(status);
+      });
+    });
+
+    it('should accept enum values and legacy spellings', () => {
+      expect(parseOrderStatus('shipped')).toBe(OrderStatus.SHIPPED);
+      expect(parseOrderStatus('packed')).toBe(OrderStatus.PROCESSING);
+      expect(parseOrderStatus('canceled')).toBe(OrderStatus.CANCELLED);
+    });
+
+    it('should reject unknown values', () => {
+      expect(parseOrderStatus('Lost')).toBeUndefined();
+      expect(fromOrderStatusDbValue(null)).toBe(OrderStatus.PENDING);
+    });
+  });
+
+  describe('initial status', () => {
+    it('should hold card and bank transfer orders until they are paid', () => {
+      expect(initialOrderStatus(PaymentMethod.CREDIT_CARD)).toBe(OrderStatus.AWAITING_PAYMENT);
+      expect(initialOrderStatus(PaymentMethod.BANK_TRANSFER)).toBe(OrderStatus.AWAITING_PAYMENT);
+      expect(initialOrderStatus(PaymentMethod.CASH_ON_DELIVERY)).toBe(OrderStatus.PENDING);
+    });
+  });
+
+  describe('transitions', () => {
+    it('should allow the normal fulfilment flow', () => {
+      expect(canTransitionOrderStatus(OrderStatus.PENDING, OrderStatus.CONFIRMED)).toBe(true);
+      expect(canTransitionOrderStatus(OrderStatus.CONFIRMED, OrderStatus.PROCESSING)).toBe(true);
+      expect(canTransitionOrderStatus(OrderStatus.PROCESSING, OrderStatus.SHIPPED)).toBe(true);
+      expect(canTransitionOrderStatus(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(true);
+    });
+
+    it('should let an order awaiting payment be confirmed or cancelled', () => {
+      expect(canTransitionOrderStatus(OrderStatus.AWAITING_PAYMENT, OrderStatus.CONFIRMED)).toBe(true);
+      expect(canTransitionOrderStatus(OrderStatus.AWAITING_PAYMENT, OrderStatus.CANCELLED)).toBe(true);
+      expect(canTransitionOrderStatus(OrderStatus.AWAITING_PAYMENT, OrderStatus.SHIPPED)).toBe(false);
+    });
+
+    it('should treat delivered and cancelled orders as final', () => {
+      expect(canTransitionOrderStatus(OrderStatus.DELIVERED, OrderStatus.PENDING)).toBe(false);
+      expect(canTransitionOrderStatus(OrderStatus.CANCELLED, OrderStatus.SHIPPED)).toBe(false);
+    });
+
+    it('should throw a BusinessError for invalid transitions', () => {
+      expect(() => assertOrderStatusTransition(OrderStatus.DELIVERED, OrderStatus.PENDING)).toThrow(
+        expect.objectContaining({ code: 'INVALID_STATUS_TRANSITION' })
+      );
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { calculateOrderTotals, orderTotalsFromRow } from '../order-totals';
+
+describe('order-totals', () => {
+  const items = [
+    { quantity: 2, unitPrice: 12.5 },
+    { quantity: 1, unitPrice: 30 },
+  ];
+
+  describe('calculateOrderTotals', () => {
+    it('should apply VAT to the discounted subtotal and add delivery after tax', () => {
+      const totals = calculateOrderTotals({
+        items,
+        pricing: { taxRate: 19, deliveryFee: 7 },
+        discountAmount: 10,
+        discountCode: 'SAVE10',
+      });
+
+      expect(totals).toEqual({
+        subtotal: 55,
+        discountAmount: 10,
+        discountCode: 'SAVE10',
+        taxRate: 19,
+        taxAmount: 8.55,
+        shippingAmount: 7,
+        total: 60.55,
+      });
+    });
+
+    it('should never discount more than the subtotal', () => {
+      const totals = calculateOrderTotals({
+        items,
+        pricing: { taxRate: 0, deliveryFee: 7 },
+        discountAmount: 100,
+      });
+
+      expect(totals.discountAmount).toBe(55);
+      expect(totals.total).toBe(7);
+    });
+
+    it('should deliver free once the discounted subtotal reaches the threshold', () => {
+      const pricing = { taxRate: 0, deliveryFee: 7, freeDeliveryThreshold: 50 };
+
+      expect(calculateOrderTotals({ items, pricing }).shippingAmount).toBe(0);
+      expect(calculateOrderTotals({ items, pricing, discountAmount: 10 }).shippingAmount).toBe(7);
+    });
+
+    it('should drop the code when nothing was discounted', () => {
+      const totals = calculateOrderTotals({ items, pricing: { taxRate: 0, deliveryFee: 0 }, discountCode: 'SAVE10' });
+
+      expect(totals.discountCode).toBeUndefined();
+      expect(totals.total).toBe(55);
+    });
+  });
+
+  describe('orderTotalsFromRow', () => {
+    it('should read the stored breakdown', () => {
+      const totals = orderTotalsFromRow({
+        total_amount: 60.55,
+        delivery_fee: 7,
+        subtotal: 55,
+        discount_amount: 10,
+        discount_code: 'SAVE10',
+        tax_rate: 19,
+        tax_amount: 8.55,
+      });
+
+      expect(totals.subtotal).toBe(55);
+      expect(totals.taxAmount).toBe(8.55);
+      expect(totals.discountCode).toBe('SAVE10');
+    });
+
+    it('should derive the subtotal of orders placed before it was stored', () => {
+      const totals = orderTotalsFromRow({ total_amount: 62, delivery_fee: 7 });
+
+      expect(totals.subtotal).toBe(55);
+      expect(totals.discountAmount).toBe(0);
+      expect(totals.taxAmount).toBe(0);
+    });
+  });
+});
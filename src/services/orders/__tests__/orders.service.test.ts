@@ -0,0 +1,141 @@
+import { OrderStatus, PaymentMethod } from '@/types/enums';
+import { FakeQuery, FakeResponse, FakeSupabaseClient, signedInClient } from '@/test-utils/fake-supabase';
+import { orderService } from '../orders.service';
+
+// The visitor is signed in, so the cookie client runs as `authenticated`
+const mockSessionClient = signedInClient({ query: query => mockDatabase(query) });
+const mockServiceClient = new FakeSupabaseClient({
+  query: query => mockDatabase(query),
+  rpc: ({ name }) => {
+    switch (name) {
+      case 'create_order_with_items':
+        return { data: orderRow };
+      case 'cancel_order':
+        if (orderRow.status === 'Cancelled') {
+          return { error: { message: 'ORDER_ALREADY_CANCELLED' } };
+        }
+        orderRow.status = 'Cancelled';
+        return { data: orderRow };
+      default:
+        return { data: 0 };
+    }
+  },
+});
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClientServer: async (mode?: string) => (mode === 'service_role' ? mockServiceClient : mockSessionClient),
+  createServiceRoleClient: () => mockServiceClient,
+}));
+jest.mock('../../cart/cart.service', () => ({ cartService: {} }));
+jest.mock('../../products/products.service', () => ({ productService: {} }));
+jest.mock('../../inventory/inventory.service', () => ({
+  inventoryService: { checkLowStock: async () => undefined },
+}));
+jest.mock('../../notifications/order-email.service', () => ({
+  orderEmailService: { sendOrderEmail: async () => ({ success: true, data: null }) },
+}));
+jest.mock('../../refunds/refund.service', () => ({
+  refundService: { creditCancelledOrder: async () => ({ success: true }) },
+}));
+jest.mock('../order-pricing', () => ({
+  priceOrder: async () => ({
+    subtotal: 40,
+    discountAmount: 0,
+    taxRate: 0,
+    taxAmount: 0,
+    shippingAmount: 7,
+    total: 47,
+  }),
+}));
+
+const orderRow = {
+  id: 'order-1',
+  customer_id: 'customer-1',
+  status: 'Pending Confirmation',
+  subtotal: 40,
+  discount_amount: 0,
+  tax_rate: 0,
+  tax_amount: 0,
+  delivery_fee: 7,
+  total_amount: 47,
+  payment_method: 'cash_on_delivery',
+  order_date: '2026-10-19T09:00:00.000Z',
+  order_items: [],
+  payments: [],
+  order_tracking: [],
+  shipments: null,
+};
+
+function mockDatabase(query: FakeQuery): FakeResponse {
+  if (query.table === 'addresses') {
+    return { data: { city: 'Tunis' } };
+  }
+  if (query.table === 'orders') {
+    return { data: orderRow };
+  }
+  return { data: null };
+}
+
+describe('orderService', () => {
+  it('should place and cancel an order for a signed-in customer', async () => {
+    const placed = await orderService.createOrder({
+      customerId: 'customer-1',
+      items: [{ productId: 'product-1', quantity: 2, unitPrice: 20 }],
+      shippingAddressId: 'address-1',
+      paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+    });
+
+    expect(placed.success).toBe(true);
+    expect(placed.data?.id).toBe('order-1');
+
+    const cancelled = await orderService.cancelOrder('order-1', 'Changed my mind', { updatedBy: 'admin-1' });
+
+    expect(cancelled.success).toBe(true);
+    expect(orderRow.status).toBe('Cancelled');
+    expect(mockServiceClient.rpcCalls.map(call => call.name)).toEqual([
+      'create_order_with_items',
+      'cancel_order',
+    ]);
+    expect(mockServiceClient.rpcCalls[1].args).toEqual({
+      p_order_id: 'order-1',
+      p_reason: 'Changed my mind',
+      p_cancelled_by: 'admin-1',
+      p_cancelled_by_email: null,
+    });
+    expect(mockServiceClient.rpcCalls[0].args.p_created_by).toBe('customer-1');
+    // History is written by the functions that make the change, never on its own
+    expect(mockServiceClient.queriesOf('order_tracking')).toEqual([]);
+    expect(mockSessionClient.rpcCalls).toEqual([]);
+  });
+
+  it('should not cancel an order twice', async () => {
+    const result = await orderService.cancelOrder('order-1', 'Changed my mind again');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('ORDER_ALREADY_CANCELLED');
+  });
+
+  it('should not cancel an order through a status update', async () => {
+    const rpcCount = mockServiceClient.rpcCalls.length;
+
+    const result = await orderService.updateOrderStatus({ orderId: 'order-1', status: OrderStatus.CANCELLED });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('ORDER_CANCEL_REQUIRED');
+    expect(mockServiceClient.rpcCalls.length).toBe(rpcCount);
+  });
+
+  it('should not serve an order read with the service role to a session caller', async () => {
+    await orderService.createOrder({
+      customerId: 'customer-1',
+      items: [{ productId: 'product-1', quantity: 1, unitPrice: 20 }],
+      shippingAddressId: 'address-1',
+      paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+    });
+    const sessionReads = mockSessionClient.queriesOf('orders').length;
+
+    await orderService.getOrder('order-1');
+
+    expect(mockSessionClient.queriesOf('orders').length).toBe(sessionReads + 1);
+  });
+});
@@ -1,3 +1,8 @@
 // Orders service exports
+export * from './order-pricing';
+export * from './order-shipment';
+export * from './order-status';
+export * from './order-totals';
+export * from './order-tracking';
 export * from './orders.service';
 export * from './orders.types';
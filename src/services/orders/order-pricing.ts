@@ -0,0 +1,95 @@
+import { ValidationError } from '@/lib/errors/custom-errors';
+import { logger } from '@/lib/logger';
+import { createClientServer } from '@/lib/supabase/server';
+import { OrderTotals } from '@/types/business';
+import { quoteDelivery } from '../delivery/delivery-zones';
+import { deliveryZoneService } from '../delivery/delivery-zones.service';
+import { DiscountService, DiscountableItem, normalizeDiscountCode } from '../discounts/discount.service';
+import { OrderPricing, calculateOrderTotals } from './order-totals';
+
+export interface PriceOrderOptions {
+  customerId?: string;
+  discountCode?: string;
+  // Prices delivery by the zone of the shipping address's city
+  shippingCity?: string;
+}
+
+/**
+ * Latest store_settings row; missing settings mean no tax and free delivery.
+ * With a shipping city, delivery is priced by the zone of its governorate and
+ * a city in an undeliverable zone is rejected.
+ */
+export async function getOrderPricing(shippingCity?: string): Promise<OrderPricing> {
+  const supabase = await createClientServer('service_role');
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('tax_rate, delivery_fee, free_delivery_threshold, updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn('Failed to fetch store pricing settings', {
+      action: 'getOrderPricing',
+      error: error.message,
+    });
+  }
+
+  const defaults = {
+    fee: Number(data?.delivery_fee) || 0,
+    freeDeliveryThreshold: Number(data?.free_delivery_threshold) || undefined,
+  };
+
+  const zonesResult = shippingCity ? await deliveryZoneService.getZones() : undefined;
+  if (zonesResult && !zonesResult.success) {
+    logger.warn('Failed to fetch delivery zones, using the store-wide delivery fee', {
+      action: 'getOrderPricing',
+      error: zonesResult.error?.message,
+    });
+  }
+
+  const quote = quoteDelivery(zonesResult?.data || [], shippingCity, defaults);
+  if (!quote.deliverable) {
+    throw new ValidationError(`Delivery is not available to ${shippingCity}`, 'UNDELIVERABLE_ADDRESS', 'shippingCity');
+  }
+
+  return {
+    taxRate: Number(data?.tax_rate) || 0,
+    deliveryFee: quote.fee,
+    freeDeliveryThreshold: quote.freeDeliveryThreshold,
+  };
+}
+
+/**
+ * Prices a set of items with the current store settings and an optional
+ * discount code. An invalid code is an error rather than being ignored, so
+ * the customer is never charged a total they were not shown.
+ */
+export async function priceOrder(items: DiscountableItem[], options: PriceOrderOptions = {}): Promise<OrderTotals> {
+  const pricing = await getOrderPricing(options.shippingCity);
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+  let discountAmount = 0;
+  if (options.discountCode) {
+    const discountValidation = await DiscountService.validateDiscountCode(options.discountCode, subtotal, {
+      customerId: options.customerId,
+      items,
+    });
+
+    if (!discountValidation.isValid) {
+      throw new ValidationError(
+        `Discount code error: ${discountValidation.error}`,
+        discountValidation.errorCode || 'INVALID_DISCOUNT_CODE',
+        'discountCode'
+      );
+    }
+    discountAmount = discountValidation.discountAmount || 0;
+  }
+
+  return calculateOrderTotals({
+    items,
+    pricing,
+    discountAmount,
+    discountCode: options.discountCode ? normalizeDiscountCode(options.discountCode) : undefined,
+  });
+}
@@ -0,0 +1,22 @@
+import { OrderShipment, ShipmentStatus } from '@/types/business';
+import { Tables } from '@/types/supabase';
+
+type ShipmentRow = Tables<'shipments'>;
+
+export function mapOrderShipmentRow(row: ShipmentRow): OrderShipment {
+  return {
+    carrier: row.carrier,
+    carrierName: row.carrier_name || undefined,
+    trackingNumber: row.tracking_number,
+    trackingUrl: row.tracking_url || undefined,
+    status: (row.status as ShipmentStatus) || 'in_transit',
+    shippedAt: new Date(row.shipped_at),
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+  };
+}
+
+// The embedded shipments relation is an object on one-to-one joins, but older
+// PostgREST versions return it as an array
+export function pickShipmentRow(embedded: ShipmentRow | ShipmentRow[] | null | undefined): ShipmentRow | undefined {
+  return (Array.isArray(embedded) ? embedded[0] : embedded) || undefined;
+}
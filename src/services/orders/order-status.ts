@@ -0,0 +1,88 @@
+import { BusinessError } from '@/lib/errors/custom-errors';
+import { OrderStatus, PaymentMethod } from '@/types/enums';
+
+// Values stored in orders.status. The admin UI and API speak these labels,
+// the services speak OrderStatus; this is the only place that maps between them.
+export const ORDER_STATUS_DB_VALUES: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'Pending Confirmation',
+  [OrderStatus.AWAITING_PAYMENT]: 'Awaiting Payment',
+  [OrderStatus.CONFIRMED]: 'Confirmed',
+  [OrderStatus.PROCESSING]: 'Processing',
+  [OrderStatus.SHIPPED]: 'Shipped',
+  [OrderStatus.DELIVERED]: 'Delivered',
+  [OrderStatus.CANCELLED]: 'Cancelled',
+};
+
+// Legacy values written by older versions of the checkout and admin screens
+const LEGACY_DB_VALUES: Record<string, OrderStatus> = {
+  pending: OrderStatus.PENDING,
+  'awaiting confirmation': OrderStatus.PENDING,
+  awaiting_confirmation: OrderStatus.PENDING,
+  packed: OrderStatus.PROCESSING,
+  emballé: OrderStatus.PROCESSING,
+  canceled: OrderStatus.CANCELLED,
+};
+
+// Allowed transitions; delivered and cancelled orders are final
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.AWAITING_PAYMENT]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Card and bank transfer orders wait for their payment; cash on delivery orders for the shop to confirm them
+const PREPAID_METHODS = [PaymentMethod.CREDIT_CARD, PaymentMethod.BANK_TRANSFER];
+
+export function initialOrderStatus(paymentMethod: PaymentMethod): OrderStatus {
+  return PREPAID_METHODS.includes(paymentMethod) ? OrderStatus.AWAITING_PAYMENT : OrderStatus.PENDING;
+}
+
+export function toOrderStatusDbValue(status: OrderStatus): string {
+  return ORDER_STATUS_DB_VALUES[status];
+}
+
+/**
+ * Parse a stored or API-supplied status. Accepts the stored labels, the enum
+ * values and known legacy spellings; returns undefined for anything else.
+ */
+export function parseOrderStatus(value?: string | null): OrderStatus | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  const byLabel = (Object.keys(ORDER_STATUS_DB_VALUES) as OrderStatus[]).find(
+    status => ORDER_STATUS_DB_VALUES[status].toLowerCase() === trimmed.toLowerCase()
+  );
+  if (byLabel) {
+    return byLabel;
+  }
+
+  if ((Object.values(OrderStatus) as string[]).includes(trimmed.toLowerCase())) {
+    return trimmed.toLowerCase() as OrderStatus;
+  }
+
+  return LEGACY_DB_VALUES[trimmed.toLowerCase()];
+}
+
+// Orders created before the status column was populated are treated as pending
+export function fromOrderStatusDbValue(value?: string | null): OrderStatus {
+  return parseOrderStatus(value) ?? OrderStatus.PENDING;
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertOrderStatusTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransitionOrderStatus(from, to)) {
+    throw new BusinessError(`Cannot change order status from ${from} to ${to}`, 'INVALID_STATUS_TRANSITION', 'low', {
+      from,
+      to,
+    });
+  }
+}
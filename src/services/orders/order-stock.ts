@@ -0,0 +1,65 @@
+import { BusinessError } from '@/lib/errors/custom-errors';
+import { productService } from '../products/products.service';
+
+// Errors raised by reserve_stock; the product id is in the error details and
+// the variant id, for products sold in variants, in the hint
+const STOCK_ERRORS = [
+  'INSUFFICIENT_STOCK',
+  'PRODUCT_NOT_FOUND',
+  'VARIANT_NOT_FOUND',
+  'VARIANT_REQUIRED',
+  'INVALID_QUANTITY',
+] as const;
+
+export interface StockLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * Maps a stock error from the database to a BusinessError naming the
+ * product, or returns undefined for unrelated errors.
+ */
+export async function stockReservationError(
+  error: { message?: string; details?: string | null; hint?: string | null },
+  lines: StockLine[]
+): Promise<BusinessError | undefined> {
+  const errorCode = STOCK_ERRORS.find(code => error.message?.includes(code));
+  if (!errorCode) {
+    return undefined;
+  }
+
+  const productId = error.details || '';
+  const variantId = error.hint || undefined;
+  if (errorCode === 'PRODUCT_NOT_FOUND') {
+    return new BusinessError(`Product ${productId} not found`, errorCode, 'low', { productId });
+  }
+  if (errorCode === 'VARIANT_NOT_FOUND') {
+    return new BusinessError('This size is no longer available', errorCode, 'low', { productId, variantId });
+  }
+  if (errorCode === 'VARIANT_REQUIRED') {
+    return new BusinessError('Choose a size for this product', errorCode, 'low', { productId });
+  }
+  if (errorCode === 'INVALID_QUANTITY') {
+    return new BusinessError('Quantity must be greater than 0', errorCode, 'low', { productId });
+  }
+
+  const requested = lines
+    .filter(line => line.productId === productId && (line.variantId ?? undefined) === variantId)
+    .reduce((sum, line) => sum + line.quantity, 0);
+  const productResult = await productService.getProduct(productId);
+  const product = productResult.success ? productResult.data : undefined;
+  const variant = variantId ? product?.variants?.find(candidate => candidate.id === variantId) : undefined;
+  const name = product && variant ? `${product.name} (${variant.name})` : product?.name;
+  const available = variant ? variant.stock : product?.stock;
+
+  return new BusinessError(
+    product
+      ? `Insufficient stock for product ${name}. Available: ${available}, Requested: ${requested}`
+      : 'Insufficient stock',
+    errorCode,
+    'low',
+    { productId, variantId, requested }
+  );
+}
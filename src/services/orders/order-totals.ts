@@ -0,0 +1,85 @@
+import { OrderTotals } from '@/types/business';
+
+// Store-wide pricing inputs, read from store_settings
+export interface OrderPricing {
+  taxRate: number; // percentage, e.g. 19 for 19% VAT
+  deliveryFee: number;
+  // Delivery is free when the discounted subtotal reaches this amount
+  freeDeliveryThreshold?: number;
+}
+
+export interface PricedItem {
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface OrderTotalsInput {
+  items: PricedItem[];
+  pricing: OrderPricing;
+  discountAmount?: number;
+  discountCode?: string;
+}
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The only place order amounts are calculated. VAT applies to the discounted
+ * subtotal; the delivery fee is added after tax, unless the discounted
+ * subtotal reaches the free-delivery threshold. Safe to import from client
+ * components, so the cart can recalculate as quantities change.
+ */
+export function calculateOrderTotals({
+  items,
+  pricing,
+  discountAmount = 0,
+  discountCode,
+}: OrderTotalsInput): OrderTotals {
+  const subtotal = roundAmount(items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0));
+  const discount = roundAmount(Math.min(Math.max(discountAmount, 0), subtotal));
+  const taxRate = Math.max(pricing.taxRate || 0, 0);
+  const taxAmount = roundAmount(((subtotal - discount) * taxRate) / 100);
+  const freeDelivery = !!pricing.freeDeliveryThreshold && subtotal - discount >= pricing.freeDeliveryThreshold;
+  const shippingAmount = freeDelivery ? 0 : roundAmount(Math.max(pricing.deliveryFee || 0, 0));
+
+  return {
+    subtotal,
+    discountAmount: discount,
+    discountCode: discount > 0 ? discountCode : undefined,
+    taxRate,
+    taxAmount,
+    shippingAmount,
+    total: roundAmount(subtotal - discount + taxAmount + shippingAmount),
+  };
+}
+
+// Breakdown stored on an order row. Orders placed before the breakdown was
+// stored only have a total and a delivery fee, so the rest is derived.
+export function orderTotalsFromRow(row: {
+  total_amount: number;
+  delivery_fee?: number | null;
+  subtotal?: number | null;
+  discount_amount?: number | null;
+  discount_code?: string | null;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+}): OrderTotals {
+  const total = Number(row.total_amount) || 0;
+  const shippingAmount = Number(row.delivery_fee) || 0;
+  const discountAmount = Number(row.discount_amount) || 0;
+  const taxAmount = Number(row.tax_amount) || 0;
+
+  return {
+    subtotal:
+      row.subtotal !== null && row.subtotal !== undefined
+        ? Number(row.subtotal)
+        : roundAmount(total - shippingAmount - taxAmount + discountAmount),
+    discountAmount,
+    discountCode: row.discount_code || undefined,
+    taxRate: Number(row.tax_rate) || 0,
+    taxAmount,
+    shippingAmount,
+    total,
+  };
+}
@@ -0,0 +1,27 @@
+import { OrderTracking } from '@/types/business';
+import { OrderTrackingEventType } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { fromOrderStatusDbValue } from './order-status';
+
+type OrderTrackingRow = Tables<'order_tracking'>;
+
+export function mapOrderTrackingRow(row: OrderTrackingRow): OrderTracking {
+  return {
+    id: row.id,
+    type: (row.event_type as OrderTrackingEventType) || OrderTrackingEventType.STATUS_CHANGE,
+    status: fromOrderStatusDbValue(row.status),
+    timestamp: new Date(row.created_at),
+    notes: row.notes || undefined,
+    trackingNumber: row.tracking_number || undefined,
+    isInternal: row.is_internal,
+    updatedBy: row.created_by || undefined,
+    updatedByEmail: row.created_by_email || undefined,
+  };
+}
+
+// Oldest first, which is the order the timelines render in
+export function mapOrderTrackingRows(rows: OrderTrackingRow[] = []): OrderTracking[] {
+  return rows
+    .map(mapOrderTrackingRow)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
@@ -1,27 +1,87 @@
 import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
 import { logger } from '@/lib/logger';
-import { createClientServer } from '@/lib/supabase/server';
+import { createClientServer, createServiceRoleClient, ServerClientMode } from '@/lib/supabase/server';
+import { isValidPhoneNumber } from '@/lib/utils/profile-validation';
 import {
+    AddOrderNoteData,
     CheckoutData,
     CheckoutResult,
     CreateOrderData,
+    GuestCheckoutData,
     Order,
     OrderFilters,
     OrderItem,
     OrderStats,
+    OrderTotals,
     OrderTracking,
     UpdateOrderStatusData,
 } from '@/types/business';
 import { PaginatedResult, ServiceResult } from '@/types/common';
-import { OrderStatus, PaymentMethod, PaymentStatus, ProductStatus, UserRole } from '@/types/enums';
+import { OrderStatus, OrderTrackingEventType, PaymentMethod, PaymentStatus, ProductStatus, UserRole } from '@/types/enums';
 import { Tables } from '@/types/supabase';
-import { productService } from '../products/products.service';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { cartService } from '../cart/cart.service';
+import { DiscountService, discountRedemptionError } from '../discounts/discount.service';
+import { inventoryService } from '../inventory/inventory.service';
+import { orderEmailService } from '../notifications/order-email.service';
+import { orderEmailTypeForStatus } from '../notifications/order-emails';
+import { OrderEmailType } from '../notifications/notifications.types';
+import { refundService } from '../refunds/refund.service';
+import { priceOrder } from './order-pricing';
+import {
+  assertOrderStatusTransition,
+  fromOrderStatusDbValue,
+  initialOrderStatus,
+  toOrderStatusDbValue,
+} from './order-status';
+import { stockReservationError } from './order-stock';
+import { orderTotalsFromRow } from './order-totals';
+import { mapOrderShipmentRow, pickShipmentRow } from './order-shipment';
+import { mapOrderTrackingRows } from './order-tracking';
 import { CheckoutService, OrderService } from './orders.types';
 
 type OrderRow = Tables<'orders'>;
 type OrderItemRow = Tables<'order_items'>;
 type PaymentRow = Tables<'payments'>;
 
+// Guests enter a street address and city only; the store delivers within one country
+const GUEST_ADDRESS_COUNTRY = 'تونس';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Errors raised by cancel_order
+const CANCEL_ERRORS = ['ORDER_NOT_FOUND', 'ORDER_ALREADY_DELIVERED', 'ORDER_ALREADY_CANCELLED'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function validateGuestCheckout(data: GuestCheckoutData): void {
+  if (!data.guestCartToken) {
+    throw new ValidationError('Cart is required', 'guestCartToken', 'REQUIRED');
+  }
+  if (!data.firstName?.trim()) {
+    throw new ValidationError('First name is required', 'firstName', 'REQUIRED');
+  }
+  if (!data.lastName?.trim()) {
+    throw new ValidationError('Last name is required', 'lastName', 'REQUIRED');
+  }
+  if (!EMAIL_PATTERN.test(data.email?.trim() ?? '')) {
+    throw new ValidationError('A valid email is required', 'email', 'INVALID');
+  }
+  if (!isValidPhoneNumber(data.phone)) {
+    throw new ValidationError('A valid phone number is required', 'phone', 'INVALID');
+  }
+  if (!data.addressLine1?.trim()) {
+    throw new ValidationError('Address is required', 'addressLine1', 'REQUIRED');
+  }
+  if (!data.city?.trim()) {
+    throw new ValidationError('City is required', 'city', 'REQUIRED');
+  }
+  if (!data.paymentMethod) {
+    throw new ValidationError('Payment method is required', 'paymentMethod', 'REQUIRED');
+  }
+}
+
 export class OrderServiceImpl implements OrderService {
   private cache = new Map<string, { data: any; timestamp: number }>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -52,9 +112,72 @@ export class OrderServiceImpl implements OrderService {
     }
   }
 
-  private async mapOrderRow(orderRow: OrderRow, items: any[] = [], payments: any[] = []): Promise<Order> {
+  // The order stands even if the customer cannot be emailed; the failure is on the order's email log
+  private async sendOrderEmail(orderId: string, type: OrderEmailType): Promise<void> {
+    const result = await orderEmailService.sendOrderEmail(orderId, type);
+    if (!result.success) {
+      logger.warn('Failed to email customer about order', {
+        action: 'sendOrderEmail',
+        orderId,
+        type,
+        error: result.error?.message,
+      });
+    }
+  }
+
+  // Keeps the carrier and tracking number the order was shipped with
+  private async recordShipment(data: UpdateOrderStatusData): Promise<void> {
+    const supabase = await createClientServer('service_role');
+    const { error } = await supabase.from('shipments').upsert(
+      {
+        order_id: data.orderId,
+        carrier: data.carrier || 'manual',
+        carrier_name: data.carrierName,
+        tracking_number: data.trackingNumber!,
+        tracking_url: data.trackingUrl,
+        status: 'in_transit',
+        shipped_at: new Date().toISOString(),
+        delivered_at: null,
+        created_by: data.updatedBy,
+        created_by_email: data.updatedByEmail,
+      },
+      { onConflict: 'order_id' }
+    );
+
+    if (error) {
+      logger.warn('Failed to record shipment', {
+        action: 'recordShipment',
+        orderId: data.orderId,
+        error: error.message,
+      });
+    }
+  }
+
+  private async recordShipmentDelivered(orderId: string): Promise<void> {
+    const supabase = await createClientServer('service_role');
+    const { error } = await supabase
+      .from('shipments')
+      .update({ status: 'delivered', delivered_at: new Date().toISOString() })
+      .eq('order_id', orderId)
+      .is('delivered_at', null);
+
+    if (error) {
+      logger.warn('Failed to mark shipment delivered', {
+        action: 'recordShipmentDelivered',
+        orderId,
+        error: error.message,
+      });
+    }
+  }
+
+  private async mapOrderRow(
+    orderRow: OrderRow,
+    items: any[] = [],
+    payments: any[] = [],
+    trackingRows: any[] = [],
+    shipmentRow?: Tables<'shipments'>
+  ): Promise<Order> {
     const orderItems: OrderItem[] = [];
-    let subtotal = 0;
 
     for (const item of items) {
       const product = item.products;
@@ -66,6 +189,8 @@ export class OrderServiceImpl implements OrderService {
           id: item.id,
           orderId: orderRow.id,
           productId: item.product_id,
+          variantId: item.variant_id || undefined,
+          variantName: item.variant_name || undefined,
           product: {
             id: product.id,
             name: product.name,
@@ -86,8 +211,6 @@ export class OrderServiceImpl implements OrderService {
           createdAt: new Date(item.created_at || orderRow.order_date),
           updatedAt: new Date(item.created_at || orderRow.order_date),
         });
-
-        subtotal += totalPrice;
       }
     }
 
@@ -99,7 +222,8 @@ export class OrderServiceImpl implements OrderService {
             orderId: orderRow.id,
             amount: payments[0].amount,
             paymentMethod: payments[0].payment_method as PaymentMethod,
-            status: PaymentStatus.PENDING, // Default status
+            status: (payments[0].status as PaymentStatus) || PaymentStatus.PENDING,
+            refundedAmount: Number(payments[0].refunded_amount) || 0,
             transactionId: payments[0].transaction_id,
             processedAt: payments[0].processed_at ? new Date(payments[0].processed_at) : undefined,
             createdAt: new Date(payments[0].created_at),
@@ -107,16 +231,22 @@ export class OrderServiceImpl implements OrderService {
           }
         : undefined;
 
-    const deliveryFee = (orderRow as any).delivery_fee ? Number((orderRow as any).delivery_fee) : 0;
-
-    // Create basic tracking
-    const tracking: OrderTracking[] = [
-      {
-        status: OrderStatus.PENDING,
-        timestamp: new Date(orderRow.order_date),
-        notes: 'Order created',
-      },
-    ];
+    const totals = orderTotalsFromRow(orderRow);
+    const status = fromOrderStatusDbValue(orderRow.status);
+    const shipment = shipmentRow ? mapOrderShipmentRow(shipmentRow) : undefined;
+
+    // Orders created before history was recorded only get their creation entry
+    const tracking: OrderTracking[] =
+      trackingRows.length > 0
+        ? mapOrderTrackingRows(trackingRows)
+        : [
+            {
+              type: OrderTrackingEventType.STATUS_CHANGE,
+              status: OrderStatus.PENDING,
+              timestamp: new Date(orderRow.order_date),
+              notes: 'Order created',
+            },
+          ];
 
     return {
       id: orderRow.id,
@@ -133,12 +263,14 @@ export class OrderServiceImpl implements OrderService {
         updatedAt: new Date(),
       },
       items: orderItems,
-      status: OrderStatus.PENDING, // Default status since not in current schema
-      totalAmount: orderRow.total_amount,
-      subtotal,
-      discountAmount: 0,
-      taxAmount: 0,
-      shippingAmount: deliveryFee,
+      status,
+      totalAmount: totals.total,
+      subtotal: totals.subtotal,
+      discountAmount: totals.discountAmount,
+      taxAmount: totals.taxAmount,
+      taxRate: totals.taxRate,
+      shippingAmount: totals.shippingAmount,
+      discountCode: totals.discountCode,
       shippingAddress: {
         id: '',
         customerId: orderRow.customer_id || '',
@@ -154,7 +286,10 @@ export class OrderServiceImpl implements OrderService {
       },
       paymentMethod: ((orderRow as any).payment_method as PaymentMethod) || PaymentMethod.CASH_ON_DELIVERY,
       payment,
-      notes: '',
+      notes: orderRow.notes || '',
+      trackingNumber: shipment?.trackingNumber,
+      deliveredAt: shipment?.deliveredAt,
+      shipment,
       tracking,
       orderDate: new Date(orderRow.order_date),
       createdAt: new Date(orderRow.order_date),
@@ -180,8 +315,7 @@ export class OrderServiceImpl implements OrderService {
         throw new ValidationError('Payment method is required', 'paymentMethod', 'REQUIRED');
       }
 
-      // Validate items and calculate totals
-      let subtotal = 0;
+      // Validate items
       for (const item of data.items) {
         if (!item.productId) {
           throw new ValidationError('Product ID is required for all items', 'productId', 'REQUIRED');
@@ -192,45 +326,83 @@ export class OrderServiceImpl implements OrderService {
         if (!item.unitPrice || item.unitPrice <= 0) {
           throw new ValidationError('Unit price must be greater than 0', 'unitPrice', 'INVALID');
         }
+      }
 
-        // Verify product exists and has sufficient stock
-        const productResult = await productService.getProduct(item.productId);
-        if (!productResult.success || !productResult.data) {
-          throw new BusinessError(`Product ${item.productId} not found`, 'PRODUCT_NOT_FOUND');
-        }
+      // The order is written by functions only the service role may run, whoever is signed in
+      const supabase = createServiceRoleClient();
 
-        const product = productResult.data;
-        if (product.stock < item.quantity) {
-          throw new BusinessError(
-            `Insufficient stock for product ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`,
-            'INSUFFICIENT_STOCK'
-          );
-        }
+      // Delivery is priced by the zone of the shipping address's city
+      const { data: shippingAddress, error: addressError } = await supabase
+        .from('addresses')
+        .select('city')
+        .eq('id', data.shippingAddressId)
+        .maybeSingle();
 
-        subtotal += item.unitPrice * item.quantity;
+      if (addressError) {
+        logger.error('Failed to fetch shipping address', addressError, {
+          action: 'createOrder',
+          shippingAddressId: data.shippingAddressId,
+        });
+        throw new BusinessError('Failed to fetch shipping address', 'ADDRESS_FETCH_ERROR');
+      }
+      if (!shippingAddress) {
+        throw new ValidationError('Shipping address not found', 'shippingAddressId', 'NOT_FOUND');
       }
 
-      const supabase = await createClientServer('service_role');
+      // Amounts are always priced on the server from the current store settings
+      const totals = await priceOrder(data.items, {
+        customerId: data.customerId,
+        discountCode: data.discountCode,
+        shippingCity: shippingAddress.city,
+      });
 
-      // Create order
-      const shipping = typeof (data as any).deliveryFee === 'number' ? Number((data as any).deliveryFee) : 0;
-      const total = subtotal + shipping;
+      const initialStatus = initialOrderStatus(data.paymentMethod);
 
+      // Stock is taken, the order and its items are inserted, the coupon is
+      // redeemed and the order's history started in one transaction; if any
+      // step fails nothing is written
       const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          customer_id: data.customerId,
-          total_amount: total,
-          delivery_fee: shipping,
-          shipping_address_id: (data as any).shippingAddressId,
-          payment_method: data.paymentMethod as any,
-          status: 'Pending Confirmation',
-          order_date: new Date().toISOString(),
+        .rpc('create_order_with_items', {
+          p_order: {
+            customer_id: data.customerId,
+            subtotal: totals.subtotal,
+            discount_amount: totals.discountAmount,
+            discount_code: totals.discountCode,
+            tax_rate: totals.taxRate,
+            tax_amount: totals.taxAmount,
+            delivery_fee: totals.shippingAmount,
+            total_amount: totals.total,
+            shipping_address_id: data.shippingAddressId,
+            payment_method: data.paymentMethod,
+            notes: data.notes,
+            status: toOrderStatusDbValue(initialStatus),
+            order_date: new Date().toISOString(),
+          },
+          p_items: data.items.map(item => ({
+            product_id: item.productId,
+            variant_id: item.variantId ?? null,
+            quantity: item.quantity,
+            price: item.unitPrice,
+          })),
+          p_discount_code: totals.discountCode ?? null,
+          // A guest has no user to record the "Order created" entry against
+          p_created_by: data.isGuest ? null : data.customerId,
         })
-        .select()
-        .single();
+        .single<OrderRow>();
 
       if (orderError) {
+        const knownError =
+          (await stockReservationError(orderError, data.items)) ?? discountRedemptionError(orderError.message);
+        if (knownError) {
+          logger.warn('Order creation rejected', {
+            action: 'createOrder',
+            customerId: data.customerId,
+            error: orderError.message,
+            code: knownError.code,
+          });
+          throw knownError;
+        }
+
         logger.error('Failed to create order', orderError, {
           action: 'createOrder',
           data,
@@ -238,71 +410,42 @@ export class OrderServiceImpl implements OrderService {
         throw new BusinessError('Failed to create order', 'ORDER_CREATE_ERROR');
       }
 
-      // Create order items
-      const orderItemsData = data.items.map(item => ({
-        order_id: orderData.id,
-        product_id: item.productId,
-        quantity: item.quantity,
-        price: item.unitPrice,
-      }));
+      await inventoryService.checkLowStock(data.items.map(item => item.productId));
 
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItemsData);
+      // Create the payment record. Cash on delivery orders get one too; it is
+      // completed when the courier's remittance reaches the store
+      const { error: paymentError } = await supabase.from('payments').insert({
+        order_id: orderData.id,
+        amount: totals.total,
+        payment_method: data.paymentMethod,
+        transaction_id: `pending_${orderData.id}`,
+      });
 
-      if (itemsError) {
-        logger.error('Failed to create order items', itemsError, {
+      if (paymentError) {
+        logger.warn('Failed to create payment record', {
           action: 'createOrder',
           orderId: orderData.id,
+          error: paymentError.message,
         });
-
-        // Rollback order creation
-        await supabase.from('orders').delete().eq('id', orderData.id);
-        throw new BusinessError('Failed to create order items', 'ORDER_ITEMS_CREATE_ERROR');
-      }
-
-      // Create payment record if needed
-      if (data.paymentMethod !== PaymentMethod.CASH_ON_DELIVERY) {
-        const { error: paymentError } = await supabase.from('payments').insert({
-          order_id: orderData.id,
-          amount: total,
-          payment_method: data.paymentMethod,
-          transaction_id: `pending_${orderData.id}`,
-        });
-
-        if (paymentError) {
-          logger.warn('Failed to create payment record', {
-            action: 'createOrder',
-            orderId: orderData.id,
-            error: paymentError.message,
-          });
-        }
-      }
-
-      // Update product stock
-      for (const item of data.items) {
-        const productResult = await productService.getProduct(item.productId);
-        if (productResult.success && productResult.data) {
-          const newStock = productResult.data.stock - item.quantity;
-          await productService.updateProduct({
-            id: item.productId,
-            stock: newStock,
-          });
-        }
       }
 
       // Clear cache
       this.clearOrderCache();
 
-      // Fetch the complete order
-      const result = await this.getOrder(orderData.id);
+      // Fetch the complete order. A guest has no session to read it with
+      const result = await this.fetchOrder(orderData.id, 'service_role');
       if (!result.success) {
         throw new BusinessError('Order created but failed to retrieve', 'ORDER_RETRIEVE_ERROR');
       }
 
+      await this.sendOrderEmail(orderData.id, 'order_placed');
+
       logger.info('Order created successfully', {
         action: 'createOrder',
         orderId: orderData.id,
         customerId: data.customerId,
-        totalAmount: total,
+        totalAmount: totals.total,
+        discountCode: totals.discountCode,
         itemCount: data.items.length,
         duration: Date.now() - startTime,
       });
@@ -337,8 +480,13 @@ export class OrderServiceImpl implements OrderService {
   }
 
   async getOrder(id: string): Promise<ServiceResult<Order>> {
+    return this.fetchOrder(id, 'anon');
+  }
+
+  private async fetchOrder(id: string, clientMode: ServerClientMode): Promise<ServiceResult<Order>> {
     const startTime = Date.now();
-    const cacheKey = this.getCacheKey('getOrder', { id });
+    // Keyed by client mode too, so an order read with the service role is never served to an RLS-bound caller
+    const cacheKey = this.getCacheKey('getOrder', { id, clientMode });
 
     try {
       if (!id) {
@@ -356,7 +504,7 @@ export class OrderServiceImpl implements OrderService {
         return { success: true, data: cached };
       }
 
-      const supabase = await createClientServer();
+      const supabase = await createClientServer(clientMode);
       const { data, error } = await supabase
         .from('orders')
         .select(
@@ -366,7 +514,9 @@ export class OrderServiceImpl implements OrderService {
             *,
             products (*)
           ),
-          payments (*)
+          payments (*),
+          order_tracking (*),
+          shipments (*)
         `
         )
         .eq('id', id)
@@ -385,7 +535,13 @@ export class OrderServiceImpl implements OrderService {
         throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
       }
 
-      const order = await this.mapOrderRow(data, data.order_items || [], data.payments || []);
+      const order = await this.mapOrderRow(
+        data,
+        data.order_items || [],
+        data.payments || [],
+        data.order_tracking || [],
+        pickShipmentRow(data.shipments)
+      );
 
       // Cache the result
       this.setCache(cacheKey, order);
@@ -455,6 +611,9 @@ export class OrderServiceImpl implements OrderService {
       if (filters?.customerId) {
         query = query.eq('customer_id', filters.customerId);
       }
+      if (filters?.status) {
+        query = query.eq('status', toOrderStatusDbValue(filters.status));
+      }
       if (filters?.dateFrom) {
         query = query.gte('order_date', filters.dateFrom.toISOString());
       }
@@ -613,35 +772,88 @@ export class OrderServiceImpl implements OrderService {
       if (!data.status) {
         throw new ValidationError('Order status is required', 'status', 'REQUIRED');
       }
-
-      // Verify order exists
-      const orderResult = await this.getOrder(data.orderId);
-      if (!orderResult.success || !orderResult.data) {
-        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      // Cancelling also gives back the stock, the coupon and the payment
+      if (data.status === OrderStatus.CANCELLED) {
+        throw new BusinessError('Orders are cancelled with cancelOrder', 'ORDER_CANCEL_REQUIRED', 'low', {
+          orderId: data.orderId,
+        });
       }
 
       const supabase = await createClientServer('service_role');
 
-      // Note: Current schema doesn't have status field, so we'll log the status change
-      // In a real implementation, you'd update the status field
-      logger.info('Order status update requested', {
-        action: 'updateOrderStatus',
-        orderId: data.orderId,
-        newStatus: data.status,
-        notes: data.notes,
-        trackingNumber: data.trackingNumber,
+      // Read the stored status directly; the cached order may be stale on another instance
+      const { data: orderRow, error: fetchError } = await supabase
+        .from('orders')
+        .select('id, status')
+        .eq('id', data.orderId)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to fetch order status', fetchError, {
+          action: 'updateOrderStatus',
+          orderId: data.orderId,
+        });
+        throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+      }
+      if (!orderRow) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const currentStatus = fromOrderStatusDbValue(orderRow.status);
+      assertOrderStatusTransition(currentStatus, data.status);
+
+      // Only update if the stored value is still the one we validated against,
+      // so two concurrent admin actions cannot both apply. The change and its
+      // history entries are written in one transaction.
+      const { error: updateError } = await supabase.rpc('update_order_status', {
+        p_order_id: data.orderId,
+        p_expected_status: orderRow.status,
+        p_status: toOrderStatusDbValue(data.status),
+        p_notes: data.notes ?? null,
+        p_tracking_number: data.trackingNumber || null,
+        p_updated_by: data.updatedBy ?? null,
+        p_updated_by_email: data.updatedByEmail ?? null,
       });
 
+      if (updateError?.message?.includes('ORDER_STATUS_CONFLICT')) {
+        this.clearOrderCache(data.orderId);
+        throw new BusinessError('Order status was changed by another request', 'ORDER_STATUS_CONFLICT', 'low', {
+          orderId: data.orderId,
+          expectedStatus: currentStatus,
+        });
+      }
+      if (updateError) {
+        logger.error('Failed to update order status', updateError, {
+          action: 'updateOrderStatus',
+          orderId: data.orderId,
+        });
+        throw new BusinessError('Failed to update order status', 'ORDER_STATUS_UPDATE_ERROR');
+      }
+
+      if (data.status === OrderStatus.SHIPPED && data.trackingNumber) {
+        await this.recordShipment(data);
+      } else if (data.status === OrderStatus.DELIVERED) {
+        await this.recordShipmentDelivered(data.orderId);
+      }
+
       // Clear cache
       this.clearOrderCache(data.orderId);
 
-      // Return updated order
-      const result = await this.getOrder(data.orderId);
+      const emailType = orderEmailTypeForStatus(data.status);
+      if (emailType) {
+        await this.sendOrderEmail(data.orderId, emailType);
+      }
+
+      // Return updated order; read with the service role since callers such as cron jobs have no session
+      const result = await this.fetchOrder(data.orderId, 'service_role');
 
       logger.info('Order status updated successfully', {
         action: 'updateOrderStatus',
         orderId: data.orderId,
+        previousStatus: currentStatus,
         status: data.status,
+        notes: data.notes,
+        trackingNumber: data.trackingNumber,
         duration: Date.now() - startTime,
       });
 
@@ -674,7 +886,11 @@ export class OrderServiceImpl implements OrderService {
     }
   }
 
-  async cancelOrder(orderId: string, reason?: string): Promise<ServiceResult<void>> {
+  async cancelOrder(
+    orderId: string,
+    reason?: string,
+    cancelledBy?: Pick<UpdateOrderStatusData, 'updatedBy' | 'updatedByEmail'>
+  ): Promise<ServiceResult<void>> {
     const startTime = Date.now();
 
     try {
@@ -682,41 +898,53 @@ export class OrderServiceImpl implements OrderService {
         throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
       }
 
-      // Verify order exists and can be cancelled
-      const orderResult = await this.getOrder(orderId);
-      if (!orderResult.success || !orderResult.data) {
-        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
-      }
+      // The order is read, checked and cancelled, its coupon released and its
+      // stock restored in one transaction with the service role, so a failure
+      // leaves the order as it was and the cancellation can be retried
+      const supabase = createServiceRoleClient();
+      const { error: cancelError } = await supabase.rpc('cancel_order', {
+        p_order_id: orderId,
+        p_reason: reason || 'Order cancelled by customer',
+        p_cancelled_by: cancelledBy?.updatedBy ?? null,
+        p_cancelled_by_email: cancelledBy?.updatedByEmail ?? null,
+      });
 
-      const order = orderResult.data;
+      if (cancelError) {
+        const errorCode = CANCEL_ERRORS.find(code => cancelError.message?.includes(code));
+        if (errorCode === 'ORDER_NOT_FOUND') {
+          throw new BusinessError('Order not found', errorCode);
+        }
+        if (errorCode === 'ORDER_ALREADY_DELIVERED') {
+          throw new BusinessError('Cannot cancel delivered order', errorCode);
+        }
+        if (errorCode === 'ORDER_ALREADY_CANCELLED') {
+          throw new BusinessError('Order is already cancelled', errorCode);
+        }
 
-      // Check if order can be cancelled (business logic)
-      if (order.status === OrderStatus.DELIVERED) {
-        throw new BusinessError('Cannot cancel delivered order', 'ORDER_ALREADY_DELIVERED');
-      }
-      if (order.status === OrderStatus.CANCELLED) {
-        throw new BusinessError('Order is already cancelled', 'ORDER_ALREADY_CANCELLED');
+        logger.error('Failed to cancel order', cancelError, {
+          action: 'cancelOrder',
+          orderId,
+        });
+        throw new BusinessError('Failed to cancel order', 'ORDER_CANCEL_ERROR');
       }
 
-      // Update order status to cancelled
-      await this.updateOrderStatus({
-        orderId,
-        status: OrderStatus.CANCELLED,
-        notes: reason || 'Order cancelled by customer',
-      });
+      this.clearOrderCache(orderId);
 
-      // Restore product stock
-      for (const item of order.items) {
-        const productResult = await productService.getProduct(item.productId);
-        if (productResult.success && productResult.data) {
-          const newStock = productResult.data.stock + item.quantity;
-          await productService.updateProduct({
-            id: item.productId,
-            stock: newStock,
-          });
-        }
+      // An invoiced order is credited in full so the invoice register balances
+      const creditResult = await refundService.creditCancelledOrder(orderId, {
+        refundedBy: cancelledBy?.updatedBy,
+        refundedByEmail: cancelledBy?.updatedByEmail,
+      });
+      if (!creditResult.success) {
+        logger.warn('Failed to issue credit note for cancelled order', {
+          action: 'cancelOrder',
+          orderId,
+          error: creditResult.error?.message,
+        });
       }
 
+      await this.sendOrderEmail(orderId, 'order_cancelled');
+
       logger.info('Order cancelled successfully', {
         action: 'cancelOrder',
         orderId,
@@ -754,6 +982,74 @@ export class OrderServiceImpl implements OrderService {
     }
   }
 
+  async addOrderNote(data: AddOrderNoteData): Promise<ServiceResult<Order>> {
+    try {
+      if (!data.orderId) {
+        throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+      }
+      if (!data.notes?.trim()) {
+        throw new ValidationError('Note text is required', 'notes', 'REQUIRED');
+      }
+
+      const orderResult = await this.getOrder(data.orderId);
+      if (!orderResult.success || !orderResult.data) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { error } = await supabase.from('order_tracking').insert({
+        order_id: data.orderId,
+        event_type: OrderTrackingEventType.NOTE,
+        status: toOrderStatusDbValue(orderResult.data.status),
+        notes: data.notes.trim(),
+        is_internal: data.isInternal ?? true,
+        created_by: data.updatedBy,
+        created_by_email: data.updatedByEmail,
+      });
+
+      if (error) {
+        logger.error('Failed to add order note', error, {
+          action: 'addOrderNote',
+          orderId: data.orderId,
+        });
+        throw new BusinessError('Failed to add order note', 'ORDER_NOTE_CREATE_ERROR');
+      }
+
+      this.clearOrderCache(data.orderId);
+
+      logger.info('Order note added', {
+        action: 'addOrderNote',
+        orderId: data.orderId,
+        isInternal: data.isInternal ?? true,
+      });
+
+      return this.getOrder(data.orderId);
+    } catch (error) {
+      logger.error('Error in addOrderNote', error as Error, {
+        action: 'addOrderNote',
+        orderId: data.orderId,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while adding the order note',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
   async getOrderStats(filters?: Partial<OrderFilters>): Promise<ServiceResult<OrderStats>> {
     const startTime = Date.now();
     const cacheKey = this.getCacheKey('getOrderStats', filters);
@@ -773,7 +1069,7 @@ export class OrderServiceImpl implements OrderService {
       const supabase = await createClientServer();
 
       // Get basic order statistics
-      let query = supabase.from('orders').select('total_amount, order_date');
+      let query = supabase.from('orders').select('total_amount, order_date, status');
 
       // Apply filters
       if (filters?.customerId) {
@@ -801,6 +1097,14 @@ export class OrderServiceImpl implements OrderService {
       const totalRevenue = orders.reduce((sum, order) => sum + order.total_amount, 0);
       const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
+      const ordersByStatus = Object.values(OrderStatus).reduce(
+        (acc, status) => ({ ...acc, [status]: 0 }),
+        {} as Record<OrderStatus, number>
+      );
+      for (const order of orders) {
+        ordersByStatus[fromOrderStatusDbValue(order.status)] += 1;
+      }
+
       // Get recent orders
       const recentOrdersResult = await this.getOrders({
         ...filters,
@@ -814,14 +1118,7 @@ export class OrderServiceImpl implements OrderService {
         totalOrders,
         totalRevenue,
         averageOrderValue,
-        ordersByStatus: {
-          [OrderStatus.PENDING]: totalOrders, // Simplified since we don't have status in current schema
-          [OrderStatus.CONFIRMED]: 0,
-          [OrderStatus.PROCESSING]: 0,
-          [OrderStatus.SHIPPED]: 0,
-          [OrderStatus.DELIVERED]: 0,
-          [OrderStatus.CANCELLED]: 0,
-        },
+        ordersByStatus,
         recentOrders,
       };
 
@@ -950,7 +1247,8 @@ export class CheckoutServiceImpl implements CheckoutService {
           *,
           cart_items (
             *,
-            products (*)
+            products (*),
+            product_variants (*)
           )
         `
         )
@@ -970,7 +1268,7 @@ export class CheckoutServiceImpl implements CheckoutService {
       }
 
       // Calculate total
-      const totalResult = await this.calculateOrderTotal(data.cartId, data.discountCode);
+      const totalResult = await this.calculateOrderTotal(data.cartId, data.discountCode, data.shippingAddressId);
       if (!totalResult.success || totalResult.data === undefined) {
         throw new BusinessError('Failed to calculate order total', 'TOTAL_CALCULATION_ERROR');
       }
@@ -978,8 +1276,9 @@ export class CheckoutServiceImpl implements CheckoutService {
       // Create order data
       const orderItems = cartData.cart_items.map((item: any) => ({
         productId: item.product_id,
+        variantId: item.variant_id || undefined,
         quantity: item.quantity,
-        unitPrice: item.products?.price || 0,
+        unitPrice: item.product_variants?.price ?? (item.products?.price || 0),
       }));
 
       const createOrderData: CreateOrderData = {
@@ -1001,28 +1300,28 @@ export class CheckoutServiceImpl implements CheckoutService {
       const order = orderResult.data;
 
       // Clear cart after successful order creation
-      const { error: clearCartError } = await supabase.from('cart_items').delete().eq('cart_id', data.cartId);
+      const convertResult = await cartService.convertCart(cartData.customer_id, order.id);
 
-      if (clearCartError) {
+      if (!convertResult.success) {
         logger.warn('Failed to clear cart after checkout', {
           action: 'processCheckout',
           cartId: data.cartId,
           orderId: order.id,
-          error: clearCartError.message,
+          error: convertResult.error?.message,
         });
       }
 
       const checkoutResult: CheckoutResult = {
         success: true,
         orderId: order.id,
-        paymentUrl: data.paymentMethod !== PaymentMethod.CASH_ON_DELIVERY ? `/payment/${order.id}` : undefined,
+        paymentUrl: data.paymentMethod === PaymentMethod.CREDIT_CARD ? `/payment/${order.id}` : undefined,
       };
 
       logger.info('Checkout processed successfully', {
         action: 'processCheckout',
         cartId: data.cartId,
         orderId: order.id,
-        totalAmount: totalResult.data,
+        totalAmount: totalResult.data.total,
         paymentMethod: data.paymentMethod,
         duration: Date.now() - startTime,
       });
@@ -1081,7 +1380,8 @@ export class CheckoutServiceImpl implements CheckoutService {
           *,
           cart_items (
             *,
-            products (*)
+            products (*, product_variants (id)),
+            product_variants (*)
           )
         `
         )
@@ -1122,7 +1422,8 @@ export class CheckoutServiceImpl implements CheckoutService {
         }
       }
 
-      // Validate cart items (stock availability, product existence) and calculate subtotal
+      // Validate cart items (stock availability, product existence) and calculate subtotal.
+      // Stock and price are checked on the chosen variant for products sold in variants.
       let subtotal = 0;
       for (const item of cartData.cart_items) {
         const product = item.products;
@@ -1130,27 +1431,49 @@ export class CheckoutServiceImpl implements CheckoutService {
           throw new BusinessError(`Product not found for cart item ${item.id}`, 'PRODUCT_NOT_FOUND');
         }
 
-        if (product.stock < item.quantity) {
+        const variant = item.product_variants;
+        if (item.variant_id && !variant?.is_active) {
+          throw new BusinessError(`The chosen size of ${product.name} is no longer available`, 'VARIANT_NOT_FOUND');
+        }
+        if (!item.variant_id && (product.product_variants || []).length > 0) {
+          throw new BusinessError(`Choose a size for product ${product.name}`, 'VARIANT_REQUIRED');
+        }
+
+        const name = variant ? `${product.name} (${variant.name})` : product.name;
+        const stock = variant ? variant.stock : product.stock;
+        const price = variant ? variant.price : product.price;
+
+        if (stock < item.quantity) {
           throw new BusinessError(
-            `Insufficient stock for product ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`,
+            `Insufficient stock for product ${name}. Available: ${stock}, Requested: ${item.quantity}`,
             'INSUFFICIENT_STOCK'
           );
         }
 
-        if (product.price <= 0) {
-          throw new BusinessError(`Invalid price for product ${product.name}`, 'INVALID_PRODUCT_PRICE');
+        if (price <= 0) {
+          throw new BusinessError(`Invalid price for product ${name}`, 'INVALID_PRODUCT_PRICE');
         }
 
-        subtotal += product.price * item.quantity;
+        subtotal += price * item.quantity;
       }
 
       // Validate discount code if provided
       if (data.discountCode) {
-        const { DiscountService } = await import('../discounts/discount.service');
-        const discountValidation = await DiscountService.validateDiscountCode(data.discountCode, subtotal);
-        
+        const discountValidation = await DiscountService.validateDiscountCode(data.discountCode, subtotal, {
+          customerId: cartData.customer_id,
+          items: cartData.cart_items.map((item: any) => ({
+            productId: item.product_id,
+            quantity: item.quantity,
+            unitPrice: item.product_variants?.price ?? item.products.price,
+          })),
+        });
+
         if (!discountValidation.isValid) {
-          throw new ValidationError(`Discount code error: ${discountValidation.error}`, 'INVALID_DISCOUNT_CODE');
+          throw new ValidationError(
+            `Discount code error: ${discountValidation.error}`,
+            discountValidation.errorCode || 'INVALID_DISCOUNT_CODE',
+            'discountCode'
+          );
         }
         
         logger.info('Discount code validated successfully', {
@@ -1195,7 +1518,11 @@ export class CheckoutServiceImpl implements CheckoutService {
     }
   }
 
-  async calculateOrderTotal(cartId: string, discountCode?: string): Promise<ServiceResult<number>> {
+  async calculateOrderTotal(
+    cartId: string,
+    discountCode?: string,
+    shippingAddressId?: string
+  ): Promise<ServiceResult<OrderTotals>> {
     const startTime = Date.now();
 
     try {
@@ -1211,7 +1538,8 @@ export class CheckoutServiceImpl implements CheckoutService {
           *,
           cart_items (
             *,
-            products (*)
+            products (*),
+            product_variants (*)
           )
         `
         )
@@ -1222,56 +1550,50 @@ export class CheckoutServiceImpl implements CheckoutService {
         throw new BusinessError('Cart not found', 'CART_NOT_FOUND');
       }
 
-      if (!cartData.cart_items || cartData.cart_items.length === 0) {
-        return { success: true, data: 0 };
-      }
+      const items = (cartData.cart_items || [])
+        .filter((item: any) => item.products && item.products.price)
+        .map((item: any) => ({
+          productId: item.product_id,
+          quantity: item.quantity,
+          unitPrice: item.product_variants?.price ?? item.products.price,
+        }));
 
-      // Calculate subtotal
-      let subtotal = 0;
-      for (const item of cartData.cart_items) {
-        const product = item.products;
-        if (product && product.price) {
-          subtotal += product.price * item.quantity;
+      // Quoted with the same zone delivery fee createOrder charges for the address
+      let shippingCity: string | undefined;
+      if (shippingAddressId) {
+        const { data: shippingAddress, error: addressError } = await supabase
+          .from('addresses')
+          .select('city')
+          .eq('id', shippingAddressId)
+          .maybeSingle();
+
+        if (addressError) {
+          logger.error('Failed to fetch shipping address', addressError, {
+            action: 'calculateOrderTotal',
+            shippingAddressId,
+          });
+          throw new BusinessError('Failed to fetch shipping address', 'ADDRESS_FETCH_ERROR');
         }
-      }
-
-      // Apply discount if provided
-      let discountAmount = 0;
-      if (discountCode) {
-        const { DiscountService } = await import('../discounts/discount.service');
-        const discountValidation = await DiscountService.validateDiscountCode(discountCode, subtotal);
-        
-        if (discountValidation.isValid && discountValidation.discountAmount) {
-          discountAmount = discountValidation.discountAmount;
+        if (!shippingAddress) {
+          throw new ValidationError('Shipping address not found', 'shippingAddressId', 'NOT_FOUND');
         }
-        
-        logger.info('Discount code processed', {
-          action: 'calculateOrderTotal',
-          discountCode,
-        });
+        shippingCity = shippingAddress.city;
       }
 
-      // Calculate tax (simplified - could be based on address)
-      const taxRate = 0.0; // 0% tax for now
-      const taxAmount = subtotal * taxRate;
-
-      // Calculate shipping (simplified - could be based on address/weight)
-      const shippingAmount = subtotal > 100 ? 0 : 10; // Free shipping over $100
-
-      const total = subtotal - discountAmount + taxAmount + shippingAmount;
+      const totals = await priceOrder(items, {
+        customerId: cartData.customer_id,
+        discountCode,
+        shippingCity,
+      });
 
       logger.info('Order total calculated successfully', {
         action: 'calculateOrderTotal',
         cartId,
-        subtotal,
-        discountAmount,
-        taxAmount,
-        shippingAmount,
-        total,
+        ...totals,
         duration: Date.now() - startTime,
       });
 
-      return { success: true, data: total };
+      return { success: true, data: totals };
     } catch (error) {
       logger.error('Error in calculateOrderTotal', error as Error, {
         action: 'calculateOrderTotal',
@@ -1300,6 +1622,292 @@ export class CheckoutServiceImpl implements CheckoutService {
       };
     }
   }
+
+  /**
+   * Places an order from a guest cart for a visitor who is not signed in.
+   * The guest is recorded as a new customer without an account, since nothing
+   * proves they own the email, and the address they entered becomes the
+   * order's shipping address.
+   */
+  async processGuestCheckout(data: GuestCheckoutData): Promise<ServiceResult<CheckoutResult>> {
+    const startTime = Date.now();
+
+    try {
+      validateGuestCheckout(data);
+
+      const cartResult = await cartService.getGuestCart(data.guestCartToken);
+      if (!cartResult.success) {
+        throw new BusinessError('Cart not found', 'CART_NOT_FOUND');
+      }
+
+      const cartItems = cartResult.data?.items ?? [];
+      if (cartItems.length === 0) {
+        throw new BusinessError('Cart is empty', 'CART_EMPTY');
+      }
+
+      const supabase = createServiceRoleClient();
+      const customerId = await this.createGuestCustomer(supabase, data);
+
+      const { data: address, error: addressError } = await supabase
+        .from('addresses')
+        .insert({
+          customer_id: customerId,
+          address_line_1: data.addressLine1.trim(),
+          city: data.city.trim(),
+          state: '',
+          postal_code: data.postalCode?.trim() ?? '',
+          country: GUEST_ADDRESS_COUNTRY,
+          phone_number: data.phone.trim(),
+        })
+        .select('id')
+        .single<Pick<Tables<'addresses'>, 'id'>>();
+
+      if (addressError || !address) {
+        logger.error('Failed to save guest address', addressError || new Error('Address not returned'), {
+          action: 'processGuestCheckout',
+          customerId,
+        });
+        throw new BusinessError('Failed to save address', 'ADDRESS_CREATE_ERROR');
+      }
+
+      const orderResult = await orderService.createOrder({
+        customerId,
+        items: cartItems.map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+        shippingAddressId: address.id,
+        paymentMethod: data.paymentMethod,
+        notes: data.notes,
+        discountCode: data.discountCode,
+        isGuest: true,
+      });
+
+      // Stock and coupon problems are passed on so the guest can fix their cart
+      if (!orderResult.success || !orderResult.data) {
+        return {
+          success: false,
+          error: orderResult.error ?? { message: 'Failed to create order', code: 'ORDER_CREATION_FAILED' },
+        };
+      }
+
+      const order = orderResult.data;
+
+      const { data: orderRow, error: tokenError } = await supabase
+        .from('orders')
+        .select('access_token')
+        .eq('id', order.id)
+        .single<Pick<OrderRow, 'access_token'>>();
+
+      if (tokenError || !orderRow) {
+        logger.error('Failed to read guest order access token', tokenError || new Error('Order not returned'), {
+          action: 'processGuestCheckout',
+          orderId: order.id,
+        });
+        throw new BusinessError('Order created but failed to retrieve', 'ORDER_RETRIEVE_ERROR');
+      }
+
+      const convertResult = await cartService.convertGuestCart(data.guestCartToken, order.id);
+      if (!convertResult.success) {
+        logger.warn('Failed to clear guest cart after checkout', {
+          action: 'processGuestCheckout',
+          orderId: order.id,
+          error: convertResult.error?.message,
+        });
+      }
+
+      logger.info('Guest checkout processed successfully', {
+        action: 'processGuestCheckout',
+        orderId: order.id,
+        customerId,
+        totalAmount: order.totalAmount,
+        paymentMethod: data.paymentMethod,
+        duration: Date.now() - startTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          orderId: order.id,
+          accessToken: orderRow.access_token,
+          paymentUrl:
+            data.paymentMethod === PaymentMethod.CREDIT_CARD
+              ? `/payment/${order.id}?token=${orderRow.access_token}`
+              : undefined,
+        },
+      };
+    } catch (error) {
+      logger.error('Error in processGuestCheckout', error as Error, {
+        action: 'processGuestCheckout',
+        paymentMethod: data.paymentMethod,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred during checkout',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  /**
+   * Turns the guest who placed an order into a registered customer. The new
+   * user takes the guest customer's id, so the order stays in their order
+   * history. They sign in once they confirm their email, which also proves
+   * the address the guest entered is theirs.
+   */
+  async createGuestAccount(accessToken: string, password: string): Promise<ServiceResult<void>> {
+    try {
+      if (!accessToken) {
+        throw new ValidationError('Order access token is required', 'accessToken', 'REQUIRED');
+      }
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        throw new ValidationError(
+          `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+          'password',
+          'INVALID'
+        );
+      }
+
+      const supabase = createServiceRoleClient();
+
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('customers (id, email, first_name, last_name, is_guest)')
+        .eq('access_token', accessToken)
+        .maybeSingle<{
+          customers: Pick<Tables<'customers'>, 'id' | 'email' | 'first_name' | 'last_name' | 'is_guest'> | null;
+        }>();
+
+      if (orderError) {
+        logger.error('Failed to fetch order for guest account', orderError, { action: 'createGuestAccount' });
+        throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+      }
+
+      const customer = order?.customers;
+      if (!customer) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+      if (!customer.is_guest) {
+        throw new BusinessError('An account already exists for this order', 'ACCOUNT_EXISTS');
+      }
+
+      const { error: userError } = await supabase.auth.admin.createUser({
+        id: customer.id,
+        email: customer.email,
+        password,
+        email_confirm: false,
+        user_metadata: { first_name: customer.first_name, last_name: customer.last_name },
+      });
+
+      if (userError) {
+        logger.error('Failed to create user for guest customer', userError, {
+          action: 'createGuestAccount',
+          customerId: customer.id,
+        });
+        throw new BusinessError('Failed to create account', 'ACCOUNT_CREATE_ERROR');
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .insert({ id: customer.id, username: customer.email, updated_at: new Date().toISOString() });
+
+      if (profileError) {
+        logger.warn('Failed to create profile for guest customer', {
+          action: 'createGuestAccount',
+          customerId: customer.id,
+          error: profileError.message,
+        });
+      }
+
+      const { error: customerError } = await supabase
+        .from('customers')
+        .update({ is_guest: false })
+        .eq('id', customer.id);
+
+      if (customerError) {
+        logger.error('Failed to mark guest customer as registered', customerError, {
+          action: 'createGuestAccount',
+          customerId: customer.id,
+        });
+        throw new BusinessError('Failed to create account', 'ACCOUNT_CREATE_ERROR');
+      }
+
+      // Users created through the admin API get no confirmation email of their own
+      const { error: emailError } = await supabase.auth.resend({ type: 'signup', email: customer.email });
+      if (emailError) {
+        logger.warn('Failed to send confirmation email to new account', {
+          action: 'createGuestAccount',
+          customerId: customer.id,
+          error: emailError.message,
+        });
+      }
+
+      logger.info('Guest customer registered', {
+        action: 'createGuestAccount',
+        customerId: customer.id,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in createGuestAccount', error as Error, {
+        action: 'createGuestAccount',
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while creating the account',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // A customer record of the guest's own for this checkout. Records are never looked up by email,
+  // so a visitor cannot add to someone else's or learn which emails have an account
+  private async createGuestCustomer(supabase: SupabaseClient, data: GuestCheckoutData): Promise<string> {
+    const customerId = randomUUID();
+    const { error: insertError } = await supabase.from('customers').insert({
+      id: customerId,
+      email: data.email.trim().toLowerCase(),
+      first_name: data.firstName.trim(),
+      last_name: data.lastName.trim(),
+      is_guest: true,
+    });
+
+    if (insertError) {
+      logger.error('Failed to create guest customer', insertError, { action: 'createGuestCustomer' });
+      throw new BusinessError('Failed to save customer details', 'CUSTOMER_CREATE_ERROR');
+    }
+
+    return customerId;
+  }
 }
 
 // Export singleton instances
@@ -1,10 +1,13 @@
 // Orders service specific types
 import {
+  AddOrderNoteData,
   CheckoutData,
   CheckoutResult,
   CreateOrderData,
+  GuestCheckoutData,
   Order,
   OrderStats,
+  OrderTotals,
   UpdateOrderStatusData,
 } from '@/types/business';
 import { PaginatedResult, ServiceResult } from '@/types/common';
@@ -16,12 +19,23 @@ export interface OrderService extends CacheableService {
   getOrders(filters?: OrderSearchFilters): Promise<ServiceResult<PaginatedResult<Order>>>;
   getUserOrders(userId: string, filters?: OrderSearchFilters): Promise<ServiceResult<Order[]>>;
   updateOrderStatus(data: UpdateOrderStatusData): Promise<ServiceResult<Order>>;
-  cancelOrder(orderId: string, reason?: string): Promise<ServiceResult<void>>;
+  cancelOrder(
+    orderId: string,
+    reason?: string,
+    cancelledBy?: Pick<UpdateOrderStatusData, 'updatedBy' | 'updatedByEmail'>
+  ): Promise<ServiceResult<void>>;
+  addOrderNote(data: AddOrderNoteData): Promise<ServiceResult<Order>>;
   getOrderStats(filters?: Partial<OrderSearchFilters>): Promise<ServiceResult<OrderStats>>;
 }
 
 export interface CheckoutService {
   processCheckout(data: CheckoutData): Promise<ServiceResult<CheckoutResult>>;
   validateCheckout(data: CheckoutData): Promise<ServiceResult<boolean>>;
-  calculateOrderTotal(cartId: string, discountCode?: string): Promise<ServiceResult<number>>;
+  calculateOrderTotal(
+    cartId: string,
+    discountCode?: string,
+    shippingAddressId?: string
+  ): Promise<ServiceResult<OrderTotals>>;
+  processGuestCheckout(data: GuestCheckoutData): Promise<ServiceResult<CheckoutResult>>;
+  createGuestAccount(accessToken: string, password: string): Promise<ServiceResult<void>>;
 }
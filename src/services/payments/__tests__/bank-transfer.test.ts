@@ -0,0 +1,56 @@
+import {
+  buildPaymentProofRejectedMessage,
+  formatRib,
+  MAX_PAYMENT_PROOF_SIZE,
+  normalizeRib,
+  validatePaymentProofFile,
+} from '../bank-transfer';
+
+describe('bank-transfer', () => {
+  it('should accept a RIB written with spaces or dashes', () => {
+    expect(normalizeRib('08 006 0123456789012 34')).toBe('08006012345678901234');
+    expect(normalizeRib('08-006-0123456789012-34')).toBe('08006012345678901234');
+  });
+
+  it('should reject a RIB that is not 20 digits', () => {
+    expect(normalizeRib('08 006 0123456789012 3')).toBe(null);
+    expect(normalizeRib('TN59 08006012345678901234')).toBe(null);
+    expect(normalizeRib('')).toBe(null);
+  });
+
+  it('should group a RIB as printed by banks', () => {
+    expect(formatRib('08006012345678901234')).toBe('08 006 0123456789012 34');
+  });
+
+  it('should accept images and PDFs up to the size limit', () => {
+    expect(validatePaymentProofFile({ type: 'image/jpeg', size: 1024 })).toBe(undefined);
+    expect(validatePaymentProofFile({ type: 'application/pdf', size: MAX_PAYMENT_PROOF_SIZE })).toBe(undefined);
+  });
+
+  it('should reject other files, empty files and files over the limit', () => {
+    expect(() => validatePaymentProofFile({ type: 'text/html', size: 1024 })).toThrow(
+      'Receipt must be a JPEG, PNG or WebP image or a PDF'
+    );
+    expect(() => validatePaymentProofFile({ type: 'image/png', size: 0 })).toThrow('Receipt file is empty');
+    expect(() => validatePaymentProofFile({ type: 'image/png', size: MAX_PAYMENT_PROOF_SIZE + 1 })).toThrow(
+      'Receipt must be 5 MB or smaller'
+    );
+  });
+
+  it('should tell the customer why the receipt was rejected and where to upload another', () => {
+    const message = buildPaymentProofRejectedMessage({
+      email: 'amira@example.com',
+      firstName: 'أميرة',
+      orderId: '3f1c2b8e-6a4d-4e9b-9c7a-1d2e3f4a5b6c',
+      reason: 'المبلغ غير مطابق',
+      orderUrl: 'https://shop.example/orders/3f1c2b8e-6a4d-4e9b-9c7a-1d2e3f4a5b6c',
+    });
+
+    expect(message.type).toBe('payment_proof_rejected');
+    expect(message.to).toBe('amira@example.com');
+    expect(message.subject.includes('#3f4a5b6c')).toBe(true);
+    expect(message.text.startsWith('مرحباً أميرة،')).toBe(true);
+    expect(message.text.includes('السبب: المبلغ غير مطابق')).toBe(true);
+    expect(message.text.endsWith('https://shop.example/orders/3f1c2b8e-6a4d-4e9b-9c7a-1d2e3f4a5b6c')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  clicToPayChecksum,
+  clicToPayOutcomeStatus,
+  fromMillimes,
+  toMillimes,
+  verifyClicToPayChecksum,
+} from '../clictopay';
+
+const SECRET = 'callback-secret';
+
+const CALLBACK = {
+  status: '1',
+  orderNumber: '42',
+  operation: 'deposited',
+  mdOrder: 'abc-123',
+};
+
+describe('clictopay', () => {
+  describe('amounts', () => {
+    it('should convert dinars to millimes and back', () => {
+      expect(toMillimes(45.5)).toBe(45500);
+      expect(toMillimes(0.1 + 0.2)).toBe(300);
+      expect(fromMillimes(45500)).toBe(45.5);
+    });
+  });
+
+  describe('order states', () => {
+    it('should map deposited orders to completed and declined or reversed ones to failed', () => {
+      expect(clicToPayOutcomeStatus(2)).toBe('completed');
+      expect(clicToPayOutcomeStatus(6)).toBe('failed');
+      expect(clicToPayOutcomeStatus(3)).toBe('failed');
+      expect(clicToPayOutcomeStatus(0)).toBe('pending');
+      expect(clicToPayOutcomeStatus(5)).toBe('pending');
+    });
+  });
+
+  describe('callback checksum', () => {
+    it('should sign the parameters sorted by name', () => {
+      expect(clicToPayChecksum(CALLBACK, SECRET)).toBe(
+        '1F3C74A959A3856EA091CC75401C533F2469A35AD4BD45265796E318F65540F8'
+      );
+    });
+
+    it('should accept a callback it signed, in either case', () => {
+      const checksum = clicToPayChecksum(CALLBACK, SECRET);
+      expect(verifyClicToPayChecksum({ ...CALLBACK, checksum }, SECRET)).toBe(true);
+      expect(verifyClicToPayChecksum({ ...CALLBACK, checksum: checksum.toLowerCase() }, SECRET)).toBe(true);
+    });
+
+    it('should reject a tampered or unsigned callback', () => {
+      const checksum = clicToPayChecksum(CALLBACK, SECRET);
+      expect(verifyClicToPayChecksum({ ...CALLBACK, status: '0', checksum }, SECRET)).toBe(false);
+      expect(verifyClicToPayChecksum({ ...CALLBACK, checksum }, 'other-secret')).toBe(false);
+      expect(verifyClicToPayChecksum(CALLBACK, SECRET)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { remittanceShortfall, summarizeOutstandingCash } from '../cod-reconciliation';
+
+const COURIERS = [
+  { id: 'courier-1', name: 'Rapid Poste' },
+  { id: 'courier-2', name: 'Aramex' },
+  { id: 'courier-3', name: 'Sami' },
+];
+
+describe('cod-reconciliation', () => {
+  it('should add up unbatched and pending batch cash per courier', () => {
+    const summaries = summarizeOutstandingCash(COURIERS, [
+      { courierId: 'courier-1', amount: 45.5 },
+      { courierId: 'courier-1', amount: 30.1 },
+      { courierId: 'courier-1', amount: 120, remittanceStatus: 'pending' },
+      { courierId: 'courier-2', amount: 60, remittanceStatus: 'pending' },
+    ]);
+
+    expect(summaries.length).toBe(2);
+    expect(summaries[0].courierId).toBe('courier-1');
+    expect(summaries[0].unbatchedCount).toBe(2);
+    expect(summaries[0].unbatchedAmount).toBe(75.6);
+    expect(summaries[0].pendingRemittanceCount).toBe(1);
+    expect(summaries[0].pendingRemittanceAmount).toBe(120);
+    expect(summaries[0].outstandingAmount).toBe(195.6);
+    expect(summaries[1].courierName).toBe('Aramex');
+    expect(summaries[1].outstandingAmount).toBe(60);
+  });
+
+  it('should leave out received batches and couriers who owe nothing', () => {
+    const summaries = summarizeOutstandingCash(COURIERS, [
+      { courierId: 'courier-3', amount: 80, remittanceStatus: 'received' },
+      { courierId: 'unknown', amount: 10 },
+    ]);
+
+    expect(summaries.length).toBe(0);
+  });
+
+  it('should report what a remittance fell short by', () => {
+    expect(remittanceShortfall(195.6, 190.5)).toBe(5.1);
+    expect(remittanceShortfall(60, 60)).toBe(0);
+    expect(remittanceShortfall(60, 65)).toBe(-5);
+  });
+});
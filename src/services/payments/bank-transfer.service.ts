@@ -0,0 +1,489 @@
+import { randomUUID } from 'crypto';
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { appUrl } from '@/lib/utils/app-url';
+import { ServiceResult } from '@/types/common';
+import { PaymentMethod, PaymentStatus } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { notificationService } from '../notifications/notification.service';
+import { orderEmailService } from '../notifications/order-email.service';
+import { NotificationService } from '../notifications/notifications.types';
+import { orderService } from '../orders/orders.service';
+import { fromOrderStatusDbValue } from '../orders/order-status';
+import {
+  buildPaymentProofRejectedMessage,
+  normalizeRib,
+  PAYMENT_PROOF_TYPES,
+  validatePaymentProofFile,
+} from './bank-transfer';
+import { canAccessOrder } from './payment-access';
+import {
+  BankDetails,
+  BankTransfer,
+  BankTransferService,
+  PaymentAccess,
+  PaymentProof,
+  PaymentProofStatus,
+  PaymentReviewer,
+  PendingPaymentProof,
+} from './payments.types';
+
+const BUCKET = 'payment-proofs';
+
+// Long enough to open the receipt from the verification queue
+const VIEW_URL_SECONDS = 15 * 60;
+
+type PaymentProofRow = Tables<'payment_proofs'>;
+
+type TransferOrderRow = Pick<Tables<'orders'>, 'id' | 'customer_id' | 'status' | 'access_token'> & {
+  payments: Tables<'payments'>[];
+};
+
+type RejectedOrderRow = Pick<Tables<'orders'>, 'id' | 'access_token'> & {
+  customers: Pick<Tables<'customers'>, 'first_name' | 'email' | 'is_guest'> | null;
+};
+
+type PendingProofRow = PaymentProofRow & {
+  payments: Pick<Tables<'payments'>, 'amount'> | null;
+  orders: {
+    customers: Pick<Tables<'customers'>, 'first_name' | 'last_name' | 'email'> | null;
+  } | null;
+};
+
+const REVIEW_ERRORS = ['PAYMENT_PROOF_NOT_FOUND', 'PAYMENT_PROOF_ALREADY_REVIEWED', 'ORDER_NOT_AWAITING_PAYMENT'];
+
+function mapPaymentProofRow(row: PaymentProofRow): PaymentProof {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    fileName: row.file_name || undefined,
+    contentType: row.content_type,
+    status: row.status as PaymentProofStatus,
+    rejectionReason: row.rejection_reason || undefined,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Guests follow the link from their order confirmation; customers open the order in their account
+function orderUrl(order: Pick<Tables<'orders'>, 'id' | 'access_token'>, isGuest: boolean): string {
+  return isGuest ? appUrl(`/checkout/confirmation/${order.access_token}`) : appUrl(`/orders/${order.id}`);
+}
+
+/**
+ * Bank transfer payments. Bank transfer orders are created awaiting payment;
+ * the customer pays into the store's account and uploads the receipt, which
+ * waits in the admin verification queue. Approving it completes the payment
+ * and confirms the order; rejecting it tells the customer why, and they can
+ * upload another.
+ */
+export class BankTransferServiceImpl implements BankTransferService {
+  constructor(private readonly notifications: NotificationService = notificationService) {}
+
+  async getBankDetails(): Promise<ServiceResult<BankDetails | null>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('bank_account_name, bank_name, bank_rib, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Failed to fetch bank details', error, { action: 'getBankDetails' });
+        throw new BusinessError('Failed to fetch bank details', 'SETTINGS_FETCH_ERROR');
+      }
+
+      if (!data?.bank_rib) {
+        return { success: true, data: null };
+      }
+
+      return {
+        success: true,
+        data: {
+          accountName: data.bank_account_name || '',
+          bankName: data.bank_name || '',
+          rib: data.bank_rib,
+        },
+      };
+    } catch (error) {
+      logger.error('Error in getBankDetails', error as Error, { action: 'getBankDetails' });
+      return toErrorResult(error, 'An unexpected error occurred while fetching bank details');
+    }
+  }
+
+  async updateBankDetails(details: BankDetails): Promise<ServiceResult<BankDetails>> {
+    try {
+      if (!details.accountName?.trim()) {
+        throw new ValidationError('Account holder is required', 'accountName', 'REQUIRED');
+      }
+      if (!details.bankName?.trim()) {
+        throw new ValidationError('Bank name is required', 'bankName', 'REQUIRED');
+      }
+      const rib = normalizeRib(details.rib || '');
+      if (!rib) {
+        throw new ValidationError('RIB must be 20 digits', 'rib', 'INVALID');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: existing, error: fetchError } = await supabase
+        .from('store_settings')
+        .select('id, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to fetch store settings', fetchError, { action: 'updateBankDetails' });
+        throw new BusinessError('Failed to save bank details', 'SETTINGS_UPDATE_ERROR');
+      }
+      if (!existing) {
+        throw new BusinessError('Store settings have not been created yet', 'SETTINGS_NOT_FOUND');
+      }
+
+      const saved: BankDetails = { accountName: details.accountName.trim(), bankName: details.bankName.trim(), rib };
+      const { error } = await supabase
+        .from('store_settings')
+        .update({
+          bank_account_name: saved.accountName,
+          bank_name: saved.bankName,
+          bank_rib: saved.rib,
+        })
+        .eq('id', existing.id);
+
+      if (error) {
+        logger.error('Failed to update bank details', error, { action: 'updateBankDetails' });
+        throw new BusinessError('Failed to save bank details', 'SETTINGS_UPDATE_ERROR');
+      }
+
+      logger.info('Bank details updated', { action: 'updateBankDetails', bankName: saved.bankName });
+      return { success: true, data: saved };
+    } catch (error) {
+      logger.error('Error in updateBankDetails', error as Error, { action: 'updateBankDetails' });
+      return toErrorResult(error, 'An unexpected error occurred while saving bank details');
+    }
+  }
+
+  async getBankTransfer(orderId: string, access: PaymentAccess): Promise<ServiceResult<BankTransfer>> {
+    try {
+      const { order, payment } = await this.loadTransferOrder(orderId, access);
+
+      const supabase = createServiceRoleClient();
+      const { data: proofs, error } = await supabase
+        .from('payment_proofs')
+        .select('*')
+        .eq('payment_id', payment.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Failed to fetch payment proofs', error, { action: 'getBankTransfer', orderId });
+        throw new BusinessError('Failed to fetch payment proofs', 'PAYMENT_PROOF_FETCH_ERROR');
+      }
+
+      const bankDetails = await this.getBankDetails();
+
+      return {
+        success: true,
+        data: {
+          orderId: order.id,
+          amount: Number(payment.amount),
+          orderStatus: fromOrderStatusDbValue(order.status),
+          paymentStatus: (payment.status as PaymentStatus) || PaymentStatus.PENDING,
+          bankDetails: bankDetails.data ?? undefined,
+          proofs: (proofs || []).map(mapPaymentProofRow),
+        },
+      };
+    } catch (error) {
+      logger.error('Error in getBankTransfer', error as Error, { action: 'getBankTransfer', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while loading the bank transfer');
+    }
+  }
+
+  async uploadProof(orderId: string, access: PaymentAccess, file: File): Promise<ServiceResult<PaymentProof>> {
+    try {
+      if (!file) {
+        throw new ValidationError('Receipt file is required', 'file', 'REQUIRED');
+      }
+      validatePaymentProofFile(file);
+
+      const { payment } = await this.loadTransferOrder(orderId, access, { awaitingPayment: true });
+
+      const supabase = createServiceRoleClient();
+      const path = `${orderId}/${randomUUID()}.${PAYMENT_PROOF_TYPES[file.type]}`;
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, Buffer.from(await file.arrayBuffer()), { contentType: file.type, upsert: false });
+
+      if (uploadError) {
+        logger.error('Failed to store payment proof', uploadError, { action: 'uploadPaymentProof', orderId });
+        throw new BusinessError('Failed to upload receipt', 'PAYMENT_PROOF_UPLOAD_ERROR');
+      }
+
+      const { data: row, error } = await supabase
+        .from('payment_proofs')
+        .insert({
+          payment_id: payment.id,
+          order_id: orderId,
+          storage_path: path,
+          file_name: file.name ? file.name.slice(0, 255) : null,
+          content_type: file.type,
+        })
+        .select('*')
+        .single();
+
+      if (error || !row) {
+        await this.removeFile(path);
+        // The partial unique index allows one receipt under review per payment
+        if (error?.code === '23505') {
+          throw new BusinessError('A receipt is already awaiting review', 'PAYMENT_PROOF_PENDING', 'low', { orderId });
+        }
+
+        logger.error('Failed to record payment proof', error ?? undefined, {
+          action: 'uploadPaymentProof',
+          orderId,
+        });
+        throw new BusinessError('Failed to upload receipt', 'PAYMENT_PROOF_UPLOAD_ERROR');
+      }
+
+      logger.info('Payment proof uploaded', {
+        action: 'uploadPaymentProof',
+        orderId,
+        proofId: row.id,
+        contentType: file.type,
+        size: file.size,
+      });
+
+      return { success: true, data: mapPaymentProofRow(row) };
+    } catch (error) {
+      logger.error('Error in uploadPaymentProof', error as Error, { action: 'uploadPaymentProof', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while uploading the receipt');
+    }
+  }
+
+  // Oldest first, the order they should be reviewed in
+  async getPendingProofs(): Promise<ServiceResult<PendingPaymentProof[]>> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data, error } = await supabase
+        .from('payment_proofs')
+        .select('*, payments (amount), orders (customers (first_name, last_name, email))')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .returns<PendingProofRow[]>();
+
+      if (error) {
+        logger.error('Failed to fetch pending payment proofs', error, { action: 'getPendingPaymentProofs' });
+        throw new BusinessError('Failed to fetch payment proofs', 'PAYMENT_PROOF_FETCH_ERROR');
+      }
+
+      const rows = data || [];
+      const { data: urls } = rows.length
+        ? await supabase.storage.from(BUCKET).createSignedUrls(
+            rows.map(row => row.storage_path),
+            VIEW_URL_SECONDS
+          )
+        : { data: [] };
+
+      return {
+        success: true,
+        data: rows.map((row, index) => {
+          const customer = row.orders?.customers;
+          return {
+            ...mapPaymentProofRow(row),
+            amount: Number(row.payments?.amount) || 0,
+            customerName: [customer?.first_name, customer?.last_name].filter(Boolean).join(' ') || undefined,
+            customerEmail: customer?.email || undefined,
+            viewUrl: urls?.[index]?.signedUrl || undefined,
+          };
+        }),
+      };
+    } catch (error) {
+      logger.error('Error in getPendingPaymentProofs', error as Error, { action: 'getPendingPaymentProofs' });
+      return toErrorResult(error, 'An unexpected error occurred while fetching payment proofs');
+    }
+  }
+
+  async approveProof(proofId: string, reviewer: PaymentReviewer): Promise<ServiceResult<PaymentProof>> {
+    try {
+      const proof = await this.reviewProof(proofId, true, undefined, reviewer);
+
+      logger.info('Payment proof approved', {
+        action: 'approvePaymentProof',
+        proofId,
+        orderId: proof.orderId,
+        reviewedBy: reviewer.email,
+      });
+
+      // Approving the receipt confirmed the order
+      const emailResult = await orderEmailService.sendOrderEmail(proof.orderId, 'order_confirmed');
+      if (!emailResult.success) {
+        logger.warn('Failed to email order confirmation', {
+          action: 'approvePaymentProof',
+          orderId: proof.orderId,
+          error: emailResult.error?.message,
+        });
+      }
+
+      return { success: true, data: proof };
+    } catch (error) {
+      logger.error('Error in approvePaymentProof', error as Error, { action: 'approvePaymentProof', proofId });
+      return toErrorResult(error, 'An unexpected error occurred while approving the receipt');
+    }
+  }
+
+  async rejectProof(proofId: string, reason: string, reviewer: PaymentReviewer): Promise<ServiceResult<PaymentProof>> {
+    try {
+      if (!reason?.trim()) {
+        throw new ValidationError('A reason is required to reject a receipt', 'reason', 'REQUIRED');
+      }
+
+      const proof = await this.reviewProof(proofId, false, reason.trim(), reviewer);
+
+      logger.info('Payment proof rejected', {
+        action: 'rejectPaymentProof',
+        proofId,
+        orderId: proof.orderId,
+        reviewedBy: reviewer.email,
+      });
+
+      // The rejection stands even if the customer cannot be told; it is on the order's history
+      await this.notifyRejection(proof);
+
+      return { success: true, data: proof };
+    } catch (error) {
+      logger.error('Error in rejectPaymentProof', error as Error, { action: 'rejectPaymentProof', proofId });
+      return toErrorResult(error, 'An unexpected error occurred while rejecting the receipt');
+    }
+  }
+
+  private async loadTransferOrder(
+    orderId: string,
+    access: PaymentAccess,
+    options: { awaitingPayment?: boolean } = {}
+  ): Promise<{ order: TransferOrderRow; payment: Tables<'payments'> }> {
+    if (!orderId) {
+      throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+    }
+
+    // Guests have no session, so the order is read with the service role and access checked here
+    const supabase = createServiceRoleClient();
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, customer_id, status, access_token, payments (*)')
+      .eq('id', orderId)
+      .maybeSingle<TransferOrderRow>();
+
+    if (error) {
+      logger.error('Failed to fetch order for bank transfer', error, { action: 'loadTransferOrder', orderId });
+      throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+    }
+    if (!order || !canAccessOrder(order, access)) {
+      throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const payment = (order.payments || []).find(row => row.payment_method === PaymentMethod.BANK_TRANSFER);
+    if (!payment) {
+      throw new BusinessError('Order is not paid by bank transfer', 'PAYMENT_NOT_FOUND', 'low', { orderId });
+    }
+    if (options.awaitingPayment && order.status !== 'Awaiting Payment') {
+      throw new BusinessError('Order is not awaiting payment', 'ORDER_NOT_AWAITING_PAYMENT', 'low', { orderId });
+    }
+
+    return { order, payment };
+  }
+
+  // Approval and rejection are recorded, with the payment and order changes, by review_payment_proof
+  private async reviewProof(
+    proofId: string,
+    approve: boolean,
+    reason: string | undefined,
+    reviewer: PaymentReviewer
+  ): Promise<PaymentProof> {
+    if (!proofId) {
+      throw new ValidationError('Receipt ID is required', 'proofId', 'REQUIRED');
+    }
+
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .rpc('review_payment_proof', {
+        p_proof_id: proofId,
+        p_approve: approve,
+        p_reason: reason ?? null,
+        p_reviewed_by: reviewer.id ?? null,
+        p_reviewed_by_email: reviewer.email ?? null,
+      })
+      .single<PaymentProofRow>();
+
+    if (error) {
+      const errorCode = REVIEW_ERRORS.find(code => error.message?.includes(code));
+      if (errorCode === 'PAYMENT_PROOF_NOT_FOUND') {
+        throw new BusinessError('Receipt not found', errorCode);
+      }
+      if (errorCode === 'PAYMENT_PROOF_ALREADY_REVIEWED') {
+        throw new BusinessError('Receipt has already been reviewed', errorCode, 'low', { proofId });
+      }
+      if (errorCode === 'ORDER_NOT_AWAITING_PAYMENT') {
+        throw new BusinessError('Order is no longer awaiting payment', errorCode, 'low', { proofId });
+      }
+
+      logger.error('Failed to review payment proof', error, { action: 'reviewPaymentProof', proofId });
+      throw new BusinessError('Failed to review receipt', 'PAYMENT_PROOF_REVIEW_ERROR');
+    }
+
+    // The order's status and history changed under the order service's cache
+    await orderService.clearCache();
+
+    return mapPaymentProofRow(data);
+  }
+
+  private async notifyRejection(proof: PaymentProof): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, access_token, customers (first_name, email, is_guest)')
+      .eq('id', proof.orderId)
+      .maybeSingle<RejectedOrderRow>();
+
+    const customer = order?.customers;
+    if (error || !order || !customer?.email) {
+      logger.warn('Cannot notify customer of rejected receipt', {
+        action: 'rejectPaymentProof',
+        proofId: proof.id,
+        orderId: proof.orderId,
+        error: error?.message,
+      });
+      return;
+    }
+
+    const result = await this.notifications.send(
+      buildPaymentProofRejectedMessage({
+        email: customer.email,
+        firstName: customer.first_name || undefined,
+        orderId: order.id,
+        reason: proof.rejectionReason || '',
+        orderUrl: orderUrl(order, customer.is_guest),
+      })
+    );
+
+    if (!result.success) {
+      logger.warn('Failed to notify customer of rejected receipt', {
+        action: 'rejectPaymentProof',
+        proofId: proof.id,
+        error: result.error?.message,
+      });
+    }
+  }
+
+  private async removeFile(path: string): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.storage.from(BUCKET).remove([path]);
+    if (error) {
+      logger.warn('Failed to remove payment proof file', { action: 'uploadPaymentProof', path, error: error.message });
+    }
+  }
+}
+
+export const bankTransferService = new BankTransferServiceImpl();
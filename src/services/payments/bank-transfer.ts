@@ -0,0 +1,70 @@
+// Rules for bank transfer receipts and the store's RIB, and the message sent
+// when a receipt is rejected, kept free of I/O so they can be tested on their own.
+import { ValidationError } from '@/lib/errors/custom-errors';
+import { NotificationMessage } from '../notifications/notifications.types';
+
+export const PAYMENT_PROOF_REJECTED_MESSAGE_TYPE = 'payment_proof_rejected';
+
+export const PAYMENT_PROOF_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+export const MAX_PAYMENT_PROOF_SIZE = 5 * 1024 * 1024;
+
+// A receipt is a photo or scan of the transfer slip, or the bank's PDF
+export function validatePaymentProofFile(file: { type: string; size: number }): void {
+  if (!PAYMENT_PROOF_TYPES[file.type]) {
+    throw new ValidationError('Receipt must be a JPEG, PNG or WebP image or a PDF', 'file', 'INVALID_TYPE');
+  }
+  if (file.size <= 0) {
+    throw new ValidationError('Receipt file is empty', 'file', 'REQUIRED');
+  }
+  if (file.size > MAX_PAYMENT_PROOF_SIZE) {
+    throw new ValidationError('Receipt must be 5 MB or smaller', 'file', 'TOO_LARGE');
+  }
+}
+
+/**
+ * The 20 digits of a Tunisian RIB (bank, branch, account number and key),
+ * ignoring the spaces and dashes it is usually written with; null when the
+ * value is not a RIB.
+ */
+export function normalizeRib(value: string): string | null {
+  const digits = value.replace(/[\s-]/g, '');
+  return /^\d{20}$/.test(digits) ? digits : null;
+}
+
+// Grouped as printed on bank documents: 2 bank, 3 branch, 13 account, 2 key
+export function formatRib(rib: string): string {
+  return `${rib.slice(0, 2)} ${rib.slice(2, 5)} ${rib.slice(5, 18)} ${rib.slice(18)}`;
+}
+
+export interface PaymentProofRejectedMessageInput {
+  email: string;
+  firstName?: string;
+  orderId: string;
+  reason: string;
+  // The order page, where a new receipt can be uploaded
+  orderUrl: string;
+}
+
+export function buildPaymentProofRejectedMessage(input: PaymentProofRejectedMessageInput): NotificationMessage {
+  const lines = [
+    input.firstName ? `مرحباً ${input.firstName}،` : 'مرحباً،',
+    '',
+    `لم نتمكن من قبول إيصال التحويل البنكي للطلب #${input.orderId.slice(-8)}.`,
+    `السبب: ${input.reason}`,
+    '',
+    `يمكنك رفع إيصال جديد من صفحة الطلب: ${input.orderUrl}`,
+  ];
+
+  return {
+    type: PAYMENT_PROOF_REJECTED_MESSAGE_TYPE,
+    to: input.email,
+    subject: `إيصال التحويل للطلب #${input.orderId.slice(-8)} مرفوض`,
+    text: lines.join('\n'),
+  };
+}
@@ -0,0 +1,58 @@
+// Wire format of the ClicToPay gateway (SMT, Tunisia): amounts in millimes,
+// numeric order states and the checksum on its callback notifications.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PaymentOutcomeStatus } from './payments.types';
+
+// ISO 4217 numeric code of the Tunisian dinar
+export const CLICTOPAY_CURRENCY = '788';
+
+// The gateway counts in millimes; the dinar has three decimals
+export function toMillimes(amount: number): number {
+  return Math.round(amount * 1000);
+}
+
+export function fromMillimes(millimes: number): number {
+  return Math.round(millimes) / 1000;
+}
+
+/**
+ * Maps orderStatus from getOrderStatusExtended.do: 2 is a completed payment,
+ * 3 (reversed), 4 (refunded) and 6 (declined) are failures, and the rest
+ * (registered, held, 3-D Secure in progress) are still pending.
+ */
+export function clicToPayOutcomeStatus(orderStatus: number): PaymentOutcomeStatus {
+  switch (orderStatus) {
+    case 2:
+      return 'completed';
+    case 3:
+    case 4:
+    case 6:
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * HMAC-SHA256 of the callback parameters, sorted by name and joined as
+ * "name;value;", in uppercase hex. The checksum itself is not signed.
+ */
+export function clicToPayChecksum(params: Record<string, string>, secret: string): string {
+  const payload = Object.keys(params)
+    .filter(name => name !== 'checksum' && name !== 'sign_alias')
+    .sort()
+    .map(name => `${name};${params[name]};`)
+    .join('');
+
+  return createHmac('sha256', secret).update(payload).digest('hex').toUpperCase();
+}
+
+export function verifyClicToPayChecksum(params: Record<string, string>, secret: string): boolean {
+  if (!params.checksum) {
+    return false;
+  }
+
+  const expected = Buffer.from(clicToPayChecksum(params, secret));
+  const actual = Buffer.from(params.checksum.toUpperCase());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,59 @@
+// How much cash each courier still owes the store, kept free of I/O so it can
+// be tested on its own.
+import { roundAmount } from '../orders/order-totals';
+import { CodRemittanceStatus, Courier, CourierCashSummary } from './payments.types';
+
+export interface OutstandingCollection {
+  courierId: string;
+  amount: number;
+  // The status of the collection's remittance; unset when it is not batched
+  remittanceStatus?: CodRemittanceStatus;
+}
+
+/**
+ * Per courier, the cash collected and not yet batched plus the cash in batches
+ * not yet received. Collections in received batches are settled and left out,
+ * as are couriers who owe nothing. Largest debt first.
+ */
+export function summarizeOutstandingCash(
+  couriers: Pick<Courier, 'id' | 'name'>[],
+  collections: OutstandingCollection[]
+): CourierCashSummary[] {
+  const summaries = new Map<string, CourierCashSummary>(
+    couriers.map(courier => [
+      courier.id,
+      {
+        courierId: courier.id,
+        courierName: courier.name,
+        unbatchedCount: 0,
+        unbatchedAmount: 0,
+        pendingRemittanceCount: 0,
+        pendingRemittanceAmount: 0,
+        outstandingAmount: 0,
+      },
+    ])
+  );
+
+  for (const collection of collections) {
+    const summary = summaries.get(collection.courierId);
+    if (!summary || collection.remittanceStatus === 'received') continue;
+
+    if (collection.remittanceStatus === 'pending') {
+      summary.pendingRemittanceCount += 1;
+      summary.pendingRemittanceAmount = roundAmount(summary.pendingRemittanceAmount + collection.amount);
+    } else {
+      summary.unbatchedCount += 1;
+      summary.unbatchedAmount = roundAmount(summary.unbatchedAmount + collection.amount);
+    }
+    summary.outstandingAmount = roundAmount(summary.outstandingAmount + collection.amount);
+  }
+
+  return [...summaries.values()]
+    .filter(summary => summary.unbatchedCount > 0 || summary.pendingRemittanceCount > 0)
+    .sort((a, b) => b.outstandingAmount - a.outstandingAmount);
+}
+
+// Positive when the courier handed over less than the batch's collections add up to
+export function remittanceShortfall(expectedAmount: number, receivedAmount: number): number {
+  return roundAmount(expectedAmount - receivedAmount);
+}
@@ -0,0 +1,10 @@
+// Payment service exports
+export * from './bank-transfer';
+export * from './bank-transfer.service';
+export * from './clictopay';
+export * from './cod-reconciliation';
+export * from './cod-reconciliation.service';
+export * from './payment-access';
+export * from './payment-providers';
+export * from './payment.service';
+export * from './payments.types';
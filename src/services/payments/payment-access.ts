@@ -0,0 +1,16 @@
+import { Tables } from '@/types/supabase';
+import { PaymentAccess } from './payments.types';
+
+/**
+ * Whether the visitor may see and pay for the order: its signed-in customer,
+ * or a guest holding the access token from the order confirmation link.
+ */
+export function canAccessOrder(
+  order: Pick<Tables<'orders'>, 'customer_id' | 'access_token'>,
+  access: PaymentAccess
+): boolean {
+  return (
+    (!!access.customerId && order.customer_id === access.customerId) ||
+    (!!access.accessToken && order.access_token === access.accessToken)
+  );
+}
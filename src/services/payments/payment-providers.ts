@@ -0,0 +1,196 @@
+// Payment gateways. ClicToPay takes card payments in production; the mock
+// provider stands in for it in development and tests.
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CLICTOPAY_CURRENCY,
+  clicToPayOutcomeStatus,
+  fromMillimes,
+  toMillimes,
+  verifyClicToPayChecksum,
+} from './clictopay';
+import {
+  PaymentOutcome,
+  PaymentProvider,
+  PaymentSession,
+  PaymentSessionRequest,
+  PaymentWebhookRequest,
+} from './payments.types';
+
+export interface ClicToPayConfig {
+  // e.g. https://test.clictopay.com/payment/rest or https://ipay.clictopay.com/payment/rest
+  apiUrl: string;
+  username: string;
+  password: string;
+  // Key of the callback checksum, set up with the gateway alongside the callback URL
+  callbackSecret: string;
+}
+
+/**
+ * ClicToPay (SMT) hosted payment page. register.do opens a session and returns
+ * the page to send the customer to; getOrderStatusExtended.do reads its state.
+ */
+export class ClicToPayProvider implements PaymentProvider {
+  readonly name = 'clictopay';
+
+  constructor(private readonly config: ClicToPayConfig) {}
+
+  async createSession(request: PaymentSessionRequest): Promise<PaymentSession> {
+    const result = await this.call('register.do', {
+      orderNumber: request.reference,
+      amount: String(toMillimes(request.amount)),
+      currency: CLICTOPAY_CURRENCY,
+      returnUrl: request.returnUrl,
+      failUrl: request.failUrl,
+      description: request.description,
+      language: 'fr',
+      ...(request.customerEmail ? { email: request.customerEmail } : {}),
+    });
+
+    if (!result.orderId || !result.formUrl) {
+      throw new Error('ClicToPay did not return a payment session');
+    }
+
+    return { sessionId: result.orderId, redirectUrl: result.formUrl };
+  }
+
+  async getOutcome(sessionId: string): Promise<PaymentOutcome> {
+    const result = await this.call('getOrderStatusExtended.do', { orderId: sessionId });
+
+    return {
+      sessionId,
+      status: clicToPayOutcomeStatus(Number(result.orderStatus)),
+      amount: fromMillimes(Number(result.amount) || 0),
+      transactionId: result.authRefNum || undefined,
+    };
+  }
+
+  // The callback only says that the session changed; its state is read back from the gateway
+  async parseWebhook(request: PaymentWebhookRequest): Promise<PaymentOutcome | null> {
+    const params = Object.fromEntries(request.query.entries());
+    if (!params.mdOrder || !verifyClicToPayChecksum(params, this.config.callbackSecret)) {
+      return null;
+    }
+
+    return this.getOutcome(params.mdOrder);
+  }
+
+  private async call(method: string, params: Record<string, string>): Promise<Record<string, any>> {
+    const response = await fetch(`${this.config.apiUrl.replace(/\/$/, '')}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        userName: this.config.username,
+        password: this.config.password,
+        ...params,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`ClicToPay ${method} responded with ${response.status}`);
+    }
+
+    // errorCode is absent or "0" on success
+    const result = await response.json();
+    if (result.errorCode && String(result.errorCode) !== '0') {
+      throw new Error(`ClicToPay ${method} failed with error ${result.errorCode}: ${result.errorMessage}`);
+    }
+
+    return result;
+  }
+}
+
+interface MockSession {
+  request: PaymentSessionRequest;
+  outcome: PaymentOutcome;
+}
+
+/**
+ * A gateway on this machine. Sessions are kept in memory and paid or declined
+ * on the /payment/mock page; callbacks are JSON signed with an HMAC of the body
+ * in the x-mock-signature header, see signWebhook.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private readonly sessions = new Map<string, MockSession>();
+
+  constructor(private readonly secret = process.env.MOCK_PAYMENT_SECRET || 'mock-payment-secret') {}
+
+  async createSession(request: PaymentSessionRequest): Promise<PaymentSession> {
+    const sessionId = `mock_${randomUUID()}`;
+    this.sessions.set(sessionId, {
+      request,
+      outcome: { sessionId, status: 'pending', amount: request.amount },
+    });
+
+    return { sessionId, redirectUrl: `/payment/mock/${sessionId}` };
+  }
+
+  async getOutcome(sessionId: string): Promise<PaymentOutcome> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown mock payment session ${sessionId}`);
+    }
+    return session.outcome;
+  }
+
+  async parseWebhook(request: PaymentWebhookRequest): Promise<PaymentOutcome | null> {
+    const expected = Buffer.from(this.sign(request.body));
+    const actual = Buffer.from(request.headers.get('x-mock-signature') || '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    return JSON.parse(request.body) as PaymentOutcome;
+  }
+
+  getSession(sessionId: string): PaymentSessionRequest | undefined {
+    return this.sessions.get(sessionId)?.request;
+  }
+
+  // Pays or declines a session, as the customer would on the gateway's page; returns where to send them
+  complete(sessionId: string, paid: boolean): string {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown mock payment session ${sessionId}`);
+    }
+
+    session.outcome = {
+      sessionId,
+      status: paid ? 'completed' : 'failed',
+      amount: session.request.amount,
+      transactionId: paid ? `mock_tx_${randomUUID().slice(0, 8)}` : undefined,
+    };
+    return paid ? session.request.returnUrl : session.request.failUrl;
+  }
+
+  // A callback reporting the outcome, signed as the webhook route expects
+  signWebhook(outcome: PaymentOutcome): PaymentWebhookRequest {
+    const body = JSON.stringify(outcome);
+    return {
+      headers: new Headers({ 'Content-Type': 'application/json', 'x-mock-signature': this.sign(body) }),
+      query: new URLSearchParams(),
+      body,
+    };
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('hex');
+  }
+}
+
+// ClicToPay when its credentials are set, otherwise the mock gateway
+export function createDefaultPaymentProvider(): PaymentProvider {
+  const { CLICTOPAY_API_URL, CLICTOPAY_USERNAME, CLICTOPAY_PASSWORD, CLICTOPAY_CALLBACK_SECRET } = process.env;
+  if (CLICTOPAY_API_URL && CLICTOPAY_USERNAME && CLICTOPAY_PASSWORD && CLICTOPAY_CALLBACK_SECRET) {
+    return new ClicToPayProvider({
+      apiUrl: CLICTOPAY_API_URL,
+      username: CLICTOPAY_USERNAME,
+      password: CLICTOPAY_PASSWORD,
+      callbackSecret: CLICTOPAY_CALLBACK_SECRET,
+    });
+  }
+
+  return new MockPaymentProvider();
+}
@@ -0,0 +1,328 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { appUrl } from '@/lib/utils/app-url';
+import { ServiceResult } from '@/types/common';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { orderEmailService } from '../notifications/order-email.service';
+import { orderService } from '../orders/orders.service';
+import { fromOrderStatusDbValue } from '../orders/order-status';
+import { canAccessOrder } from './payment-access';
+import { createDefaultPaymentProvider, MockPaymentProvider } from './payment-providers';
+import {
+  OrderPayment,
+  PaymentAccess,
+  PaymentOutcome,
+  PaymentProvider,
+  PaymentService,
+  PaymentSession,
+  PaymentWebhookRequest,
+} from './payments.types';
+
+type PaymentRow = Tables<'payments'>;
+
+type PaymentOrderRow = Pick<Tables<'orders'>, 'id' | 'customer_id' | 'status' | 'access_token'> & {
+  customers: Pick<Tables<'customers'>, 'email'> | null;
+  payments: PaymentRow[];
+};
+
+interface PaymentOrder {
+  order: PaymentOrderRow;
+  payment: PaymentRow;
+}
+
+const PAYMENT_RESULT_ERRORS = ['PAYMENT_SESSION_NOT_FOUND', 'PAYMENT_AMOUNT_MISMATCH'];
+
+function mapOrderPayment({ order, payment }: PaymentOrder): OrderPayment {
+  return {
+    orderId: order.id,
+    amount: Number(payment.amount),
+    orderStatus: fromOrderStatusDbValue(order.status),
+    paymentStatus: (payment.status as PaymentStatus) || PaymentStatus.PENDING,
+    processedAt: payment.processed_at ? new Date(payment.processed_at) : undefined,
+  };
+}
+
+// Where the gateway sends the customer back; guests carry their order's token along
+function returnUrl(orderId: string, access: PaymentAccess): string {
+  const query = access.accessToken ? `?token=${encodeURIComponent(access.accessToken)}` : '';
+  return appUrl(`/payment/${orderId}/return${query}`);
+}
+
+// Gateways want a fresh reference for each attempt, at most 32 characters
+function paymentReference(orderId: string): string {
+  return `${orderId.replace(/-/g, '').slice(-12)}${Date.now().toString(36)}`;
+}
+
+/**
+ * Online card payments. Card orders are created awaiting payment with a
+ * pending payments row; startPayment opens a session with the gateway and
+ * sends the customer to its page. The outcome arrives twice, through the
+ * gateway's signed callback (handleWebhook) and when the customer comes back
+ * (confirmPayment), and is recorded once by record_payment_result, which
+ * also confirms the order.
+ */
+export class PaymentServiceImpl implements PaymentService {
+  constructor(private provider: PaymentProvider = createDefaultPaymentProvider()) {}
+
+  getProvider(): PaymentProvider {
+    return this.provider;
+  }
+
+  // Replaces the gateway, e.g. with a MockPaymentProvider in tests
+  setProvider(provider: PaymentProvider): void {
+    this.provider = provider;
+  }
+
+  async getOrderPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<OrderPayment>> {
+    try {
+      return { success: true, data: mapOrderPayment(await this.loadPaymentOrder(orderId, access)) };
+    } catch (error) {
+      logger.error('Error in getOrderPayment', error as Error, { action: 'getOrderPayment', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while loading the payment');
+    }
+  }
+
+  async startPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<PaymentSession>> {
+    try {
+      this.assertProviderAvailable();
+
+      const { order, payment } = await this.loadPaymentOrder(orderId, access);
+      if (fromOrderStatusDbValue(order.status) !== OrderStatus.AWAITING_PAYMENT) {
+        throw new BusinessError('Order is not awaiting payment', 'ORDER_NOT_AWAITING_PAYMENT', 'low', { orderId });
+      }
+
+      // A customer who paid in another tab must not be sent to pay again
+      if (payment.status === PaymentStatus.PENDING && payment.provider_session_id) {
+        const previous = await this.previousOutcome(payment);
+        if (previous?.status === 'completed') {
+          await this.recordOutcome(previous);
+          throw new BusinessError('Order is already paid', 'ORDER_ALREADY_PAID', 'low', { orderId });
+        }
+      }
+
+      const session = await this.provider.createSession({
+        reference: paymentReference(orderId),
+        amount: Number(payment.amount),
+        description: `Commande ${orderId.slice(-8)}`,
+        returnUrl: returnUrl(orderId, access),
+        failUrl: returnUrl(orderId, access),
+        customerEmail: order.customers?.email || undefined,
+      });
+
+      const supabase = createServiceRoleClient();
+      const { error } = await supabase
+        .from('payments')
+        .update({
+          provider: this.provider.name,
+          provider_session_id: session.sessionId,
+          status: PaymentStatus.PENDING,
+          processed_at: null,
+        })
+        .eq('id', payment.id);
+
+      if (error) {
+        logger.error('Failed to store payment session', error, { action: 'startPayment', orderId });
+        throw new BusinessError('Failed to start payment', 'PAYMENT_UPDATE_ERROR');
+      }
+
+      logger.info('Payment session started', {
+        action: 'startPayment',
+        orderId,
+        provider: this.provider.name,
+        sessionId: session.sessionId,
+        amount: payment.amount,
+      });
+
+      return { success: true, data: session };
+    } catch (error) {
+      logger.error('Error in startPayment', error as Error, { action: 'startPayment', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while starting the payment');
+    }
+  }
+
+  async confirmPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<OrderPayment>> {
+    try {
+      this.assertProviderAvailable();
+
+      const paymentOrder = await this.loadPaymentOrder(orderId, access);
+      const { payment } = paymentOrder;
+
+      // Already settled, usually by the callback that reached us first
+      if (payment.status !== PaymentStatus.PENDING || !payment.provider_session_id) {
+        return { success: true, data: mapOrderPayment(paymentOrder) };
+      }
+      if (payment.provider !== this.provider.name) {
+        logger.warn('Payment session belongs to another provider', {
+          action: 'confirmPayment',
+          orderId,
+          provider: payment.provider,
+        });
+        return { success: true, data: mapOrderPayment(paymentOrder) };
+      }
+
+      const outcome = await this.provider.getOutcome(payment.provider_session_id);
+      if (outcome.status === 'pending') {
+        return { success: true, data: mapOrderPayment(paymentOrder) };
+      }
+
+      await this.recordOutcome(outcome);
+      return { success: true, data: mapOrderPayment(await this.loadPaymentOrder(orderId, access)) };
+    } catch (error) {
+      logger.error('Error in confirmPayment', error as Error, { action: 'confirmPayment', orderId });
+      return toErrorResult(error, 'An unexpected error occurred while confirming the payment');
+    }
+  }
+
+  async handleWebhook(providerName: string, request: PaymentWebhookRequest): Promise<ServiceResult<void>> {
+    try {
+      this.assertProviderAvailable();
+
+      if (providerName !== this.provider.name) {
+        throw new BusinessError('Unknown payment provider', 'PAYMENT_PROVIDER_NOT_FOUND', 'low', { providerName });
+      }
+
+      const outcome = await this.provider.parseWebhook(request);
+      if (!outcome) {
+        logger.warn('Payment callback rejected', { action: 'handlePaymentWebhook', provider: providerName });
+        throw new BusinessError('Invalid payment callback signature', 'PAYMENT_SIGNATURE_INVALID');
+      }
+
+      if (outcome.status !== 'pending') {
+        await this.recordOutcome(outcome);
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in handlePaymentWebhook', error as Error, {
+        action: 'handlePaymentWebhook',
+        provider: providerName,
+      });
+      return toErrorResult(error, 'An unexpected error occurred while handling the payment callback');
+    }
+  }
+
+  // The mock gateway accepts anyone's word that they paid, so it never takes real orders
+  private assertProviderAvailable(): void {
+    if (this.provider instanceof MockPaymentProvider && process.env.NODE_ENV === 'production') {
+      throw new BusinessError('Online payment is not configured', 'PAYMENT_PROVIDER_NOT_CONFIGURED', 'high');
+    }
+  }
+
+  private async loadPaymentOrder(orderId: string, access: PaymentAccess): Promise<PaymentOrder> {
+    if (!orderId) {
+      throw new ValidationError('Order ID is required', 'orderId', 'REQUIRED');
+    }
+
+    // Guests have no session, so the order is read with the service role and access checked here
+    const supabase = createServiceRoleClient();
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, customer_id, status, access_token, customers (email), payments (*)')
+      .eq('id', orderId)
+      .maybeSingle<PaymentOrderRow>();
+
+    if (error) {
+      logger.error('Failed to fetch order for payment', error, { action: 'loadPaymentOrder', orderId });
+      throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+    }
+    // Do not reveal that other people's orders exist
+    if (!order || !canAccessOrder(order, access)) {
+      throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const payment = (order.payments || []).find(row => row.payment_method === PaymentMethod.CREDIT_CARD);
+    if (!payment) {
+      throw new BusinessError('Order is not paid by card', 'PAYMENT_NOT_FOUND', 'low', { orderId });
+    }
+
+    return { order, payment };
+  }
+
+  private async previousOutcome(payment: PaymentRow): Promise<PaymentOutcome | null> {
+    if (payment.provider !== this.provider.name || !payment.provider_session_id) {
+      return null;
+    }
+
+    try {
+      return await this.provider.getOutcome(payment.provider_session_id);
+    } catch (error) {
+      logger.warn('Could not read previous payment session', {
+        action: 'startPayment',
+        paymentId: payment.id,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  // A paid order is confirmed unless it was cancelled meanwhile; the callback and the return both get here
+  private async emailConfirmation(orderId: string): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { data: order } = await supabase.from('orders').select('status').eq('id', orderId).maybeSingle();
+    if (!order || fromOrderStatusDbValue(order.status) !== OrderStatus.CONFIRMED) {
+      return;
+    }
+
+    const result = await orderEmailService.sendOrderEmail(orderId, 'order_confirmed');
+    if (!result.success) {
+      logger.warn('Failed to email order confirmation', {
+        action: 'recordPaymentResult',
+        orderId,
+        error: result.error?.message,
+      });
+    }
+  }
+
+  private async recordOutcome(outcome: PaymentOutcome): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { data: payment, error } = await supabase
+      .rpc('record_payment_result', {
+        p_provider: this.provider.name,
+        p_session_id: outcome.sessionId,
+        p_status: outcome.status,
+        p_amount: outcome.amount,
+        p_transaction_id: outcome.transactionId ?? null,
+      })
+      .single<PaymentRow>();
+
+    if (error) {
+      const errorCode = PAYMENT_RESULT_ERRORS.find(code => error.message?.includes(code));
+      if (errorCode === 'PAYMENT_SESSION_NOT_FOUND') {
+        throw new BusinessError('Payment session not found', errorCode, 'low', { sessionId: outcome.sessionId });
+      }
+      if (errorCode === 'PAYMENT_AMOUNT_MISMATCH') {
+        throw new BusinessError('Paid amount does not match the order', errorCode, 'high', {
+          sessionId: outcome.sessionId,
+          amount: outcome.amount,
+        });
+      }
+
+      logger.error('Failed to record payment result', error, {
+        action: 'recordPaymentResult',
+        sessionId: outcome.sessionId,
+      });
+      throw new BusinessError('Failed to record payment result', 'PAYMENT_UPDATE_ERROR');
+    }
+
+    // The order's status may have changed under the order service's cache
+    await orderService.clearCache();
+
+    if (payment.status === PaymentStatus.COMPLETED && payment.order_id) {
+      await this.emailConfirmation(payment.order_id);
+    }
+
+    logger.info('Payment result recorded', {
+      action: 'recordPaymentResult',
+      orderId: payment.order_id,
+      provider: this.provider.name,
+      sessionId: outcome.sessionId,
+      status: payment.status,
+      transactionId: payment.transaction_id,
+    });
+  }
+}
+
+export const paymentService = new PaymentServiceImpl();
@@ -0,0 +1,219 @@
+// Payment service specific types
+import { ServiceResult } from '@/types/common';
+import { OrderStatus, PaymentStatus } from '@/types/enums';
+
+// What a gateway reports about a payment session
+export type PaymentOutcomeStatus = 'pending' | 'completed' | 'failed';
+
+export interface PaymentSessionRequest {
+  // Unique per attempt; gateways refuse a reference they have already seen
+  reference: string;
+  // In dinars
+  amount: number;
+  description: string;
+  // Where the gateway sends the customer back after a payment or a failure
+  returnUrl: string;
+  failUrl: string;
+  customerEmail?: string;
+}
+
+export interface PaymentSession {
+  // The gateway's id for the session, stored as payments.provider_session_id
+  sessionId: string;
+  // The gateway's hosted payment page
+  redirectUrl: string;
+}
+
+export interface PaymentOutcome {
+  sessionId: string;
+  status: PaymentOutcomeStatus;
+  // In dinars, as captured by the gateway
+  amount: number;
+  transactionId?: string;
+}
+
+// A gateway callback as it reached the webhook route
+export interface PaymentWebhookRequest {
+  headers: Headers;
+  query: URLSearchParams;
+  body: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createSession(request: PaymentSessionRequest): Promise<PaymentSession>;
+  // Asks the gateway for the session's current state
+  getOutcome(sessionId: string): Promise<PaymentOutcome>;
+  // The outcome a callback reports, or null when its signature does not verify
+  parseWebhook(request: PaymentWebhookRequest): Promise<PaymentOutcome | null>;
+}
+
+// Who may pay for an order: its customer, or whoever holds the guest order's access token
+export interface PaymentAccess {
+  customerId?: string;
+  accessToken?: string;
+}
+
+export interface OrderPayment {
+  orderId: string;
+  amount: number;
+  orderStatus: OrderStatus;
+  paymentStatus: PaymentStatus;
+  processedAt?: Date;
+}
+
+export interface PaymentService {
+  getOrderPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<OrderPayment>>;
+  startPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<PaymentSession>>;
+  confirmPayment(orderId: string, access: PaymentAccess): Promise<ServiceResult<OrderPayment>>;
+  handleWebhook(providerName: string, request: PaymentWebhookRequest): Promise<ServiceResult<void>>;
+  getProvider(): PaymentProvider;
+  setProvider(provider: PaymentProvider): void;
+}
+
+// The account customers pay bank transfers into, from store_settings
+export interface BankDetails {
+  accountName: string;
+  bankName: string;
+  // 20 digits, see normalizeRib
+  rib: string;
+}
+
+export type PaymentProofStatus = 'pending' | 'approved' | 'rejected';
+
+// A transfer receipt uploaded by the customer
+export interface PaymentProof {
+  id: string;
+  orderId: string;
+  fileName?: string;
+  contentType: string;
+  status: PaymentProofStatus;
+  rejectionReason?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+// A receipt in the admin verification queue
+export interface PendingPaymentProof extends PaymentProof {
+  amount: number;
+  customerName?: string;
+  customerEmail?: string;
+  // Short-lived link to the receipt file
+  viewUrl?: string;
+}
+
+export interface BankTransfer {
+  orderId: string;
+  amount: number;
+  orderStatus: OrderStatus;
+  paymentStatus: PaymentStatus;
+  // Unset until the store has entered its bank details
+  bankDetails?: BankDetails;
+  // Newest first
+  proofs: PaymentProof[];
+}
+
+// The admin behind a review or a reconciliation step
+export interface PaymentReviewer {
+  id?: string;
+  email?: string;
+}
+
+export interface BankTransferService {
+  getBankDetails(): Promise<ServiceResult<BankDetails | null>>;
+  updateBankDetails(details: BankDetails): Promise<ServiceResult<BankDetails>>;
+  getBankTransfer(orderId: string, access: PaymentAccess): Promise<ServiceResult<BankTransfer>>;
+  uploadProof(orderId: string, access: PaymentAccess, file: File): Promise<ServiceResult<PaymentProof>>;
+  getPendingProofs(): Promise<ServiceResult<PendingPaymentProof[]>>;
+  approveProof(proofId: string, reviewer: PaymentReviewer): Promise<ServiceResult<PaymentProof>>;
+  rejectProof(proofId: string, reason: string, reviewer: PaymentReviewer): Promise<ServiceResult<PaymentProof>>;
+}
+
+// A delivery company or rider collecting cash on delivery
+export interface Courier {
+  id: string;
+  name: string;
+  phone?: string;
+  isActive: boolean;
+}
+
+export type CourierInput = Omit<Courier, 'id'>;
+
+// Cash a courier collected for a delivered cash on delivery order
+export interface CodCollection {
+  id: string;
+  orderId: string;
+  courierId: string;
+  courierName?: string;
+  amount: number;
+  // The order's total, which the amount collected may fall short of
+  orderTotal: number;
+  // Unset until the collection is batched
+  remittanceId?: string;
+  collectedAt: Date;
+}
+
+export interface RecordCodCollectionData {
+  orderId: string;
+  courierId: string;
+  // Defaults to the order's total
+  amount?: number;
+}
+
+export type CodRemittanceStatus = 'pending' | 'received';
+
+// A batch of collections the courier hands over to the store at once
+export interface CodRemittance {
+  id: string;
+  courierId: string;
+  courierName?: string;
+  status: CodRemittanceStatus;
+  expectedAmount: number;
+  receivedAmount?: number;
+  notes?: string;
+  collectionCount: number;
+  createdAt: Date;
+  receivedAt?: Date;
+}
+
+export interface CourierCashSummary {
+  courierId: string;
+  courierName: string;
+  // Collected and not yet batched
+  unbatchedCount: number;
+  unbatchedAmount: number;
+  // Batched and not yet received
+  pendingRemittanceCount: number;
+  pendingRemittanceAmount: number;
+  outstandingAmount: number;
+}
+
+export interface OutstandingCashReport {
+  couriers: CourierCashSummary[];
+  totalOutstanding: number;
+  // Delivered cash on delivery orders with no collection recorded
+  uncollectedOrderCount: number;
+  uncollectedAmount: number;
+}
+
+export interface CodReconciliationService {
+  getCouriers(): Promise<ServiceResult<Courier[]>>;
+  createCourier(input: CourierInput): Promise<ServiceResult<Courier>>;
+  updateCourier(id: string, input: CourierInput): Promise<ServiceResult<Courier>>;
+  getCollection(orderId: string): Promise<ServiceResult<CodCollection | null>>;
+  recordCollection(data: RecordCodCollectionData, recordedBy: PaymentReviewer): Promise<ServiceResult<CodCollection>>;
+  getUnbatchedCollections(): Promise<ServiceResult<CodCollection[]>>;
+  getRemittances(status?: CodRemittanceStatus): Promise<ServiceResult<CodRemittance[]>>;
+  createRemittance(
+    courierId: string,
+    collectionIds: string[],
+    createdBy: PaymentReviewer
+  ): Promise<ServiceResult<CodRemittance>>;
+  receiveRemittance(
+    remittanceId: string,
+    receivedAmount: number | undefined,
+    notes: string | undefined,
+    receivedBy: PaymentReviewer
+  ): Promise<ServiceResult<CodRemittance>>;
+  getOutstandingCashReport(): Promise<ServiceResult<OutstandingCashReport>>;
+}
@@ -0,0 +1,74 @@
+import type { Category } from '@/types/business';
+import { buildCategoryTree, getCategoryPath, getDescendantIds, slugify, wouldCreateCycle } from '../category-tree';
+
+function category(id: string, parentId?: string, sortOrder = 0): Category {
+  return {
+    id,
+    name: id,
+    slug: id,
+    parentId,
+    sortOrder,
+    isActive: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+// honey -> mountain -> thyme, honey -> sidr, pollen
+const categories = [
+  category('thyme', 'mountain'),
+  category('sidr', 'honey', 2),
+  category('mountain', 'honey', 1),
+  category('honey'),
+  category('pollen'),
+];
+
+describe('category-tree', () => {
+  describe('slugify', () => {
+    it('should keep Arabic letters and join words with dashes', () => {
+      expect(slugify('عسل الجبل')).toBe('عسل-الجبل');
+      expect(slugify('  Miel de Thym! ')).toBe('miel-de-thym');
+      expect(slugify('عَسَل')).toBe('عسل');
+    });
+  });
+
+  describe('buildCategoryTree', () => {
+    it('should nest categories under their parents in sort order', () => {
+      const tree = buildCategoryTree(categories);
+
+      expect(tree.map(node => node.id)).toEqual(['honey', 'pollen']);
+      expect(tree[0].children.map(node => node.id)).toEqual(['mountain', 'sidr']);
+      expect(tree[0].children[0].children.map(node => node.id)).toEqual(['thyme']);
+    });
+
+    it('should show categories with a missing parent at the top level', () => {
+      expect(buildCategoryTree([category('orphan', 'deleted')]).map(node => node.id)).toEqual(['orphan']);
+    });
+  });
+
+  describe('getDescendantIds', () => {
+    it('should include the category and every level below it', () => {
+      expect(getDescendantIds(categories, 'honey').sort()).toEqual(['honey', 'mountain', 'sidr', 'thyme']);
+      expect(getDescendantIds(categories, 'pollen')).toEqual(['pollen']);
+    });
+  });
+
+  describe('getCategoryPath', () => {
+    it('should list the ancestors from the top level down', () => {
+      expect(getCategoryPath(categories, 'thyme').map(item => item.id)).toEqual(['honey', 'mountain', 'thyme']);
+    });
+
+    it('should stop at a cycle', () => {
+      const looped = [category('a', 'b'), category('b', 'a')];
+      expect(getCategoryPath(looped, 'a').map(item => item.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should reject moving a category under itself or its descendants', () => {
+      expect(wouldCreateCycle(categories, 'honey', 'honey')).toBe(true);
+      expect(wouldCreateCycle(categories, 'honey', 'thyme')).toBe(true);
+      expect(wouldCreateCycle(categories, 'thyme', 'pollen')).toBe(false);
+    });
+  });
+});
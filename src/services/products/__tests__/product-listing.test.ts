@@ -0,0 +1,90 @@
+import { buildProductListingHref, computeProductFacets, parseProductListingParams } from '../product-listing';
+import type { ProductFacetRow } from '../product-listing';
+
+const honey = { id: 'honey', name: 'عسل' };
+const pollen = { id: 'pollen', name: 'حبوب اللقاح' };
+
+const rows: ProductFacetRow[] = [
+  { id: 'p1', price: 80, stock: 5, averageRating: 4.5, categories: [honey] },
+  { id: 'p2', price: 150, stock: 0, averageRating: 3.2, categories: [honey] },
+  { id: 'p3', price: 250, stock: 2, categories: [pollen] },
+  { id: 'p4', price: 120, stock: 1, averageRating: 4, categories: [honey, pollen] },
+];
+
+describe('product-listing', () => {
+  describe('parseProductListingParams', () => {
+    it('should read filters, sort and page from the search params', () => {
+      expect(
+        parseProductListingParams({
+          q: ' عسل ',
+          category: 'honey',
+          min_price: '100',
+          max_price: '200',
+          in_stock: '1',
+          rating: '4',
+          sort: 'price_desc',
+          page: '2',
+        })
+      ).toEqual({
+        page: 2,
+        limit: 12,
+        search: 'عسل',
+        categoryId: 'honey',
+        minPrice: 100,
+        maxPrice: 200,
+        inStock: true,
+        minRating: 4,
+        sortBy: 'price',
+        sortOrder: 'desc',
+      });
+    });
+
+    it('should ignore malformed values', () => {
+      expect(parseProductListingParams({ min_price: 'abc', rating: '9', sort: 'cheapest', page: '-3' })).toEqual({
+        page: 1,
+        limit: 12,
+      });
+    });
+
+    it('should swap a reversed price range', () => {
+      const params = parseProductListingParams({ min_price: '200', max_price: '100' });
+      expect(params.minPrice).toBe(100);
+      expect(params.maxPrice).toBe(200);
+    });
+  });
+
+  describe('buildProductListingHref', () => {
+    it('should round-trip the params and reset the page when a filter changes', () => {
+      const params = parseProductListingParams({ category: 'honey', sort: 'rating', page: '3' });
+
+      expect(buildProductListingHref(params, { page: 4 })).toBe('/products?category=honey&sort=rating&page=4');
+      expect(buildProductListingHref(params, { inStock: true })).toBe(
+        '/products?category=honey&in_stock=1&sort=rating'
+      );
+      expect(buildProductListingHref(params, { categoryId: undefined, sortBy: undefined })).toBe('/products');
+    });
+  });
+
+  describe('computeProductFacets', () => {
+    it('should count every product without filters', () => {
+      const facets = computeProductFacets(rows);
+
+      expect(facets.categories).toEqual([
+        { id: 'pollen', name: 'حبوب اللقاح', count: 2 },
+        { id: 'honey', name: 'عسل', count: 3 },
+      ]);
+      expect(facets.priceRanges.map(range => range.count)).toEqual([1, 2, 1]);
+      expect(facets.ratings.map(rating => rating.count)).toEqual([2, 3, 3, 3]);
+      expect(facets.inStock).toBe(3);
+    });
+
+    it('should count each facet against the other active filters', () => {
+      const facets = computeProductFacets(rows, { categoryId: 'honey', inStock: true });
+
+      // Categories ignore the category filter but respect the stock filter
+      expect(facets.categories.map(category => category.count)).toEqual([2, 2]);
+      expect(facets.priceRanges.map(range => range.count)).toEqual([1, 1, 0]);
+      expect(facets.inStock).toBe(2);
+    });
+  });
+});
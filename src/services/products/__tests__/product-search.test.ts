@@ -0,0 +1,51 @@
+import { normalizeArabic, stripArticle, tokenizeSearchQuery } from '../product-search';
+
+describe('product-search', () => {
+  describe('normalizeArabic', () => {
+    it('should unify alef forms', () => {
+      expect(normalizeArabic('أعشاب إكليل آس')).toBe('اعشاب اكليل اس');
+    });
+
+    it('should treat taa marbuta as haa and alef maqsura as yaa', () => {
+      expect(normalizeArabic('حبة البركة')).toBe(normalizeArabic('حبه البركه'));
+      expect(normalizeArabic('مصطفى')).toBe('مصطفي');
+    });
+
+    it('should drop diacritics and tatweel', () => {
+      expect(normalizeArabic('عَسَلٌ')).toBe('عسل');
+      expect(normalizeArabic('عـــسل')).toBe('عسل');
+    });
+
+    it('should convert Arabic-Indic digits and lowercase Latin text', () => {
+      expect(normalizeArabic('عسل ٥٠٠ غ Sidr')).toBe('عسل 500 غ sidr');
+    });
+  });
+
+  describe('stripArticle', () => {
+    it('should remove the definite article and its prefixed forms', () => {
+      expect(stripArticle('العسل')).toBe('عسل');
+      expect(stripArticle('بالعسل')).toBe('عسل');
+      expect(stripArticle('للعسل')).toBe('عسل');
+    });
+
+    it('should keep short words intact', () => {
+      expect(stripArticle('الم')).toBe('الم');
+      expect(stripArticle('عسل')).toBe('عسل');
+    });
+  });
+
+  describe('tokenizeSearchQuery', () => {
+    it('should match "عسل" and "العسل" to the same word', () => {
+      expect(tokenizeSearchQuery('العسل')).toEqual(tokenizeSearchQuery('عسل'));
+    });
+
+    it('should drop punctuation and search syntax', () => {
+      expect(tokenizeSearchQuery("عسل%,name.ilike.*' OR 1=1")).toEqual(['عسل', 'name', 'ilike', 'or', '1']);
+    });
+
+    it('should remove duplicate and empty words', () => {
+      expect(tokenizeSearchQuery('  عسل   العسل ، ')).toEqual(['عسل']);
+      expect(tokenizeSearchQuery('!!!')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+// Helpers for the category hierarchy, which is loaded whole (it is small)
+// and walked in memory.
+import { Category, CategoryTreeNode } from '@/types/business';
+
+// Harakat, superscript alef and tatweel, dropped from slugs
+const DIACRITICS = /[\u064B-\u0652\u0670\u0640]/g;
+
+// Anything but Latin letters, digits and Arabic letters and digits
+const SLUG_SEPARATORS = /[^a-z0-9\u0621-\u064A\u0660-\u0669]+/g;
+
+// "عسل الجبل" -> "عسل-الجبل"; Arabic is kept since browsers show it as is
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(DIACRITICS, '')
+    .replace(SLUG_SEPARATORS, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function compareSiblings(a: Category, b: Category): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, 'ar');
+}
+
+/**
+ * Nests the categories under their parents, each level in sort order.
+ * Categories whose parent is missing are shown at the top level.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const nodes = new Map(categories.map(category => [category.id, { ...category, children: [] as CategoryTreeNode[] }]));
+  const roots: CategoryTreeNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const sortLevel = (level: CategoryTreeNode[]) => {
+    level.sort(compareSiblings);
+    level.forEach(node => sortLevel(node.children));
+  };
+  sortLevel(roots);
+
+  return roots;
+}
+
+/**
+ * The category and everything below it, so a parent's listing includes the
+ * products of its subcategories.
+ */
+export function getDescendantIds(categories: Category[], categoryId: string): string[] {
+  const ids = [categoryId];
+  // Breadth-first; the seen set stops at a cycle in bad data
+  const seen = new Set(ids);
+
+  for (let index = 0; index < ids.length; index++) {
+    categories
+      .filter(category => category.parentId === ids[index] && !seen.has(category.id))
+      .forEach(category => {
+        seen.add(category.id);
+        ids.push(category.id);
+      });
+  }
+
+  return ids;
+}
+
+// The category's ancestors from the top level down, ending with the category
+export function getCategoryPath(categories: Category[], categoryId: string): Category[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: Category[] = [];
+
+  let current = byId.get(categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+// Whether putting the category under the parent would make it its own ancestor
+export function wouldCreateCycle(categories: Category[], categoryId: string, parentId: string): boolean {
+  return getDescendantIds(categories, categoryId).includes(parentId);
+}
@@ -0,0 +1,108 @@
+// Turns an uploaded product photo into the resized files the storefront
+// serves. Server-only: it runs sharp (libvips) on the upload's bytes.
+import { ValidationError } from '@/lib/errors/custom-errors';
+import {
+  getVariantWidths,
+  IMAGE_VARIANT_FORMATS,
+  MAX_PRODUCT_IMAGE_BYTES,
+  MIN_PRODUCT_IMAGE_DIMENSION,
+} from '@/lib/utils/image-variants';
+import type { ImageVariantFormat } from '@/types/business';
+import sharp from 'sharp';
+
+// Guards against decompression bombs: a small file claiming a huge canvas
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const QUALITY: Record<ImageVariantFormat, number> = {
+  avif: 55,
+  webp: 80,
+};
+
+const BLUR_PLACEHOLDER_WIDTH = 16;
+
+export interface ProcessedImageVariant {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  // Of the upright image, after EXIF orientation is applied
+  width: number;
+  height: number;
+  blurDataUrl: string;
+  variants: ProcessedImageVariant[];
+}
+
+// Whether sharp's reading of the file is a format we accept; AVIF is reported as HEIF
+function isAcceptedFormat(metadata: sharp.Metadata): boolean {
+  if (metadata.format === 'heif') {
+    return metadata.compression === 'av1';
+  }
+  return metadata.format === 'jpeg' || metadata.format === 'png' || metadata.format === 'webp';
+}
+
+/**
+ * Validates the upload by its content rather than its declared type, then
+ * writes WebP and AVIF copies at each variant width and a blurred
+ * placeholder. The output carries no metadata, so EXIF data such as the
+ * camera's GPS position never reaches the storefront.
+ */
+export async function processProductImage(input: Buffer): Promise<ProcessedImage> {
+  if (input.length > MAX_PRODUCT_IMAGE_BYTES) {
+    throw new ValidationError('Images must be 15 MB or smaller', 'INVALID', 'file');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new ValidationError('The file is not a readable image', 'INVALID', 'file');
+  }
+
+  if (!isAcceptedFormat(metadata)) {
+    throw new ValidationError('Images must be JPEG, PNG, WebP or AVIF', 'INVALID', 'file');
+  }
+
+  // Orientations 5-8 are stored on their side
+  const sideways = (metadata.orientation ?? 1) >= 5;
+  const width = (sideways ? metadata.height : metadata.width) ?? 0;
+  const height = (sideways ? metadata.width : metadata.height) ?? 0;
+  if (Math.min(width, height) < MIN_PRODUCT_IMAGE_DIMENSION) {
+    throw new ValidationError(
+      `Images must be at least ${MIN_PRODUCT_IMAGE_DIMENSION}px on each side`,
+      'INVALID',
+      'file'
+    );
+  }
+
+  const upright = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  // One at a time: encoding AVIF is heavy and uploads are rare
+  const variants: ProcessedImageVariant[] = [];
+  for (const variantWidth of getVariantWidths(width)) {
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const { data, info } = await upright
+        .clone()
+        .resize({ width: variantWidth, withoutEnlargement: true })
+        .toFormat(format, { quality: QUALITY[format] })
+        .toBuffer({ resolveWithObject: true });
+
+      variants.push({ format, width: info.width, height: info.height, data });
+    }
+  }
+
+  const placeholder = await upright
+    .clone()
+    .resize({ width: BLUR_PLACEHOLDER_WIDTH })
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    blurDataUrl: `data:image/webp;base64,${placeholder.toString('base64')}`,
+    variants,
+  };
+}
@@ -1,3 +1,8 @@
 // Products service exports
+export * from './category-tree';
+export * from './product-images.service';
+export * from './product-listing';
+export * from './product-search';
+export * from './product-variants.service';
 export * from './products.service';
 export * from './products.types';
@@ -0,0 +1,379 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { pickImageVariant } from '@/lib/utils/image-variants';
+import { ImageVariant, ProductImage, UpdateProductImageData, UploadProductImageData } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { Json, Tables, TablesUpdate } from '@/types/supabase';
+import { processProductImage } from './image-processing';
+import { mapProductImageRow, productService } from './products.service';
+import { ProductImageService } from './products.types';
+
+const BUCKET = 'product-images';
+
+// Width of the WebP copy put in image_url, for code that shows a single image
+const IMAGE_URL_WIDTH = 1280;
+
+// Postgres no_data_found, raised when the image is not in the product's gallery
+const NO_DATA_FOUND = 'P0002';
+
+// Empty alt text is stored as NULL so the storefront falls back to the product name
+const toAltText = (value?: string) => (value?.trim() ? value.trim() : null);
+
+/**
+ * A product's image gallery. Files go to the product-images bucket under the
+ * product's id; the database keeps products.image_url pointing at the
+ * primary image, so only the gallery rows are written here.
+ */
+export class ProductImageServiceImpl implements ProductImageService {
+  async getImages(productId: string): Promise<ServiceResult<ProductImage[]>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const { data, error } = await supabase
+        .from('product_images')
+        .select('*')
+        .eq('product_id', productId)
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) {
+        logger.error('Failed to fetch product images', error, {
+          action: 'getImages',
+          productId,
+        });
+        throw new BusinessError('Failed to fetch product images', 'IMAGES_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapProductImageRow) };
+    } catch (error) {
+      logger.error('Error in getImages', error as Error, {
+        action: 'getImages',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching product images');
+    }
+  }
+
+  /**
+   * Processes the file into resized copies, stores them and adds the image
+   * at the end of the gallery. The original is not kept. A product's first
+   * image becomes its primary image.
+   */
+  async uploadImage(data: UploadProductImageData): Promise<ServiceResult<ProductImage>> {
+    try {
+      if (!data.productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+      if (!data.file) {
+        throw new ValidationError('Image file is required', 'REQUIRED', 'file');
+      }
+
+      const processed = await processProductImage(Buffer.from(await data.file.arrayBuffer()));
+
+      const supabase = await createClientServer('service_role');
+      const { data: existing, error: existingError } = await supabase
+        .from('product_images')
+        .select('sort_order')
+        .eq('product_id', data.productId)
+        .order('sort_order', { ascending: false })
+        .limit(1);
+
+      if (existingError) {
+        logger.error('Failed to fetch product images', existingError, {
+          action: 'uploadImage',
+          productId: data.productId,
+        });
+        throw new BusinessError('Failed to upload image', 'IMAGE_UPLOAD_ERROR');
+      }
+
+      // Each upload gets its own folder: <product>/<image>/<width>.<format>
+      const folder = `${data.productId}/${crypto.randomUUID()}`;
+      const variants: ImageVariant[] = [];
+      for (const variant of processed.variants) {
+        const path = `${folder}/${variant.width}.${variant.format}`;
+        const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, variant.data, {
+          cacheControl: '31536000',
+          contentType: `image/${variant.format}`,
+          upsert: false,
+        });
+
+        if (uploadError) {
+          logger.error('Failed to store product image', uploadError, {
+            action: 'uploadImage',
+            productId: data.productId,
+            path,
+          });
+          await this.removeFiles(variants.map(stored => stored.path), 'uploadImage');
+          throw new BusinessError('Failed to upload image', 'IMAGE_UPLOAD_ERROR');
+        }
+
+        const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(path);
+        variants.push({
+          format: variant.format,
+          width: variant.width,
+          height: variant.height,
+          url: urlData.publicUrl,
+          path,
+        });
+      }
+
+      const cover = pickImageVariant(variants, IMAGE_URL_WIDTH) as ImageVariant;
+      const { data: row, error } = await supabase
+        .from('product_images')
+        .insert({
+          product_id: data.productId,
+          image_url: cover.url,
+          storage_path: cover.path,
+          variants: variants as unknown as Json,
+          blur_data_url: processed.blurDataUrl,
+          width: processed.width,
+          height: processed.height,
+          alt_text_ar: toAltText(data.altTextAr),
+          alt_text_en: toAltText(data.altTextEn),
+          is_primary: !existing?.length,
+          sort_order: existing?.length ? existing[0].sort_order + 1 : 0,
+        })
+        .select()
+        .single<Tables<'product_images'>>();
+
+      if (error || !row) {
+        logger.error('Failed to save product image', error as Error, {
+          action: 'uploadImage',
+          productId: data.productId,
+        });
+        // Do not leave files no gallery row points to
+        await this.removeFiles(variants.map(stored => stored.path), 'uploadImage');
+        throw new BusinessError('Failed to upload image', 'IMAGE_UPLOAD_ERROR');
+      }
+
+      await productService.clearCache();
+
+      logger.info('Product image uploaded', {
+        action: 'uploadImage',
+        productId: data.productId,
+        imageId: row.id,
+        isPrimary: row.is_primary,
+        variantCount: variants.length,
+        originalBytes: data.file.size,
+      });
+
+      return { success: true, data: mapProductImageRow(row) };
+    } catch (error) {
+      logger.error('Error in uploadImage', error as Error, {
+        action: 'uploadImage',
+        productId: data.productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while uploading the image');
+    }
+  }
+
+  async updateImage(data: UpdateProductImageData): Promise<ServiceResult<ProductImage>> {
+    try {
+      if (!data.id) {
+        throw new ValidationError('Image ID is required', 'REQUIRED', 'id');
+      }
+
+      const updateData: TablesUpdate<'product_images'> = {};
+      if (data.altTextAr !== undefined) updateData.alt_text_ar = toAltText(data.altTextAr);
+      if (data.altTextEn !== undefined) updateData.alt_text_en = toAltText(data.altTextEn);
+
+      const supabase = await createClientServer('service_role');
+      const { data: row, error } = await supabase
+        .from('product_images')
+        .update(updateData)
+        .eq('id', data.id)
+        .select()
+        .maybeSingle<Tables<'product_images'>>();
+
+      if (error) {
+        logger.error('Failed to update product image', error, {
+          action: 'updateImage',
+          imageId: data.id,
+        });
+        throw new BusinessError('Failed to update product image', 'IMAGE_UPDATE_ERROR');
+      }
+      if (!row) {
+        throw new BusinessError('Image not found', 'IMAGE_NOT_FOUND');
+      }
+
+      await productService.clearCache();
+
+      return { success: true, data: mapProductImageRow(row) };
+    } catch (error) {
+      logger.error('Error in updateImage', error as Error, {
+        action: 'updateImage',
+        imageId: data.id,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while updating the image');
+    }
+  }
+
+  // Puts the product's images in the given order; ids of other products are ignored
+  async reorderImages(productId: string, imageIds: string[]): Promise<ServiceResult<void>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+      if (!Array.isArray(imageIds) || imageIds.length === 0) {
+        throw new ValidationError('Image IDs are required', 'REQUIRED', 'imageIds');
+      }
+
+      const supabase = createServiceRoleClient();
+      const { error } = await supabase.rpc('reorder_product_images', {
+        p_product_id: productId,
+        p_image_ids: imageIds,
+      });
+
+      if (error) {
+        logger.error('Failed to reorder product images', error, {
+          action: 'reorderImages',
+          productId,
+        });
+        throw new BusinessError('Failed to reorder product images', 'IMAGES_REORDER_ERROR');
+      }
+
+      await productService.clearCache();
+
+      logger.info('Product images reordered', { action: 'reorderImages', productId, imageIds });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in reorderImages', error as Error, {
+        action: 'reorderImages',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while reordering the images');
+    }
+  }
+
+  async setPrimaryImage(productId: string, imageId: string): Promise<ServiceResult<void>> {
+    try {
+      if (!productId || !imageId) {
+        throw new ValidationError('Product ID and image ID are required', 'REQUIRED', 'imageId');
+      }
+
+      await this.promoteImage(productId, imageId, 'setPrimaryImage');
+
+      logger.info('Primary product image changed', { action: 'setPrimaryImage', productId, imageId });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in setPrimaryImage', error as Error, {
+        action: 'setPrimaryImage',
+        productId,
+        imageId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while setting the primary image');
+    }
+  }
+
+  /**
+   * Removes the image and its file. When it was the primary image, the next
+   * one in the gallery takes its place.
+   */
+  async deleteImage(id: string): Promise<ServiceResult<void>> {
+    try {
+      if (!id) {
+        throw new ValidationError('Image ID is required', 'REQUIRED', 'id');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const { data: row, error } = await supabase
+        .from('product_images')
+        .delete()
+        .eq('id', id)
+        .select()
+        .maybeSingle<Tables<'product_images'>>();
+
+      if (error) {
+        logger.error('Failed to delete product image', error, {
+          action: 'deleteImage',
+          imageId: id,
+        });
+        throw new BusinessError('Failed to delete product image', 'IMAGE_DELETE_ERROR');
+      }
+      if (!row) {
+        throw new BusinessError('Image not found', 'IMAGE_NOT_FOUND');
+      }
+
+      // Images stored before processing have only the one file
+      const paths = mapProductImageRow(row).variants.map(variant => variant.path);
+      if (row.storage_path && !paths.includes(row.storage_path)) {
+        paths.push(row.storage_path);
+      }
+      await this.removeFiles(paths, 'deleteImage');
+
+      if (row.is_primary && row.product_id) {
+        const { data: next } = await supabase
+          .from('product_images')
+          .select('id')
+          .eq('product_id', row.product_id)
+          .order('sort_order')
+          .order('created_at')
+          .limit(1)
+          .maybeSingle<Pick<Tables<'product_images'>, 'id'>>();
+
+        if (next) {
+          await this.promoteImage(row.product_id, next.id, 'deleteImage');
+        }
+      }
+
+      await productService.clearCache();
+
+      logger.info('Product image deleted', { action: 'deleteImage', imageId: id, productId: row.product_id });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in deleteImage', error as Error, {
+        action: 'deleteImage',
+        imageId: id,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while deleting the image');
+    }
+  }
+
+  // The gallery no longer points at them, so a stray file is not worth failing over
+  private async removeFiles(paths: string[], action: string): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const supabase = await createClientServer('service_role');
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) {
+      logger.warn('Failed to remove product image files', { action, paths, error: error.message });
+    }
+  }
+
+  private async promoteImage(productId: string, imageId: string, action: string): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.rpc('set_primary_product_image', {
+      p_product_id: productId,
+      p_image_id: imageId,
+    });
+
+    if (error) {
+      if (error.code === NO_DATA_FOUND) {
+        throw new BusinessError('Image not found', 'IMAGE_NOT_FOUND');
+      }
+
+      logger.error('Failed to set primary product image', error, { action, productId, imageId });
+      throw new BusinessError('Failed to set primary image', 'IMAGE_PRIMARY_ERROR');
+    }
+
+    await productService.clearCache();
+  }
+}
+
+export const productImageService = new ProductImageServiceImpl();
@@ -0,0 +1,201 @@
+// The /products listing's filters as URL search params, so a filtered page
+// can be shared, and the facet counts shown next to each filter.
+import { Product, ProductFilters, ProductSearchParams } from '@/types/business';
+import { ProductFacets } from './products.types';
+
+export const PRODUCT_PAGE_SIZE = 12;
+
+// Price bands offered as filters, in dinars; bounds are inclusive like the
+// minPrice and maxPrice filters
+export const PRICE_RANGES: { min?: number; max?: number }[] = [{ max: 100 }, { min: 100, max: 200 }, { min: 200 }];
+
+// "N stars and up" rating filters
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export type ProductSortOption = 'newest' | 'price_asc' | 'price_desc' | 'rating' | 'name';
+
+const SORT_OPTIONS: Record<ProductSortOption, Pick<ProductFilters, 'sortBy' | 'sortOrder'>> = {
+  newest: { sortBy: 'created_at', sortOrder: 'desc' },
+  price_asc: { sortBy: 'price', sortOrder: 'asc' },
+  price_desc: { sortBy: 'price', sortOrder: 'desc' },
+  rating: { sortBy: 'rating', sortOrder: 'desc' },
+  name: { sortBy: 'name', sortOrder: 'asc' },
+};
+
+export type ListingSearchParams = Record<string, string | string[] | undefined>;
+
+// Product fields the facets are counted from
+export interface ProductFacetRow {
+  id: string;
+  price: number;
+  stock: number;
+  averageRating?: number;
+  // The product's categories and the categories above them
+  categories: { id: string; name: string; parentId?: string }[];
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || undefined;
+}
+
+function parsePositiveNumber(value: string | string[] | undefined): number | undefined {
+  const number = Number(firstValue(value));
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Reads the listing's filters from the page's search params. Unknown or
+ * malformed values are ignored rather than rejected, since they come from
+ * links shoppers edit and share.
+ */
+export function parseProductListingParams(searchParams: ListingSearchParams): ProductSearchParams {
+  const params: ProductSearchParams = { page: 1, limit: PRODUCT_PAGE_SIZE };
+
+  const search = firstValue(searchParams.q);
+  if (search) {
+    params.search = search;
+  }
+
+  const categoryId = firstValue(searchParams.category);
+  if (categoryId) {
+    params.categoryId = categoryId;
+  }
+
+  let minPrice = parsePositiveNumber(searchParams.min_price);
+  let maxPrice = parsePositiveNumber(searchParams.max_price);
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice];
+  }
+  if (minPrice !== undefined) {
+    params.minPrice = minPrice;
+  }
+  if (maxPrice !== undefined) {
+    params.maxPrice = maxPrice;
+  }
+
+  if (firstValue(searchParams.in_stock) === '1') {
+    params.inStock = true;
+  }
+
+  const minRating = parsePositiveNumber(searchParams.rating);
+  if (minRating !== undefined && minRating <= 5) {
+    params.minRating = minRating;
+  }
+
+  const sort = firstValue(searchParams.sort) as ProductSortOption | undefined;
+  if (sort && sort in SORT_OPTIONS) {
+    Object.assign(params, SORT_OPTIONS[sort]);
+  }
+
+  const page = parsePositiveNumber(searchParams.page);
+  if (page !== undefined) {
+    params.page = Math.floor(page);
+  }
+
+  return params;
+}
+
+// The sort option matching the params; searches default to relevance
+export function getProductSortOption(params: ProductFilters): ProductSortOption | undefined {
+  return (Object.keys(SORT_OPTIONS) as ProductSortOption[]).find(
+    option => SORT_OPTIONS[option].sortBy === params.sortBy && SORT_OPTIONS[option].sortOrder === params.sortOrder
+  );
+}
+
+/**
+ * The listing URL for the params, with `changes` applied. Changing a filter
+ * goes back to the first page; pass `page` to move between pages. Category
+ * landing pages pass their own path.
+ */
+export function buildProductListingHref(
+  params: ProductSearchParams,
+  changes: Partial<ProductSearchParams> = {},
+  pathname = '/products'
+): string {
+  const next: ProductSearchParams = { ...params, page: undefined, ...changes };
+  const query = new URLSearchParams();
+
+  if (next.search) query.set('q', next.search);
+  if (next.categoryId) query.set('category', next.categoryId);
+  if (next.minPrice) query.set('min_price', String(next.minPrice));
+  if (next.maxPrice) query.set('max_price', String(next.maxPrice));
+  if (next.inStock) query.set('in_stock', '1');
+  if (next.minRating) query.set('rating', String(next.minRating));
+
+  const sort = getProductSortOption(next);
+  if (sort) query.set('sort', sort);
+  if (next.page && next.page > 1) query.set('page', String(next.page));
+
+  const queryString = query.toString();
+  return queryString ? `${pathname}?${queryString}` : pathname;
+}
+
+// Product in the row shape the storefront's product cards take
+export function toProductCardData(product: Product) {
+  return {
+    id: product.id,
+    name: product.name,
+    description: product.description ?? null,
+    price: product.price,
+    image_url: product.imageUrl ?? null,
+    product_variants: (product.variants ?? []).map(variant => ({ price: variant.price })),
+  };
+}
+
+function inPriceRange(price: number, range: { min?: number; max?: number }): boolean {
+  return (!range.min || price >= range.min) && (!range.max || price <= range.max);
+}
+
+type FacetFilter = 'category' | 'price' | 'inStock' | 'rating';
+
+// Whether the row passes the filters, leaving out the facet being counted
+function matchesFilters(row: ProductFacetRow, filters: ProductFilters, except?: FacetFilter): boolean {
+  if (except !== 'category' && filters.categoryId && !row.categories.some(c => c.id === filters.categoryId)) {
+    return false;
+  }
+  if (except !== 'price' && !inPriceRange(row.price, { min: filters.minPrice, max: filters.maxPrice })) {
+    return false;
+  }
+  if (except !== 'inStock' && filters.inStock && row.stock <= 0) {
+    return false;
+  }
+  if (except !== 'rating' && filters.minRating && (row.averageRating ?? 0) < filters.minRating) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Counts, for every filter value, the products it would show combined with
+ * the other active filters, so picking a value never leads to an empty page
+ * the count did not warn about.
+ */
+export function computeProductFacets(rows: ProductFacetRow[], filters: ProductFilters = {}): ProductFacets {
+  const categories = new Map<string, ProductFacets['categories'][number]>();
+  rows
+    .filter(row => matchesFilters(row, filters, 'category'))
+    .forEach(row => {
+      row.categories.forEach(category => {
+        const facet = categories.get(category.id) ?? { ...category, count: 0 };
+        facet.count += 1;
+        categories.set(category.id, facet);
+      });
+    });
+
+  const priceRows = rows.filter(row => matchesFilters(row, filters, 'price'));
+  const ratingRows = rows.filter(row => matchesFilters(row, filters, 'rating'));
+
+  return {
+    categories: Array.from(categories.values()).sort((a, b) => a.name.localeCompare(b.name, 'ar')),
+    priceRanges: PRICE_RANGES.map(range => ({
+      ...range,
+      count: priceRows.filter(row => inPriceRange(row.price, range)).length,
+    })),
+    ratings: RATING_THRESHOLDS.map(minRating => ({
+      minRating,
+      count: ratingRows.filter(row => (row.averageRating ?? 0) >= minRating).length,
+    })),
+    inStock: rows.filter(row => matchesFilters(row, filters, 'inStock') && row.stock > 0).length,
+  };
+}
@@ -0,0 +1,66 @@
+// Arabic-aware search text handling. The rules match the normalize_arabic
+// database function that builds the products' search index, so a query
+// normalized here matches the stored text.
+
+// Harakat (U+064B-U+0652), superscript alef and tatweel
+const DIACRITICS = /[\u064B-\u0652\u0670\u0640]/g;
+
+const LETTER_VARIANTS: Record<string, string> = {
+  أ: 'ا',
+  إ: 'ا',
+  آ: 'ا',
+  ٱ: 'ا',
+  ة: 'ه',
+  ى: 'ي',
+  ؤ: 'و',
+  ئ: 'ي',
+};
+
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+// Whitespace and the Latin and Arabic punctuation words are split on
+const WORD_SEPARATORS = /[\s.,;:!?'"()[\]{}<>/\\|@#$%^&*+=~`_\-،؛؟«»]+/;
+
+// Definite article, alone or after و/ب/ف/ك, and لل (ل + ال); longest first
+const ARTICLE_PREFIXES = ['وال', 'بال', 'فال', 'كال', 'لل', 'ال'];
+
+// Longest query passed to the database; longer input is cut
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+// Most words a query is searched for
+const MAX_SEARCH_WORDS = 8;
+
+/**
+ * Folds spelling variants: drops diacritics and tatweel, unifies alef forms,
+ * taa marbuta, alef maqsura and hamza seats, and turns Arabic-Indic digits
+ * into Latin ones.
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(DIACRITICS, '')
+    .replace(/[أإآٱةىؤئ]/g, letter => LETTER_VARIANTS[letter])
+    .replace(ARABIC_INDIC_DIGITS, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "العسل" -> "عسل"; prefixes are kept when less than two letters would remain
+export function stripArticle(word: string): string {
+  const prefix = ARTICLE_PREFIXES.find(candidate => word.startsWith(candidate) && word.length - candidate.length >= 2);
+  return prefix ? word.slice(prefix.length) : word;
+}
+
+/**
+ * Splits a shopper's query into the normalized words that are searched for.
+ * Punctuation and search syntax are dropped, so the result is safe to send
+ * to the database as plain words.
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  const words = normalizeArabic(query.slice(0, MAX_SEARCH_QUERY_LENGTH))
+    .split(WORD_SEPARATORS)
+    .filter(Boolean)
+    .map(stripArticle);
+
+  return Array.from(new Set(words)).slice(0, MAX_SEARCH_WORDS);
+}
@@ -0,0 +1,208 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createClientServer } from '@/lib/supabase/server';
+import { CreateProductVariantData, ProductVariant, UpdateProductVariantData } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { Tables, TablesUpdate } from '@/types/supabase';
+import { mapProductVariantRow, productService } from './products.service';
+import { ProductVariantService } from './products.types';
+
+// Postgres unique_violation, raised when a SKU is already used
+const UNIQUE_VIOLATION = '23505';
+
+function validateVariantFields(data: Partial<CreateProductVariantData>): void {
+  if (data.sku !== undefined && data.sku.trim().length === 0) {
+    throw new ValidationError('SKU is required', 'REQUIRED', 'sku');
+  }
+  if (data.name !== undefined && data.name.trim().length === 0) {
+    throw new ValidationError('Variant name is required', 'REQUIRED', 'name');
+  }
+  if (data.price !== undefined && !(data.price > 0)) {
+    throw new ValidationError('Variant price must be greater than 0', 'INVALID', 'price');
+  }
+  if (data.weightGrams !== undefined && (!Number.isInteger(data.weightGrams) || data.weightGrams <= 0)) {
+    throw new ValidationError('Weight must be a whole number of grams', 'INVALID', 'weightGrams');
+  }
+  if (data.stock !== undefined && (!Number.isInteger(data.stock) || data.stock < 0)) {
+    throw new ValidationError('Stock must be a whole number of 0 or more', 'INVALID', 'stock');
+  }
+}
+
+/**
+ * Sizes a product is sold in. Stock is only set when a variant is created;
+ * after that it moves through the inventory ledger like product stock.
+ * Variants are deactivated rather than deleted so past orders keep them.
+ */
+export class ProductVariantServiceImpl implements ProductVariantService {
+  async getVariants(productId: string, includeInactive = false): Promise<ServiceResult<ProductVariant[]>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const supabase = await createClientServer('service_role');
+      let query = supabase.from('product_variants').select('*').eq('product_id', productId);
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query.order('sort_order').order('price');
+
+      if (error) {
+        logger.error('Failed to fetch product variants', error, {
+          action: 'getVariants',
+          productId,
+        });
+        throw new BusinessError('Failed to fetch product variants', 'VARIANTS_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapProductVariantRow) };
+    } catch (error) {
+      logger.error('Error in getVariants', error as Error, {
+        action: 'getVariants',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching product variants');
+    }
+  }
+
+  async createVariant(data: CreateProductVariantData): Promise<ServiceResult<ProductVariant>> {
+    try {
+      if (!data.productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+      validateVariantFields(data);
+
+      const supabase = await createClientServer('service_role');
+      const { data: row, error } = await supabase
+        .from('product_variants')
+        .insert({
+          product_id: data.productId,
+          sku: data.sku.trim(),
+          name: data.name.trim(),
+          weight_grams: data.weightGrams ?? null,
+          price: data.price,
+          stock: data.stock ?? 0,
+          sort_order: data.sortOrder ?? 0,
+        })
+        .select()
+        .single<Tables<'product_variants'>>();
+
+      if (error || !row) {
+        if (error?.code === UNIQUE_VIOLATION) {
+          throw new BusinessError('This SKU is already used by another variant', 'SKU_TAKEN', 'low', {
+            sku: data.sku,
+          });
+        }
+
+        logger.error('Failed to create product variant', error as Error, {
+          action: 'createVariant',
+          productId: data.productId,
+        });
+        throw new BusinessError('Failed to create product variant', 'VARIANT_CREATE_ERROR');
+      }
+
+      await productService.clearCache();
+
+      logger.info('Product variant created', {
+        action: 'createVariant',
+        productId: data.productId,
+        variantId: row.id,
+        sku: row.sku,
+      });
+
+      return { success: true, data: mapProductVariantRow(row) };
+    } catch (error) {
+      logger.error('Error in createVariant', error as Error, {
+        action: 'createVariant',
+        productId: data.productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while creating the variant');
+    }
+  }
+
+  async updateVariant(data: UpdateProductVariantData): Promise<ServiceResult<ProductVariant>> {
+    try {
+      if (!data.id) {
+        throw new ValidationError('Variant ID is required', 'REQUIRED', 'id');
+      }
+      validateVariantFields(data);
+
+      const updateData: TablesUpdate<'product_variants'> = {};
+      if (data.sku !== undefined) updateData.sku = data.sku.trim();
+      if (data.name !== undefined) updateData.name = data.name.trim();
+      if (data.weightGrams !== undefined) updateData.weight_grams = data.weightGrams;
+      if (data.price !== undefined) updateData.price = data.price;
+      if (data.sortOrder !== undefined) updateData.sort_order = data.sortOrder;
+
+      return await this.saveVariant(data.id, updateData, 'updateVariant');
+    } catch (error) {
+      logger.error('Error in updateVariant', error as Error, {
+        action: 'updateVariant',
+        variantId: data.id,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while updating the variant');
+    }
+  }
+
+  /**
+   * Hides a variant from the shop (its stock stops counting towards the
+   * product's) or puts it back on sale.
+   */
+  async setVariantActive(id: string, isActive: boolean): Promise<ServiceResult<ProductVariant>> {
+    try {
+      if (!id) {
+        throw new ValidationError('Variant ID is required', 'REQUIRED', 'id');
+      }
+
+      return await this.saveVariant(id, { is_active: isActive }, 'setVariantActive');
+    } catch (error) {
+      logger.error('Error in setVariantActive', error as Error, {
+        action: 'setVariantActive',
+        variantId: id,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while updating the variant');
+    }
+  }
+
+  private async saveVariant(
+    id: string,
+    updateData: TablesUpdate<'product_variants'>,
+    action: string
+  ): Promise<ServiceResult<ProductVariant>> {
+    const supabase = await createClientServer('service_role');
+    const { data: row, error } = await supabase
+      .from('product_variants')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .maybeSingle<Tables<'product_variants'>>();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new BusinessError('This SKU is already used by another variant', 'SKU_TAKEN', 'low', {
+          sku: updateData.sku,
+        });
+      }
+
+      logger.error('Failed to update product variant', error, { action, variantId: id });
+      throw new BusinessError('Failed to update product variant', 'VARIANT_UPDATE_ERROR');
+    }
+    if (!row) {
+      throw new BusinessError('Variant not found', 'VARIANT_NOT_FOUND');
+    }
+
+    await productService.clearCache();
+
+    logger.info('Product variant updated', { action, variantId: id, changes: Object.keys(updateData) });
+
+    return { success: true, data: mapProductVariantRow(row) };
+  }
+}
+
+export const productVariantService = new ProductVariantServiceImpl();
@@ -1,16 +1,133 @@
 import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
 import { logger } from '@/lib/logger';
-import { createClientServer } from '@/lib/supabase/server';
-import { Category, CreateProductData, Product, ProductFilters, ProductSearchParams, UpdateProductData } from '@/types/business';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  Category,
+  CategoryTreeNode,
+  CreateCategoryData,
+  CreateProductData,
+  ImageVariant,
+  Product,
+  ProductFilters,
+  ProductImage,
+  ProductSearchParams,
+  ProductVariant,
+  UpdateProductData,
+} from '@/types/business';
 import { PaginatedResult, ServiceResult } from '@/types/common';
-import { ProductStatus } from '@/types/enums';
+import { ProductStatus, ReviewStatus } from '@/types/enums';
 import { Tables } from '@/types/supabase';
-import { CategoryService, ProductService } from './products.types';
+import { buildCategoryTree, getCategoryPath, getDescendantIds, slugify, wouldCreateCycle } from './category-tree';
+import { computeProductFacets, ProductFacetRow } from './product-listing';
+import { tokenizeSearchQuery } from './product-search';
+import { CategoryService, ProductFacets, ProductSearchSuggestion, ProductService } from './products.types';
 
 type ProductRow = Tables<'products'>;
 type CategoryRow = Tables<'categories'>;
 type ProductImageRow = Tables<'product_images'>;
 type ReviewRow = Tables<'reviews'>;
+type ProductVariantRow = Tables<'product_variants'>;
+
+// Row returned by the search_products database function
+interface SearchMatchRow {
+  product_id: string;
+  rank: number;
+}
+
+// Most products a search returns, and suggestions the autocomplete shows
+const SEARCH_RESULT_LIMIT = 100;
+const DEFAULT_SUGGESTION_LIMIT = 8;
+const MAX_SUGGESTION_LIMIT = 20;
+
+// Product with the relations productSelect embeds
+type ProductWithRelationsRow = ProductRow & {
+  product_categories: { category_id: string; categories: CategoryRow }[];
+  product_images: ProductImageRow[];
+  product_variants: ProductVariantRow[];
+  reviews: Pick<ReviewRow, 'rating' | 'status'>[];
+};
+
+// Fields the listing's facets are counted from
+type FacetProductRow = Pick<ProductRow, 'id' | 'price' | 'stock' | 'average_rating'> & {
+  product_categories: { category_id: string }[];
+};
+
+// Most products a listing page shows
+const MAX_PAGE_SIZE = 50;
+
+// Filtering on a category needs an inner join, or it only trims the embedded
+// categories instead of the products
+function productSelect(filters?: ProductFilters): string {
+  return `
+    *,
+    product_categories${filters?.categoryId ? '!inner' : ''}(
+      category_id,
+      categories(*)
+    ),
+    product_images(*),
+    product_variants(*),
+    reviews(rating, status)
+  `;
+}
+
+// Orders search results by relevance, or by the field the shopper chose
+function sortSearchResults(products: Product[], rankById: Map<string, number>, filters?: ProductFilters): void {
+  const direction = filters?.sortOrder === 'desc' ? -1 : 1;
+
+  products.sort((a, b) => {
+    switch (filters?.sortBy) {
+      case 'price':
+        return (a.price - b.price) * direction;
+      case 'name':
+        return a.name.localeCompare(b.name, 'ar') * direction;
+      case 'created_at':
+        return (a.createdAt.getTime() - b.createdAt.getTime()) * direction;
+      case 'rating':
+        return ((a.averageRating ?? 0) - (b.averageRating ?? 0)) * direction;
+      default:
+        return (rankById.get(b.id) ?? 0) - (rankById.get(a.id) ?? 0);
+    }
+  });
+}
+
+export function mapProductVariantRow(row: ProductVariantRow): ProductVariant {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    sku: row.sku,
+    name: row.name,
+    weightGrams: row.weight_grams ?? undefined,
+    price: row.price,
+    stock: row.stock,
+    sortOrder: row.sort_order,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function mapProductImageRow(row: ProductImageRow): ProductImage {
+  return {
+    id: row.id,
+    productId: row.product_id ?? '',
+    imageUrl: row.image_url,
+    altTextAr: row.alt_text_ar || undefined,
+    altTextEn: row.alt_text_en || undefined,
+    isPrimary: row.is_primary,
+    sortOrder: row.sort_order,
+    variants: Array.isArray(row.variants) ? (row.variants as unknown as ImageVariant[]) : [],
+    blurDataUrl: row.blur_data_url || undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.created_at),
+  };
+}
+
+// Gallery order: the primary image first, then as the admin arranged them
+function compareProductImages(a: ProductImageRow, b: ProductImageRow): number {
+  return Number(b.is_primary) - Number(a.is_primary) || a.sort_order - b.sort_order;
+}
 
 export class ProductServiceImpl implements ProductService {
   private cache = new Map<string, { data: any; timestamp: number }>();
@@ -36,11 +153,16 @@ export class ProductServiceImpl implements ProductService {
   private mapProductRow(
     row: ProductRow,
     categories: Category[] = [],
-    images: any[] = [],
-    reviews: any[] = []
+    images: ProductImageRow[] = [],
+    reviews: any[] = [],
+    variants?: ProductVariantRow[]
   ): Product {
+    // Reviews waiting for moderation or rejected do not count towards the rating
+    const approvedReviews = reviews.filter(review => review.status === ReviewStatus.APPROVED);
     const averageRating =
-      reviews.length > 0 ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length : undefined;
+      approvedReviews.length > 0
+        ? approvedReviews.reduce((sum, review) => sum + review.rating, 0) / approvedReviews.length
+        : undefined;
 
     return {
       id: row.id,
@@ -48,21 +170,17 @@ export class ProductServiceImpl implements ProductService {
       description: row.description || undefined,
       price: row.price,
       stock: row.stock,
+      lowStockThreshold: row.low_stock_threshold ?? undefined,
       imageUrl: row.image_url || undefined,
       status: ProductStatus.ACTIVE, // Default status since it's not in the current schema
       categories,
-      images: images.map(img => ({
-        id: img.id,
-        productId: img.product_id,
-        imageUrl: img.image_url,
-        altText: img.alt_text,
-        isPrimary: img.is_primary || false,
-        sortOrder: img.sort_order || 0,
-        createdAt: new Date(img.created_at),
-        updatedAt: new Date(img.created_at),
-      })),
+      images: [...images].sort(compareProductImages).map(mapProductImageRow),
+      variants: variants
+        ?.filter(variant => variant.is_active)
+        .sort((a, b) => a.sort_order - b.sort_order || a.price - b.price)
+        .map(mapProductVariantRow),
       averageRating,
-      reviewCount: reviews.length,
+      reviewCount: approvedReviews.length,
       isActive: true, // Default since not in current schema
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.created_at),
@@ -73,7 +191,10 @@ export class ProductServiceImpl implements ProductService {
     return {
       id: row.id,
       name: row.name,
+      slug: row.slug,
       description: row.description || undefined,
+      parentId: row.parent_id || undefined,
+      sortOrder: row.sort_order,
       isActive: true, // Default since not in current schema
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.created_at),
@@ -96,19 +217,34 @@ export class ProductServiceImpl implements ProductService {
         return { success: true, data: cached };
       }
 
+      const page = Math.max(1, Math.floor(filters?.page || 1));
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(filters?.limit || 10)));
+      const offset = (page - 1) * limit;
+
+      // Search results are ordered by relevance, which only the search
+      // function knows, so they are paged here
+      if (filters?.search) {
+        const searchResult = await this.searchProducts(filters.search, filters);
+        if (!searchResult.success || !searchResult.data) {
+          return { success: false, error: searchResult.error };
+        }
+
+        const total = searchResult.data.length;
+        return {
+          success: true,
+          data: {
+            data: searchResult.data.slice(offset, offset + limit),
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+          },
+        };
+      }
+
       const supabase = await createClientServer();
-      let query = supabase.from('products').select(`
-          *,
-          product_categories!inner(
-            categories(*)
-          ),
-          product_images(*),
-          reviews(rating)
-        `);
+      let query = supabase.from('products').select(productSelect(filters), { count: 'exact' });
 
       // Apply filters
       if (filters?.categoryId) {
-        query = query.eq('product_categories.category_id', filters.categoryId);
+        query = query.in('product_categories.category_id', await this.resolveCategoryIds(filters.categoryId));
       }
       if (filters?.minPrice) {
         query = query.gte('price', filters.minPrice);
@@ -119,22 +255,19 @@ export class ProductServiceImpl implements ProductService {
       if (filters?.inStock) {
         query = query.gt('stock', 0);
       }
-      if (filters?.search) {
-        query = query.or(`name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+      if (filters?.minRating) {
+        query = query.gte('average_rating', filters.minRating);
       }
 
-      // Apply sorting
-      const sortBy = filters?.sortBy || 'created_at';
+      // Apply sorting; the id keeps pages stable when the sort values tie
+      const sortBy = filters?.sortBy === 'rating' ? 'average_rating' : filters?.sortBy || 'created_at';
       const sortOrder = filters?.sortOrder || 'desc';
-      query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+      query = query.order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false }).order('id');
 
       // Apply pagination
-      const page = filters?.page || 1;
-      const limit = filters?.limit || 10;
-      const offset = (page - 1) * limit;
       query = query.range(offset, offset + limit - 1);
 
-      const { data, error, count } = await query;
+      const { data, error, count } = await query.returns<ProductWithRelationsRow[]>();
 
       if (error) {
         logger.error('Failed to fetch products', error, {
@@ -147,10 +280,10 @@ export class ProductServiceImpl implements ProductService {
       const products =
         data?.map(row => {
           const categories = row.product_categories?.map((pc: any) => this.mapCategoryRow(pc.categories)) || [];
-          return this.mapProductRow(row, categories, row.product_images, row.reviews);
+          return this.mapProductRow(row, categories, row.product_images, row.reviews, row.product_variants);
         }) || [];
 
-      const total = count || products.length;
+      const total = count ?? products.length;
       const totalPages = Math.ceil(total / limit);
 
       const result: PaginatedResult<Product> = {
@@ -232,7 +365,8 @@ export class ProductServiceImpl implements ProductService {
             categories(*)
           ),
           product_images(*),
-          reviews(rating, comment, customer_id, created_at)
+          product_variants(*),
+          reviews(rating, status)
         `
         )
         .eq('id', id)
@@ -253,7 +387,7 @@ export class ProductServiceImpl implements ProductService {
 
       const categories = data.product_categories?.map((pc: any) => this.mapCategoryRow(pc.categories)) || [];
 
-      const product = this.mapProductRow(data, categories, data.product_images, data.reviews);
+      const product = this.mapProductRow(data, categories, data.product_images, data.reviews, data.product_variants);
 
       // Cache the result
       this.setCache(cacheKey, product);
@@ -293,12 +427,18 @@ export class ProductServiceImpl implements ProductService {
     }
   }
 
+  /**
+   * Full-text search over product names and descriptions, best matches
+   * first unless another sort is asked for. Spelling variants and typos are
+   * handled by the search_products database function.
+   */
   async searchProducts(query: string, filters?: ProductFilters): Promise<ServiceResult<Product[]>> {
     const startTime = Date.now();
     const cacheKey = this.getCacheKey('searchProducts', { query, filters });
 
     try {
-      if (!query || query.trim().length === 0) {
+      const words = tokenizeSearchQuery(query || '');
+      if (words.length === 0) {
         throw new ValidationError('Search query is required', 'query', 'REQUIRED');
       }
 
@@ -313,24 +453,21 @@ export class ProductServiceImpl implements ProductService {
         return { success: true, data: cached };
       }
 
+      const matches = await this.rankSearchMatches(words, SEARCH_RESULT_LIMIT);
+      if (matches.length === 0) {
+        this.setCache(cacheKey, []);
+        return { success: true, data: [] };
+      }
+
       const supabase = await createClientServer();
       let dbQuery = supabase
         .from('products')
-        .select(
-          `
-          *,
-          product_categories(
-            categories(*)
-          ),
-          product_images(*),
-          reviews(rating)
-        `
-        )
-        .or(`name.ilike.%${query}%,description.ilike.%${query}%`);
+        .select(productSelect(filters))
+        .in('id', matches.map(match => match.product_id));
 
       // Apply additional filters
       if (filters?.categoryId) {
-        dbQuery = dbQuery.eq('product_categories.category_id', filters.categoryId);
+        dbQuery = dbQuery.in('product_categories.category_id', await this.resolveCategoryIds(filters.categoryId));
       }
       if (filters?.minPrice) {
         dbQuery = dbQuery.gte('price', filters.minPrice);
@@ -341,8 +478,11 @@ export class ProductServiceImpl implements ProductService {
       if (filters?.inStock) {
         dbQuery = dbQuery.gt('stock', 0);
       }
+      if (filters?.minRating) {
+        dbQuery = dbQuery.gte('average_rating', filters.minRating);
+      }
 
-      const { data, error } = await dbQuery;
+      const { data, error } = await dbQuery.returns<ProductWithRelationsRow[]>();
 
       if (error) {
         logger.error('Failed to search products', error, {
@@ -353,11 +493,13 @@ export class ProductServiceImpl implements ProductService {
         throw new BusinessError('Failed to search products', 'PRODUCTS_SEARCH_ERROR');
       }
 
+      const rankById = new Map(matches.map(match => [match.product_id, match.rank]));
       const products =
         data?.map(row => {
           const categories = row.product_categories?.map((pc: any) => this.mapCategoryRow(pc.categories)) || [];
-          return this.mapProductRow(row, categories, row.product_images, row.reviews);
+          return this.mapProductRow(row, categories, row.product_images, row.reviews, row.product_variants);
         }) || [];
+      sortSearchResults(products, rankById, filters);
 
       // Cache the result
       this.setCache(cacheKey, products);
@@ -399,6 +541,185 @@ export class ProductServiceImpl implements ProductService {
     }
   }
 
+  /**
+   * Products whose names complete what the shopper has typed so far, for
+   * the search box's autocomplete.
+   */
+  async getSearchSuggestions(
+    query: string,
+    limit = DEFAULT_SUGGESTION_LIMIT
+  ): Promise<ServiceResult<ProductSearchSuggestion[]>> {
+    try {
+      const words = tokenizeSearchQuery(query || '');
+      if (words.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const matches = await this.rankSearchMatches(words, Math.min(Math.max(limit, 1), MAX_SUGGESTION_LIMIT));
+      if (matches.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const supabase = await createClientServer();
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, price, image_url')
+        .in('id', matches.map(match => match.product_id));
+
+      if (error) {
+        logger.error('Failed to fetch search suggestions', error, {
+          action: 'getSearchSuggestions',
+          query,
+        });
+        throw new BusinessError('Failed to search products', 'PRODUCTS_SEARCH_ERROR');
+      }
+
+      const order = matches.map(match => match.product_id);
+      const suggestions = (data || [])
+        .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id))
+        .map(row => ({
+          id: row.id,
+          name: row.name,
+          price: row.price,
+          imageUrl: row.image_url || undefined,
+        }));
+
+      return { success: true, data: suggestions };
+    } catch (error) {
+      logger.error('Error in getSearchSuggestions', error as Error, {
+        action: 'getSearchSuggestions',
+        query,
+      });
+
+      if (error instanceof BusinessError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while searching products',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  /**
+   * Counts for the listing's filters. Counted from a light row per product
+   * rather than in the database, which is fine at the catalog's size.
+   */
+  async getProductFacets(filters: ProductFilters = {}): Promise<ServiceResult<ProductFacets>> {
+    const cacheKey = this.getCacheKey('getProductFacets', filters);
+
+    try {
+      const cached = this.getFromCache<ProductFacets>(cacheKey);
+      if (cached) {
+        return { success: true, data: cached };
+      }
+
+      const supabase = await createClientServer();
+      let query = supabase
+        .from('products')
+        .select('id, price, stock, average_rating, product_categories(category_id)');
+
+      // Searches count only the products the search found
+      if (filters.search) {
+        const words = tokenizeSearchQuery(filters.search);
+        const matches = words.length > 0 ? await this.rankSearchMatches(words, SEARCH_RESULT_LIMIT) : [];
+        query = query.in('id', matches.map(match => match.product_id));
+      }
+
+      const { data, error } = await query.returns<FacetProductRow[]>();
+
+      if (error) {
+        logger.error('Failed to fetch product facets', error, {
+          action: 'getProductFacets',
+          filters,
+        });
+        throw new BusinessError('Failed to fetch products', 'PRODUCTS_FETCH_ERROR');
+      }
+
+      const categoriesResult = await categoryService.getCategories();
+      const categories = categoriesResult.success && categoriesResult.data ? categoriesResult.data : [];
+
+      // Products count towards their categories and every category above them
+      const rows: ProductFacetRow[] = (data || []).map(row => {
+        const rolledUp = new Map<string, Category>();
+        row.product_categories.forEach(pc => {
+          getCategoryPath(categories, pc.category_id).forEach(category => rolledUp.set(category.id, category));
+        });
+
+        return {
+          id: row.id,
+          price: row.price,
+          stock: row.stock,
+          averageRating: row.average_rating ?? undefined,
+          categories: Array.from(rolledUp.values()).map(({ id, name, parentId }) => ({ id, name, parentId })),
+        };
+      });
+      const facets = computeProductFacets(rows, filters);
+
+      this.setCache(cacheKey, facets);
+
+      return { success: true, data: facets };
+    } catch (error) {
+      logger.error('Error in getProductFacets', error as Error, {
+        action: 'getProductFacets',
+        filters,
+      });
+
+      if (error instanceof BusinessError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while fetching products',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // The category and its subcategories, whose products roll up into it
+  private async resolveCategoryIds(categoryId: string): Promise<string[]> {
+    const result = await categoryService.getDescendantIds(categoryId);
+    return result.success && result.data ? result.data : [categoryId];
+  }
+
+  // Ranked IDs of the products matching every word, best first
+  private async rankSearchMatches(words: string[], limit: number): Promise<SearchMatchRow[]> {
+    const supabase = await createClientServer();
+    const { data, error } = await supabase.rpc('search_products', {
+      p_query: words.join(' '),
+      p_limit: limit,
+    });
+
+    if (error) {
+      logger.error('Failed to rank search matches', error, {
+        action: 'rankSearchMatches',
+        words,
+      });
+      throw new BusinessError('Failed to search products', 'PRODUCTS_SEARCH_ERROR');
+    }
+
+    return (data as SearchMatchRow[] | null) || [];
+  }
+
   async getProductsByCategory(categoryId: string, filters?: ProductFilters): Promise<ServiceResult<Product[]>> {
     const startTime = Date.now();
     const cacheKey = this.getCacheKey('getProductsByCategory', { categoryId, filters });
@@ -429,10 +750,10 @@ export class ProductServiceImpl implements ProductService {
             categories(*)
           ),
           product_images(*),
-          reviews(rating)
+          reviews(rating, status)
         `
         )
-        .eq('product_categories.category_id', categoryId);
+        .in('product_categories.category_id', await this.resolveCategoryIds(categoryId));
 
       // Apply additional filters
       if (filters?.minPrice) {
@@ -536,7 +857,7 @@ export class ProductServiceImpl implements ProductService {
             categories(*)
           ),
           product_images(*),
-          reviews(rating)
+          reviews(rating, status)
         `
         )
         .gt('stock', 0)
@@ -636,7 +957,7 @@ export class ProductServiceImpl implements ProductService {
             categories(*)
           ),
           product_images(*),
-          reviews(rating)
+          reviews(rating, status)
         `
         )
         .in('product_categories.category_id', categoryIds)
@@ -1078,13 +1399,57 @@ export class CategoryServiceImpl implements CategoryService {
     return {
       id: row.id,
       name: row.name,
+      slug: row.slug,
       description: row.description || undefined,
+      parentId: row.parent_id || undefined,
+      sortOrder: row.sort_order,
       isActive: true, // Default since not in current schema
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.created_at),
     };
   }
 
+  // Every category in sort order, read fresh for checks before writes
+  private async fetchAllCategories(): Promise<Category[]> {
+    const supabase = await createClientServer();
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('sort_order')
+      .order('name')
+      .returns<CategoryRow[]>();
+
+    if (error) {
+      logger.error('Failed to fetch categories', error, {
+        action: 'fetchAllCategories',
+      });
+      throw new BusinessError('Failed to fetch categories', 'CATEGORIES_FETCH_ERROR');
+    }
+
+    return (data || []).map(row => this.mapCategoryRow(row));
+  }
+
+  // The slug, or the slug with a number added when another category has it
+  private uniqueSlug(categories: Category[], base: string, exceptId?: string): string {
+    const slug = slugify(base) || 'category';
+    const taken = new Set(categories.filter(category => category.id !== exceptId).map(category => category.slug));
+
+    let candidate = slug;
+    for (let suffix = 2; taken.has(candidate); suffix++) {
+      candidate = `${slug}-${suffix}`;
+    }
+    return candidate;
+  }
+
+  private assertValidParent(categories: Category[], categoryId: string | undefined, parentId: string): void {
+    if (!categories.some(category => category.id === parentId)) {
+      throw new BusinessError('Parent category not found', 'CATEGORY_NOT_FOUND', 'low', { parentId });
+    }
+    if (categoryId && wouldCreateCycle(categories, categoryId, parentId)) {
+      throw new ValidationError('A category cannot be moved under itself or its subcategories', 'INVALID', 'parentId');
+    }
+  }
+
   async getCategories(): Promise<ServiceResult<Category[]>> {
     const startTime = Date.now();
     const cacheKey = this.getCacheKey('getCategories');
@@ -1100,17 +1465,7 @@ export class CategoryServiceImpl implements CategoryService {
         return { success: true, data: cached };
       }
 
-      const supabase = await createClientServer();
-      const { data, error } = await supabase.from('categories').select('*').order('name');
-
-      if (error) {
-        logger.error('Failed to fetch categories', error, {
-          action: 'getCategories',
-        });
-        throw new BusinessError('Failed to fetch categories', 'CATEGORIES_FETCH_ERROR');
-      }
-
-      const categories = data?.map(row => this.mapCategoryRow(row)) || [];
+      const categories = await this.fetchAllCategories();
 
       // Cache the result
       this.setCache(cacheKey, categories);
@@ -1225,7 +1580,7 @@ export class CategoryServiceImpl implements CategoryService {
     }
   }
 
-  async createCategory(data: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<ServiceResult<Category>> {
+  async createCategory(data: CreateCategoryData): Promise<ServiceResult<Category>> {
     const startTime = Date.now();
 
     try {
@@ -1234,16 +1589,28 @@ export class CategoryServiceImpl implements CategoryService {
         throw new ValidationError('Category name is required', 'name', 'REQUIRED');
       }
 
+      const categories = await this.fetchAllCategories();
+      if (data.parentId) {
+        this.assertValidParent(categories, undefined, data.parentId);
+      }
+
+      // New categories go last among their siblings
+      const siblings = categories.filter(category => category.parentId === data.parentId);
+      const sortOrder = siblings.reduce((max, category) => Math.max(max, category.sortOrder), 0) + 1;
+
       const supabase = await createClientServer('service_role');
 
       const { data: categoryData, error } = await supabase
         .from('categories')
         .insert({
-          name: data.name,
+          name: data.name.trim(),
           description: data.description,
+          parent_id: data.parentId || null,
+          slug: this.uniqueSlug(categories, data.slug || data.name),
+          sort_order: sortOrder,
         })
         .select()
-        .single();
+        .single<CategoryRow>();
 
       if (error) {
         logger.error('Failed to create category', error, {
@@ -1306,12 +1673,21 @@ export class CategoryServiceImpl implements CategoryService {
         throw new ValidationError('Category name cannot be empty', 'name', 'INVALID');
       }
 
-      const supabase = await createClientServer('service_role');
-
       const updateData: any = {};
       if (data.name !== undefined) updateData.name = data.name;
       if (data.description !== undefined) updateData.description = data.description;
 
+      if (data.parentId !== undefined || data.slug !== undefined) {
+        const categories = await this.fetchAllCategories();
+        if (data.parentId) {
+          this.assertValidParent(categories, id, data.parentId);
+        }
+        if (data.parentId !== undefined) updateData.parent_id = data.parentId || null;
+        if (data.slug !== undefined) updateData.slug = this.uniqueSlug(categories, data.slug || data.name || '', id);
+      }
+
+      const supabase = await createClientServer('service_role');
+
       const { error } = await supabase.from('categories').update(updateData).eq('id', id);
 
       if (error) {
@@ -1397,6 +1773,23 @@ export class CategoryServiceImpl implements CategoryService {
         throw new BusinessError('Cannot delete category with associated products', 'CATEGORY_HAS_PRODUCTS');
       }
 
+      const { count: childCount, error: childError } = await supabase
+        .from('categories')
+        .select('id', { count: 'exact', head: true })
+        .eq('parent_id', id);
+
+      if (childError) {
+        logger.error('Failed to check subcategories', childError, {
+          action: 'deleteCategory',
+          categoryId: id,
+        });
+        throw new BusinessError('Failed to check category usage', 'CATEGORY_CHECK_ERROR');
+      }
+
+      if (childCount) {
+        throw new BusinessError('Cannot delete category with subcategories', 'CATEGORY_HAS_CHILDREN');
+      }
+
       // Delete the category
       const { error } = await supabase.from('categories').delete().eq('id', id);
 
@@ -1446,6 +1839,155 @@ export class CategoryServiceImpl implements CategoryService {
     }
   }
 
+  async getCategoryTree(): Promise<ServiceResult<CategoryTreeNode[]>> {
+    const result = await this.getCategories();
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: buildCategoryTree(result.data) };
+  }
+
+  async getCategoryBySlug(slug: string): Promise<ServiceResult<Category>> {
+    try {
+      if (!slug) {
+        throw new ValidationError('Category slug is required', 'REQUIRED', 'slug');
+      }
+
+      const result = await this.getCategories();
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      const category = result.data.find(item => item.slug === slug);
+      if (!category) {
+        throw new BusinessError('Category not found', 'CATEGORY_NOT_FOUND', 'low', { slug });
+      }
+
+      return { success: true, data: category };
+    } catch (error) {
+      logger.error('Error in getCategoryBySlug', error as Error, {
+        action: 'getCategoryBySlug',
+        slug,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while fetching the category',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
+  // The category's ancestors from the top level down, for breadcrumbs
+  async getCategoryPath(id: string): Promise<ServiceResult<Category[]>> {
+    const result = await this.getCategories();
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: getCategoryPath(result.data, id) };
+  }
+
+  // The category and all its subcategories, whose products roll up into it
+  async getDescendantIds(id: string): Promise<ServiceResult<string[]>> {
+    const result = await this.getCategories();
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: getDescendantIds(result.data, id) };
+  }
+
+  /**
+   * Moves the category under the parent (the top level when null) at the
+   * given position among its new siblings, renumbering them.
+   */
+  async moveCategory(id: string, parentId: string | null, position: number): Promise<ServiceResult<void>> {
+    try {
+      if (!id) {
+        throw new ValidationError('Category ID is required', 'REQUIRED', 'id');
+      }
+
+      const categories = await this.fetchAllCategories();
+      if (!categories.some(category => category.id === id)) {
+        throw new BusinessError('Category not found', 'CATEGORY_NOT_FOUND', 'low', { categoryId: id });
+      }
+      if (parentId) {
+        this.assertValidParent(categories, id, parentId);
+      }
+
+      const siblingIds = categories
+        .filter(category => (category.parentId ?? null) === parentId && category.id !== id)
+        .map(category => category.id);
+      siblingIds.splice(Math.min(Math.max(0, Math.floor(position)), siblingIds.length), 0, id);
+
+      const supabase = createServiceRoleClient();
+      const { error } = await supabase.rpc('reorder_categories', {
+        p_parent_id: parentId,
+        p_category_ids: siblingIds,
+      });
+
+      if (error) {
+        logger.error('Failed to move category', error, {
+          action: 'moveCategory',
+          categoryId: id,
+          parentId,
+        });
+        throw new BusinessError('Failed to move category', 'CATEGORY_UPDATE_ERROR');
+      }
+
+      // Product listings roll subcategories up into their parents
+      this.cache.clear();
+      await productService.clearCache();
+
+      logger.info('Category moved', {
+        action: 'moveCategory',
+        categoryId: id,
+        parentId,
+        position,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in moveCategory', error as Error, {
+        action: 'moveCategory',
+        categoryId: id,
+        parentId,
+      });
+
+      if (error instanceof BusinessError || error instanceof ValidationError) {
+        return {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          message: 'An unexpected error occurred while moving the category',
+          code: 'UNKNOWN_ERROR',
+        },
+      };
+    }
+  }
+
   // Cache management methods
   clearCache(): void {
     this.cache.clear();
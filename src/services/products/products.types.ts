@@ -1,8 +1,38 @@
 // Products service specific types
-import { Category, CreateProductData, Product, UpdateProductData } from '@/types/business';
+import {
+  Category,
+  CategoryTreeNode,
+  CreateCategoryData,
+  CreateProductData,
+  CreateProductVariantData,
+  Product,
+  ProductFilters,
+  ProductImage,
+  ProductVariant,
+  UpdateProductData,
+  UpdateProductImageData,
+  UpdateProductVariantData,
+  UploadProductImageData,
+} from '@/types/business';
 import { PaginatedResult, ServiceResult } from '@/types/common';
 import { BaseService, CacheableService, ProductSearchFilters, SearchableService } from '@/types/services';
 
+// Product offered by the search box while the shopper types
+export interface ProductSearchSuggestion {
+  id: string;
+  name: string;
+  price: number;
+  imageUrl?: string;
+}
+
+// Number of products each filter value would show, given the other filters
+export interface ProductFacets {
+  categories: { id: string; name: string; parentId?: string; count: number }[];
+  priceRanges: { min?: number; max?: number; count: number }[];
+  ratings: { minRating: number; count: number }[];
+  inStock: number;
+}
+
 export interface ProductService
   extends BaseService<Product, CreateProductData, UpdateProductData, ProductSearchFilters>,
     SearchableService<Product, ProductSearchFilters>,
@@ -10,6 +40,8 @@ export interface ProductService
   getProducts(filters?: ProductSearchFilters): Promise<ServiceResult<PaginatedResult<Product>>>;
   getProduct(id: string): Promise<ServiceResult<Product>>;
   searchProducts(query: string, filters?: ProductSearchFilters): Promise<ServiceResult<Product[]>>;
+  getSearchSuggestions(query: string, limit?: number): Promise<ServiceResult<ProductSearchSuggestion[]>>;
+  getProductFacets(filters?: ProductFilters): Promise<ServiceResult<ProductFacets>>;
   getProductsByCategory(categoryId: string, filters?: ProductSearchFilters): Promise<ServiceResult<Product[]>>;
   getFeaturedProducts(limit?: number): Promise<ServiceResult<Product[]>>;
   getRelatedProducts(productId: string, limit?: number): Promise<ServiceResult<Product[]>>;
@@ -17,8 +49,29 @@ export interface ProductService
 
 export interface CategoryService {
   getCategories(): Promise<ServiceResult<Category[]>>;
+  getCategoryTree(): Promise<ServiceResult<CategoryTreeNode[]>>;
   getCategory(id: string): Promise<ServiceResult<Category>>;
-  createCategory(data: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<ServiceResult<Category>>;
+  getCategoryBySlug(slug: string): Promise<ServiceResult<Category>>;
+  getCategoryPath(id: string): Promise<ServiceResult<Category[]>>;
+  getDescendantIds(id: string): Promise<ServiceResult<string[]>>;
+  createCategory(data: CreateCategoryData): Promise<ServiceResult<Category>>;
   updateCategory(id: string, data: Partial<Category>): Promise<ServiceResult<Category>>;
+  moveCategory(id: string, parentId: string | null, position: number): Promise<ServiceResult<void>>;
   deleteCategory(id: string): Promise<ServiceResult<void>>;
 }
+
+export interface ProductVariantService {
+  getVariants(productId: string, includeInactive?: boolean): Promise<ServiceResult<ProductVariant[]>>;
+  createVariant(data: CreateProductVariantData): Promise<ServiceResult<ProductVariant>>;
+  updateVariant(data: UpdateProductVariantData): Promise<ServiceResult<ProductVariant>>;
+  setVariantActive(id: string, isActive: boolean): Promise<ServiceResult<ProductVariant>>;
+}
+
+export interface ProductImageService {
+  getImages(productId: string): Promise<ServiceResult<ProductImage[]>>;
+  uploadImage(data: UploadProductImageData): Promise<ServiceResult<ProductImage>>;
+  updateImage(data: UpdateProductImageData): Promise<ServiceResult<ProductImage>>;
+  reorderImages(productId: string, imageIds: string[]): Promise<ServiceResult<void>>;
+  setPrimaryImage(productId: string, imageId: string): Promise<ServiceResult<void>>;
+  deleteImage(id: string): Promise<ServiceResult<void>>;
+}
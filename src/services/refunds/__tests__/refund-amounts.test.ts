@@ -0,0 +1,77 @@
+import { buildRefundableLines, calculateRefund, remainingRefundLines } from '../refund-amounts';
+
+describe('refund-amounts', () => {
+  const items = [
+    { id: 'item-1', productId: 'product-1', name: 'Honey', quantity: 2, unitPrice: 25 },
+    { id: 'item-2', productId: 'product-2', name: 'Pollen', quantity: 1, unitPrice: 50 },
+  ];
+
+  // Order: subtotal 100, discount 10, VAT 19% on 90 = 17.10, delivery 7, total 114.10
+  const limits = () => ({
+    lines: buildRefundableLines(items, 100, 10, []),
+    taxRate: 19,
+    shippingRemaining: 7,
+    remainingTotal: 114.1,
+  });
+
+  describe('buildRefundableLines', () => {
+    it('should spread the order discount over the lines', () => {
+      const lines = buildRefundableLines(items, 100, 10, []);
+
+      expect(lines.map(line => line.lineAmount)).toEqual([45, 45]);
+    });
+
+    it('should subtract what earlier credit notes refunded', () => {
+      const [line] = buildRefundableLines(items, 100, 10, [
+        { id: 'credit-1', orderItemId: 'item-1', quantity: 1, amount: 22.5 },
+      ]);
+
+      expect(line.remainingQuantity).toBe(1);
+      expect(line.remainingAmount).toBe(22.5);
+    });
+  });
+
+  describe('calculateRefund', () => {
+    it('should value returned units at their discounted price and add VAT', () => {
+      const refund = calculateRefund(limits(), [{ orderItemId: 'item-1', quantity: 1 }]);
+
+      expect(refund).toEqual({
+        items: [{ orderItemId: 'item-1', quantity: 1, amount: 22.5 }],
+        subtotal: 22.5,
+        taxAmount: 4.28,
+        shippingAmount: 0,
+        total: 26.78,
+      });
+    });
+
+    it('should accept a lower amount for a partial refund', () => {
+      const refund = calculateRefund(limits(), [{ orderItemId: 'item-2', quantity: 0, amount: 10 }]);
+
+      expect(refund.subtotal).toBe(10);
+      expect(refund.total).toBe(11.9);
+    });
+
+    it('should refund exactly the order total when everything is refunded', () => {
+      const current = limits();
+      const refund = calculateRefund(current, remainingRefundLines(current.lines), current.shippingRemaining);
+
+      expect(refund.total).toBe(114.1);
+    });
+
+    it('should reject more units than are left to return', () => {
+      expect(() => calculateRefund(limits(), [{ orderItemId: 'item-2', quantity: 2 }])).toThrow(
+        'Cannot return more than 1 of Pollen'
+      );
+    });
+
+    it('should reject an amount above what is left on the line', () => {
+      expect(() => calculateRefund(limits(), [{ orderItemId: 'item-2', quantity: 1, amount: 60 }])).toThrow(
+        'Refund for Pollen cannot exceed 45.00'
+      );
+    });
+
+    it('should reject an empty refund', () => {
+      expect(() => calculateRefund(limits(), [])).toThrow('Nothing to refund');
+    });
+  });
+});
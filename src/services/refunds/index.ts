@@ -0,0 +1,4 @@
+// Refunds service exports
+export * from './refund-amounts';
+export * from './refund.service';
+export * from './refund.types';
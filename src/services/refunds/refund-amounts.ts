@@ -0,0 +1,142 @@
+import { ValidationError } from '@/lib/errors/custom-errors';
+import { roundAmount } from '../orders/order-totals';
+import { CreditNoteItem, RefundCalculation, RefundLineInput, RefundableLine } from './refund.types';
+
+// Differences up to a cent are rounding, not an attempt to refund too much
+const AMOUNT_TOLERANCE = 0.01;
+
+export interface RefundableOrderItem {
+  id: string;
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface RefundLimits {
+  lines: RefundableLine[];
+  taxRate: number;
+  shippingRemaining: number;
+  remainingTotal: number;
+}
+
+/**
+ * Spreads the order discount over the lines in proportion to their value, so
+ * refunding every line gives back what was charged for it before VAT.
+ */
+export function buildRefundableLines(
+  items: RefundableOrderItem[],
+  subtotal: number,
+  discountAmount: number,
+  credited: CreditNoteItem[]
+): RefundableLine[] {
+  const discountRatio = subtotal > 0 ? Math.min(Math.max(discountAmount, 0) / subtotal, 1) : 0;
+
+  return items.map(item => {
+    const previous = credited.filter(entry => entry.orderItemId === item.id);
+    const refundedQuantity = previous.reduce((sum, entry) => sum + entry.quantity, 0);
+    const refundedAmount = roundAmount(previous.reduce((sum, entry) => sum + entry.amount, 0));
+    const lineAmount = roundAmount(item.unitPrice * item.quantity * (1 - discountRatio));
+
+    return {
+      orderItemId: item.id,
+      productId: item.productId,
+      name: item.name,
+      orderedQuantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineAmount,
+      refundedQuantity,
+      refundedAmount,
+      remainingQuantity: Math.max(item.quantity - refundedQuantity, 0),
+      remainingAmount: Math.max(roundAmount(lineAmount - refundedAmount), 0),
+    };
+  });
+}
+
+// Everything still refundable, used when an invoiced order is cancelled
+export function remainingRefundLines(lines: RefundableLine[]): RefundLineInput[] {
+  return lines
+    .filter(line => line.remainingQuantity > 0 || line.remainingAmount > 0)
+    .map(line => ({ orderItemId: line.orderItemId, quantity: line.remainingQuantity, amount: line.remainingAmount }));
+}
+
+/**
+ * Turns the requested lines into credit note amounts. A line amount defaults
+ * to the value of the returned units and may be lowered for a partial
+ * refund. VAT is charged back at the order's rate; delivery is not taxed,
+ * as on the order.
+ */
+export function calculateRefund(
+  limits: RefundLimits,
+  input: RefundLineInput[],
+  shippingAmount = 0
+): RefundCalculation {
+  const items = input
+    .filter(entry => entry.quantity > 0 || (entry.amount ?? 0) > 0)
+    .map(entry => {
+      const line = limits.lines.find(candidate => candidate.orderItemId === entry.orderItemId);
+      if (!line) {
+        throw new ValidationError('Order item does not belong to this order', 'REFUND_INVALID_LINE', 'lines');
+      }
+
+      if (!Number.isInteger(entry.quantity) || entry.quantity < 0 || entry.quantity > line.remainingQuantity) {
+        throw new ValidationError(
+          `Cannot return more than ${line.remainingQuantity} of ${line.name}`,
+          'REFUND_QUANTITY_EXCEEDED',
+          'quantity'
+        );
+      }
+
+      const unitAmount = line.orderedQuantity > 0 ? line.lineAmount / line.orderedQuantity : 0;
+      const defaultAmount =
+        entry.quantity === line.remainingQuantity
+          ? line.remainingAmount
+          : Math.min(roundAmount(unitAmount * entry.quantity), line.remainingAmount);
+      const amount = roundAmount(entry.amount ?? defaultAmount);
+
+      if (amount < 0 || amount > line.remainingAmount + AMOUNT_TOLERANCE) {
+        throw new ValidationError(
+          `Refund for ${line.name} cannot exceed ${line.remainingAmount.toFixed(2)}`,
+          'REFUND_AMOUNT_EXCEEDED',
+          'amount'
+        );
+      }
+
+      return {
+        orderItemId: line.orderItemId,
+        quantity: entry.quantity,
+        amount: Math.min(amount, line.remainingAmount),
+      };
+    });
+
+  const shipping = roundAmount(Math.max(shippingAmount, 0));
+  if (shipping > limits.shippingRemaining + AMOUNT_TOLERANCE) {
+    throw new ValidationError(
+      `Delivery refund cannot exceed ${limits.shippingRemaining.toFixed(2)}`,
+      'REFUND_SHIPPING_EXCEEDED',
+      'shippingAmount'
+    );
+  }
+
+  const subtotal = roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+  let taxAmount = roundAmount((subtotal * Math.max(limits.taxRate, 0)) / 100);
+  let total = roundAmount(subtotal + taxAmount + shipping);
+
+  if (total <= 0) {
+    throw new ValidationError('Nothing to refund', 'REFUND_EMPTY', 'lines');
+  }
+  if (total > limits.remainingTotal + AMOUNT_TOLERANCE) {
+    throw new ValidationError(
+      `Refund cannot exceed the ${limits.remainingTotal.toFixed(2)} left on the order`,
+      'REFUND_EXCEEDS_ORDER_TOTAL',
+      'lines'
+    );
+  }
+  // Per-line rounding can leave the final refund a cent over what was paid
+  if (total > limits.remainingTotal) {
+    taxAmount = roundAmount(Math.max(taxAmount - (total - limits.remainingTotal), 0));
+    total = limits.remainingTotal;
+  }
+
+  return { items, subtotal, taxAmount, shippingAmount: shipping, total };
+}
@@ -0,0 +1,269 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { ServiceResult } from '@/types/common';
+import { OrderStatus } from '@/types/enums';
+import { invoiceService } from '../invoices/invoice.service';
+import { fromOrderStatusDbValue } from '../orders/order-status';
+import { orderTotalsFromRow, roundAmount } from '../orders/order-totals';
+import { buildRefundableLines, calculateRefund, remainingRefundLines } from './refund-amounts';
+import { CreateRefundData, CreditNote, RefundService, RefundSummary } from './refund.types';
+
+// Errors raised by the issue_credit_note database function
+const CREDIT_NOTE_ERRORS: Record<string, string> = {
+  CREDIT_NOTE_ORDER_NOT_FOUND: 'Order not found',
+  CREDIT_NOTE_EMPTY: 'Nothing to refund',
+  CREDIT_NOTE_EXCEEDS_ORDER_TOTAL: 'Refund exceeds the amount left on the order',
+  CREDIT_NOTE_QUANTITY_EXCEEDED: 'Cannot return more units than were ordered',
+};
+
+export function mapCreditNoteRow(row: any): CreditNote {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    invoiceId: row.invoice_id || undefined,
+    creditNoteNumber: row.credit_note_number,
+    subtotal: Number(row.subtotal),
+    taxRate: Number(row.tax_rate),
+    taxAmount: Number(row.tax_amount),
+    shippingAmount: Number(row.shipping_amount),
+    totalAmount: Number(row.total_amount),
+    reason: row.reason || undefined,
+    restocked: row.restocked,
+    issuedBy: row.issued_by || undefined,
+    issuedByEmail: row.issued_by_email || undefined,
+    issuedAt: new Date(row.issued_at),
+    items: (row.credit_note_items || []).map((item: any) => ({
+      id: item.id,
+      orderItemId: item.order_item_id,
+      productId: item.product_id || undefined,
+      quantity: item.quantity,
+      amount: Number(item.amount),
+    })),
+  };
+}
+
+export class RefundServiceImpl implements RefundService {
+  /**
+   * What has been refunded on an order so far and what is left, per line.
+   * Backs the refund form and the credit note list on the order pages.
+   */
+  async getRefundSummary(orderId: string): Promise<ServiceResult<RefundSummary>> {
+    try {
+      if (!orderId) {
+        throw new ValidationError('Order ID is required', 'REQUIRED', 'orderId');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const [{ data: order, error: orderError }, { data: creditNoteRows, error: creditNotesError }, { data: invoice }] =
+        await Promise.all([
+          supabase
+            .from('orders')
+            .select(
+              `
+              *,
+              order_items (
+                *,
+                products (name)
+              )
+            `
+            )
+            .eq('id', orderId)
+            .maybeSingle(),
+          supabase
+            .from('credit_notes')
+            .select('*, credit_note_items (*)')
+            .eq('order_id', orderId)
+            .order('issued_at', { ascending: true }),
+          supabase.from('invoices').select('invoice_number').eq('order_id', orderId).maybeSingle(),
+        ]);
+
+      if (orderError || creditNotesError) {
+        logger.error('Failed to fetch order for refund', (orderError || creditNotesError) as Error, {
+          action: 'getRefundSummary',
+          orderId,
+        });
+        throw new BusinessError('Failed to fetch order', 'ORDER_FETCH_ERROR');
+      }
+      if (!order) {
+        throw new BusinessError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const totals = orderTotalsFromRow(order);
+      const creditNotes = (creditNoteRows || []).map(mapCreditNoteRow);
+      const totalRefunded = roundAmount(creditNotes.reduce((sum, note) => sum + note.totalAmount, 0));
+      const shippingRefunded = roundAmount(creditNotes.reduce((sum, note) => sum + note.shippingAmount, 0));
+
+      const lines = buildRefundableLines(
+        (order.order_items || []).map((item: any) => ({
+          id: item.id,
+          productId: item.product_id,
+          name: item.variant_name
+            ? `${item.products?.name || 'منتج غير محدد'} (${item.variant_name})`
+            : item.products?.name || 'منتج غير محدد',
+          quantity: item.quantity,
+          unitPrice: Number(item.price),
+        })),
+        totals.subtotal,
+        totals.discountAmount,
+        creditNotes.flatMap(note => note.items)
+      );
+
+      return {
+        success: true,
+        data: {
+          orderId,
+          status: fromOrderStatusDbValue(order.status),
+          invoiceNumber: invoice?.invoice_number || undefined,
+          taxRate: totals.taxRate,
+          lines,
+          shippingRemaining: Math.max(roundAmount(totals.shippingAmount - shippingRefunded), 0),
+          totalAmount: totals.total,
+          totalRefunded,
+          remainingTotal: Math.max(roundAmount(totals.total - totalRefunded), 0),
+          creditNotes,
+        },
+      };
+    } catch (error) {
+      logger.error('Error in getRefundSummary', error as Error, {
+        action: 'getRefundSummary',
+        orderId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while loading refunds');
+    }
+  }
+
+  /**
+   * Refunds part or all of an order and issues the matching credit note.
+   * Confirmed orders are invoiced first if nobody has downloaded the invoice
+   * yet, so the credit note always points at the invoice it corrects.
+   */
+  async createRefund(data: CreateRefundData): Promise<ServiceResult<CreditNote>> {
+    const startTime = Date.now();
+
+    try {
+      const summaryResult = await this.getRefundSummary(data.orderId);
+      if (!summaryResult.success || !summaryResult.data) {
+        throw new BusinessError(
+          summaryResult.error?.message || 'Order not found',
+          summaryResult.error?.code || 'ORDER_NOT_FOUND'
+        );
+      }
+
+      const summary = summaryResult.data;
+      if (data.restock && summary.status === OrderStatus.CANCELLED) {
+        throw new ValidationError(
+          'Stock was already restored when the order was cancelled',
+          'REFUND_RESTOCK_CANCELLED',
+          'restock'
+        );
+      }
+
+      const calculation = calculateRefund(
+        summary,
+        data.lines ?? remainingRefundLines(summary.lines),
+        data.lines ? data.shippingAmount : summary.shippingRemaining
+      );
+
+      const invoiceable = ![OrderStatus.PENDING, OrderStatus.AWAITING_PAYMENT, OrderStatus.CANCELLED].includes(
+        summary.status
+      );
+      if (!summary.invoiceNumber && invoiceable) {
+        const issued = await invoiceService.issueInvoice(data.orderId, data.refundedBy);
+        if (!issued.success) {
+          throw new BusinessError(
+            issued.error?.message || 'Failed to issue invoice',
+            issued.error?.code || 'INVOICE_ISSUE_ERROR'
+          );
+        }
+      }
+
+      const supabase = createServiceRoleClient();
+      const { data: row, error } = await supabase.rpc('issue_credit_note', {
+        p_order_id: data.orderId,
+        p_items: calculation.items.map(item => ({
+          order_item_id: item.orderItemId,
+          quantity: item.quantity,
+          amount: item.amount,
+        })),
+        p_subtotal: calculation.subtotal,
+        p_tax_amount: calculation.taxAmount,
+        p_shipping_amount: calculation.shippingAmount,
+        p_total_amount: calculation.total,
+        p_reason: data.reason?.trim() || null,
+        p_restock: !!data.restock,
+        p_issued_by: data.refundedBy ?? null,
+        p_issued_by_email: data.refundedByEmail ?? null,
+      });
+
+      if (error) {
+        const errorCode = Object.keys(CREDIT_NOTE_ERRORS).find(key => error.message?.includes(key));
+        if (errorCode) {
+          throw new BusinessError(CREDIT_NOTE_ERRORS[errorCode], errorCode, 'low', { orderId: data.orderId });
+        }
+
+        logger.error('Failed to issue credit note', error, {
+          action: 'createRefund',
+          orderId: data.orderId,
+        });
+        throw new BusinessError('Failed to issue credit note', 'CREDIT_NOTE_ISSUE_ERROR');
+      }
+
+      const creditNote = mapCreditNoteRow({
+        ...(Array.isArray(row) ? row[0] : row),
+        credit_note_items: calculation.items.map(item => ({
+          order_item_id: item.orderItemId,
+          product_id: summary.lines.find(line => line.orderItemId === item.orderItemId)?.productId,
+          quantity: item.quantity,
+          amount: item.amount,
+        })),
+      });
+
+      logger.info('Refund recorded', {
+        action: 'createRefund',
+        orderId: data.orderId,
+        creditNoteNumber: creditNote.creditNoteNumber,
+        totalAmount: creditNote.totalAmount,
+        restocked: creditNote.restocked,
+        duration: Date.now() - startTime,
+      });
+
+      return { success: true, data: creditNote };
+    } catch (error) {
+      logger.error('Error in createRefund', error as Error, {
+        action: 'createRefund',
+        orderId: data.orderId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while recording the refund');
+    }
+  }
+
+  /**
+   * Credits whatever is left on a cancelled order that was already invoiced,
+   * so the invoice register balances. Orders cancelled before an invoice was
+   * issued need no credit note.
+   */
+  async creditCancelledOrder(
+    orderId: string,
+    cancelledBy?: Pick<CreateRefundData, 'refundedBy' | 'refundedByEmail'>
+  ): Promise<ServiceResult<CreditNote | undefined>> {
+    const summaryResult = await this.getRefundSummary(orderId);
+    if (!summaryResult.success || !summaryResult.data) {
+      return { success: false, error: summaryResult.error };
+    }
+    if (!summaryResult.data.invoiceNumber || summaryResult.data.remainingTotal <= 0) {
+      return { success: true };
+    }
+
+    return this.createRefund({
+      orderId,
+      reason: 'Order cancelled',
+      ...cancelledBy,
+    });
+  }
+}
+
+export const refundService = new RefundServiceImpl();
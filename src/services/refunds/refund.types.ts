@@ -0,0 +1,95 @@
+// Refund service specific types
+import { ServiceResult } from '@/types/common';
+import { OrderStatus } from '@/types/enums';
+
+export interface CreditNoteItem {
+  id: string;
+  orderItemId: string;
+  productId?: string;
+  quantity: number;
+  // Amount before VAT, after the order discount
+  amount: number;
+}
+
+export interface CreditNote {
+  id: string;
+  orderId: string;
+  invoiceId?: string;
+  creditNoteNumber: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  shippingAmount: number;
+  totalAmount: number;
+  reason?: string;
+  restocked: boolean;
+  issuedBy?: string;
+  issuedByEmail?: string;
+  issuedAt: Date;
+  items: CreditNoteItem[];
+}
+
+// What is left to refund on one order line
+export interface RefundableLine {
+  orderItemId: string;
+  productId: string;
+  name: string;
+  orderedQuantity: number;
+  unitPrice: number;
+  // Full line value before VAT, with the order discount spread over the lines
+  lineAmount: number;
+  refundedQuantity: number;
+  refundedAmount: number;
+  remainingQuantity: number;
+  remainingAmount: number;
+}
+
+export interface RefundSummary {
+  orderId: string;
+  status: OrderStatus;
+  invoiceNumber?: string;
+  taxRate: number;
+  lines: RefundableLine[];
+  shippingRemaining: number;
+  totalAmount: number;
+  totalRefunded: number;
+  remainingTotal: number;
+  creditNotes: CreditNote[];
+}
+
+export interface RefundLineInput {
+  orderItemId: string;
+  // Units returned; 0 for a price adjustment without a return
+  quantity: number;
+  // Defaults to the value of the returned units
+  amount?: number;
+}
+
+export interface CreateRefundData {
+  orderId: string;
+  // Omitted lines refund everything still refundable, delivery included
+  lines?: RefundLineInput[];
+  shippingAmount?: number;
+  restock?: boolean;
+  reason?: string;
+  refundedBy?: string;
+  refundedByEmail?: string;
+}
+
+// Amounts sent to the database for one credit note
+export interface RefundCalculation {
+  items: { orderItemId: string; quantity: number; amount: number }[];
+  subtotal: number;
+  taxAmount: number;
+  shippingAmount: number;
+  total: number;
+}
+
+export interface RefundService {
+  getRefundSummary(orderId: string): Promise<ServiceResult<RefundSummary>>;
+  createRefund(data: CreateRefundData): Promise<ServiceResult<CreditNote>>;
+  creditCancelledOrder(
+    orderId: string,
+    cancelledBy?: Pick<CreateRefundData, 'refundedBy' | 'refundedByEmail'>
+  ): Promise<ServiceResult<CreditNote | undefined>>;
+}
@@ -0,0 +1,58 @@
+import { ReviewStatus } from '@/types/enums';
+import { FakeQuery, FakeResponse, FakeSupabaseClient, signedInClient } from '@/test-utils/fake-supabase';
+import { reviewService } from '../reviews.service';
+
+// The customer's session may read reviews but not write them
+const mockSessionClient = signedInClient({
+  query: () => ({ error: { message: 'new row violates row-level security policy for table "reviews"' } }),
+});
+const mockServiceClient = new FakeSupabaseClient({ query: query => mockDatabase(query) });
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClientServer: async (mode?: string) => (mode === 'service_role' ? mockServiceClient : mockSessionClient),
+  createServiceRoleClient: () => mockServiceClient,
+}));
+jest.mock('@/services/products', () => ({ productService: {} }));
+
+function mockDatabase(query: FakeQuery): FakeResponse {
+  if (query.table === 'order_items') {
+    // Orders store their status as the label the admin screens show
+    const delivered =
+      query.filters['orders.customer_id'] === 'customer-1' && query.filters['orders.status'] === 'Delivered';
+    return { data: delivered ? [{ id: 'item-1', orders: { id: 'order-1' } }] : [] };
+  }
+  if (query.table === 'reviews' && query.action === 'insert') {
+    return {
+      data: {
+        id: 'review-1',
+        ...(query.values as object),
+        moderated_by: null,
+        moderated_by_email: null,
+        moderated_at: null,
+        created_at: '2026-10-19T09:00:00.000Z',
+        updated_at: '2026-10-19T09:00:00.000Z',
+        customers: { first_name: 'أميرة', last_name: 'بن صالح' },
+        products: { name: 'عسل السدر' },
+      },
+    };
+  }
+  return { data: null };
+}
+
+describe('reviewService', () => {
+  it('should mark a review verified when the customer has a delivered order of the product', async () => {
+    const result = await reviewService.submitReview('customer-1', { productId: 'product-1', rating: 5 });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.isVerified).toBe(true);
+    expect(result.data?.status).toBe(ReviewStatus.PENDING);
+  });
+
+  it('should not verify a review without a delivered order', async () => {
+    const result = await reviewService.submitReview('customer-2', { productId: 'product-1', rating: 4 });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.isVerified).toBe(false);
+    expect(mockSessionClient.queriesOf('reviews', 'insert')).toEqual([]);
+  });
+});
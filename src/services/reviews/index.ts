@@ -0,0 +1,3 @@
+// Review service exports
+export * from './reviews.service';
+export * from './reviews.types';
@@ -0,0 +1,367 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { productService } from '@/services/products';
+import { CreateReviewData, Review } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { OrderStatus, ReviewStatus } from '@/types/enums';
+import { Tables } from '@/types/supabase';
+import { toOrderStatusDbValue } from '../orders/order-status';
+import { ModerateReviewData, ProductReviews, ReviewListParams, ReviewService } from './reviews.types';
+
+type ReviewWithNamesRow = Tables<'reviews'> & {
+  customers?: { first_name: string; last_name: string } | null;
+  products?: { name: string } | null;
+};
+
+const REVIEW_SELECT = '*, customers (first_name, last_name), products (name)';
+
+// Postgres unique_violation and foreign_key_violation
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+// Shoppers see the first name and the initial of the last name
+function formatCustomerName(customer: ReviewWithNamesRow['customers']): string | undefined {
+  if (!customer) {
+    return undefined;
+  }
+
+  const initial = customer.last_name?.trim().charAt(0);
+  return initial ? `${customer.first_name} ${initial}.` : customer.first_name;
+}
+
+export function mapReviewRow(row: ReviewWithNamesRow): Review {
+  return {
+    id: row.id,
+    productId: row.product_id || '',
+    customerId: row.customer_id || '',
+    rating: row.rating,
+    title: row.title || undefined,
+    comment: row.comment || undefined,
+    isVerified: row.is_verified,
+    status: row.status as ReviewStatus,
+    customerName: formatCustomerName(row.customers),
+    productName: row.products?.name,
+    moderatedBy: row.moderated_by || undefined,
+    moderatedByEmail: row.moderated_by_email || undefined,
+    moderatedAt: row.moderated_at ? new Date(row.moderated_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function validateReview(data: CreateReviewData): void {
+  if (!data.productId) {
+    throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+  }
+  if (!Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+    throw new ValidationError('Rating must be a whole number from 1 to 5', 'INVALID', 'rating');
+  }
+  if (data.title && data.title.trim().length > 100) {
+    throw new ValidationError('Title cannot exceed 100 characters', 'INVALID', 'title');
+  }
+  if (data.comment && data.comment.trim().length > 1000) {
+    throw new ValidationError('Comment cannot exceed 1000 characters', 'INVALID', 'comment');
+  }
+}
+
+/**
+ * Customer reviews. A customer reviews a product once; new reviews are held
+ * until an admin approves them, and only approved reviews are shown or count
+ * towards the product's rating.
+ */
+export class ReviewServiceImpl implements ReviewService {
+  async submitReview(customerId: string, data: CreateReviewData): Promise<ServiceResult<Review>> {
+    try {
+      if (!customerId) {
+        throw new ValidationError('Customer ID is required', 'REQUIRED', 'customerId');
+      }
+      validateReview(data);
+
+      // Customers can only read reviews, so the review is written with the service role;
+      // callers pass the signed-in customer's own id
+      const supabase = createServiceRoleClient();
+      const isVerified = await this.hasDeliveredOrder(customerId, data.productId);
+
+      const { data: row, error } = await supabase
+        .from('reviews')
+        .insert({
+          customer_id: customerId,
+          product_id: data.productId,
+          rating: data.rating,
+          title: data.title?.trim() || null,
+          comment: data.comment?.trim() || null,
+          is_verified: isVerified,
+          status: ReviewStatus.PENDING,
+        })
+        .select(REVIEW_SELECT)
+        .single<ReviewWithNamesRow>();
+
+      if (error || !row) {
+        if (error?.code === UNIQUE_VIOLATION) {
+          throw new BusinessError('You have already reviewed this product', 'REVIEW_EXISTS', 'low', {
+            productId: data.productId,
+          });
+        }
+        if (error?.code === FOREIGN_KEY_VIOLATION) {
+          throw new BusinessError('Product not found', 'PRODUCT_NOT_FOUND', 'low', { productId: data.productId });
+        }
+
+        logger.error('Failed to submit review', error as Error, {
+          action: 'submitReview',
+          customerId,
+          productId: data.productId,
+        });
+        throw new BusinessError('Failed to submit review', 'REVIEW_CREATE_ERROR');
+      }
+
+      logger.info('Review submitted for moderation', {
+        action: 'submitReview',
+        reviewId: row.id,
+        productId: data.productId,
+        isVerified,
+      });
+
+      return { success: true, data: mapReviewRow(row) };
+    } catch (error) {
+      logger.error('Error in submitReview', error as Error, {
+        action: 'submitReview',
+        customerId,
+        productId: data.productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while submitting the review');
+    }
+  }
+
+  async getProductReviews(productId: string, params: ReviewListParams = {}): Promise<ServiceResult<ProductReviews>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const page = Math.max(1, Math.floor(params.page ?? 1));
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(params.limit ?? DEFAULT_PAGE_SIZE)));
+
+      const supabase = await createClientServer('service_role');
+      let query = supabase
+        .from('reviews')
+        .select(REVIEW_SELECT, { count: 'exact' })
+        .eq('product_id', productId)
+        .eq('status', ReviewStatus.APPROVED);
+
+      switch (params.sortBy) {
+        case 'highest':
+          query = query.order('rating', { ascending: false });
+          break;
+        case 'lowest':
+          query = query.order('rating', { ascending: true });
+          break;
+        case 'verified':
+          query = query.order('is_verified', { ascending: false });
+          break;
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range((page - 1) * limit, page * limit - 1)
+        .returns<ReviewWithNamesRow[]>();
+
+      // All approved ratings, for the average and the breakdown by star
+      const { data: ratings, error: ratingsError } = await supabase
+        .from('reviews')
+        .select('rating')
+        .eq('product_id', productId)
+        .eq('status', ReviewStatus.APPROVED);
+
+      if (error || ratingsError) {
+        logger.error('Failed to fetch product reviews', (error || ratingsError) as Error, {
+          action: 'getProductReviews',
+          productId,
+        });
+        throw new BusinessError('Failed to fetch reviews', 'REVIEWS_FETCH_ERROR');
+      }
+
+      const ratingCounts: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      (ratings || []).forEach(({ rating }) => {
+        ratingCounts[rating] = (ratingCounts[rating] ?? 0) + 1;
+      });
+      const ratingTotal = (ratings || []).reduce((sum, { rating }) => sum + rating, 0);
+      const total = count ?? 0;
+
+      return {
+        success: true,
+        data: {
+          data: (data || []).map(mapReviewRow),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+          averageRating: ratings && ratings.length > 0 ? ratingTotal / ratings.length : undefined,
+          ratingCounts,
+        },
+      };
+    } catch (error) {
+      logger.error('Error in getProductReviews', error as Error, {
+        action: 'getProductReviews',
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching reviews');
+    }
+  }
+
+  /**
+   * The customer's own review of a product whatever its status, so the
+   * product page can tell them it is waiting for approval.
+   */
+  async getCustomerReview(customerId: string, productId: string): Promise<ServiceResult<Review | null>> {
+    try {
+      const supabase = await createClientServer('service_role');
+      const { data, error } = await supabase
+        .from('reviews')
+        .select(REVIEW_SELECT)
+        .eq('customer_id', customerId)
+        .eq('product_id', productId)
+        .maybeSingle<ReviewWithNamesRow>();
+
+      if (error) {
+        logger.error('Failed to fetch customer review', error, {
+          action: 'getCustomerReview',
+          customerId,
+          productId,
+        });
+        throw new BusinessError('Failed to fetch review', 'REVIEWS_FETCH_ERROR');
+      }
+
+      return { success: true, data: data ? mapReviewRow(data) : null };
+    } catch (error) {
+      logger.error('Error in getCustomerReview', error as Error, {
+        action: 'getCustomerReview',
+        customerId,
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching the review');
+    }
+  }
+
+  /**
+   * Reviews with the given status, oldest first so the queue is worked in
+   * the order reviews came in.
+   */
+  async getModerationQueue(status = ReviewStatus.PENDING): Promise<ServiceResult<Review[]>> {
+    try {
+      const supabase = await createClientServer('service_role');
+      const { data, error } = await supabase
+        .from('reviews')
+        .select(REVIEW_SELECT)
+        .eq('status', status)
+        .order('created_at', { ascending: status === ReviewStatus.PENDING })
+        .limit(100)
+        .returns<ReviewWithNamesRow[]>();
+
+      if (error) {
+        logger.error('Failed to fetch moderation queue', error, {
+          action: 'getModerationQueue',
+          status,
+        });
+        throw new BusinessError('Failed to fetch reviews', 'REVIEWS_FETCH_ERROR');
+      }
+
+      return { success: true, data: (data || []).map(mapReviewRow) };
+    } catch (error) {
+      logger.error('Error in getModerationQueue', error as Error, {
+        action: 'getModerationQueue',
+        status,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching reviews');
+    }
+  }
+
+  async moderateReview(data: ModerateReviewData): Promise<ServiceResult<Review>> {
+    try {
+      if (!data.reviewId) {
+        throw new ValidationError('Review ID is required', 'REQUIRED', 'reviewId');
+      }
+      if (data.status !== ReviewStatus.APPROVED && data.status !== ReviewStatus.REJECTED) {
+        throw new ValidationError('A review can only be approved or rejected', 'INVALID', 'status');
+      }
+
+      const supabase = await createClientServer('service_role');
+      const { data: row, error } = await supabase
+        .from('reviews')
+        .update({
+          status: data.status,
+          moderated_by: data.moderatedBy ?? null,
+          moderated_by_email: data.moderatedByEmail ?? null,
+          moderated_at: new Date().toISOString(),
+        })
+        .eq('id', data.reviewId)
+        .select(REVIEW_SELECT)
+        .maybeSingle<ReviewWithNamesRow>();
+
+      if (error) {
+        logger.error('Failed to moderate review', error, {
+          action: 'moderateReview',
+          reviewId: data.reviewId,
+        });
+        throw new BusinessError('Failed to moderate review', 'REVIEW_UPDATE_ERROR');
+      }
+      if (!row) {
+        throw new BusinessError('Review not found', 'REVIEW_NOT_FOUND', 'low', { reviewId: data.reviewId });
+      }
+
+      // The product's average rating changes with the reviews it shows
+      await productService.clearCache();
+
+      logger.info('Review moderated', {
+        action: 'moderateReview',
+        reviewId: data.reviewId,
+        status: data.status,
+        moderatedBy: data.moderatedBy,
+      });
+
+      return { success: true, data: mapReviewRow(row) };
+    } catch (error) {
+      logger.error('Error in moderateReview', error as Error, {
+        action: 'moderateReview',
+        reviewId: data.reviewId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while moderating the review');
+    }
+  }
+
+  private async hasDeliveredOrder(customerId: string, productId: string): Promise<boolean> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('order_items')
+      .select('id, orders!inner (id)')
+      .eq('product_id', productId)
+      .eq('orders.customer_id', customerId)
+      .eq('orders.status', toOrderStatusDbValue(OrderStatus.DELIVERED))
+      .limit(1);
+
+    if (error) {
+      logger.warn('Failed to check verified purchase', {
+        action: 'hasDeliveredOrder',
+        customerId,
+        productId,
+        error: error.message,
+      });
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+export const reviewService = new ReviewServiceImpl();
@@ -0,0 +1,34 @@
+// Review service specific types
+import { CreateReviewData, Review } from '@/types/business';
+import { PaginatedResult, ServiceResult } from '@/types/common';
+import { ReviewStatus } from '@/types/enums';
+
+export type ReviewSortOption = 'newest' | 'highest' | 'lowest' | 'verified';
+
+export interface ReviewListParams {
+  sortBy?: ReviewSortOption;
+  page?: number;
+  limit?: number;
+}
+
+// Approved reviews of a product with the rating they add up to
+export interface ProductReviews extends PaginatedResult<Review> {
+  averageRating?: number;
+  // Number of approved reviews per star, 1 to 5
+  ratingCounts: Record<number, number>;
+}
+
+export interface ModerateReviewData {
+  reviewId: string;
+  status: ReviewStatus.APPROVED | ReviewStatus.REJECTED;
+  moderatedBy?: string;
+  moderatedByEmail?: string;
+}
+
+export interface ReviewService {
+  submitReview(customerId: string, data: CreateReviewData): Promise<ServiceResult<Review>>;
+  getProductReviews(productId: string, params?: ReviewListParams): Promise<ServiceResult<ProductReviews>>;
+  getCustomerReview(customerId: string, productId: string): Promise<ServiceResult<Review | null>>;
+  getModerationQueue(status?: ReviewStatus): Promise<ServiceResult<Review[]>>;
+  moderateReview(data: ModerateReviewData): Promise<ServiceResult<Review>>;
+}
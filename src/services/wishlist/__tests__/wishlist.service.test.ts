@@ -0,0 +1,74 @@
+import { InventoryMovementReason } from '@/types/enums';
+import { FakeQuery, FakeResponse, FakeSupabaseClient, signedInClient } from '@/test-utils/fake-supabase';
+import { inventoryService } from '../../inventory/inventory.service';
+import { buildBackInStockMessage } from '../back-in-stock';
+
+const mockSend = jest.fn();
+
+// The admin restocking the product is signed in; their session only sees their own wishlist
+const mockSessionClient = signedInClient({ query: () => ({ data: [] }) });
+const mockServiceClient = new FakeSupabaseClient({
+  query: query => mockDatabase(query),
+  rpc: () => ({ data: { id: 'product-1', name: 'عسل السدر', stock: 5, low_stock_threshold: null } }),
+});
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClientServer: async (mode?: string) => (mode === 'service_role' ? mockServiceClient : mockSessionClient),
+  createServiceRoleClient: () => mockServiceClient,
+}));
+jest.mock('@/services/cart/cart.service', () => ({ cartService: {} }));
+jest.mock('@/services/products', () => ({ mapProductVariantRow: (row: unknown) => row }));
+jest.mock('@/services/notifications/notification.service', () => ({
+  notificationService: { send: (...args: unknown[]) => mockSend(...args) },
+}));
+
+function mockDatabase(query: FakeQuery): FakeResponse {
+  switch (query.table) {
+    case 'products':
+      return { data: { id: 'product-1', name: 'عسل السدر', stock: 5 } };
+    case 'wishlist':
+      return { data: [{ customer_id: 'customer-1' }, { customer_id: 'customer-2' }] };
+    case 'customers':
+      return {
+        data: [
+          { id: 'customer-1', email: 'amira@example.com', first_name: 'أميرة' },
+          { id: 'customer-2', email: 'karim@example.com', first_name: null },
+        ],
+      };
+    default:
+      return { data: null };
+  }
+}
+
+describe('back in stock', () => {
+  it('should name the product and link to it', () => {
+    const message = buildBackInStockMessage({
+      email: 'amira@example.com',
+      firstName: 'أميرة',
+      productName: 'عسل السدر',
+      productUrl: 'https://shop.example/products/product-1',
+    });
+
+    expect(message.type).toBe('back_in_stock');
+    expect(message.subject).toBe('عسل السدر متوفر من جديد');
+    expect(message.text.startsWith('مرحباً أميرة،')).toBe(true);
+    expect(message.text.endsWith('https://shop.example/products/product-1')).toBe(true);
+  });
+
+  it('should email the customers who saved a product when it is restocked', async () => {
+    mockSend.mockResolvedValue({ success: true });
+
+    const result = await inventoryService.adjustStock({
+      productId: 'product-1',
+      quantityChange: 5,
+      reason: InventoryMovementReason.RESTOCK,
+      adjustedBy: 'admin-1',
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(mockSend.mock.calls.map(([message]) => message.to)).toEqual(['amira@example.com', 'karim@example.com']);
+    expect(mockServiceClient.queriesOf('customers')[0].filters).toEqual({ id: ['customer-1', 'customer-2'] });
+    expect(mockSessionClient.queriesOf('wishlist')).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+// The message sent when a product a customer saved is back in stock, kept
+// free of I/O so the wording can be tested on its own.
+import { NotificationMessage } from '../notifications/notifications.types';
+
+export const BACK_IN_STOCK_MESSAGE_TYPE = 'back_in_stock';
+
+export interface BackInStockMessageInput {
+  email: string;
+  firstName?: string;
+  productName: string;
+  productUrl: string;
+}
+
+export function buildBackInStockMessage(input: BackInStockMessageInput): NotificationMessage {
+  const lines = [
+    input.firstName ? `مرحباً ${input.firstName}،` : 'مرحباً،',
+    '',
+    `المنتج الذي حفظته في قائمة أمنياتك، ${input.productName}، متوفر من جديد.`,
+    '',
+    `اطلبه من هنا قبل نفاد الكمية: ${input.productUrl}`,
+  ];
+
+  return {
+    type: BACK_IN_STOCK_MESSAGE_TYPE,
+    to: input.email,
+    subject: `${input.productName} متوفر من جديد`,
+    text: lines.join('\n'),
+  };
+}
@@ -0,0 +1,4 @@
+// Wishlist service exports
+export * from './back-in-stock';
+export * from './wishlist.service';
+export * from './wishlist.types';
@@ -0,0 +1,426 @@
+import { BusinessError, ValidationError } from '@/lib/errors/custom-errors';
+import { toErrorResult } from '@/lib/errors/service-result';
+import { logger } from '@/lib/logger';
+import { createClientServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { appUrl } from '@/lib/utils/app-url';
+import { cartService } from '@/services/cart/cart.service';
+import { notificationService } from '@/services/notifications/notification.service';
+import { NotificationService } from '@/services/notifications/notifications.types';
+import { mapProductVariantRow } from '@/services/products';
+import { Wishlist, WishlistItem, WishlistRow } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+import { ProductStatus } from '@/types/enums';
+import { buildBackInStockMessage } from './back-in-stock';
+import { BackInStockListener, WishlistService } from './wishlist.types';
+
+// Postgres foreign_key_violation, raised when the product does not exist
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const WISHLIST_SELECT = `
+  *,
+  wishlist_items (
+    *,
+    products (*, product_variants (*))
+  )
+`;
+
+function productUrl(productId: string): string {
+  return appUrl(`/products/${productId}`);
+}
+
+function mapWishlistItem(item: any): WishlistItem {
+  const product = item.products;
+  const variants = (product.product_variants || [])
+    .map(mapProductVariantRow)
+    .filter((variant: { isActive: boolean }) => variant.isActive);
+
+  return {
+    id: item.id,
+    wishlistId: item.wishlist_id,
+    productId: item.product_id,
+    product: {
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      price: product.price,
+      stock: product.stock,
+      imageUrl: product.image_url,
+      status: ProductStatus.ACTIVE,
+      categories: [],
+      images: [],
+      variants,
+      isActive: true,
+      createdAt: new Date(product.created_at),
+      updatedAt: new Date(product.created_at),
+    },
+    // Product stock is kept as the sum of its active variants
+    inStock: product.stock > 0,
+    addedAt: new Date(item.created_at),
+    createdAt: new Date(item.created_at),
+    updatedAt: new Date(item.created_at),
+  };
+}
+
+function mapWishlistRow(row: WishlistRow, items: any[] = []): Wishlist {
+  return {
+    id: row.id,
+    customerId: row.customer_id || '',
+    items: items
+      .filter(item => item.products)
+      .map(mapWishlistItem)
+      .sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime()),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Products a customer saved for later. Each customer has one wishlist and a
+ * product appears in it once; adding it again is a no-op. Customers are told
+ * through the back-in-stock listeners when a saved product is restocked.
+ */
+export class WishlistServiceImpl implements WishlistService {
+  private backInStockListeners: BackInStockListener[] = [];
+
+  async getWishlist(customerId: string): Promise<ServiceResult<Wishlist>> {
+    try {
+      const wishlistId = await this.getOrCreateWishlistId(customerId);
+
+      const supabase = await createClientServer();
+      const { data, error } = await supabase
+        .from('wishlist')
+        .select(WISHLIST_SELECT)
+        .eq('id', wishlistId)
+        .single();
+
+      if (error || !data) {
+        logger.error('Failed to fetch wishlist', error as Error, {
+          action: 'getWishlist',
+          customerId,
+        });
+        throw new BusinessError('Failed to fetch wishlist', 'WISHLIST_FETCH_ERROR');
+      }
+
+      return { success: true, data: mapWishlistRow(data, data.wishlist_items) };
+    } catch (error) {
+      logger.error('Error in getWishlist', error as Error, {
+        action: 'getWishlist',
+        customerId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching the wishlist');
+    }
+  }
+
+  /**
+   * IDs of the products in the customer's wishlist, for showing which hearts
+   * are filled on product listings.
+   */
+  async getProductIds(customerId: string): Promise<ServiceResult<string[]>> {
+    try {
+      if (!customerId) {
+        throw new ValidationError('Customer ID is required', 'REQUIRED', 'customerId');
+      }
+
+      const supabase = await createClientServer();
+      const { data, error } = await supabase
+        .from('wishlist_items')
+        .select('product_id, wishlist!inner (customer_id)')
+        .eq('wishlist.customer_id', customerId);
+
+      if (error) {
+        logger.error('Failed to fetch wishlist products', error, {
+          action: 'getProductIds',
+          customerId,
+        });
+        throw new BusinessError('Failed to fetch wishlist', 'WISHLIST_FETCH_ERROR');
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(item => item.product_id).filter((id): id is string => Boolean(id)),
+      };
+    } catch (error) {
+      logger.error('Error in getProductIds', error as Error, {
+        action: 'getProductIds',
+        customerId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while fetching the wishlist');
+    }
+  }
+
+  async addItem(customerId: string, productId: string): Promise<ServiceResult<void>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const wishlistId = await this.getOrCreateWishlistId(customerId);
+
+      const supabase = await createClientServer();
+      const { error } = await supabase
+        .from('wishlist_items')
+        .upsert(
+          { wishlist_id: wishlistId, product_id: productId },
+          { onConflict: 'wishlist_id,product_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        if (error.code === FOREIGN_KEY_VIOLATION) {
+          throw new BusinessError('Product not found', 'PRODUCT_NOT_FOUND', 'low', { productId });
+        }
+
+        logger.error('Failed to add wishlist item', error, {
+          action: 'addItem',
+          customerId,
+          productId,
+        });
+        throw new BusinessError('Failed to add product to wishlist', 'WISHLIST_UPDATE_ERROR');
+      }
+
+      logger.info('Product added to wishlist', {
+        action: 'addItem',
+        customerId,
+        productId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in addItem', error as Error, {
+        action: 'addItem',
+        customerId,
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while adding to the wishlist');
+    }
+  }
+
+  async removeItem(customerId: string, productId: string): Promise<ServiceResult<void>> {
+    try {
+      if (!productId) {
+        throw new ValidationError('Product ID is required', 'REQUIRED', 'productId');
+      }
+
+      const wishlistId = await this.getOrCreateWishlistId(customerId);
+
+      const supabase = await createClientServer();
+      const { error } = await supabase
+        .from('wishlist_items')
+        .delete()
+        .eq('wishlist_id', wishlistId)
+        .eq('product_id', productId);
+
+      if (error) {
+        logger.error('Failed to remove wishlist item', error, {
+          action: 'removeItem',
+          customerId,
+          productId,
+        });
+        throw new BusinessError('Failed to remove product from wishlist', 'WISHLIST_UPDATE_ERROR');
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error('Error in removeItem', error as Error, {
+        action: 'removeItem',
+        customerId,
+        productId,
+      });
+
+      return toErrorResult(error, 'An unexpected error occurred while removing from the wishlist');
+    }
+  }
+
+  /**
+   * Adds one unit of the product to the cart and takes it off the wishlist.
+   * Products sold in variants fail with VARIANT_REQUIRED, since the size has
+   * to be chosen on the product page.
+   */
+  async moveToCart(customerId: string, productId: string): Promise<ServiceResult<void>> {
+    const added = await cartService.addItem(customerId, { productId, quantity: 1 });
+    if (!added.success) {
+      return added;
+    }
+
+    return this.removeItem(customerId, productId);
+  }
+
+  /**
+   * Registers a listener for saved products coming back in stock and
+   * returns a function that removes it.
+   */
+  onBackInStock(listener: BackInStockListener): () => void {
+    this.backInStockListeners.push(listener);
+    return () => {
+      this.backInStockListeners = this.backInStockListeners.filter(current => current !== listener);
+    };
+  }
+
+  /**
+   * Tells the listeners which customers saved a product that is available
+   * again. Called after a restock; never fails the caller. Reads every
+   * customer's wishlist, so it runs with the service role.
+   */
+  async notifyBackInStock(productId: string): Promise<void> {
+    try {
+      const supabase = createServiceRoleClient();
+      const { data: product, error } = await supabase
+        .from('products')
+        .select('id, name, stock')
+        .eq('id', productId)
+        .single();
+
+      if (error || !product) {
+        logger.warn('Failed to load product for back-in-stock notification', {
+          action: 'notifyBackInStock',
+          productId,
+          error: error?.message,
+        });
+        return;
+      }
+      if (product.stock <= 0) {
+        return;
+      }
+
+      const { data: wishlists, error: wishlistsError } = await supabase
+        .from('wishlist')
+        .select('customer_id, wishlist_items!inner (product_id)')
+        .eq('wishlist_items.product_id', productId);
+
+      if (wishlistsError) {
+        logger.warn('Failed to load wishlists for back-in-stock notification', {
+          action: 'notifyBackInStock',
+          productId,
+          error: wishlistsError.message,
+        });
+        return;
+      }
+
+      const customerIds = (wishlists || [])
+        .map(wishlist => wishlist.customer_id)
+        .filter((id): id is string => Boolean(id));
+      if (customerIds.length === 0) {
+        return;
+      }
+
+      const event = { productId, productName: product.name, stock: product.stock, customerIds };
+      logger.info('Wishlisted product back in stock', {
+        action: 'notifyBackInStock',
+        productId,
+        customers: customerIds.length,
+      });
+
+      for (const listener of this.backInStockListeners) {
+        try {
+          await listener(event);
+        } catch (listenerError) {
+          logger.warn('Back-in-stock listener failed', {
+            action: 'notifyBackInStock',
+            productId,
+            error: (listenerError as Error).message,
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to send back-in-stock notifications', {
+        action: 'notifyBackInStock',
+        productId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async getOrCreateWishlistId(customerId: string): Promise<string> {
+    if (!customerId) {
+      throw new ValidationError('Customer ID is required', 'REQUIRED', 'customerId');
+    }
+
+    const supabase = await createClientServer();
+    const { data: existing, error } = await supabase
+      .from('wishlist')
+      .select('id')
+      .eq('customer_id', customerId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch wishlist', error, {
+        action: 'getOrCreateWishlist',
+        customerId,
+      });
+      throw new BusinessError('Failed to fetch wishlist', 'WISHLIST_FETCH_ERROR');
+    }
+    if (existing) {
+      return existing.id;
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from('wishlist')
+      .insert({ customer_id: customerId })
+      .select('id')
+      .single();
+
+    if (createError || !created) {
+      logger.error('Failed to create wishlist', createError as Error, {
+        action: 'getOrCreateWishlist',
+        customerId,
+      });
+      throw new BusinessError('Failed to create wishlist', 'WISHLIST_CREATE_ERROR');
+    }
+
+    return created.id;
+  }
+}
+
+/**
+ * The back-in-stock listener that emails each customer who saved the product.
+ * A failed email is logged and the others are still sent.
+ */
+export function createBackInStockEmailer(
+  notifications: NotificationService = notificationService
+): BackInStockListener {
+  return async event => {
+    const supabase = createServiceRoleClient();
+    const { data: customers, error } = await supabase
+      .from('customers')
+      .select('id, email, first_name')
+      .in('id', event.customerIds);
+
+    if (error) {
+      logger.error('Failed to fetch customers for back-in-stock emails', error, {
+        action: 'emailBackInStock',
+        productId: event.productId,
+      });
+      throw new BusinessError('Failed to fetch customers', 'CUSTOMER_FETCH_ERROR');
+    }
+
+    for (const customer of customers || []) {
+      if (!customer.email) {
+        continue;
+      }
+
+      const result = await notifications.send(
+        buildBackInStockMessage({
+          email: customer.email,
+          firstName: customer.first_name || undefined,
+          productName: event.productName,
+          productUrl: productUrl(event.productId),
+        })
+      );
+      if (!result.success) {
+        logger.warn('Failed to send back-in-stock email', {
+          action: 'emailBackInStock',
+          productId: event.productId,
+          customerId: customer.id,
+          error: result.error?.message,
+        });
+      }
+    }
+  };
+}
+
+export const wishlistService = new WishlistServiceImpl();
+
+// Customers are emailed when a product they saved is restocked
+wishlistService.onBackInStock(createBackInStockEmailer());
@@ -0,0 +1,15 @@
+// Wishlist service specific types
+import { BackInStockEvent, Wishlist } from '@/types/business';
+import { ServiceResult } from '@/types/common';
+
+export type BackInStockListener = (event: BackInStockEvent) => void | Promise<void>;
+
+export interface WishlistService {
+  getWishlist(customerId: string): Promise<ServiceResult<Wishlist>>;
+  getProductIds(customerId: string): Promise<ServiceResult<string[]>>;
+  addItem(customerId: string, productId: string): Promise<ServiceResult<void>>;
+  removeItem(customerId: string, productId: string): Promise<ServiceResult<void>>;
+  moveToCart(customerId: string, productId: string): Promise<ServiceResult<void>>;
+  onBackInStock(listener: BackInStockListener): () => void;
+  notifyBackInStock(productId: string): Promise<void>;
+}
@@ -0,0 +1,102 @@
+// A stand-in for the Supabase client in service tests. Queries and RPC calls
+// are recorded and answered by the handlers a test passes in, so a test can
+// tell the service role client from a signed-in visitor's.
+
+export type FakeQueryAction = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface FakeQuery {
+  table: string;
+  action: FakeQueryAction;
+  // Inserted, updated or upserted values
+  values?: unknown;
+  // Column filters, e.g. { id: 'order-1' } for .eq('id', 'order-1')
+  filters: Record<string, unknown>;
+}
+
+export interface FakeRpcCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface FakeResponse {
+  data?: unknown;
+  error?: { message: string; details?: string | null; hint?: string | null } | null;
+  count?: number | null;
+}
+
+export interface FakeSupabaseHandlers {
+  query?: (query: FakeQuery) => FakeResponse;
+  rpc?: (call: FakeRpcCall) => FakeResponse;
+}
+
+// Filters whose value is recorded against the column they name
+const FILTER_METHODS = ['eq', 'neq', 'is', 'in', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'contains'];
+
+function respond(response: FakeResponse, single: boolean) {
+  const data = single && Array.isArray(response.data) ? (response.data[0] ?? null) : (response.data ?? null);
+  return { data, error: response.error ?? null, count: response.count ?? null };
+}
+
+export class FakeSupabaseClient {
+  readonly queries: FakeQuery[] = [];
+  readonly rpcCalls: FakeRpcCall[] = [];
+
+  constructor(private readonly handlers: FakeSupabaseHandlers = {}) {}
+
+  from(table: string) {
+    const query: FakeQuery = { table, action: 'select', filters: {} };
+    this.queries.push(query);
+    const run = (single: boolean) => Promise.resolve(respond(this.handlers.query?.(query) ?? {}, single));
+
+    const builder: any = new Proxy(
+      {},
+      {
+        get: (_target, method) => {
+          if (typeof method !== 'string') {
+            return undefined;
+          }
+          if (method === 'then') {
+            return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+              run(false).then(resolve, reject);
+          }
+          if (method === 'single' || method === 'maybeSingle') {
+            return () => run(true);
+          }
+          return (...args: unknown[]) => {
+            if (method === 'insert' || method === 'update' || method === 'upsert') {
+              query.action = method;
+              query.values = args[0];
+            } else if (method === 'delete') {
+              query.action = 'delete';
+            } else if (FILTER_METHODS.includes(method)) {
+              query.filters[args[0] as string] = args[1];
+            }
+            return builder;
+          };
+        },
+      }
+    );
+    return builder;
+  }
+
+  rpc(name: string, args: Record<string, unknown> = {}) {
+    const call = { name, args };
+    this.rpcCalls.push(call);
+    const result = Promise.resolve(respond(this.handlers.rpc?.(call) ?? {}, false));
+    return Object.assign(result, {
+      single: () => result.then(response => respond(response as FakeResponse, true)),
+    });
+  }
+
+  queriesOf(table: string, action?: FakeQueryAction): FakeQuery[] {
+    return this.queries.filter(query => query.table === table && (!action || query.action === action));
+  }
+}
+
+// A signed-in visitor's client: functions revoked from `authenticated` are denied
+export function signedInClient(handlers: Omit<FakeSupabaseHandlers, 'rpc'> = {}): FakeSupabaseClient {
+  return new FakeSupabaseClient({
+    ...handlers,
+    rpc: ({ name }) => ({ error: { message: `permission denied for function ${name}` } }),
+  });
+}
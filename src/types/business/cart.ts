@@ -1,7 +1,7 @@
 import { BaseEntity } from '../common';
 import { Tables } from '../database';
 import { CartStatus } from '../enums';
-import { Product } from './product';
+import { Product, ProductVariant } from './product';
 
 // Base Supabase types
 export type CartRow = Tables<'carts'>;
@@ -12,6 +12,8 @@ export interface CartItem extends BaseEntity {
   cartId: string;
   productId: string;
   product: Product;
+  variantId?: string;
+  variant?: ProductVariant;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
@@ -35,6 +37,8 @@ export interface Cart extends BaseEntity {
 // Cart operations
 export interface AddToCartData {
   productId: string;
+  // Required when the product is sold in variants
+  variantId?: string;
   quantity: number;
 }
 
@@ -68,7 +72,8 @@ export interface CartValidationResult {
 export interface CartValidationError {
   itemId: string;
   productId: string;
-  type: 'out_of_stock' | 'insufficient_stock' | 'product_unavailable' | 'price_changed';
+  variantId?: string;
+  type: 'out_of_stock' | 'insufficient_stock' | 'product_unavailable' | 'price_changed' | 'variant_required';
   message: string;
   currentStock?: number;
   requestedQuantity?: number;
@@ -77,6 +82,7 @@ export interface CartValidationError {
 export interface CartValidationWarning {
   itemId: string;
   productId: string;
+  variantId?: string;
   type: 'low_stock' | 'price_increase';
   message: string;
   details?: Record<string, any>;
@@ -3,3 +3,4 @@ export * from './cart';
 export * from './order';
 export * from './product';
 export * from './user';
+export * from './wishlist';
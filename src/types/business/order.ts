@@ -1,6 +1,6 @@
 import { BaseEntity } from '../common';
 import { Tables } from '../database';
-import { OrderStatus, PaymentMethod, PaymentStatus } from '../enums';
+import { OrderStatus, OrderTrackingEventType, PaymentMethod, PaymentStatus } from '../enums';
 import { Product } from './product';
 import { Address, User } from './user';
 
@@ -14,6 +14,9 @@ export interface OrderItem extends BaseEntity {
   orderId: string;
   productId: string;
   product: Product;
+  variantId?: string;
+  // Name of the variant when the order was placed, e.g. "500 غ"
+  variantName?: string;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
@@ -25,6 +28,7 @@ export interface Payment extends BaseEntity {
   amount: number;
   paymentMethod: PaymentMethod;
   status: PaymentStatus;
+  refundedAmount?: number;
   transactionId: string;
   gatewayResponse?: Record<string, any>;
   processedAt?: Date;
@@ -32,11 +36,30 @@ export interface Payment extends BaseEntity {
 }
 
 export interface OrderTracking {
+  id?: string;
+  type: OrderTrackingEventType;
   status: OrderStatus;
   timestamp: Date;
   location?: string;
   notes?: string;
+  trackingNumber?: string;
+  isInternal?: boolean;
   updatedBy?: string;
+  updatedByEmail?: string;
+}
+
+export type ShipmentStatus = 'in_transit' | 'delivered' | 'returned';
+
+// The carrier and tracking number an order was shipped with
+export interface OrderShipment {
+  carrier: string;
+  carrierName?: string;
+  trackingNumber: string;
+  // The carrier's page for following the parcel, when it has one
+  trackingUrl?: string;
+  status: ShipmentStatus;
+  shippedAt: Date;
+  deliveredAt?: Date;
 }
 
 export interface Order extends BaseEntity {
@@ -48,7 +71,9 @@ export interface Order extends BaseEntity {
   subtotal: number;
   discountAmount: number;
   taxAmount: number;
+  taxRate: number;
   shippingAmount: number;
+  discountCode?: string;
   shippingAddress: Address;
   billingAddress?: Address;
   paymentMethod: PaymentMethod;
@@ -57,10 +82,22 @@ export interface Order extends BaseEntity {
   trackingNumber?: string;
   estimatedDelivery?: Date;
   deliveredAt?: Date;
+  shipment?: OrderShipment;
   tracking: OrderTracking[];
   orderDate: Date;
 }
 
+// Amount breakdown shown on the cart, checkout, order pages and invoice
+export interface OrderTotals {
+  subtotal: number;
+  discountAmount: number;
+  discountCode?: string;
+  taxRate: number;
+  taxAmount: number;
+  shippingAmount: number;
+  total: number;
+}
+
 // Order creation and updates
 export interface CreateOrderData {
   customerId: string;
@@ -70,10 +107,13 @@ export interface CreateOrderData {
   paymentMethod: PaymentMethod;
   notes?: string;
   discountCode?: string;
+  // Placed through guest checkout; the customer has no user account
+  isGuest?: boolean;
 }
 
 export interface CreateOrderItemData {
   productId: string;
+  variantId?: string;
   quantity: number;
   unitPrice: number;
 }
@@ -83,7 +123,21 @@ export interface UpdateOrderStatusData {
   status: OrderStatus;
   notes?: string;
   trackingNumber?: string;
+  // The carrier the tracking number belongs to, see ShipmentService.shipOrder
+  carrier?: string;
+  carrierName?: string;
+  trackingUrl?: string;
   estimatedDelivery?: Date;
+  updatedBy?: string;
+  updatedByEmail?: string;
+}
+
+export interface AddOrderNoteData {
+  orderId: string;
+  notes: string;
+  isInternal?: boolean;
+  updatedBy?: string;
+  updatedByEmail?: string;
 }
 
 // Order filters and search
@@ -121,9 +175,27 @@ export interface CheckoutData {
   discountCode?: string;
 }
 
+// Checkout without an account: the order is placed from the guest cart with
+// the contact and delivery details entered on the checkout page
+export interface GuestCheckoutData {
+  guestCartToken: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  addressLine1: string;
+  city: string;
+  postalCode?: string;
+  paymentMethod: PaymentMethod;
+  notes?: string;
+  discountCode?: string;
+}
+
 export interface CheckoutResult {
   success: boolean;
   orderId?: string;
+  // Opens the order confirmation page without signing in (guest orders)
+  accessToken?: string;
   paymentUrl?: string;
   error?: string;
 }
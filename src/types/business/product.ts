@@ -1,11 +1,12 @@
 import { BaseEntity } from '../common';
 import { Tables } from '../database';
-import { ProductStatus } from '../enums';
+import { ProductStatus, ReviewStatus } from '../enums';
 
 // Base Supabase product type
 export type ProductRow = Tables<'products'>;
 export type CategoryRow = Tables<'categories'>;
 export type ProductImageRow = Tables<'product_images'>;
+export type ProductVariantRow = Tables<'product_variants'>;
 export type ReviewRow = Tables<'reviews'>;
 
 // Extended business types
@@ -37,18 +38,58 @@ export interface ProductDimensions {
 
 export interface Category extends BaseEntity {
   name: string;
+  // Identifies the category's landing page, /categories/[slug]
+  slug: string;
   description?: string;
   imageUrl?: string;
   parentId?: string;
+  // Position among the categories sharing its parent
+  sortOrder: number;
   isActive: boolean;
 }
 
+export interface CategoryTreeNode extends Category {
+  children: CategoryTreeNode[];
+}
+
+export type ImageVariantFormat = 'avif' | 'webp';
+
+// A resized copy of an uploaded image
+export interface ImageVariant {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  url: string;
+  // Object path in the product-images bucket
+  path: string;
+}
+
 export interface ProductImage extends BaseEntity {
   productId: string;
   imageUrl: string;
-  altText?: string;
+  altTextAr?: string;
+  altTextEn?: string;
+  // The product's cover image, mirrored to products.image_url
   isPrimary: boolean;
   sortOrder: number;
+  // Empty for images stored before uploads were processed
+  variants: ImageVariant[];
+  // Tiny inline WebP shown while the image loads
+  blurDataUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+// A sellable size of a product (e.g. a 500g jar) with its own price and stock
+export interface ProductVariant extends BaseEntity {
+  productId: string;
+  sku: string;
+  name: string;
+  weightGrams?: number;
+  price: number;
+  stock: number;
+  sortOrder: number;
+  isActive: boolean;
 }
 
 export interface Product extends BaseEntity {
@@ -56,10 +97,14 @@ export interface Product extends BaseEntity {
   description?: string;
   price: number;
   stock: number;
+  // Alert when stock falls to this level; the low_stock alert rule applies when unset
+  lowStockThreshold?: number;
   imageUrl?: string;
   status: ProductStatus;
   categories: Category[];
   images: ProductImage[];
+  // Active variants in display order; when present, price and stock are per variant
+  variants?: ProductVariant[];
   metadata?: ProductMetadata;
   averageRating?: number;
   reviewCount?: number;
@@ -70,9 +115,17 @@ export interface Review extends BaseEntity {
   productId: string;
   customerId: string;
   rating: number;
+  title?: string;
   comment?: string;
+  // The customer had a delivered order containing the product
   isVerified: boolean;
+  status: ReviewStatus;
   customerName?: string;
+  // Set on reviews listed for moderation
+  productName?: string;
+  moderatedBy?: string;
+  moderatedByEmail?: string;
+  moderatedAt?: Date;
 }
 
 // Filter and search types
@@ -81,6 +134,8 @@ export interface ProductFilters {
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
+  // Lowest average rating, from approved reviews
+  minRating?: number;
   status?: ProductStatus;
   search?: string;
   sortBy?: 'name' | 'price' | 'created_at' | 'rating';
@@ -103,7 +158,49 @@ export interface CreateProductData {
   metadata?: ProductMetadata;
 }
 
+export interface CreateCategoryData {
+  name: string;
+  description?: string;
+  parentId?: string;
+  // Derived from the name when not given
+  slug?: string;
+}
+
 export interface UpdateProductData extends Partial<CreateProductData> {
   id: string;
   status?: ProductStatus;
 }
+
+export interface CreateProductVariantData {
+  productId: string;
+  sku: string;
+  name: string;
+  weightGrams?: number;
+  price: number;
+  stock?: number;
+  sortOrder?: number;
+}
+
+export interface UpdateProductVariantData extends Partial<Omit<CreateProductVariantData, 'productId' | 'stock'>> {
+  id: string;
+}
+
+export interface UploadProductImageData {
+  productId: string;
+  file: File;
+  altTextAr?: string;
+  altTextEn?: string;
+}
+
+export interface UpdateProductImageData {
+  id: string;
+  altTextAr?: string;
+  altTextEn?: string;
+}
+
+export interface CreateReviewData {
+  productId: string;
+  rating: number;
+  title?: string;
+  comment?: string;
+}
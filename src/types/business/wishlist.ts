@@ -0,0 +1,30 @@
+import { BaseEntity } from '../common';
+import { Tables } from '../database';
+import { Product } from './product';
+
+// Base Supabase types
+export type WishlistRow = Tables<'wishlist'>;
+export type WishlistItemRow = Tables<'wishlist_items'>;
+
+// Extended business types
+export interface WishlistItem extends BaseEntity {
+  wishlistId: string;
+  productId: string;
+  product: Product;
+  // Stock of the product, or of all its active variants together
+  inStock: boolean;
+  addedAt: Date;
+}
+
+export interface Wishlist extends BaseEntity {
+  customerId: string;
+  items: WishlistItem[];
+}
+
+// Customers who saved a product that has just come back in stock
+export interface BackInStockEvent {
+  productId: string;
+  productName: string;
+  stock: number;
+  customerIds: string[];
+}
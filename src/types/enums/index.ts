@@ -2,6 +2,7 @@
 
 export enum OrderStatus {
   PENDING = 'pending',
+  AWAITING_PAYMENT = 'awaiting_payment',
   CONFIRMED = 'confirmed',
   PROCESSING = 'processing',
   SHIPPED = 'shipped',
@@ -9,6 +10,14 @@ export enum OrderStatus {
   CANCELLED = 'cancelled',
 }
 
+export enum OrderTrackingEventType {
+  STATUS_CHANGE = 'status_change',
+  CANCELLATION = 'cancellation',
+  NOTE = 'note',
+  TRACKING_NUMBER = 'tracking_number',
+  REFUND = 'refund',
+}
+
 export enum UserRole {
   CUSTOMER = 'customer',
   ADMIN = 'admin',
@@ -26,6 +35,7 @@ export enum PaymentStatus {
   COMPLETED = 'completed',
   FAILED = 'failed',
   REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
 
 export enum ProductStatus {
@@ -35,6 +45,20 @@ export enum ProductStatus {
   DISCONTINUED = 'discontinued',
 }
 
+export enum InventoryMovementReason {
+  SALE = 'sale',
+  CANCELLATION = 'cancellation',
+  RETURN = 'return',
+  RESTOCK = 'restock',
+  ADJUSTMENT = 'adjustment',
+}
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
 export enum CartStatus {
   ACTIVE = 'active',
   ABANDONED = 'abandoned',
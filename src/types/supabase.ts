@@ -18,6 +18,7 @@ export type Database = {
           created_at: string
           customer_id: string | null
           id: string
+          phone_number: string | null
           postal_code: string
           state: string
         }
@@ -29,6 +30,7 @@ export type Database = {
           created_at?: string
           customer_id?: string | null
           id?: string
+          phone_number?: string | null
           postal_code: string
           state: string
         }
@@ -40,6 +42,7 @@ export type Database = {
           created_at?: string
           customer_id?: string | null
           id?: string
+          phone_number?: string | null
           postal_code?: string
           state?: string
         }
@@ -60,6 +63,7 @@ export type Database = {
           id: string
           product_id: string | null
           quantity: number
+          variant_id: string | null
         }
         Insert: {
           cart_id?: string | null
@@ -67,6 +71,7 @@ export type Database = {
           id?: string
           product_id?: string | null
           quantity: number
+          variant_id?: string | null
         }
         Update: {
           cart_id?: string | null
@@ -74,6 +79,7 @@ export type Database = {
           id?: string
           product_id?: string | null
           quantity?: number
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -90,25 +96,56 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       carts: {
         Row: {
+          abandoned_at: string | null
+          converted_at: string | null
+          converted_order_id: string | null
           created_at: string
           customer_id: string | null
+          guest_token: string | null
           id: string
+          recovery_discount_code: string | null
+          recovery_sent_at: string | null
+          recovery_token: string | null
+          status: string
           updated_at: string
         }
         Insert: {
+          abandoned_at?: string | null
+          converted_at?: string | null
+          converted_order_id?: string | null
           created_at?: string
           customer_id?: string | null
+          guest_token?: string | null
           id?: string
+          recovery_discount_code?: string | null
+          recovery_sent_at?: string | null
+          recovery_token?: string | null
+          status?: string
           updated_at?: string
         }
         Update: {
+          abandoned_at?: string | null
+          converted_at?: string | null
+          converted_order_id?: string | null
           created_at?: string
           customer_id?: string | null
+          guest_token?: string | null
           id?: string
+          recovery_discount_code?: string | null
+          recovery_sent_at?: string | null
+          recovery_token?: string | null
+          status?: string
           updated_at?: string
         }
         Relationships: [
@@ -127,45 +164,565 @@ export type Database = {
           description: string | null
           id: string
           name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
         }
         Insert: {
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
         }
         Update: {
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cod_collections: {
+        Row: {
+          amount: number
+          collected_at: string
+          courier_id: string
+          created_at: string
+          id: string
+          order_id: string
+          payment_id: string
+          recorded_by: string | null
+          recorded_by_email: string | null
+          remittance_id: string | null
+        }
+        Insert: {
+          amount: number
+          collected_at?: string
+          courier_id: string
+          created_at?: string
+          id?: string
+          order_id: string
+          payment_id: string
+          recorded_by?: string | null
+          recorded_by_email?: string | null
+          remittance_id?: string | null
+        }
+        Update: {
+          amount?: number
+          collected_at?: string
+          courier_id?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+          payment_id?: string
+          recorded_by?: string | null
+          recorded_by_email?: string | null
+          remittance_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cod_collections_courier_id_fkey"
+            columns: ["courier_id"]
+            isOneToOne: false
+            referencedRelation: "couriers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cod_collections_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cod_collections_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cod_collections_remittance_id_fkey"
+            columns: ["remittance_id"]
+            isOneToOne: false
+            referencedRelation: "cod_remittances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cod_remittances: {
+        Row: {
+          courier_id: string
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          expected_amount: number
+          id: string
+          notes: string | null
+          received_amount: number | null
+          received_at: string | null
+          received_by: string | null
+          received_by_email: string | null
+          status: string
+        }
+        Insert: {
+          courier_id: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          expected_amount: number
+          id?: string
+          notes?: string | null
+          received_amount?: number | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_email?: string | null
+          status?: string
+        }
+        Update: {
+          courier_id?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          expected_amount?: number
+          id?: string
+          notes?: string | null
+          received_amount?: number | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_email?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cod_remittances_courier_id_fkey"
+            columns: ["courier_id"]
+            isOneToOne: false
+            referencedRelation: "couriers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      couriers: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+        }
+        Relationships: []
+      }
+      credit_note_items: {
+        Row: {
+          amount: number
+          credit_note_id: string
+          id: string
+          order_item_id: string
+          product_id: string | null
+          quantity: number
+        }
+        Insert: {
+          amount?: number
+          credit_note_id: string
+          id?: string
+          order_item_id: string
+          product_id?: string | null
+          quantity?: number
+        }
+        Update: {
+          amount?: number
+          credit_note_id?: string
+          id?: string
+          order_item_id?: string
+          product_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_sequences: {
+        Row: {
+          fiscal_year: number
+          last_number: number
+        }
+        Insert: {
+          fiscal_year: number
+          last_number?: number
+        }
+        Update: {
+          fiscal_year?: number
+          last_number?: number
         }
         Relationships: []
       }
+      credit_notes: {
+        Row: {
+          credit_note_number: string
+          fiscal_year: number
+          id: string
+          invoice_id: string | null
+          issued_at: string
+          issued_by: string | null
+          issued_by_email: string | null
+          order_id: string
+          reason: string | null
+          restocked: boolean
+          sequence_number: number
+          shipping_amount: number
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total_amount: number
+        }
+        Insert: {
+          credit_note_number: string
+          fiscal_year: number
+          id?: string
+          invoice_id?: string | null
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          order_id: string
+          reason?: string | null
+          restocked?: boolean
+          sequence_number: number
+          shipping_amount?: number
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total_amount: number
+        }
+        Update: {
+          credit_note_number?: string
+          fiscal_year?: number
+          id?: string
+          invoice_id?: string | null
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          order_id?: string
+          reason?: string | null
+          restocked?: boolean
+          sequence_number?: number
+          shipping_amount?: number
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           created_at: string
           email: string
           first_name: string
           id: string
+          is_guest: boolean
           last_name: string
+          preferred_locale: string
         }
         Insert: {
           created_at?: string
           email: string
           first_name: string
           id: string
+          is_guest?: boolean
           last_name: string
+          preferred_locale?: string
         }
         Update: {
           created_at?: string
           email?: string
           first_name?: string
           id?: string
+          is_guest?: boolean
           last_name?: string
+          preferred_locale?: string
+        }
+        Relationships: []
+      }
+      delivery_zone_governorates: {
+        Row: {
+          governorate: string
+          zone_id: string
+        }
+        Insert: {
+          governorate: string
+          zone_id: string
+        }
+        Update: {
+          governorate?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_zone_governorates_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_zones: {
+        Row: {
+          created_at: string
+          fee: number
+          free_delivery_threshold: number | null
+          id: string
+          is_deliverable: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          is_deliverable?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          fee?: number
+          free_delivery_threshold?: number | null
+          id?: string
+          is_deliverable?: boolean
+          name?: string
+          updated_at?: string
         }
         Relationships: []
       }
+      inventory_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          note: string | null
+          order_id: string | null
+          product_id: string
+          quantity_change: number
+          reason: string
+          stock_after: number
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id: string
+          quantity_change: number
+          reason: string
+          stock_after: number
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id?: string
+          quantity_change?: number
+          reason?: string
+          stock_after?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_sequences: {
+        Row: {
+          fiscal_year: number
+          last_number: number
+        }
+        Insert: {
+          fiscal_year: number
+          last_number?: number
+        }
+        Update: {
+          fiscal_year?: number
+          last_number?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          fiscal_year: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          order_id: string
+          sequence_number: number
+          total_amount: number
+        }
+        Insert: {
+          fiscal_year: number
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          issued_by?: string | null
+          order_id: string
+          sequence_number: number
+          total_amount: number
+        }
+        Update: {
+          fiscal_year?: number
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          issued_by?: string | null
+          order_id?: string
+          sequence_number?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_emails: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          locale: string
+          order_id: string
+          recipient: string
+          sent_by: string | null
+          sent_by_email: string | null
+          status: string
+          subject: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          locale: string
+          order_id: string
+          recipient: string
+          sent_by?: string | null
+          sent_by_email?: string | null
+          status: string
+          subject: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          locale?: string
+          order_id?: string
+          recipient?: string
+          sent_by?: string | null
+          sent_by_email?: string | null
+          status?: string
+          subject?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_emails_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           id: string
@@ -173,6 +730,8 @@ export type Database = {
           price: number
           product_id: string | null
           quantity: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
           id?: string
@@ -180,6 +739,8 @@ export type Database = {
           price: number
           product_id?: string | null
           quantity: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
           id?: string
@@ -187,6 +748,8 @@ export type Database = {
           price?: number
           product_id?: string | null
           quantity?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
           {
@@ -203,25 +766,112 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_tracking: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          event_type: string
+          id: string
+          is_internal: boolean
+          notes: string | null
+          order_id: string
+          status: string | null
+          tracking_number: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          event_type: string
+          id?: string
+          is_internal?: boolean
+          notes?: string | null
+          order_id: string
+          status?: string | null
+          tracking_number?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          event_type?: string
+          id?: string
+          is_internal?: boolean
+          notes?: string | null
+          order_id?: string
+          status?: string | null
+          tracking_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_tracking_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
+          access_token: string
           customer_id: string | null
+          delivery_fee: number | null
+          discount_amount: number
+          discount_code: string | null
           id: string
+          notes: string | null
           order_date: string
+          payment_method: string | null
+          shipping_address_id: string | null
+          status: string | null
+          subtotal: number | null
+          tax_amount: number
+          tax_rate: number
           total_amount: number
         }
         Insert: {
+          access_token?: string
           customer_id?: string | null
+          delivery_fee?: number | null
+          discount_amount?: number
+          discount_code?: string | null
           id?: string
+          notes?: string | null
           order_date?: string
+          payment_method?: string | null
+          shipping_address_id?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number
+          tax_rate?: number
           total_amount: number
         }
         Update: {
+          access_token?: string
           customer_id?: string | null
+          delivery_fee?: number | null
+          discount_amount?: number
+          discount_code?: string | null
           id?: string
+          notes?: string | null
           order_date?: string
+          payment_method?: string | null
+          shipping_address_id?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number
+          tax_rate?: number
           total_amount?: number
         }
         Relationships: [
@@ -234,6 +884,66 @@ export type Database = {
           },
         ]
       }
+      payment_proofs: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string | null
+          id: string
+          order_id: string
+          payment_id: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_email: string | null
+          status: string
+          storage_path: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          order_id: string
+          payment_id: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          status?: string
+          storage_path: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          order_id?: string
+          payment_id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          status?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_proofs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_proofs_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
@@ -241,6 +951,11 @@ export type Database = {
           id: string
           order_id: string | null
           payment_method: string
+          processed_at: string | null
+          provider: string | null
+          provider_session_id: string | null
+          refunded_amount: number
+          status: string
           transaction_id: string
         }
         Insert: {
@@ -249,6 +964,11 @@ export type Database = {
           id?: string
           order_id?: string | null
           payment_method: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_session_id?: string | null
+          refunded_amount?: number
+          status?: string
           transaction_id: string
         }
         Update: {
@@ -257,6 +977,11 @@ export type Database = {
           id?: string
           order_id?: string | null
           payment_method?: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_session_id?: string | null
+          refunded_amount?: number
+          status?: string
           transaction_id?: string
         }
         Relationships: [
@@ -301,22 +1026,49 @@ export type Database = {
       }
       product_images: {
         Row: {
+          alt_text_ar: string | null
+          alt_text_en: string | null
+          blur_data_url: string | null
           created_at: string
+          height: number | null
           id: string
           image_url: string
+          is_primary: boolean
           product_id: string | null
+          sort_order: number
+          storage_path: string | null
+          variants: Json
+          width: number | null
         }
         Insert: {
+          alt_text_ar?: string | null
+          alt_text_en?: string | null
+          blur_data_url?: string | null
           created_at?: string
+          height?: number | null
           id?: string
           image_url: string
+          is_primary?: boolean
           product_id?: string | null
+          sort_order?: number
+          storage_path?: string | null
+          variants?: Json
+          width?: number | null
         }
         Update: {
+          alt_text_ar?: string | null
+          alt_text_en?: string | null
+          blur_data_url?: string | null
           created_at?: string
+          height?: number | null
           id?: string
           image_url?: string
+          is_primary?: boolean
           product_id?: string | null
+          sort_order?: number
+          storage_path?: string | null
+          variants?: Json
+          width?: number | null
         }
         Relationships: [
           {
@@ -328,32 +1080,93 @@ export type Database = {
           },
         ]
       }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          product_id: string
+          sku: string
+          sort_order: number
+          stock: number
+          updated_at: string
+          weight_grams: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          product_id: string
+          sku: string
+          sort_order?: number
+          stock?: number
+          updated_at?: string
+          weight_grams?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          product_id?: string
+          sku?: string
+          sort_order?: number
+          stock?: number
+          updated_at?: string
+          weight_grams?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
+          average_rating: number | null
           created_at: string
           description: string | null
           id: string
           image_url: string | null
+          low_stock_threshold: number | null
           name: string
           price: number
+          review_count: number
+          search_text: string | null
+          search_vector: unknown
           stock: number
         }
         Insert: {
+          average_rating?: number | null
           created_at?: string
           description?: string | null
           id?: string
           image_url?: string | null
+          low_stock_threshold?: number | null
           name: string
           price: number
+          review_count?: number
           stock?: number
         }
         Update: {
+          average_rating?: number | null
           created_at?: string
           description?: string | null
           id?: string
           image_url?: string | null
+          low_stock_threshold?: number | null
           name?: string
           price?: number
+          review_count?: number
           stock?: number
         }
         Relationships: []
@@ -388,24 +1201,45 @@ export type Database = {
           created_at: string
           customer_id: string | null
           id: string
+          is_verified: boolean
+          moderated_at: string | null
+          moderated_by: string | null
+          moderated_by_email: string | null
           product_id: string | null
           rating: number
+          status: string
+          title: string | null
+          updated_at: string
         }
         Insert: {
           comment?: string | null
           created_at?: string
           customer_id?: string | null
           id?: string
+          is_verified?: boolean
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderated_by_email?: string | null
           product_id?: string | null
           rating: number
+          status?: string
+          title?: string | null
+          updated_at?: string
         }
         Update: {
           comment?: string | null
           created_at?: string
           customer_id?: string | null
           id?: string
+          is_verified?: boolean
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderated_by_email?: string | null
           product_id?: string | null
           rating?: number
+          status?: string
+          title?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -424,6 +1258,62 @@ export type Database = {
           },
         ]
       }
+      shipments: {
+        Row: {
+          carrier: string
+          carrier_name: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          delivered_at: string | null
+          id: string
+          last_checked_at: string | null
+          order_id: string
+          shipped_at: string
+          status: string
+          tracking_number: string
+          tracking_url: string | null
+        }
+        Insert: {
+          carrier: string
+          carrier_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          id?: string
+          last_checked_at?: string | null
+          order_id: string
+          shipped_at?: string
+          status?: string
+          tracking_number: string
+          tracking_url?: string | null
+        }
+        Update: {
+          carrier?: string
+          carrier_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          id?: string
+          last_checked_at?: string | null
+          order_id?: string
+          shipped_at?: string
+          status?: string
+          tracking_number?: string
+          tracking_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           role: string
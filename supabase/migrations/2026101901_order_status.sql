@@ -0,0 +1,28 @@
+-- Canonical order status values (see src/services/orders/order-status.ts)
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS status VARCHAR(50) DEFAULT 'Pending Confirmation';
+
+-- Normalize values written by older versions of the app: every spelling
+-- parseOrderStatus accepts, in any case. Anything else is read as pending
+-- (fromOrderStatusDbValue), so it is stored that way.
+UPDATE public.orders
+SET status = CASE lower(trim(status))
+  WHEN 'confirmed' THEN 'Confirmed'
+  WHEN 'processing' THEN 'Processing'
+  WHEN 'packed' THEN 'Processing'
+  WHEN 'emballé' THEN 'Processing'
+  WHEN 'shipped' THEN 'Shipped'
+  WHEN 'delivered' THEN 'Delivered'
+  WHEN 'cancelled' THEN 'Cancelled'
+  WHEN 'canceled' THEN 'Cancelled'
+  ELSE 'Pending Confirmation'
+END
+WHERE status IS NULL
+  OR status NOT IN ('Pending Confirmation', 'Confirmed', 'Processing', 'Shipped', 'Delivered', 'Cancelled');
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS check_order_status;
+ALTER TABLE public.orders
+  ADD CONSTRAINT check_order_status
+  CHECK (status IN ('Pending Confirmation', 'Confirmed', 'Processing', 'Shipped', 'Delivered', 'Cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON public.orders(status);
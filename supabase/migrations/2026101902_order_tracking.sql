@@ -0,0 +1,36 @@
+-- Order history: status changes, cancellation reasons, admin notes and tracking numbers
+CREATE TABLE IF NOT EXISTS public.order_tracking (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL DEFAULT 'status_change',
+  status VARCHAR(50),
+  notes TEXT,
+  tracking_number VARCHAR(100),
+  is_internal BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_order_tracking_event_type
+    CHECK (event_type IN ('status_change', 'cancellation', 'note', 'tracking_number'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_tracking_order_id ON public.order_tracking(order_id, created_at);
+
+ALTER TABLE public.order_tracking ENABLE ROW LEVEL SECURITY;
+
+-- Customers can read the public part of their own order history; writes go through the service role
+DROP POLICY IF EXISTS "Customers read own order tracking" ON public.order_tracking;
+CREATE POLICY "Customers read own order tracking" ON public.order_tracking
+  FOR SELECT USING (
+    is_internal = false AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_tracking.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+-- Give existing orders a starting entry so their timeline is not empty
+INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_at)
+SELECT o.id, 'status_change', 'Pending Confirmation', 'Order created', o.customer_id, o.order_date
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_tracking t WHERE t.order_id = o.id);
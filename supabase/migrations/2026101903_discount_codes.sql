@@ -0,0 +1,145 @@
+-- Coupons, their product/category targets and every redemption against an order
+CREATE TABLE IF NOT EXISTS public.discount_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  description TEXT,
+  type VARCHAR(20) NOT NULL,
+  value DECIMAL(10,2) NOT NULL,
+  min_order_amount DECIMAL(10,2),
+  max_discount DECIMAL(10,2),
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  usage_limit INTEGER,
+  per_customer_limit INTEGER,
+  used_count INTEGER NOT NULL DEFAULT 0,
+  applies_to VARCHAR(20) NOT NULL DEFAULT 'all',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_discount_code_upper CHECK (code = upper(code)),
+  CONSTRAINT check_discount_type CHECK (type IN ('percentage', 'fixed')),
+  CONSTRAINT check_discount_value CHECK (value > 0 AND (type <> 'percentage' OR value <= 100)),
+  CONSTRAINT check_discount_applies_to CHECK (applies_to IN ('all', 'products', 'categories')),
+  CONSTRAINT check_discount_used_count CHECK (usage_limit IS NULL OR used_count <= usage_limit)
+);
+
+CREATE TABLE IF NOT EXISTS public.discount_code_products (
+  discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  PRIMARY KEY (discount_code_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.discount_code_categories (
+  discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  PRIMARY KEY (discount_code_id, category_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.discount_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE RESTRICT,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  customer_id UUID,
+  amount DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (discount_code_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_customer
+  ON public.discount_redemptions(discount_code_id, customer_id);
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_order ON public.discount_redemptions(order_id);
+
+DROP TRIGGER IF EXISTS update_discount_codes_updated_at ON public.discount_codes;
+CREATE TRIGGER update_discount_codes_updated_at
+  BEFORE UPDATE ON public.discount_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only the service role touches these tables
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_code_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_code_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Re-checks every limit while holding a row lock on the coupon, so concurrent
+-- checkouts cannot redeem past usage_limit or per_customer_limit.
+CREATE OR REPLACE FUNCTION public.redeem_discount_code(
+  p_code VARCHAR,
+  p_order_id UUID,
+  p_customer_id UUID,
+  p_amount DECIMAL
+) RETURNS UUID AS $$
+DECLARE
+  v_discount public.discount_codes%ROWTYPE;
+  v_customer_uses INTEGER;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_discount FROM public.discount_codes
+  WHERE code = upper(p_code)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DISCOUNT_NOT_FOUND';
+  END IF;
+  IF NOT v_discount.is_active THEN
+    RAISE EXCEPTION 'DISCOUNT_INACTIVE';
+  END IF;
+  IF v_discount.starts_at IS NOT NULL AND NOW() < v_discount.starts_at THEN
+    RAISE EXCEPTION 'DISCOUNT_NOT_STARTED';
+  END IF;
+  IF v_discount.expires_at IS NOT NULL AND NOW() > v_discount.expires_at THEN
+    RAISE EXCEPTION 'DISCOUNT_EXPIRED';
+  END IF;
+  IF v_discount.usage_limit IS NOT NULL AND v_discount.used_count >= v_discount.usage_limit THEN
+    RAISE EXCEPTION 'DISCOUNT_USAGE_LIMIT_REACHED';
+  END IF;
+
+  IF v_discount.per_customer_limit IS NOT NULL AND p_customer_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_uses FROM public.discount_redemptions
+    WHERE discount_code_id = v_discount.id AND customer_id = p_customer_id;
+
+    IF v_customer_uses >= v_discount.per_customer_limit THEN
+      RAISE EXCEPTION 'DISCOUNT_CUSTOMER_LIMIT_REACHED';
+    END IF;
+  END IF;
+
+  INSERT INTO public.discount_redemptions (discount_code_id, order_id, customer_id, amount)
+  VALUES (v_discount.id, p_order_id, p_customer_id, p_amount)
+  RETURNING id INTO v_redemption_id;
+
+  UPDATE public.discount_codes SET used_count = used_count + 1 WHERE id = v_discount.id;
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives the usage back when an order is cancelled
+CREATE OR REPLACE FUNCTION public.release_discount_redemptions(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_released INTEGER := 0;
+  v_redemption RECORD;
+BEGIN
+  FOR v_redemption IN
+    DELETE FROM public.discount_redemptions WHERE order_id = p_order_id RETURNING discount_code_id
+  LOOP
+    UPDATE public.discount_codes
+    SET used_count = GREATEST(used_count - 1, 0)
+    WHERE id = v_redemption.discount_code_id;
+    v_released := v_released + 1;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.redeem_discount_code(VARCHAR, UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_discount_redemptions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The codes previously hard-coded in DiscountService
+INSERT INTO public.discount_codes (code, type, value, min_order_amount, max_discount, usage_limit)
+VALUES
+  ('WELCOME10', 'percentage', 10, 50, 20, 100),
+  ('SAVE5', 'fixed', 5, 25, NULL, 50),
+  ('HONEY20', 'percentage', 20, 100, 50, 25)
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Amount breakdown stored on each order (see src/services/orders/order-totals.ts)
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS subtotal NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_code VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Existing orders had neither discount nor tax applied
+UPDATE public.orders
+SET subtotal = total_amount - COALESCE(delivery_fee, 0)
+WHERE subtotal IS NULL;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS check_order_amounts;
+ALTER TABLE public.orders
+  ADD CONSTRAINT check_order_amounts
+  CHECK (discount_amount >= 0 AND tax_rate >= 0 AND tax_amount >= 0);
@@ -0,0 +1,81 @@
+-- Invoices with gap-free sequential numbers per fiscal year (see src/services/invoices)
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  fiscal_year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE RESTRICT,
+  invoice_number VARCHAR(30) NOT NULL UNIQUE,
+  fiscal_year INTEGER NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  total_amount NUMERIC(10,2) NOT NULL,
+  issued_by UUID,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (fiscal_year, sequence_number)
+);
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers read own invoices" ON public.invoices;
+CREATE POLICY "Customers read own invoices" ON public.invoices
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = invoices.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+-- Returns the order's invoice, issuing it on first call. The counter row is
+-- incremented in the same transaction as the insert, so a failed insert
+-- never leaves a gap, and the order row lock serializes concurrent requests.
+CREATE OR REPLACE FUNCTION public.issue_invoice(p_order_id UUID, p_issued_by UUID DEFAULT NULL)
+RETURNS public.invoices AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_order.status = 'Cancelled' THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_CANCELLED';
+  END IF;
+  IF v_order.status = 'Pending Confirmation' THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_NOT_CONFIRMED';
+  END IF;
+
+  INSERT INTO public.invoice_sequences (fiscal_year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.invoices (order_id, invoice_number, fiscal_year, sequence_number, total_amount, issued_by)
+  VALUES (
+    p_order_id,
+    'FAC-' || v_year || '-' || lpad(v_number::TEXT, 6, '0'),
+    v_year,
+    v_number,
+    v_order.total_amount,
+    p_issued_by
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.issue_invoice(UUID, UUID) FROM PUBLIC, anon, authenticated;
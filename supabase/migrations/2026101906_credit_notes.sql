@@ -0,0 +1,201 @@
+-- Refunds: payment refund status and credit notes linked to the original invoice (see src/services/refunds)
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS status VARCHAR(30) NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS check_payment_status;
+ALTER TABLE public.payments ADD CONSTRAINT check_payment_status
+  CHECK (status IN ('pending', 'completed', 'failed', 'refunded', 'partially_refunded'));
+
+ALTER TABLE public.order_tracking DROP CONSTRAINT IF EXISTS check_order_tracking_event_type;
+ALTER TABLE public.order_tracking ADD CONSTRAINT check_order_tracking_event_type
+  CHECK (event_type IN ('status_change', 'cancellation', 'note', 'tracking_number', 'refund'));
+
+CREATE TABLE IF NOT EXISTS public.credit_note_sequences (
+  fiscal_year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE RESTRICT,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  credit_note_number VARCHAR(30) NOT NULL UNIQUE,
+  fiscal_year INTEGER NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  subtotal NUMERIC(10,2) NOT NULL DEFAULT 0,
+  tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  shipping_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10,2) NOT NULL,
+  reason TEXT,
+  restocked BOOLEAN NOT NULL DEFAULT false,
+  issued_by UUID,
+  issued_by_email VARCHAR(255),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (fiscal_year, sequence_number),
+  CONSTRAINT check_credit_note_amounts CHECK (
+    subtotal >= 0 AND tax_amount >= 0 AND shipping_amount >= 0 AND total_amount > 0
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE RESTRICT,
+  product_id UUID,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_order_id ON public.credit_notes(order_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_order_item_id ON public.credit_note_items(order_item_id);
+
+ALTER TABLE public.credit_note_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers read own credit notes" ON public.credit_notes;
+CREATE POLICY "Customers read own credit notes" ON public.credit_notes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = credit_notes.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Customers read own credit note items" ON public.credit_note_items;
+CREATE POLICY "Customers read own credit note items" ON public.credit_note_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.credit_notes
+      JOIN public.orders ON orders.id = credit_notes.order_id
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+-- Records a refund in one transaction: numbers the credit note, stores its
+-- lines, optionally puts the returned units back in stock, updates the
+-- payment and adds an entry to the order history. Amounts are computed by
+-- the service; the limits are checked again here under the order row lock
+-- so two concurrent refunds cannot credit more than was ordered.
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_order_id UUID,
+  p_items JSONB,
+  p_subtotal NUMERIC,
+  p_tax_amount NUMERIC,
+  p_shipping_amount NUMERIC,
+  p_total_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT false,
+  p_issued_by UUID DEFAULT NULL,
+  p_issued_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.credit_notes AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_credit_note public.credit_notes%ROWTYPE;
+  v_invoice_id UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+  v_refunded NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_ORDER_NOT_FOUND';
+  END IF;
+
+  IF p_total_amount IS NULL OR p_total_amount <= 0 THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EMPTY';
+  END IF;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_refunded FROM public.credit_notes WHERE order_id = p_order_id;
+  IF v_refunded + p_total_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EXCEEDS_ORDER_TOTAL';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+    LEFT JOIN public.order_items oi ON oi.id = i.order_item_id AND oi.order_id = p_order_id
+    WHERE oi.id IS NULL
+      OR i.quantity + (
+        SELECT COALESCE(SUM(cni.quantity), 0) FROM public.credit_note_items cni WHERE cni.order_item_id = oi.id
+      ) > oi.quantity
+  ) THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_QUANTITY_EXCEEDED';
+  END IF;
+
+  SELECT id INTO v_invoice_id FROM public.invoices WHERE order_id = p_order_id;
+
+  INSERT INTO public.credit_note_sequences (fiscal_year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = public.credit_note_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.credit_notes (
+    order_id, invoice_id, credit_note_number, fiscal_year, sequence_number, subtotal, tax_rate,
+    tax_amount, shipping_amount, total_amount, reason, restocked, issued_by, issued_by_email
+  )
+  VALUES (
+    p_order_id,
+    v_invoice_id,
+    'AV-' || v_year || '-' || lpad(v_number::TEXT, 6, '0'),
+    v_year,
+    v_number,
+    p_subtotal,
+    COALESCE(v_order.tax_rate, 0),
+    p_tax_amount,
+    p_shipping_amount,
+    p_total_amount,
+    p_reason,
+    p_restock,
+    p_issued_by,
+    p_issued_by_email
+  )
+  RETURNING * INTO v_credit_note;
+
+  INSERT INTO public.credit_note_items (credit_note_id, order_item_id, product_id, quantity, amount)
+  SELECT v_credit_note.id, oi.id, oi.product_id, i.quantity, i.amount
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+  JOIN public.order_items oi ON oi.id = i.order_item_id;
+
+  IF p_restock THEN
+    UPDATE public.products p
+    SET stock = p.stock + returned.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.credit_note_items
+      WHERE credit_note_id = v_credit_note.id AND quantity > 0
+      GROUP BY product_id
+    ) AS returned
+    WHERE p.id = returned.product_id;
+  END IF;
+
+  -- Cash on delivery orders have no payment row until the cash is collected
+  UPDATE public.payments
+  SET
+    refunded_amount = refunded_amount + p_total_amount,
+    status = CASE WHEN refunded_amount + p_total_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+  VALUES (
+    p_order_id,
+    'refund',
+    v_order.status,
+    'إشعار دائن ' || v_credit_note.credit_note_number || ' بمبلغ ' || to_char(p_total_amount, 'FM999999990.00') || ' د.ت',
+    p_issued_by,
+    p_issued_by_email
+  );
+
+  RETURN v_credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.issue_credit_note(UUID, JSONB, NUMERIC, NUMERIC, NUMERIC, NUMERIC, TEXT, BOOLEAN, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
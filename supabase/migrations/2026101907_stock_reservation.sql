@@ -0,0 +1,118 @@
+-- Atomic stock reservation: orders, their items, the stock decrement and the
+-- coupon redemption are written in one transaction (see src/services/orders)
+
+-- Existing rows are not checked, so a product already oversold does not block the migration
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS check_product_stock_non_negative;
+ALTER TABLE public.products ADD CONSTRAINT check_product_stock_non_negative CHECK (stock >= 0) NOT VALID;
+
+-- Takes stock for a list of {product_id, quantity}. Each decrement is a
+-- conditional UPDATE, so the row lock it takes decides which of two
+-- concurrent checkouts gets the last units. Products are locked in id order
+-- to avoid deadlocks between orders sharing products.
+CREATE OR REPLACE FUNCTION public.reserve_stock(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  FOR v_item IN
+    SELECT i.product_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER)
+    GROUP BY i.product_id
+    ORDER BY i.product_id
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY' USING DETAIL = v_item.product_id::TEXT;
+    END IF;
+
+    UPDATE public.products
+    SET stock = stock - v_item.quantity
+    WHERE id = v_item.product_id AND stock >= v_item.quantity;
+
+    IF NOT FOUND THEN
+      IF EXISTS (SELECT 1 FROM public.products WHERE id = v_item.product_id) THEN
+        RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING DETAIL = v_item.product_id::TEXT;
+      END IF;
+      RAISE EXCEPTION 'PRODUCT_NOT_FOUND' USING DETAIL = v_item.product_id::TEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives back stock for a list of {product_id, quantity}
+CREATE OR REPLACE FUNCTION public.release_stock(p_items JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.products p
+  SET stock = p.stock + released.quantity
+  FROM (
+    SELECT i.product_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER)
+    WHERE i.quantity > 0
+    GROUP BY i.product_id
+  ) AS released
+  WHERE p.id = released.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Creates an order with its items. Any failure (stock, coupon, constraint)
+-- rolls back everything, including stock already taken for earlier lines.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_discount_code VARCHAR DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  PERFORM public.reserve_stock(p_items);
+
+  INSERT INTO public.orders (
+    customer_id, subtotal, discount_amount, discount_code, tax_rate, tax_amount, delivery_fee,
+    total_amount, shipping_address_id, payment_method, notes, status, order_date
+  )
+  SELECT
+    o.customer_id, o.subtotal, o.discount_amount, o.discount_code, o.tax_rate, o.tax_amount, o.delivery_fee,
+    o.total_amount, o.shipping_address_id, o.payment_method, o.notes, o.status, COALESCE(o.order_date, NOW())
+  FROM jsonb_populate_record(NULL::public.orders, p_order) AS o
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, i.product_id, i.quantity, i.price
+  FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER, price NUMERIC);
+
+  IF p_discount_code IS NOT NULL THEN
+    PERFORM public.redeem_discount_code(p_discount_code, v_order.id, v_order.customer_id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Puts a cancelled order's items back in stock. Units already restocked by
+-- a credit note are left out so they are not counted twice.
+CREATE OR REPLACE FUNCTION public.restore_order_stock(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_items JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('product_id', oi.product_id, 'quantity', oi.quantity - COALESCE((
+    SELECT SUM(cni.quantity)
+    FROM public.credit_note_items cni
+    JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+    WHERE cni.order_item_id = oi.id AND cn.restocked
+  ), 0))), '[]'::JSONB)
+  INTO v_items
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  PERFORM public.release_stock(v_items);
+
+  RETURN jsonb_array_length(v_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reserve_stock(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_stock(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_order_with_items(JSONB, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.restore_order_stock(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,329 @@
+-- Inventory ledger: every change to products.stock is recorded with its reason
+-- and author, and products get an optional low-stock threshold (see src/services/inventory)
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER;
+
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS check_product_low_stock_threshold;
+ALTER TABLE public.products ADD CONSTRAINT check_product_low_stock_threshold
+  CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0);
+
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity_change INTEGER NOT NULL,
+  stock_after INTEGER NOT NULL,
+  reason VARCHAR(20) NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_inventory_movement_reason
+    CHECK (reason IN ('sale', 'cancellation', 'return', 'restock', 'adjustment')),
+  CONSTRAINT check_inventory_movement_change CHECK (quantity_change <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_id
+  ON public.inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_id ON public.inventory_movements(order_id);
+
+-- Only the service role reads the ledger
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Tells the ledger trigger why stock is about to change. The settings are
+-- local to the transaction, so they end with the calling function's work.
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_reason VARCHAR,
+  p_order_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email VARCHAR DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.stock_movement_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.stock_movement_order_id', COALESCE(p_order_id::TEXT, ''), true);
+  PERFORM set_config('app.stock_movement_user_id', COALESCE(p_user_id::TEXT, ''), true);
+  PERFORM set_config('app.stock_movement_user_email', COALESCE(p_user_email, ''), true);
+  PERFORM set_config('app.stock_movement_note', COALESCE(p_note, ''), true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Writes a ledger entry for every stock change, whatever made it. Writes
+-- without a context (the product edit form, the SQL editor) are recorded as
+-- manual adjustments by the signed-in user.
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_change INTEGER;
+BEGIN
+  v_change := CASE WHEN TG_OP = 'INSERT' THEN NEW.stock ELSE NEW.stock - OLD.stock END;
+  IF v_change IS NULL OR v_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.inventory_movements (
+    product_id, quantity_change, stock_after, reason, order_id, note, created_by, created_by_email
+  )
+  VALUES (
+    NEW.id,
+    v_change,
+    NEW.stock,
+    COALESCE(
+      NULLIF(current_setting('app.stock_movement_reason', true), ''),
+      CASE WHEN TG_OP = 'INSERT' THEN 'restock' ELSE 'adjustment' END
+    ),
+    NULLIF(current_setting('app.stock_movement_order_id', true), '')::UUID,
+    NULLIF(current_setting('app.stock_movement_note', true), ''),
+    COALESCE(NULLIF(current_setting('app.stock_movement_user_id', true), '')::UUID, auth.uid()),
+    COALESCE(NULLIF(current_setting('app.stock_movement_user_email', true), ''), auth.jwt() ->> 'email')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_product_stock_movement ON public.products;
+CREATE TRIGGER record_product_stock_movement
+  AFTER INSERT OR UPDATE OF stock ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_inventory_movement();
+
+-- Opening balance so the history of existing products adds up to their stock
+INSERT INTO public.inventory_movements (product_id, quantity_change, stock_after, reason, note, created_at)
+SELECT p.id, p.stock, p.stock, 'adjustment', 'Opening balance', p.created_at
+FROM public.products p
+WHERE p.stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.inventory_movements m WHERE m.product_id = p.id);
+
+-- Restocks and stock counts entered from the admin product page
+CREATE OR REPLACE FUNCTION public.adjust_product_stock(
+  p_product_id UUID,
+  p_quantity_change INTEGER,
+  p_reason VARCHAR,
+  p_note TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email VARCHAR DEFAULT NULL
+)
+RETURNS public.products AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+BEGIN
+  IF p_reason IS NULL OR p_reason NOT IN ('restock', 'adjustment') THEN
+    RAISE EXCEPTION 'INVALID_STOCK_REASON';
+  END IF;
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 OR (p_reason = 'restock' AND p_quantity_change < 0) THEN
+    RAISE EXCEPTION 'INVALID_QUANTITY';
+  END IF;
+
+  PERFORM public.set_stock_movement_context(p_reason, NULL, p_user_id, p_user_email, p_note);
+
+  UPDATE public.products
+  SET stock = stock + p_quantity_change
+  WHERE id = p_product_id AND stock + p_quantity_change >= 0
+  RETURNING * INTO v_product;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM public.products WHERE id = p_product_id) THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK';
+    END IF;
+    RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+  END IF;
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101907, with the order recorded against the stock it takes.
+-- The order row is written first so its id is known when stock is reserved.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_discount_code VARCHAR DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  INSERT INTO public.orders (
+    customer_id, subtotal, discount_amount, discount_code, tax_rate, tax_amount, delivery_fee,
+    total_amount, shipping_address_id, payment_method, notes, status, order_date
+  )
+  SELECT
+    o.customer_id, o.subtotal, o.discount_amount, o.discount_code, o.tax_rate, o.tax_amount, o.delivery_fee,
+    o.total_amount, o.shipping_address_id, o.payment_method, o.notes, o.status, COALESCE(o.order_date, NOW())
+  FROM jsonb_populate_record(NULL::public.orders, p_order) AS o
+  RETURNING * INTO v_order;
+
+  PERFORM public.set_stock_movement_context('sale', v_order.id, v_order.customer_id);
+  PERFORM public.reserve_stock(p_items);
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, i.product_id, i.quantity, i.price
+  FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER, price NUMERIC);
+
+  IF p_discount_code IS NOT NULL THEN
+    PERFORM public.redeem_discount_code(p_discount_code, v_order.id, v_order.customer_id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101907, now told who cancelled the order
+DROP FUNCTION IF EXISTS public.restore_order_stock(UUID);
+CREATE OR REPLACE FUNCTION public.restore_order_stock(
+  p_order_id UUID,
+  p_cancelled_by UUID DEFAULT NULL,
+  p_cancelled_by_email VARCHAR DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_items JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('product_id', oi.product_id, 'quantity', oi.quantity - COALESCE((
+    SELECT SUM(cni.quantity)
+    FROM public.credit_note_items cni
+    JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+    WHERE cni.order_item_id = oi.id AND cn.restocked
+  ), 0))), '[]'::JSONB)
+  INTO v_items
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  PERFORM public.set_stock_movement_context('cancellation', p_order_id, p_cancelled_by, p_cancelled_by_email);
+  PERFORM public.release_stock(v_items);
+
+  RETURN jsonb_array_length(v_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101906, with restocked units recorded as a return
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_order_id UUID,
+  p_items JSONB,
+  p_subtotal NUMERIC,
+  p_tax_amount NUMERIC,
+  p_shipping_amount NUMERIC,
+  p_total_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT false,
+  p_issued_by UUID DEFAULT NULL,
+  p_issued_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.credit_notes AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_credit_note public.credit_notes%ROWTYPE;
+  v_invoice_id UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+  v_refunded NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_ORDER_NOT_FOUND';
+  END IF;
+
+  IF p_total_amount IS NULL OR p_total_amount <= 0 THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EMPTY';
+  END IF;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_refunded FROM public.credit_notes WHERE order_id = p_order_id;
+  IF v_refunded + p_total_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EXCEEDS_ORDER_TOTAL';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+    LEFT JOIN public.order_items oi ON oi.id = i.order_item_id AND oi.order_id = p_order_id
+    WHERE oi.id IS NULL
+      OR i.quantity + (
+        SELECT COALESCE(SUM(cni.quantity), 0) FROM public.credit_note_items cni WHERE cni.order_item_id = oi.id
+      ) > oi.quantity
+  ) THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_QUANTITY_EXCEEDED';
+  END IF;
+
+  SELECT id INTO v_invoice_id FROM public.invoices WHERE order_id = p_order_id;
+
+  INSERT INTO public.credit_note_sequences (fiscal_year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = public.credit_note_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.credit_notes (
+    order_id, invoice_id, credit_note_number, fiscal_year, sequence_number, subtotal, tax_rate,
+    tax_amount, shipping_amount, total_amount, reason, restocked, issued_by, issued_by_email
+  )
+  VALUES (
+    p_order_id,
+    v_invoice_id,
+    'AV-' || v_year || '-' || lpad(v_number::TEXT, 6, '0'),
+    v_year,
+    v_number,
+    p_subtotal,
+    COALESCE(v_order.tax_rate, 0),
+    p_tax_amount,
+    p_shipping_amount,
+    p_total_amount,
+    p_reason,
+    p_restock,
+    p_issued_by,
+    p_issued_by_email
+  )
+  RETURNING * INTO v_credit_note;
+
+  INSERT INTO public.credit_note_items (credit_note_id, order_item_id, product_id, quantity, amount)
+  SELECT v_credit_note.id, oi.id, oi.product_id, i.quantity, i.amount
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+  JOIN public.order_items oi ON oi.id = i.order_item_id;
+
+  IF p_restock THEN
+    PERFORM public.set_stock_movement_context(
+      'return', p_order_id, p_issued_by, p_issued_by_email, v_credit_note.credit_note_number
+    );
+
+    UPDATE public.products p
+    SET stock = p.stock + returned.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.credit_note_items
+      WHERE credit_note_id = v_credit_note.id AND quantity > 0
+      GROUP BY product_id
+    ) AS returned
+    WHERE p.id = returned.product_id;
+  END IF;
+
+  -- Cash on delivery orders have no payment row until the cash is collected
+  UPDATE public.payments
+  SET
+    refunded_amount = refunded_amount + p_total_amount,
+    status = CASE WHEN refunded_amount + p_total_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+  VALUES (
+    p_order_id,
+    'refund',
+    v_order.status,
+    'إشعار دائن ' || v_credit_note.credit_note_number || ' بمبلغ ' || to_char(p_total_amount, 'FM999999990.00') || ' د.ت',
+    p_issued_by,
+    p_issued_by_email
+  );
+
+  RETURN v_credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.set_stock_movement_context(VARCHAR, UUID, UUID, VARCHAR, TEXT)
+  FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.adjust_product_stock(UUID, INTEGER, VARCHAR, TEXT, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_order_with_items(JSONB, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.restore_order_stock(UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.issue_credit_note(UUID, JSONB, NUMERIC, NUMERIC, NUMERIC, NUMERIC, TEXT, BOOLEAN, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,465 @@
+-- Product variants (jar sizes): each has its own SKU, weight, price and stock.
+-- A product with active variants keeps its stock on them; products.stock is
+-- their total so listings and "in stock" filters keep working (see
+-- src/services/products/product-variants.service.ts)
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  sku VARCHAR(64) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  weight_grams INTEGER CHECK (weight_grams IS NULL OR weight_grams > 0),
+  price NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id, sort_order);
+
+DROP TRIGGER IF EXISTS update_product_variants_updated_at ON public.product_variants;
+CREATE TRIGGER update_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Shoppers see the variants on sale; the admin manages them through the service role
+DROP POLICY IF EXISTS "Anyone can read active product variants" ON public.product_variants;
+CREATE POLICY "Anyone can read active product variants" ON public.product_variants
+  FOR SELECT USING (is_active);
+
+-- Carts and orders point at the chosen variant; the order keeps its name in
+-- case the variant is renamed later
+ALTER TABLE public.cart_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variant_name VARCHAR(100);
+
+ALTER TABLE public.inventory_movements
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_variant_id ON public.cart_items(variant_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_variant_id ON public.order_items(variant_id);
+
+-- Keeps products.stock equal to the stock of its active variants. The
+-- setting tells the ledger trigger the change is already recorded per variant.
+CREATE OR REPLACE FUNCTION public.sync_product_stock_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+  PERFORM set_config('app.syncing_variant_stock', 'on', true);
+
+  UPDATE public.products
+  SET stock = (
+    SELECT COALESCE(SUM(v.stock), 0)
+    FROM public.product_variants v
+    WHERE v.product_id = v_product_id AND v.is_active
+  )
+  WHERE id = v_product_id;
+
+  PERFORM set_config('app.syncing_variant_stock', '', true);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_product_stock_from_variants ON public.product_variants;
+CREATE TRIGGER sync_product_stock_from_variants
+  AFTER INSERT OR DELETE OR UPDATE OF stock, is_active ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_stock_from_variants();
+
+-- Same as in 2026101908, now also recording variant stock changes
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_change INTEGER;
+  v_product_id UUID;
+  v_variant_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'products' AND current_setting('app.syncing_variant_stock', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  v_change := CASE WHEN TG_OP = 'INSERT' THEN NEW.stock ELSE NEW.stock - OLD.stock END;
+  IF v_change IS NULL OR v_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    v_product_id := NEW.product_id;
+    v_variant_id := NEW.id;
+  ELSE
+    v_product_id := NEW.id;
+  END IF;
+
+  INSERT INTO public.inventory_movements (
+    product_id, variant_id, quantity_change, stock_after, reason, order_id, note, created_by, created_by_email
+  )
+  VALUES (
+    v_product_id,
+    v_variant_id,
+    v_change,
+    NEW.stock,
+    COALESCE(
+      NULLIF(current_setting('app.stock_movement_reason', true), ''),
+      CASE WHEN TG_OP = 'INSERT' THEN 'restock' ELSE 'adjustment' END
+    ),
+    NULLIF(current_setting('app.stock_movement_order_id', true), '')::UUID,
+    NULLIF(current_setting('app.stock_movement_note', true), ''),
+    COALESCE(NULLIF(current_setting('app.stock_movement_user_id', true), '')::UUID, auth.uid()),
+    COALESCE(NULLIF(current_setting('app.stock_movement_user_email', true), ''), auth.jwt() ->> 'email')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_variant_stock_movement ON public.product_variants;
+CREATE TRIGGER record_variant_stock_movement
+  AFTER INSERT OR UPDATE OF stock ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_inventory_movement();
+
+-- Same as in 2026101907, taking stock from the variant when one is given.
+-- Errors carry the product id in DETAIL and the variant id in HINT.
+CREATE OR REPLACE FUNCTION public.reserve_stock(p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  FOR v_item IN
+    SELECT i.product_id, i.variant_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER)
+    GROUP BY i.product_id, i.variant_id
+    ORDER BY i.product_id, i.variant_id
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY' USING DETAIL = v_item.product_id::TEXT;
+    END IF;
+
+    IF v_item.variant_id IS NULL THEN
+      IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_item.product_id AND is_active) THEN
+        RAISE EXCEPTION 'VARIANT_REQUIRED' USING DETAIL = v_item.product_id::TEXT;
+      END IF;
+
+      UPDATE public.products
+      SET stock = stock - v_item.quantity
+      WHERE id = v_item.product_id AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        IF EXISTS (SELECT 1 FROM public.products WHERE id = v_item.product_id) THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING DETAIL = v_item.product_id::TEXT;
+        END IF;
+        RAISE EXCEPTION 'PRODUCT_NOT_FOUND' USING DETAIL = v_item.product_id::TEXT;
+      END IF;
+    ELSE
+      UPDATE public.product_variants
+      SET stock = stock - v_item.quantity
+      WHERE id = v_item.variant_id AND product_id = v_item.product_id AND is_active AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        IF EXISTS (
+          SELECT 1 FROM public.product_variants
+          WHERE id = v_item.variant_id AND product_id = v_item.product_id AND is_active
+        ) THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK'
+            USING DETAIL = v_item.product_id::TEXT, HINT = v_item.variant_id::TEXT;
+        END IF;
+        RAISE EXCEPTION 'VARIANT_NOT_FOUND' USING DETAIL = v_item.product_id::TEXT, HINT = v_item.variant_id::TEXT;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101907, giving stock back to the variant when one is given
+CREATE OR REPLACE FUNCTION public.release_stock(p_items JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.products p
+  SET stock = p.stock + released.quantity
+  FROM (
+    SELECT i.product_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE i.quantity > 0 AND i.variant_id IS NULL
+    GROUP BY i.product_id
+  ) AS released
+  WHERE p.id = released.product_id;
+
+  UPDATE public.product_variants v
+  SET stock = v.stock + released.quantity
+  FROM (
+    SELECT i.variant_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE i.quantity > 0 AND i.variant_id IS NOT NULL
+    GROUP BY i.variant_id
+  ) AS released
+  WHERE v.id = released.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101908, storing the chosen variant on each order line
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_discount_code VARCHAR DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  INSERT INTO public.orders (
+    customer_id, subtotal, discount_amount, discount_code, tax_rate, tax_amount, delivery_fee,
+    total_amount, shipping_address_id, payment_method, notes, status, order_date
+  )
+  SELECT
+    o.customer_id, o.subtotal, o.discount_amount, o.discount_code, o.tax_rate, o.tax_amount, o.delivery_fee,
+    o.total_amount, o.shipping_address_id, o.payment_method, o.notes, o.status, COALESCE(o.order_date, NOW())
+  FROM jsonb_populate_record(NULL::public.orders, p_order) AS o
+  RETURNING * INTO v_order;
+
+  PERFORM public.set_stock_movement_context('sale', v_order.id, v_order.customer_id);
+  PERFORM public.reserve_stock(p_items);
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, variant_name, quantity, price)
+  SELECT v_order.id, i.product_id, i.variant_id, v.name, i.quantity, i.price
+  FROM jsonb_to_recordset(p_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER, price NUMERIC)
+  LEFT JOIN public.product_variants v ON v.id = i.variant_id;
+
+  IF p_discount_code IS NOT NULL THEN
+    PERFORM public.redeem_discount_code(p_discount_code, v_order.id, v_order.customer_id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101908, restoring each line to its variant
+CREATE OR REPLACE FUNCTION public.restore_order_stock(
+  p_order_id UUID,
+  p_cancelled_by UUID DEFAULT NULL,
+  p_cancelled_by_email VARCHAR DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_items JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', oi.product_id,
+    'variant_id', oi.variant_id,
+    'quantity', oi.quantity - COALESCE((
+      SELECT SUM(cni.quantity)
+      FROM public.credit_note_items cni
+      JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+      WHERE cni.order_item_id = oi.id AND cn.restocked
+    ), 0)
+  )), '[]'::JSONB)
+  INTO v_items
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  PERFORM public.set_stock_movement_context('cancellation', p_order_id, p_cancelled_by, p_cancelled_by_email);
+  PERFORM public.release_stock(v_items);
+
+  RETURN jsonb_array_length(v_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101908, with an optional variant. Products sold in
+-- variants are counted per variant.
+DROP FUNCTION IF EXISTS public.adjust_product_stock(UUID, INTEGER, VARCHAR, TEXT, UUID, VARCHAR);
+CREATE OR REPLACE FUNCTION public.adjust_product_stock(
+  p_product_id UUID,
+  p_quantity_change INTEGER,
+  p_reason VARCHAR,
+  p_note TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email VARCHAR DEFAULT NULL,
+  p_variant_id UUID DEFAULT NULL
+)
+RETURNS public.products AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+BEGIN
+  IF p_reason IS NULL OR p_reason NOT IN ('restock', 'adjustment') THEN
+    RAISE EXCEPTION 'INVALID_STOCK_REASON';
+  END IF;
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 OR (p_reason = 'restock' AND p_quantity_change < 0) THEN
+    RAISE EXCEPTION 'INVALID_QUANTITY';
+  END IF;
+
+  PERFORM public.set_stock_movement_context(p_reason, NULL, p_user_id, p_user_email, p_note);
+
+  IF p_variant_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id AND is_active) THEN
+      RAISE EXCEPTION 'VARIANT_REQUIRED';
+    END IF;
+
+    UPDATE public.products
+    SET stock = stock + p_quantity_change
+    WHERE id = p_product_id AND stock + p_quantity_change >= 0
+    RETURNING * INTO v_product;
+
+    IF NOT FOUND THEN
+      IF EXISTS (SELECT 1 FROM public.products WHERE id = p_product_id) THEN
+        RAISE EXCEPTION 'INSUFFICIENT_STOCK';
+      END IF;
+      RAISE EXCEPTION 'PRODUCT_NOT_FOUND';
+    END IF;
+
+    RETURN v_product;
+  END IF;
+
+  UPDATE public.product_variants
+  SET stock = stock + p_quantity_change
+  WHERE id = p_variant_id AND product_id = p_product_id AND stock + p_quantity_change >= 0;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id) THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK';
+    END IF;
+    RAISE EXCEPTION 'VARIANT_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as in 2026101908, returning units to the variant they were sold from
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_order_id UUID,
+  p_items JSONB,
+  p_subtotal NUMERIC,
+  p_tax_amount NUMERIC,
+  p_shipping_amount NUMERIC,
+  p_total_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT false,
+  p_issued_by UUID DEFAULT NULL,
+  p_issued_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.credit_notes AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_credit_note public.credit_notes%ROWTYPE;
+  v_invoice_id UUID;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+  v_refunded NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_ORDER_NOT_FOUND';
+  END IF;
+
+  IF p_total_amount IS NULL OR p_total_amount <= 0 THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EMPTY';
+  END IF;
+
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_refunded FROM public.credit_notes WHERE order_id = p_order_id;
+  IF v_refunded + p_total_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_EXCEEDS_ORDER_TOTAL';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+    LEFT JOIN public.order_items oi ON oi.id = i.order_item_id AND oi.order_id = p_order_id
+    WHERE oi.id IS NULL
+      OR i.quantity + (
+        SELECT COALESCE(SUM(cni.quantity), 0) FROM public.credit_note_items cni WHERE cni.order_item_id = oi.id
+      ) > oi.quantity
+  ) THEN
+    RAISE EXCEPTION 'CREDIT_NOTE_QUANTITY_EXCEEDED';
+  END IF;
+
+  SELECT id INTO v_invoice_id FROM public.invoices WHERE order_id = p_order_id;
+
+  INSERT INTO public.credit_note_sequences (fiscal_year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = public.credit_note_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.credit_notes (
+    order_id, invoice_id, credit_note_number, fiscal_year, sequence_number, subtotal, tax_rate,
+    tax_amount, shipping_amount, total_amount, reason, restocked, issued_by, issued_by_email
+  )
+  VALUES (
+    p_order_id,
+    v_invoice_id,
+    'AV-' || v_year || '-' || lpad(v_number::TEXT, 6, '0'),
+    v_year,
+    v_number,
+    p_subtotal,
+    COALESCE(v_order.tax_rate, 0),
+    p_tax_amount,
+    p_shipping_amount,
+    p_total_amount,
+    p_reason,
+    p_restock,
+    p_issued_by,
+    p_issued_by_email
+  )
+  RETURNING * INTO v_credit_note;
+
+  INSERT INTO public.credit_note_items (credit_note_id, order_item_id, product_id, quantity, amount)
+  SELECT v_credit_note.id, oi.id, oi.product_id, i.quantity, i.amount
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::JSONB)) AS i(order_item_id UUID, quantity INTEGER, amount NUMERIC)
+  JOIN public.order_items oi ON oi.id = i.order_item_id;
+
+  IF p_restock THEN
+    PERFORM public.set_stock_movement_context(
+      'return', p_order_id, p_issued_by, p_issued_by_email, v_credit_note.credit_note_number
+    );
+
+    PERFORM public.release_stock((
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'variant_id', oi.variant_id,
+        'quantity', cni.quantity
+      )), '[]'::JSONB)
+      FROM public.credit_note_items cni
+      JOIN public.order_items oi ON oi.id = cni.order_item_id
+      WHERE cni.credit_note_id = v_credit_note.id AND cni.quantity > 0
+    ));
+  END IF;
+
+  -- Cash on delivery orders have no payment row until the cash is collected
+  UPDATE public.payments
+  SET
+    refunded_amount = refunded_amount + p_total_amount,
+    status = CASE WHEN refunded_amount + p_total_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+  VALUES (
+    p_order_id,
+    'refund',
+    v_order.status,
+    'إشعار دائن ' || v_credit_note.credit_note_number || ' بمبلغ ' || to_char(p_total_amount, 'FM999999990.00') || ' د.ت',
+    p_issued_by,
+    p_issued_by_email
+  );
+
+  RETURN v_credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reserve_stock(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_stock(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_order_with_items(JSONB, JSONB, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.restore_order_stock(UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.adjust_product_stock(UUID, INTEGER, VARCHAR, TEXT, UUID, VARCHAR, UUID)
+  FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.issue_credit_note(UUID, JSONB, NUMERIC, NUMERIC, NUMERIC, NUMERIC, TEXT, BOOLEAN, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
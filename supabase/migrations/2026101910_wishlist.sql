@@ -0,0 +1,43 @@
+-- Wishlists (see src/services/wishlist). Each customer has one wishlist and a
+-- product is saved at most once; duplicates from before these constraints are
+-- removed, keeping the oldest row.
+DELETE FROM public.wishlist w
+USING public.wishlist older
+WHERE w.customer_id = older.customer_id
+AND (w.created_at, w.id) > (older.created_at, older.id);
+
+DELETE FROM public.wishlist_items wi
+USING public.wishlist_items older
+WHERE wi.wishlist_id = older.wishlist_id
+AND wi.product_id = older.product_id
+AND (wi.created_at, wi.id) > (older.created_at, older.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS wishlist_customer_id_key ON public.wishlist(customer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS wishlist_items_wishlist_product_key
+  ON public.wishlist_items(wishlist_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_product ON public.wishlist_items(product_id);
+
+ALTER TABLE public.wishlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers manage own wishlist" ON public.wishlist;
+CREATE POLICY "Customers manage own wishlist" ON public.wishlist
+  FOR ALL USING (customer_id = auth.uid())
+  WITH CHECK (customer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Customers manage own wishlist items" ON public.wishlist_items;
+CREATE POLICY "Customers manage own wishlist items" ON public.wishlist_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.wishlist
+      WHERE wishlist.id = wishlist_items.wishlist_id
+      AND wishlist.customer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.wishlist
+      WHERE wishlist.id = wishlist_items.wishlist_id
+      AND wishlist.customer_id = auth.uid()
+    )
+  );
@@ -0,0 +1,40 @@
+-- Review moderation (see src/services/reviews). New reviews wait for an admin
+-- to approve them; reviews published before moderation existed stay approved.
+-- A customer reviews a product once, and the review is marked verified when
+-- they had a delivered order containing it.
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS title VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'approved'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS is_verified BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID,
+  ADD COLUMN IF NOT EXISTS moderated_by_email VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.reviews ALTER COLUMN status SET DEFAULT 'pending';
+
+-- Keep each customer's latest review of a product
+DELETE FROM public.reviews r
+USING public.reviews newer
+WHERE r.customer_id = newer.customer_id
+AND r.product_id = newer.product_id
+AND (r.created_at, r.id) < (newer.created_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reviews_customer_product_key ON public.reviews(customer_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_product_status ON public.reviews(product_id, status);
+CREATE INDEX IF NOT EXISTS idx_reviews_status_created ON public.reviews(status, created_at);
+
+DROP TRIGGER IF EXISTS update_reviews_updated_at ON public.reviews;
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- Shoppers see approved reviews and their own; reviews are written through the
+-- service role so customers cannot approve or verify their own
+DROP POLICY IF EXISTS "Anyone reads approved reviews" ON public.reviews;
+CREATE POLICY "Anyone reads approved reviews" ON public.reviews
+  FOR SELECT USING (status = 'approved' OR customer_id = auth.uid());
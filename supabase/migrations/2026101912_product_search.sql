@@ -0,0 +1,75 @@
+-- Full-text product search with Arabic normalization (see
+-- src/services/products/product-search.ts, which applies the same rules to
+-- the query). Ranking combines the weighted text match with trigram
+-- similarity, which also catches misspelled words.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Folds the spelling variants shoppers mix up: diacritics and tatweel are
+-- dropped, alef forms become bare alef, taa marbuta becomes haa, alef maqsura
+-- becomes yaa, hamza seats lose their hamza, Arabic-Indic digits become
+-- Latin ones, and the definite article is removed from each word
+-- ("العسل" and "بالعسل" both index as "عسل").
+CREATE OR REPLACE FUNCTION public.normalize_arabic(p_text TEXT)
+RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      translate(
+        -- harakat (U+064B-U+0652), superscript alef and tatweel
+        regexp_replace(lower(coalesce(p_text, '')), '[\u064B-\u0652\u0670\u0640]', '', 'g'),
+        'أإآٱةىؤئ٠١٢٣٤٥٦٧٨٩',
+        'ااااهيوي0123456789'
+      ),
+      '(^|[^[:alnum:]])(وال|بال|فال|كال|لل|ال)([[:alnum:]]{2,})', '\1\3', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_text TEXT
+    GENERATED ALWAYS AS (public.normalize_arabic(name || ' ' || coalesce(description, ''))) STORED,
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', public.normalize_arabic(name)), 'A') ||
+      setweight(to_tsvector('simple', public.normalize_arabic(coalesce(description, ''))), 'B')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON public.products USING GIN (search_text gin_trgm_ops);
+
+-- Products matching every word of the query, best first. Each word matches
+-- as a prefix ("عس" finds "عسل") or, failing that, by trigram similarity so
+-- a typo still finds the product. The query only reaches to_tsquery as
+-- quoted lexemes split on whitespace and punctuation, never as raw syntax.
+CREATE OR REPLACE FUNCTION public.search_products(p_query TEXT, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (product_id UUID, rank REAL) AS $$
+DECLARE
+  v_query TEXT := public.normalize_arabic(p_query);
+  v_words TEXT[];
+  v_tsquery TSQUERY;
+BEGIN
+  SELECT array_agg(word) INTO v_words
+  FROM unnest(regexp_split_to_array(v_query, '[[:space:][:punct:]]+')) AS word
+  WHERE word <> '';
+
+  IF v_words IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO v_tsquery
+  FROM unnest(v_words) AS word;
+
+  RETURN QUERY
+  SELECT p.id,
+    (ts_rank(p.search_vector, v_tsquery) + word_similarity(v_query, p.search_text))::REAL AS rank
+  FROM public.products p
+  WHERE p.search_vector @@ v_tsquery
+  OR NOT EXISTS (
+    SELECT 1 FROM unnest(v_words) AS word
+    WHERE word_similarity(word, p.search_text) < 0.4
+  )
+  ORDER BY rank DESC, p.name
+  LIMIT LEAST(GREATEST(coalesce(p_limit, 50), 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE;
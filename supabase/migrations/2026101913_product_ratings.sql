@@ -0,0 +1,62 @@
+-- Average rating and review count kept on each product so the catalog can be
+-- filtered and sorted by rating in the database (see getProducts in
+-- src/services/products). Only approved reviews count.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS average_rating NUMERIC(3, 2),
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_products_average_rating ON public.products(average_rating);
+CREATE INDEX IF NOT EXISTS idx_products_price ON public.products(price);
+
+CREATE OR REPLACE FUNCTION public.refresh_product_rating(p_product_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.products p
+  SET average_rating = r.average_rating,
+    review_count = r.review_count
+  FROM (
+    SELECT ROUND(AVG(rating), 2) AS average_rating, COUNT(*)::INTEGER AS review_count
+    FROM public.reviews
+    WHERE product_id = p_product_id
+    AND status = 'approved'
+  ) r
+  WHERE p.id = p_product_id;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Recomputes the rating of the products a review change touches, including
+-- the old product when a review is moved
+CREATE OR REPLACE FUNCTION public.sync_product_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.product_id IS NOT NULL THEN
+    PERFORM public.refresh_product_rating(OLD.product_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.product_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id
+      OR NEW.status IS DISTINCT FROM OLD.status OR NEW.rating IS DISTINCT FROM OLD.rating) THEN
+    PERFORM public.refresh_product_rating(NEW.product_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_product_rating ON public.reviews;
+CREATE TRIGGER sync_product_rating
+  AFTER INSERT OR UPDATE OF product_id, rating, status OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_rating();
+
+-- Ratings of existing products
+UPDATE public.products p
+SET average_rating = r.average_rating,
+  review_count = r.review_count
+FROM (
+  SELECT product_id, ROUND(AVG(rating), 2) AS average_rating, COUNT(*)::INTEGER AS review_count
+  FROM public.reviews
+  WHERE status = 'approved'
+  GROUP BY product_id
+) r
+WHERE p.id = r.product_id;
+
+REVOKE ALL ON FUNCTION public.refresh_product_rating(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_product_rating() FROM PUBLIC, anon, authenticated;
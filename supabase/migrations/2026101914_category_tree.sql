@@ -0,0 +1,76 @@
+-- Nested categories (see src/services/products/category-tree.ts). Each
+-- category has an optional parent, a position among its siblings and a slug
+-- for its storefront landing page at /categories/[slug].
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS slug VARCHAR(120),
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.categories DROP CONSTRAINT IF EXISTS categories_parent_not_self;
+ALTER TABLE public.categories ADD CONSTRAINT categories_parent_not_self CHECK (parent_id <> id);
+
+-- Slugs for existing categories from their names, keeping Arabic letters;
+-- names that slug the same get the start of their id appended
+UPDATE public.categories
+SET slug = COALESCE(NULLIF(btrim(regexp_replace(lower(name), '[^[:alnum:]]+', '-', 'g'), '-'), ''), 'category')
+WHERE slug IS NULL;
+
+UPDATE public.categories c
+SET slug = c.slug || '-' || left(c.id::text, 8)
+WHERE EXISTS (
+  SELECT 1 FROM public.categories other
+  WHERE other.slug = c.slug
+  AND other.id < c.id
+);
+
+ALTER TABLE public.categories ALTER COLUMN slug SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS categories_slug_key ON public.categories(slug);
+CREATE INDEX IF NOT EXISTS idx_categories_parent ON public.categories(parent_id, sort_order);
+
+-- A category cannot be moved under itself or one of its descendants
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category % cannot be moved under its own descendant', NEW.id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_category_parent ON public.categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_parent();
+
+-- Puts the categories under the parent (top level when NULL) in the given
+-- order, in one transaction so a drag and drop never leaves gaps or ties
+CREATE OR REPLACE FUNCTION public.reorder_categories(p_parent_id UUID, p_category_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.categories c
+  SET parent_id = p_parent_id,
+    sort_order = ordered.position
+  FROM unnest(p_category_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE c.id = ordered.id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.reorder_categories(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,119 @@
+-- Product galleries (see src/services/products/product-images.service.ts).
+-- Each image has a position, Arabic and English alt text, and the path of
+-- its file in the product-images bucket so it can be removed with the row.
+-- One image per product is primary; products.image_url follows it so code
+-- reading the single image keeps working.
+ALTER TABLE public.product_images
+  ADD COLUMN IF NOT EXISTS alt_text_ar TEXT,
+  ADD COLUMN IF NOT EXISTS alt_text_en TEXT,
+  ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product ON public.product_images(product_id, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS product_images_one_primary
+  ON public.product_images(product_id)
+  WHERE is_primary;
+
+-- Products with only the single image get it as their first gallery image
+INSERT INTO public.product_images (product_id, image_url, is_primary, sort_order)
+SELECT p.id, p.image_url, true, 0
+FROM public.products p
+WHERE p.image_url IS NOT NULL
+AND p.image_url <> ''
+AND NOT EXISTS (SELECT 1 FROM public.product_images i WHERE i.product_id = p.id);
+
+-- Galleries without a primary image get their oldest one
+UPDATE public.product_images i
+SET is_primary = true
+WHERE i.id = (
+  SELECT oldest.id FROM public.product_images oldest
+  WHERE oldest.product_id = i.product_id
+  ORDER BY oldest.sort_order, oldest.created_at, oldest.id
+  LIMIT 1
+)
+AND NOT EXISTS (
+  SELECT 1 FROM public.product_images other
+  WHERE other.product_id = i.product_id
+  AND other.is_primary
+);
+
+-- Points products.image_url at the primary image, or the first one when
+-- none is marked; cleared once the gallery is empty
+CREATE OR REPLACE FUNCTION public.sync_product_image_url(p_product_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.products p
+  SET image_url = cover.image_url
+  FROM (
+    SELECT (
+      SELECT i.image_url FROM public.product_images i
+      WHERE i.product_id = p_product_id
+      ORDER BY i.is_primary DESC, i.sort_order, i.created_at
+      LIMIT 1
+    ) AS image_url
+  ) cover
+  WHERE p.id = p_product_id
+  AND p.image_url IS DISTINCT FROM cover.image_url;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_product_image_url_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+    PERFORM public.sync_product_image_url(OLD.product_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL THEN
+    PERFORM public.sync_product_image_url(NEW.product_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_product_image_url ON public.product_images;
+CREATE TRIGGER sync_product_image_url
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_images
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_image_url_trigger();
+
+-- Orders the product's gallery as given by the admin's drag and drop
+CREATE OR REPLACE FUNCTION public.reorder_product_images(p_product_id UUID, p_image_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.product_images i
+  SET sort_order = ordered.position
+  FROM unnest(p_image_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE i.id = ordered.id
+  AND i.product_id = p_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Demotes the old primary image before promoting the new one, in one
+-- transaction so the one-primary index never sees two
+CREATE OR REPLACE FUNCTION public.set_primary_product_image(p_product_id UUID, p_image_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.product_images
+    WHERE product_id = p_product_id
+    AND id = p_image_id
+  ) THEN
+    RAISE EXCEPTION 'Image % does not belong to product %', p_image_id, p_product_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.product_images
+  SET is_primary = false
+  WHERE product_id = p_product_id
+  AND is_primary
+  AND id <> p_image_id;
+
+  UPDATE public.product_images
+  SET is_primary = true
+  WHERE product_id = p_product_id
+  AND id = p_image_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.sync_product_image_url(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.reorder_product_images(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.set_primary_product_image(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Processed product images (see src/services/products/image-processing.ts).
+-- Uploads are stored as resized WebP and AVIF files rather than the original;
+-- variants lists them ({ format, width, height, url, path }) for srcsets, and
+-- the blur placeholder is a tiny inline WebP shown while they load.
+ALTER TABLE public.product_images
+  ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS blur_data_url TEXT,
+  ADD COLUMN IF NOT EXISTS width INTEGER,
+  ADD COLUMN IF NOT EXISTS height INTEGER;
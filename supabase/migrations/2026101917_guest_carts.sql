@@ -0,0 +1,15 @@
+-- Guest carts (see src/services/cart). A visitor who is not signed in gets a
+-- cart found by the token in their signed guest_cart cookie instead of by
+-- customer; it is merged into the account cart when they sign in. Guest
+-- carts are only read and written through the service role, so the existing
+-- customer policies keep them out of reach of other visitors.
+ALTER TABLE public.carts
+  ADD COLUMN IF NOT EXISTS guest_token UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS carts_guest_token_key ON public.carts(guest_token);
+
+-- A cart belongs to a customer or to a guest, never both. Carts created
+-- before this without a customer are left as they are.
+ALTER TABLE public.carts DROP CONSTRAINT IF EXISTS carts_owner_check;
+ALTER TABLE public.carts
+  ADD CONSTRAINT carts_owner_check CHECK (num_nonnulls(customer_id, guest_token) = 1) NOT VALID;
@@ -0,0 +1,18 @@
+-- Guest checkout (see CheckoutServiceImpl.processGuestCheckout). A guest's
+-- order belongs to a customers row of its own with no sign-in behind it.
+-- Creating an account from the order confirmation page gives the new user
+-- that row's id, so the order stays theirs.
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS is_guest BOOLEAN NOT NULL DEFAULT false;
+
+-- Guest customers have no auth user until they create an account
+ALTER TABLE public.customers DROP CONSTRAINT IF EXISTS customers_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_customers_email ON public.customers(lower(email));
+
+-- Opens an order's confirmation page without signing in. Every order gets
+-- one, so a link to the order can be sent to a guest later as well.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS access_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_access_token_key ON public.orders(access_token);
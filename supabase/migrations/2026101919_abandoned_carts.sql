@@ -0,0 +1,59 @@
+-- Cart lifecycle and abandoned cart recovery (see src/services/cart). A cart
+-- is active while it is being filled, converted once its items become an
+-- order, and abandoned when it has sat untouched with items in it for the
+-- store's idle period. Changing a converted or abandoned cart makes it active
+-- again, so each customer or guest keeps a single cart row.
+ALTER TABLE public.carts
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS abandoned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS converted_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  -- Opens the restore link in the recovery message
+  ADD COLUMN IF NOT EXISTS recovery_token UUID,
+  ADD COLUMN IF NOT EXISTS recovery_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS recovery_discount_code VARCHAR(50);
+
+ALTER TABLE public.carts DROP CONSTRAINT IF EXISTS check_cart_status;
+ALTER TABLE public.carts
+  ADD CONSTRAINT check_cart_status CHECK (status IN ('active', 'abandoned', 'converted'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS carts_recovery_token_key ON public.carts(recovery_token);
+CREATE INDEX IF NOT EXISTS idx_carts_status_updated_at ON public.carts(status, updated_at);
+
+-- Hours a cart can sit untouched before it counts as abandoned, and the
+-- percentage off offered by the recovery message's coupon (none when null)
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS abandoned_cart_hours INTEGER NOT NULL DEFAULT 24,
+  ADD COLUMN IF NOT EXISTS abandoned_cart_discount_percent DECIMAL(5,2);
+
+ALTER TABLE public.store_settings DROP CONSTRAINT IF EXISTS check_abandoned_cart_settings;
+ALTER TABLE public.store_settings
+  ADD CONSTRAINT check_abandoned_cart_settings CHECK (
+    abandoned_cart_hours > 0 AND
+    (abandoned_cart_discount_percent IS NULL OR
+      (abandoned_cart_discount_percent > 0 AND abandoned_cart_discount_percent <= 100))
+  );
+
+-- Marks active carts with items that have not changed for p_idle_hours as
+-- abandoned and returns how many were marked
+CREATE OR REPLACE FUNCTION public.mark_abandoned_carts(p_idle_hours INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_marked INTEGER;
+BEGIN
+  IF p_idle_hours IS NULL OR p_idle_hours <= 0 THEN
+    RAISE EXCEPTION 'INVALID_IDLE_HOURS';
+  END IF;
+
+  UPDATE public.carts c
+  SET status = 'abandoned', abandoned_at = NOW()
+  WHERE c.status = 'active'
+    AND c.updated_at < NOW() - make_interval(hours => p_idle_hours)
+    AND EXISTS (SELECT 1 FROM public.cart_items i WHERE i.cart_id = c.id);
+
+  GET DIAGNOSTICS v_marked = ROW_COUNT;
+  RETURN v_marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.mark_abandoned_carts(INTEGER) FROM PUBLIC, anon, authenticated;
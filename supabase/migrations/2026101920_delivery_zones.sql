@@ -0,0 +1,88 @@
+-- Delivery zones (see src/services/delivery). A zone groups one or more of
+-- the Tunisian governorates under a delivery fee and an optional free-delivery
+-- threshold, or marks them undeliverable. A governorate belongs to at most one
+-- zone; addresses outside every zone use the store-wide fee and threshold.
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS free_delivery_threshold DECIMAL(10,2);
+
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+  free_delivery_threshold DECIMAL(10,2),
+  is_deliverable BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_delivery_zone_fee CHECK (fee >= 0),
+  CONSTRAINT check_delivery_zone_threshold CHECK (free_delivery_threshold IS NULL OR free_delivery_threshold > 0)
+);
+
+-- Governorates are stored by code ('tunis', 'sfax', ...), see TUNISIAN_GOVERNORATES
+CREATE TABLE IF NOT EXISTS public.delivery_zone_governorates (
+  governorate VARCHAR(50) PRIMARY KEY,
+  zone_id UUID NOT NULL REFERENCES public.delivery_zones(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_zone_governorates_zone ON public.delivery_zone_governorates(zone_id);
+
+DROP TRIGGER IF EXISTS update_delivery_zones_updated_at ON public.delivery_zones;
+CREATE TRIGGER update_delivery_zones_updated_at
+  BEFORE UPDATE ON public.delivery_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only the service role touches these tables
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_zone_governorates ENABLE ROW LEVEL SECURITY;
+
+-- Creates (p_zone_id NULL) or updates a zone and replaces its governorates in
+-- one transaction. Raises GOVERNORATE_IN_OTHER_ZONE when one of them already
+-- belongs to another zone, and DELIVERY_ZONE_NOT_FOUND for an unknown id.
+CREATE OR REPLACE FUNCTION public.save_delivery_zone(
+  p_zone_id UUID,
+  p_name VARCHAR,
+  p_fee DECIMAL,
+  p_free_delivery_threshold DECIMAL,
+  p_is_deliverable BOOLEAN,
+  p_governorates VARCHAR[]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_zone_id UUID;
+BEGIN
+  IF p_zone_id IS NULL THEN
+    INSERT INTO public.delivery_zones (name, fee, free_delivery_threshold, is_deliverable)
+    VALUES (p_name, p_fee, p_free_delivery_threshold, p_is_deliverable)
+    RETURNING id INTO v_zone_id;
+  ELSE
+    UPDATE public.delivery_zones
+    SET name = p_name,
+        fee = p_fee,
+        free_delivery_threshold = p_free_delivery_threshold,
+        is_deliverable = p_is_deliverable
+    WHERE id = p_zone_id
+    RETURNING id INTO v_zone_id;
+
+    IF v_zone_id IS NULL THEN
+      RAISE EXCEPTION 'DELIVERY_ZONE_NOT_FOUND';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_zone_governorates
+    WHERE governorate = ANY(p_governorates) AND zone_id <> v_zone_id
+  ) THEN
+    RAISE EXCEPTION 'GOVERNORATE_IN_OTHER_ZONE';
+  END IF;
+
+  DELETE FROM public.delivery_zone_governorates WHERE zone_id = v_zone_id;
+
+  INSERT INTO public.delivery_zone_governorates (governorate, zone_id)
+  SELECT DISTINCT g, v_zone_id FROM unnest(p_governorates) AS g;
+
+  RETURN v_zone_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.save_delivery_zone(UUID, VARCHAR, DECIMAL, DECIMAL, BOOLEAN, VARCHAR[])
+  FROM PUBLIC, anon, authenticated;
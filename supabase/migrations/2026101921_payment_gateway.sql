@@ -0,0 +1,128 @@
+-- Online card payments through a payment gateway (see src/services/payments)
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS check_order_status;
+ALTER TABLE public.orders
+  ADD CONSTRAINT check_order_status
+  CHECK (status IN (
+    'Pending Confirmation', 'Awaiting Payment', 'Confirmed', 'Processing', 'Shipped', 'Delivered', 'Cancelled'
+  ));
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(30),
+  ADD COLUMN IF NOT EXISTS provider_session_id VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_session
+  ON public.payments(provider, provider_session_id)
+  WHERE provider_session_id IS NOT NULL;
+
+-- Orders waiting for their card payment are not confirmed yet either
+CREATE OR REPLACE FUNCTION public.issue_invoice(p_order_id UUID, p_issued_by UUID DEFAULT NULL)
+RETURNS public.invoices AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_order.status = 'Cancelled' THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_CANCELLED';
+  END IF;
+  IF v_order.status IN ('Pending Confirmation', 'Awaiting Payment') THEN
+    RAISE EXCEPTION 'INVOICE_ORDER_NOT_CONFIRMED';
+  END IF;
+
+  INSERT INTO public.invoice_sequences (fiscal_year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.invoices (order_id, invoice_number, fiscal_year, sequence_number, total_amount, issued_by)
+  VALUES (
+    p_order_id,
+    'FAC-' || v_year || '-' || lpad(v_number::TEXT, 6, '0'),
+    v_year,
+    v_number,
+    v_order.total_amount,
+    p_issued_by
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records the gateway's verdict on a payment session. The gateway's callback
+-- and the customer's return both report the same session, in either order and
+-- possibly more than once, so only a pending payment is changed. A completed
+-- payment confirms an order that is still awaiting payment, in the same
+-- transaction; a failed one leaves the order waiting for another attempt.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  p_provider VARCHAR,
+  p_session_id VARCHAR,
+  p_status VARCHAR,
+  p_amount NUMERIC,
+  p_transaction_id VARCHAR DEFAULT NULL
+)
+RETURNS public.payments AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE provider = p_provider AND provider_session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_SESSION_NOT_FOUND';
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_status = 'completed' THEN
+    IF p_amount IS DISTINCT FROM v_payment.amount THEN
+      RAISE EXCEPTION 'PAYMENT_AMOUNT_MISMATCH';
+    END IF;
+
+    UPDATE public.payments
+    SET status = 'completed', transaction_id = COALESCE(p_transaction_id, p_session_id), processed_at = NOW()
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+
+    UPDATE public.orders SET status = 'Confirmed'
+    WHERE id = v_payment.order_id AND status = 'Awaiting Payment';
+
+    IF FOUND THEN
+      INSERT INTO public.order_tracking (order_id, event_type, status, notes)
+      VALUES (
+        v_payment.order_id,
+        'status_change',
+        'Confirmed',
+        'تم الدفع بالبطاقة بمبلغ ' || to_char(v_payment.amount, 'FM999999990.00') || ' د.ت'
+      );
+    END IF;
+  ELSIF p_status = 'failed' THEN
+    UPDATE public.payments
+    SET status = 'failed', transaction_id = COALESCE(p_transaction_id, transaction_id), processed_at = NOW()
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.record_payment_result(VARCHAR, VARCHAR, VARCHAR, NUMERIC, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,111 @@
+-- Bank transfer payments: the store's bank details and the receipts customers
+-- upload as proof of payment (see src/services/payments/bank-transfer.service.ts)
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS bank_account_name VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS bank_name VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS bank_rib VARCHAR(20);
+
+CREATE TABLE IF NOT EXISTS public.payment_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  file_name VARCHAR(255),
+  content_type VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  rejection_reason TEXT,
+  reviewed_by UUID,
+  reviewed_by_email VARCHAR(255),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_payment_proof_status CHECK (status IN ('pending', 'approved', 'rejected'))
+);
+
+-- One receipt under review per payment; a rejected one can be replaced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_proofs_pending
+  ON public.payment_proofs(payment_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_order_id ON public.payment_proofs(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_status ON public.payment_proofs(status, created_at);
+
+-- Read and written by the service role only; customers see their receipts through the order pages
+ALTER TABLE public.payment_proofs ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are private; admins view them through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('payment-proofs', 'payment-proofs', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Approves or rejects a receipt. Approval completes the payment and confirms
+-- the order in the same transaction; rejection leaves both waiting for a new
+-- receipt and tells the customer why on the order's history.
+CREATE OR REPLACE FUNCTION public.review_payment_proof(
+  p_proof_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL,
+  p_reviewed_by UUID DEFAULT NULL,
+  p_reviewed_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.payment_proofs AS $$
+DECLARE
+  v_proof public.payment_proofs%ROWTYPE;
+  v_order_status VARCHAR;
+BEGIN
+  SELECT * INTO v_proof FROM public.payment_proofs WHERE id = p_proof_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_PROOF_NOT_FOUND';
+  END IF;
+  IF v_proof.status <> 'pending' THEN
+    RAISE EXCEPTION 'PAYMENT_PROOF_ALREADY_REVIEWED';
+  END IF;
+
+  SELECT status INTO v_order_status FROM public.orders WHERE id = v_proof.order_id FOR UPDATE;
+  IF v_order_status IS DISTINCT FROM 'Awaiting Payment' THEN
+    RAISE EXCEPTION 'ORDER_NOT_AWAITING_PAYMENT';
+  END IF;
+
+  UPDATE public.payment_proofs
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    rejection_reason = CASE WHEN p_approve THEN NULL ELSE p_reason END,
+    reviewed_by = p_reviewed_by,
+    reviewed_by_email = p_reviewed_by_email,
+    reviewed_at = NOW()
+  WHERE id = p_proof_id
+  RETURNING * INTO v_proof;
+
+  IF p_approve THEN
+    UPDATE public.payments
+    SET status = 'completed', transaction_id = 'transfer_' || v_proof.id, processed_at = NOW()
+    WHERE id = v_proof.payment_id;
+
+    UPDATE public.orders SET status = 'Confirmed' WHERE id = v_proof.order_id;
+
+    INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+    VALUES (
+      v_proof.order_id,
+      'status_change',
+      'Confirmed',
+      'تم التحقق من إيصال التحويل البنكي',
+      p_reviewed_by,
+      p_reviewed_by_email
+    );
+  ELSE
+    INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+    VALUES (
+      v_proof.order_id,
+      'note',
+      v_order_status,
+      'رُفض إيصال التحويل البنكي' || COALESCE(': ' || p_reason, ''),
+      p_reviewed_by,
+      p_reviewed_by_email
+    );
+  END IF;
+
+  RETURN v_proof;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.review_payment_proof(UUID, BOOLEAN, TEXT, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,147 @@
+-- Cash on delivery reconciliation: the cash couriers collect on delivery and
+-- hand over to the store in remittance batches
+-- (see src/services/payments/cod-reconciliation.service.ts)
+CREATE TABLE IF NOT EXISTS public.couriers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  phone VARCHAR(30),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.cod_remittances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  courier_id UUID NOT NULL REFERENCES public.couriers(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  -- What the batch's collections add up to, and what the courier actually handed over
+  expected_amount NUMERIC(10,2) NOT NULL,
+  received_amount NUMERIC(10,2),
+  notes TEXT,
+  created_by UUID,
+  created_by_email VARCHAR(255),
+  received_by UUID,
+  received_by_email VARCHAR(255),
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_cod_remittance_status CHECK (status IN ('pending', 'received'))
+);
+
+-- One collection per order, batched into at most one remittance
+CREATE TABLE IF NOT EXISTS public.cod_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  courier_id UUID NOT NULL REFERENCES public.couriers(id),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  remittance_id UUID REFERENCES public.cod_remittances(id) ON DELETE SET NULL,
+  collected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  recorded_by UUID,
+  recorded_by_email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_collections_courier_id ON public.cod_collections(courier_id);
+CREATE INDEX IF NOT EXISTS idx_cod_collections_remittance_id ON public.cod_collections(remittance_id);
+CREATE INDEX IF NOT EXISTS idx_cod_remittances_courier_status ON public.cod_remittances(courier_id, status);
+
+-- Read and written by the service role only, from the admin pages
+ALTER TABLE public.couriers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cod_remittances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cod_collections ENABLE ROW LEVEL SECURITY;
+
+-- Cash on delivery orders now get a pending payment row when they are placed;
+-- give the ones placed before this one too
+INSERT INTO public.payments (order_id, amount, payment_method, transaction_id)
+SELECT o.id, o.total_amount, 'cash_on_delivery', 'pending_' || o.id
+FROM public.orders o
+WHERE o.payment_method = 'cash_on_delivery'
+  AND o.status <> 'Cancelled'
+  AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.order_id = o.id);
+
+-- Groups a courier's collections that are not in a batch yet into a new remittance
+CREATE OR REPLACE FUNCTION public.create_cod_remittance(
+  p_courier_id UUID,
+  p_collection_ids UUID[],
+  p_created_by UUID DEFAULT NULL,
+  p_created_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.cod_remittances AS $$
+DECLARE
+  v_remittance public.cod_remittances%ROWTYPE;
+  v_count INTEGER;
+  v_total NUMERIC(10,2);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.couriers WHERE id = p_courier_id) THEN
+    RAISE EXCEPTION 'COURIER_NOT_FOUND';
+  END IF;
+  IF COALESCE(array_length(p_collection_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'COD_REMITTANCE_EMPTY';
+  END IF;
+
+  PERFORM 1 FROM public.cod_collections WHERE id = ANY(p_collection_ids) FOR UPDATE;
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0) INTO v_count, v_total
+  FROM public.cod_collections
+  WHERE id = ANY(p_collection_ids) AND courier_id = p_courier_id AND remittance_id IS NULL;
+
+  -- Every collection must be the courier's and not already batched
+  IF v_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_collection_ids) AS id) THEN
+    RAISE EXCEPTION 'COD_COLLECTIONS_UNAVAILABLE';
+  END IF;
+
+  INSERT INTO public.cod_remittances (courier_id, expected_amount, created_by, created_by_email)
+  VALUES (p_courier_id, v_total, p_created_by, p_created_by_email)
+  RETURNING * INTO v_remittance;
+
+  UPDATE public.cod_collections SET remittance_id = v_remittance.id WHERE id = ANY(p_collection_ids);
+
+  RETURN v_remittance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records that the store received a batch's cash, which completes the payments
+-- of its orders. A payment refunded in the meantime keeps its refund status.
+CREATE OR REPLACE FUNCTION public.receive_cod_remittance(
+  p_remittance_id UUID,
+  p_received_amount NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_received_by UUID DEFAULT NULL,
+  p_received_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.cod_remittances AS $$
+DECLARE
+  v_remittance public.cod_remittances%ROWTYPE;
+BEGIN
+  SELECT * INTO v_remittance FROM public.cod_remittances WHERE id = p_remittance_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COD_REMITTANCE_NOT_FOUND';
+  END IF;
+  IF v_remittance.status = 'received' THEN
+    RAISE EXCEPTION 'COD_REMITTANCE_ALREADY_RECEIVED';
+  END IF;
+
+  UPDATE public.cod_remittances
+  SET
+    status = 'received',
+    received_amount = COALESCE(p_received_amount, expected_amount),
+    notes = p_notes,
+    received_by = p_received_by,
+    received_by_email = p_received_by_email,
+    received_at = NOW()
+  WHERE id = p_remittance_id
+  RETURNING * INTO v_remittance;
+
+  UPDATE public.payments p
+  SET status = 'completed', transaction_id = 'cod_' || v_remittance.id, processed_at = NOW()
+  FROM public.cod_collections c
+  WHERE c.remittance_id = v_remittance.id AND p.id = c.payment_id AND p.status = 'pending';
+
+  RETURN v_remittance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.create_cod_remittance(UUID, UUID[], UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.receive_cod_remittance(UUID, NUMERIC, TEXT, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
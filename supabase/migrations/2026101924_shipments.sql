@@ -0,0 +1,35 @@
+-- Shipments: the carrier and tracking number an order was shipped with, and
+-- when the carrier delivered it (see src/services/delivery/shipment.service.ts)
+CREATE TABLE IF NOT EXISTS public.shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- The carrier adapter's code, and its name as shown to the customer
+  carrier VARCHAR(50) NOT NULL,
+  carrier_name VARCHAR(100),
+  tracking_number VARCHAR(100) NOT NULL,
+  tracking_url TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'in_transit',
+  shipped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  -- Last time the carrier was asked for the delivery status
+  last_checked_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_shipment_status CHECK (status IN ('in_transit', 'delivered', 'returned'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_status ON public.shipments(status, last_checked_at);
+
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+
+-- Customers can read the shipment of their own orders; writes go through the service role
+DROP POLICY IF EXISTS "Customers read own shipments" ON public.shipments;
+CREATE POLICY "Customers read own shipments" ON public.shipments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = shipments.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
@@ -0,0 +1,32 @@
+-- Transactional emails: the language each customer is written to in, and a
+-- log of the emails sent about each order (see
+-- src/services/notifications/order-email.service.ts)
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS preferred_locale VARCHAR(2) NOT NULL DEFAULT 'ar';
+
+ALTER TABLE public.customers DROP CONSTRAINT IF EXISTS check_customer_preferred_locale;
+ALTER TABLE public.customers
+  ADD CONSTRAINT check_customer_preferred_locale CHECK (preferred_locale IN ('ar', 'fr', 'en'));
+
+CREATE TABLE IF NOT EXISTS public.order_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- order_placed, order_confirmed, order_shipped, order_delivered or order_cancelled
+  type VARCHAR(30) NOT NULL,
+  locale VARCHAR(2) NOT NULL,
+  recipient VARCHAR(255) NOT NULL,
+  subject TEXT NOT NULL,
+  status VARCHAR(10) NOT NULL,
+  error TEXT,
+  -- Set when an admin resent the email; automatic sends have no sender
+  sent_by UUID,
+  sent_by_email VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_order_email_status CHECK (status IN ('sent', 'failed')),
+  CONSTRAINT check_order_email_locale CHECK (locale IN ('ar', 'fr', 'en'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_emails_order_id ON public.order_emails(order_id, created_at);
+
+-- Read and written by the service role only, from the admin order page
+ALTER TABLE public.order_emails ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,93 @@
+-- Order history written in the same transaction as the change it records, so
+-- an order is never placed or moved on without its timeline entry and a
+-- failed history insert rolls the change back (see src/services/orders)
+
+-- Same as in 2026101909, with the "Order created" history entry. A guest has
+-- no user to record the entry against, so p_created_by is left NULL for them.
+DROP FUNCTION IF EXISTS public.create_order_with_items(JSONB, JSONB, VARCHAR);
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_discount_code VARCHAR DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  INSERT INTO public.orders (
+    customer_id, subtotal, discount_amount, discount_code, tax_rate, tax_amount, delivery_fee,
+    total_amount, shipping_address_id, payment_method, notes, status, order_date
+  )
+  SELECT
+    o.customer_id, o.subtotal, o.discount_amount, o.discount_code, o.tax_rate, o.tax_amount, o.delivery_fee,
+    o.total_amount, o.shipping_address_id, o.payment_method, o.notes, o.status, COALESCE(o.order_date, NOW())
+  FROM jsonb_populate_record(NULL::public.orders, p_order) AS o
+  RETURNING * INTO v_order;
+
+  PERFORM public.set_stock_movement_context('sale', v_order.id, v_order.customer_id);
+  PERFORM public.reserve_stock(p_items);
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, variant_name, quantity, price)
+  SELECT v_order.id, i.product_id, i.variant_id, v.name, i.quantity, i.price
+  FROM jsonb_to_recordset(p_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER, price NUMERIC)
+  LEFT JOIN public.product_variants v ON v.id = i.variant_id;
+
+  IF p_discount_code IS NOT NULL THEN
+    PERFORM public.redeem_discount_code(p_discount_code, v_order.id, v_order.customer_id, v_order.discount_amount);
+  END IF;
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by)
+  VALUES (v_order.id, 'status_change', v_order.status, 'Order created', p_created_by);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Moves an order to a new status if it still has the status the caller
+-- checked the transition against, so two concurrent admin actions cannot
+-- both apply. The status change and the tracking number, if any, are added
+-- to the order's history. Cancellation goes through cancel_order instead.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_expected_status VARCHAR,
+  p_status VARCHAR,
+  p_notes TEXT DEFAULT NULL,
+  p_tracking_number VARCHAR DEFAULT NULL,
+  p_updated_by UUID DEFAULT NULL,
+  p_updated_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF p_status = 'Cancelled' THEN
+    RAISE EXCEPTION 'ORDER_CANCEL_REQUIRED';
+  END IF;
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id AND status IS NOT DISTINCT FROM p_expected_status
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_STATUS_CONFLICT';
+  END IF;
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+  VALUES (p_order_id, 'status_change', p_status, p_notes, p_updated_by, p_updated_by_email);
+
+  IF p_tracking_number IS NOT NULL THEN
+    INSERT INTO public.order_tracking (
+      order_id, event_type, status, tracking_number, created_by, created_by_email
+    )
+    VALUES (p_order_id, 'tracking_number', p_status, p_tracking_number, p_updated_by, p_updated_by_email);
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.create_order_with_items(JSONB, JSONB, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.update_order_status(UUID, VARCHAR, VARCHAR, TEXT, VARCHAR, UUID, VARCHAR)
+  FROM PUBLIC, anon, authenticated;
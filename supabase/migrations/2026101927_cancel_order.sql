@@ -0,0 +1,40 @@
+-- Order cancellation in one transaction: the status change, its history
+-- entry, the coupon release and the stock restore either all happen or none
+-- do, so a failure leaves the order as it was and the cancellation can be
+-- retried (see src/services/orders)
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_cancelled_by UUID DEFAULT NULL,
+  p_cancelled_by_email VARCHAR DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  -- The lock keeps a concurrent status change or cancellation waiting until this one is done
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND';
+  END IF;
+  IF v_order.status = 'Delivered' THEN
+    RAISE EXCEPTION 'ORDER_ALREADY_DELIVERED';
+  END IF;
+  IF v_order.status = 'Cancelled' THEN
+    RAISE EXCEPTION 'ORDER_ALREADY_CANCELLED';
+  END IF;
+
+  UPDATE public.orders SET status = 'Cancelled' WHERE id = p_order_id RETURNING * INTO v_order;
+
+  INSERT INTO public.order_tracking (order_id, event_type, status, notes, created_by, created_by_email)
+  VALUES (p_order_id, 'cancellation', 'Cancelled', p_reason, p_cancelled_by, p_cancelled_by_email);
+
+  PERFORM public.release_discount_redemptions(p_order_id);
+  PERFORM public.restore_order_stock(p_order_id, p_cancelled_by, p_cancelled_by_email);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.cancel_order(UUID, TEXT, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- Abandoned cart recovery coupons belong to the customer whose cart it was
+-- (see src/services/cart): a code tied to a customer is only redeemed on
+-- that customer's orders, so a forwarded link or code is of no use to others
+ALTER TABLE public.discount_codes
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE;
+
+-- Same as in 2026101903, refusing a code tied to another customer
+CREATE OR REPLACE FUNCTION public.redeem_discount_code(
+  p_code VARCHAR,
+  p_order_id UUID,
+  p_customer_id UUID,
+  p_amount DECIMAL
+) RETURNS UUID AS $$
+DECLARE
+  v_discount public.discount_codes%ROWTYPE;
+  v_customer_uses INTEGER;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_discount FROM public.discount_codes
+  WHERE code = upper(p_code)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DISCOUNT_NOT_FOUND';
+  END IF;
+  IF NOT v_discount.is_active THEN
+    RAISE EXCEPTION 'DISCOUNT_INACTIVE';
+  END IF;
+  IF v_discount.starts_at IS NOT NULL AND NOW() < v_discount.starts_at THEN
+    RAISE EXCEPTION 'DISCOUNT_NOT_STARTED';
+  END IF;
+  IF v_discount.expires_at IS NOT NULL AND NOW() > v_discount.expires_at THEN
+    RAISE EXCEPTION 'DISCOUNT_EXPIRED';
+  END IF;
+  IF v_discount.usage_limit IS NOT NULL AND v_discount.used_count >= v_discount.usage_limit THEN
+    RAISE EXCEPTION 'DISCOUNT_USAGE_LIMIT_REACHED';
+  END IF;
+  IF v_discount.customer_id IS NOT NULL AND p_customer_id IS DISTINCT FROM v_discount.customer_id THEN
+    RAISE EXCEPTION 'DISCOUNT_CUSTOMER_NOT_ELIGIBLE';
+  END IF;
+
+  IF v_discount.per_customer_limit IS NOT NULL AND p_customer_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_uses FROM public.discount_redemptions
+    WHERE discount_code_id = v_discount.id AND customer_id = p_customer_id;
+
+    IF v_customer_uses >= v_discount.per_customer_limit THEN
+      RAISE EXCEPTION 'DISCOUNT_CUSTOMER_LIMIT_REACHED';
+    END IF;
+  END IF;
+
+  INSERT INTO public.discount_redemptions (discount_code_id, order_id, customer_id, amount)
+  VALUES (v_discount.id, p_order_id, p_customer_id, p_amount)
+  RETURNING id INTO v_redemption_id;
+
+  UPDATE public.discount_codes SET used_count = used_count + 1 WHERE id = v_discount.id;
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.redeem_discount_code(VARCHAR, UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;